@@ -1,16 +1,35 @@
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import type { AICoding } from '@/lib/claude'
+import type { CodingExemplar } from '@evidenra/core'
+import { aiUsageApi, codingValidationsApi, type AiBudgetStatus, type AiPrecisionRow } from '@/lib/api'
+import {
+  CODING_MODELS,
+  describeBudget,
+  estimateRun,
+  exceededBudget,
+  formatTokens,
+  formatUsd,
+} from '@/lib/aiUsage'
+import { formatPrecision, overallPrecision, precisionByCode, precisionByMethod } from '@/lib/activeLearning'
 
 type CodingMethod = 'dynamic-personas' | 'three-expert' | 'calibrated-pattern' | 'ultra-turbo'
 
 interface AICodingPanelProps {
   documentId: string
   documentName: string
-  onStartCoding: (method: CodingMethod) => void
+  projectId: string
+  /** Text of the document, for the cost estimate */
+  documentContent: string
+  existingCodes?: { id?: string; name: string; description?: string | null }[]
+  /** Reviewed AI codings used as few-shot examples */
+  exemplars?: CodingExemplar[]
+  onStartCoding: (method: CodingMethod, model: string) => void
   onClose: () => void
   isProcessing?: boolean
   progress?: number
   statusMessage?: string
   error?: string | null
+  liveCodings?: (AICoding & { source: string })[]
 }
 
 const methods: {
@@ -58,14 +77,46 @@ const methods: {
 export default function AICodingPanel({
   documentId,
   documentName,
+  projectId,
+  documentContent,
+  existingCodes = [],
+  exemplars = [],
   onStartCoding,
   onClose,
   isProcessing = false,
   progress = 0,
   statusMessage = '',
   error = null,
+  liveCodings = [],
 }: AICodingPanelProps) {
   const [selectedMethod, setSelectedMethod] = useState<CodingMethod>('three-expert')
+  const [selectedModel, setSelectedModel] = useState(CODING_MODELS[0].id)
+  const [budgets, setBudgets] = useState<AiBudgetStatus[]>([])
+  const [precisionRows, setPrecisionRows] = useState<AiPrecisionRow[]>([])
+
+  useEffect(() => {
+    aiUsageApi.getBudgetStatus(projectId).then(({ data }) => setBudgets(data || []))
+  }, [projectId, isProcessing])
+
+  useEffect(() => {
+    codingValidationsApi.getPrecisionStats(projectId).then(({ data }) => setPrecisionRows(data || []))
+  }, [projectId])
+
+  const estimate = useMemo(
+    () => estimateRun(documentContent, selectedMethod, selectedModel, existingCodes, exemplars),
+    [documentContent, selectedMethod, selectedModel, existingCodes, exemplars]
+  )
+  const positiveExemplars = exemplars.filter((e) => e.polarity === 'positive').length
+
+  const precisionMethods = useMemo(() => precisionByMethod(precisionRows), [precisionRows])
+  const precisionCodes = useMemo(
+    () => precisionByCode(precisionRows)
+      .map((row) => ({ ...row, name: existingCodes.find((c) => c.id === row.codeId)?.name }))
+      .filter((row) => row.name)
+      .slice(0, 5),
+    [precisionRows, existingCodes]
+  )
+  const blockingBudget = exceededBudget(budgets, estimate.cost)
 
   const speedLabels = {
     fast: { label: 'Schnell', color: 'text-green-400' },
@@ -159,6 +210,28 @@ export default function AICodingPanel({
               </div>
             </div>
 
+            {/* Live Suggestions (streamed as each code_segment call completes) */}
+            {liveCodings.length > 0 && (
+              <div className="mt-6 max-w-xl mx-auto">
+                <p className="text-xs font-medium text-surface-400 mb-2">
+                  Live-Vorschläge ({liveCodings.length})
+                </p>
+                <div className="max-h-48 overflow-y-auto space-y-2">
+                  {liveCodings.map((coding, idx) => (
+                    <div key={idx} className="p-2 rounded-lg bg-surface-800 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-surface-100 truncate">{coding.codeName}</span>
+                        <span className="text-xs text-surface-500 flex-shrink-0">
+                          {coding.source} · {Math.round(coding.confidence * 100)}%
+                        </span>
+                      </div>
+                      <p className="text-xs text-surface-400 mt-1 line-clamp-2">„{coding.selectedText}“</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Steps */}
             <div className="mt-8 max-w-md mx-auto space-y-3">
               {[
@@ -247,6 +320,114 @@ export default function AICodingPanel({
               </div>
             </div>
 
+            {/* Model & Cost Estimate */}
+            <div className="px-6 pb-6">
+              <div className="p-4 rounded-xl bg-surface-800/50 border border-surface-700 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <label htmlFor="coding-model" className="text-sm font-medium text-surface-300">
+                    Modell
+                  </label>
+                  <select
+                    id="coding-model"
+                    value={selectedModel}
+                    onChange={(e) => setSelectedModel(e.target.value)}
+                    className="px-3 py-1.5 rounded-lg bg-surface-900 border border-surface-700 text-sm text-surface-100"
+                  >
+                    {CODING_MODELS.map((model) => (
+                      <option key={model.id} value={model.id}>
+                        {model.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-surface-500">
+                  {CODING_MODELS.find((m) => m.id === selectedModel)?.description}
+                </p>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-surface-400">
+                    Geschätzt: {formatTokens(estimate.usage.inputTokens + estimate.usage.outputTokens)} Tokens
+                    {' · '}
+                    {estimate.usage.requests} {estimate.usage.requests === 1 ? 'Anfrage' : 'Anfragen'}
+                  </span>
+                  <span className="font-medium text-surface-100">≈ {formatUsd(estimate.cost)}</span>
+                </div>
+                {budgets.map((budget) => (
+                  <div key={budget.budgetId}>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="text-surface-400">{describeBudget(budget)}</span>
+                    </div>
+                    <div className="h-1.5 bg-surface-700 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${
+                          budget === blockingBudget ? 'bg-red-500' : 'bg-primary-500'
+                        }`}
+                        style={{ width: `${Math.min(100, (budget.spentUsd / Math.max(budget.limitUsd, 0.01)) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+                {blockingBudget && (
+                  <p className="text-sm text-red-400">
+                    Budget überschritten: Diese Kodierung würde das{' '}
+                    {blockingBudget.userId ? 'persönliche Budget' : 'Projektbudget'} von{' '}
+                    {formatUsd(blockingBudget.limitUsd)} übersteigen.
+                  </p>
+                )}
+                {exemplars.length > 0 && (
+                  <p className="text-xs text-surface-500">
+                    {exemplars.length} Beispiele aus Validierungen fließen ein
+                    ({positiveExemplars} bestätigt, {exemplars.length - positiveExemplars} abgelehnt)
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Precision over time (acceptance rate in the validation queue) */}
+            {precisionMethods.length > 0 && (
+              <div className="px-6 pb-6">
+                <div className="p-4 rounded-xl bg-surface-800/50 border border-surface-700 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-medium text-surface-300">Präzision im Zeitverlauf</h3>
+                    <span className="text-xs text-surface-500">
+                      {formatPrecision(overallPrecision(precisionRows))} übernommen
+                    </span>
+                  </div>
+                  {precisionMethods.map((row) => (
+                    <div key={row.method} className="flex items-center gap-3 text-xs">
+                      <span className="w-44 truncate text-surface-400">
+                        {methods.find((m) => m.id === row.method)?.name || row.method}
+                      </span>
+                      <div className="flex-1 flex items-end gap-0.5 h-6">
+                        {row.timeline.map((point) => (
+                          <div
+                            key={point.week}
+                            className="flex-1 max-w-3 bg-primary-500/70 rounded-sm"
+                            style={{ height: `${Math.max(8, (point.precision ?? 0) * 100)}%` }}
+                            title={`Woche ab ${new Date(point.week).toLocaleDateString('de-DE')}: ${formatPrecision(point)} von ${point.decided}`}
+                          />
+                        ))}
+                      </div>
+                      <span className="w-20 text-right text-surface-300">
+                        {formatPrecision(row)} <span className="text-surface-500">({row.decided})</span>
+                      </span>
+                    </div>
+                  ))}
+                  {precisionCodes.length > 0 && (
+                    <div className="pt-2 border-t border-surface-700">
+                      <p className="text-xs text-surface-500 mb-1">Codes mit der niedrigsten Übernahmequote</p>
+                      <div className="flex flex-wrap gap-2">
+                        {precisionCodes.map((row) => (
+                          <span key={row.codeId} className="px-2 py-0.5 rounded text-xs bg-surface-800 text-surface-300">
+                            {row.name} · {formatPrecision(row)} ({row.decided})
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Footer */}
             <div className="p-6 border-t border-surface-800 flex justify-between items-center">
               <p className="text-sm text-surface-500">
@@ -260,8 +441,9 @@ export default function AICodingPanel({
                   Abbrechen
                 </button>
                 <button
-                  onClick={() => onStartCoding(selectedMethod)}
-                  className="px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 text-white font-medium flex items-center gap-2"
+                  onClick={() => onStartCoding(selectedMethod, selectedModel)}
+                  disabled={!!blockingBudget}
+                  className="px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 text-white font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
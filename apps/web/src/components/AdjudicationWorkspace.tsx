@@ -0,0 +1,347 @@
+import { useState, useMemo, useEffect } from 'react'
+import { useProjectStore, type Code, type Document } from '@/stores/projectStore'
+import { useMemoStore } from '@/stores/memoStore'
+import { consensusSetsApi } from '@/lib/api'
+import {
+  calculateCohensKappa,
+  findDisagreements,
+  segmentKey,
+  type CoderData,
+} from '@/lib/irr'
+import {
+  buildConsensusCodings,
+  formatDecisionMemo,
+  formatRoundSummary,
+  toResolutions,
+  type AdjudicationDecision,
+} from '@/lib/adjudication'
+
+interface AdjudicationWorkspaceProps {
+  coder1: CoderData
+  coder2: CoderData
+  documents: Document[]
+  codes: Code[]
+  /** Coding round the coders' codings come from; the consensus set belongs to it */
+  roundId?: string | null
+  onClose: () => void
+}
+
+const CONTEXT_CHARS = 200
+
+export default function AdjudicationWorkspace({
+  coder1,
+  coder2,
+  documents,
+  codes,
+  roundId = null,
+  onClose,
+}: AdjudicationWorkspaceProps) {
+  const { currentProject } = useProjectStore()
+  const { createMemo } = useMemoStore()
+  const projectId = currentProject?.id || documents[0]?.projectId
+
+  const disagreements = useMemo(
+    () => findDisagreements(coder1, coder2, documents, codes),
+    [coder1, coder2, documents, codes]
+  )
+
+  const [index, setIndex] = useState(0)
+  const [decisions, setDecisions] = useState<Record<string, AdjudicationDecision>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedCount, setSavedCount] = useState<number | null>(null)
+  // Consensus set of an earlier adjudication of this pair, replaced on save
+  const [previousSetDate, setPreviousSetDate] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!projectId) return
+    let cancelled = false
+    consensusSetsApi.getForPair(projectId, coder1.id, coder2.id, roundId).then(({ data }) => {
+      if (!cancelled) setPreviousSetDate(data?.created_at || null)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, coder1.id, coder2.id, roundId])
+
+  const kappaBefore = useMemo(
+    () => calculateCohensKappa(coder1, coder2, documents, codes).value,
+    [coder1, coder2, documents, codes]
+  )
+  const kappaAfter = useMemo(
+    () => calculateCohensKappa(coder1, coder2, documents, codes, { resolutions: toResolutions(decisions) }).value,
+    [coder1, coder2, documents, codes, decisions]
+  )
+
+  const current = disagreements[index]
+  const currentKey = current ? segmentKey(current) : ''
+  const decision = decisions[currentKey]
+  const decisionCount = Object.keys(decisions).length
+
+  const context = useMemo(() => {
+    if (!current) return null
+    // Time window of a media document: no text around it
+    if (current.startTime !== undefined) return { before: '', segment: current.segment, after: '' }
+    const content = documents.find((d) => d.id === current.documentId)?.content || ''
+    return {
+      before: content.substring(Math.max(0, current.startOffset - CONTEXT_CHARS), current.startOffset),
+      segment: content.substring(current.startOffset, current.endOffset),
+      after: content.substring(current.endOffset, current.endOffset + CONTEXT_CHARS),
+    }
+  }, [current, documents])
+
+  const decide = (codeId: string | null) => {
+    setDecisions((prev) => ({
+      ...prev,
+      [currentKey]: { codeId, rationale: prev[currentKey]?.rationale || '' },
+    }))
+  }
+
+  const setRationale = (rationale: string) => {
+    setDecisions((prev) => ({
+      ...prev,
+      [currentKey]: { codeId: prev[currentKey]?.codeId ?? null, rationale },
+    }))
+  }
+
+  const codeColor = (codeId: string | null) => codes.find((c) => c.id === codeId)?.color
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      if (!projectId) throw new Error('Kein Projekt ausgewählt')
+      const consensus = buildConsensusCodings(coder1, coder2, disagreements, decisions, documents)
+
+      // One set per coder pair and round, kept apart from the coders' own codings
+      const { data: ids, error: saveError } = await consensusSetsApi.replace({
+        projectId,
+        coder1Id: coder1.id,
+        coder2Id: coder2.id,
+        roundId,
+        codings: consensus.map(({ decisionKey: _decisionKey, codingMethod: _codingMethod, ...data }) => data),
+      })
+      if (saveError || !ids) {
+        throw new Error(saveError?.message || 'Konsens-Kodierungen konnten nicht gespeichert werden')
+      }
+
+      // Codings of decisions become the targets of their rationale memos
+      const codingIds: Record<string, string> = {}
+      consensus.forEach((coding, i) => {
+        if (coding.decisionKey) codingIds[coding.decisionKey] = ids[i]
+      })
+
+      for (const disagreement of disagreements) {
+        const key = segmentKey(disagreement)
+        const d = decisions[key]
+        if (!d || !d.rationale.trim()) continue
+
+        const memo = await createMemo({
+          projectId,
+          type: codingIds[key] ? 'coding' : 'document',
+          targetId: codingIds[key] || disagreement.documentId,
+          title: `Konsens: ${disagreement.documentName}`,
+          content: formatDecisionMemo(disagreement, d, codes),
+          tags: ['Konsens', 'Adjudikation'],
+        })
+        if (!memo) throw new Error('Begründung konnte nicht als Memo gespeichert werden')
+      }
+
+      const summary = await createMemo({
+        projectId,
+        type: 'project',
+        targetId: projectId,
+        title: `Adjudikationsrunde ${new Date().toLocaleDateString('de-DE')}`,
+        content: formatRoundSummary({
+          coder1: coder1.name,
+          coder2: coder2.name,
+          kappaBefore,
+          kappaAfter,
+          disagreementCount: disagreements.length,
+          decisionCount,
+          consensusCodingCount: consensus.length,
+        }),
+        tags: ['Konsens', 'Inter-Rater-Reliabilität'],
+      })
+      if (!summary) throw new Error('Rundenbericht konnte nicht als Memo gespeichert werden')
+
+      setSavedCount(consensus.length)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+      <div className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-surface-900 rounded-2xl border border-surface-800 shadow-xl">
+        {/* Header */}
+        <div className="p-6 border-b border-surface-800 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-surface-100">Abweichungen klären</h2>
+            <p className="text-sm text-surface-400 mt-1">
+              {coder1.name} ↔ {coder2.name} · {decisionCount} von {disagreements.length} entschieden
+            </p>
+          </div>
+          <div className="flex gap-4 text-right">
+            <div>
+              <p className="text-xs text-surface-500">κ vorher</p>
+              <p className="font-mono text-lg text-surface-100">{kappaBefore.toFixed(3)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-surface-500">κ nachher</p>
+              <p className="font-mono text-lg text-primary-400">{kappaAfter.toFixed(3)}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {previousSetDate && savedCount === null && (
+            <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-amber-300 text-sm">
+              Für diese Kodierer gibt es bereits einen Konsens vom{' '}
+              {new Date(previousSetDate).toLocaleDateString('de-DE')}. Speichern ersetzt ihn.
+            </div>
+          )}
+
+          {savedCount !== null ? (
+            <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/20 text-green-400 text-sm">
+              {savedCount} Konsens-Kodierungen gespeichert. Begründungen und Rundenbericht wurden als Memos abgelegt.
+            </div>
+          ) : !current || !context ? (
+            <p className="text-center text-surface-500 py-8">Keine Abweichungen zwischen den Kodierern</p>
+          ) : (
+            <>
+              {/* Document Text */}
+              <div>
+                <p className="text-xs text-surface-500 mb-2">
+                  {current.documentName} ·{' '}
+                  {current.startTime !== undefined
+                    ? `Zeit ${current.segment}`
+                    : `Zeichen ${current.startOffset}–${current.endOffset}`}
+                </p>
+                <div className="p-4 rounded-lg bg-surface-800 text-sm text-surface-300 leading-relaxed whitespace-pre-wrap">
+                  {context.before.length === CONTEXT_CHARS && '…'}
+                  {context.before}
+                  <mark className="bg-yellow-500/30 text-surface-100 rounded px-0.5">{context.segment}</mark>
+                  {context.after}
+                  {context.after.length === CONTEXT_CHARS && '…'}
+                </div>
+              </div>
+
+              {/* Decision */}
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { coder: current.coder1, codeId: current.coder1CodeId, code: current.coder1Code },
+                  { coder: current.coder2, codeId: current.coder2CodeId, code: current.coder2Code },
+                ].map((option, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => decide(option.codeId)}
+                    className={`p-3 rounded-lg border text-left transition-colors ${
+                      decision && decision.codeId === option.codeId
+                        ? 'border-primary-500 bg-primary-500/10'
+                        : 'border-surface-700 hover:border-surface-600'
+                    }`}
+                  >
+                    <p className="text-xs text-surface-500">{option.coder}</p>
+                    <p className="flex items-center gap-2 text-sm text-surface-100 mt-1">
+                      {option.codeId && (
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: codeColor(option.codeId) }} />
+                      )}
+                      {option.code || 'Keine Kodierung'}
+                    </p>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <select
+                  value={decision?.codeId ?? ''}
+                  onChange={(e) => decide(e.target.value || null)}
+                  className="flex-1 px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                >
+                  <option value="">Anderer Code...</option>
+                  {codes.map((code) => (
+                    <option key={code.id} value={code.id}>{code.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => decide(null)}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                    decision && decision.codeId === null
+                      ? 'border-primary-500 bg-primary-500/10 text-surface-100'
+                      : 'border-surface-700 text-surface-300 hover:border-surface-600'
+                  }`}
+                >
+                  Keine Kodierung
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Begründung</label>
+                <textarea
+                  value={decision?.rationale || ''}
+                  onChange={(e) => setRationale(e.target.value)}
+                  disabled={!decision}
+                  rows={3}
+                  placeholder={decision ? 'Warum wurde so entschieden?' : 'Zuerst eine Entscheidung treffen'}
+                  className="w-full px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm placeholder-surface-500 focus:outline-none focus:ring-2 focus:ring-primary-500/50 disabled:opacity-50"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-surface-800 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIndex((i) => Math.max(0, i - 1))}
+              disabled={index === 0 || savedCount !== null}
+              className="px-3 py-2 rounded-lg bg-surface-800 hover:bg-surface-700 disabled:opacity-50 text-surface-300 text-sm"
+            >
+              ← Zurück
+            </button>
+            <span className="text-sm text-surface-500">
+              {disagreements.length > 0 ? index + 1 : 0} / {disagreements.length}
+            </span>
+            <button
+              onClick={() => setIndex((i) => Math.min(disagreements.length - 1, i + 1))}
+              disabled={index >= disagreements.length - 1 || savedCount !== null}
+              className="px-3 py-2 rounded-lg bg-surface-800 hover:bg-surface-700 disabled:opacity-50 text-surface-300 text-sm"
+            >
+              Weiter →
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-surface-300 hover:bg-surface-800 text-sm"
+            >
+              {savedCount !== null ? 'Schließen' : 'Abbrechen'}
+            </button>
+            {savedCount === null && (
+              <button
+                onClick={handleSave}
+                disabled={decisionCount === 0 || isSaving}
+                className="px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 disabled:bg-surface-700 disabled:text-surface-500 text-white text-sm font-medium"
+              >
+                {isSaving ? 'Speichere...' : 'Konsens speichern'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import {
   CodeFrequencyChart,
   CoOccurrenceMatrix,
@@ -10,12 +10,18 @@ import CodingTimeline from './CodingTimeline'
 import IRRPanel from './IRRPanel'
 import { AKIHScoreDashboard } from './akih'
 import { useAKIHScore } from '@/hooks/useAKIHScore'
+import { useValidationStore, teamValidations } from '@/stores/validationStore'
+import { toCodingValidation } from '@/lib/akihCalculations'
 import type { Code, Coding, Document } from '@/stores/projectStore'
+import type { TranscriptSegment } from '@/lib/mediaSync'
 
 interface AnalysisDashboardProps {
   codes: Code[]
   codings: Coding[]
   documents: Document[]
+  projectId?: string
+  transcriptSegments?: Record<string, TranscriptSegment[]>
+  onOpenValidation?: () => void
 }
 
 type ChartType = 'frequency' | 'cooccurrence' | 'document-heatmap' | 'network' | 'trends' | 'timeline' | 'methods' | 'irr' | 'akih'
@@ -24,6 +30,9 @@ export default function AnalysisDashboard({
   codes,
   codings,
   documents,
+  projectId,
+  transcriptSegments,
+  onOpenValidation,
 }: AnalysisDashboardProps) {
   const [activeChart, setActiveChart] = useState<ChartType>('frequency')
   const [timelineRange, setTimelineRange] = useState(30)
@@ -47,10 +56,18 @@ export default function AnalysisDashboard({
   }
 
   // AKIH Score calculation
-  const { result: akihResult, calculateScore: calculateAKIH, isCalculating: akihLoading } = useAKIHScore({
+  const { result: akihResult, calculateScore: calculateAKIH, isCalculating: akihLoading, service: akihService } = useAKIHScore({
     config: { enabled: true },
   })
 
+  // Reviewer decisions from the validation queue feed the Human Validation factor
+  const { decisions, fetchValidations } = useValidationStore()
+  useEffect(() => {
+    if (projectId) {
+      fetchValidations(projectId)
+    }
+  }, [projectId, fetchValidations])
+
   // Calculate AKIH when data changes
   const akihInput = useMemo(() => ({
     codings: codings.map(c => ({
@@ -60,6 +77,8 @@ export default function AnalysisDashboard({
       codingMethod: c.codingMethod || undefined,
       createdAt: c.createdAt ? new Date(c.createdAt) : undefined,
       aiReasoning: (c as { aiReasoning?: string }).aiReasoning,
+      validation: toCodingValidation(teamValidations(decisions, c.id), akihService.getConfig(), c.codeId),
+      validations: teamValidations(decisions, c.id),
     })),
     codes: codes.map(c => ({
       id: c.id,
@@ -71,7 +90,7 @@ export default function AnalysisDashboard({
       id: d.id,
       name: d.name,
     })),
-  }), [codings, codes, documents])
+  }), [codings, codes, documents, decisions, akihService])
 
   // Auto-calculate on mount and data change
   useMemo(() => {
@@ -218,6 +237,7 @@ export default function AnalysisDashboard({
               codes={codes}
               codings={codings}
               documents={documents}
+              transcriptSegments={transcriptSegments}
               maxCodes={10}
               maxDocuments={10}
               showExport={true}
@@ -267,7 +287,8 @@ export default function AnalysisDashboard({
               result={akihResult}
               onRefresh={() => calculateAKIH(akihInput)}
               isLoading={akihLoading}
-              showValidationButton={false}
+              showValidationButton={!!onOpenValidation}
+              onValidationClick={onOpenValidation}
             />
           )}
 
@@ -380,6 +401,7 @@ function CodingMethodsChart({ codings }: { codings: Coding[] }) {
     three_expert: { label: 'Three Expert', color: '#3b82f6' },
     calibrated_pattern: { label: 'Calibrated Pattern', color: '#22c55e' },
     ultra_turbo: { label: 'Ultra Turbo', color: '#f59e0b' },
+    consensus: { label: 'Konsens', color: '#14b8a6' },
   }
 
   const data = Object.entries(methodCounts)
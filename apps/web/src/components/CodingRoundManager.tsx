@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react'
+import { useRoundStore, isRoundOpen, type CodingRound } from '@/stores/roundStore'
+import { useTeamStore } from '@/stores/teamStore'
+import { useProjectStore } from '@/stores/projectStore'
+
+interface CodingRoundManagerProps {
+  projectId: string
+}
+
+export default function CodingRoundManager({ projectId }: CodingRoundManagerProps) {
+  const { rounds, isLoading, error, fetchRounds, createRound, closeRound, deleteRound, clearError } = useRoundStore()
+  const { members } = useTeamStore()
+  const { documents } = useProjectStore()
+
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [startsAt, setStartsAt] = useState('')
+  const [endsAt, setEndsAt] = useState('')
+  const [documentIds, setDocumentIds] = useState<string[]>([])
+  const [coderIds, setCoderIds] = useState<string[]>([])
+
+  useEffect(() => {
+    fetchRounds(projectId)
+  }, [projectId, fetchRounds])
+
+  const activeMembers = members.filter(m => m.status === 'active')
+  const projectDocuments = documents.filter(d => d.projectId === projectId)
+
+  const toggle = (list: string[], id: string) =>
+    list.includes(id) ? list.filter(x => x !== id) : [...list, id]
+
+  const resetForm = () => {
+    setName('')
+    setDescription('')
+    setStartsAt('')
+    setEndsAt('')
+    setDocumentIds([])
+    setCoderIds([])
+  }
+
+  const handleCreate = async () => {
+    if (!name.trim() || documentIds.length === 0 || coderIds.length < 2) return
+
+    const round = await createRound({
+      projectId,
+      name: name.trim(),
+      description: description.trim() || undefined,
+      startsAt: startsAt ? new Date(startsAt).toISOString() : undefined,
+      endsAt: endsAt ? new Date(endsAt).toISOString() : undefined,
+      documentIds,
+      coderIds,
+    })
+
+    if (round) {
+      resetForm()
+      setShowCreateModal(false)
+    }
+  }
+
+  const handleClose = async (round: CodingRound) => {
+    if (!confirm(`Kodierrunde „${round.name}“ schließen? Danach sehen alle Kodierer wieder alle Kodierungen.`)) return
+    await closeRound(round.id)
+  }
+
+  const handleDelete = async (round: CodingRound) => {
+    if (!confirm(`Kodierrunde „${round.name}“ löschen? Die Kodierungen bleiben erhalten.`)) return
+    await deleteRound(round.id)
+  }
+
+  const memberName = (userId: string) =>
+    activeMembers.find(m => m.userId === userId)?.name || 'Unbekannt'
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-surface-100">Kodierrunden</h2>
+          <p className="text-sm text-surface-400">
+            Blinde, unabhängige Kodierung für die Inter-Rater-Reliabilität
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Neue Runde
+        </button>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm flex items-center justify-between">
+          <span>{error}</span>
+          <button onClick={clearError} className="text-red-400 hover:text-red-300">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
+
+      {/* Rounds */}
+      <div className="bg-surface-900 rounded-xl border border-surface-800 divide-y divide-surface-800">
+        {rounds.map(round => {
+          const open = isRoundOpen(round)
+          return (
+            <div key={round.id} className="p-4 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-surface-100 truncate">{round.name}</p>
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs ${
+                      open ? 'bg-amber-500/20 text-amber-400' : 'bg-green-500/20 text-green-400'
+                    }`}
+                  >
+                    {open ? 'Offen' : 'Abgeschlossen'}
+                  </span>
+                </div>
+                {round.description && (
+                  <p className="text-sm text-surface-400 mt-1">{round.description}</p>
+                )}
+                <p className="text-xs text-surface-500 mt-1">
+                  {new Date(round.startsAt).toLocaleDateString('de-DE')}
+                  {round.endsAt && ` – ${new Date(round.endsAt).toLocaleDateString('de-DE')}`}
+                  {' · '}{round.documentIds.length} Dokumente
+                  {' · '}{round.coderIds.map(memberName).join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {open && (
+                  <button
+                    onClick={() => handleClose(round)}
+                    className="px-3 py-1.5 rounded-lg text-xs text-surface-300 border border-surface-700 hover:bg-surface-800"
+                  >
+                    Schließen
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(round)}
+                  className="px-3 py-1.5 rounded-lg text-xs text-red-400 hover:bg-red-500/10"
+                >
+                  Löschen
+                </button>
+              </div>
+            </div>
+          )
+        })}
+        {rounds.length === 0 && (
+          <div className="p-8 text-center text-surface-500 text-sm">
+            {isLoading ? 'Lade Kodierrunden...' : 'Noch keine Kodierrunden'}
+          </div>
+        )}
+      </div>
+
+      {/* Create Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-surface-900 rounded-xl border border-surface-700 p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-xl">
+            <h3 className="text-lg font-semibold text-surface-100 mb-4">Neue Kodierrunde</h3>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-1.5">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="z.B. Reliabilitätsrunde 1"
+                  className="w-full px-4 py-2.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                  autoFocus
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-1.5">Beschreibung</label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={2}
+                  className="w-full px-4 py-2.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-1.5">Beginn</label>
+                  <input
+                    type="date"
+                    value={startsAt}
+                    onChange={(e) => setStartsAt(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-1.5">Ende</label>
+                  <input
+                    type="date"
+                    value={endsAt}
+                    min={startsAt || undefined}
+                    onChange={(e) => setEndsAt(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-1.5">
+                  Dokumente ({documentIds.length})
+                </label>
+                <div className="max-h-40 overflow-y-auto space-y-1 p-2 rounded-lg bg-surface-800 border border-surface-700">
+                  {projectDocuments.map(doc => (
+                    <label key={doc.id} className="flex items-center gap-2 text-sm text-surface-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={documentIds.includes(doc.id)}
+                        onChange={() => setDocumentIds(toggle(documentIds, doc.id))}
+                        className="rounded border-surface-600"
+                      />
+                      <span className="truncate">{doc.name}</span>
+                    </label>
+                  ))}
+                  {projectDocuments.length === 0 && (
+                    <p className="text-xs text-surface-500">Keine Dokumente im Projekt</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-1.5">
+                  Kodierer ({coderIds.length}, mindestens 2)
+                </label>
+                <div className="max-h-40 overflow-y-auto space-y-1 p-2 rounded-lg bg-surface-800 border border-surface-700">
+                  {activeMembers.map(member => (
+                    <label key={member.userId} className="flex items-center gap-2 text-sm text-surface-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={coderIds.includes(member.userId)}
+                        onChange={() => setCoderIds(toggle(coderIds, member.userId))}
+                        className="rounded border-surface-600"
+                      />
+                      <span className="truncate">{member.name}</span>
+                      <span className="text-xs text-surface-500 truncate">{member.email}</span>
+                    </label>
+                  ))}
+                  {activeMembers.length === 0 && (
+                    <p className="text-xs text-surface-500">Keine aktiven Mitglieder</p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => {
+                  resetForm()
+                  setShowCreateModal(false)
+                }}
+                className="px-4 py-2 rounded-lg text-surface-300 hover:bg-surface-800 text-sm"
+              >
+                Abbrechen
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={!name.trim() || documentIds.length === 0 || coderIds.length < 2 || isLoading}
+                className="px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 disabled:bg-surface-700 disabled:text-surface-500 text-white text-sm font-medium"
+              >
+                {isLoading ? 'Erstelle...' : 'Runde starten'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
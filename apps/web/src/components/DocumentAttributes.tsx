@@ -0,0 +1,82 @@
+/**
+ * DocumentAttributes - key/value attributes of a document (gender=f, alter=34, ...)
+ * that coding queries can filter on with @key=value
+ */
+
+import { useState } from 'react'
+
+interface DocumentAttributesProps {
+  attributes: Record<string, string>
+  onChange: (attributes: Record<string, string>) => Promise<void> | void
+}
+
+export default function DocumentAttributes({ attributes, onChange }: DocumentAttributesProps) {
+  const [newKey, setNewKey] = useState('')
+  const [newValue, setNewValue] = useState('')
+
+  const entries = Object.entries(attributes).sort(([a], [b]) => a.localeCompare(b))
+
+  const handleAdd = () => {
+    // Keys become @key in queries, so no whitespace or operators
+    const key = newKey.trim().replace(/[^\p{L}\p{N}_-]/gu, '_')
+    const value = newValue.trim()
+    if (!key || !value) return
+    onChange({ ...attributes, [key]: value })
+    setNewKey('')
+    setNewValue('')
+  }
+
+  const handleRemove = (key: string) => {
+    const next = { ...attributes }
+    delete next[key]
+    onChange(next)
+  }
+
+  return (
+    <div className="bg-surface-900 rounded-xl border border-surface-800 p-4">
+      <h3 className="font-medium text-surface-100 mb-3">Attribute</h3>
+      <div className="space-y-1.5">
+        {entries.length === 0 && (
+          <p className="text-sm text-surface-500">Keine Attribute (z. B. gender, alter)</p>
+        )}
+        {entries.map(([key, value]) => (
+          <div key={key} className="flex items-center gap-2 text-sm group">
+            <span className="text-surface-400 font-mono">@{key}</span>
+            <span className="flex-1 text-surface-200 truncate">{value}</span>
+            <button
+              onClick={() => handleRemove(key)}
+              className="text-surface-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+              title="Attribut entfernen"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 mt-3">
+        <input
+          type="text"
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+          placeholder="Name"
+          className="w-1/2 px-2 py-1 rounded bg-surface-800 border border-surface-700 text-sm text-surface-100 placeholder-surface-500"
+        />
+        <input
+          type="text"
+          value={newValue}
+          onChange={(e) => setNewValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Wert"
+          className="w-1/2 px-2 py-1 rounded bg-surface-800 border border-surface-700 text-sm text-surface-100 placeholder-surface-500"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newKey.trim() || !newValue.trim()}
+          className="px-2 py-1 rounded bg-surface-800 text-sm text-primary-400 hover:bg-surface-700 disabled:text-surface-600"
+        >
+          +
+        </button>
+      </div>
+    </div>
+  )
+}
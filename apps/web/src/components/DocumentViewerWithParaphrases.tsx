@@ -7,6 +7,8 @@
  * - Green highlighting for paraphrased segments
  * - Paraphrase sidebar next to text
  * - AI-assisted paraphrasing
+ * - Coding actions: find similar passages, remove
+ * - Highlight of the transcript segment playing in the media player
  */
 
 import { useState, useRef, useCallback, useEffect } from 'react'
@@ -14,7 +16,9 @@ import {
   IconPencil,
   IconCode,
   IconEye,
-  IconSparkles
+  IconSparkles,
+  IconSearch,
+  IconTrash
 } from '@tabler/icons-react'
 import { useParaphraseStore, Paraphrase } from '@/stores/paraphraseStore'
 import ParaphrasePanel from './ParaphrasePanel'
@@ -44,6 +48,12 @@ interface DocumentViewerWithParaphrasesProps {
   codes: Code[]
   onAddCoding: (coding: Omit<Coding, 'id'>) => void
   onRemoveCoding: (codingId: string) => void
+  /** Opens the search for similar uncoded passages */
+  onFindSimilar?: (coding: Coding) => void
+  /** Called on every click on a coding, e.g. to seek the media player */
+  onCodingClick?: (coding: Coding) => void
+  /** Text range of the transcript segment currently playing */
+  playbackRange?: { start: number; end: number } | null
   readOnly?: boolean
 }
 
@@ -57,6 +67,9 @@ export default function DocumentViewerWithParaphrases({
   codes,
   onAddCoding,
   onRemoveCoding,
+  onFindSimilar,
+  onCodingClick,
+  playbackRange = null,
   readOnly = false,
 }: DocumentViewerWithParaphrasesProps) {
   const [selectedCode, setSelectedCode] = useState<Code | null>(null)
@@ -66,6 +79,7 @@ export default function DocumentViewerWithParaphrases({
   const [viewMode, setViewMode] = useState<ViewMode>('both')
   const [showParaphrasePanel, setShowParaphrasePanel] = useState(false)
   const [editingParaphrase, setEditingParaphrase] = useState<Paraphrase | null>(null)
+  const [activeCodingId, setActiveCodingId] = useState<string | null>(null)
   const contentRef = useRef<HTMLDivElement>(null)
 
   const {
@@ -96,6 +110,12 @@ export default function DocumentViewerWithParaphrases({
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [selection])
 
+  // Keep the playing segment in view
+  useEffect(() => {
+    if (!playbackRange) return
+    contentRef.current?.querySelector('[data-playback]')?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }, [playbackRange?.start])
+
   const handleMouseUp = useCallback(() => {
     if (readOnly) return
 
@@ -164,7 +184,7 @@ export default function DocumentViewerWithParaphrases({
     const showParaphrases = viewMode === 'paraphrase' || viewMode === 'both'
 
     // Simple rendering if nothing to highlight
-    if (codings.length === 0 && paraphrases.length === 0) {
+    if (codings.length === 0 && paraphrases.length === 0 && !playbackRange) {
       return <span>{content}</span>
     }
 
@@ -192,20 +212,24 @@ export default function DocumentViewerWithParaphrases({
     let activeCoding: Coding | null = null
     let activeParaphrase: Paraphrase | null = null
 
-    // Get unique offsets
-    const uniqueOffsets = [...new Set(markers.map(m => m.offset))].sort((a, b) => a - b)
+    // Get unique offsets (the playing segment splits the text as well)
+    const playbackOffsets = playbackRange ? [playbackRange.start, playbackRange.end] : []
+    const uniqueOffsets = [...new Set([...markers.map(m => m.offset), ...playbackOffsets])].sort((a, b) => a - b)
 
     uniqueOffsets.forEach((offset) => {
       // Add text before this offset
       if (offset > lastOffset) {
         const textSegment = content.slice(lastOffset, offset)
+        const inPlayback = !!playbackRange && lastOffset >= playbackRange.start && lastOffset < playbackRange.end
 
         if (activeCoding || activeParaphrase) {
           elements.push(
             <mark
               key={`segment-${lastOffset}`}
+              data-playback={inPlayback || undefined}
               className="relative cursor-pointer rounded px-0.5 transition-all"
               style={{
+                outline: inPlayback ? '2px solid rgba(245, 158, 11, 0.6)' : undefined,
                 backgroundColor: activeParaphrase
                   ? 'rgba(16, 185, 129, 0.2)'  // Emerald/green for paraphrases
                   : `${activeCoding?.color}30`,
@@ -226,16 +250,18 @@ export default function DocumentViewerWithParaphrases({
                 setHoveredCoding(null)
               }}
               onClick={() => {
+                if (activeCoding) onCodingClick?.(activeCoding)
                 if (activeParaphrase) {
                   handleEditParaphrase(activeParaphrase)
                 } else if (activeCoding && !readOnly) {
-                  onRemoveCoding(activeCoding.id)
+                  setSelection(null)
+                  setActiveCodingId(activeCoding.id)
                 }
               }}
               title={
                 activeParaphrase
                   ? `Paraphrase: "${activeParaphrase.paraphraseText}"\n(Klicken zum Bearbeiten)`
-                  : `${activeCoding?.codeName}${activeCoding?.memo ? `: ${activeCoding.memo}` : ''}\n(Klicken zum Entfernen)`
+                  : `${activeCoding?.codeName}${activeCoding?.memo ? `: ${activeCoding.memo}` : ''}\n(Klicken für Aktionen)`
               }
             >
               {textSegment}
@@ -253,6 +279,12 @@ export default function DocumentViewerWithParaphrases({
               )}
             </mark>
           )
+        } else if (inPlayback) {
+          elements.push(
+            <span key={`text-${lastOffset}`} data-playback className="bg-amber-500/15 rounded">
+              {textSegment}
+            </span>
+          )
         } else {
           elements.push(<span key={`text-${lastOffset}`}>{textSegment}</span>)
         }
@@ -281,6 +313,9 @@ export default function DocumentViewerWithParaphrases({
     return elements
   }
 
+  // Clicked coding (toolbar); gone once the coding is removed
+  const selectedCoding = codings.find(c => c.id === activeCodingId)
+
   // Document paraphrases for current document
   const documentParaphrases = paraphrases.filter(p => p.documentId === documentId)
 
@@ -403,6 +438,55 @@ export default function DocumentViewerWithParaphrases({
             </div>
           </div>
         )}
+
+        {/* Coding Toolbar */}
+        {selectedCoding && !selection && !readOnly && (
+          <div className="mt-4 p-4 bg-surface-800 rounded-xl border border-surface-700">
+            <div className="flex items-center gap-4">
+              <span
+                className="w-3 h-3 rounded-sm flex-shrink-0"
+                style={{ backgroundColor: selectedCoding.color }}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-surface-400 mb-1">{selectedCoding.codeName}</p>
+                <p className="text-surface-200 text-sm truncate">"{selectedCoding.selectedText}"</p>
+              </div>
+
+              {onFindSimilar && (
+                <button
+                  onClick={() => {
+                    onFindSimilar(selectedCoding)
+                    setActiveCodingId(null)
+                  }}
+                  className="px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium transition-colors flex items-center gap-2"
+                >
+                  <IconSearch size={16} />
+                  Ähnliche Stellen finden
+                </button>
+              )}
+
+              <button
+                onClick={() => {
+                  onRemoveCoding(selectedCoding.id)
+                  setActiveCodingId(null)
+                }}
+                className="px-4 py-2 rounded-lg border border-surface-600 hover:bg-surface-700 text-surface-300 text-sm font-medium transition-colors flex items-center gap-2"
+              >
+                <IconTrash size={16} />
+                Entfernen
+              </button>
+
+              <button
+                onClick={() => setActiveCodingId(null)}
+                className="p-2 rounded-lg hover:bg-surface-700 text-surface-400"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Right Sidebar: Codes + Paraphrases */}
@@ -50,7 +50,7 @@ const formats: {
     name: 'REFI-QDA (Atlas.ti)',
     description: 'REFI-QDA Standard für Atlas.ti Import',
     icon: '🔶',
-    extension: '.atlproj',
+    extension: '.qdpx',
   },
 ]
 
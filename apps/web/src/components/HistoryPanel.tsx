@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import {
   useHistoryStore,
   EntityType,
@@ -17,24 +17,36 @@ interface HistoryPanelProps {
 }
 
 export default function HistoryPanel({ projectId, entityType, entityId }: HistoryPanelProps) {
-  const { entries, isLoading, error, fetchHistory, restoreVersion } = useHistoryStore()
+  const {
+    entries,
+    isLoading,
+    error,
+    brokenEntryId,
+    fetchHistory,
+    restoreVersion,
+    verifyIntegrity,
+  } = useHistoryStore()
   const [filterType, setFilterType] = useState<EntityType | 'all'>('all')
   const [filterChange, setFilterChange] = useState<ChangeType | 'all'>('all')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
   const [expandedEntry, setExpandedEntry] = useState<string | null>(null)
   const [restoring, setRestoring] = useState<string | null>(null)
 
+  // Filters are applied by the server
+  const filters = useMemo(() => ({
+    entityType: entityType || (filterType !== 'all' ? filterType : undefined),
+    entityId,
+    changeType: filterChange !== 'all' ? filterChange : undefined,
+    startDate: startDate ? new Date(`${startDate}T00:00:00`).toISOString() : undefined,
+    endDate: endDate ? new Date(`${endDate}T23:59:59.999`).toISOString() : undefined,
+  }), [entityType, entityId, filterType, filterChange, startDate, endDate])
+
   useEffect(() => {
-    fetchHistory(projectId, {
-      entityType: entityType,
-      entityId: entityId,
-    })
-  }, [projectId, entityType, entityId, fetchHistory])
+    fetchHistory(projectId, filters)
+  }, [projectId, filters, fetchHistory])
 
-  const filteredEntries = entries.filter(entry => {
-    if (filterType !== 'all' && entry.entityType !== filterType) return false
-    if (filterChange !== 'all' && entry.changeType !== filterChange) return false
-    return true
-  })
+  const filteredEntries = entries
 
   const handleRestore = async (entryId: string) => {
     setRestoring(entryId)
@@ -68,17 +80,50 @@ export default function HistoryPanel({ projectId, entityType, entityId }: Histor
             <h3 className="font-medium text-surface-100">Änderungsverlauf</h3>
             <p className="text-sm text-surface-500">{filteredEntries.length} Einträge</p>
           </div>
-          <button
-            onClick={() => fetchHistory(projectId)}
-            className="p-2 rounded-lg hover:bg-surface-800 text-surface-400"
-            title="Aktualisieren"
-          >
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => verifyIntegrity(projectId)}
+              className="p-2 rounded-lg hover:bg-surface-800 text-surface-400"
+              title="Integrität des Protokolls prüfen"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => fetchHistory(projectId, filters)}
+              className="p-2 rounded-lg hover:bg-surface-800 text-surface-400"
+              title="Aktualisieren"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          </div>
         </div>
 
+        {/* Integrity */}
+        {brokenEntryId !== undefined && (
+          <div
+            className={`mb-4 p-3 rounded-lg text-sm ${
+              brokenEntryId === null
+                ? 'bg-green-500/10 border border-green-500/20 text-green-400'
+                : 'bg-red-500/10 border border-red-500/20 text-red-400'
+            }`}
+          >
+            {brokenEntryId === null
+              ? 'Protokoll unverändert: Die Hash-Kette ist vollständig.'
+              : `Protokoll manipuliert: Die Hash-Kette bricht bei Eintrag ${brokenEntryId}.`}
+          </div>
+        )}
+
+        {/* Error */}
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
         {/* Filters */}
         {!entityType && (
           <div className="flex gap-2 flex-wrap">
@@ -103,6 +148,23 @@ export default function HistoryPanel({ projectId, entityType, entityId }: Histor
                 <option key={type} value={type}>{changeTypeLabels[type]}</option>
               ))}
             </select>
+
+            <input
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="px-3 py-1.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-200 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+              title="Von"
+            />
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="px-3 py-1.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-200 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+              title="Bis"
+            />
           </div>
         )}
       </div>
@@ -114,10 +176,6 @@ export default function HistoryPanel({ projectId, entityType, entityId }: Histor
             <div className="animate-spin w-6 h-6 border-2 border-surface-600 border-t-primary-500 rounded-full mx-auto mb-2" />
             <p className="text-sm">Lade Verlauf...</p>
           </div>
-        ) : error ? (
-          <div className="p-8 text-center text-red-400">
-            <p className="text-sm">{error}</p>
-          </div>
         ) : filteredEntries.length === 0 ? (
           <div className="p-8 text-center text-surface-500">
             <svg className="w-10 h-10 mx-auto mb-3 opacity-50" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -0,0 +1,190 @@
+import { useState, useMemo } from 'react'
+import type { ReliabilityBreakdown, ReliabilityBreakdownRow } from '@/lib/irr'
+
+interface IRRBreakdownViewProps {
+  breakdown: ReliabilityBreakdown
+}
+
+type BreakdownTab = 'byCode' | 'byDocument' | 'byCoderPair'
+type SortField = 'label' | 'value' | 'unitCount'
+
+const tabs: { id: BreakdownTab; name: string }[] = [
+  { id: 'byCode', name: 'Codes' },
+  { id: 'byDocument', name: 'Dokumente' },
+  { id: 'byCoderPair', name: 'Kodiererpaare' },
+]
+
+const metricSymbols: Record<ReliabilityBreakdown['metric'], string> = {
+  'cohens-kappa': 'κ',
+  'krippendorff-alpha': 'α',
+}
+
+/**
+ * Red (≤ 0) over yellow to green (1) for reliability values
+ */
+function valueColor(value: number): string {
+  const hue = Math.round(Math.max(0, Math.min(1, value)) * 120)
+  return `hsla(${hue}, 70%, 45%, 0.35)`
+}
+
+export default function IRRBreakdownView({ breakdown }: IRRBreakdownViewProps) {
+  const [activeTab, setActiveTab] = useState<BreakdownTab>('byCode')
+  const [sortField, setSortField] = useState<SortField>('value')
+  const [sortAsc, setSortAsc] = useState(true)
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+
+  const rows = useMemo(() => {
+    const sorted = [...breakdown[activeTab]].sort((a, b) => {
+      if (sortField === 'label') return a.label.localeCompare(b.label, 'de')
+      const left = Number.isFinite(a[sortField]) ? a[sortField] : -Infinity
+      const right = Number.isFinite(b[sortField]) ? b[sortField] : -Infinity
+      return left - right
+    })
+    return sortAsc ? sorted : sorted.reverse()
+  }, [breakdown, activeTab, sortField, sortAsc])
+
+  const selected = rows.find((row) => row.key === selectedKey) || null
+  const symbol = metricSymbols[breakdown.metric]
+
+  const toggleSort = (field: SortField) => {
+    if (field === sortField) {
+      setSortAsc(!sortAsc)
+    } else {
+      setSortField(field)
+      setSortAsc(field !== 'unitCount')
+    }
+  }
+
+  const sortIndicator = (field: SortField) => (sortField === field ? (sortAsc ? ' ▲' : ' ▼') : '')
+
+  return (
+    <div className="border-t border-surface-700 pt-3 mt-3">
+      <p className="text-xs font-medium text-surface-400 mb-2">Aufschlüsselung</p>
+
+      {/* Tabs */}
+      <div className="flex gap-1 mb-2">
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => {
+              setActiveTab(tab.id)
+              setSelectedKey(null)
+            }}
+            className={`px-2.5 py-1 rounded-md text-xs transition-colors ${
+              activeTab === tab.id
+                ? 'bg-primary-500/20 text-primary-400'
+                : 'text-surface-400 hover:bg-surface-700'
+            }`}
+          >
+            {tab.name} ({breakdown[tab.id].length})
+          </button>
+        ))}
+      </div>
+
+      {/* Sortable Table */}
+      <div className="max-h-64 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-surface-800">
+            <tr className="text-xs text-surface-500">
+              <th className="text-left font-normal pb-1 cursor-pointer select-none" onClick={() => toggleSort('label')}>
+                Name{sortIndicator('label')}
+              </th>
+              <th className="text-right font-normal pb-1 cursor-pointer select-none" onClick={() => toggleSort('unitCount')}>
+                Einheiten{sortIndicator('unitCount')}
+              </th>
+              <th className="text-right font-normal pb-1 cursor-pointer select-none" onClick={() => toggleSort('value')}>
+                {symbol}{sortIndicator('value')}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.key}
+                onClick={() => setSelectedKey(row.key === selectedKey ? null : row.key)}
+                className={`cursor-pointer ${row.key === selectedKey ? 'bg-surface-700' : 'hover:bg-surface-700/50'}`}
+              >
+                <td className="py-1 pr-2">
+                  <span className="flex items-center gap-2 text-surface-300">
+                    {row.color && (
+                      <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: row.color }} />
+                    )}
+                    <span className="truncate">{row.label}</span>
+                  </span>
+                </td>
+                <td className="py-1 text-right text-surface-500">{row.unitCount}</td>
+                <td className="py-1 text-right">
+                  <span
+                    className="inline-block min-w-[3.5rem] px-1.5 rounded font-mono text-surface-100"
+                    style={{ backgroundColor: valueColor(row.value) }}
+                  >
+                    {Number.isFinite(row.value) ? row.value.toFixed(3) : '–'}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected ? (
+        <ConfusionHeatmap row={selected} />
+      ) : (
+        <p className="text-xs text-surface-500 mt-2">Zeile auswählen, um die Konfusionsmatrix anzuzeigen</p>
+      )}
+    </div>
+  )
+}
+
+function ConfusionHeatmap({ row }: { row: ReliabilityBreakdownRow }) {
+  const max = Math.max(1, ...row.confusionMatrix.flat())
+
+  return (
+    <div className="mt-3">
+      <p className="text-xs text-surface-400 mb-1">
+        Konfusionsmatrix: {row.label}
+        {row.rowCoder && row.columnCoder && (
+          <span className="text-surface-500"> (Zeilen: {row.rowCoder}, Spalten: {row.columnCoder})</span>
+        )}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th />
+              {row.categories.map((category) => (
+                <th key={category} className="px-1 font-normal text-surface-500 max-w-[5rem] truncate" title={category}>
+                  {category}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {row.confusionMatrix.map((cells, i) => (
+              <tr key={i}>
+                <th className="pr-1 font-normal text-left text-surface-500 max-w-[6rem] truncate" title={row.categories[i]}>
+                  {row.categories[i]}
+                </th>
+                {cells.map((count, j) => (
+                  <td
+                    key={j}
+                    className="w-10 h-7 text-center font-mono text-surface-100 rounded"
+                    style={{
+                      backgroundColor:
+                        count > 0
+                          ? `rgba(${i === j ? '34, 197, 94' : '239, 68, 68'}, ${0.15 + 0.7 * (count / max)})`
+                          : 'rgba(255, 255, 255, 0.03)',
+                    }}
+                    title={`${row.categories[i]} / ${row.categories[j]}: ${count}`}
+                  >
+                    {count || ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
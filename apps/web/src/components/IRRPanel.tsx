@@ -1,14 +1,30 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
+import {
+  DEFAULT_BOOTSTRAP_SAMPLES,
+  DEFAULT_BOOTSTRAP_SEED,
+  DEFAULT_RELIABILITY_THRESHOLD,
+  type BootstrapOptions,
+  type KappaWeighting,
+  type MeasurementLevel,
+} from '@evidenra/core/irr'
 import type { Coding, Code, Document } from '@/stores/projectStore'
+import { useRoundStore, isRoundOpen } from '@/stores/roundStore'
 import {
   calculateCohensKappa,
   calculatePercentAgreement,
   calculateKrippendorffsAlpha,
+  calculateUnitizingAlpha,
+  calculateGwetAC,
+  calculateScottsPi,
+  calculateReliabilityBreakdown,
   extractCoders,
   calculateDemoIRR,
   type IRRResult,
+  type ReliabilityBreakdown,
   type Disagreement,
 } from '@/lib/irr'
+import AdjudicationWorkspace from './AdjudicationWorkspace'
+import IRRBreakdownView from './IRRBreakdownView'
 
 interface IRRPanelProps {
   codings: Coding[]
@@ -45,6 +61,47 @@ const metrics = [
     minCoders: 2,
     maxCoders: null,
   },
+  {
+    id: 'gwet-ac1',
+    name: "Gwet's AC1",
+    description: 'Robust bei schiefer Codeverteilung',
+    minCoders: 2,
+    maxCoders: null,
+  },
+  {
+    id: 'gwet-ac2',
+    name: "Gwet's AC2",
+    description: 'Gewichtet, für geordnete Codes',
+    minCoders: 2,
+    maxCoders: null,
+  },
+  {
+    id: 'scotts-pi',
+    name: "Scott's Pi",
+    description: 'Zum Vergleich mit Kappa',
+    minCoders: 2,
+    maxCoders: null,
+  },
+  {
+    id: 'unitizing-alpha',
+    name: 'Unitizing Alpha (uα)',
+    description: 'Freie Textstellen, Grenzen überlappend',
+    minCoders: 2,
+    maxCoders: null,
+  },
+]
+
+const measurementLevels: { id: MeasurementLevel; name: string }[] = [
+  { id: 'nominal', name: 'Nominal' },
+  { id: 'ordinal', name: 'Ordinal' },
+  { id: 'interval', name: 'Intervall' },
+  { id: 'ratio', name: 'Verhältnis' },
+]
+
+const kappaWeightings: { id: KappaWeighting | 'none'; name: string }[] = [
+  { id: 'none', name: 'Ungewichtet' },
+  { id: 'linear', name: 'Linear gewichtet' },
+  { id: 'quadratic', name: 'Quadratisch gewichtet' },
 ]
 
 const interpretationColors: Record<string, string> = {
@@ -54,12 +111,54 @@ const interpretationColors: Record<string, string> = {
   'Moderate': 'text-blue-400 bg-blue-400/10',
   'Substantial': 'text-green-400 bg-green-400/10',
   'Almost Perfect': 'text-primary-400 bg-primary-400/10',
+  'Good': 'text-green-400 bg-green-400/10',
+  'Very Good': 'text-primary-400 bg-primary-400/10',
 }
 
-export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
+export default function IRRPanel({ codings: allCodings, codes, documents: allDocuments }: IRRPanelProps) {
+  const { rounds, fetchRounds, fetchRoundCodings } = useRoundStore()
+  const projectId = allDocuments[0]?.projectId
+
+  useEffect(() => {
+    if (projectId) fetchRounds(projectId)
+  }, [projectId, fetchRounds])
+
+  // Closed coding rounds, latest first - the latest one is used by default
+  const closedRounds = useMemo(
+    () =>
+      rounds
+        .filter((r) => !isRoundOpen(r))
+        .sort((a, b) => (b.closedAt || b.endsAt || '').localeCompare(a.closedAt || a.endsAt || '')),
+    [rounds]
+  )
+  const [selectedRoundId, setSelectedRoundId] = useState<string | null>(null)
+  const roundId = selectedRoundId ?? closedRounds[0]?.id ?? ''
+  const round = closedRounds.find((r) => r.id === roundId) || null
+  const [roundCodings, setRoundCodings] = useState<Coding[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    if (!roundId) {
+      setRoundCodings([])
+      return
+    }
+    fetchRoundCodings(roundId).then((data) => {
+      if (!cancelled) setRoundCodings(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [roundId, fetchRoundCodings])
+
+  const codings = round ? roundCodings : allCodings
+  const documents = useMemo(
+    () => (round ? allDocuments.filter((d) => round.documentIds.includes(d.id)) : allDocuments),
+    [round, allDocuments]
+  )
+
   // Extract coders from codings data
   const coders = useMemo(() => {
-    const extracted = extractCoders(codings)
+    const extracted = extractCoders(codings, { roundId: round?.id })
     // Add demo coders if not enough
     if (extracted.length < 2) {
       return [
@@ -69,13 +168,29 @@ export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
       ]
     }
     return extracted
-  }, [codings])
+  }, [codings, round])
 
   const [selectedMetric, setSelectedMetric] = useState('percent-agreement')
   const [selectedCoderIds, setSelectedCoderIds] = useState<string[]>(coders.slice(0, 3).map(c => c.id))
   const [result, setResult] = useState<IRRResult | null>(null)
+  const [breakdown, setBreakdown] = useState<ReliabilityBreakdown | null>(null)
   const [isCalculating, setIsCalculating] = useState(false)
   const [showDisagreements, setShowDisagreements] = useState(false)
+  const [level, setLevel] = useState<MeasurementLevel>('nominal')
+  const [weighting, setWeighting] = useState<KappaWeighting | 'none'>('none')
+  // Off by default: the resamples run on the main thread and take long on large projects
+  const [bootstrapEnabled, setBootstrapEnabled] = useState(false)
+  const [bootstrapSamples, setBootstrapSamples] = useState(DEFAULT_BOOTSTRAP_SAMPLES)
+  const [bootstrapSeed, setBootstrapSeed] = useState(DEFAULT_BOOTSTRAP_SEED)
+  const [threshold, setThreshold] = useState(DEFAULT_RELIABILITY_THRESHOLD)
+  const [tolerance, setTolerance] = useState(0)
+  const [showAdjudication, setShowAdjudication] = useState(false)
+
+  useEffect(() => {
+    setSelectedCoderIds(coders.slice(0, 3).map(c => c.id))
+    setResult(null)
+    setBreakdown(null)
+  }, [coders])
 
   const metricInfo = metrics.find((m) => m.id === selectedMetric)
 
@@ -99,6 +214,10 @@ export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
     await new Promise((resolve) => setTimeout(resolve, 500))
 
     let calculatedResult: IRRResult
+    let calculatedBreakdown: ReliabilityBreakdown | null = null
+    const bootstrap: BootstrapOptions | undefined = bootstrapEnabled
+      ? { samples: bootstrapSamples, seed: bootstrapSeed, threshold }
+      : undefined
 
     // Use demo calculation if not enough real data
     if (codings.length < 10 || documents.length === 0) {
@@ -111,22 +230,47 @@ export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
               selectedCoders[0],
               selectedCoders[1],
               documents,
-              codes
+              codes,
+              { bootstrap, weighting: weighting === 'none' ? undefined : weighting }
             )
           } else {
             calculatedResult = calculateDemoIRR(selectedMetric, 2)
           }
           break
         case 'krippendorff-alpha':
-          calculatedResult = calculateKrippendorffsAlpha(selectedCoders, documents, codes)
+          calculatedResult = calculateKrippendorffsAlpha(selectedCoders, documents, codes, { bootstrap, level })
+          break
+        case 'gwet-ac1':
+          calculatedResult = calculateGwetAC(selectedCoders, documents, codes, { bootstrap })
+          break
+        case 'gwet-ac2':
+          calculatedResult = calculateGwetAC(selectedCoders, documents, codes, {
+            bootstrap,
+            weighting: weighting === 'none' ? 'quadratic' : weighting,
+          })
+          break
+        case 'scotts-pi':
+          calculatedResult = calculateScottsPi(selectedCoders, documents, codes, {
+            bootstrap,
+            weighting: weighting === 'none' ? undefined : weighting,
+          })
+          break
+        case 'unitizing-alpha':
+          calculatedResult = calculateUnitizingAlpha(selectedCoders, documents, codes, { bootstrap, tolerance })
           break
         case 'percent-agreement':
         default:
-          calculatedResult = calculatePercentAgreement(selectedCoders, documents, codes)
+          calculatedResult = calculatePercentAgreement(selectedCoders, documents, codes, { bootstrap })
       }
+
+      calculatedBreakdown = calculateReliabilityBreakdown(selectedCoders, documents, codes, {
+        metric: selectedMetric === 'cohens-kappa' && selectedCoders.length === 2 ? 'cohens-kappa' : 'krippendorff-alpha',
+        level: selectedMetric === 'krippendorff-alpha' ? level : undefined,
+      })
     }
 
     setResult(calculatedResult)
+    setBreakdown(calculatedBreakdown)
     setIsCalculating(false)
   }
 
@@ -149,6 +293,25 @@ export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
       </div>
 
       <div className="p-4 space-y-4">
+        {/* Coding Round */}
+        {closedRounds.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Kodierrunde</label>
+            <select
+              value={roundId}
+              onChange={(e) => setSelectedRoundId(e.target.value)}
+              className="w-full px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+            >
+              {closedRounds.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name} ({r.documentIds.length} Dokumente)
+                </option>
+              ))}
+              <option value="">Alle Kodierungen</option>
+            </select>
+          </div>
+        )}
+
         {/* Metric Selection */}
         <div>
           <label className="block text-sm font-medium text-surface-300 mb-2">Metrik</label>
@@ -168,6 +331,70 @@ export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
           </select>
         </div>
 
+        {/* Level of Measurement / Weighting */}
+        {selectedMetric === 'krippendorff-alpha' && (
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Skalenniveau</label>
+            <select
+              value={level}
+              onChange={(e) => {
+                setLevel(e.target.value as MeasurementLevel)
+                setResult(null)
+              }}
+              className="w-full px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+            >
+              {measurementLevels.map((l) => (
+                <option key={l.id} value={l.id}>{l.name}</option>
+              ))}
+            </select>
+            {level !== 'nominal' && (
+              <p className="text-xs text-surface-500 mt-1">
+                Reihenfolge gemäß Codesystem; numerische Codenamen (z.B. „1“–„5“) werden als Werte verwendet.
+              </p>
+            )}
+          </div>
+        )}
+        {(selectedMetric === 'cohens-kappa' || selectedMetric === 'scotts-pi' || selectedMetric === 'gwet-ac2') && (
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Gewichtung</label>
+            <select
+              value={selectedMetric === 'gwet-ac2' && weighting === 'none' ? 'quadratic' : weighting}
+              onChange={(e) => {
+                setWeighting(e.target.value as KappaWeighting | 'none')
+                setResult(null)
+              }}
+              className="w-full px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+            >
+              {kappaWeightings
+                .filter((w) => selectedMetric !== 'gwet-ac2' || w.id !== 'none')
+                .map((w) => (
+                  <option key={w.id} value={w.id}>{w.name}</option>
+                ))}
+            </select>
+          </div>
+        )}
+        {selectedMetric === 'unitizing-alpha' && (
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">
+              Überlappungstoleranz (Zeichen)
+            </label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={tolerance}
+              onChange={(e) => {
+                setTolerance(Math.max(0, Math.floor(Number(e.target.value) || 0)))
+                setResult(null)
+              }}
+              className="w-full px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+            />
+            <p className="text-xs text-surface-500 mt-1">
+              Anfangs- und Endgrenzen desselben Codes, die höchstens so weit auseinanderliegen, gelten als identisch.
+            </p>
+          </div>
+        )}
+
         {/* Coder Selection */}
         <div>
           <label className="block text-sm font-medium text-surface-300 mb-2">
@@ -192,6 +419,64 @@ export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
           </div>
         </div>
 
+        {/* Bootstrap Options */}
+        <div className="p-3 rounded-lg bg-surface-800/50 border border-surface-700 space-y-3">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={bootstrapEnabled}
+              onChange={(e) => {
+                setBootstrapEnabled(e.target.checked)
+                setResult(null)
+              }}
+              className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500/50"
+            />
+            <span className="text-sm text-surface-200">Bootstrap-Konfidenzintervall (95%)</span>
+          </label>
+          {bootstrapEnabled && (
+            <p className="text-xs text-surface-500">
+              Rechnet jede Stichprobe neu – bei umfangreichen Dokumenten kann das einige Sekunden bis Minuten dauern.
+            </p>
+          )}
+          {bootstrapEnabled && (
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs text-surface-500 mb-1">Stichproben</label>
+                <select
+                  value={bootstrapSamples}
+                  onChange={(e) => setBootstrapSamples(Number(e.target.value))}
+                  className="w-full px-2 py-1.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm"
+                >
+                  {[200, 1000, 5000].map((n) => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-surface-500 mb-1">Schwellenwert</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="w-full px-2 py-1.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-surface-500 mb-1">Seed</label>
+                <input
+                  type="number"
+                  value={bootstrapSeed}
+                  onChange={(e) => setBootstrapSeed(Number(e.target.value))}
+                  className="w-full px-2 py-1.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Calculate Button */}
         <button
           onClick={handleCalculate}
@@ -242,9 +527,18 @@ export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
             {/* Interpretation Scale */}
             <div className="mb-4">
               <div className="h-2 rounded-full bg-gradient-to-r from-red-500 via-yellow-500 via-blue-500 to-green-500 relative">
+                {result.confidenceInterval && result.confidenceInterval.samples > 0 && (
+                  <div
+                    className="absolute inset-y-0 bg-white/30 rounded-full"
+                    style={{
+                      left: `${Math.max(0, result.confidenceInterval.lower) * 100}%`,
+                      width: `${Math.max(0, Math.min(1, result.confidenceInterval.upper) - Math.max(0, result.confidenceInterval.lower)) * 100}%`,
+                    }}
+                  />
+                )}
                 <div
                   className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-white rounded-full border-2 border-surface-900 shadow"
-                  style={{ left: `${Math.min(result.value * 100, 100)}%` }}
+                  style={{ left: `${Math.max(0, Math.min(result.value * 100, 100))}%` }}
                 />
               </div>
               <div className="flex justify-between text-xs text-surface-500 mt-1">
@@ -254,6 +548,114 @@ export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
               </div>
             </div>
 
+            {/* Analytic Standard Error */}
+            {result.standardError !== undefined && (
+              <div className="flex items-center justify-between text-sm border-t border-surface-700 pt-3 mt-3">
+                <span className="text-surface-300">Standardfehler (analytisch, Gwet)</span>
+                <span className="font-mono text-surface-100">{result.standardError.toFixed(3)}</span>
+              </div>
+            )}
+
+            {/* Bootstrap Confidence Interval */}
+            {result.confidenceInterval && (
+              <div className="border-t border-surface-700 pt-3 mt-3">
+                <p className="text-xs font-medium text-surface-400 mb-2">Bootstrap-Konfidenzintervall</p>
+                {result.confidenceInterval.samples > 0 ? (
+                  <div className="space-y-1 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-surface-300">
+                        {Math.round(result.confidenceInterval.confidenceLevel * 100)}%-KI
+                      </span>
+                      <span className="font-mono text-surface-100">
+                        [{result.confidenceInterval.lower.toFixed(3)}, {result.confidenceInterval.upper.toFixed(3)}]
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-surface-300">Standardfehler</span>
+                      <span className="font-mono text-surface-100">{result.confidenceInterval.standardError.toFixed(3)}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-surface-300">
+                        P(Wert &lt; {result.confidenceInterval.threshold.toFixed(3)})
+                      </span>
+                      <span className="font-mono text-surface-100">
+                        {(result.confidenceInterval.probabilityBelowThreshold * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                    <p className="text-xs text-surface-500 pt-1">
+                      {result.confidenceInterval.samples} Bootstrap-Stichproben, Seed {result.confidenceInterval.seed}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-xs text-surface-500">
+                    {result.unitizing
+                      ? 'Bootstrap zieht ganze Dokumente – dafür sind mindestens 2 kodierte Dokumente nötig'
+                      : 'Zu wenige Kodiereinheiten für Bootstrap'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Unitizing Alpha per Code */}
+            {result.unitizing && (
+              <div className="border-t border-surface-700 pt-3 mt-3">
+                <p className="text-xs font-medium text-surface-400 mb-2">Unitizing-Reliabilität</p>
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-surface-300">|uα| (kodiert vs. nicht kodiert)</span>
+                    <span className="font-mono text-surface-100">{result.unitizing.binaryAlpha.toFixed(3)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-surface-300">cuα (Codes bei Überlappung)</span>
+                    <span className="font-mono text-surface-100">{result.unitizing.cuAlpha.toFixed(3)}</span>
+                  </div>
+                  <p className="text-xs text-surface-500">
+                    {result.unitizing.overlapLength} überlappende Zeichen, Toleranz {result.unitizing.tolerance} Zeichen
+                  </p>
+                </div>
+                {result.unitizing.perCode.length > 0 && (
+                  <table className="w-full mt-3 text-sm">
+                    <thead>
+                      <tr className="text-xs text-surface-500">
+                        <th className="text-left font-normal pb-1">Code</th>
+                        <th className="text-right font-normal pb-1">Einheiten</th>
+                        <th className="text-right font-normal pb-1">(c|u)α</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.unitizing.perCode.map((code) => (
+                        <tr key={code.codeId}>
+                          <td className="py-0.5">
+                            <span className="flex items-center gap-2 text-surface-300">
+                              <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: code.color }} />
+                              <span className="truncate">{code.codeName}</span>
+                            </span>
+                          </td>
+                          <td className="py-0.5 text-right text-surface-500">{code.unitCount}</td>
+                          <td className="py-0.5 text-right font-mono text-surface-100">{code.alpha.toFixed(3)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            {/* Adjudication */}
+            {result.metric === 'cohens-kappa' && result.disagreements && result.disagreements.length > 0 && selectedCoders.length === 2 && (
+              <div className="border-t border-surface-700 pt-3 mt-3">
+                <button
+                  onClick={() => setShowAdjudication(true)}
+                  className="w-full px-4 py-2 rounded-lg bg-surface-700 hover:bg-surface-600 text-surface-100 text-sm font-medium transition-colors"
+                >
+                  Abweichungen klären (Konsens)
+                </button>
+              </div>
+            )}
+
+            {/* Breakdown per Code / Document / Coder Pair */}
+            {breakdown && <IRRBreakdownView breakdown={breakdown} />}
+
             {/* Pairwise Results */}
             {result.pairwise && (
               <div className="border-t border-surface-700 pt-3 mt-3">
@@ -271,21 +673,45 @@ export default function IRRPanel({ codings, codes, documents }: IRRPanelProps) {
               </div>
             )}
 
-            {/* Landis & Koch Scale */}
-            <div className="border-t border-surface-700 pt-3 mt-3">
-              <p className="text-xs font-medium text-surface-400 mb-2">Landis & Koch Skala</p>
-              <div className="grid grid-cols-2 gap-1 text-xs">
-                <span className="text-surface-500">&lt; 0.00</span><span className="text-red-400">Poor</span>
-                <span className="text-surface-500">0.00 - 0.20</span><span className="text-orange-400">Slight</span>
-                <span className="text-surface-500">0.21 - 0.40</span><span className="text-yellow-400">Fair</span>
-                <span className="text-surface-500">0.41 - 0.60</span><span className="text-blue-400">Moderate</span>
-                <span className="text-surface-500">0.61 - 0.80</span><span className="text-green-400">Substantial</span>
-                <span className="text-surface-500">0.81 - 1.00</span><span className="text-primary-400">Almost Perfect</span>
+            {/* Benchmark Scale: Altman for Gwet's AC, Landis & Koch otherwise */}
+            {result.metric === 'gwet-ac1' || result.metric === 'gwet-ac2' ? (
+              <div className="border-t border-surface-700 pt-3 mt-3">
+                <p className="text-xs font-medium text-surface-400 mb-2">Altman Skala</p>
+                <div className="grid grid-cols-2 gap-1 text-xs">
+                  <span className="text-surface-500">&lt; 0.20</span><span className="text-red-400">Poor</span>
+                  <span className="text-surface-500">0.21 - 0.40</span><span className="text-yellow-400">Fair</span>
+                  <span className="text-surface-500">0.41 - 0.60</span><span className="text-blue-400">Moderate</span>
+                  <span className="text-surface-500">0.61 - 0.80</span><span className="text-green-400">Good</span>
+                  <span className="text-surface-500">0.81 - 1.00</span><span className="text-primary-400">Very Good</span>
+                </div>
               </div>
-            </div>
+            ) : (
+              <div className="border-t border-surface-700 pt-3 mt-3">
+                <p className="text-xs font-medium text-surface-400 mb-2">Landis & Koch Skala</p>
+                <div className="grid grid-cols-2 gap-1 text-xs">
+                  <span className="text-surface-500">&lt; 0.00</span><span className="text-red-400">Poor</span>
+                  <span className="text-surface-500">0.00 - 0.20</span><span className="text-orange-400">Slight</span>
+                  <span className="text-surface-500">0.21 - 0.40</span><span className="text-yellow-400">Fair</span>
+                  <span className="text-surface-500">0.41 - 0.60</span><span className="text-blue-400">Moderate</span>
+                  <span className="text-surface-500">0.61 - 0.80</span><span className="text-green-400">Substantial</span>
+                  <span className="text-surface-500">0.81 - 1.00</span><span className="text-primary-400">Almost Perfect</span>
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      {showAdjudication && selectedCoders.length === 2 && (
+        <AdjudicationWorkspace
+          coder1={selectedCoders[0]}
+          coder2={selectedCoders[1]}
+          documents={documents}
+          codes={codes}
+          roundId={round?.id}
+          onClose={() => setShowAdjudication(false)}
+        />
+      )}
     </div>
   )
 }
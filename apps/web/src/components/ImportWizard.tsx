@@ -1,4 +1,6 @@
 import { useState, useRef } from 'react'
+import type { MemoType } from '@/stores/memoStore'
+import { parseQDPX, parseQDE } from '@/lib/qdpx'
 
 interface ImportWizardProps {
   projectId: string
@@ -10,20 +12,23 @@ type ImportFormat = 'refi-qda' | 'atlas' | 'nvivo' | 'maxqda' | 'evidenra'
 
 export interface ImportedData {
   format: ImportFormat
+  projectName?: string
   documents: ImportedDocument[]
   codes: ImportedCode[]
   codings: ImportedCoding[]
   memos?: ImportedMemo[]
+  coders?: ImportedCoder[]
 }
 
-interface ImportedDocument {
+export interface ImportedDocument {
+  id?: string
   name: string
   content: string
   type: string
   metadata?: Record<string, any>
 }
 
-interface ImportedCode {
+export interface ImportedCode {
   id: string
   name: string
   color: string
@@ -31,19 +36,32 @@ interface ImportedCode {
   parentId?: string
 }
 
-interface ImportedCoding {
+export interface ImportedCoding {
+  id?: string
   codeId: string
+  documentId?: string
   documentName: string
   selectedText: string
   startOffset?: number
   endOffset?: number
   comment?: string
+  codedBy?: string // ImportedCoder.id
+  createdAt?: string
 }
 
-interface ImportedMemo {
+export interface ImportedMemo {
+  id?: string
   title: string
   content: string
-  type: string
+  type: MemoType
+  targetId?: string // ImportedCode/ImportedDocument/ImportedCoding id, depending on type
+  createdBy?: string // ImportedCoder.id
+}
+
+export interface ImportedCoder {
+  id: string
+  name: string
+  externalId?: string
 }
 
 type Step = 'select' | 'upload' | 'mapping' | 'preview' | 'importing'
@@ -63,7 +81,7 @@ export default function ImportWizard({ projectId, onImport, onClose }: ImportWiz
       id: 'refi-qda' as ImportFormat,
       name: 'REFI-QDA',
       description: 'Standard-Austauschformat für QDA-Software',
-      extension: '.qdpx',
+      extension: '.qdpx, .qde',
       icon: 'M4 6h16M4 12h16m-7 6h7',
     },
     {
@@ -274,7 +292,7 @@ export default function ImportWizard({ projectId, onImport, onClose }: ImportWiz
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".qdpx,.xml,.json,.nvp,.mx20,.atlproj"
+                    accept=".qdpx,.qde,.xml,.json,.nvp,.mx20,.atlproj"
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -431,13 +449,15 @@ export default function ImportWizard({ projectId, onImport, onClose }: ImportWiz
 
 // File parsing functions
 async function parseFile(file: File, format: ImportFormat): Promise<ImportedData> {
+  if (format === 'refi-qda') {
+    return parseREFIQDA(file)
+  }
+
   const text = await file.text()
 
   switch (format) {
     case 'evidenra':
       return parseEvidenraJSON(text)
-    case 'refi-qda':
-      return parseREFIQDA(text)
     case 'atlas':
     case 'nvivo':
     case 'maxqda':
@@ -484,48 +504,13 @@ function parseEvidenraJSON(text: string): ImportedData {
   }
 }
 
-function parseREFIQDA(text: string): ImportedData {
-  // REFI-QDA is typically a ZIP file containing XML
-  // For simplicity, we'll handle the case where users provide the internal XML
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(text, 'text/xml')
-
-  const documents: ImportedDocument[] = []
-  const codes: ImportedCode[] = []
-  const codings: ImportedCoding[] = []
-
-  // Parse sources (documents)
-  const sources = doc.querySelectorAll('Source')
-  sources.forEach(source => {
-    documents.push({
-      name: source.getAttribute('name') || 'Unbenannt',
-      content: source.textContent || '',
-      type: 'text',
-    })
-  })
-
-  // Parse codes
-  const codeElements = doc.querySelectorAll('Code')
-  codeElements.forEach(code => {
-    codes.push({
-      id: code.getAttribute('guid') || `code-${codes.length}`,
-      name: code.getAttribute('name') || 'Unbenannt',
-      color: code.getAttribute('color') || '#3b82f6',
-      description: code.getAttribute('description') || undefined,
-    })
-  })
-
-  // Parse codings
-  const codingElements = doc.querySelectorAll('Coding')
-  codingElements.forEach(coding => {
-    codings.push({
-      codeId: coding.getAttribute('codeGuid') || '',
-      documentName: coding.getAttribute('sourceGuid') || '',
-      selectedText: coding.textContent || '',
-    })
-  })
-
-  return { format: 'refi-qda', documents, codes, codings }
+async function parseREFIQDA(file: File): Promise<ImportedData> {
+  // .qdpx is a ZIP archive (starts with "PK"), a bare project.qde is plain XML
+  const header = new Uint8Array(await file.slice(0, 2).arrayBuffer())
+  if (header[0] === 0x50 && header[1] === 0x4b) {
+    return parseQDPX(file)
+  }
+  return parseQDE(await file.text())
 }
 
 function parseGenericXML(text: string, format: ImportFormat): ImportedData {
@@ -0,0 +1,355 @@
+/**
+ * MediaCodingTimeline - coding track of an audio/video document without transcript
+ *
+ * Waveform (and thumbnails for video) over the whole file; dragging on the
+ * track selects a time range, codes are dragged from the chips onto the
+ * track. Each code gets its own lane with its time codings.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { useMediaUrl } from '@/hooks/useMediaUrl'
+import { formatTimestamp } from '@/lib/transcription'
+import { formatMediaTime, waveformPeaks, type TimeRange } from '@/lib/mediaSync'
+
+export interface TimelineCoding {
+  id: string
+  codeId: string
+  start: number
+  end: number
+  hasRegion: boolean
+  memo?: string
+}
+
+interface MediaCodingTimelineProps {
+  filePath: string
+  mediaType: 'audio' | 'video'
+  /** Known duration in seconds; 0 if unknown, then the decoded audio decides */
+  duration: number
+  codes: { id: string; name: string; color: string }[]
+  codings: TimelineCoding[]
+  currentTime: number
+  selection: TimeRange | null
+  onSelectionChange: (range: TimeRange | null) => void
+  onSeek: (time: number) => void
+  onAddCoding: (codeId: string, range: TimeRange) => void
+  onRemoveCoding: (codingId: string) => void
+  /** Extra controls in the header, e.g. marking a video region */
+  toolbar?: React.ReactNode
+}
+
+const CODE_DRAG_TYPE = 'application/x-evidenra-code'
+const WAVEFORM_BUCKETS = 600
+const THUMBNAIL_COUNT = 10
+// Range of a code dropped outside the selection
+const DROP_LENGTH = 5
+const TICK_STEPS = [1, 5, 10, 30, 60, 120, 300, 600, 1800, 3600]
+
+export default function MediaCodingTimeline({
+  filePath,
+  mediaType,
+  duration,
+  codes,
+  codings,
+  currentTime,
+  selection,
+  onSelectionChange,
+  onSeek,
+  onAddCoding,
+  onRemoveCoding,
+  toolbar,
+}: MediaCodingTimelineProps) {
+  const { url } = useMediaUrl(filePath)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [peaks, setPeaks] = useState<number[] | null>(null)
+  const [decodedDuration, setDecodedDuration] = useState(0)
+  const [waveformError, setWaveformError] = useState(false)
+  const [thumbnails, setThumbnails] = useState<string[]>([])
+  const [drag, setDrag] = useState<{ start: number; x: number; moved: boolean } | null>(null)
+  const [dropActive, setDropActive] = useState(false)
+
+  const total = duration > 0 ? duration : decodedDuration
+
+  // Waveform from the decoded audio track
+  useEffect(() => {
+    if (!url) return
+    let cancelled = false
+    setPeaks(null)
+    setWaveformError(false)
+    const context = new AudioContext()
+    fetch(url)
+      .then((response) => response.arrayBuffer())
+      .then((data) => context.decodeAudioData(data))
+      .then((buffer) => {
+        if (cancelled) return
+        setDecodedDuration(buffer.duration)
+        setPeaks(waveformPeaks(buffer.getChannelData(0), WAVEFORM_BUCKETS))
+      })
+      .catch((err) => {
+        console.error('Waveform error:', err)
+        if (!cancelled) setWaveformError(true)
+      })
+      .finally(() => context.close())
+    return () => {
+      cancelled = true
+    }
+  }, [url])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || !peaks) return
+    const mid = canvas.height / 2
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    ctx.fillStyle = 'rgba(168, 85, 247, 0.6)'
+    peaks.forEach((peak, i) => {
+      const height = Math.max(1, peak * mid)
+      ctx.fillRect(i, mid - height, 1, height * 2)
+    })
+  }, [peaks])
+
+  // Video thumbnails: a hidden video seeks through the file and is drawn to a canvas
+  useEffect(() => {
+    if (!url || mediaType !== 'video' || total <= 0) return
+    let cancelled = false
+    const video = document.createElement('video')
+    video.crossOrigin = 'anonymous'
+    video.muted = true
+    video.preload = 'auto'
+    video.src = url
+
+    const waitFor = (event: 'loadeddata' | 'seeked') =>
+      new Promise<void>((resolve, reject) => {
+        video.addEventListener(event, () => resolve(), { once: true })
+        video.addEventListener('error', () => reject(new Error('Video konnte nicht geladen werden')), { once: true })
+      })
+
+    const capture = async () => {
+      await waitFor('loadeddata')
+      const canvas = document.createElement('canvas')
+      canvas.width = 96
+      canvas.height = Math.round(96 * (video.videoHeight / video.videoWidth || 9 / 16))
+      const ctx = canvas.getContext('2d')
+      if (!ctx) return
+      const frames: string[] = []
+      for (let i = 0; i < THUMBNAIL_COUNT && !cancelled; i++) {
+        video.currentTime = ((i + 0.5) / THUMBNAIL_COUNT) * total
+        await waitFor('seeked')
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+        frames.push(canvas.toDataURL('image/jpeg', 0.6))
+      }
+      if (!cancelled) setThumbnails(frames)
+    }
+
+    // Without CORS headers the canvas is tainted - the timeline works without thumbnails
+    capture().catch((err) => console.error('Thumbnail error:', err))
+    return () => {
+      cancelled = true
+      video.removeAttribute('src')
+      video.load()
+    }
+  }, [url, mediaType, total])
+
+  const timeAt = (clientX: number, element: HTMLElement) => {
+    const rect = element.getBoundingClientRect()
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1)
+    return ratio * total
+  }
+
+  const percent = (time: number) => `${total > 0 ? (time / total) * 100 : 0}%`
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (total <= 0) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ start: timeAt(e.clientX, e.currentTarget), x: e.clientX, moved: false })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return
+    const moved = drag.moved || Math.abs(e.clientX - drag.x) > 3
+    if (!moved) return
+    if (!drag.moved) setDrag({ ...drag, moved })
+    const time = timeAt(e.clientX, e.currentTarget)
+    onSelectionChange({ start: Math.min(drag.start, time), end: Math.max(drag.start, time) })
+  }
+
+  const handlePointerUp = () => {
+    if (drag && !drag.moved) {
+      onSelectionChange(null)
+      onSeek(drag.start)
+    }
+    setDrag(null)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDropActive(false)
+    const codeId = e.dataTransfer.getData(CODE_DRAG_TYPE)
+    if (!codeId || total <= 0) return
+    const time = timeAt(e.clientX, e.currentTarget)
+    const range = selection && time >= selection.start && time <= selection.end
+      ? selection
+      : { start: time, end: Math.min(total, time + DROP_LENGTH) }
+    onAddCoding(codeId, range)
+    onSelectionChange(null)
+  }
+
+  const tickStep = TICK_STEPS.find((step) => total / step <= 10) || TICK_STEPS[TICK_STEPS.length - 1]
+  const ticks = total > 0 ? Array.from({ length: Math.floor(total / tickStep) + 1 }, (_, i) => i * tickStep) : []
+  const codedCodes = codes.filter((code) => codings.some((c) => c.codeId === code.id))
+
+  return (
+    <div className="bg-surface-900 rounded-xl border border-surface-800 p-4 space-y-3">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-medium text-surface-100">Zeitleiste</h3>
+        <div className="flex items-center gap-3 text-xs">
+          {selection ? (
+            <>
+              <span className="font-mono text-amber-400">
+                {formatMediaTime(selection.start)}–{formatMediaTime(selection.end)}
+                {' '}({(selection.end - selection.start).toFixed(1).replace('.', ',')} s)
+              </span>
+              <button onClick={() => onSelectionChange(null)} className="text-surface-400 hover:text-surface-200">
+                Auswahl aufheben
+              </button>
+            </>
+          ) : (
+            <span className="text-surface-500">Bereich ziehen, dann Code auf die Zeitleiste ziehen oder anklicken</span>
+          )}
+          {toolbar}
+        </div>
+      </div>
+
+      {/* Codes to drag */}
+      <div className="flex flex-wrap gap-1.5">
+        {codes.length === 0 && <p className="text-sm text-surface-500">Noch keine Codes vorhanden</p>}
+        {codes.map((code) => (
+          <button
+            key={code.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(CODE_DRAG_TYPE, code.id)
+              e.dataTransfer.effectAllowed = 'copy'
+            }}
+            onClick={() => {
+              if (!selection) return
+              onAddCoding(code.id, selection)
+              onSelectionChange(null)
+            }}
+            className={`inline-flex items-center gap-1.5 px-2 py-1 rounded bg-surface-800 text-xs text-surface-200 cursor-grab ${
+              selection ? 'hover:bg-surface-700' : ''
+            }`}
+            title={selection ? 'Auswahl mit diesem Code kodieren' : 'Auf die Zeitleiste ziehen'}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: code.color }} />
+            {code.name}
+          </button>
+        ))}
+      </div>
+
+      {total <= 0 ? (
+        <p className="text-sm text-surface-500 py-6 text-center">
+          {waveformError ? 'Dauer der Mediendatei unbekannt' : 'Mediendatei wird analysiert...'}
+        </p>
+      ) : (
+        <div
+          className="space-y-1"
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes(CODE_DRAG_TYPE)) return
+            e.preventDefault()
+            setDropActive(true)
+          }}
+          onDragLeave={() => setDropActive(false)}
+        >
+          {/* Axis */}
+          <div className="grid grid-cols-[7rem_1fr] gap-2">
+            <span />
+            <div className="relative h-4 text-[10px] text-surface-500 font-mono">
+              {ticks.map((tick) => (
+                <span key={tick} className="absolute -translate-x-1/2" style={{ left: percent(tick) }}>
+                  {formatTimestamp(tick)}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* Track: thumbnails, waveform, selection, playhead */}
+          <div className="grid grid-cols-[7rem_1fr] gap-2">
+            <span className="text-xs text-surface-500 self-center">{mediaType === 'video' ? 'Video' : 'Audio'}</span>
+            <div
+              className={`relative h-20 rounded bg-surface-800 overflow-hidden cursor-text select-none touch-none ${
+                dropActive ? 'ring-2 ring-primary-500/60' : ''
+              }`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onDrop={handleDrop}
+            >
+              {thumbnails.length > 0 && (
+                <div className="absolute inset-0 flex opacity-40">
+                  {thumbnails.map((thumbnail, i) => (
+                    <img key={i} src={thumbnail} alt="" className="flex-1 min-w-0 h-full object-cover" draggable={false} />
+                  ))}
+                </div>
+              )}
+              <canvas ref={canvasRef} width={WAVEFORM_BUCKETS} height={80} className="absolute inset-0 w-full h-full" />
+              {waveformError && (
+                <span className="absolute inset-0 flex items-center justify-center text-xs text-surface-500">
+                  Keine Wellenform verfügbar
+                </span>
+              )}
+              {selection && (
+                <div
+                  className="absolute inset-y-0 bg-amber-400/20 border-x border-amber-400"
+                  style={{ left: percent(selection.start), width: percent(selection.end - selection.start) }}
+                />
+              )}
+              <Playhead position={percent(currentTime)} />
+            </div>
+          </div>
+
+          {/* One lane per code */}
+          {codedCodes.map((code) => (
+            <div key={code.id} className="grid grid-cols-[7rem_1fr] gap-2">
+              <span className="text-xs text-surface-300 truncate self-center" title={code.name}>{code.name}</span>
+              <div className="relative h-6 rounded bg-surface-800/50" onDrop={handleDrop}>
+                {codings
+                  .filter((coding) => coding.codeId === code.id)
+                  .map((coding) => (
+                    <div
+                      key={coding.id}
+                      className="group absolute inset-y-0.5 min-w-[4px] rounded-sm cursor-pointer flex items-center justify-end"
+                      style={{
+                        left: percent(coding.start),
+                        width: percent(coding.end - coding.start),
+                        backgroundColor: code.color,
+                      }}
+                      onClick={() => onSeek(coding.start)}
+                      title={`${formatMediaTime(coding.start)}–${formatMediaTime(coding.end)}${coding.hasRegion ? ' · Bildbereich' : ''}${coding.memo ? `\n${coding.memo}` : ''}`}
+                    >
+                      {coding.hasRegion && <span className="mr-auto pl-1 text-[10px] text-white/80">▣</span>}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onRemoveCoding(coding.id)
+                        }}
+                        className="px-1 text-xs text-white/80 hover:text-white opacity-0 group-hover:opacity-100"
+                        title="Kodierung entfernen"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                <Playhead position={percent(currentTime)} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function Playhead({ position }: { position: string }) {
+  return <div className="absolute inset-y-0 w-px bg-primary-400 pointer-events-none" style={{ left: position }} />
+}
@@ -0,0 +1,230 @@
+/**
+ * MediaPlayer - audio/video player of a media document
+ *
+ * Reports the playback time so the document view can highlight the current
+ * transcript segment; `seekRequest` jumps to a time (e.g. a clicked coding).
+ * On video, coded frame regions are drawn over the picture and a new region
+ * can be marked with the mouse.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { useMediaUrl } from '@/hooks/useMediaUrl'
+import { formatTimestamp } from '@/lib/transcription'
+import { normalizeRegion, segmentAtTime, type MediaRegion, type TranscriptSegment } from '@/lib/mediaSync'
+
+interface MediaPlayerProps {
+  filePath: string
+  mediaType: 'audio' | 'video'
+  segments: TranscriptSegment[]
+  /** New object per request, so seeking to the same time twice works */
+  seekRequest: { time: number } | null
+  onTimeUpdate: (time: number) => void
+  /** Regions of the codings at the current time */
+  regions?: { id: string; color: string; region: MediaRegion }[]
+  /** Region marked for the next coding, drawn dashed */
+  pendingRegion?: MediaRegion | null
+  /** Set to let the user draw a region over the video */
+  onRegionDrawn?: (region: MediaRegion) => void
+}
+
+/** Displayed picture inside the video element (letterboxing excluded), in px */
+interface FrameBox {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2]
+
+export default function MediaPlayer({
+  filePath,
+  mediaType,
+  segments,
+  seekRequest,
+  onTimeUpdate,
+  regions = [],
+  pendingRegion = null,
+  onRegionDrawn,
+}: MediaPlayerProps) {
+  const mediaRef = useRef<HTMLMediaElement | null>(null)
+  const { url: src, error } = useMediaUrl(filePath)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [playbackRate, setPlaybackRate] = useState(1)
+  const [frame, setFrame] = useState<FrameBox | null>(null)
+  const [draft, setDraft] = useState<{ start: { x: number; y: number }; region: MediaRegion } | null>(null)
+
+  // The overlay has to cover the picture only, not the black bars around it
+  const measureFrame = () => {
+    const video = mediaRef.current
+    if (!(video instanceof HTMLVideoElement) || !video.videoWidth) return
+    const scale = Math.min(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight)
+    const width = video.videoWidth * scale
+    const height = video.videoHeight * scale
+    setFrame({ left: (video.clientWidth - width) / 2, top: (video.clientHeight - height) / 2, width, height })
+  }
+
+  useEffect(() => {
+    window.addEventListener('resize', measureFrame)
+    return () => window.removeEventListener('resize', measureFrame)
+  }, [])
+
+  useEffect(() => {
+    const media = mediaRef.current
+    if (!seekRequest || !media) return
+    media.currentTime = seekRequest.time
+    media.play().catch(() => {
+      // Autoplay blocked - the position is set anyway
+    })
+  }, [seekRequest])
+
+  useEffect(() => {
+    if (mediaRef.current) mediaRef.current.playbackRate = playbackRate
+  }, [playbackRate, src])
+
+  const handleTimeUpdate = () => {
+    const time = mediaRef.current?.currentTime || 0
+    setCurrentTime(time)
+    onTimeUpdate(time)
+  }
+
+  const skip = (seconds: number) => {
+    const media = mediaRef.current
+    if (media) media.currentTime = Math.max(0, media.currentTime + seconds)
+  }
+
+  const currentSegment = segmentAtTime(segments, currentTime)
+
+  const pointFromEvent = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = pointFromEvent(e)
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDraft({ start, region: { ...start, width: 0, height: 0 } })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draft) return
+    const point = pointFromEvent(e)
+    setDraft({
+      start: draft.start,
+      region: {
+        x: Math.min(draft.start.x, point.x),
+        y: Math.min(draft.start.y, point.y),
+        width: Math.abs(point.x - draft.start.x),
+        height: Math.abs(point.y - draft.start.y),
+      },
+    })
+  }
+
+  const handlePointerUp = () => {
+    const region = draft && normalizeRegion(draft.region)
+    setDraft(null)
+    if (region && onRegionDrawn) onRegionDrawn(region)
+  }
+
+  if (error) {
+    return (
+      <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+        {error}
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-surface-900 rounded-xl border border-surface-800 p-3 space-y-2">
+      {!src ? (
+        <div className="h-12 flex items-center justify-center">
+          <div className="w-5 h-5 border-2 border-primary-500/30 border-t-primary-500 rounded-full animate-spin" />
+        </div>
+      ) : mediaType === 'video' ? (
+        <div className="relative">
+          <video
+            ref={(el) => { mediaRef.current = el }}
+            src={src}
+            controls={!onRegionDrawn}
+            onTimeUpdate={handleTimeUpdate}
+            onSeeked={handleTimeUpdate}
+            onLoadedMetadata={measureFrame}
+            className="w-full max-h-72 rounded-lg bg-black"
+          />
+          {frame && (regions.length > 0 || pendingRegion || onRegionDrawn) && (
+            <div
+              className={`absolute ${onRegionDrawn ? 'cursor-crosshair' : 'pointer-events-none'}`}
+              style={{ left: frame.left, top: frame.top, width: frame.width, height: frame.height }}
+              onPointerDown={onRegionDrawn ? handlePointerDown : undefined}
+              onPointerMove={onRegionDrawn ? handlePointerMove : undefined}
+              onPointerUp={onRegionDrawn ? handlePointerUp : undefined}
+            >
+              {regions.map(({ id, color, region }) => (
+                <RegionBox key={id} region={region} color={color} />
+              ))}
+              {pendingRegion && <RegionBox region={pendingRegion} color="#f59e0b" dashed />}
+              {draft && <RegionBox region={draft.region} color="#f59e0b" dashed />}
+            </div>
+          )}
+        </div>
+      ) : (
+        <audio
+          ref={(el) => { mediaRef.current = el }}
+          src={src}
+          controls
+          onTimeUpdate={handleTimeUpdate}
+          onSeeked={handleTimeUpdate}
+          className="w-full"
+        />
+      )}
+
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          onClick={() => skip(-5)}
+          className="px-2 py-1 rounded bg-surface-800 text-surface-300 hover:bg-surface-700"
+          title="5 Sekunden zurück"
+        >
+          −5s
+        </button>
+        <select
+          value={playbackRate}
+          onChange={(e) => setPlaybackRate(Number(e.target.value))}
+          className="px-2 py-1 rounded bg-surface-800 border border-surface-700 text-surface-300"
+          title="Wiedergabegeschwindigkeit"
+        >
+          {PLAYBACK_RATES.map((rate) => (
+            <option key={rate} value={rate}>{rate}×</option>
+          ))}
+        </select>
+        {onRegionDrawn && (
+          <span className="text-amber-400">Bereich im Video aufziehen</span>
+        )}
+        {currentSegment && (
+          <p className="flex-1 min-w-0 text-surface-400 truncate">
+            <span className="font-mono text-primary-400 mr-2">{formatTimestamp(currentSegment.startTime)}</span>
+            {currentSegment.text}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function RegionBox({ region, color, dashed = false }: { region: MediaRegion; color: string; dashed?: boolean }) {
+  return (
+    <div
+      className={`absolute border-2 rounded-sm ${dashed ? 'border-dashed' : ''}`}
+      style={{
+        left: `${region.x * 100}%`,
+        top: `${region.y * 100}%`,
+        width: `${region.width * 100}%`,
+        height: `${region.height * 100}%`,
+        borderColor: color,
+        backgroundColor: `${color}22`,
+      }}
+    />
+  )
+}
@@ -4,19 +4,44 @@ import {
   isSupportedMediaFile,
   getMediaDuration,
   formatTimestamp,
+  transcriptionToDocument,
   transcriptionToDocumentContent,
-  hasOpenAIKey,
+  languageLabel,
+  renameSpeakers,
+  transcriptSpeakers,
+  TRANSCRIPTION_LANGUAGES,
+  type TranscriptionChunkProgress,
   type TranscriptionResult,
 } from '@/lib/transcription'
+import {
+  TRANSCRIPTION_PROVIDERS,
+  getTranscriptionSettings,
+  resolveTranscriptionProvider,
+  type TranscriptionProviderId,
+} from '@/lib/transcriptionProviders'
+import { resolveDiarizationProvider } from '@/lib/diarization'
+import type { TranscriptSegmentInput } from '@/lib/api'
+
+export interface MediaDocument {
+  name: string
+  content: string
+  type: string
+  duration?: number
+  /** Original file, stored next to the transcript for playback */
+  file: File
+  mediaType: 'audio' | 'video'
+  segments: TranscriptSegmentInput[]
+}
 
 interface MediaUploadProps {
-  onUpload: (document: { name: string; content: string; type: string; duration?: number }) => void
+  projectId: string
+  onUpload: (document: MediaDocument) => Promise<void> | void
   onClose: () => void
 }
 
-type UploadState = 'idle' | 'loading' | 'transcribing' | 'success' | 'error'
+type UploadState = 'idle' | 'loading' | 'transcribing' | 'success' | 'saving' | 'error'
 
-export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
+export default function MediaUpload({ projectId, onUpload, onClose }: MediaUploadProps) {
   const [dragActive, setDragActive] = useState(false)
   const [uploadState, setUploadState] = useState<UploadState>('idle')
   const [progress, setProgress] = useState(0)
@@ -26,7 +51,24 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
   const [name, setName] = useState('')
   const [includeTimestamps, setIncludeTimestamps] = useState(true)
   const [mediaDuration, setMediaDuration] = useState(0)
+  const [mediaFile, setMediaFile] = useState<File | null>(null)
+  // Off: no transcript, the file is coded directly on its timeline
+  const [transcribe, setTranscribe] = useState(true)
+  const [providerChoice, setProviderChoice] = useState<TranscriptionProviderId | 'auto'>(
+    () => getTranscriptionSettings().provider
+  )
+  const [language, setLanguage] = useState('auto')
+  const [chunk, setChunk] = useState<TranscriptionChunkProgress | null>(null)
+  // Speaker diarization, e.g. for focus groups; count 0 = estimate
+  const [diarize, setDiarize] = useState(false)
+  const [speakerCount, setSpeakerCount] = useState(0)
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({})
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const mediaType = mediaFile?.type.startsWith('video/') ? 'video' : 'audio'
+  const provider = resolveTranscriptionProvider(providerChoice)
+  const speakers = transcription ? transcriptSpeakers(transcription) : []
+  // Pseudonyms applied to preview and saved document
+  const namedTranscription = transcription && renameSpeakers(transcription, speakerNames)
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -51,6 +93,7 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
 
     const baseName = file.name.replace(/\.[^/.]+$/, '')
     setName(baseName)
+    setMediaFile(file)
 
     try {
       // Get duration
@@ -58,14 +101,22 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
       setMediaDuration(duration)
       setProgress(10)
 
+      if (!transcribe) {
+        setUploadState('success')
+        setProgress(100)
+        setStatus('Bereit zur Kodierung auf der Zeitleiste')
+        return
+      }
+
       // Start transcription
       setUploadState('transcribing')
       setStatus('Starte Transkription...')
 
-      const result = await transcribeFile(file, (p, s) => {
+      const result = await transcribeFile(file, (p, s, c) => {
         setProgress(10 + p * 0.9)
         setStatus(s)
-      })
+        setChunk(c || null)
+      }, { projectId, language, provider: providerChoice, diarize, speakerCount: speakerCount || null })
 
       setTranscription(result)
       setUploadState('success')
@@ -87,7 +138,7 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
     if (files?.[0]) {
       processFile(files[0])
     }
-  }, [])
+  }, [transcribe, providerChoice, language, diarize, speakerCount])
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
@@ -96,35 +147,51 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
     }
   }
 
-  const handleSubmit = () => {
-    if (!transcription || !name.trim()) {
+  const handleSubmit = async () => {
+    if ((transcribe && !transcription) || !mediaFile || !name.trim()) {
       setError('Name und Transkription sind erforderlich')
       return
     }
 
-    const content = transcriptionToDocumentContent(transcription, includeTimestamps)
+    const { content, segments } = namedTranscription
+      ? transcriptionToDocument(namedTranscription, includeTimestamps)
+      : { content: '', segments: [] }
 
-    onUpload({
-      name: name.trim(),
-      content,
-      type: 'media',
-      duration: mediaDuration,
-    })
+    setUploadState('saving')
+    setError(null)
+    try {
+      await onUpload({
+        name: name.trim(),
+        content,
+        type: 'media',
+        duration: mediaDuration,
+        file: mediaFile,
+        mediaType,
+        segments,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen')
+      setUploadState('error')
+    }
   }
 
   const resetUpload = () => {
     setUploadState('idle')
     setTranscription(null)
+    setSpeakerNames({})
+    setMediaFile(null)
     setName('')
     setError(null)
     setProgress(0)
     setStatus('')
+    setChunk(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
   }
 
   const wordCount = transcription?.text.trim().split(/\s+/).filter(Boolean).length || 0
+  const ready = !!transcription || (!transcribe && !!mediaFile && uploadState !== 'loading')
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -136,9 +203,9 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
           <p className="text-sm text-surface-400 mt-1">
             Laden Sie eine Audio- oder Videodatei hoch zur automatischen Transkription
           </p>
-          {!hasOpenAIKey() && (
+          {transcribe && !provider.isAvailable() && (
             <p className="text-xs text-amber-400 mt-2">
-              Demo-Modus aktiv. Für echte Transkription OpenAI API-Key in Einstellungen hinzufügen.
+              {provider.label} ist nicht eingerichtet. Server-URL oder OpenAI API-Key in den Einstellungen hinzufügen.
             </p>
           )}
         </div>
@@ -182,7 +249,7 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
                     Audio/Video hierher ziehen oder klicken
                   </p>
                   <p className="text-sm text-surface-500 mt-1">
-                    MP3, WAV, MP4, WebM, OGG, M4A (max. 25MB)
+                    MP3, WAV, MP4, WebM, OGG, M4A – lange Aufnahmen werden abschnittsweise transkribiert
                   </p>
                 </div>
                 {/* Format icons */}
@@ -194,6 +261,82 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
             </div>
           )}
 
+          {uploadState === 'idle' && (
+            <label className="flex items-center gap-3 p-2 rounded-lg hover:bg-surface-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!transcribe}
+                onChange={(e) => setTranscribe(!e.target.checked)}
+                className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500/50"
+              />
+              <span className="text-sm text-surface-200">
+                Ohne Transkript – direkt auf der Zeitleiste kodieren (z. B. Gesten, Interaktionen)
+              </span>
+            </label>
+          )}
+
+          {uploadState === 'idle' && transcribe && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-1.5">Transkription</label>
+                <select
+                  value={providerChoice}
+                  onChange={(e) => setProviderChoice(e.target.value as TranscriptionProviderId | 'auto')}
+                  className="w-full px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                >
+                  <option value="auto">Automatisch ({resolveTranscriptionProvider('auto').label})</option>
+                  {TRANSCRIPTION_PROVIDERS.map((p) => (
+                    <option key={p.id} value={p.id} disabled={!p.isAvailable()}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-surface-500 mt-1 flex items-center gap-1.5">
+                  {provider.local && (
+                    <span className="px-1.5 py-0.5 rounded bg-green-500/10 text-green-400">bleibt lokal</span>
+                  )}
+                  {provider.description}
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-1.5">Sprache</label>
+                <select
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value)}
+                  className="w-full px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                >
+                  {TRANSCRIPTION_LANGUAGES.map((l) => (
+                    <option key={l.code} value={l.code}>{l.label}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="col-span-2 flex items-center gap-3 p-2 rounded-lg hover:bg-surface-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={diarize}
+                  onChange={(e) => setDiarize(e.target.checked)}
+                  className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500/50"
+                />
+                <span className="text-sm text-surface-200 flex-1">
+                  Sprecher erkennen
+                  <span className="block text-xs text-surface-500">{resolveDiarizationProvider().description}</span>
+                </span>
+                {diarize && (
+                  <select
+                    value={speakerCount}
+                    onChange={(e) => setSpeakerCount(Number(e.target.value))}
+                    className="px-2 py-1 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-xs"
+                  >
+                    <option value={0}>Anzahl schätzen</option>
+                    {[2, 3, 4, 5, 6, 7, 8].map((n) => (
+                      <option key={n} value={n}>{n} Sprecher</option>
+                    ))}
+                  </select>
+                )}
+              </label>
+            </div>
+          )}
+
           {(uploadState === 'loading' || uploadState === 'transcribing') && (
             <div className="border-2 border-surface-700 rounded-xl p-8 text-center">
               <div className="w-12 h-12 rounded-full bg-purple-500/10 flex items-center justify-center mx-auto mb-4">
@@ -203,8 +346,21 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
               </div>
               <p className="text-surface-200 font-medium mb-1">{status}</p>
               <p className="text-sm text-surface-500 mb-3">
-                {uploadState === 'transcribing' ? 'KI analysiert die Audiodaten...' : 'Bitte warten...'}
+                {uploadState === 'transcribing' ? `${provider.label} analysiert die Audiodaten...` : 'Bitte warten...'}
               </p>
+              {chunk && chunk.total > 1 && (
+                <div className="flex flex-wrap justify-center gap-1 mb-3">
+                  {Array.from({ length: chunk.total }, (_, i) => (
+                    <span
+                      key={i}
+                      title={`Abschnitt ${i + 1} von ${chunk.total}`}
+                      className={`w-3 h-1.5 rounded-full ${
+                        i < chunk.index ? 'bg-purple-500' : i === chunk.index ? 'bg-purple-400 animate-pulse' : 'bg-surface-700'
+                      }`}
+                    />
+                  ))}
+                </div>
+              )}
               <div className="max-w-xs mx-auto">
                 <div className="h-2 bg-surface-800 rounded-full overflow-hidden">
                   <div
@@ -217,11 +373,11 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
             </div>
           )}
 
-          {(uploadState === 'success' || uploadState === 'error') && transcription && (
+          {(uploadState === 'success' || uploadState === 'saving' || uploadState === 'error') && ready && (
             <div className="border-2 border-surface-700 rounded-xl p-4">
               <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center gap-2">
-                  <MediaTypeIcon type="audio" />
+                  <MediaTypeIcon type={mediaType} />
                   <span className="text-surface-200 font-medium">{name}</span>
                   <span className="text-xs text-surface-500">
                     ({formatTimestamp(mediaDuration)})
@@ -235,23 +391,34 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
                 </button>
               </div>
 
-              {/* Transcript Preview */}
-              <div className="bg-surface-800 rounded-lg p-3 max-h-48 overflow-y-auto mb-3">
-                <pre className="text-sm text-surface-300 whitespace-pre-wrap font-mono">
-                  {transcriptionToDocumentContent(transcription, includeTimestamps).slice(0, 500)}
-                  {transcription.text.length > 500 && '...'}
-                </pre>
-              </div>
+              {namedTranscription ? (
+                <>
+                  {/* Transcript Preview */}
+                  <div className="bg-surface-800 rounded-lg p-3 max-h-48 overflow-y-auto mb-3">
+                    <pre className="text-sm text-surface-300 whitespace-pre-wrap font-mono">
+                      {transcriptionToDocumentContent(namedTranscription, includeTimestamps).slice(0, 500)}
+                      {namedTranscription.text.length > 500 && '...'}
+                    </pre>
+                  </div>
 
-              <div className="flex items-center justify-between text-xs text-surface-500">
-                <span>{wordCount} Wörter · {transcription.segments.length} Segmente</span>
-                <span>Sprache: {transcription.language.toUpperCase()}</span>
-              </div>
+                  <div className="flex items-center justify-between text-xs text-surface-500">
+                    <span>
+                      {wordCount} Wörter · {namedTranscription.segments.length} Segmente
+                      {speakers.length > 0 && ` · ${speakers.length} Sprecher`}
+                    </span>
+                    <span>Sprache: {languageLabel(transcription.language)}</span>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-surface-400">
+                  Kein Transkript. Codes werden im Dokument direkt auf Zeitbereiche der Zeitleiste gezogen.
+                </p>
+              )}
             </div>
           )}
 
           {/* Document Name */}
-          {transcription && (
+          {ready && (
             <>
               <div>
                 <label className="block text-sm font-medium text-surface-300 mb-1.5">
@@ -266,16 +433,47 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
                 />
               </div>
 
+              {/* Speaker pseudonyms - same name twice merges two detected speakers */}
+              {speakers.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-1.5">
+                    Sprecher umbenennen
+                  </label>
+                  <div className="space-y-2">
+                    {speakers.map((speaker) => {
+                      const first = transcription!.segments.find((s) => s.speaker === speaker)
+                      return (
+                        <div key={speaker} className="flex items-center gap-3">
+                          <span className="w-28 text-xs font-mono text-surface-400 flex-shrink-0">{speaker}</span>
+                          <input
+                            type="text"
+                            value={speakerNames[speaker] || ''}
+                            onChange={(e) => setSpeakerNames((prev) => ({ ...prev, [speaker]: e.target.value }))}
+                            placeholder="Pseudonym, z.B. TN1"
+                            className="w-40 px-3 py-1.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                          />
+                          <span className="text-xs text-surface-500 truncate" title={first?.text}>
+                            „{first?.text}“
+                          </span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Options */}
-              <label className="flex items-center gap-3 p-2 rounded-lg hover:bg-surface-800 cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={includeTimestamps}
-                  onChange={(e) => setIncludeTimestamps(e.target.checked)}
-                  className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500/50"
-                />
-                <span className="text-sm text-surface-200">Zeitstempel im Transkript einschließen</span>
-              </label>
+              {transcription && (
+                <label className="flex items-center gap-3 p-2 rounded-lg hover:bg-surface-800 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeTimestamps}
+                    onChange={(e) => setIncludeTimestamps(e.target.checked)}
+                    className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500/50"
+                  />
+                  <span className="text-sm text-surface-200">Zeitstempel im Transkript einschließen</span>
+                </label>
+              )}
             </>
           )}
         </div>
@@ -290,10 +488,10 @@ export default function MediaUpload({ onUpload, onClose }: MediaUploadProps) {
           </button>
           <button
             onClick={handleSubmit}
-            disabled={!transcription || !name.trim() || uploadState === 'loading' || uploadState === 'transcribing'}
+            disabled={!ready || !name.trim() || uploadState === 'loading' || uploadState === 'transcribing' || uploadState === 'saving'}
             className="px-4 py-2 rounded-lg bg-purple-500 hover:bg-purple-600 disabled:bg-surface-700 disabled:text-surface-500 text-white font-medium transition-colors"
           >
-            Transkript hinzufügen
+            {uploadState === 'saving' ? 'Lade Mediendatei hoch...' : transcription ? 'Transkript hinzufügen' : 'Mediendatei hinzufügen'}
           </button>
         </div>
       </div>
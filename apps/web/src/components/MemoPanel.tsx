@@ -2,10 +2,44 @@ import { useState, useEffect } from 'react'
 import {
   useMemoStore,
   Memo,
+  MemoInput,
   MemoType,
+  MemoLink,
+  MemoLinkType,
   memoTypeLabels,
   memoTypeColors,
 } from '@/stores/memoStore'
+import { useProjectStore } from '@/stores/projectStore'
+
+const linkTypeLabels: Record<MemoLinkType, string> = {
+  coding: 'Kodierung',
+  code: 'Code',
+  document: 'Dokument',
+  memo: 'Memo',
+}
+
+/**
+ * Readable label for a linked coding, code, document or memo
+ */
+function useLinkLabel() {
+  const { codes, documents, codings } = useProjectStore()
+  const { memos } = useMemoStore()
+
+  return (link: MemoLink): string => {
+    switch (link.targetType) {
+      case 'code':
+        return codes.find(c => c.id === link.targetId)?.name || 'Code'
+      case 'document':
+        return documents.find(d => d.id === link.targetId)?.name || 'Dokument'
+      case 'memo':
+        return memos.find(m => m.id === link.targetId)?.title || 'Memo'
+      case 'coding': {
+        const text = codings.find(c => c.id === link.targetId)?.selectedText
+        return text ? `„${text.length > 40 ? `${text.slice(0, 40)}…` : text}“` : 'Kodierung'
+      }
+    }
+  }
+}
 
 interface MemoPanelProps {
   projectId: string
@@ -29,6 +63,7 @@ export default function MemoPanel({
     updateMemo,
     deleteMemo,
     addComment,
+    getMemosByTarget,
   } = useMemoStore()
 
   const [showCreateForm, setShowCreateForm] = useState(false)
@@ -40,16 +75,10 @@ export default function MemoPanel({
     fetchMemos(projectId)
   }, [projectId, fetchMemos])
 
-  // Filter memos based on target or show all
-  const filteredMemos = memos.filter(memo => {
-    if (targetType && targetId) {
-      return memo.type === targetType && memo.targetId === targetId
-    }
-    if (filter !== 'all') {
-      return memo.type === filter
-    }
-    return showAllMemos
-  })
+  // Filter memos based on target (primary target or link) or show all
+  const filteredMemos = targetType && targetId
+    ? getMemosByTarget(targetType, targetId)
+    : memos.filter(memo => (filter !== 'all' ? memo.type === filter : showAllMemos))
 
   const sortedMemos = [...filteredMemos].sort(
     (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
@@ -217,6 +246,7 @@ function MemoCard({
 }) {
   const [newComment, setNewComment] = useState('')
   const [showCommentForm, setShowCommentForm] = useState(false)
+  const linkLabel = useLinkLabel()
 
   const formatDate = (date: string) => {
     const d = new Date(date)
@@ -277,6 +307,14 @@ function MemoCard({
         <div className="flex items-center gap-4 mt-3 text-xs text-surface-500">
           <span>{memo.createdByName}</span>
           <span>{formatDate(memo.updatedAt)}</span>
+          {memo.links.length > 0 && (
+            <span className="flex items-center gap-1">
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+              </svg>
+              {memo.links.length}
+            </span>
+          )}
           {comments.length > 0 && (
             <span className="flex items-center gap-1">
               <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -307,6 +345,24 @@ function MemoCard({
           <div className="p-4">
             <p className="text-sm text-surface-300 whitespace-pre-wrap">{memo.content}</p>
 
+            {/* Links */}
+            {memo.links.length > 0 && (
+              <div className="mt-4">
+                <p className="text-xs font-medium text-surface-500 mb-2">Verknüpft mit</p>
+                <div className="flex gap-2 flex-wrap">
+                  {memo.links.map(link => (
+                    <span
+                      key={`${link.targetType}-${link.targetId}`}
+                      className="px-2 py-1 rounded bg-surface-800 text-xs text-surface-300"
+                    >
+                      <span className="text-surface-500">{linkTypeLabels[link.targetType]}:</span>{' '}
+                      {linkLabel(link)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Tags */}
             {memo.tags.length > 0 && (
               <div className="flex gap-2 mt-4 flex-wrap">
@@ -421,7 +477,7 @@ function MemoFormModal({
   defaultType: MemoType
   defaultTargetId: string | null
   projectId: string
-  onSave: (data: Partial<Memo>) => Promise<void>
+  onSave: (data: Omit<MemoInput, 'projectId'>) => Promise<void>
   onClose: () => void
 }) {
   const [title, setTitle] = useState(memo?.title || '')
@@ -429,8 +485,36 @@ function MemoFormModal({
   const [type, setType] = useState<MemoType>(memo?.type || defaultType)
   const [tags, setTags] = useState<string[]>(memo?.tags || [])
   const [tagInput, setTagInput] = useState('')
+  const [links, setLinks] = useState<MemoLink[]>(
+    memo?.links || (defaultTargetId && defaultType !== 'project' && defaultType !== 'free'
+      ? [{ targetType: defaultType, targetId: defaultTargetId }]
+      : [])
+  )
+  const [linkType, setLinkType] = useState<MemoLinkType>('code')
   const [isSaving, setIsSaving] = useState(false)
 
+  const { codes, documents, codings } = useProjectStore()
+  const { memos } = useMemoStore()
+  const linkLabel = useLinkLabel()
+
+  const linkOptions: { id: string; label: string }[] = (() => {
+    switch (linkType) {
+      case 'code':
+        return codes.filter(c => c.projectId === projectId).map(c => ({ id: c.id, label: c.name }))
+      case 'document':
+        return documents.filter(d => d.projectId === projectId).map(d => ({ id: d.id, label: d.name }))
+      case 'coding':
+        return codings.map(c => ({ id: c.id, label: linkLabel({ targetType: 'coding', targetId: c.id }) }))
+      case 'memo':
+        return memos
+          .filter(m => m.projectId === projectId && m.id !== memo?.id)
+          .map(m => ({ id: m.id, label: m.title }))
+    }
+  })().filter(option => !links.some(l => l.targetType === linkType && l.targetId === option.id))
+
+  const isPrimaryLink = (link: MemoLink) =>
+    link.targetType === type && link.targetId === (memo?.targetId || defaultTargetId)
+
   const handleSave = async () => {
     if (!title.trim() || !content.trim()) return
 
@@ -441,6 +525,7 @@ function MemoFormModal({
       type,
       targetId: memo?.targetId || defaultTargetId,
       tags,
+      links,
     })
     setIsSaving(false)
   }
@@ -501,6 +586,62 @@ function MemoFormModal({
               />
             </div>
 
+            {/* Links */}
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-1.5">Verknüpfungen</label>
+              {links.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {links.map(link => (
+                    <span
+                      key={`${link.targetType}-${link.targetId}`}
+                      className="flex items-center gap-1 px-2 py-1 rounded bg-surface-800 text-sm text-surface-300"
+                    >
+                      <span className="text-surface-500">{linkTypeLabels[link.targetType]}:</span>
+                      <span className="truncate max-w-[12rem]">{linkLabel(link)}</span>
+                      {!isPrimaryLink(link) && (
+                        <button
+                          onClick={() => setLinks(links.filter(l => l !== link))}
+                          className="text-surface-500 hover:text-surface-300"
+                        >
+                          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <select
+                  value={linkType}
+                  onChange={(e) => setLinkType(e.target.value as MemoLinkType)}
+                  className="px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                >
+                  {(Object.keys(linkTypeLabels) as MemoLinkType[]).map(t => (
+                    <option key={t} value={t}>{linkTypeLabels[t]}</option>
+                  ))}
+                </select>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    if (e.target.value) {
+                      setLinks([...links, { targetType: linkType, targetId: e.target.value }])
+                    }
+                  }}
+                  disabled={linkOptions.length === 0}
+                  className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50 disabled:opacity-50"
+                >
+                  <option value="">
+                    {linkOptions.length === 0 ? 'Keine weiteren Einträge' : `${linkTypeLabels[linkType]} verknüpfen...`}
+                  </option>
+                  {linkOptions.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
             {/* Tags */}
             <div>
               <label className="block text-sm font-medium text-surface-300 mb-1.5">Tags</label>
@@ -0,0 +1,225 @@
+/**
+ * QueryEditor - input for the coding query language with autocomplete
+ * and the project's saved queries
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { savedQueriesApi } from '@/lib/api'
+import {
+  applyCompletion,
+  getQueryCompletions,
+  type QueryCompletion,
+  type QueryError,
+} from '@/lib/query'
+
+interface SavedQuery {
+  id: string
+  name: string
+  query: string
+}
+
+interface QueryEditorProps {
+  projectId: string
+  value: string
+  onChange: (value: string) => void
+  onRun: (value: string) => void
+  error: QueryError | null
+  vocabulary: { codes: string[]; documents: string[]; attributes: string[]; suggestions: string[] }
+}
+
+const kindLabels: Record<QueryCompletion['kind'], string> = {
+  keyword: 'Operator',
+  code: 'Code',
+  attribute: 'Attribut',
+  document: 'Dokument',
+  text: 'Text',
+}
+
+export default function QueryEditor({ projectId, value, onChange, onRun, error, vocabulary }: QueryEditorProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [cursor, setCursor] = useState(value.length)
+  const [showCompletions, setShowCompletions] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([])
+  const [saveName, setSaveName] = useState<string | null>(null)
+
+  useEffect(() => {
+    savedQueriesApi.getByProject(projectId).then(({ data }) => setSavedQueries(data || []))
+  }, [projectId])
+
+  const completions = showCompletions ? getQueryCompletions(value, cursor, vocabulary) : []
+
+  const complete = (completion: QueryCompletion) => {
+    const next = applyCompletion(value, cursor, completion)
+    onChange(next.query)
+    setCursor(next.cursor)
+    setActiveIndex(0)
+    requestAnimationFrame(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(next.cursor, next.cursor)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (completions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setActiveIndex((i) => (i + step + completions.length) % completions.length)
+        return
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && activeIndex >= 0)) {
+        e.preventDefault()
+        complete(completions[Math.min(activeIndex, completions.length - 1)])
+        return
+      }
+      if (e.key === 'Escape') {
+        e.stopPropagation()
+        setShowCompletions(false)
+        return
+      }
+    }
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      setShowCompletions(false)
+      onRun(value)
+    }
+  }
+
+  const handleSave = async () => {
+    const name = saveName?.trim()
+    if (!name || !value.trim()) return
+    const { data } = await savedQueriesApi.save(projectId, name, value)
+    if (data) {
+      setSavedQueries((prev) =>
+        [...prev.filter((q) => q.id !== data.id && q.name !== data.name), data].sort((a, b) => a.name.localeCompare(b.name))
+      )
+    }
+    setSaveName(null)
+  }
+
+  const handleDelete = async (id: string) => {
+    const { error: deleteError } = await savedQueriesApi.remove(id)
+    if (!deleteError) setSavedQueries((prev) => prev.filter((q) => q.id !== id))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative flex items-center gap-2">
+        <div className="relative flex-1">
+          <input
+            ref={inputRef}
+            type="text"
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value)
+              setCursor(e.target.selectionStart ?? e.target.value.length)
+              setShowCompletions(true)
+              setActiveIndex(0)
+            }}
+            onKeyDown={handleKeyDown}
+            onClick={(e) => setCursor(e.currentTarget.selectionStart ?? value.length)}
+            onBlur={() => setTimeout(() => setShowCompletions(false), 150)}
+            placeholder='z. B. [Angst] WITHIN 2 PARAGRAPHS OF [Familie] AND @gender=f'
+            spellCheck={false}
+            className={`w-full px-4 py-3 rounded-lg bg-surface-800 border font-mono text-sm text-surface-100 placeholder-surface-500 focus:outline-none focus:ring-2 ${
+              error ? 'border-red-500/50 focus:ring-red-500/40' : 'border-surface-700 focus:ring-primary-500/50'
+            }`}
+            autoFocus
+          />
+
+          {/* Autocomplete */}
+          {completions.length > 0 && (
+            <div className="absolute left-0 right-0 top-full mt-1 z-10 rounded-lg bg-surface-800 border border-surface-700 shadow-xl overflow-hidden">
+              {completions.map((completion, idx) => (
+                <button
+                  key={`${completion.kind}-${completion.insert}`}
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    complete(completion)
+                  }}
+                  className={`w-full flex items-center justify-between gap-3 px-3 py-1.5 text-left text-sm ${
+                    idx === activeIndex ? 'bg-surface-700 text-surface-100' : 'text-surface-300'
+                  }`}
+                >
+                  <span className="truncate">{completion.label}</span>
+                  <span className="text-xs text-surface-500 flex-shrink-0">{kindLabels[completion.kind]}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => onRun(value)}
+          className="px-4 py-3 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium"
+        >
+          Ausführen
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-400 font-mono">
+          Zeichen {error.position + 1}: {error.message}
+        </p>
+      )}
+
+      {/* Saved Queries */}
+      <div className="flex flex-wrap items-center gap-2">
+        {savedQueries.map((saved) => (
+          <span
+            key={saved.id}
+            className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded bg-surface-800 text-xs text-surface-300"
+            title={saved.query}
+          >
+            <button
+              onClick={() => {
+                onChange(saved.query)
+                onRun(saved.query)
+              }}
+              className="hover:text-surface-100"
+            >
+              {saved.name}
+            </button>
+            <button
+              onClick={() => handleDelete(saved.id)}
+              className="px-1 text-surface-500 hover:text-red-400"
+              title="Gespeicherte Abfrage löschen"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {saveName === null ? (
+          <button
+            onClick={() => setSaveName('')}
+            disabled={!value.trim()}
+            className="text-xs text-primary-400 hover:text-primary-300 disabled:text-surface-600"
+          >
+            Abfrage speichern
+          </button>
+        ) : (
+          <span className="inline-flex items-center gap-1">
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave()
+                if (e.key === 'Escape') {
+                  e.stopPropagation()
+                  setSaveName(null)
+                }
+              }}
+              placeholder="Name der Abfrage"
+              className="px-2 py-0.5 rounded bg-surface-800 border border-surface-700 text-xs text-surface-100"
+              autoFocus
+            />
+            <button onClick={handleSave} className="text-xs text-primary-400 hover:text-primary-300">
+              Speichern
+            </button>
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
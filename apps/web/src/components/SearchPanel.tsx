@@ -1,29 +1,42 @@
-import { useState, useMemo, useCallback } from 'react'
+import { useState, useMemo, useCallback, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import {
   searchDocuments,
   searchCodings,
   getFilterOptions,
+  getSearchSuggestions,
   type SearchFilters,
   type SearchResult,
 } from '@/lib/search'
 import type { Document, Code, Coding } from '@/stores/projectStore'
+import { useMemoStore, memoTypeLabels, memoTypeColors, type Memo } from '@/stores/memoStore'
+import { useSemanticIndex } from '@/hooks/useSemanticIndex'
+import type { SemanticMatch } from '@/lib/semanticSearch'
+import { parseQuery, evaluateQuery, type QueryCoding, type QueryError, type QueryHit } from '@/lib/query'
+import { codingsApi } from '@/lib/api'
+import { codingSpeakers, type TranscriptSegment } from '@/lib/mediaSync'
+import QueryEditor from './QueryEditor'
 
 interface SearchPanelProps {
   projectId: string
   documents: Document[]
   codes: Code[]
   codings: Coding[]
+  /** Transcript segments by document, for the speaker filter */
+  transcriptSegments?: Record<string, TranscriptSegment[]>
   onClose: () => void
 }
 
-type SearchMode = 'documents' | 'codings'
+const NO_SEGMENTS: Record<string, TranscriptSegment[]> = {}
+
+type SearchMode = 'documents' | 'codings' | 'memos' | 'semantic' | 'query'
 
 export default function SearchPanel({
   projectId,
   documents,
   codes,
   codings,
+  transcriptSegments = NO_SEGMENTS,
   onClose,
 }: SearchPanelProps) {
   const [query, setQuery] = useState('')
@@ -34,12 +47,13 @@ export default function SearchPanel({
     codeIds: [],
     documentTypes: [],
     codingMethods: [],
+    speakers: [],
   })
 
   // Get available filter options
   const filterOptions = useMemo(
-    () => getFilterOptions(documents, codes, codings),
-    [documents, codes, codings]
+    () => getFilterOptions(documents, codes, codings, transcriptSegments),
+    [documents, codes, codings, transcriptSegments]
   )
 
   // Update filters when query changes
@@ -57,13 +71,142 @@ export default function SearchPanel({
   }, [documents, codings, codes, filters])
 
   const codingResults = useMemo(() => {
-    if (!filters.query && !filters.codeIds?.length && !filters.documentTypes?.length) {
+    if (!filters.query && !filters.codeIds?.length && !filters.documentTypes?.length && !filters.speakers?.length) {
       return []
     }
-    return searchCodings(codings, codes, documents, filters)
-  }, [codings, codes, documents, filters])
+    return searchCodings(codings, codes, documents, filters, transcriptSegments)
+  }, [codings, codes, documents, filters, transcriptSegments])
+
+  // Memo search: full text (server side) plus tags
+  const { memos, searchMemos } = useMemoStore()
+  const [memoTags, setMemoTags] = useState<string[]>([])
+  const [memoResults, setMemoResults] = useState<Memo[]>([])
+
+  const allMemoTags = useMemo(
+    () => [...new Set(memos.filter((m) => m.projectId === projectId).flatMap((m) => m.tags))].sort(),
+    [memos, projectId]
+  )
+
+  useEffect(() => {
+    if (!query.trim() && memoTags.length === 0) {
+      setMemoResults([])
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const results = await searchMemos(projectId, query, memoTags)
+      if (!cancelled) setMemoResults(results)
+    }, 250)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [projectId, query, memoTags, memos, searchMemos])
+
+  // Semantic search: passages with a similar meaning, from the local vector index
+  const semanticIndex = useSemanticIndex(projectId, documents)
+  const [semanticResults, setSemanticResults] = useState<SemanticMatch[]>([])
+
+  useEffect(() => {
+    if (searchMode !== 'semantic' || query.trim().length < 3) {
+      setSemanticResults([])
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const results = await semanticIndex.search(query.trim(), { limit: 30 })
+        if (!cancelled) setSemanticResults(results)
+      } catch {
+        if (!cancelled) setSemanticResults([])
+      }
+    }, 400)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchMode, query, semanticIndex.search])
+
+  // Query language: runs over all codings of the project, not only the open document
+  const [queryText, setQueryText] = useState('')
+  const [ranQuery, setRanQuery] = useState('')
+  const [queryError, setQueryError] = useState<QueryError | null>(null)
+  const [queryHits, setQueryHits] = useState<QueryHit[] | null>(null)
+  const [projectCodings, setProjectCodings] = useState<QueryCoding[] | null>(null)
+
+  const loadProjectCodings = useCallback(async () => {
+    if (projectCodings) return projectCodings
+    const { data } = await codingsApi.getByProject(projectId)
+    // Time codings of media documents have no text range to query
+    const loaded: QueryCoding[] = (data || []).filter((c) => c.start_time == null).map((c) => ({
+      id: c.id,
+      documentId: c.document_id,
+      codeId: c.code_id,
+      startOffset: c.start_offset,
+      endOffset: c.end_offset,
+    }))
+    setProjectCodings(loaded)
+    return loaded
+  }, [projectId, projectCodings])
+
+  useEffect(() => {
+    if (searchMode === 'query') loadProjectCodings()
+  }, [searchMode, loadProjectCodings])
 
-  const totalResults = searchMode === 'documents' ? documentResults.length : codingResults.length
+  const queryVocabulary = useMemo(
+    () => ({
+      codes: codes.map((c) => c.name),
+      documents: documents.map((d) => d.name),
+      attributes: [...new Set(documents.flatMap((d) => Object.keys(d.attributes || {})))].sort(),
+      suggestions: getSearchSuggestions(documents, codes, codings),
+    }),
+    [documents, codes, codings]
+  )
+
+  const runQuery = useCallback(
+    async (text: string) => {
+      setRanQuery(text)
+      const parsed = parseQuery(text)
+      if (!parsed.query) {
+        setQueryError(parsed.error)
+        setQueryHits(null)
+        return
+      }
+      const result = evaluateQuery(parsed.query, {
+        documents,
+        codings: await loadProjectCodings(),
+        codes,
+      })
+      setQueryError(result.error)
+      setQueryHits(result.error ? null : result.hits)
+    },
+    [documents, codes, loadProjectCodings]
+  )
+
+  const codeIdByCoding = useMemo(
+    () => new Map((projectCodings || []).map((c) => [c.id, c.codeId])),
+    [projectCodings]
+  )
+
+  const hasSearch = searchMode === 'query'
+    ? queryHits !== null
+    : searchMode === 'memos'
+    ? !!query || memoTags.length > 0
+    : searchMode === 'semantic'
+      ? query.trim().length >= 3
+      : !!query || !!filters.codeIds?.length || !!filters.documentTypes?.length ||
+        (searchMode === 'codings' && !!filters.speakers?.length)
+
+  const totalResults =
+    searchMode === 'documents'
+      ? documentResults.length
+      : searchMode === 'codings'
+        ? codingResults.length
+        : searchMode === 'semantic'
+          ? semanticResults.length
+          : searchMode === 'query'
+            ? queryHits?.length || 0
+            : memoResults.length
 
   return (
     <div className="fixed inset-0 z-50 flex items-start justify-center pt-20 px-4">
@@ -71,47 +214,65 @@ export default function SearchPanel({
       <div className="relative w-full max-w-3xl bg-surface-900 rounded-2xl border border-surface-800 shadow-2xl max-h-[80vh] flex flex-col">
         {/* Header */}
         <div className="p-4 border-b border-surface-800">
-          <div className="flex items-center gap-3">
-            <div className="flex-1 relative">
-              <svg
-                className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-surface-500"
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-                />
-              </svg>
-              <input
-                type="text"
-                value={query}
-                onChange={(e) => handleQueryChange(e.target.value)}
-                placeholder="Suchen in Dokumenten und Kodierungen..."
-                className="w-full pl-10 pr-4 py-3 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 focus:outline-none focus:ring-2 focus:ring-primary-500/50"
-                autoFocus
-              />
-            </div>
-            <button
-              onClick={() => setShowFilters(!showFilters)}
-              className={`p-3 rounded-lg border transition-colors ${
-                showFilters || Object.values(filters).some((v) => v && (Array.isArray(v) ? v.length : v))
-                  ? 'border-primary-500 bg-primary-500/10 text-primary-400'
-                  : 'border-surface-700 text-surface-400 hover:bg-surface-800'
-              }`}
-            >
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
+          <div className="flex items-start gap-3">
+            {searchMode === 'query' ? (
+              <div className="flex-1">
+                <QueryEditor
+                  projectId={projectId}
+                  value={queryText}
+                  onChange={(value) => {
+                    setQueryText(value)
+                    setQueryError(null)
+                  }}
+                  onRun={runQuery}
+                  error={queryError}
+                  vocabulary={queryVocabulary}
                 />
-              </svg>
-            </button>
+              </div>
+            ) : (
+              <>
+                <div className="flex-1 relative">
+                  <svg
+                    className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-surface-500"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                    />
+                  </svg>
+                  <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => handleQueryChange(e.target.value)}
+                    placeholder="Suchen in Dokumenten, Kodierungen und Memos..."
+                    className="w-full pl-10 pr-4 py-3 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                    autoFocus
+                  />
+                </div>
+                <button
+                  onClick={() => setShowFilters(!showFilters)}
+                  className={`p-3 rounded-lg border transition-colors ${
+                    showFilters || Object.values(filters).some((v) => v && (Array.isArray(v) ? v.length : v))
+                      ? 'border-primary-500 bg-primary-500/10 text-primary-400'
+                      : 'border-surface-700 text-surface-400 hover:bg-surface-800'
+                  }`}
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
+                    />
+                  </svg>
+                </button>
+              </>
+            )}
             <button
               onClick={onClose}
               className="p-3 rounded-lg border border-surface-700 text-surface-400 hover:bg-surface-800"
@@ -123,7 +284,7 @@ export default function SearchPanel({
           </div>
 
           {/* Filters */}
-          {showFilters && (
+          {showFilters && searchMode !== 'query' && (
             <div className="mt-4 p-4 rounded-lg bg-surface-800 space-y-4">
               {/* Code Filter */}
               <div>
@@ -223,10 +384,41 @@ export default function SearchPanel({
                 </div>
               )}
 
+              {/* Speaker Filter - codings in diarized transcripts */}
+              {filterOptions.speakers.length > 0 && searchMode === 'codings' && (
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">
+                    Sprecher
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {filterOptions.speakers.map((speaker) => (
+                      <button
+                        key={speaker}
+                        onClick={() => {
+                          setFilters((prev) => ({
+                            ...prev,
+                            speakers: prev.speakers?.includes(speaker)
+                              ? prev.speakers.filter((s) => s !== speaker)
+                              : [...(prev.speakers || []), speaker],
+                          }))
+                        }}
+                        className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                          filters.speakers?.includes(speaker)
+                            ? 'bg-primary-500/20 text-primary-400'
+                            : 'bg-surface-700 text-surface-400 hover:text-surface-200'
+                        }`}
+                      >
+                        {speaker}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Clear Filters */}
               <button
                 onClick={() => {
-                  setFilters({ query, codeIds: [], documentTypes: [], codingMethods: [] })
+                  setFilters({ query, codeIds: [], documentTypes: [], codingMethods: [], speakers: [] })
                 }}
                 className="text-sm text-surface-400 hover:text-surface-200"
               >
@@ -258,11 +450,66 @@ export default function SearchPanel({
           >
             Kodierungen ({codingResults.length})
           </button>
+          <button
+            onClick={() => setSearchMode('memos')}
+            className={`text-sm font-medium pb-1 border-b-2 transition-colors ${
+              searchMode === 'memos'
+                ? 'border-primary-500 text-primary-400'
+                : 'border-transparent text-surface-400 hover:text-surface-200'
+            }`}
+          >
+            Memos ({memoResults.length})
+          </button>
+          <button
+            onClick={() => setSearchMode('semantic')}
+            className={`text-sm font-medium pb-1 border-b-2 transition-colors ${
+              searchMode === 'semantic'
+                ? 'border-primary-500 text-primary-400'
+                : 'border-transparent text-surface-400 hover:text-surface-200'
+            }`}
+            title="Findet Passagen mit ähnlicher Bedeutung, auch ohne gleiche Wörter"
+          >
+            Ähnliche Passagen ({semanticResults.length})
+          </button>
+          <button
+            onClick={() => setSearchMode('query')}
+            className={`text-sm font-medium pb-1 border-b-2 transition-colors ${
+              searchMode === 'query'
+                ? 'border-primary-500 text-primary-400'
+                : 'border-transparent text-surface-400 hover:text-surface-200'
+            }`}
+            title="Kodierungen mit Operatoren wie AND, OR, NOT, OVERLAPS und WITHIN abfragen"
+          >
+            Abfrage ({queryHits?.length || 0})
+          </button>
         </div>
 
+        {/* Memo Tags */}
+        {searchMode === 'memos' && allMemoTags.length > 0 && (
+          <div className="px-4 py-2 border-b border-surface-800 flex flex-wrap gap-2">
+            {allMemoTags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() =>
+                  setMemoTags((prev) =>
+                    prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+                  )
+                }
+                className={`px-2 py-1 rounded-full text-xs font-medium transition-colors ${
+                  memoTags.includes(tag)
+                    ? 'bg-primary-500/20 text-primary-400'
+                    : 'bg-surface-800 text-surface-400 hover:text-surface-200'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Results */}
         <div className="flex-1 overflow-y-auto p-4">
-          {!query && !filters.codeIds?.length && !filters.documentTypes?.length ? (
+          {!hasSearch ? (
             <div className="text-center py-12">
               <svg
                 className="w-12 h-12 mx-auto mb-3 text-surface-600"
@@ -278,9 +525,26 @@ export default function SearchPanel({
                 />
               </svg>
               <p className="text-surface-400">
-                Geben Sie einen Suchbegriff ein oder wählen Sie Filter aus
+                {searchMode === 'query'
+                  ? 'Geben Sie eine Abfrage ein, z. B. [Angst] OVERLAPS [Familie]'
+                  : 'Geben Sie einen Suchbegriff ein oder wählen Sie Filter aus'}
               </p>
             </div>
+          ) : searchMode === 'semantic' && semanticIndex.status === 'indexing' ? (
+            <div className="text-center py-12">
+              <div className="w-8 h-8 border-2 border-primary-500/30 border-t-primary-500 rounded-full animate-spin mx-auto mb-3" />
+              <p className="text-surface-400 text-sm">
+                {semanticIndex.progress?.phase === 'model'
+                  ? `Sprachmodell wird geladen (${Math.round(semanticIndex.progress.progress)}%)...`
+                  : semanticIndex.progress
+                    ? `Dokumente werden indexiert (${semanticIndex.progress.done}/${semanticIndex.progress.total})...`
+                    : 'Index wird vorbereitet...'}
+              </p>
+            </div>
+          ) : searchMode === 'semantic' && semanticIndex.status === 'error' ? (
+            <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+              Semantische Suche nicht verfügbar: {semanticIndex.error}
+            </div>
           ) : totalResults === 0 ? (
             <div className="text-center py-12">
               <svg
@@ -298,6 +562,54 @@ export default function SearchPanel({
               </svg>
               <p className="text-surface-400">Keine Ergebnisse gefunden</p>
             </div>
+          ) : searchMode === 'semantic' ? (
+            <div className="space-y-2">
+              {semanticResults.map((match) => (
+                <Link
+                  key={match.segment.id}
+                  to={`/project/${projectId}/document/${match.segment.documentId}`}
+                  onClick={onClose}
+                  className="block p-3 rounded-lg bg-surface-800 hover:bg-surface-700 transition-colors"
+                >
+                  <div className="flex items-center justify-between gap-3 mb-1">
+                    <span className="text-sm font-medium text-surface-200 truncate">
+                      {documents.find((d) => d.id === match.segment.documentId)?.name || 'Unbekannt'}
+                    </span>
+                    <span className="text-xs text-primary-400 flex-shrink-0">
+                      {Math.round(match.score * 100)}% ähnlich
+                    </span>
+                  </div>
+                  <p className="text-sm text-surface-400 line-clamp-3">{match.segment.text}</p>
+                </Link>
+              ))}
+            </div>
+          ) : searchMode === 'query' ? (
+            <div className="space-y-2">
+              {queryHits!.map((hit) => (
+                <QueryHitCard
+                  key={`${hit.documentId}-${hit.startOffset}-${hit.endOffset}`}
+                  hit={hit}
+                  document={documents.find((d) => d.id === hit.documentId)}
+                  codes={[...new Set(hit.codingIds.map((id) => codeIdByCoding.get(id)))]
+                    .map((codeId) => codes.find((c) => c.id === codeId))
+                    .filter((c): c is Code => !!c)}
+                  projectId={projectId}
+                  onClick={onClose}
+                />
+              ))}
+            </div>
+          ) : searchMode === 'memos' ? (
+            <div className="space-y-2">
+              {memoResults.map((memo) => (
+                <MemoResultCard
+                  key={memo.id}
+                  memo={memo}
+                  projectId={projectId}
+                  query={query}
+                  onClick={onClose}
+                />
+              ))}
+            </div>
           ) : searchMode === 'documents' ? (
             <div className="space-y-4">
               {documentResults.map((result) => (
@@ -320,6 +632,7 @@ export default function SearchPanel({
                     coding={coding}
                     code={code}
                     document={doc}
+                    speakers={codingSpeakers(transcriptSegments[coding.documentId] || [], coding)}
                     projectId={projectId}
                     query={query}
                     onClick={onClose}
@@ -334,7 +647,9 @@ export default function SearchPanel({
         <div className="p-3 border-t border-surface-800 text-center">
           <p className="text-xs text-surface-500">
             {totalResults} Ergebnisse gefunden
-            {query && ` für "${query}"`}
+            {searchMode === 'query'
+              ? ranQuery && ` für ${ranQuery}`
+              : query && ` für "${query}"`}
           </p>
         </div>
       </div>
@@ -396,6 +711,7 @@ function CodingResultCard({
   coding,
   code,
   document,
+  speakers,
   projectId,
   query,
   onClick,
@@ -403,6 +719,7 @@ function CodingResultCard({
   coding: Coding
   code?: Code
   document?: Document
+  speakers: string[]
   projectId: string
   query: string
   onClick: () => void
@@ -433,6 +750,11 @@ function CodingResultCard({
           </>
         )}
         <span className="text-xs text-surface-500">in {document?.name || 'Unbekannt'}</span>
+        {speakers.length > 0 && (
+          <span className="text-xs px-1.5 py-0.5 rounded bg-surface-700 text-surface-300">
+            {speakers.join(', ')}
+          </span>
+        )}
       </div>
       <p
         className="text-sm text-surface-400 line-clamp-2"
@@ -447,6 +769,118 @@ function CodingResultCard({
   )
 }
 
+function QueryHitCard({
+  hit,
+  document,
+  codes,
+  projectId,
+  onClick,
+}: {
+  hit: QueryHit
+  document?: Document
+  codes: Code[]
+  projectId: string
+  onClick: () => void
+}) {
+  const text = (document?.content || '').slice(hit.startOffset, hit.endOffset).trim()
+
+  return (
+    <Link
+      to={`/project/${projectId}/document/${hit.documentId}`}
+      onClick={onClick}
+      className="block p-3 rounded-lg bg-surface-800 hover:bg-surface-700 transition-colors"
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-sm font-medium text-surface-200 truncate">
+          {document?.name || 'Unbekannt'}
+        </span>
+        <span className="text-xs text-surface-500 flex-shrink-0">
+          Zeichen {hit.startOffset}–{hit.endOffset}
+        </span>
+      </div>
+      <p className="text-sm text-surface-400 line-clamp-3">{text}</p>
+      {codes.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          {codes.map((code) => (
+            <span key={code.id} className="flex items-center gap-1 text-xs text-surface-500">
+              <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: code.color }} />
+              {code.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </Link>
+  )
+}
+
+function MemoResultCard({
+  memo,
+  projectId,
+  query,
+  onClick,
+}: {
+  memo: Memo
+  projectId: string
+  query: string
+  onClick: () => void
+}) {
+  // Full-text search matches word stems, so highlight the individual words
+  const words = query
+    .split(/\s+/)
+    .map((w) => w.replace(/[^\p{L}\p{N}-]/gu, ''))
+    .filter((w) => w.length > 2)
+  const highlightText = (text: string) => {
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    if (words.length === 0) return escaped
+    const regex = new RegExp(`(${words.join('|')})`, 'gi')
+    return escaped.replace(
+      regex,
+      '<mark class="bg-primary-500/30 text-primary-200 px-0.5 rounded">$1</mark>'
+    )
+  }
+  const documentLink = memo.links.find((l) => l.targetType === 'document')
+
+  const content = (
+    <>
+      <div className="flex items-center gap-2 mb-1">
+        <span
+          className="text-sm font-medium text-surface-200"
+          dangerouslySetInnerHTML={{ __html: highlightText(memo.title) }}
+        />
+        <span className={`px-1.5 py-0.5 rounded text-xs ${memoTypeColors[memo.type]}`}>
+          {memoTypeLabels[memo.type]}
+        </span>
+        <span className="text-xs text-surface-500 ml-auto">{memo.createdByName}</span>
+      </div>
+      <p
+        className="text-sm text-surface-400 line-clamp-2"
+        dangerouslySetInnerHTML={{ __html: highlightText(memo.content) }}
+      />
+      {(memo.tags.length > 0 || memo.links.length > 0) && (
+        <div className="flex items-center gap-2 mt-2 text-xs text-surface-500">
+          {memo.tags.map((tag) => (
+            <span key={tag} className="px-1.5 py-0.5 rounded bg-surface-700">#{tag}</span>
+          ))}
+          {memo.links.length > 0 && <span>{memo.links.length} Verknüpfungen</span>}
+        </div>
+      )}
+    </>
+  )
+
+  if (documentLink) {
+    return (
+      <Link
+        to={`/project/${projectId}/document/${documentLink.targetId}`}
+        onClick={onClick}
+        className="block p-3 rounded-lg bg-surface-800 hover:bg-surface-700 transition-colors"
+      >
+        {content}
+      </Link>
+    )
+  }
+  return <div className="p-3 rounded-lg bg-surface-800">{content}</div>
+}
+
 // Keyboard shortcut hook
 export function useSearchShortcut(onOpen: () => void) {
   if (typeof window !== 'undefined') {
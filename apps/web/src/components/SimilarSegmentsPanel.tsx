@@ -0,0 +1,186 @@
+/**
+ * SimilarSegmentsPanel - passages across the project that resemble a coding
+ *
+ * Uses the local semantic index (lib/semanticSearch); passages that are
+ * already coded are left out, so the list shows candidates for the code.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { documentsApi, codingsApi } from '@/lib/api'
+import { overlapsAny, type SemanticMatch } from '@/lib/semanticSearch'
+import { useSemanticIndex } from '@/hooks/useSemanticIndex'
+
+interface SourceCoding {
+  id: string
+  codeId: string
+  codeName: string
+  color: string
+  selectedText: string
+}
+
+interface SimilarSegmentsPanelProps {
+  projectId: string
+  coding: SourceCoding
+  onApply: (match: SemanticMatch) => Promise<void>
+  onClose: () => void
+}
+
+type ProjectDocument = { id: string; name: string; content: string | null }
+type CodedRange = { documentId: string; codeId: string; startOffset: number; endOffset: number }
+
+export default function SimilarSegmentsPanel({ projectId, coding, onApply, onClose }: SimilarSegmentsPanelProps) {
+  const [documents, setDocuments] = useState<ProjectDocument[] | null>(null)
+  const [codedRanges, setCodedRanges] = useState<CodedRange[]>([])
+  const [includeOtherCodes, setIncludeOtherCodes] = useState(false)
+  const [matches, setMatches] = useState<SemanticMatch[] | null>(null)
+  const [applied, setApplied] = useState<Set<string>>(new Set())
+  const [applying, setApplying] = useState<string | null>(null)
+
+  const indexDocuments = useMemo(() => documents || [], [documents])
+  const { status, progress, error, search } = useSemanticIndex(projectId, indexDocuments)
+
+  useEffect(() => {
+    Promise.all([documentsApi.getByProject(projectId), codingsApi.getByProject(projectId)]).then(
+      ([docs, codings]) => {
+        setDocuments((docs.data || []).map((d) => ({ id: d.id, name: d.name, content: d.content })))
+        setCodedRanges(
+          (codings.data || []).map((c) => ({
+            documentId: c.document_id,
+            codeId: c.code_id,
+            startOffset: c.start_offset,
+            endOffset: c.end_offset,
+          }))
+        )
+      }
+    )
+  }, [projectId])
+
+  useEffect(() => {
+    if (!documents) return
+    let cancelled = false
+    setMatches(null)
+
+    // "Uncoded" means: no coding at all, or optionally none with this code
+    const blocking = codedRanges.filter((r) => !includeOtherCodes || r.codeId === coding.codeId)
+    search(coding.selectedText, {
+      limit: 30,
+      minScore: 0.35,
+      filter: (segment) =>
+        !overlapsAny(segment, blocking.filter((r) => r.documentId === segment.documentId)),
+    })
+      .then((results) => !cancelled && setMatches(results))
+      .catch(() => !cancelled && setMatches([]))
+
+    return () => {
+      cancelled = true
+    }
+  }, [documents, codedRanges, includeOtherCodes, coding, search])
+
+  const documentName = (id: string) => documents?.find((d) => d.id === id)?.name || 'Unbekannt'
+
+  const handleApply = async (match: SemanticMatch) => {
+    setApplying(match.segment.id)
+    try {
+      await onApply(match)
+      setApplied((prev) => new Set(prev).add(match.segment.id))
+    } finally {
+      setApplying(null)
+    }
+  }
+
+  const progressLabel = !progress
+    ? 'Vorbereiten...'
+    : progress.phase === 'model'
+      ? `Sprachmodell wird geladen (${Math.round(progress.progress)}%)...`
+      : `Dokumente werden indexiert (${progress.done}/${progress.total})...`
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-20 px-4">
+      <div className="fixed inset-0 bg-black/50" onClick={onClose} />
+      <div className="relative w-full max-w-3xl bg-surface-900 rounded-2xl border border-surface-800 shadow-2xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-surface-800">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <h2 className="text-lg font-semibold text-surface-100 flex items-center gap-2">
+                <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: coding.color }} />
+                Ähnliche Stellen für „{coding.codeName}“
+              </h2>
+              <p className="text-sm text-surface-400 mt-1 line-clamp-2">„{coding.selectedText}“</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg border border-surface-700 text-surface-400 hover:bg-surface-800"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <label className="mt-3 flex items-center gap-2 text-sm text-surface-400">
+            <input
+              type="checkbox"
+              checked={includeOtherCodes}
+              onChange={(e) => setIncludeOtherCodes(e.target.checked)}
+              className="rounded border-surface-600 bg-surface-800"
+            />
+            Auch Stellen zeigen, die bereits andere Codes haben
+          </label>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {status === 'error' ? (
+            <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+              Semantische Suche nicht verfügbar: {error}
+            </div>
+          ) : matches === null ? (
+            <div className="text-center py-12">
+              <div className="w-8 h-8 border-2 border-primary-500/30 border-t-primary-500 rounded-full animate-spin mx-auto mb-3" />
+              <p className="text-surface-400 text-sm">
+                {status === 'indexing' ? progressLabel : 'Suche ähnliche Stellen...'}
+              </p>
+            </div>
+          ) : matches.length === 0 ? (
+            <p className="text-center py-12 text-surface-400">Keine ähnlichen unkodierten Stellen gefunden</p>
+          ) : (
+            <div className="space-y-2">
+              {matches.map((match) => {
+                const isApplied = applied.has(match.segment.id)
+                return (
+                  <div key={match.segment.id} className="p-3 rounded-lg bg-surface-800">
+                    <div className="flex items-center justify-between gap-3 mb-1">
+                      <span className="text-xs text-surface-500 truncate">
+                        {documentName(match.segment.documentId)}
+                      </span>
+                      <span className="text-xs font-medium text-primary-400 flex-shrink-0">
+                        {Math.round(match.score * 100)}% ähnlich
+                      </span>
+                    </div>
+                    <div className="flex items-start gap-3">
+                      <p className="flex-1 text-sm text-surface-300 line-clamp-3">{match.segment.text}</p>
+                      <button
+                        onClick={() => handleApply(match)}
+                        disabled={isApplied || applying !== null}
+                        className="px-3 py-1.5 rounded-lg bg-primary-500 hover:bg-primary-600 disabled:bg-surface-700 disabled:text-surface-400 text-white text-xs font-medium flex-shrink-0"
+                      >
+                        {isApplied ? 'Kodiert' : applying === match.segment.id ? 'Speichern...' : 'Code anwenden'}
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-3 border-t border-surface-800 text-center">
+          <p className="text-xs text-surface-500">
+            Lokales Sprachmodell, die Texte verlassen den Browser nicht
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
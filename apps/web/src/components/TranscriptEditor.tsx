@@ -0,0 +1,149 @@
+/**
+ * TranscriptEditor - correction mode of a transcribed media document
+ *
+ * Every timed segment is an editable row next to the player; clicking the
+ * timestamp plays the segment. Saving writes the corrected content through
+ * updateDocument, which moves codings along and re-aligns the word
+ * timestamps of the changed segments.
+ */
+
+import { useMemo, useState } from 'react'
+import { formatTimestamp } from '@/lib/transcription'
+import { diffText, remapRange } from '@/lib/offsetRemap'
+import { isTimeCoding, type TranscriptSegment } from '@/lib/mediaSync'
+
+interface TranscriptEditorProps {
+  content: string
+  segments: TranscriptSegment[]
+  /** Codings of the document, to warn before their text is deleted */
+  codings: { startOffset: number; endOffset: number; startTime?: number | null; endTime?: number | null }[]
+  playingSegmentId: string | null
+  onSeek: (time: number) => void
+  onSave: (content: string) => Promise<boolean>
+  onClose: () => void
+}
+
+/**
+ * Content with the corrected segment texts; everything between segments
+ * (timestamps, speaker names) stays as it is
+ */
+function applyCorrections(content: string, segments: TranscriptSegment[], drafts: Record<string, string>): string {
+  let result = content
+  for (const segment of [...segments].sort((a, b) => b.startOffset - a.startOffset)) {
+    const draft = drafts[segment.id]
+    if (draft === undefined || draft === segment.text) continue
+    // A segment stays one line, the document layout depends on it
+    const text = draft.replace(/\s*\n\s*/g, ' ').trim()
+    result = result.slice(0, segment.startOffset) + text + result.slice(segment.endOffset)
+  }
+  return result
+}
+
+export default function TranscriptEditor({
+  content,
+  segments,
+  codings,
+  playingSegmentId,
+  onSeek,
+  onSave,
+  onClose,
+}: TranscriptEditorProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  const changedCount = segments.filter((s) => drafts[s.id] !== undefined && drafts[s.id] !== s.text).length
+  const corrected = useMemo(() => applyCorrections(content, segments, drafts), [content, segments, drafts])
+
+  // Codings whose whole text the corrections delete or rewrite are removed on save
+  const orphanedCount = useMemo(() => {
+    if (corrected === content) return 0
+    const edits = diffText(content, corrected)
+    return codings.filter((c) => !isTimeCoding(c) && !remapRange(edits, c.startOffset, c.endOffset)).length
+  }, [content, corrected, codings])
+
+  const handleSave = async () => {
+    if (orphanedCount > 0 && !confirm(`${orphanedCount} Kodierung(en) verlieren ihren Text (gelöscht oder neu geschrieben) und werden gelöscht. Fortfahren?`)) {
+      return
+    }
+    setIsSaving(true)
+    const saved = await onSave(corrected)
+    setIsSaving(false)
+    if (saved) onClose()
+  }
+
+  const handleDiscard = () => {
+    if (changedCount > 0 && !confirm('Ungespeicherte Korrekturen verwerfen?')) return
+    onClose()
+  }
+
+  return (
+    <div className="bg-surface-900 rounded-xl border border-surface-800">
+      <div className="flex items-center justify-between gap-3 p-4 border-b border-surface-800">
+        <div>
+          <h3 className="font-medium text-surface-100">Transkript korrigieren</h3>
+          <p className="text-xs text-surface-500 mt-0.5">
+            Kodierungen werden beim Speichern mitverschoben, Wort-Zeitstempel neu ausgerichtet
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleDiscard}
+            disabled={isSaving}
+            className="px-3 py-1.5 rounded-lg border border-surface-700 text-surface-300 hover:bg-surface-800 text-sm"
+          >
+            Verwerfen
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || changedCount === 0}
+            className="px-3 py-1.5 rounded-lg bg-primary-500 hover:bg-primary-600 disabled:bg-surface-700 disabled:text-surface-500 text-white text-sm font-medium"
+          >
+            {isSaving ? 'Speichere...' : `Korrekturen speichern${changedCount > 0 ? ` (${changedCount})` : ''}`}
+          </button>
+        </div>
+      </div>
+
+      {orphanedCount > 0 && (
+        <div className="mx-4 mt-4 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-amber-300 text-sm">
+          {orphanedCount} Kodierung(en) verlieren durch die Korrekturen ihren gesamten Text und würden gelöscht.
+        </div>
+      )}
+
+      <div className="p-4 space-y-1 max-h-[70vh] overflow-y-auto">
+        {segments.map((segment) => {
+          const value = drafts[segment.id] ?? segment.text
+          const changed = value !== segment.text
+          return (
+            <div
+              key={segment.id}
+              className={`flex items-start gap-3 rounded-lg px-2 py-1.5 ${
+                segment.id === playingSegmentId ? 'bg-primary-500/10' : ''
+              }`}
+            >
+              <button
+                onClick={() => onSeek(segment.startTime)}
+                className="mt-1.5 shrink-0 font-mono text-xs text-primary-400 hover:text-primary-300"
+                title="Abschnitt abspielen"
+              >
+                {formatTimestamp(segment.startTime)}
+              </button>
+              {segment.speaker && (
+                <span className="mt-1.5 shrink-0 w-24 truncate text-xs text-surface-400" title={segment.speaker}>
+                  {segment.speaker}
+                </span>
+              )}
+              <textarea
+                value={value}
+                onChange={(e) => setDrafts({ ...drafts, [segment.id]: e.target.value })}
+                rows={Math.max(1, Math.ceil(value.length / 90))}
+                className={`flex-1 resize-none rounded-md border bg-surface-950 px-2 py-1 text-sm text-surface-200 focus:outline-none focus:border-primary-500 ${
+                  changed ? 'border-amber-500/50' : 'border-surface-800'
+                }`}
+              />
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
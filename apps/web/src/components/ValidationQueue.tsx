@@ -0,0 +1,160 @@
+/**
+ * Validation Queue - reviewers go through the project's AI codings, least
+ * confident first, and accept, correct or reject them
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { AKIHValidationPanel } from './akih'
+import type { CodingToValidate } from './akih/AKIHValidationPanel'
+import { useProjectStore } from '@/stores/projectStore'
+import { useAuthStore } from '@/stores/authStore'
+import { useValidationStore, teamValidations } from '@/stores/validationStore'
+import { calculateValidationStats, resolveConsensus, toCodingValidation } from '@/lib/akihCalculations'
+import { getAKIHService } from '@/services/AKIHScoreService'
+import type { ValidationStatus } from '@/types/akih'
+
+interface ValidationQueueProps {
+  projectId: string
+}
+
+type QueueFilter = 'open' | 'conflict' | 'all'
+
+export default function ValidationQueue({ projectId }: ValidationQueueProps) {
+  const { codes, documents } = useProjectStore()
+  const userId = useAuthStore((state) => state.user?.id)
+  const { aiCodings, decisions, isLoading, error, fetchValidations, saveDecision, withdrawDecision, clearError } = useValidationStore()
+
+  const [filter, setFilter] = useState<QueueFilter>('open')
+  // Order of the queue, fixed while reviewing
+  const [queueIds, setQueueIds] = useState<string[] | null>(null)
+
+  const config = useMemo(() => getAKIHService().getConfig(), [])
+
+  useEffect(() => {
+    fetchValidations(projectId)
+  }, [projectId, fetchValidations])
+
+  const consensusById = useMemo(() => {
+    const map = new Map<string, ReturnType<typeof resolveConsensus>>()
+    for (const coding of aiCodings) {
+      map.set(coding.id, resolveConsensus(teamValidations(decisions, coding.id), config))
+    }
+    return map
+  }, [aiCodings, decisions, config])
+
+  // Rebuild the queue when it is opened, the filter changes or the codings change;
+  // not on every decision, so decided codings stay in place while reviewing
+  useEffect(() => {
+    if (isLoading) return
+    const selected = aiCodings.filter((coding) => {
+      const status = consensusById.get(coding.id)?.consensusStatus
+      if (filter === 'conflict') return status === 'conflict'
+      if (filter === 'open') {
+        const decidedByMe = decisions.some((d) => d.codingId === coding.id && d.userId === userId)
+        return !decidedByMe && (status === 'pending' || status === 'conflict')
+      }
+      return true
+    })
+    // Lowest confidence first; unknown confidence counts as lowest
+    selected.sort((a, b) => (a.confidence ?? 0) - (b.confidence ?? 0))
+    setQueueIds(selected.map((c) => c.id))
+  }, [filter, isLoading, aiCodings])
+
+  const queue: CodingToValidate[] = useMemo(() => {
+    const byId = new Map(aiCodings.map((c) => [c.id, c]))
+    return (queueIds || []).flatMap((id) => {
+      const coding = byId.get(id)
+      if (!coding) return []
+      const code = codes.find((c) => c.id === coding.codeId)
+      return [{
+        id: coding.id,
+        codeId: coding.codeId,
+        codeName: code?.name || 'Unbekannter Code',
+        codeColor: code?.color || '#6b7280',
+        documentName: documents.find((d) => d.id === coding.documentId)?.name || '',
+        text: coding.selectedText,
+        aiReasoning: coding.memo || undefined,
+        codingMethod: coding.codingMethod || undefined,
+        confidence: coding.confidence,
+        consensusStatus: consensusById.get(coding.id)?.consensusStatus,
+        reviews: decisions
+          .filter((d) => d.codingId === coding.id)
+          .map((d) => ({
+            userName: d.userName,
+            status: d.status,
+            codeName: d.newCodeId ? codes.find((c) => c.id === d.newCodeId)?.name : undefined,
+            isOwn: d.userId === userId,
+          })),
+      }]
+    })
+  }, [queueIds, aiCodings, codes, documents, decisions, consensusById, userId])
+
+  const validationStats = useMemo(() => calculateValidationStats(
+    aiCodings.map((coding) => ({
+      id: coding.id,
+      codeId: coding.codeId,
+      documentId: coding.documentId,
+      codingMethod: coding.codingMethod || undefined,
+      validation: toCodingValidation(teamValidations(decisions, coding.id), config, coding.codeId),
+    }))
+  ), [aiCodings, decisions, config])
+
+  const conflictCount = [...consensusById.values()].filter((c) => c.consensusStatus === 'conflict').length
+
+  const handleValidate = (codingId: string, status: ValidationStatus, options?: { newCodeId?: string; notes?: string }) => {
+    if (status === 'pending') return
+    saveDecision(projectId, { codingId, status, newCodeId: options?.newCodeId, notes: options?.notes })
+  }
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-surface-100">Validierung von AI-Kodierungen</h2>
+          <p className="text-sm text-surface-400">
+            {config.requireConsensus
+              ? `Konsens ab ${config.minimumValidators} Entscheidungen mit ${Math.round(config.consensusThreshold * 100)}% Übereinstimmung`
+              : 'Eine Entscheidung genügt'}
+          </p>
+        </div>
+        <div className="flex rounded-lg border border-surface-700 overflow-hidden text-sm">
+          {([
+            ['open', 'Offen'],
+            ['conflict', `Konflikte (${conflictCount})`],
+            ['all', 'Alle'],
+          ] as [QueueFilter, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setFilter(id)}
+              className={`px-3 py-1.5 transition-colors ${
+                filter === id ? 'bg-primary-500/20 text-primary-400' : 'text-surface-400 hover:bg-surface-800'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-between p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+          <span>{error}</span>
+          <button onClick={clearError} className="text-xs hover:text-red-300">Schließen</button>
+        </div>
+      )}
+
+      {isLoading || queueIds === null ? (
+        <div className="py-12 text-center text-sm text-surface-500">Validierungen werden geladen...</div>
+      ) : (
+        <AKIHValidationPanel
+          key={filter}
+          codings={queue}
+          codes={codes.map((c) => ({ id: c.id, name: c.name, color: c.color }))}
+          validationStats={validationStats}
+          onValidate={handleValidate}
+          onWithdraw={withdrawDecision}
+        />
+      )}
+    </div>
+  )
+}
@@ -12,10 +12,13 @@ import {
   IconRobot,
   IconUser,
   IconMessageCircle,
+  IconArrowLeft,
+  IconUsers,
 } from '@tabler/icons-react'
-import type { ValidationStatus, AKIHScoreResult } from '@/types/akih'
+import { useKeyboardShortcuts, type KeyboardShortcut } from '@/hooks/useKeyboardShortcuts'
+import type { ValidationStatus, AKIHScoreResult, TeamValidation } from '@/types/akih'
 
-interface CodingToValidate {
+export interface CodingToValidate {
   id: string
   codeId: string
   codeName: string
@@ -24,6 +27,18 @@ interface CodingToValidate {
   text: string
   aiReasoning?: string
   codingMethod?: string
+  confidence?: number | null
+  // Decisions of all reviewers, including the current user
+  reviews?: Array<{ userName: string; status: ValidationStatus; codeName?: string; isOwn?: boolean }>
+  consensusStatus?: TeamValidation['consensusStatus']
+}
+
+const STATUS_LABELS: Record<NonNullable<TeamValidation['consensusStatus']>, { label: string; className: string }> = {
+  pending: { label: 'Offen', className: 'text-surface-400' },
+  accepted: { label: 'Akzeptiert', className: 'text-green-400' },
+  modified: { label: 'Korrigiert', className: 'text-amber-400' },
+  rejected: { label: 'Abgelehnt', className: 'text-red-400' },
+  conflict: { label: 'Konflikt', className: 'text-purple-400' },
 }
 
 interface AKIHValidationPanelProps {
@@ -35,6 +50,7 @@ interface AKIHValidationPanelProps {
     notes?: string
   }) => void
   onSkip?: (codingId: string) => void
+  onWithdraw?: (codingId: string) => void
 }
 
 export default function AKIHValidationPanel({
@@ -43,51 +59,90 @@ export default function AKIHValidationPanel({
   validationStats,
   onValidate,
   onSkip,
+  onWithdraw,
 }: AKIHValidationPanelProps) {
   const [currentIndex, setCurrentIndex] = useState(0)
   const [selectedCode, setSelectedCode] = useState<string | null>(null)
   const [notes, setNotes] = useState('')
   const [showNotes, setShowNotes] = useState(false)
 
-  const currentCoding = codings[currentIndex]
+  // The list may shrink while the panel is open
+  const index = Math.min(currentIndex, codings.length)
+  const currentCoding = codings[index] as CodingToValidate | undefined
+  const ownReview = currentCoding?.reviews?.find(r => r.isOwn)
 
-  if (codings.length === 0) {
-    return (
-      <div className="bg-surface-900 rounded-xl border border-surface-800 p-6 text-center">
-        <IconCheck className="w-12 h-12 text-green-400 mx-auto mb-3" />
-        <h3 className="text-lg font-medium text-surface-100 mb-1">
-          Alle Kodierungen validiert
-        </h3>
-        <p className="text-sm text-surface-400">
-          Keine weiteren AI-Kodierungen zur Überprüfung vorhanden.
-        </p>
-      </div>
-    )
+  const goTo = (nextIndex: number) => {
+    setCurrentIndex(Math.max(0, Math.min(nextIndex, codings.length)))
+    setSelectedCode(null)
+    setNotes('')
+    setShowNotes(false)
   }
 
   const handleValidate = (status: ValidationStatus) => {
+    if (!currentCoding) return
     onValidate(currentCoding.id, status, {
       newCodeId: status === 'modified' ? selectedCode || undefined : undefined,
       notes: notes || undefined,
     })
+    goTo(index + 1)
+  }
 
-    // Move to next
-    if (currentIndex < codings.length - 1) {
-      setCurrentIndex(currentIndex + 1)
-      setSelectedCode(null)
-      setNotes('')
-      setShowNotes(false)
+  const handleModify = () => {
+    if (!currentCoding) return
+    if (selectedCode === null) {
+      setSelectedCode(currentCoding.codeId)
+    } else if (selectedCode !== currentCoding.codeId) {
+      handleValidate('modified')
     }
   }
 
   const handleSkip = () => {
+    if (!currentCoding) return
     onSkip?.(currentCoding.id)
-    if (currentIndex < codings.length - 1) {
-      setCurrentIndex(currentIndex + 1)
-      setSelectedCode(null)
-      setNotes('')
-      setShowNotes(false)
-    }
+    goTo(index + 1)
+  }
+
+  // Rebuilt on every render so the actions see the current selection
+  const shortcuts: KeyboardShortcut[] = [
+    { key: 'a', action: () => handleValidate('accepted'), description: 'Akzeptieren', category: 'Validierung' },
+    { key: 'm', action: handleModify, description: 'Korrigieren', category: 'Validierung' },
+    { key: 'r', action: () => handleValidate('rejected'), description: 'Ablehnen', category: 'Validierung' },
+    { key: 's', action: handleSkip, description: 'Überspringen', category: 'Validierung' },
+    { key: 'ArrowRight', action: () => goTo(index + 1), description: 'Nächste Kodierung', category: 'Validierung' },
+    { key: 'ArrowLeft', action: () => goTo(index - 1), description: 'Vorherige Kodierung', category: 'Validierung' },
+    // 1-9 pick the correct code while correcting
+    ...(selectedCode !== null
+      ? codes.slice(0, 9).map((code, i) => ({
+          key: String(i + 1),
+          action: () => setSelectedCode(code.id),
+          description: `Code ${code.name} wählen`,
+          category: 'Validierung',
+        }))
+      : []),
+  ]
+
+  useKeyboardShortcuts(shortcuts, !!currentCoding)
+
+  if (codings.length === 0 || !currentCoding) {
+    return (
+      <div className="bg-surface-900 rounded-xl border border-surface-800 p-6 text-center">
+        <IconCheck className="w-12 h-12 text-green-400 mx-auto mb-3" />
+        <h3 className="text-lg font-medium text-surface-100 mb-1">
+          {codings.length === 0 ? 'Alle Kodierungen validiert' : 'Ende der Warteschlange'}
+        </h3>
+        <p className="text-sm text-surface-400">
+          Keine weiteren AI-Kodierungen zur Überprüfung vorhanden.
+        </p>
+        {codings.length > 0 && (
+          <button
+            onClick={() => goTo(0)}
+            className="mt-4 text-sm text-primary-400 hover:text-primary-300 transition-colors"
+          >
+            Zurück zum Anfang
+          </button>
+        )}
+      </div>
+    )
   }
 
   return (
@@ -97,13 +152,13 @@ export default function AKIHValidationPanel({
         <div className="flex items-center justify-between mb-2">
           <span className="text-sm text-surface-400">Validierungs-Fortschritt</span>
           <span className="text-sm text-surface-300">
-            {currentIndex + 1} / {codings.length}
+            {index + 1} / {codings.length}
           </span>
         </div>
         <div className="h-1.5 bg-surface-700 rounded-full overflow-hidden">
           <div
             className="h-full bg-primary-500 rounded-full transition-all duration-300"
-            style={{ width: `${((currentIndex + 1) / codings.length) * 100}%` }}
+            style={{ width: `${((index + 1) / codings.length) * 100}%` }}
           />
         </div>
 
@@ -119,8 +174,13 @@ export default function AKIHValidationPanel({
       {/* Current coding */}
       <div className="p-4 space-y-4">
         {/* Document info */}
-        <div className="text-xs text-surface-500">
-          {currentCoding.documentName}
+        <div className="flex items-center justify-between text-xs text-surface-500">
+          <span>{currentCoding.documentName}</span>
+          {currentCoding.confidence != null && (
+            <span title="Konfidenz der AI">
+              Konfidenz: {Math.round(currentCoding.confidence * 100)}%
+            </span>
+          )}
         </div>
 
         {/* Text excerpt */}
@@ -164,6 +224,34 @@ export default function AKIHValidationPanel({
           </div>
         )}
 
+        {/* Team decisions */}
+        {currentCoding.reviews && currentCoding.reviews.length > 0 && (
+          <div className="bg-surface-800/50 rounded-lg p-3 space-y-1.5">
+            <div className="flex items-center justify-between text-xs text-surface-400">
+              <div className="flex items-center gap-2">
+                <IconUsers size={12} />
+                <span>Entscheidungen im Team:</span>
+              </div>
+              {currentCoding.consensusStatus && (
+                <span className={STATUS_LABELS[currentCoding.consensusStatus].className}>
+                  Konsens: {STATUS_LABELS[currentCoding.consensusStatus].label}
+                </span>
+              )}
+            </div>
+            {currentCoding.reviews.map((review, i) => (
+              <div key={i} className="flex items-center justify-between text-xs">
+                <span className="text-surface-300">
+                  {review.userName}{review.isOwn && ' (Sie)'}
+                </span>
+                <span className={STATUS_LABELS[review.status].className}>
+                  {STATUS_LABELS[review.status].label}
+                  {review.codeName && ` → ${review.codeName}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Code selection for modification */}
         {selectedCode !== null && (
           <div className="space-y-2">
@@ -172,7 +260,7 @@ export default function AKIHValidationPanel({
               <span>Korrekter Code:</span>
             </div>
             <div className="grid grid-cols-2 gap-2 max-h-32 overflow-y-auto">
-              {codes.map((code) => (
+              {codes.map((code, i) => (
                 <button
                   key={code.id}
                   onClick={() => setSelectedCode(code.id)}
@@ -187,6 +275,7 @@ export default function AKIHValidationPanel({
                     style={{ backgroundColor: code.color }}
                   />
                   <span className="truncate text-surface-300">{code.name}</span>
+                  {i < 9 && <span className="ml-auto text-surface-500">{i + 1}</span>}
                 </button>
               ))}
             </div>
@@ -225,14 +314,9 @@ export default function AKIHValidationPanel({
 
           {/* Modify */}
           <button
-            onClick={() => {
-              if (selectedCode === null) {
-                setSelectedCode(currentCoding.codeId)
-              } else {
-                handleValidate('modified')
-              }
-            }}
-            className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-amber-500/20 hover:bg-amber-500/30 text-amber-400 rounded-lg transition-colors"
+            onClick={handleModify}
+            disabled={selectedCode === currentCoding.codeId}
+            className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-amber-500/20 hover:bg-amber-500/30 text-amber-400 rounded-lg transition-colors disabled:opacity-50"
           >
             <IconPencil size={18} />
             <span className="text-sm font-medium">
@@ -252,12 +336,30 @@ export default function AKIHValidationPanel({
 
         {/* Secondary actions */}
         <div className="flex items-center justify-between mt-3">
-          <button
-            onClick={() => setShowNotes(!showNotes)}
-            className="text-xs text-surface-400 hover:text-surface-200 transition-colors"
-          >
-            {showNotes ? 'Notiz ausblenden' : '+ Notiz hinzufügen'}
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => goTo(index - 1)}
+              disabled={index === 0}
+              className="flex items-center gap-1 text-xs text-surface-400 hover:text-surface-200 transition-colors disabled:opacity-40"
+            >
+              <IconArrowLeft size={12} />
+              Zurück
+            </button>
+            <button
+              onClick={() => setShowNotes(!showNotes)}
+              className="text-xs text-surface-400 hover:text-surface-200 transition-colors"
+            >
+              {showNotes ? 'Notiz ausblenden' : '+ Notiz hinzufügen'}
+            </button>
+            {ownReview && onWithdraw && (
+              <button
+                onClick={() => onWithdraw(currentCoding.id)}
+                className="text-xs text-surface-400 hover:text-red-400 transition-colors"
+              >
+                Entscheidung zurückziehen
+              </button>
+            )}
+          </div>
 
           <button
             onClick={handleSkip}
@@ -274,7 +376,10 @@ export default function AKIHValidationPanel({
         Tastenkürzel: <kbd className="px-1 py-0.5 bg-surface-700 rounded">A</kbd> Akzeptieren,{' '}
         <kbd className="px-1 py-0.5 bg-surface-700 rounded">M</kbd> Korrigieren,{' '}
         <kbd className="px-1 py-0.5 bg-surface-700 rounded">R</kbd> Ablehnen,{' '}
-        <kbd className="px-1 py-0.5 bg-surface-700 rounded">S</kbd> Überspringen
+        <kbd className="px-1 py-0.5 bg-surface-700 rounded">S</kbd> Überspringen,{' '}
+        <kbd className="px-1 py-0.5 bg-surface-700 rounded">←</kbd>
+        <kbd className="px-1 py-0.5 bg-surface-700 rounded ml-0.5">→</kbd> Navigieren,{' '}
+        <kbd className="px-1 py-0.5 bg-surface-700 rounded">1</kbd>–<kbd className="px-1 py-0.5 bg-surface-700 rounded">9</kbd> Code wählen
       </div>
     </div>
   )
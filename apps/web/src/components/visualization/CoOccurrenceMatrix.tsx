@@ -13,6 +13,7 @@ import { useMemo, useRef, useState, useCallback } from 'react'
 import { IconFilter, IconInfoCircle } from '@tabler/icons-react'
 import { ChartExportButton } from './shared/ChartExportButton'
 import type { Code, Coding, Document } from '@/stores/projectStore'
+import { codingTimeSpan, timeRangesOverlap } from '@/lib/mediaSync'
 
 interface CoOccurrenceMatrixProps {
   codes: Code[]
@@ -25,6 +26,18 @@ interface CoOccurrenceMatrixProps {
   mode?: 'document' | 'segment'
 }
 
+// Segment level: codings count as co-occurring within this distance
+const NEARBY_CHARACTERS = 100
+const NEARBY_SECONDS = 5
+
+function codingsNearby(a: Coding, b: Coding): boolean {
+  const spanA = codingTimeSpan(a)
+  const spanB = codingTimeSpan(b)
+  // Time codings of media documents compare by time, text codings by position
+  if (spanA || spanB) return !!spanA && !!spanB && timeRangesOverlap(spanA, spanB, NEARBY_SECONDS)
+  return a.startOffset <= b.endOffset + NEARBY_CHARACTERS && a.endOffset >= b.startOffset - NEARBY_CHARACTERS
+}
+
 export default function CoOccurrenceMatrix({
   codes,
   codings,
@@ -103,10 +116,8 @@ export default function CoOccurrenceMatrix({
             codingsI.forEach((ci) => {
               codingsJ.forEach((cj) => {
                 if (ci.documentId === cj.documentId) {
-                  // Check if segments overlap or are within 100 chars
-                  const overlap =
-                    (ci.startOffset <= cj.endOffset + 100 && ci.endOffset >= cj.startOffset - 100)
-                  if (overlap) {
+                  // Check if segments overlap or are within 100 chars (5 s on media timelines)
+                  if (codingsNearby(ci, cj)) {
                     coOccurrence++
                     sharedSegments.add(`${ci.id}-${cj.id}`)
                   }
@@ -177,7 +188,7 @@ export default function CoOccurrenceMatrix({
               <p className="text-xs text-surface-300">
                 {mode === 'document'
                   ? 'Zeigt an, in wie vielen Dokumenten beide Codes gemeinsam vorkommen.'
-                  : 'Zeigt an, wie oft Codes im gleichen oder benachbarten Segment auftreten.'}
+                  : 'Zeigt an, wie oft Codes im gleichen oder benachbarten Segment auftreten (Medien: bis 5 Sekunden Abstand).'}
               </p>
             </div>
           </div>
@@ -6,18 +6,29 @@
  * - Matrix showing which codes appear in which documents
  * - Color intensity = frequency in that document
  * - Click to navigate to document/code
+ * - Speaker columns for diarized transcripts (speaker-by-code matrix)
  * - Export functionality
  */
 
 import { useMemo, useRef, useState, useCallback } from 'react'
-import { IconFilter, IconInfoCircle, IconFileText } from '@tabler/icons-react'
+import { IconFilter, IconInfoCircle, IconFileText, IconUser } from '@tabler/icons-react'
 import { ChartExportButton } from './shared/ChartExportButton'
 import type { Code, Coding, Document } from '@/stores/projectStore'
+import { codingSpeakers, type TranscriptSegment } from '@/lib/mediaSync'
+
+type ColumnMode = 'documents' | 'speakers'
+
+interface HeatmapColumn {
+  id: string
+  name: string
+}
 
 interface CodeDocumentHeatmapProps {
   codes: Code[]
   codings: Coding[]
   documents: Document[]
+  /** Transcript segments by document; enables the speaker columns */
+  transcriptSegments?: Record<string, TranscriptSegment[]>
   maxCodes?: number
   maxDocuments?: number
   onCellClick?: (codeId: string, documentId: string, count: number) => void
@@ -29,6 +40,7 @@ export default function CodeDocumentHeatmap({
   codes,
   codings,
   documents,
+  transcriptSegments,
   maxCodes = 10,
   maxDocuments = 10,
   onCellClick,
@@ -38,8 +50,26 @@ export default function CodeDocumentHeatmap({
   const chartRef = useRef<HTMLDivElement>(null)
   const [hoveredCell, setHoveredCell] = useState<{ row: number; col: number } | null>(null)
   const [selectedCell, setSelectedCell] = useState<{ row: number; col: number } | null>(null)
+  const [columnMode, setColumnMode] = useState<ColumnMode>('documents')
+
+  // Speakers each coding touches, a coding can span a change of speaker
+  const speakersByCoding = useMemo(() => {
+    const speakers = new Map<string, string[]>()
+    if (!transcriptSegments) return speakers
+    for (const coding of codings) {
+      const segments = transcriptSegments[coding.documentId]
+      if (segments) speakers.set(coding.id, codingSpeakers(segments, coding))
+    }
+    return speakers
+  }, [codings, transcriptSegments])
+
+  const hasSpeakers = useMemo(
+    () => [...speakersByCoding.values()].some((speakers) => speakers.length > 0),
+    [speakersByCoding]
+  )
+  const bySpeaker = hasSpeakers && columnMode === 'speakers'
 
-  const { matrix, displayCodes, displayDocuments, maxValue, totals } = useMemo(() => {
+  const { matrix, displayCodes, displayColumns, maxValue, totals } = useMemo(() => {
     // Get top codes by frequency
     const codeFrequencies = codes.map((code) => ({
       code,
@@ -51,34 +81,38 @@ export default function CodeDocumentHeatmap({
       .slice(0, maxCodes)
       .map((c) => c.code)
 
-    // Get documents that have codings (sorted by coding count)
-    const docCodingCounts = documents.map((doc) => ({
-      doc,
-      count: codings.filter((c) => c.documentId === doc.id).length,
-    }))
+    // Columns are documents or speakers; a coding counts for every speaker it touches
+    const inColumn = (coding: Coding, column: HeatmapColumn) =>
+      bySpeaker ? !!speakersByCoding.get(coding.id)?.includes(column.id) : coding.documentId === column.id
+
+    const candidates: HeatmapColumn[] = bySpeaker
+      ? [...new Set([...speakersByCoding.values()].flat())].map((speaker) => ({ id: speaker, name: speaker }))
+      : documents.map((doc) => ({ id: doc.id, name: doc.name }))
 
-    const topDocuments = docCodingCounts
+    // Get columns that have codings (sorted by coding count)
+    const topColumns = candidates
+      .map((column) => ({ column, count: codings.filter((c) => inColumn(c, column)).length }))
       .filter((d) => d.count > 0)
       .sort((a, b) => b.count - a.count)
       .slice(0, maxDocuments)
-      .map((d) => d.doc)
+      .map((d) => d.column)
 
-    // Build matrix: rows = codes, columns = documents
+    // Build matrix: rows = codes, columns = documents or speakers
     const matrix: number[][] = []
     let maxVal = 0
 
     // Calculate totals for each code (row sums)
     const rowTotals: number[] = []
     // Calculate totals for each document (column sums)
-    const colTotals: number[] = new Array(topDocuments.length).fill(0)
+    const colTotals: number[] = new Array(topColumns.length).fill(0)
 
     for (let i = 0; i < topCodes.length; i++) {
       matrix[i] = []
       let rowSum = 0
 
-      for (let j = 0; j < topDocuments.length; j++) {
+      for (let j = 0; j < topColumns.length; j++) {
         const count = codings.filter(
-          (c) => c.codeId === topCodes[i].id && c.documentId === topDocuments[j].id
+          (c) => c.codeId === topCodes[i].id && inColumn(c, topColumns[j])
         ).length
 
         matrix[i][j] = count
@@ -93,11 +127,14 @@ export default function CodeDocumentHeatmap({
     return {
       matrix,
       displayCodes: topCodes,
-      displayDocuments: topDocuments,
+      displayColumns: topColumns,
       maxValue: maxVal,
       totals: { rows: rowTotals, cols: colTotals },
     }
-  }, [codes, codings, documents, maxCodes, maxDocuments])
+  }, [codes, codings, documents, maxCodes, maxDocuments, bySpeaker, speakersByCoding])
+
+  const columnLabel = bySpeaker ? 'Sprecher' : 'Dokumente'
+  const ColumnIcon = bySpeaker ? IconUser : IconFileText
 
   const getOpacity = useCallback(
     (value: number) => {
@@ -128,14 +165,15 @@ export default function CodeDocumentHeatmap({
         : { row: rowIdx, col: colIdx }
     )
 
-    if (onCellClick) {
+    // Cells of the speaker matrix span several documents
+    if (onCellClick && !bySpeaker) {
       const code = displayCodes[rowIdx]
-      const doc = displayDocuments[colIdx]
+      const doc = displayColumns[colIdx]
       onCellClick(code.id, doc.id, value)
     }
   }
 
-  if (displayCodes.length === 0 || displayDocuments.length === 0) {
+  if (displayCodes.length === 0 || displayColumns.length === 0) {
     return (
       <div className="text-center py-12 text-surface-500">
         <IconFilter size={48} className="mx-auto mb-4 opacity-50" />
@@ -158,14 +196,43 @@ export default function CodeDocumentHeatmap({
                 Zeigt die Verteilung der Codes ueber die Dokumente. Je intensiver die Farbe, desto
                 haeufiger wurde der Code in diesem Dokument verwendet.
               </p>
+              {hasSpeakers && (
+                <p className="text-xs text-surface-300 mt-2">
+                  Mit Sprecher-Spalten zaehlt eine Kodierung fuer jeden Sprecher der transkribierten
+                  Segmente, die sie beruehrt.
+                </p>
+              )}
             </div>
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {hasSpeakers && (
+            <div className="flex rounded-lg bg-surface-800 p-0.5">
+              {(['documents', 'speakers'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => {
+                    setColumnMode(mode)
+                    setSelectedCell(null)
+                  }}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                    columnMode === mode ? 'bg-surface-700 text-surface-100' : 'text-surface-400 hover:text-surface-200'
+                  }`}
+                >
+                  {mode === 'documents' ? 'Dokumente' : 'Sprecher'}
+                </button>
+              ))}
+            </div>
+          )}
           <span className="text-xs text-surface-500">
-            {displayCodes.length} Codes x {displayDocuments.length} Dokumente
+            {displayCodes.length} Codes x {displayColumns.length} {columnLabel}
           </span>
-          {showExport && <ChartExportButton chartRef={chartRef} filename="code_document_heatmap" />}
+          {showExport && (
+            <ChartExportButton
+              chartRef={chartRef}
+              filename={bySpeaker ? 'code_speaker_heatmap' : 'code_document_heatmap'}
+            />
+          )}
         </div>
       </div>
 
@@ -175,13 +242,13 @@ export default function CodeDocumentHeatmap({
           {/* Header row - Document names */}
           <div className="flex">
             <div className="w-32 h-10 flex-shrink-0" /> {/* Corner */}
-            {displayDocuments.map((doc, idx) => (
+            {displayColumns.map((doc) => (
               <div
                 key={`header-${doc.id}`}
                 className="w-16 h-24 flex items-end justify-center pb-2 flex-shrink-0"
               >
                 <div className="flex flex-col items-center">
-                  <IconFileText size={14} className="text-surface-500 mb-1" />
+                  <ColumnIcon size={14} className="text-surface-500 mb-1" />
                   <span
                     className="text-xs text-surface-400 truncate origin-bottom-left -rotate-45 whitespace-nowrap max-w-[80px]"
                     title={doc.name}
@@ -211,7 +278,7 @@ export default function CodeDocumentHeatmap({
               </div>
 
               {/* Cells */}
-              {displayDocuments.map((doc, colIdx) => {
+              {displayColumns.map((doc, colIdx) => {
                 const value = matrix[rowIdx][colIdx]
                 const isHovered = hoveredCell?.row === rowIdx || hoveredCell?.col === colIdx
                 const isSelected = selectedCell?.row === rowIdx && selectedCell?.col === colIdx
@@ -222,7 +289,7 @@ export default function CodeDocumentHeatmap({
                     className={`w-16 h-10 flex items-center justify-center text-xs transition-all flex-shrink-0 border border-surface-800 ${
                       isHovered && value > 0 ? 'ring-1 ring-primary-500' : ''
                     } ${isSelected ? 'ring-2 ring-primary-400' : ''} ${
-                      value > 0 && onCellClick ? 'cursor-pointer hover:scale-105' : ''
+                      value > 0 && onCellClick && !bySpeaker ? 'cursor-pointer hover:scale-105' : ''
                     }`}
                     style={{
                       backgroundColor: value > 0 ? getColor(value, code.color) : 'transparent',
@@ -286,8 +353,8 @@ export default function CodeDocumentHeatmap({
             />
             <span className="text-surface-200">{displayCodes[selectedCell.row].name}</span>
             <span className="text-surface-500">in</span>
-            <IconFileText size={14} className="text-surface-400" />
-            <span className="text-surface-200">{displayDocuments[selectedCell.col].name}</span>
+            <ColumnIcon size={14} className="text-surface-400" />
+            <span className="text-surface-200">{displayColumns[selectedCell.col].name}</span>
           </div>
           <p className="text-sm text-surface-400">
             {matrix[selectedCell.row][selectedCell.col]} Kodierung
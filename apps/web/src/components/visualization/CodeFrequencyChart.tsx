@@ -24,6 +24,8 @@ import {
 import { IconSortAscending, IconSortDescending, IconFilter } from '@tabler/icons-react'
 import { ChartExportButton } from './shared/ChartExportButton'
 import type { Code, Coding } from '@/stores/projectStore'
+import { codingTimeSpan } from '@/lib/mediaSync'
+import { formatTimestamp } from '@/lib/transcription'
 
 interface CodeFrequencyChartProps {
   codes: Code[]
@@ -62,6 +64,11 @@ export default function CodeFrequencyChart({
         color: code.color,
         count: codeCodings.length,
         documents: new Set(codeCodings.map(c => c.documentId)).size,
+        // Time codings of media documents also count by their length
+        duration: codeCodings.reduce((sum, c) => {
+          const span = codingTimeSpan(c)
+          return span ? sum + span.end - span.start : sum
+        }, 0),
       }
     })
 
@@ -83,6 +90,7 @@ export default function CodeFrequencyChart({
   }, [codes, codings, maxBars, sortMode, sortAsc])
 
   const totalCodings = codings.length
+  const totalDuration = data.reduce((sum, d) => sum + d.duration, 0)
   const maxCount = Math.max(...data.map((d) => d.count), 1)
 
   const handleBarClick = (entry: any) => {
@@ -138,6 +146,12 @@ export default function CodeFrequencyChart({
               <span className="text-surface-400">Dokumente:</span>
               <span className="text-surface-200">{data.documents}</span>
             </div>
+            {data.duration > 0 && (
+              <div className="flex justify-between gap-4">
+                <span className="text-surface-400">Kodierte Dauer:</span>
+                <span className="text-surface-200">{formatTimestamp(data.duration)}</span>
+              </div>
+            )}
           </div>
           {onCodeClick && (
             <p className="text-xs text-primary-400 mt-2">Klicken zum Filtern</p>
@@ -255,7 +269,10 @@ export default function CodeFrequencyChart({
       {/* Summary stats */}
       <div className="flex items-center justify-between text-sm text-surface-500 px-2">
         <span>{data.length} Codes angezeigt</span>
-        <span>{totalCodings} Kodierungen gesamt</span>
+        <span>
+          {totalCodings} Kodierungen gesamt
+          {totalDuration > 0 && ` · ${formatTimestamp(totalDuration)} Medienzeit`}
+        </span>
       </div>
     </div>
   )
@@ -0,0 +1,39 @@
+/**
+ * useMediaUrl Hook
+ *
+ * Playable URL of a media document: a signed URL for files in storage,
+ * demo uploads are object URLs already
+ */
+
+import { useEffect, useState } from 'react'
+import { storageService } from '@/lib/storage'
+
+interface UseMediaUrlReturn {
+  url: string | null
+  error: string | null
+}
+
+export function useMediaUrl(filePath: string): UseMediaUrlReturn {
+  const [url, setUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setError(null)
+    if (filePath.startsWith('blob:')) {
+      setUrl(filePath)
+      return
+    }
+    let cancelled = false
+    setUrl(null)
+    storageService.getSignedUrl(filePath, 4 * 60 * 60).then((signed) => {
+      if (cancelled) return
+      if (signed) setUrl(signed)
+      else setError('Mediendatei konnte nicht geladen werden')
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [filePath])
+
+  return { url, error }
+}
@@ -1,9 +1,10 @@
 import { useEffect, useCallback, useRef } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useProjectStore } from '@/stores/projectStore'
+import { useMemoStore, toMemo, toMemoLink, toMemoComment, knownAuthorName } from '@/stores/memoStore'
 import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
 
-type TableName = 'documents' | 'codes' | 'codings'
+type TableName = 'documents' | 'codes' | 'codings' | 'memos' | 'memo_links' | 'memo_comments'
 
 interface RealtimeConfig {
   projectId?: string
@@ -132,6 +133,96 @@ export function useRealtime({ projectId, documentId, enabled = true }: RealtimeC
     [documentId]
   )
 
+  const handleMemoChange = useCallback(
+    (payload: RealtimePostgresChangesPayload<any>) => {
+      switch (payload.eventType) {
+        case 'INSERT':
+        case 'UPDATE': {
+          const row = payload.new
+          if (row.project_id !== projectId) break
+          useMemoStore.setState((state) => {
+            const existing = state.memos.find((m) => m.id === row.id)
+            const memo = toMemo({
+              ...row,
+              created_by_name: existing?.createdByName || knownAuthorName(row.created_by),
+              // Links arrive through their own table
+              links: (existing?.links || []).map((l) => ({
+                memo_id: row.id,
+                target_type: l.targetType,
+                target_id: l.targetId,
+              })),
+            })
+            return {
+              memos: existing
+                ? state.memos.map((m) => (m.id === row.id ? memo : m))
+                : [memo, ...state.memos],
+            }
+          })
+          break
+        }
+        case 'DELETE':
+          useMemoStore.setState((state) => ({
+            memos: state.memos.filter((m) => m.id !== payload.old?.id),
+            comments: state.comments.filter((c) => c.memoId !== payload.old?.id),
+          }))
+          break
+      }
+    },
+    [projectId]
+  )
+
+  const handleMemoLinkChange = useCallback(
+    (payload: RealtimePostgresChangesPayload<any>) => {
+      const row = payload.eventType === 'DELETE' ? payload.old : payload.new
+      if (!row?.memo_id) return
+      const link = toMemoLink(row)
+      const sameLink = (l: { targetType: string; targetId: string }) =>
+        l.targetType === link.targetType && l.targetId === link.targetId
+
+      useMemoStore.setState((state) => ({
+        memos: state.memos.map((m) => {
+          if (m.id !== row.memo_id) return m
+          const links = payload.eventType === 'DELETE'
+            ? m.links.filter((l) => !sameLink(l))
+            : m.links.some(sameLink) ? m.links : [...m.links, link]
+          const targetId = m.type === 'project'
+            ? m.targetId
+            : links.find((l) => l.targetType === m.type)?.targetId ?? null
+          return { ...m, links, targetId }
+        }),
+      }))
+    },
+    []
+  )
+
+  const handleMemoCommentChange = useCallback(
+    (payload: RealtimePostgresChangesPayload<any>) => {
+      switch (payload.eventType) {
+        case 'INSERT':
+        case 'UPDATE': {
+          const row = payload.new
+          useMemoStore.setState((state) => {
+            // Only comments on memos of this project
+            if (!state.memos.some((m) => m.id === row.memo_id)) return state
+            const comment = toMemoComment({ ...row, created_by_name: knownAuthorName(row.created_by) })
+            return {
+              comments: state.comments.some((c) => c.id === row.id)
+                ? state.comments.map((c) => (c.id === row.id ? { ...comment, createdByName: c.createdByName } : c))
+                : [...state.comments, comment],
+            }
+          })
+          break
+        }
+        case 'DELETE':
+          useMemoStore.setState((state) => ({
+            comments: state.comments.filter((c) => c.id !== payload.old?.id),
+          }))
+          break
+      }
+    },
+    []
+  )
+
   useEffect(() => {
     if (!enabled || !projectId) return
 
@@ -166,6 +257,27 @@ export function useRealtime({ projectId, documentId, enabled = true }: RealtimeC
         },
         handleCodeChange
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'memos',
+          filter: `project_id=eq.${projectId}`,
+        },
+        handleMemoChange
+      )
+      // Links and comments have no project_id; RLS limits them to visible memos
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'memo_links' },
+        handleMemoLinkChange
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'memo_comments' },
+        handleMemoCommentChange
+      )
 
     // Add codings subscription if documentId is provided
     if (documentId) {
@@ -197,7 +309,17 @@ export function useRealtime({ projectId, documentId, enabled = true }: RealtimeC
         channelRef.current = null
       }
     }
-  }, [projectId, documentId, enabled, handleDocumentChange, handleCodeChange, handleCodingChange])
+  }, [
+    projectId,
+    documentId,
+    enabled,
+    handleDocumentChange,
+    handleCodeChange,
+    handleCodingChange,
+    handleMemoChange,
+    handleMemoLinkChange,
+    handleMemoCommentChange,
+  ])
 
   return {
     isConnected: !!channelRef.current,
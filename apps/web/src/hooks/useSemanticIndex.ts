@@ -0,0 +1,67 @@
+/**
+ * useSemanticIndex Hook
+ *
+ * Keeps the local vector index of a project in sync and searches it
+ */
+
+import { useState, useCallback, useRef } from 'react'
+import {
+  syncProjectIndex,
+  searchProjectIndex,
+  type IndexProgress,
+  type IndexedSegment,
+  type SemanticMatch,
+} from '@/lib/semanticSearch'
+
+type IndexStatus = 'idle' | 'indexing' | 'ready' | 'error'
+
+interface UseSemanticIndexReturn {
+  status: IndexStatus
+  progress: IndexProgress | null
+  error: string | null
+  /** Searches after the index has been brought up to date */
+  search: (
+    query: string,
+    options?: { limit?: number; minScore?: number; filter?: (segment: IndexedSegment) => boolean }
+  ) => Promise<SemanticMatch[]>
+}
+
+export function useSemanticIndex(
+  projectId: string,
+  documents: { id: string; content: string | null }[]
+): UseSemanticIndexReturn {
+  const [status, setStatus] = useState<IndexStatus>('idle')
+  const [progress, setProgress] = useState<IndexProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // A sync is cheap when nothing changed (content hashes); concurrent searches share one run
+  const syncRef = useRef<Promise<void> | null>(null)
+
+  const ensureIndex = useCallback(() => {
+    if (!syncRef.current) {
+      setStatus('indexing')
+      setError(null)
+      syncRef.current = syncProjectIndex(projectId, documents, setProgress)
+        .then(() => setStatus('ready'))
+        .catch((err) => {
+          setStatus('error')
+          setError(err instanceof Error ? err.message : 'Index konnte nicht erstellt werden')
+          throw err
+        })
+        .finally(() => {
+          syncRef.current = null
+        })
+    }
+    return syncRef.current
+  }, [projectId, documents])
+
+  const search = useCallback<UseSemanticIndexReturn['search']>(
+    async (query, options) => {
+      await ensureIndex()
+      return searchProjectIndex(projectId, query, options)
+    },
+    [projectId, ensureIndex]
+  )
+
+  return { status, progress, error, search }
+}
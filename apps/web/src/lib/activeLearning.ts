@@ -0,0 +1,96 @@
+/**
+ * Active Learning - reviewed AI codings feed back into the next AI run
+ *
+ * Review decisions from the validation queue become exemplars of their codes
+ * (migration 032). AI runs get them as few-shot examples; the precision
+ * statistics show whether the acceptance rate improves over time.
+ */
+
+import type { CodingExemplar } from '@evidenra/core'
+import type { AiPrecisionRow } from './api'
+import type { Database } from './database.types'
+
+export type CodingExemplarRow = Database['public']['Tables']['coding_exemplars']['Row']
+
+// ============================================
+// EXEMPLARS
+// ============================================
+
+/**
+ * Exemplars in the shape of the coding engines; exemplars of deleted codes are dropped
+ */
+export function toCodingExemplars(
+  rows: CodingExemplarRow[],
+  codes: { id: string; name: string }[]
+): CodingExemplar[] {
+  const names = new Map(codes.map(code => [code.id, code.name]))
+  return rows.flatMap(row => {
+    const codeName = names.get(row.code_id)
+    return codeName
+      ? [{ codeId: row.code_id, codeName, text: row.text, polarity: row.polarity }]
+      : []
+  })
+}
+
+// ============================================
+// PRECISION
+// ============================================
+
+export interface PrecisionSummary {
+  accepted: number
+  /** Accepted, modified and rejected */
+  decided: number
+  /** Share of accepted codings; null without decisions */
+  precision: number | null
+}
+
+export interface PrecisionPoint extends PrecisionSummary {
+  week: string
+}
+
+function summarize(rows: AiPrecisionRow[]): PrecisionSummary {
+  const accepted = rows.reduce((sum, r) => sum + r.accepted, 0)
+  const decided = rows.reduce((sum, r) => sum + r.accepted + r.modified + r.rejected, 0)
+  return { accepted, decided, precision: decided > 0 ? accepted / decided : null }
+}
+
+function groupBy(rows: AiPrecisionRow[], key: (row: AiPrecisionRow) => string): Map<string, AiPrecisionRow[]> {
+  const groups = new Map<string, AiPrecisionRow[]>()
+  for (const row of rows) {
+    const k = key(row)
+    groups.set(k, [...(groups.get(k) || []), row])
+  }
+  return groups
+}
+
+/**
+ * Precision per week, oldest first
+ */
+export function precisionTimeline(rows: AiPrecisionRow[]): PrecisionPoint[] {
+  return Array.from(groupBy(rows, r => r.week).entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, weekRows]) => ({ week, ...summarize(weekRows) }))
+}
+
+export function precisionByMethod(rows: AiPrecisionRow[]): (PrecisionSummary & { method: string; timeline: PrecisionPoint[] })[] {
+  return Array.from(groupBy(rows, r => r.codingMethod || 'unknown').entries())
+    .map(([method, methodRows]) => ({ method, ...summarize(methodRows), timeline: precisionTimeline(methodRows) }))
+    .sort((a, b) => b.decided - a.decided)
+}
+
+/**
+ * Precision per code, least precise first, so problem codes come up top
+ */
+export function precisionByCode(rows: AiPrecisionRow[]): (PrecisionSummary & { codeId: string })[] {
+  return Array.from(groupBy(rows, r => r.codeId).entries())
+    .map(([codeId, codeRows]) => ({ codeId, ...summarize(codeRows) }))
+    .sort((a, b) => (a.precision ?? 1) - (b.precision ?? 1) || b.decided - a.decided)
+}
+
+export function overallPrecision(rows: AiPrecisionRow[]): PrecisionSummary {
+  return summarize(rows)
+}
+
+export function formatPrecision(summary: PrecisionSummary): string {
+  return summary.precision === null ? '–' : `${Math.round(summary.precision * 100)}%`
+}
@@ -0,0 +1,202 @@
+/**
+ * Adjudication of coder disagreements
+ *
+ * A reviewer decides every disagreement between two coders (either coder's
+ * code, a third code or no code). Agreed codings and decisions together form
+ * the consensus coding set (codingMethod 'consensus'), saved apart from the
+ * coders' codings and replacing an earlier set of the same pair.
+ */
+
+import type { Code, Coding, Document } from '@/stores/projectStore'
+import {
+  CONSENSUS_METHOD,
+  segmentKey,
+  type CoderData,
+  type Disagreement,
+} from '@/lib/irr'
+import { isTimeCodedDocument, timeRangeLabel } from '@/lib/mediaSync'
+
+export interface AdjudicationDecision {
+  codeId: string | null // null = "keine Kodierung"
+  rationale: string
+}
+
+export interface ConsensusCoding {
+  documentId: string
+  codeId: string
+  startOffset: number
+  endOffset: number
+  selectedText: string
+  codingMethod: string
+  decisionKey?: string // Set if the coding results from an adjudication decision
+  // Media documents without transcript: time range in seconds, offsets are 0
+  startTime?: number
+  endTime?: number
+}
+
+// ============================================
+// RESOLUTIONS
+// ============================================
+
+/**
+ * Decisions as segment resolutions for calculateCohensKappa
+ */
+export function toResolutions(
+  decisions: Record<string, AdjudicationDecision>
+): Record<string, string | null> {
+  const resolutions: Record<string, string | null> = {}
+  Object.entries(decisions).forEach(([key, decision]) => {
+    resolutions[key] = decision.codeId
+  })
+  return resolutions
+}
+
+// ============================================
+// CONSENSUS SET
+// ============================================
+
+/**
+ * Build the consensus coding set of an adjudication round
+ *
+ * - Codings both coders agree on (same code, overlapping span) are taken over from coder 1
+ * - A decision for one coder's code keeps that coder's span
+ * - A third code covers the union of both coders' spans in the segment
+ */
+export function buildConsensusCodings(
+  coder1: CoderData,
+  coder2: CoderData,
+  disagreements: Disagreement[],
+  decisions: Record<string, AdjudicationDecision>,
+  documents: Document[]
+): ConsensusCoding[] {
+  const result = new Map<string, ConsensusCoding>()
+
+  // Spans of time-coded media documents are milliseconds (see extractCoders)
+  const add = (coding: Omit<ConsensusCoding, 'selectedText' | 'codingMethod'>) => {
+    const key = `${coding.documentId}:${coding.codeId}:${coding.startOffset}-${coding.endOffset}`
+    if (result.has(key) && !coding.decisionKey) return
+    const doc = documents.find(d => d.id === coding.documentId)
+    if (doc && isTimeCodedDocument(doc)) {
+      const range = { start: coding.startOffset / 1000, end: coding.endOffset / 1000 }
+      result.set(key, {
+        ...coding,
+        startOffset: 0,
+        endOffset: 0,
+        startTime: range.start,
+        endTime: range.end,
+        selectedText: timeRangeLabel(range),
+        codingMethod: CONSENSUS_METHOD,
+      })
+      return
+    }
+    result.set(key, {
+      ...coding,
+      selectedText: (doc?.content || '').substring(coding.startOffset, coding.endOffset),
+      codingMethod: CONSENSUS_METHOD,
+    })
+  }
+
+  // Agreed codings
+  coder1.codings.forEach(c1 => {
+    const agreed = coder2.codings.some(c2 =>
+      c2.documentId === c1.documentId && c2.codeId === c1.codeId && overlaps(c1, c2)
+    )
+    if (agreed) {
+      add({ documentId: c1.documentId, codeId: c1.codeId, startOffset: c1.startOffset, endOffset: c1.endOffset })
+    }
+  })
+
+  // Adjudicated disagreements
+  disagreements.forEach(disagreement => {
+    const key = segmentKey(disagreement)
+    const decision = decisions[key]
+    if (!decision || decision.codeId === null) return
+
+    const span = consensusSpan(coder1, coder2, disagreement, decision.codeId)
+    add({ documentId: disagreement.documentId, codeId: decision.codeId, ...span, decisionKey: key })
+  })
+
+  return Array.from(result.values())
+}
+
+function consensusSpan(
+  coder1: CoderData,
+  coder2: CoderData,
+  disagreement: Disagreement,
+  codeId: string
+): { startOffset: number; endOffset: number } {
+  const inSegment = (c: Coding) => c.documentId === disagreement.documentId && overlaps(c, disagreement)
+
+  const chosen = [
+    ...(disagreement.coder1CodeId === codeId ? coder1.codings : []),
+    ...(disagreement.coder2CodeId === codeId ? coder2.codings : []),
+  ].find(c => c.codeId === codeId && inSegment(c))
+  if (chosen) return { startOffset: chosen.startOffset, endOffset: chosen.endOffset }
+
+  const spans = [...coder1.codings, ...coder2.codings].filter(inSegment)
+  if (spans.length === 0) {
+    return { startOffset: disagreement.startOffset, endOffset: disagreement.endOffset }
+  }
+  return {
+    startOffset: Math.min(...spans.map(c => c.startOffset)),
+    endOffset: Math.max(...spans.map(c => c.endOffset)),
+  }
+}
+
+function overlaps(
+  a: { startOffset: number; endOffset: number },
+  b: { startOffset: number; endOffset: number }
+): boolean {
+  return a.startOffset < b.endOffset && b.startOffset < a.endOffset
+}
+
+// ============================================
+// MEMOS
+// ============================================
+
+/**
+ * Memo text documenting one decision
+ */
+export function formatDecisionMemo(
+  disagreement: Disagreement,
+  decision: AdjudicationDecision,
+  codes: Code[]
+): string {
+  const decided = decision.codeId
+    ? codes.find(c => c.id === decision.codeId)?.name || decision.codeId
+    : 'Keine Kodierung'
+
+  const position = disagreement.startTime !== undefined
+    ? `Zeit ${disagreement.segment}`
+    : `Zeichen ${disagreement.startOffset}–${disagreement.endOffset}`
+
+  return [
+    `Dokument: ${disagreement.documentName} (${position})`,
+    `${disagreement.coder1}: ${disagreement.coder1Code || 'Keine Kodierung'}`,
+    `${disagreement.coder2}: ${disagreement.coder2Code || 'Keine Kodierung'}`,
+    `Konsens: ${decided}`,
+    '',
+    decision.rationale.trim(),
+  ].join('\n')
+}
+
+/**
+ * Memo text summarizing a round for the methods section
+ */
+export function formatRoundSummary(round: {
+  coder1: string
+  coder2: string
+  kappaBefore: number
+  kappaAfter: number
+  disagreementCount: number
+  decisionCount: number
+  consensusCodingCount: number
+}): string {
+  return [
+    `Kodierer: ${round.coder1} und ${round.coder2}`,
+    `Cohen's Kappa vor Konsens: ${round.kappaBefore.toFixed(3)}`,
+    `Cohen's Kappa nach Konsens: ${round.kappaAfter.toFixed(3)}`,
+    `Abweichungen: ${round.disagreementCount}, davon entschieden: ${round.decisionCount}`,
+    `Konsens-Kodierungen: ${round.consensusCodingCount}`,
+  ].join('\n')
+}
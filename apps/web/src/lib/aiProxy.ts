@@ -0,0 +1,61 @@
+/**
+ * AI Proxy Client
+ * AI requests go through the ai-proxy Edge Function, which holds the
+ * organization's API keys; the browser only sends its Supabase session.
+ *
+ * Without a Supabase backend there is no proxy. Development builds then fall
+ * back to a key entered in the settings and call the providers directly;
+ * those code paths check `directCallsAllowed`, which is false in production
+ * builds, so the bundler drops them and no key is ever kept in the browser.
+ */
+
+import { supabase, supabaseUrl, supabaseAnonKey } from './supabase'
+
+export const isProxyAvailable = !!supabaseUrl && !!supabaseAnonKey
+
+/**
+ * Direct provider calls with a key entered in the browser (development builds only)
+ */
+export const directCallsAllowed = import.meta.env.DEV
+
+export type ProxyEndpoint = 'messages' | 'transcriptions'
+
+/**
+ * Labels of the ledger row the proxy writes for a request
+ */
+export interface UsageLabel {
+  /** Coding method or feature, e.g. 'deductive' */
+  method: string
+  documentId?: string | null
+}
+
+export function proxyUrl(endpoint: ProxyEndpoint): string {
+  return `${supabaseUrl}/functions/v1/ai-proxy/${endpoint}`
+}
+
+/**
+ * Session and project headers of a proxy request; the proxy checks that the
+ * user is a member of the project, checks its budgets, bills the project's
+ * organization and records the usage in the ledger
+ */
+export async function proxyHeaders(
+  projectId: string | null,
+  usage: UsageLabel | null = null
+): Promise<Record<string, string>> {
+  if (!projectId) {
+    throw new Error('Kein Projekt ausgewählt')
+  }
+
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) {
+    throw new Error('Nicht angemeldet')
+  }
+
+  return {
+    Authorization: `Bearer ${session.access_token}`,
+    apikey: supabaseAnonKey,
+    'x-project-id': projectId,
+    ...(usage ? { 'x-ai-method': usage.method } : {}),
+    ...(usage?.documentId ? { 'x-document-id': usage.documentId } : {}),
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * AI Usage - cost estimates and budget checks for AI coding
+ *
+ * Estimates come from @evidenra/core (document size, method, model); actual
+ * token counts are reported by the API and recorded in the usage ledger
+ * (aiUsageApi, migration 029).
+ */
+
+import { estimateCodingUsage, type CodingEstimate } from '@evidenra/core/coding'
+import { estimateCost } from '@evidenra/core/llm'
+import type { CodingExemplar, CodingMethod, CodingUsage } from '@evidenra/core'
+import type { AiBudgetStatus } from './api'
+import { DEFAULT_MODEL } from './claude'
+
+// ============================================
+// MODELS
+// ============================================
+
+export const CODING_MODELS: { id: string; name: string; description: string }[] = [
+  { id: DEFAULT_MODEL, name: 'Claude Sonnet 4', description: 'Empfohlen: gute Qualität zu moderaten Kosten' },
+  { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', description: 'Höchste Qualität, etwa fünfmal teurer' },
+  { id: 'claude-3-5-haiku-20241022', name: 'Claude Haiku 3.5', description: 'Günstig und schnell, für Exploration' },
+]
+
+// ============================================
+// ESTIMATES
+// ============================================
+
+export function estimateRun(
+  content: string,
+  method: CodingMethod,
+  model: string,
+  existingCodes: { id?: string; name: string; description?: string | null }[] = [],
+  exemplars: CodingExemplar[] = []
+): CodingEstimate {
+  return estimateCodingUsage(content, method, model, {
+    existingCodes: existingCodes.map((code, i) => ({
+      id: code.id || `code-${i}`,
+      name: code.name,
+      description: code.description || undefined,
+      color: '',
+    })),
+    exemplars,
+  })
+}
+
+/**
+ * Cost of a finished run from the tokens reported by the API
+ */
+export function usageCost(usage: CodingUsage, model: string): number {
+  return estimateCost(usage, model)
+}
+
+// ============================================
+// BUDGETS
+// ============================================
+
+/**
+ * First budget that the run would exceed, or null if it fits into all
+ */
+export function exceededBudget(statuses: AiBudgetStatus[], additionalCost: number): AiBudgetStatus | null {
+  return statuses.find(status => status.spentUsd + additionalCost > status.limitUsd) || null
+}
+
+export function describeBudget(status: AiBudgetStatus): string {
+  const scope = status.userId ? 'Ihr Budget' : 'Projektbudget'
+  const period = status.period === 'month' ? 'diesen Monat' : 'insgesamt'
+  return `${scope}: ${formatUsd(status.spentUsd)} von ${formatUsd(status.limitUsd)} ${period} verbraucht`
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export function formatUsd(value: number): string {
+  // Single runs often cost less than a cent
+  const digits = value > 0 && value < 0.1 ? 3 : 2
+  return `$${value.toFixed(digits)}`
+}
+
+export function formatTokens(value: number): string {
+  return value >= 10_000 ? `${Math.round(value / 1000)}k` : value.toLocaleString('de-DE')
+}
@@ -7,6 +7,9 @@
 
 import type {
   AKIHCalculationInput,
+  AKIHConfig,
+  CodingValidation,
+  TeamValidation,
   AKIHComponent,
   AKIHComponentId,
   ValidationStatus,
@@ -95,6 +98,89 @@ export function calculateHumanValidation(stats: ValidationStats): number {
   return 0.5 + rawScore * 0.5
 }
 
+type ConsensusConfig = Pick<AKIHConfig, 'requireConsensus' | 'minimumValidators' | 'consensusThreshold'>
+
+/**
+ * Team consensus over the reviewers' decisions on one coding
+ *
+ * With requireConsensus, a coding stays pending until minimumValidators
+ * reviewers decided, and a status needs at least consensusThreshold of the
+ * votes; otherwise it is a conflict. Without it, the most frequent decision
+ * counts (ties go to the latest).
+ */
+export function resolveConsensus(
+  validations: TeamValidation['validations'],
+  config: ConsensusConfig
+): Pick<TeamValidation, 'consensusStatus' | 'consensusReachedAt'> & { codeId?: string } {
+  const decided = validations
+    .filter(v => v.status !== 'pending')
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+  const minimum = config.requireConsensus ? Math.max(1, config.minimumValidators) : 1
+  if (decided.length < minimum) {
+    return { consensusStatus: 'pending' }
+  }
+
+  const votes = new Map<ValidationStatus, number>()
+  for (const v of decided) {
+    votes.set(v.status, (votes.get(v.status) || 0) + 1)
+  }
+
+  let leading: ValidationStatus = decided[decided.length - 1].status
+  for (const [status, count] of votes) {
+    if (count > (votes.get(leading) || 0)) leading = status
+  }
+
+  // Compared in whole percent, so 2 of 3 votes meet the default threshold of 0.67
+  const share = Math.round(((votes.get(leading) || 0) / decided.length) * 100)
+  if (config.requireConsensus && share < Math.round(config.consensusThreshold * 100)) {
+    return { consensusStatus: 'conflict' }
+  }
+
+  const supporting = decided.filter(v => v.status === leading)
+  return {
+    consensusStatus: leading,
+    consensusReachedAt: decided[decided.length - 1].timestamp,
+    codeId: leading === 'modified' ? mostFrequent(supporting.map(v => v.codeId)) : undefined,
+  }
+}
+
+/**
+ * Validation of a coding as used by the AKIH score: the team consensus, or
+ * undefined while the coding is pending or in conflict
+ */
+export function toCodingValidation(
+  validations: TeamValidation['validations'],
+  config: ConsensusConfig,
+  originalCodeId?: string
+): CodingValidation | undefined {
+  const consensus = resolveConsensus(validations, config)
+  if (!consensus.consensusStatus || consensus.consensusStatus === 'pending' || consensus.consensusStatus === 'conflict') {
+    return undefined
+  }
+
+  const deciders = validations.filter(v => v.status === consensus.consensusStatus)
+  return {
+    status: consensus.consensusStatus,
+    validatedBy: deciders.map(v => v.userName || v.userId).join(', '),
+    validatedAt: consensus.consensusReachedAt || new Date(),
+    originalCodeId: consensus.consensusStatus === 'modified' ? originalCodeId : undefined,
+    newCodeId: consensus.codeId,
+  }
+}
+
+function mostFrequent(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>()
+  let best: string | undefined
+  for (const value of values) {
+    if (!value) continue
+    const count = (counts.get(value) || 0) + 1
+    counts.set(value, count)
+    if (!best || count > (counts.get(best) || 0)) best = value
+  }
+  return best
+}
+
 // ============================================================================
 // TRANSPARENCY INDEX CALCULATIONS
 // ============================================================================
@@ -5,12 +5,29 @@
 
 import { supabase } from './supabase'
 import type { Database } from './database.types'
+import { realignWords } from './mediaSync'
+import { resolveConsensus } from './akihCalculations'
+import { DEFAULT_AKIH_CONFIG } from '@/types/akih'
+import { diffText, remapRange } from './offsetRemap'
+import type { TranscriptWord } from './transcriptionProviders'
 
 type Tables = Database['public']['Tables']
 type Project = Tables['projects']['Row']
 type Document = Tables['documents']['Row']
 type Code = Tables['codes']['Row']
 type Coding = Tables['codings']['Row']
+type CodingRound = Tables['coding_rounds']['Row']
+type ConsensusSet = Tables['consensus_sets']['Row']
+type Memo = Tables['memos']['Row']
+type MemoLink = Tables['memo_links']['Row']
+type MemoComment = Tables['memo_comments']['Row']
+type Activity = Tables['activities']['Row']
+type CodingValidationRow = Tables['coding_validations']['Row']
+type CodingExemplarRow = Tables['coding_exemplars']['Row']
+type SavedQuery = Tables['saved_queries']['Row']
+type AiUsageEntry = Tables['ai_usage_ledger']['Row']
+type AiBudget = Tables['ai_budgets']['Row']
+type ApiKey = Tables['api_keys']['Row']
 type Organization = Tables['organizations']['Row']
 type OrganizationMember = Tables['organization_members']['Row']
 type Profile = Tables['profiles']['Row']
@@ -80,6 +97,9 @@ Teilnehmer: Gerne.`,
     file_path: null,
     file_type: 'transcript',
     word_count: 245,
+    attributes: { gender: 'f', alter: '34' },
+    media_type: null,
+    media_duration: null,
     created_by: 'demo-user',
     created_at: '2024-01-15T10:30:00Z',
     updated_at: '2024-01-15T10:30:00Z',
@@ -98,6 +118,9 @@ Teilnehmer: Die Visualisierungen sind wirklich beeindruckend. Man kann komplexe
     file_path: null,
     file_type: 'transcript',
     word_count: 52,
+    attributes: { gender: 'm', alter: '51' },
+    media_type: null,
+    media_duration: null,
     created_by: 'demo-user',
     created_at: '2024-01-16T14:00:00Z',
     updated_at: '2024-01-16T14:00:00Z',
@@ -114,8 +137,8 @@ const demoCodes: Code[] = [
 ]
 
 const demoCodings: Coding[] = [
-  { id: 'demo-coding-1', document_id: 'demo-doc-1', code_id: 'demo-code-1', start_offset: 147, end_offset: 286, selected_text: 'Die Oberfläche sah sehr komplex aus, mit vielen Buttons und Menüs. Ich wusste nicht, wo ich anfangen sollte.', memo: null, confidence: null, coding_method: 'manual', coded_by: 'demo-user', created_at: '2024-01-15T12:00:00Z', updated_at: '2024-01-15T12:00:00Z' },
-  { id: 'demo-coding-2', document_id: 'demo-doc-1', code_id: 'demo-code-2', start_offset: 338, end_offset: 348, selected_text: 'Frustriert', memo: null, confidence: null, coding_method: 'manual', coded_by: 'demo-user', created_at: '2024-01-15T12:05:00Z', updated_at: '2024-01-15T12:05:00Z' },
+  { id: 'demo-coding-1', document_id: 'demo-doc-1', code_id: 'demo-code-1', start_offset: 147, end_offset: 286, selected_text: 'Die Oberfläche sah sehr komplex aus, mit vielen Buttons und Menüs. Ich wusste nicht, wo ich anfangen sollte.', memo: null, confidence: null, coding_method: 'manual', coded_by: 'demo-user', round_id: null, start_time: null, end_time: null, region: null, consensus_set_id: null, created_at: '2024-01-15T12:00:00Z', updated_at: '2024-01-15T12:00:00Z' },
+  { id: 'demo-coding-2', document_id: 'demo-doc-1', code_id: 'demo-code-2', start_offset: 338, end_offset: 348, selected_text: 'Frustriert', memo: null, confidence: null, coding_method: 'manual', coded_by: 'demo-user', round_id: null, start_time: null, end_time: null, region: null, consensus_set_id: null, created_at: '2024-01-15T12:05:00Z', updated_at: '2024-01-15T12:05:00Z' },
 ]
 
 // ============================================
@@ -348,6 +371,75 @@ export const projectsApi = {
 // DOCUMENTS API
 // ============================================
 
+// Offsets of a document's codings and segments after a content edit
+interface DocumentEditPlan {
+  codings: { id: string; start_offset: number; end_offset: number; selected_text: string }[]
+  deletedCodings: string[]
+  segments: { id: string; start_offset: number; end_offset: number; text: string; words: TranscriptWord[] | null }[]
+  deletedSegments: string[]
+}
+
+function planDocumentEdit(
+  oldContent: string,
+  newContent: string,
+  codings: Pick<Coding, 'id' | 'start_offset' | 'end_offset' | 'selected_text' | 'start_time'>[],
+  segments: TranscriptSegmentRow[]
+): DocumentEditPlan {
+  const edits = diffText(oldContent, newContent)
+  const plan: DocumentEditPlan = { codings: [], deletedCodings: [], segments: [], deletedSegments: [] }
+
+  for (const coding of codings) {
+    // Time codings don't point into the text
+    if (coding.start_time != null) continue
+    const range = remapRange(edits, coding.start_offset, coding.end_offset)
+    if (!range) {
+      plan.deletedCodings.push(coding.id)
+      continue
+    }
+    const text = newContent.slice(range.start, range.end)
+    if (range.start === coding.start_offset && range.end === coding.end_offset && text === coding.selected_text) continue
+    plan.codings.push({ id: coding.id, start_offset: range.start, end_offset: range.end, selected_text: text })
+  }
+
+  // Segments tile the transcript, text typed at their edges belongs to them
+  for (const segment of segments) {
+    const range = remapRange(edits, segment.start_offset, segment.end_offset, true)
+    if (!range) {
+      plan.deletedSegments.push(segment.id)
+      continue
+    }
+    const text = newContent.slice(range.start, range.end)
+    if (range.start === segment.start_offset && range.end === segment.end_offset && text === segment.text) continue
+    plan.segments.push({
+      id: segment.id,
+      start_offset: range.start,
+      end_offset: range.end,
+      text,
+      words:
+        text === segment.text
+          ? segment.words
+          : realignWords(segment.text, text, segment.words, { start: segment.start_time, end: segment.end_time }),
+    })
+  }
+
+  return plan
+}
+
+function applyDemoDocumentEdit(plan: DocumentEditPlan) {
+  for (const update of plan.codings) {
+    const coding = demoCodings.find(c => c.id === update.id)
+    if (coding) Object.assign(coding, update)
+  }
+  for (const update of plan.segments) {
+    const segment = demoTranscriptSegments.find(s => s.id === update.id)
+    if (segment) Object.assign(segment, update)
+  }
+  const keptCodings = demoCodings.filter(c => !plan.deletedCodings.includes(c.id))
+  demoCodings.splice(0, demoCodings.length, ...keptCodings)
+  const keptSegments = demoTranscriptSegments.filter(s => !plan.deletedSegments.includes(s.id))
+  demoTranscriptSegments.splice(0, demoTranscriptSegments.length, ...keptSegments)
+}
+
 export const documentsApi = {
   async getByProject(projectId: string) {
     if (isDemoMode) {
@@ -379,16 +471,27 @@ export const documentsApi = {
     return { data, error }
   },
 
-  async create(data: { projectId: string; name: string; content: string; fileType?: string }) {
+  async create(data: {
+    projectId: string
+    name: string
+    content: string
+    fileType?: string
+    filePath?: string | null
+    mediaType?: 'audio' | 'video' | null
+    mediaDuration?: number | null
+  }) {
     if (isDemoMode) {
       const newDoc: Document = {
         id: `doc-${Date.now()}`,
         project_id: data.projectId,
         name: data.name,
         content: data.content,
-        file_path: null,
+        file_path: data.filePath || null,
         file_type: data.fileType || 'text',
         word_count: data.content.split(/\s+/).length,
+        attributes: {},
+        media_type: data.mediaType || null,
+        media_duration: data.mediaDuration ?? null,
         created_by: 'demo-user',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -407,6 +510,9 @@ export const documentsApi = {
         name: data.name,
         content: data.content,
         file_type: data.fileType || 'text',
+        file_path: data.filePath || null,
+        media_type: data.mediaType || null,
+        media_duration: data.mediaDuration ?? null,
         created_by: user.id,
       })
       .select()
@@ -415,10 +521,32 @@ export const documentsApi = {
     return { data: doc, error }
   },
 
-  async update(id: string, updates: { name?: string; content?: string }) {
+  /**
+   * Content changes are diffed against the stored version: codings and
+   * transcript segments move with the text, codings whose text was deleted
+   * are removed (see migration 038). The content of a document in an open
+   * round cannot change.
+   */
+  async update(id: string, updates: { name?: string; content?: string; attributes?: Record<string, string> }) {
     if (isDemoMode) {
       const idx = demoDocuments.findIndex(d => d.id === id)
       if (idx !== -1) {
+        if (updates.content !== undefined && updates.content !== demoDocuments[idx].content) {
+          const inOpenRound = demoRounds.some(
+            r => r.status === 'open' && (!r.ends_at || new Date(r.ends_at) > new Date()) && r.document_ids.includes(id)
+          )
+          if (inOpenRound) {
+            return { data: null, error: new Error('Document is part of an open coding round') }
+          }
+
+          const plan = planDocumentEdit(
+            demoDocuments[idx].content || '',
+            updates.content,
+            demoCodings.filter(c => c.document_id === id),
+            demoTranscriptSegments.filter(s => s.document_id === id)
+          )
+          applyDemoDocumentEdit(plan)
+        }
         demoDocuments[idx] = {
           ...demoDocuments[idx],
           ...updates,
@@ -430,6 +558,41 @@ export const documentsApi = {
       return { data: null, error: new Error('Document not found') }
     }
 
+    if (updates.content !== undefined) {
+      const { data: current, error: currentError } = await db
+        .from('documents')
+        .select('content, updated_at')
+        .eq('id', id)
+        .single()
+      if (currentError) return { data: null, error: currentError }
+
+      if ((current.content || '') !== updates.content) {
+        const [codingsResult, segmentsResult] = await Promise.all([
+          db.from('codings').select('id, start_offset, end_offset, selected_text, start_time').eq('document_id', id),
+          db.from('transcript_segments').select('*').eq('document_id', id),
+        ])
+        const loadError = codingsResult.error || segmentsResult.error
+        if (loadError) return { data: null, error: loadError }
+
+        const plan = planDocumentEdit(current.content || '', updates.content, codingsResult.data, segmentsResult.data)
+        const { data: edited, error: editError } = await db.rpc('apply_document_edit', {
+          p_document_id: id,
+          p_content: updates.content,
+          p_base_updated_at: current.updated_at,
+          p_codings: plan.codings,
+          p_deleted_codings: plan.deletedCodings,
+          p_segments: plan.segments,
+          p_deleted_segments: plan.deletedSegments,
+        })
+        if (editError) return { data: null, error: editError }
+
+        const rest = { ...updates }
+        delete rest.content
+        if (Object.keys(rest).length === 0) return { data: edited as Document, error: null }
+        updates = rest
+      }
+    }
+
     const { data, error } = await supabase
       .from('documents')
       .update(updates)
@@ -571,7 +734,7 @@ export const codesApi = {
 export const codingsApi = {
   async getByDocument(documentId: string) {
     if (isDemoMode) {
-      const codings = demoCodings.filter(c => c.document_id === documentId)
+      const codings = demoCodings.filter(c => c.document_id === documentId && !c.consensus_set_id)
       // Include code information
       const codingsWithCodes = codings.map(coding => {
         const code = demoCodes.find(c => c.id === coding.code_id)
@@ -590,6 +753,41 @@ export const codingsApi = {
         code:codes(*)
       `)
       .eq('document_id', documentId)
+      .is('consensus_set_id', null)
+      .order('start_offset')
+
+    return { data, error }
+  },
+
+  async getByProject(projectId: string) {
+    if (isDemoMode) {
+      const documentIds = demoDocuments.filter(d => d.project_id === projectId).map(d => d.id)
+      return {
+        data: demoCodings.filter(c => documentIds.includes(c.document_id) && !c.consensus_set_id),
+        error: null,
+      }
+    }
+
+    const { data, error } = await db
+      .from('codings')
+      .select('*, document:documents!inner(project_id)')
+      .eq('document.project_id', projectId)
+      .is('consensus_set_id', null)
+      .order('created_at')
+
+    return { data: data as Coding[] | null, error }
+  },
+
+  async getByRound(roundId: string) {
+    if (isDemoMode) {
+      return { data: demoCodings.filter(c => c.round_id === roundId), error: null }
+    }
+
+    // RLS hides other coders' codings while the round is open
+    const { data, error } = await supabase
+      .from('codings')
+      .select('*')
+      .eq('round_id', roundId)
       .order('start_offset')
 
     return { data, error }
@@ -604,6 +802,11 @@ export const codingsApi = {
     memo?: string
     confidence?: number
     codingMethod?: string
+    roundId?: string
+    /** Time codings of media documents, in seconds */
+    startTime?: number
+    endTime?: number
+    region?: Coding['region']
   }) {
     if (isDemoMode) {
       const newCoding: Coding = {
@@ -617,6 +820,11 @@ export const codingsApi = {
         confidence: data.confidence || null,
         coding_method: data.codingMethod || 'manual',
         coded_by: 'demo-user',
+        round_id: data.roundId || null,
+        start_time: data.startTime ?? null,
+        end_time: data.endTime ?? null,
+        region: data.region || null,
+        consensus_set_id: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       }
@@ -639,6 +847,10 @@ export const codingsApi = {
         confidence: data.confidence,
         coding_method: data.codingMethod || 'manual',
         coded_by: user.id,
+        round_id: data.roundId || null,
+        start_time: data.startTime ?? null,
+        end_time: data.endTime ?? null,
+        region: data.region || null,
       })
       .select()
       .single()
@@ -697,6 +909,9 @@ export const codingsApi = {
     memo?: string
     confidence?: number
     codingMethod?: string
+    roundId?: string
+    startTime?: number
+    endTime?: number
   }[]) {
     if (isDemoMode) {
       const newCodings = codings.map((data, idx) => ({
@@ -710,6 +925,11 @@ export const codingsApi = {
         confidence: data.confidence || null,
         coding_method: data.codingMethod || 'manual',
         coded_by: 'demo-user',
+        round_id: data.roundId || null,
+        start_time: data.startTime ?? null,
+        end_time: data.endTime ?? null,
+        region: null,
+        consensus_set_id: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       }))
@@ -732,6 +952,9 @@ export const codingsApi = {
         confidence: c.confidence,
         coding_method: c.codingMethod || 'manual',
         coded_by: user.id,
+        round_id: c.roundId || null,
+        start_time: c.startTime ?? null,
+        end_time: c.endTime ?? null,
       })))
       .select()
 
@@ -739,6 +962,1510 @@ export const codingsApi = {
   },
 }
 
+// ============================================
+// CODING ROUNDS API
+// ============================================
+
+export type CodingRoundWithAssignments = CodingRound & { document_ids: string[]; coder_ids: string[] }
+
+const demoRounds: CodingRoundWithAssignments[] = []
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+export const codingRoundsApi = {
+  async getByProject(projectId: string) {
+    if (isDemoMode) {
+      return { data: demoRounds.filter(r => r.project_id === projectId), error: null }
+    }
+
+    const { data, error } = await db
+      .from('coding_rounds')
+      .select(`
+        *,
+        documents:coding_round_documents(document_id),
+        coders:coding_round_coders(user_id)
+      `)
+      .eq('project_id', projectId)
+      .order('starts_at', { ascending: false })
+
+    if (error) return { data: null, error }
+
+    const rounds: CodingRoundWithAssignments[] = (data || []).map(({ documents, coders, ...round }: any) => ({
+      ...round,
+      document_ids: (documents || []).map((d: { document_id: string }) => d.document_id),
+      coder_ids: (coders || []).map((c: { user_id: string }) => c.user_id),
+    }))
+    return { data: rounds, error: null }
+  },
+
+  async create(data: {
+    projectId: string
+    name: string
+    description?: string
+    startsAt?: string
+    endsAt?: string
+    documentIds: string[]
+    coderIds: string[]
+  }) {
+    if (isDemoMode) {
+      const round: CodingRoundWithAssignments = {
+        id: `round-${Date.now()}`,
+        project_id: data.projectId,
+        name: data.name,
+        description: data.description || null,
+        status: 'open',
+        starts_at: data.startsAt || new Date().toISOString(),
+        ends_at: data.endsAt || null,
+        closed_at: null,
+        created_by: 'demo-user',
+        created_at: new Date().toISOString(),
+        document_ids: data.documentIds,
+        coder_ids: data.coderIds,
+      }
+      demoRounds.unshift(round)
+      return { data: round, error: null }
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return { data: null, error: new Error('Not authenticated') }
+
+    const { data: round, error } = await db
+      .from('coding_rounds')
+      .insert({
+        project_id: data.projectId,
+        name: data.name,
+        description: data.description || null,
+        starts_at: data.startsAt,
+        ends_at: data.endsAt || null,
+        created_by: user.id,
+      })
+      .select()
+      .single()
+
+    if (error || !round) return { data: null, error }
+
+    const { error: documentsError } = await db
+      .from('coding_round_documents')
+      .insert(data.documentIds.map(documentId => ({ round_id: round.id, document_id: documentId })))
+    if (documentsError) return { data: null, error: documentsError }
+
+    const { error: codersError } = await db
+      .from('coding_round_coders')
+      .insert(data.coderIds.map(userId => ({ round_id: round.id, user_id: userId })))
+    if (codersError) return { data: null, error: codersError }
+
+    const created: CodingRoundWithAssignments = {
+      ...round,
+      document_ids: data.documentIds,
+      coder_ids: data.coderIds,
+    }
+    return { data: created, error: null }
+  },
+
+  async close(id: string) {
+    const updates = { status: 'closed' as const, closed_at: new Date().toISOString() }
+
+    if (isDemoMode) {
+      const idx = demoRounds.findIndex(r => r.id === id)
+      if (idx === -1) return { data: null, error: new Error('Round not found') }
+      demoRounds[idx] = { ...demoRounds[idx], ...updates }
+      return { data: demoRounds[idx], error: null }
+    }
+
+    const { data, error } = await db
+      .from('coding_rounds')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    return { data, error }
+  },
+
+  async delete(id: string) {
+    if (isDemoMode) {
+      const idx = demoRounds.findIndex(r => r.id === id)
+      if (idx !== -1) demoRounds.splice(idx, 1)
+      return { error: null }
+    }
+
+    const { error } = await db
+      .from('coding_rounds')
+      .delete()
+      .eq('id', id)
+
+    return { error }
+  },
+}
+
+// ============================================
+// CONSENSUS SETS API (adjudicated codings, see migration 039)
+// ============================================
+
+export interface ConsensusCodingInput {
+  documentId: string
+  codeId: string
+  startOffset: number
+  endOffset: number
+  selectedText: string
+  startTime?: number
+  endTime?: number
+}
+
+const demoConsensusSets: ConsensusSet[] = []
+
+// A coder pair is stored in ascending order, whichever coder came first
+function orderedPair(coder1Id: string, coder2Id: string): [string, string] {
+  return coder1Id < coder2Id ? [coder1Id, coder2Id] : [coder2Id, coder1Id]
+}
+
+export const consensusSetsApi = {
+  /** Current set of a coder pair (and round), null if not adjudicated yet */
+  async getForPair(projectId: string, coder1Id: string, coder2Id: string, roundId: string | null = null) {
+    const [first, second] = orderedPair(coder1Id, coder2Id)
+
+    if (isDemoMode) {
+      const set = demoConsensusSets.find(s =>
+        s.project_id === projectId && s.coder1_id === first && s.coder2_id === second && s.round_id === roundId
+      )
+      return { data: set || null, error: null }
+    }
+
+    let query = db
+      .from('consensus_sets')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('coder1_id', first)
+      .eq('coder2_id', second)
+    query = roundId ? query.eq('round_id', roundId) : query.is('round_id', null)
+    const { data, error } = await query.maybeSingle()
+
+    return { data: (data as ConsensusSet | null) ?? null, error }
+  },
+
+  /**
+   * Save the consensus codings of a coder pair, replacing the pair's previous
+   * set in the same transaction. Returns the new coding ids in input order.
+   */
+  async replace(data: {
+    projectId: string
+    coder1Id: string
+    coder2Id: string
+    roundId?: string | null
+    codings: ConsensusCodingInput[]
+  }) {
+    const [first, second] = orderedPair(data.coder1Id, data.coder2Id)
+
+    if (isDemoMode) {
+      const roundId = data.roundId || null
+      const previous = demoConsensusSets.findIndex(s =>
+        s.project_id === data.projectId && s.coder1_id === first && s.coder2_id === second && s.round_id === roundId
+      )
+      if (previous !== -1) {
+        const [removed] = demoConsensusSets.splice(previous, 1)
+        for (let i = demoCodings.length - 1; i >= 0; i--) {
+          if (demoCodings[i].consensus_set_id === removed.id) demoCodings.splice(i, 1)
+        }
+      }
+
+      const set: ConsensusSet = {
+        id: `consensus-${Date.now()}`,
+        project_id: data.projectId,
+        coder1_id: first,
+        coder2_id: second,
+        round_id: roundId,
+        created_by: 'demo-user',
+        created_at: new Date().toISOString(),
+      }
+      demoConsensusSets.push(set)
+      const ids = data.codings.map((c, idx) => {
+        const id = `${set.id}-${idx}`
+        demoCodings.push({
+          id,
+          document_id: c.documentId,
+          code_id: c.codeId,
+          start_offset: c.startOffset,
+          end_offset: c.endOffset,
+          selected_text: c.selectedText,
+          memo: null,
+          confidence: null,
+          coding_method: 'consensus',
+          coded_by: 'demo-user',
+          round_id: null,
+          start_time: c.startTime ?? null,
+          end_time: c.endTime ?? null,
+          region: null,
+          consensus_set_id: set.id,
+          created_at: set.created_at,
+          updated_at: set.created_at,
+        })
+        return id
+      })
+      return { data: ids, error: null }
+    }
+
+    const { data: ids, error } = await db.rpc('replace_consensus_set', {
+      p_project_id: data.projectId,
+      p_coder1_id: first,
+      p_coder2_id: second,
+      p_round_id: data.roundId || null,
+      p_codings: data.codings.map(c => ({
+        document_id: c.documentId,
+        code_id: c.codeId,
+        start_offset: c.startOffset,
+        end_offset: c.endOffset,
+        selected_text: c.selectedText,
+        start_time: c.startTime ?? null,
+        end_time: c.endTime ?? null,
+      })),
+    })
+    if (error) return { data: null, error }
+    if (!Array.isArray(ids) || ids.length !== data.codings.length) {
+      return { data: null, error: new Error('Consensus codings were not saved completely') }
+    }
+
+    return { data: ids as string[], error: null }
+  },
+}
+
+// ============================================
+// MEMOS API
+// ============================================
+
+export type MemoLinkRow = Pick<MemoLink, 'memo_id' | 'target_type' | 'target_id'>
+export type MemoCommentWithAuthor = MemoComment & { created_by_name: string }
+export type MemoWithRelations = Memo & {
+  created_by_name: string
+  links: MemoLinkRow[]
+  comments: MemoCommentWithAuthor[]
+}
+
+export interface MemoSearchOptions {
+  query?: string
+  tags?: string[]
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+const demoMemos: MemoWithRelations[] = [
+  {
+    id: 'memo-1',
+    project_id: 'demo-project',
+    type: 'coding',
+    title: 'Wichtige Beobachtung',
+    content: 'Diese Kodierung zeigt einen klaren Zusammenhang zwischen Arbeitszufriedenheit und Teamdynamik. Der Interviewpartner betont mehrfach die Bedeutung kollegialer Unterstützung.',
+    color: null,
+    tags: ['wichtig', 'teamdynamik'],
+    created_by: 'user-1',
+    created_by_name: 'Max Mustermann',
+    created_at: daysAgo(5),
+    updated_at: daysAgo(5),
+    links: [
+      { memo_id: 'memo-1', target_type: 'coding', target_id: 'coding-1' },
+      { memo_id: 'memo-1', target_type: 'code', target_id: 'code-1' },
+    ],
+    comments: [
+      {
+        id: 'comment-1',
+        memo_id: 'memo-1',
+        content: 'Stimme zu - könnte auch mit dem Code "Teamkultur" verknüpft werden.',
+        created_by: 'user-2',
+        created_by_name: 'Anna Schmidt',
+        created_at: daysAgo(4),
+      },
+    ],
+  },
+  {
+    id: 'memo-2',
+    project_id: 'demo-project',
+    type: 'document',
+    title: 'Methodische Notiz',
+    content: 'Interview wurde per Video durchgeführt. Tonqualität gut, einige technische Unterbrechungen in Minute 15-17. Transkription entsprechend angepasst.',
+    color: null,
+    tags: ['methodik', 'transkription'],
+    created_by: 'user-2',
+    created_by_name: 'Anna Schmidt',
+    created_at: daysAgo(3),
+    updated_at: daysAgo(3),
+    links: [{ memo_id: 'memo-2', target_type: 'document', target_id: 'doc-1' }],
+    comments: [],
+  },
+  {
+    id: 'memo-3',
+    project_id: 'demo-project',
+    type: 'code',
+    title: 'Code-Definition verfeinern',
+    content: 'Der Code "Arbeitszufriedenheit" sollte in Subkategorien aufgeteilt werden:\n- Intrinsische Zufriedenheit\n- Extrinsische Zufriedenheit\n- Soziale Zufriedenheit',
+    color: '#3b82f6',
+    tags: ['code-entwicklung'],
+    created_by: 'user-1',
+    created_by_name: 'Max Mustermann',
+    created_at: daysAgo(1),
+    updated_at: daysAgo(1),
+    links: [
+      { memo_id: 'memo-3', target_type: 'code', target_id: 'code-1' },
+      { memo_id: 'memo-3', target_type: 'memo', target_id: 'memo-1' },
+    ],
+    comments: [
+      {
+        id: 'comment-2',
+        memo_id: 'memo-3',
+        content: 'Gute Idee! Ich schlage vor, wir diskutieren das im nächsten Team-Meeting.',
+        created_by: 'user-3',
+        created_by_name: 'Peter Meyer',
+        created_at: daysAgo(0.25),
+      },
+    ],
+  },
+  {
+    id: 'memo-4',
+    project_id: 'demo-project',
+    type: 'free',
+    title: 'Theoretische Überlegung',
+    content: 'Die bisherigen Daten legen nahe, dass das theoretische Sampling erweitert werden sollte. Insbesondere fehlen Perspektiven von Führungskräften auf mittlerer Ebene.',
+    color: null,
+    tags: ['theorie', 'sampling'],
+    created_by: 'user-2',
+    created_by_name: 'Anna Schmidt',
+    created_at: daysAgo(0.5),
+    updated_at: daysAgo(0.5),
+    links: [],
+    comments: [],
+  },
+]
+
+/**
+ * Display names for user IDs from their profiles
+ */
+async function fetchAuthorNames(userIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>()
+  const ids = [...new Set(userIds.filter(Boolean))]
+  if (ids.length === 0) return names
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .in('id', ids)
+
+  for (const profile of (data || []) as Pick<Profile, 'id' | 'full_name' | 'email'>[]) {
+    names.set(profile.id, profile.full_name || profile.email)
+  }
+  return names
+}
+
+function matchesMemoSearch(memo: Memo, options: MemoSearchOptions): boolean {
+  if (options.tags?.length && !options.tags.every(tag => memo.tags.includes(tag))) {
+    return false
+  }
+  const words = (options.query || '').toLowerCase().split(/\s+/).filter(Boolean)
+  const text = `${memo.title} ${memo.content}`.toLowerCase()
+  return words.every(word => text.includes(word))
+}
+
+export const memosApi = {
+  async getByProject(projectId: string) {
+    if (isDemoMode) {
+      return {
+        data: demoMemos.filter(m => m.project_id === projectId || projectId === 'demo-project'),
+        error: null,
+      }
+    }
+
+    const { data, error } = await db
+      .from('memos')
+      .select(`
+        *,
+        links:memo_links(memo_id, target_type, target_id),
+        comments:memo_comments(*)
+      `)
+      .eq('project_id', projectId)
+      .order('updated_at', { ascending: false })
+
+    if (error) return { data: null, error }
+
+    const rows = (data || []) as (Memo & { links: MemoLinkRow[]; comments: MemoComment[] })[]
+    const names = await fetchAuthorNames(
+      rows.flatMap(m => [m.created_by, ...(m.comments || []).map(c => c.created_by)])
+    )
+
+    const memos: MemoWithRelations[] = rows.map(memo => ({
+      ...memo,
+      created_by_name: names.get(memo.created_by) || 'Unbekannt',
+      links: memo.links || [],
+      comments: (memo.comments || [])
+        .map(c => ({ ...c, created_by_name: names.get(c.created_by) || 'Unbekannt' }))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }))
+    return { data: memos, error: null }
+  },
+
+  async create(data: {
+    projectId: string
+    type: Memo['type']
+    title: string
+    content: string
+    color?: string | null
+    tags: string[]
+    links: Omit<MemoLinkRow, 'memo_id'>[]
+  }) {
+    if (isDemoMode) {
+      const id = `memo-${Date.now()}`
+      const memo: MemoWithRelations = {
+        id,
+        project_id: data.projectId,
+        type: data.type,
+        title: data.title,
+        content: data.content,
+        color: data.color || null,
+        tags: data.tags,
+        created_by: 'demo-user',
+        created_by_name: 'Demo-Benutzer',
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        links: data.links.map(link => ({ ...link, memo_id: id })),
+        comments: [],
+      }
+      demoMemos.unshift(memo)
+      return { data: memo, error: null }
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return { data: null, error: new Error('Not authenticated') }
+
+    const { data: memo, error } = await db
+      .from('memos')
+      .insert({
+        project_id: data.projectId,
+        type: data.type,
+        title: data.title,
+        content: data.content,
+        color: data.color || null,
+        tags: data.tags,
+        created_by: user.id,
+      })
+      .select()
+      .single()
+
+    if (error || !memo) return { data: null, error }
+
+    const links = data.links.map(link => ({ ...link, memo_id: memo.id }))
+    if (links.length > 0) {
+      const { error: linksError } = await db.from('memo_links').insert(links)
+      if (linksError) return { data: null, error: linksError }
+    }
+
+    const created: MemoWithRelations = {
+      ...memo,
+      created_by_name: user.user_metadata?.full_name || user.email || 'Unbekannt',
+      links,
+      comments: [],
+    }
+    return { data: created, error: null }
+  },
+
+  async update(id: string, updates: Tables['memos']['Update']) {
+    if (isDemoMode) {
+      const idx = demoMemos.findIndex(m => m.id === id)
+      if (idx === -1) return { data: null, error: new Error('Memo not found') }
+      demoMemos[idx] = { ...demoMemos[idx], ...updates, updated_at: new Date().toISOString() }
+      return { data: demoMemos[idx] as Memo, error: null }
+    }
+
+    const { data, error } = await db
+      .from('memos')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    return { data: data as Memo | null, error }
+  },
+
+  /**
+   * Replace the links of a memo (removed links are deleted, new ones inserted)
+   */
+  async setLinks(memoId: string, links: Omit<MemoLinkRow, 'memo_id'>[]) {
+    const key = (l: Omit<MemoLinkRow, 'memo_id'>) => `${l.target_type}:${l.target_id}`
+    const rows = links.map(link => ({ ...link, memo_id: memoId }))
+
+    if (isDemoMode) {
+      const memo = demoMemos.find(m => m.id === memoId)
+      if (!memo) return { data: null, error: new Error('Memo not found') }
+      memo.links = rows
+      return { data: rows, error: null }
+    }
+
+    const { data: current, error: fetchError } = await db
+      .from('memo_links')
+      .select('target_type, target_id')
+      .eq('memo_id', memoId)
+    if (fetchError) return { data: null, error: fetchError }
+
+    const wanted = new Set(links.map(key))
+    const existing = new Set((current || []).map(key))
+
+    for (const link of (current || []) as Omit<MemoLinkRow, 'memo_id'>[]) {
+      if (wanted.has(key(link))) continue
+      const { error } = await db
+        .from('memo_links')
+        .delete()
+        .eq('memo_id', memoId)
+        .eq('target_type', link.target_type)
+        .eq('target_id', link.target_id)
+      if (error) return { data: null, error }
+    }
+
+    const added = rows.filter(link => !existing.has(key(link)))
+    if (added.length > 0) {
+      const { error } = await db.from('memo_links').insert(added)
+      if (error) return { data: null, error }
+    }
+
+    return { data: rows, error: null }
+  },
+
+  async delete(id: string) {
+    if (isDemoMode) {
+      const idx = demoMemos.findIndex(m => m.id === id)
+      if (idx !== -1) demoMemos.splice(idx, 1)
+      return { error: null }
+    }
+
+    const { error } = await db
+      .from('memos')
+      .delete()
+      .eq('id', id)
+
+    return { error }
+  },
+
+  async addComment(memoId: string, content: string) {
+    if (isDemoMode) {
+      const comment: MemoCommentWithAuthor = {
+        id: `comment-${Date.now()}`,
+        memo_id: memoId,
+        content,
+        created_by: 'demo-user',
+        created_by_name: 'Demo-Benutzer',
+        created_at: new Date().toISOString(),
+      }
+      demoMemos.find(m => m.id === memoId)?.comments.push(comment)
+      return { data: comment, error: null }
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return { data: null, error: new Error('Not authenticated') }
+
+    const { data, error } = await db
+      .from('memo_comments')
+      .insert({ memo_id: memoId, content, created_by: user.id })
+      .select()
+      .single()
+
+    if (error || !data) return { data: null, error }
+
+    const comment: MemoCommentWithAuthor = {
+      ...data,
+      created_by_name: user.user_metadata?.full_name || user.email || 'Unbekannt',
+    }
+    return { data: comment, error: null }
+  },
+
+  /**
+   * Full-text search (German stemming, websearch syntax) over title and
+   * content, combined with tags that must all be present
+   */
+  async search(projectId: string, options: MemoSearchOptions) {
+    if (isDemoMode) {
+      return {
+        data: demoMemos
+          .filter(m => m.project_id === projectId || projectId === 'demo-project')
+          .filter(m => matchesMemoSearch(m, options))
+          .map(m => m.id),
+        error: null,
+      }
+    }
+
+    let query = db
+      .from('memos')
+      .select('id')
+      .eq('project_id', projectId)
+
+    if (options.query?.trim()) {
+      query = query.textSearch('search_vector', options.query.trim(), { config: 'german', type: 'websearch' })
+    }
+    if (options.tags?.length) {
+      query = query.contains('tags', options.tags)
+    }
+
+    const { data, error } = await query.order('updated_at', { ascending: false })
+    if (error) return { data: null, error }
+    return { data: (data || []).map((m: { id: string }) => m.id) as string[], error: null }
+  },
+}
+
+// ============================================
+// ACTIVITIES API (audit trail, written by triggers, see migration 028)
+// ============================================
+
+export type ActivityWithAuthor = Activity & { user_name: string }
+
+export interface ActivityFilters {
+  entityType?: Activity['entity_type']
+  entityId?: string
+  action?: Activity['action']
+  startDate?: string
+  endDate?: string
+  limit?: number
+}
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString()
+
+const demoActivities: ActivityWithAuthor[] = [
+  {
+    id: 'hist-1', project_id: 'demo-project', user_id: 'user-1', user_name: 'Max Mustermann',
+    action: 'update', entity_type: 'code', entity_id: 'code-1', entity_name: 'Arbeitszufriedenheit',
+    previous_value: { name: 'Zufriedenheit', color: '#3b82f6' },
+    new_value: { name: 'Arbeitszufriedenheit', color: '#22c55e' },
+    restored_from: null, metadata: {}, prev_hash: null, hash: null, created_at: hoursAgo(2),
+  },
+  {
+    id: 'hist-2', project_id: 'demo-project', user_id: 'user-2', user_name: 'Anna Schmidt',
+    action: 'create', entity_type: 'coding', entity_id: 'coding-1', entity_name: 'Die Zusammenarbeit im Team...',
+    previous_value: null,
+    new_value: { code_id: 'code-2', selected_text: 'Die Zusammenarbeit im Team...' },
+    restored_from: null, metadata: {}, prev_hash: null, hash: null, created_at: hoursAgo(5),
+  },
+  {
+    id: 'hist-3', project_id: 'demo-project', user_id: 'user-1', user_name: 'Max Mustermann',
+    action: 'create', entity_type: 'code', entity_id: 'code-3', entity_name: 'Motivation',
+    previous_value: null,
+    new_value: { name: 'Motivation', color: '#8b5cf6', description: 'Intrinsische und extrinsische Motivation' },
+    restored_from: null, metadata: {}, prev_hash: null, hash: null, created_at: hoursAgo(24),
+  },
+  {
+    id: 'hist-4', project_id: 'demo-project', user_id: 'user-2', user_name: 'Anna Schmidt',
+    action: 'update', entity_type: 'document', entity_id: 'doc-1', entity_name: 'Interview_01.docx',
+    previous_value: { name: 'Interview_1.docx' },
+    new_value: { name: 'Interview_01.docx' },
+    restored_from: null, metadata: {}, prev_hash: null, hash: null, created_at: hoursAgo(48),
+  },
+  {
+    id: 'hist-5', project_id: 'demo-project', user_id: 'user-1', user_name: 'Max Mustermann',
+    action: 'delete', entity_type: 'coding', entity_id: 'coding-2', entity_name: 'Die Kommunikation war schwierig...',
+    previous_value: { code_id: 'code-1', selected_text: 'Die Kommunikation war schwierig...' },
+    new_value: null,
+    restored_from: null, metadata: {}, prev_hash: null, hash: null, created_at: hoursAgo(72),
+  },
+  {
+    id: 'hist-6', project_id: 'demo-project', user_id: 'user-2', user_name: 'Anna Schmidt',
+    action: 'update', entity_type: 'code', entity_id: 'code-4', entity_name: 'Work-Life-Balance',
+    previous_value: { parent_id: null },
+    new_value: { parent_id: 'code-1' },
+    restored_from: null, metadata: {}, prev_hash: null, hash: null, created_at: hoursAgo(96),
+  },
+  {
+    id: 'hist-7', project_id: 'demo-project', user_id: 'user-1', user_name: 'Max Mustermann',
+    action: 'create', entity_type: 'memo', entity_id: 'memo-1', entity_name: 'Theoretische Notiz',
+    previous_value: null,
+    new_value: { title: 'Theoretische Notiz', content: 'Die Daten zeigen...' },
+    restored_from: null, metadata: {}, prev_hash: null, hash: null, created_at: hoursAgo(120),
+  },
+]
+
+export const activitiesApi = {
+  async getByProject(projectId: string, filters: ActivityFilters = {}) {
+    if (isDemoMode) {
+      const data = demoActivities
+        .filter(a => a.project_id === projectId || projectId === 'demo-project')
+        .filter(a => !filters.entityType || a.entity_type === filters.entityType)
+        .filter(a => !filters.entityId || a.entity_id === filters.entityId)
+        .filter(a => !filters.action || a.action === filters.action)
+        .filter(a => !filters.startDate || a.created_at >= filters.startDate)
+        .filter(a => !filters.endDate || a.created_at <= filters.endDate)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, filters.limit || 100)
+      return { data, error: null }
+    }
+
+    let query = db
+      .from('activities')
+      .select('*')
+      .eq('project_id', projectId)
+
+    if (filters.entityType) query = query.eq('entity_type', filters.entityType)
+    if (filters.entityId) query = query.eq('entity_id', filters.entityId)
+    if (filters.action) query = query.eq('action', filters.action)
+    if (filters.startDate) query = query.gte('created_at', filters.startDate)
+    if (filters.endDate) query = query.lte('created_at', filters.endDate)
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 100)
+
+    if (error) return { data: null, error }
+
+    const rows = (data || []) as Activity[]
+    const names = await fetchAuthorNames(rows.map(a => a.user_id || ''))
+    const activities: ActivityWithAuthor[] = rows.map(a => ({
+      ...a,
+      user_name: (a.user_id && names.get(a.user_id)) || 'System',
+    }))
+    return { data: activities, error: null }
+  },
+
+  /**
+   * Re-apply the snapshot from before the given change; returns the new
+   * restore entry recorded by the audit trigger
+   */
+  async restore(activityId: string) {
+    if (isDemoMode) {
+      const entry = demoActivities.find(a => a.id === activityId)
+      if (!entry?.previous_value) return { data: null, error: new Error('Keine vorherige Version verfügbar') }
+
+      const restored: ActivityWithAuthor = {
+        ...entry,
+        id: `hist-${Date.now()}`,
+        user_id: 'demo-user',
+        user_name: 'Demo-Benutzer',
+        action: 'restore',
+        previous_value: entry.new_value,
+        new_value: entry.previous_value,
+        restored_from: entry.id,
+        created_at: new Date().toISOString(),
+      }
+      demoActivities.unshift(restored)
+      return { data: restored, error: null }
+    }
+
+    const { data: restoreId, error } = await db.rpc('restore_activity', { p_activity_id: activityId })
+    if (error) return { data: null, error }
+
+    const { data: entry, error: fetchError } = await db
+      .from('activities')
+      .select('*')
+      .eq('id', restoreId)
+      .single()
+    if (fetchError || !entry) return { data: null, error: fetchError }
+
+    const names = await fetchAuthorNames([entry.user_id || ''])
+    const restored: ActivityWithAuthor = {
+      ...entry,
+      user_name: (entry.user_id && names.get(entry.user_id)) || 'System',
+    }
+    return { data: restored, error: null }
+  },
+
+  /**
+   * ID of the first entry that breaks the hash chain, null if the log is intact
+   */
+  async verifyChain(projectId: string) {
+    if (isDemoMode) {
+      return { data: null as string | null, error: null }
+    }
+
+    const { data, error } = await db.rpc('verify_audit_chain', { p_project_id: projectId })
+    return { data: (data as string | null) ?? null, error }
+  },
+}
+
+// ============================================
+// CODING VALIDATIONS API (human review of AI codings, see migration 031)
+// ============================================
+
+export type CodingValidationWithAuthor = CodingValidationRow & { user_name: string }
+
+export interface CodingValidationInput {
+  codingId: string
+  status: CodingValidationRow['status']
+  newCodeId?: string | null
+  notes?: string | null
+}
+
+/**
+ * Team consensus on AI codings, grouped by week of the coding, method and code;
+ * codings pending or in conflict are not counted
+ */
+export interface AiPrecisionRow {
+  week: string
+  codingMethod: string | null
+  codeId: string
+  accepted: number
+  modified: number
+  rejected: number
+}
+
+const demoValidations: CodingValidationWithAuthor[] = []
+
+/**
+ * Team consensus per coding with the default settings, as the exemplar
+ * trigger and ai_precision_stats use it (coding_validation_consensus);
+ * codings pending or in conflict are left out. Each entry carries the
+ * latest decision with the agreed status and code.
+ */
+function consensusDemoValidations(projectId: string): CodingValidationWithAuthor[] {
+  const byCoding = new Map<string, CodingValidationWithAuthor[]>()
+  for (const v of demoValidations.filter(v => v.project_id === projectId)) {
+    byCoding.set(v.coding_id, [...(byCoding.get(v.coding_id) || []), v])
+  }
+
+  const agreed: CodingValidationWithAuthor[] = []
+  for (const decisions of byCoding.values()) {
+    const consensus = resolveConsensus(
+      decisions.map(v => ({
+        userId: v.user_id,
+        status: v.status,
+        codeId: v.new_code_id || undefined,
+        timestamp: new Date(v.updated_at),
+      })),
+      DEFAULT_AKIH_CONFIG
+    )
+    const status = consensus.consensusStatus
+    if (!status || status === 'pending' || status === 'conflict') continue
+    const latest = decisions.reduce((a, b) => (b.updated_at > a.updated_at ? b : a))
+    agreed.push({ ...latest, status, new_code_id: consensus.codeId || null })
+  }
+  return agreed
+}
+
+function startOfWeek(date: string): string {
+  const day = new Date(date)
+  day.setHours(0, 0, 0, 0)
+  // ISO weeks start on Monday
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7))
+  return day.toISOString().slice(0, 10)
+}
+
+export const codingValidationsApi = {
+  async getByProject(projectId: string) {
+    if (isDemoMode) {
+      return { data: demoValidations.filter(v => v.project_id === projectId), error: null }
+    }
+
+    const { data, error } = await db
+      .from('coding_validations')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at')
+    if (error) return { data: null, error }
+
+    const rows = (data || []) as CodingValidationRow[]
+    const names = await fetchAuthorNames(rows.map(v => v.user_id))
+    const validations: CodingValidationWithAuthor[] = rows.map(v => ({
+      ...v,
+      user_name: names.get(v.user_id) || 'Unbekannt',
+    }))
+    return { data: validations, error: null }
+  },
+
+  /**
+   * Save the current user's decision; a reviewer has one decision per coding
+   */
+  async save(projectId: string, input: CodingValidationInput) {
+    const newCodeId = input.status === 'modified' ? input.newCodeId || null : null
+
+    if (isDemoMode) {
+      const now = new Date().toISOString()
+      let row = demoValidations.find(v => v.coding_id === input.codingId && v.user_id === 'demo-user')
+      if (row) {
+        Object.assign(row, { status: input.status, new_code_id: newCodeId, notes: input.notes || null, updated_at: now })
+      } else {
+        row = {
+          id: `validation-${Date.now()}`,
+          coding_id: input.codingId,
+          project_id: projectId,
+          user_id: 'demo-user',
+          user_name: 'Demo-Benutzer',
+          status: input.status,
+          new_code_id: newCodeId,
+          notes: input.notes || null,
+          created_at: now,
+          updated_at: now,
+        }
+        demoValidations.push(row)
+      }
+      return { data: row as CodingValidationRow, error: null }
+    }
+
+    const { data, error } = await db
+      .from('coding_validations')
+      .upsert(
+        {
+          coding_id: input.codingId,
+          status: input.status,
+          new_code_id: newCodeId,
+          notes: input.notes || null,
+        },
+        { onConflict: 'coding_id,user_id' }
+      )
+      .select()
+      .single()
+
+    return { data: data as CodingValidationRow | null, error }
+  },
+
+  async getPrecisionStats(projectId: string) {
+    if (isDemoMode) {
+      const rows = new Map<string, AiPrecisionRow>()
+      for (const v of consensusDemoValidations(projectId)) {
+        const coding = demoCodings.find(c => c.id === v.coding_id)
+        if (!coding) continue
+        const week = startOfWeek(coding.created_at)
+        const key = `${week}:${coding.coding_method}:${coding.code_id}`
+        const row = rows.get(key) || {
+          week, codingMethod: coding.coding_method, codeId: coding.code_id, accepted: 0, modified: 0, rejected: 0,
+        }
+        row[v.status]++
+        rows.set(key, row)
+      }
+      return { data: Array.from(rows.values()).sort((a, b) => a.week.localeCompare(b.week)), error: null }
+    }
+
+    const { data, error } = await db.rpc('ai_precision_stats', { p_project_id: projectId })
+    if (error) return { data: null, error }
+
+    const rows: AiPrecisionRow[] = ((data || []) as {
+      week: string
+      coding_method: string | null
+      code_id: string
+      accepted: number
+      modified: number
+      rejected: number
+    }[]).map(row => ({
+      week: row.week,
+      codingMethod: row.coding_method,
+      codeId: row.code_id,
+      accepted: row.accepted,
+      modified: row.modified,
+      rejected: row.rejected,
+    }))
+    return { data: rows, error: null }
+  },
+
+  /**
+   * Withdraw the current user's decision, the coding is pending again for them
+   */
+  async remove(codingId: string) {
+    if (isDemoMode) {
+      const index = demoValidations.findIndex(v => v.coding_id === codingId && v.user_id === 'demo-user')
+      if (index >= 0) demoValidations.splice(index, 1)
+      return { error: null }
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return { error: new Error('Nicht angemeldet') }
+
+    const { error } = await db
+      .from('coding_validations')
+      .delete()
+      .eq('coding_id', codingId)
+      .eq('user_id', user.id)
+    return { error }
+  },
+}
+
+// ============================================
+// CODING EXEMPLARS API (active learning from review decisions, see migration 032)
+// ============================================
+
+export const codingExemplarsApi = {
+  /**
+   * Newest exemplars first; the coding engines keep a few per code
+   */
+  async getByProject(projectId: string, limit = 500) {
+    if (isDemoMode) {
+      const data: CodingExemplarRow[] = consensusDemoValidations(projectId).flatMap(v => {
+        const coding = demoCodings.find(c => c.id === v.coding_id)
+        if (!coding) return []
+        const base = {
+          project_id: projectId,
+          source_coding_id: coding.id,
+          text: coding.selected_text,
+          coding_method: coding.coding_method,
+          created_at: v.updated_at,
+        }
+        const rows: CodingExemplarRow[] = [{
+          ...base,
+          id: `exemplar-${v.id}`,
+          code_id: coding.code_id,
+          polarity: v.status === 'accepted' ? 'positive' : 'negative',
+        }]
+        if (v.status === 'modified' && v.new_code_id && v.new_code_id !== coding.code_id) {
+          rows.push({ ...base, id: `exemplar-${v.id}-new`, code_id: v.new_code_id, polarity: 'positive' })
+        }
+        return rows
+      })
+      return { data: data.sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, limit), error: null }
+    }
+
+    const { data, error } = await db
+      .from('coding_exemplars')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    return { data: data as CodingExemplarRow[] | null, error }
+  },
+}
+
+// ============================================
+// SAVED QUERIES API (coding queries per project, see migration 033)
+// ============================================
+
+const demoSavedQueries: SavedQuery[] = []
+
+export const savedQueriesApi = {
+  async getByProject(projectId: string) {
+    if (isDemoMode) {
+      return { data: demoSavedQueries.filter(q => q.project_id === projectId), error: null }
+    }
+
+    const { data, error } = await db
+      .from('saved_queries')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('name')
+
+    return { data: data as SavedQuery[] | null, error }
+  },
+
+  /**
+   * Saving under an existing name replaces that query
+   */
+  async save(projectId: string, name: string, query: string) {
+    if (isDemoMode) {
+      const now = new Date().toISOString()
+      let row = demoSavedQueries.find(q => q.project_id === projectId && q.name === name)
+      if (row) {
+        Object.assign(row, { query, updated_at: now })
+      } else {
+        row = {
+          id: `query-${Date.now()}`,
+          project_id: projectId,
+          name,
+          query,
+          created_by: 'demo-user',
+          created_at: now,
+          updated_at: now,
+        }
+        demoSavedQueries.push(row)
+      }
+      return { data: row, error: null }
+    }
+
+    const { data, error } = await db
+      .from('saved_queries')
+      .upsert({ project_id: projectId, name, query }, { onConflict: 'project_id,name' })
+      .select()
+      .single()
+
+    return { data: data as SavedQuery | null, error }
+  },
+
+  async remove(id: string) {
+    if (isDemoMode) {
+      const idx = demoSavedQueries.findIndex(q => q.id === id)
+      if (idx !== -1) demoSavedQueries.splice(idx, 1)
+      return { error: null }
+    }
+
+    const { error } = await db.from('saved_queries').delete().eq('id', id)
+    return { error }
+  },
+}
+
+// ============================================
+// TRANSCRIPT SEGMENTS API (timed segments of media documents, see migration 034)
+// ============================================
+
+export type TranscriptSegmentRow = Tables['transcript_segments']['Row']
+
+export interface TranscriptSegmentInput {
+  position: number
+  startTime: number
+  endTime: number
+  startOffset: number
+  endOffset: number
+  text: string
+  speaker?: string | null
+  words?: TranscriptWord[] | null
+}
+
+const demoTranscriptSegments: TranscriptSegmentRow[] = []
+
+export const transcriptSegmentsApi = {
+  async getByDocument(documentId: string) {
+    if (isDemoMode) {
+      const rows = demoTranscriptSegments
+        .filter(s => s.document_id === documentId)
+        .sort((a, b) => a.position - b.position)
+      return { data: rows, error: null }
+    }
+
+    const { data, error } = await db
+      .from('transcript_segments')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('position')
+
+    return { data: data as TranscriptSegmentRow[] | null, error }
+  },
+
+  async getByProject(projectId: string) {
+    if (isDemoMode) {
+      return { data: demoTranscriptSegments.filter(s => s.project_id === projectId), error: null }
+    }
+
+    const { data, error } = await db
+      .from('transcript_segments')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('position')
+
+    return { data: data as TranscriptSegmentRow[] | null, error }
+  },
+
+  /**
+   * Replaces all segments of a document (after transcription or re-alignment)
+   */
+  async replaceForDocument(documentId: string, segments: TranscriptSegmentInput[]) {
+    const rows = segments.map(s => ({
+      document_id: documentId,
+      position: s.position,
+      start_time: s.startTime,
+      end_time: s.endTime,
+      start_offset: s.startOffset,
+      end_offset: s.endOffset,
+      text: s.text,
+      speaker: s.speaker ?? null,
+      words: s.words ?? null,
+    }))
+
+    if (isDemoMode) {
+      const projectId = demoDocuments.find(d => d.id === documentId)?.project_id || ''
+      const kept = demoTranscriptSegments.filter(s => s.document_id !== documentId)
+      const created = rows.map((row, idx) => ({
+        ...row,
+        id: `segment-${Date.now()}-${idx}`,
+        project_id: projectId,
+        created_at: new Date().toISOString(),
+      }))
+      demoTranscriptSegments.splice(0, demoTranscriptSegments.length, ...kept, ...created)
+      return { data: created, error: null }
+    }
+
+    const { error: deleteError } = await db.from('transcript_segments').delete().eq('document_id', documentId)
+    if (deleteError) return { data: null, error: deleteError }
+    if (rows.length === 0) return { data: [] as TranscriptSegmentRow[], error: null }
+
+    const { data, error } = await db.from('transcript_segments').insert(rows).select()
+    return { data: data as TranscriptSegmentRow[] | null, error }
+  },
+}
+
+// ============================================
+// AI USAGE API (ledger and budgets, see migration 029)
+// ============================================
+
+export type AiUsageWithAuthor = AiUsageEntry & { user_name: string }
+export type AiBudgetWithUser = AiBudget & { user_name: string | null }
+
+export interface AiUsageRecord {
+  projectId: string
+  documentId?: string | null
+  model: string
+  method: string
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+export interface AiBudgetStatus {
+  budgetId: string
+  /** null = project budget */
+  userId: string | null
+  limitUsd: number
+  period: AiBudget['period']
+  spentUsd: number
+}
+
+const demoUsage: AiUsageWithAuthor[] = [
+  {
+    id: 'usage-1', project_id: 'demo-project', user_id: 'user-1', user_name: 'Max Mustermann',
+    document_id: 'doc-1', model: 'claude-sonnet-4-20250514', method: 'three-expert',
+    input_tokens: 48200, output_tokens: 9100, cost_usd: 0.2811, created_at: hoursAgo(6),
+  },
+  {
+    id: 'usage-2', project_id: 'demo-project', user_id: 'user-2', user_name: 'Anna Schmidt',
+    document_id: 'doc-2', model: 'claude-3-5-haiku-20241022', method: 'ultra-turbo',
+    input_tokens: 15400, output_tokens: 3800, cost_usd: 0.02752, created_at: hoursAgo(30),
+  },
+]
+
+const demoBudgets: AiBudgetWithUser[] = []
+
+function startOfMonth(): string {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString()
+}
+
+export const aiUsageApi = {
+  /**
+   * Append a run to the ledger (entries are never changed afterwards)
+   */
+  async record(entry: AiUsageRecord) {
+    if (isDemoMode) {
+      const row: AiUsageWithAuthor = {
+        id: `usage-${Date.now()}`,
+        project_id: entry.projectId,
+        user_id: 'demo-user',
+        user_name: 'Demo-Benutzer',
+        document_id: entry.documentId || null,
+        model: entry.model,
+        method: entry.method,
+        input_tokens: entry.inputTokens,
+        output_tokens: entry.outputTokens,
+        cost_usd: entry.costUsd,
+        created_at: new Date().toISOString(),
+      }
+      demoUsage.unshift(row)
+      return { data: row as AiUsageEntry, error: null }
+    }
+
+    const { data, error } = await db
+      .from('ai_usage_ledger')
+      .insert({
+        project_id: entry.projectId,
+        document_id: entry.documentId || null,
+        model: entry.model,
+        method: entry.method,
+        input_tokens: entry.inputTokens,
+        output_tokens: entry.outputTokens,
+        cost_usd: entry.costUsd,
+      })
+      .select()
+      .single()
+
+    return { data: data as AiUsageEntry | null, error }
+  },
+
+  async getByProject(projectId: string, options: { startDate?: string } = {}) {
+    if (isDemoMode) {
+      const data = demoUsage
+        .filter(u => u.project_id === projectId || projectId === 'demo-project')
+        .filter(u => !options.startDate || u.created_at >= options.startDate)
+      return { data, error: null }
+    }
+
+    let query = db
+      .from('ai_usage_ledger')
+      .select('*')
+      .eq('project_id', projectId)
+    if (options.startDate) query = query.gte('created_at', options.startDate)
+
+    const { data, error } = await query.order('created_at', { ascending: false })
+    if (error) return { data: null, error }
+
+    const rows = (data || []) as AiUsageEntry[]
+    const names = await fetchAuthorNames(rows.map(u => u.user_id))
+    const usage: AiUsageWithAuthor[] = rows.map(u => ({
+      ...u,
+      cost_usd: Number(u.cost_usd),
+      user_name: names.get(u.user_id) || 'Unbekannt',
+    }))
+    return { data: usage, error: null }
+  },
+
+  async getBudgets(projectId: string) {
+    if (isDemoMode) {
+      return { data: demoBudgets.filter(b => b.project_id === projectId), error: null }
+    }
+
+    const { data, error } = await db
+      .from('ai_budgets')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at')
+    if (error) return { data: null, error }
+
+    const rows = (data || []) as AiBudget[]
+    const names = await fetchAuthorNames(rows.map(b => b.user_id || ''))
+    const budgets: AiBudgetWithUser[] = rows.map(b => ({
+      ...b,
+      limit_usd: Number(b.limit_usd),
+      user_name: b.user_id ? names.get(b.user_id) || 'Unbekannt' : null,
+    }))
+    return { data: budgets, error: null }
+  },
+
+  /**
+   * Create or replace the budget of the project (userId null) or of one user
+   */
+  async setBudget(projectId: string, userId: string | null, limitUsd: number, period: AiBudget['period']) {
+    if (isDemoMode) {
+      let budget = demoBudgets.find(b => b.project_id === projectId && b.user_id === userId)
+      if (budget) {
+        Object.assign(budget, { limit_usd: limitUsd, period, updated_at: new Date().toISOString() })
+      } else {
+        budget = {
+          id: `budget-${Date.now()}`,
+          project_id: projectId,
+          user_id: userId,
+          user_name: userId ? 'Benutzer' : null,
+          limit_usd: limitUsd,
+          period,
+          created_by: 'demo-user',
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        }
+        demoBudgets.push(budget)
+      }
+      return { data: budget as AiBudget, error: null }
+    }
+
+    // Partial unique indexes cannot be used for upsert, so look up first
+    let existing = db.from('ai_budgets').select('id').eq('project_id', projectId)
+    existing = userId ? existing.eq('user_id', userId) : existing.is('user_id', null)
+    const { data: found } = await existing.maybeSingle()
+
+    const { data, error } = found
+      ? await db.from('ai_budgets').update({ limit_usd: limitUsd, period }).eq('id', found.id).select().single()
+      : await db
+          .from('ai_budgets')
+          .insert({ project_id: projectId, user_id: userId, limit_usd: limitUsd, period })
+          .select()
+          .single()
+
+    return { data: data as AiBudget | null, error }
+  },
+
+  async deleteBudget(budgetId: string) {
+    if (isDemoMode) {
+      const index = demoBudgets.findIndex(b => b.id === budgetId)
+      if (index >= 0) demoBudgets.splice(index, 1)
+      return { error: null }
+    }
+
+    const { error } = await db.from('ai_budgets').delete().eq('id', budgetId)
+    return { error }
+  },
+
+  /**
+   * Budgets that apply to the current user with the amount already spent
+   */
+  async getBudgetStatus(projectId: string) {
+    if (isDemoMode) {
+      const data: AiBudgetStatus[] = demoBudgets
+        .filter(b => b.project_id === projectId && (!b.user_id || b.user_id === 'demo-user'))
+        .map(b => ({
+          budgetId: b.id,
+          userId: b.user_id,
+          limitUsd: b.limit_usd,
+          period: b.period,
+          spentUsd: demoUsage
+            .filter(u => u.project_id === projectId || projectId === 'demo-project')
+            .filter(u => !b.user_id || u.user_id === b.user_id)
+            .filter(u => b.period === 'total' || u.created_at >= startOfMonth())
+            .reduce((sum, u) => sum + u.cost_usd, 0),
+        }))
+      return { data, error: null }
+    }
+
+    const { data, error } = await db.rpc('ai_budget_status', { p_project_id: projectId })
+    if (error) return { data: null, error }
+
+    const statuses: AiBudgetStatus[] = ((data || []) as {
+      budget_id: string
+      user_id: string | null
+      limit_usd: number | string
+      period: AiBudget['period']
+      spent_usd: number | string
+    }[]).map(row => ({
+      budgetId: row.budget_id,
+      userId: row.user_id,
+      // NUMERIC columns arrive as strings
+      limitUsd: Number(row.limit_usd),
+      period: row.period,
+      spentUsd: Number(row.spent_usd),
+    }))
+    return { data: statuses, error: null }
+  },
+}
+
+// ============================================
+// AI KEYS API (organization keys held by the ai-proxy Edge Function, see migration 030)
+// ============================================
+
+export type AiKeyProvider = ApiKey['provider']
+
+export const aiKeysApi = {
+  async getByOrganization(organizationId: string) {
+    if (isDemoMode) {
+      return { data: [] as ApiKey[], error: null }
+    }
+
+    const { data, error } = await db
+      .from('api_keys')
+      .select('id, organization_id, provider, name, key_preview, created_by, created_at, last_used_at')
+      .eq('organization_id', organizationId)
+      .order('provider')
+
+    return { data: data as ApiKey[] | null, error }
+  },
+
+  /**
+   * Encrypt and store a key server-side; replaces the organization's key of this provider
+   */
+  async save(organizationId: string, provider: AiKeyProvider, apiKey: string) {
+    if (isDemoMode) {
+      return { data: null, error: new Error('Im Demo-Modus nicht verfügbar') }
+    }
+
+    const { data, error } = await supabase.functions.invoke('ai-proxy/keys', {
+      body: { organizationId, provider, apiKey },
+    })
+    return { data: data as ApiKey | null, error }
+  },
+
+  async delete(keyId: string) {
+    if (isDemoMode) {
+      return { error: null }
+    }
+
+    const { error } = await supabase.functions.invoke(`ai-proxy/keys?id=${encodeURIComponent(keyId)}`, {
+      method: 'DELETE',
+    })
+    return { error }
+  },
+
+  async getRateLimit(organizationId: string) {
+    if (isDemoMode) {
+      return { data: 30, error: null }
+    }
+
+    const { data, error } = await db
+      .from('organizations')
+      .select('ai_requests_per_minute')
+      .eq('id', organizationId)
+      .single()
+    return { data: (data?.ai_requests_per_minute as number | undefined) ?? null, error }
+  },
+
+  async setRateLimit(organizationId: string, requestsPerMinute: number) {
+    if (isDemoMode) {
+      return { error: null }
+    }
+
+    const { error } = await db
+      .from('organizations')
+      .update({ ai_requests_per_minute: requestsPerMinute })
+      .eq('id', organizationId)
+    return { error }
+  },
+}
+
 // ============================================
 // PROFILES API
 // ============================================
@@ -1,10 +1,30 @@
 /**
  * Claude API Client for EVIDENRA
- * Handles all AI coding requests
+ * Handles all AI requests of the web app
+ *
+ * AI coding itself runs in @evidenra/core; this client is its LLM provider
+ * (`claudeProvider`). Requests go through a transport: the ai-proxy Edge
+ * Function when a Supabase backend is configured, direct HTTP with a local
+ * key otherwise (development builds only), or the mock transport in
+ * claudeMock.ts for offline runs and tests.
  */
 
+import { createCodingService } from '@evidenra/core/coding'
+import {
+  collectStream,
+  readAnthropicStream,
+  toAnthropicRequest,
+  type AnthropicRequest,
+  type AnthropicStreamEvent,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMStreamEvent,
+} from '@evidenra/core/llm'
+import type { Code, Coding, CodingExemplar, CodingMethod, CodingUsage } from '@evidenra/core'
+import { directCallsAllowed, isProxyAvailable, proxyHeaders, proxyUrl, type UsageLabel } from './aiProxy'
+
 const CLAUDE_API_URL = 'https://api.anthropic.com/v1/messages'
-const DEFAULT_MODEL = 'claude-sonnet-4-20250514'
+export const DEFAULT_MODEL = 'claude-sonnet-4-20250514'
 
 export interface ClaudeMessage {
   role: 'user' | 'assistant'
@@ -21,6 +41,130 @@ export interface ClaudeResponse {
   }
 }
 
+export type ClaudeRequest = AnthropicRequest
+
+/**
+ * Server-sent events of the Messages API (stream: true)
+ */
+export type ClaudeStreamEvent = AnthropicStreamEvent
+
+/**
+ * What a transport needs to authorize a request
+ */
+export interface TransportContext {
+  /** User-provided key for direct API calls (local development without backend) */
+  apiKey: string | null
+  /** Project the request belongs to; the proxy checks membership and bills its organization */
+  projectId: string | null
+  /** Labels of the proxy's ledger row */
+  usage: UsageLabel | null
+}
+
+/**
+ * How requests reach the API. With a Supabase backend they go through the
+ * ai-proxy Edge Function (see aiProxy.ts); without one directly over HTTP.
+ * A mock transport (see claudeMock.ts) answers locally for offline runs and tests.
+ */
+export interface ClaudeTransport {
+  /** Runs without an API key */
+  offline?: boolean
+  /** The key is held server-side; requests need a project instead */
+  proxied?: boolean
+  send(request: ClaudeRequest, context: TransportContext): Promise<ClaudeResponse>
+  stream(request: ClaudeRequest, context: TransportContext): AsyncIterable<ClaudeStreamEvent>
+}
+
+/**
+ * Transport that POSTs Messages API requests to an endpoint with the given headers
+ */
+function createFetchTransport(
+  url: () => string,
+  headers: (context: TransportContext) => Promise<Record<string, string>>,
+  proxied = false
+): ClaudeTransport {
+  return {
+    proxied,
+
+    async send(request, context) {
+      const response = await fetch(url(), {
+        method: 'POST',
+        headers: await headers(context),
+        body: JSON.stringify(request),
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.error?.message || `API-Fehler: ${response.status}`)
+      }
+
+      return response.json()
+    },
+
+    async *stream(request, context) {
+      const response = await fetch(url(), {
+        method: 'POST',
+        headers: await headers(context),
+        body: JSON.stringify({ ...request, stream: true }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.error?.message || `API-Fehler: ${response.status}`)
+      }
+      if (!response.body) {
+        throw new Error('Streaming wird von diesem Browser nicht unterstützt')
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+
+        // Events are separated by a blank line; only the data lines matter
+        let boundary: number
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+          const chunk = buffer.slice(0, boundary)
+          buffer = buffer.slice(boundary + 2)
+          const data = chunk
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('')
+          if (data) yield JSON.parse(data) as ClaudeStreamEvent
+        }
+      }
+    },
+  }
+}
+
+// Direct calls with a key from the browser; left out of production builds
+const httpTransport = directCallsAllowed
+  ? createFetchTransport(
+      () => CLAUDE_API_URL,
+      async ({ apiKey }) => ({
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey || '',
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true',
+      })
+    )
+  : null
+
+const proxyTransport = createFetchTransport(
+  () => proxyUrl('messages'),
+  async ({ projectId, usage }) => ({
+    'Content-Type': 'application/json',
+    ...(await proxyHeaders(projectId, usage)),
+  }),
+  true
+)
+
+const defaultTransport = isProxyAvailable || !httpTransport ? proxyTransport : httpTransport
+
 export interface CodingResult {
   codings: {
     codeName: string
@@ -37,17 +181,59 @@ export interface CodingResult {
     color: string
   }[]
   summary: string
+  /** Tokens reported by the API over all requests of the run */
+  usage: CodingUsage
+  model: string
 }
 
 class ClaudeClient {
   private apiKey: string | null = null
+  private projectId: string | null = null
+  private usage: UsageLabel | null = null
+  private transport: ClaudeTransport = defaultTransport
+
+  setTransport(transport: ClaudeTransport) {
+    this.transport = transport
+  }
+
+  resetTransport() {
+    this.transport = defaultTransport
+  }
+
+  /**
+   * Project that following requests belong to (required by the proxy)
+   */
+  setProjectId(projectId: string | null) {
+    this.projectId = projectId
+  }
+
+  /**
+   * Method and document that following requests are recorded under in the
+   * proxy's usage ledger; null for requests outside an AI coding run
+   */
+  setUsageLabel(usage: UsageLabel | null) {
+    this.usage = usage
+  }
+
+  /**
+   * API keys are held by the organization on the server, not in the browser;
+   * the proxy also records the usage, so callers do not write the ledger
+   */
+  usesProxy(): boolean {
+    return !!this.transport.proxied
+  }
 
+  /**
+   * Local key for direct calls; development builds without backend only
+   */
   setApiKey(key: string) {
+    if (!directCallsAllowed) return
     this.apiKey = key
     localStorage.setItem('claude-api-key', key)
   }
 
   getApiKey(): string | null {
+    if (!directCallsAllowed) return null
     if (!this.apiKey) {
       this.apiKey = localStorage.getItem('claude-api-key')
     }
@@ -55,6 +241,7 @@ class ClaudeClient {
   }
 
   clearApiKey() {
+    if (!directCallsAllowed) return
     this.apiKey = null
     localStorage.removeItem('claude-api-key')
   }
@@ -63,6 +250,13 @@ class ClaudeClient {
     return !!this.getApiKey()
   }
 
+  /**
+   * Requests can be sent: proxy or offline transport active, or API key configured
+   */
+  isReady(): boolean {
+    return !!this.transport.offline || (!!this.transport.proxied && isProxyAvailable) || this.hasApiKey()
+  }
+
   async sendMessage(
     messages: ClaudeMessage[],
     system?: string,
@@ -72,80 +266,67 @@ class ClaudeClient {
       temperature?: number
     }
   ): Promise<ClaudeResponse> {
-    const apiKey = this.getApiKey()
-    if (!apiKey) {
-      throw new Error('Claude API-Schlüssel nicht konfiguriert')
-    }
-
-    const response = await fetch(CLAUDE_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-        'anthropic-dangerous-direct-browser-access': 'true',
-      },
-      body: JSON.stringify({
+    return this.transport.send(
+      {
         model: options?.model || DEFAULT_MODEL,
         max_tokens: options?.maxTokens || 4096,
         temperature: options?.temperature ?? 0.3,
         system: system,
         messages: messages,
-      }),
-    })
+      },
+      this.requestContext()
+    )
+  }
+
+  /**
+   * Stream a provider-neutral request through the active transport;
+   * tool calls are reported once their input is complete
+   */
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const context = this.requestContext()
+    yield* readAnthropicStream(this.transport.stream(toAnthropicRequest(request, DEFAULT_MODEL), context))
+  }
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}))
-      throw new Error(error.error?.message || `API-Fehler: ${response.status}`)
+  private requestContext(): TransportContext {
+    if (this.transport.proxied) {
+      return { apiKey: null, projectId: this.projectId, usage: this.usage }
     }
 
-    return response.json()
+    const apiKey = this.getApiKey()
+    if (!apiKey && !this.transport.offline) {
+      throw new Error('Claude API-Schlüssel nicht konfiguriert')
+    }
+    return { apiKey, projectId: this.projectId, usage: this.usage }
   }
 }
 
 export const claude = new ClaudeClient()
 
+/**
+ * The Claude client as LLM provider for the coding engine in @evidenra/core
+ */
+export const claudeProvider: LLMProvider = {
+  name: 'anthropic',
+  complete: request => collectStream(claude.stream(request)),
+  stream: request => claude.stream(request),
+}
+
 // ============================================
-// CODING PROMPTS
+// AI CODING
 // ============================================
 
-const CODING_SYSTEM_PROMPT = `Du bist ein Experte für qualitative Datenanalyse und Kodierung. Du analysierst Texte nach wissenschaftlichen Standards der qualitativen Forschung.
-
-WICHTIGE REGELN:
-1. Kodiere nur relevante Textstellen, nicht den gesamten Text
-2. Jede Kodierung muss eine klare Begründung haben
-3. Verwende prägnante, aussagekräftige Code-Namen
-4. Beachte den Kontext der Aussagen
-5. Identifiziere sowohl manifeste als auch latente Bedeutungen
+export type { CodingMethod }
 
-Antworte IMMER im folgenden JSON-Format:
-{
-  "codings": [
-    {
-      "codeName": "Name des Codes",
-      "codeDescription": "Kurze Beschreibung",
-      "selectedText": "Exakter Text aus dem Dokument",
-      "reasoning": "Begründung für diese Kodierung",
-      "confidence": 0.85
-    }
-  ],
-  "suggestedCodes": [
-    {
-      "name": "Code-Name",
-      "description": "Beschreibung",
-      "color": "#hexcolor"
-    }
-  ],
-  "summary": "Kurze Zusammenfassung der Analyse"
-}`
+export type AICoding = CodingResult['codings'][0]
 
-// ============================================
-// CODING METHODS
-// ============================================
-
-export type CodingMethod = 'dynamic-personas' | 'three-expert' | 'calibrated-pattern' | 'ultra-turbo'
+/**
+ * Called for every coding as soon as its tool call has been streamed;
+ * source names the persona/expert pass it came from
+ */
+export type CodingStreamHandler = (coding: AICoding, source: string) => void
 
 interface ExistingCode {
+  id: string
   name: string
   description?: string
   color: string
@@ -155,368 +336,54 @@ export async function runAICoding(
   documentContent: string,
   method: CodingMethod,
   existingCodes: ExistingCode[] = [],
-  onProgress?: (progress: number, status: string) => void
-): Promise<CodingResult> {
-  switch (method) {
-    case 'dynamic-personas':
-      return runDynamicPersonasCoding(documentContent, existingCodes, onProgress)
-    case 'three-expert':
-      return runThreeExpertCoding(documentContent, existingCodes, onProgress)
-    case 'calibrated-pattern':
-      return runCalibratedPatternCoding(documentContent, existingCodes, onProgress)
-    case 'ultra-turbo':
-      return runUltraTurboCoding(documentContent, existingCodes, onProgress)
-    default:
-      throw new Error(`Unbekannte Kodierungsmethode: ${method}`)
-  }
-}
-
-// ============================================
-// DYNAMIC PERSONAS
-// ============================================
-
-async function runDynamicPersonasCoding(
-  content: string,
-  existingCodes: ExistingCode[],
-  onProgress?: (progress: number, status: string) => void
+  onProgress?: (progress: number, status: string) => void,
+  onCoding?: CodingStreamHandler,
+  model: string = DEFAULT_MODEL,
+  exemplars: CodingExemplar[] = []
 ): Promise<CodingResult> {
-  onProgress?.(10, 'Analysiere Dokumenttyp...')
-
-  // Detect content type
-  const contentType = detectContentType(content)
-
-  const personas = [
-    {
-      name: 'Domain-Experte',
-      prompt: `Du bist ein ${contentType === 'interview' ? 'erfahrener Interviewforscher' : 'qualitativer Forscher'}.
-Fokussiere auf tieferliegende Bedeutungen, Emotionen und implizite Annahmen.`,
-    },
+  const codingService = createCodingService({ provider: claudeProvider, model })
+  const result = await codingService.code(
     {
-      name: 'Methodenexperte',
-      prompt: `Du bist ein Methodenexperte für qualitative Forschung.
-Achte auf konsistente Kodierung, klare Abgrenzungen und methodische Stringenz.`,
+      id: 'ai-coding',
+      name: '',
+      content: documentContent,
+      fileType: 'text',
+      wordCount: documentContent.split(/\s+/).filter(Boolean).length,
     },
     {
-      name: 'Kritischer Analyst',
-      prompt: `Du bist ein kritischer Analyst.
-Hinterfrage offensichtliche Interpretationen, suche nach Widersprüchen und alternativen Lesarten.`,
-    },
-  ]
-
-  const allCodings: CodingResult['codings'] = []
-  const allSuggestedCodes: CodingResult['suggestedCodes'] = []
-
-  // Run each persona
-  for (let i = 0; i < personas.length; i++) {
-    const persona = personas[i]
-    onProgress?.(20 + i * 25, `${persona.name} analysiert...`)
-
-    const result = await runSinglePersonaCoding(content, persona.prompt, existingCodes)
-    allCodings.push(...result.codings)
-    allSuggestedCodes.push(...result.suggestedCodes)
-  }
-
-  onProgress?.(90, 'Konsens berechnen...')
-
-  // Find consensus (codings that appear in multiple personas)
-  const consensusCodings = findConsensusCodings(allCodings)
-  const mergedCodes = mergeSuggestedCodes(allSuggestedCodes)
-
-  onProgress?.(100, 'Fertig!')
-
-  return {
-    codings: consensusCodings,
-    suggestedCodes: mergedCodes,
-    summary: `Dynamic Personas Analyse: ${consensusCodings.length} Kodierungen mit Konsens von ${personas.length} Perspektiven.`,
-  }
-}
-
-// ============================================
-// THREE EXPERT SYSTEM
-// ============================================
-
-async function runThreeExpertCoding(
-  content: string,
-  existingCodes: ExistingCode[],
-  onProgress?: (progress: number, status: string) => void
-): Promise<CodingResult> {
-  onProgress?.(10, 'Initialisiere Experten...')
-
-  const experts = [
-    { name: 'Experte 1', temperature: 0.3 },
-    { name: 'Experte 2', temperature: 0.4 },
-    { name: 'Experte 3', temperature: 0.5 },
-  ]
-
-  const allCodings: CodingResult['codings'][] = []
-
-  // Each expert codes independently
-  for (let i = 0; i < experts.length; i++) {
-    const expert = experts[i]
-    onProgress?.(15 + i * 25, `${expert.name} kodiert unabhängig...`)
-
-    const prompt = `Du bist ${expert.name} im Drei-Experten-Kodierungssystem.
-Kodiere den Text unabhängig und gründlich. Deine Kodierungen werden mit anderen Experten verglichen.`
-
-    const result = await runSinglePersonaCoding(content, prompt, existingCodes, expert.temperature)
-    allCodings.push(result.codings)
-  }
-
-  onProgress?.(85, 'Berechne Übereinstimmung...')
-
-  // Find codings where at least 2/3 experts agree
-  const consensusCodings = findMajorityConsensus(allCodings, 2)
-
-  onProgress?.(95, 'Finalisiere Ergebnisse...')
-
-  const allSuggested = allCodings.flat().map(c => ({
-    name: c.codeName,
-    description: c.codeDescription || '',
-    color: generateColor(c.codeName),
-  }))
-
-  onProgress?.(100, 'Fertig!')
-
-  return {
-    codings: consensusCodings,
-    suggestedCodes: mergeSuggestedCodes(allSuggested),
-    summary: `Drei-Experten-System: ${consensusCodings.length} Kodierungen mit mindestens 2/3 Übereinstimmung.`,
-  }
-}
-
-// ============================================
-// CALIBRATED PATTERN CODING
-// ============================================
-
-async function runCalibratedPatternCoding(
-  content: string,
-  existingCodes: ExistingCode[],
-  onProgress?: (progress: number, status: string) => void
-): Promise<CodingResult> {
-  onProgress?.(10, 'Lade bestehende Codes...')
-
-  const codesContext = existingCodes.length > 0
-    ? `\n\nBESTEHENDE CODES (verwende diese bevorzugt):\n${existingCodes.map(c => `- ${c.name}: ${c.description || 'Keine Beschreibung'}`).join('\n')}`
-    : ''
-
-  onProgress?.(30, 'Analysiere Muster...')
-
-  const calibrationPrompt = `Du verwendest kalibrierte Mustererkennung.
-${codesContext}
-
-WICHTIG:
-1. Verwende bestehende Codes wenn möglich
-2. Achte auf konsistente Anwendung der Codes
-3. Neue Codes nur für eindeutig neue Konzepte
-4. Erkläre bei jedem Code, warum er passt`
-
-  const response = await claude.sendMessage(
-    [{ role: 'user', content: `Analysiere und kodiere diesen Text:\n\n${content}` }],
-    CODING_SYSTEM_PROMPT + '\n\n' + calibrationPrompt,
-    { temperature: 0.2 }
+      method,
+      language: 'de',
+      existingCodes,
+      exemplars,
+      onProgress,
+      onCoding: onCoding && ((coding, source) => onCoding(toAICoding(coding), source)),
+    }
   )
 
-  onProgress?.(80, 'Verarbeite Ergebnisse...')
-
-  const result = parseClaudeResponse(response, content)
-
-  onProgress?.(100, 'Fertig!')
-
   return {
-    ...result,
-    summary: `Kalibrierte Mustererkennung: ${result.codings.length} Kodierungen, ${existingCodes.length} bestehende Codes verwendet.`,
+    codings: result.codings.map(coding => toAICoding(coding, result.codes)),
+    suggestedCodes: result.codes.map(code => ({
+      name: code.name,
+      description: code.description || '',
+      color: code.color,
+    })),
+    summary: result.summary || '',
+    usage: result.metadata.usage || { inputTokens: 0, outputTokens: 0, requests: 0 },
+    model: result.metadata.model || model,
   }
 }
 
-// ============================================
-// ULTRA TURBO
-// ============================================
-
-async function runUltraTurboCoding(
-  content: string,
-  existingCodes: ExistingCode[],
-  onProgress?: (progress: number, status: string) => void
-): Promise<CodingResult> {
-  onProgress?.(20, 'Schnellanalyse läuft...')
-
-  const codesContext = existingCodes.length > 0
-    ? `\nBestehende Codes: ${existingCodes.map(c => c.name).join(', ')}`
-    : ''
-
-  const turboPrompt = `ULTRA-TURBO-MODUS: Schnelle explorative Kodierung.
-${codesContext}
-
-Identifiziere die wichtigsten Themen und Konzepte schnell aber gründlich.`
-
-  const response = await claude.sendMessage(
-    [{ role: 'user', content: `Schnellkodierung:\n\n${content}` }],
-    CODING_SYSTEM_PROMPT + '\n\n' + turboPrompt,
-    { temperature: 0.4, maxTokens: 2048 }
-  )
-
-  onProgress?.(80, 'Verarbeite Ergebnisse...')
-
-  const result = parseClaudeResponse(response, content)
-
-  onProgress?.(100, 'Fertig!')
-
+/**
+ * Core codings keep the model's reasoning in `memo`
+ */
+function toAICoding(coding: Coding, codes: Code[] = []): AICoding {
   return {
-    ...result,
-    summary: `Ultra-Turbo: ${result.codings.length} Kodierungen in Schnellanalyse.`,
-  }
-}
-
-// ============================================
-// HELPER FUNCTIONS
-// ============================================
-
-async function runSinglePersonaCoding(
-  content: string,
-  personaPrompt: string,
-  existingCodes: ExistingCode[],
-  temperature: number = 0.3
-): Promise<CodingResult> {
-  const codesContext = existingCodes.length > 0
-    ? `\n\nBestehende Codes zur Referenz:\n${existingCodes.map(c => `- ${c.name}`).join('\n')}`
-    : ''
-
-  const response = await claude.sendMessage(
-    [{ role: 'user', content: `Analysiere und kodiere:\n\n${content}` }],
-    CODING_SYSTEM_PROMPT + '\n\n' + personaPrompt + codesContext,
-    { temperature }
-  )
-
-  return parseClaudeResponse(response, content)
-}
-
-function parseClaudeResponse(response: ClaudeResponse, originalContent: string): CodingResult {
-  try {
-    const text = response.content[0]?.text || '{}'
-
-    // Extract JSON from response (might be wrapped in markdown code blocks)
-    const jsonMatch = text.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      console.warn('No JSON found in response:', text)
-      return { codings: [], suggestedCodes: [], summary: 'Keine Kodierungen gefunden' }
-    }
-
-    const parsed = JSON.parse(jsonMatch[0])
-
-    // Calculate offsets for each coding
-    const codings = (parsed.codings || []).map((c: any) => {
-      const startOffset = originalContent.indexOf(c.selectedText)
-      return {
-        ...c,
-        startOffset: startOffset >= 0 ? startOffset : 0,
-        endOffset: startOffset >= 0 ? startOffset + c.selectedText.length : 0,
-        confidence: c.confidence || 0.7,
-      }
-    }).filter((c: any) => c.startOffset >= 0)
-
-    return {
-      codings,
-      suggestedCodes: (parsed.suggestedCodes || []).map((c: any) => ({
-        name: c.name,
-        description: c.description || '',
-        color: c.color || generateColor(c.name),
-      })),
-      summary: parsed.summary || '',
-    }
-  } catch (err) {
-    console.error('Failed to parse Claude response:', err)
-    return { codings: [], suggestedCodes: [], summary: 'Fehler beim Parsen der Antwort' }
-  }
-}
-
-function detectContentType(content: string): 'interview' | 'focus-group' | 'notes' | 'general' {
-  const lower = content.toLowerCase()
-  if (lower.includes('interviewer:') || lower.includes('frage:') || lower.includes('antwort:')) {
-    return 'interview'
-  }
-  if (lower.includes('teilnehmer') || lower.includes('diskussion') || lower.includes('fokusgruppe')) {
-    return 'focus-group'
-  }
-  if (lower.includes('beobachtung') || lower.includes('feldnotiz')) {
-    return 'notes'
-  }
-  return 'general'
-}
-
-function findConsensusCodings(allCodings: CodingResult['codings']): CodingResult['codings'] {
-  const codingMap = new Map<string, { coding: CodingResult['codings'][0]; count: number }>()
-
-  for (const coding of allCodings) {
-    // Create a key based on selected text and code name similarity
-    const key = `${coding.selectedText.substring(0, 50)}-${coding.codeName.toLowerCase()}`
-    const existing = codingMap.get(key)
-
-    if (existing) {
-      existing.count++
-      // Use the coding with higher confidence
-      if (coding.confidence > existing.coding.confidence) {
-        existing.coding = coding
-      }
-    } else {
-      codingMap.set(key, { coding, count: 1 })
-    }
-  }
-
-  // Return codings that appear more than once (consensus)
-  return Array.from(codingMap.values())
-    .filter(({ count }) => count >= 2)
-    .map(({ coding }) => coding)
-}
-
-function findMajorityConsensus(
-  expertCodings: CodingResult['codings'][],
-  minAgreement: number
-): CodingResult['codings'] {
-  const allCodings = expertCodings.flat()
-  const codingMap = new Map<string, { coding: CodingResult['codings'][0]; count: number }>()
-
-  for (const coding of allCodings) {
-    const key = coding.selectedText.substring(0, 50)
-    const existing = codingMap.get(key)
-
-    if (existing) {
-      existing.count++
-      if (coding.confidence > existing.coding.confidence) {
-        existing.coding = coding
-      }
-    } else {
-      codingMap.set(key, { coding, count: 1 })
-    }
-  }
-
-  return Array.from(codingMap.values())
-    .filter(({ count }) => count >= minAgreement)
-    .map(({ coding }) => ({
-      ...coding,
-      confidence: coding.confidence * (codingMap.get(coding.selectedText.substring(0, 50))?.count || 1) / expertCodings.length,
-    }))
-}
-
-function mergeSuggestedCodes(codes: CodingResult['suggestedCodes']): CodingResult['suggestedCodes'] {
-  const seen = new Map<string, CodingResult['suggestedCodes'][0]>()
-
-  for (const code of codes) {
-    const key = code.name.toLowerCase()
-    if (!seen.has(key)) {
-      seen.set(key, code)
-    }
-  }
-
-  return Array.from(seen.values())
-}
-
-function generateColor(name: string): string {
-  const colors = [
-    '#f59e0b', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899',
-    '#ef4444', '#06b6d4', '#84cc16', '#f97316', '#6366f1',
-  ]
-  let hash = 0
-  for (let i = 0; i < name.length; i++) {
-    hash = name.charCodeAt(i) + ((hash << 5) - hash)
+    codeName: coding.codeName,
+    codeDescription: codes.find(code => code.id === coding.codeId)?.description,
+    selectedText: coding.selectedText,
+    startOffset: coding.startOffset,
+    endOffset: coding.endOffset,
+    reasoning: coding.memo || '',
+    confidence: coding.confidence ?? 0.7,
   }
-  return colors[Math.abs(hash) % colors.length]
 }
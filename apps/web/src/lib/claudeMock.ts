@@ -0,0 +1,147 @@
+/**
+ * Local mock transport for the Claude client
+ *
+ * Answers coding requests offline with deterministic code_segment tool calls,
+ * streamed as the same events the Messages API sends. Use it in tests or
+ * without an API key:
+ *
+ *   claude.setTransport(createMockTransport())
+ */
+
+import type { ClaudeRequest, ClaudeResponse, ClaudeStreamEvent, ClaudeTransport } from './claude'
+
+export interface MockTransportOptions {
+  /** Delay between streamed events in ms (default: 0) */
+  delayMs?: number
+  /** Size of the partial_json chunks (default: 24 characters) */
+  chunkSize?: number
+  /** Fixed answer for non-streaming requests */
+  textResponse?: string
+}
+
+// Keyword rules for documents without matching existing codes
+const KEYWORD_CODES: { pattern: RegExp; name: string; description: string }[] = [
+  { pattern: /frustr|ärger|genervt|verzweifel/i, name: 'Frustration', description: 'Negative Emotionen bei der Nutzung' },
+  { pattern: /einfach|intuitiv|leicht|verständlich/i, name: 'Benutzerfreundlichkeit', description: 'Einfache Bedienbarkeit' },
+  { pattern: /problem|schwierig|fehler|komplex|kompliziert/i, name: 'Herausforderungen', description: 'Probleme und Schwierigkeiten' },
+  { pattern: /wünsch|sollte|besser|verbesser/i, name: 'Verbesserungsvorschläge', description: 'Wünsche und Anregungen' },
+  { pattern: /team|kolleg|zusammen/i, name: 'Zusammenarbeit', description: 'Soziale Aspekte der Arbeit' },
+]
+
+export function createMockTransport(options: MockTransportOptions = {}): ClaudeTransport {
+  const delayMs = options.delayMs ?? 0
+  const chunkSize = Math.max(1, options.chunkSize ?? 24)
+
+  return {
+    offline: true,
+
+    async send(request): Promise<ClaudeResponse> {
+      return {
+        id: 'mock-message',
+        content: [{ type: 'text', text: options.textResponse ?? 'Mock-Antwort' }],
+        model: request.model,
+        usage: { input_tokens: estimateTokens(request), output_tokens: 0 },
+      }
+    },
+
+    async *stream(request): AsyncIterable<ClaudeStreamEvent> {
+      const calls = planToolCalls(request)
+
+      yield {
+        type: 'message_start',
+        message: { id: 'mock-message', model: request.model, usage: { input_tokens: estimateTokens(request), output_tokens: 0 } },
+      }
+
+      let outputTokens = 0
+      for (let index = 0; index < calls.length; index++) {
+        const { name, input } = calls[index]
+        const json = JSON.stringify(input)
+        outputTokens += Math.ceil(json.length / 4)
+
+        await delay(delayMs)
+        yield {
+          type: 'content_block_start',
+          index,
+          content_block: { type: 'tool_use', id: `mock-tool-${index}`, name, input: {} },
+        }
+        for (let i = 0; i < json.length; i += chunkSize) {
+          yield {
+            type: 'content_block_delta',
+            index,
+            delta: { type: 'input_json_delta', partial_json: json.slice(i, i + chunkSize) },
+          }
+        }
+        yield { type: 'content_block_stop', index }
+      }
+
+      yield { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: outputTokens } }
+      yield { type: 'message_stop' }
+    },
+  }
+}
+
+/**
+ * code_segment calls for every sentence matching an existing code or keyword,
+ * followed by finish_coding
+ */
+function planToolCalls(request: ClaudeRequest): { name: string; input: Record<string, unknown> }[] {
+  const prompt = request.messages.map(m => m.content).join('\n')
+  const sentences = Array.from(prompt.matchAll(/^\[(S\d+)\] (.*)$/gm)).map(m => ({ id: m[1], text: m[2] }))
+  const existingCodes = parseExistingCodes(request.system || '')
+  const toolNames = new Set((request.tools || []).map(t => t.name))
+
+  const calls: { name: string; input: Record<string, unknown> }[] = []
+
+  if (toolNames.has('code_segment')) {
+    for (const sentence of sentences) {
+      const lower = sentence.text.toLowerCase()
+      const existing = existingCodes.find(name =>
+        name.toLowerCase().split(/\s+/).some(word => word.length > 3 && lower.includes(word))
+      )
+      const keyword = existing ? null : KEYWORD_CODES.find(rule => rule.pattern.test(sentence.text))
+      if (!existing && !keyword) continue
+
+      calls.push({
+        name: 'code_segment',
+        input: {
+          codeName: existing || keyword!.name,
+          codeDescription: existing ? undefined : keyword!.description,
+          startSentence: sentence.id,
+          endSentence: sentence.id,
+          reasoning: `Schlüsselbegriff in ${sentence.id} (Mock)`,
+          confidence: existing ? 0.9 : 0.75,
+        },
+      })
+    }
+  }
+
+  if (toolNames.has('finish_coding')) {
+    calls.push({
+      name: 'finish_coding',
+      input: { summary: `Mock-Analyse: ${calls.length} Kodierungen in ${sentences.length} Sätzen.` },
+    })
+  }
+
+  return calls
+}
+
+/**
+ * Code names from the "Bestehende Codes" section of the system prompt
+ * (either a "- Name" list or a comma-separated line)
+ */
+function parseExistingCodes(system: string): string[] {
+  const match = system.match(/bestehende codes[^:\n]*:[ \t]*([^\n]*)((?:\n- [^\n]*)*)/i)
+  if (!match) return []
+  const inline = match[1].split(',').map(name => name.trim()).filter(Boolean)
+  const listed = Array.from(match[2].matchAll(/\n- ([^:\n]+)/g)).map(m => m[1].trim())
+  return [...inline, ...listed]
+}
+
+function estimateTokens(request: ClaudeRequest): number {
+  const text = (request.system || '') + request.messages.map(m => m.content).join('')
+  return Math.ceil(text.length / 4)
+}
+
+function delay(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve()
+}
@@ -40,6 +40,7 @@ export interface Database {
           name: string
           slug: string
           logo_url: string | null
+          ai_requests_per_minute: number
           created_at: string
           updated_at: string
         }
@@ -48,11 +49,13 @@ export interface Database {
           name: string
           slug: string
           logo_url?: string | null
+          ai_requests_per_minute?: number
         }
         Update: {
           name?: string
           slug?: string
           logo_url?: string | null
+          ai_requests_per_minute?: number
         }
       }
       organization_members: {
@@ -106,6 +109,11 @@ export interface Database {
           file_path: string | null
           file_type: string
           word_count: number
+          // Free key/value pairs for queries (@gender=f), see migration 033
+          attributes: Record<string, string>
+          // Audio/video documents, file in storage at file_path (migration 034)
+          media_type: 'audio' | 'video' | null
+          media_duration: number | null
           created_by: string
           created_at: string
           updated_at: string
@@ -118,12 +126,16 @@ export interface Database {
           file_path?: string | null
           file_type: string
           word_count?: number
+          attributes?: Record<string, string>
+          media_type?: 'audio' | 'video' | null
+          media_duration?: number | null
           created_by: string
         }
         Update: {
           name?: string
           content?: string | null
           word_count?: number
+          attributes?: Record<string, string>
         }
       }
       codes: {
@@ -166,6 +178,11 @@ export interface Database {
           confidence: number | null
           coding_method: string | null
           coded_by: string
+          round_id: string | null
+          start_time: number | null
+          end_time: number | null
+          region: { x: number; y: number; width: number; height: number } | null
+          consensus_set_id: string | null
           created_at: string
           updated_at: string
         }
@@ -180,12 +197,350 @@ export interface Database {
           confidence?: number | null
           coding_method?: string | null
           coded_by: string
+          round_id?: string | null
+          start_time?: number | null
+          end_time?: number | null
+          region?: { x: number; y: number; width: number; height: number } | null
+          consensus_set_id?: string | null
         }
         Update: {
           memo?: string | null
           confidence?: number | null
         }
       }
+      coding_rounds: {
+        Row: {
+          id: string
+          project_id: string
+          name: string
+          description: string | null
+          status: 'open' | 'closed'
+          starts_at: string
+          ends_at: string | null
+          closed_at: string | null
+          created_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          name: string
+          description?: string | null
+          status?: 'open' | 'closed'
+          starts_at?: string
+          ends_at?: string | null
+          created_by: string
+        }
+        Update: {
+          name?: string
+          description?: string | null
+          status?: 'open' | 'closed'
+          starts_at?: string
+          ends_at?: string | null
+          closed_at?: string | null
+        }
+      }
+      coding_round_documents: {
+        Row: {
+          round_id: string
+          document_id: string
+        }
+        Insert: {
+          round_id: string
+          document_id: string
+        }
+        Update: {
+          round_id?: string
+          document_id?: string
+        }
+      }
+      coding_round_coders: {
+        Row: {
+          round_id: string
+          user_id: string
+        }
+        Insert: {
+          round_id: string
+          user_id: string
+        }
+        Update: {
+          round_id?: string
+          user_id?: string
+        }
+      }
+      consensus_sets: {
+        Row: {
+          id: string
+          project_id: string
+          coder1_id: string
+          coder2_id: string
+          round_id: string | null
+          created_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          coder1_id: string
+          coder2_id: string
+          round_id?: string | null
+          created_by?: string
+        }
+        // Replaced as a whole by replace_consensus_set
+        Update: never
+      }
+      memos: {
+        Row: {
+          id: string
+          project_id: string
+          type: 'coding' | 'document' | 'code' | 'project' | 'free'
+          title: string
+          content: string
+          color: string | null
+          tags: string[]
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          type?: 'coding' | 'document' | 'code' | 'project' | 'free'
+          title: string
+          content: string
+          color?: string | null
+          tags?: string[]
+          created_by: string
+        }
+        Update: {
+          type?: 'coding' | 'document' | 'code' | 'project' | 'free'
+          title?: string
+          content?: string
+          color?: string | null
+          tags?: string[]
+        }
+      }
+      memo_links: {
+        Row: {
+          memo_id: string
+          target_type: 'coding' | 'code' | 'document' | 'memo'
+          target_id: string
+          created_at: string
+        }
+        Insert: {
+          memo_id: string
+          target_type: 'coding' | 'code' | 'document' | 'memo'
+          target_id: string
+        }
+        Update: {
+          target_type?: 'coding' | 'code' | 'document' | 'memo'
+          target_id?: string
+        }
+      }
+      memo_comments: {
+        Row: {
+          id: string
+          memo_id: string
+          content: string
+          created_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          memo_id: string
+          content: string
+          created_by: string
+        }
+        Update: {
+          content?: string
+        }
+      }
+      activities: {
+        Row: {
+          id: string
+          project_id: string
+          user_id: string | null
+          action: 'create' | 'update' | 'delete' | 'restore'
+          entity_type: 'code' | 'coding' | 'document' | 'memo' | 'project'
+          entity_id: string | null
+          entity_name: string | null
+          previous_value: Json | null
+          new_value: Json | null
+          restored_from: string | null
+          metadata: Json
+          prev_hash: string | null
+          hash: string | null
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      ai_usage_ledger: {
+        Row: {
+          id: string
+          project_id: string
+          user_id: string
+          document_id: string | null
+          model: string
+          method: string
+          input_tokens: number
+          output_tokens: number
+          cost_usd: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          user_id?: string
+          document_id?: string | null
+          model: string
+          method: string
+          input_tokens: number
+          output_tokens: number
+          cost_usd: number
+        }
+        Update: never
+      }
+      api_keys: {
+        // encrypted_key and key_hash are not readable by clients
+        Row: {
+          id: string
+          organization_id: string
+          provider: 'anthropic' | 'openai'
+          name: string
+          key_preview: string
+          created_by: string
+          created_at: string
+          last_used_at: string | null
+        }
+        // Written only by the ai-proxy Edge Function
+        Insert: never
+        Update: never
+      }
+      coding_validations: {
+        Row: {
+          id: string
+          coding_id: string
+          project_id: string
+          user_id: string
+          status: 'accepted' | 'modified' | 'rejected'
+          new_code_id: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          coding_id: string
+          // Set by trigger from the coding's document
+          project_id?: string
+          user_id?: string
+          status: 'accepted' | 'modified' | 'rejected'
+          new_code_id?: string | null
+          notes?: string | null
+        }
+        Update: {
+          status?: 'accepted' | 'modified' | 'rejected'
+          new_code_id?: string | null
+          notes?: string | null
+        }
+      }
+      saved_queries: {
+        Row: {
+          id: string
+          project_id: string
+          name: string
+          query: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          name: string
+          query: string
+        }
+        Update: {
+          name?: string
+          query?: string
+        }
+      }
+      transcript_segments: {
+        Row: {
+          id: string
+          document_id: string
+          project_id: string
+          position: number
+          start_time: number
+          end_time: number
+          start_offset: number
+          end_offset: number
+          text: string
+          speaker: string | null
+          words: { start: number; end: number; text: string }[] | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          document_id: string
+          position: number
+          start_time: number
+          end_time: number
+          start_offset: number
+          end_offset: number
+          text: string
+          speaker?: string | null
+          words?: { start: number; end: number; text: string }[] | null
+        }
+        Update: {
+          start_time?: number
+          end_time?: number
+          start_offset?: number
+          end_offset?: number
+          text?: string
+          speaker?: string | null
+          words?: { start: number; end: number; text: string }[] | null
+        }
+      }
+      coding_exemplars: {
+        Row: {
+          id: string
+          project_id: string
+          code_id: string
+          source_coding_id: string | null
+          text: string
+          polarity: 'positive' | 'negative'
+          coding_method: string | null
+          created_at: string
+        }
+        // Maintained by a trigger on coding_validations
+        Insert: never
+        Update: never
+      }
+      ai_budgets: {
+        Row: {
+          id: string
+          project_id: string
+          user_id: string | null
+          limit_usd: number
+          period: 'month' | 'total'
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          user_id?: string | null
+          limit_usd: number
+          period?: 'month' | 'total'
+        }
+        Update: {
+          limit_usd?: number
+          period?: 'month' | 'total'
+        }
+      }
     }
     Views: {
       [_ in never]: never
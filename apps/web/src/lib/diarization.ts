@@ -0,0 +1,390 @@
+/**
+ * Speaker Diarization
+ * Who speaks when: a pyannote service in our own network, or a rough
+ * stand-in running in the browser. Both return pyannote-style turns
+ * ("SPEAKER_00", ...) that are matched onto the transcript segments.
+ */
+
+import { getTranscriptionSettings, WHISPER_SAMPLE_RATE } from './transcriptionProviders'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DiarizationProviderId = 'pyannote-server' | 'browser'
+
+export interface SpeakerTurn {
+  start: number
+  end: number
+  speaker: string
+}
+
+export interface DiarizationRequest {
+  audio: Blob
+  fileName: string
+  /** 16 kHz mono samples, for providers that need them */
+  samples?: Float32Array
+  /** Known number of speakers; null lets the provider estimate it */
+  speakerCount: number | null
+}
+
+export interface DiarizationProvider {
+  id: DiarizationProviderId
+  label: string
+  description: string
+  needsSamples: boolean
+  isAvailable(): boolean
+  diarize(request: DiarizationRequest): Promise<SpeakerTurn[]>
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * Turn in the answer of a pyannote wrapper; some name the speaker `label`
+ */
+interface PyannoteTurn {
+  start: number
+  end: number
+  speaker?: string
+  label?: string
+}
+
+/**
+ * pyannote behind a small HTTP wrapper: POST multipart `file` (and
+ * `num_speakers`), answer `[{start, end, speaker}]` or `{segments: [...]}`
+ */
+const pyannoteServerProvider: DiarizationProvider = {
+  id: 'pyannote-server',
+  label: 'pyannote-Server',
+  description: 'pyannote.audio im eigenen Netz',
+  needsSamples: false,
+
+  isAvailable: () => !!getTranscriptionSettings().diarizationUrl,
+
+  async diarize(request) {
+    const url = getTranscriptionSettings().diarizationUrl
+    const formData = new FormData()
+    formData.append('file', request.audio, request.fileName)
+    if (request.speakerCount) formData.append('num_speakers', String(request.speakerCount))
+
+    const response = await fetch(url, { method: 'POST', body: formData }).catch(() => {
+      throw new Error(`Diarisierungs-Server nicht erreichbar: ${url}`)
+    })
+    if (!response.ok) {
+      throw new Error(`Diarisierung fehlgeschlagen: ${response.status}`)
+    }
+
+    const data: PyannoteTurn[] | { segments?: PyannoteTurn[] } = await response.json()
+    const turns = Array.isArray(data) ? data : data.segments || []
+    return turns.map((turn) => ({
+      start: Number(turn.start) || 0,
+      end: Number(turn.end) || 0,
+      speaker: String(turn.speaker ?? turn.label ?? 'SPEAKER_00'),
+    }))
+  },
+}
+
+const browserDiarizationProvider: DiarizationProvider = {
+  id: 'browser',
+  label: 'Im Browser (Näherung)',
+  description: 'Grobe Sprechertrennung über Klangfarbe, für klar getrennte Stimmen',
+  needsSamples: true,
+
+  isAvailable: () => true,
+
+  async diarize(request) {
+    if (!request.samples) throw new Error('Audio wurde nicht dekodiert')
+    return diarizeSamples(request.samples, WHISPER_SAMPLE_RATE, request.speakerCount)
+  },
+}
+
+export const DIARIZATION_PROVIDERS: DiarizationProvider[] = [pyannoteServerProvider, browserDiarizationProvider]
+
+/**
+ * The pyannote service when configured, otherwise the browser stand-in
+ */
+export function resolveDiarizationProvider(): DiarizationProvider {
+  return pyannoteServerProvider.isAvailable() ? pyannoteServerProvider : browserDiarizationProvider
+}
+
+// ============================================
+// SEGMENT ASSIGNMENT
+// ============================================
+
+/**
+ * Speaker of every transcript segment: the turn overlapping it the longest,
+ * the nearest turn within a second for segments in pauses, otherwise null
+ */
+export function assignSpeakers<T extends { start: number; end: number }>(
+  segments: T[],
+  turns: SpeakerTurn[]
+): (T & { speaker: string | null })[] {
+  return segments.map((segment) => {
+    const overlap = new Map<string, number>()
+    let nearest: { speaker: string; distance: number } | null = null
+
+    for (const turn of turns) {
+      const seconds = Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start)
+      if (seconds > 0) {
+        overlap.set(turn.speaker, (overlap.get(turn.speaker) || 0) + seconds)
+      } else if (!nearest || -seconds < nearest.distance) {
+        nearest = { speaker: turn.speaker, distance: -seconds }
+      }
+    }
+
+    const best = [...overlap.entries()].sort((a, b) => b[1] - a[1])[0]
+    const speaker = best ? best[0] : nearest && nearest.distance <= 1 ? nearest.speaker : null
+    return { ...segment, speaker }
+  })
+}
+
+// ============================================
+// BROWSER STAND-IN
+// ============================================
+// Cepstral features of one-second windows, clustered with k-means. No
+// speaker embeddings, so similar voices and overlapping speech get mixed
+// up - the labels are a starting point for renaming, not a result.
+
+const WINDOW_SECONDS = 1
+const HOP_SECONDS = 0.5
+const FFT_SIZE = 512
+const MEL_BANDS = 20
+const CEPSTRA = 12
+const MAX_ESTIMATED_SPEAKERS = 6
+
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      const r = re[i]
+      re[i] = re[j]
+      re[j] = r
+      const m = im[i]
+      im[i] = im[j]
+      im[j] = m
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k)
+        const wi = Math.sin(angle * k)
+        const a = start + k
+        const b = a + size / 2
+        const tr = re[b] * wr - im[b] * wi
+        const ti = re[b] * wi + im[b] * wr
+        re[b] = re[a] - tr
+        im[b] = im[a] - ti
+        re[a] += tr
+        im[a] += ti
+      }
+    }
+  }
+}
+
+function melFilterbank(sampleRate: number): number[][] {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700)
+  const toHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1)
+  const low = toMel(60)
+  const high = toMel(Math.min(4000, sampleRate / 2))
+  const bins = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    Math.floor(((FFT_SIZE + 1) * toHz(low + ((high - low) * i) / (MEL_BANDS + 1))) / sampleRate)
+  )
+
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const filter = new Array(FFT_SIZE / 2 + 1).fill(0)
+    const [left, center, right] = [bins[band], bins[band + 1], bins[band + 2]]
+    for (let k = left; k < center; k++) filter[k] = (k - left) / Math.max(1, center - left)
+    for (let k = center; k < right; k++) filter[k] = (right - k) / Math.max(1, right - center)
+    return filter
+  })
+}
+
+/**
+ * Cepstral coefficients (without the energy term) and RMS of a window
+ */
+function windowFeatures(window: Float32Array, filterbank: number[][]): { features: number[]; rms: number } {
+  const frames = 4
+  const bandEnergy = new Array(MEL_BANDS).fill(0)
+  let power = 0
+  for (let i = 0; i < window.length; i++) power += window[i] * window[i]
+
+  for (let f = 0; f < frames; f++) {
+    const offset = Math.floor(((window.length - FFT_SIZE) * f) / (frames - 1))
+    const re = new Float64Array(FFT_SIZE)
+    const im = new Float64Array(FFT_SIZE)
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1))
+      re[i] = (window[offset + i] || 0) * hann
+    }
+    fft(re, im)
+    for (let band = 0; band < MEL_BANDS; band++) {
+      const filter = filterbank[band]
+      for (let k = 0; k <= FFT_SIZE / 2; k++) {
+        if (filter[k]) bandEnergy[band] += filter[k] * (re[k] * re[k] + im[k] * im[k])
+      }
+    }
+  }
+
+  const logEnergy = bandEnergy.map((e) => Math.log(e / frames + 1e-10))
+  const features: number[] = []
+  for (let c = 1; c <= CEPSTRA; c++) {
+    let sum = 0
+    for (let band = 0; band < MEL_BANDS; band++) {
+      sum += logEnergy[band] * Math.cos((Math.PI * c * (band + 0.5)) / MEL_BANDS)
+    }
+    features.push(sum)
+  }
+  return { features, rms: Math.sqrt(power / window.length) }
+}
+
+function distance(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2
+  return Math.sqrt(sum)
+}
+
+/**
+ * k-means with farthest-point initialisation, deterministic for the same audio
+ */
+function kMeans(points: number[][], k: number): number[] {
+  const centroids = [points[0]]
+  while (centroids.length < k) {
+    let farthest = 0
+    let farthestDistance = -1
+    points.forEach((point, i) => {
+      const d = Math.min(...centroids.map((c) => distance(point, c)))
+      if (d > farthestDistance) {
+        farthest = i
+        farthestDistance = d
+      }
+    })
+    centroids.push(points[farthest])
+  }
+
+  let labels = new Array(points.length).fill(0)
+  for (let iteration = 0; iteration < 20; iteration++) {
+    const next = points.map((point) => {
+      let best = 0
+      for (let c = 1; c < k; c++) {
+        if (distance(point, centroids[c]) < distance(point, centroids[best])) best = c
+      }
+      return best
+    })
+    const changed = next.some((label, i) => label !== labels[i])
+    labels = next
+    for (let c = 0; c < k; c++) {
+      const members = points.filter((_, i) => labels[i] === c)
+      if (members.length === 0) continue
+      centroids[c] = members[0].map((_, d) => members.reduce((sum, m) => sum + m[d], 0) / members.length)
+    }
+    if (!changed) break
+  }
+  return labels
+}
+
+/**
+ * Mean silhouette of a clustering, on an evenly spaced sample of the points
+ */
+function silhouette(points: number[][], labels: number[], k: number): number {
+  const step = Math.max(1, Math.floor(points.length / 600))
+  const sample = points.map((_, i) => i).filter((i) => i % step === 0)
+  let total = 0
+
+  for (const i of sample) {
+    const sums = new Array(k).fill(0)
+    const counts = new Array(k).fill(0)
+    for (const j of sample) {
+      if (i === j) continue
+      sums[labels[j]] += distance(points[i], points[j])
+      counts[labels[j]]++
+    }
+    const own = counts[labels[i]] ? sums[labels[i]] / counts[labels[i]] : 0
+    const other = Math.min(
+      ...sums.map((sum, c) => (c === labels[i] || !counts[c] ? Infinity : sum / counts[c]))
+    )
+    total += other === Infinity ? 0 : (other - own) / Math.max(own, other)
+  }
+  return total / sample.length
+}
+
+/**
+ * Speaker turns of a recording. Without a speaker count, 2 to 6 speakers
+ * are tried and the clearest clustering wins.
+ */
+export function diarizeSamples(samples: Float32Array, sampleRate: number, speakerCount: number | null): SpeakerTurn[] {
+  const windowLength = Math.round(WINDOW_SECONDS * sampleRate)
+  const hopLength = Math.round(HOP_SECONDS * sampleRate)
+  const filterbank = melFilterbank(sampleRate)
+
+  const windows: { time: number; features: number[]; rms: number }[] = []
+  for (let offset = 0; offset + windowLength <= samples.length; offset += hopLength) {
+    const { features, rms } = windowFeatures(samples.subarray(offset, offset + windowLength), filterbank)
+    windows.push({ time: offset / sampleRate, features, rms })
+  }
+  if (windows.length === 0) return []
+
+  // Pauses carry no voice, they would form a cluster of their own
+  const sortedRms = windows.map((w) => w.rms).sort((a, b) => a - b)
+  const threshold = Math.max(1e-4, 0.3 * sortedRms[Math.floor(sortedRms.length / 2)])
+  const voiced = windows.filter((w) => w.rms >= threshold)
+  if (voiced.length === 0) return []
+
+  // Normalize every coefficient, otherwise the low ones dominate the distance
+  const dimensions = voiced[0].features.length
+  const mean = Array.from({ length: dimensions }, (_, d) => voiced.reduce((s, w) => s + w.features[d], 0) / voiced.length)
+  const std = Array.from({ length: dimensions }, (_, d) =>
+    Math.sqrt(voiced.reduce((s, w) => s + (w.features[d] - mean[d]) ** 2, 0) / voiced.length) || 1
+  )
+  const points = voiced.map((w) => w.features.map((value, d) => (value - mean[d]) / std[d]))
+
+  let labels: number[]
+  if (speakerCount) {
+    labels = kMeans(points, Math.min(speakerCount, points.length))
+  } else {
+    let best = { score: -Infinity, labels: new Array(points.length).fill(0) }
+    for (let k = 2; k <= Math.min(MAX_ESTIMATED_SPEAKERS, points.length - 1); k++) {
+      const candidate = kMeans(points, k)
+      const score = silhouette(points, candidate, k)
+      if (score > best.score) best = { score, labels: candidate }
+    }
+    labels = best.labels
+  }
+
+  // Majority over five windows against single-window flips
+  const smoothed = labels.map((_, i) => {
+    const counts = new Map<number, number>()
+    for (let j = Math.max(0, i - 2); j <= Math.min(labels.length - 1, i + 2); j++) {
+      counts.set(labels[j], (counts.get(labels[j]) || 0) + 1)
+    }
+    let majority = labels[i]
+    for (const [label, count] of counts) {
+      if (count > counts.get(majority)!) majority = label
+    }
+    return majority
+  })
+
+  // Names in order of first appearance, each window stands for its hop around its center
+  const names = new Map<number, string>()
+  const turns: SpeakerTurn[] = []
+  voiced.forEach((window, i) => {
+    if (!names.has(smoothed[i])) names.set(smoothed[i], `SPEAKER_${String(names.size).padStart(2, '0')}`)
+    const speaker = names.get(smoothed[i])!
+    const center = window.time + WINDOW_SECONDS / 2
+    const start = center - HOP_SECONDS / 2
+    const end = center + HOP_SECONDS / 2
+    const last = turns[turns.length - 1]
+    if (last && last.speaker === speaker && start - last.end < 1) {
+      last.end = end
+    } else {
+      turns.push({ start, end, speaker })
+    }
+  })
+  return turns
+}
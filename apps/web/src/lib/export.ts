@@ -1,4 +1,15 @@
 import type { Project, Document, Code, Coding } from '@/stores/projectStore'
+import type { Memo } from '@/stores/memoStore'
+import { writeQDPX } from '@/lib/qdpx'
+import { calculateReliabilityBreakdown, extractCoders, type ReliabilityBreakdownRow } from '@/lib/irr'
+import {
+  codingSpeakers,
+  codingTimeSpan,
+  formatMediaTime,
+  timeRangeForOffsets,
+  type TimeRange,
+  type TranscriptSegment,
+} from '@/lib/mediaSync'
 import {
   generateWatermarkData,
   watermarkCSV,
@@ -14,6 +25,12 @@ export interface ExportData {
   documents: Document[]
   codes: Code[]
   codings: Coding[]
+  memos?: Memo[]
+  members?: { id: string; name: string }[]
+  /** Transcript segments of media documents by document id, for coding timestamps */
+  transcriptSegments?: Record<string, TranscriptSegment[]>
+  /** Original file of a media document, embedded in QDPX archives */
+  loadMediaFile?: (document: Document) => Promise<Blob | null>
 }
 
 // Wasserzeichen-Kontext für Exports
@@ -34,6 +51,20 @@ export function setExportWatermark(
   currentWatermark = generateWatermarkData(userId, userEmail, options)
 }
 
+// Media time of a coding: its own time range, or mapped through the transcript
+function codingTimeRange(coding: Coding, data: ExportData): TimeRange | null {
+  const span = codingTimeSpan(coding)
+  if (span) return span
+  const segments = data.transcriptSegments?.[coding.documentId]
+  return segments ? timeRangeForOffsets(segments, coding.startOffset, coding.endOffset) : null
+}
+
+// Speakers of a coding in a diarized transcript
+function codingSpeakerList(coding: Coding, data: ExportData): string[] {
+  const segments = data.transcriptSegments?.[coding.documentId]
+  return segments ? codingSpeakers(segments, coding) : []
+}
+
 export interface ExportOptions {
   includeDocuments: boolean
   includeCodes: boolean
@@ -54,7 +85,7 @@ export function exportToCSV(data: ExportData, options: ExportOptions): string {
   }
 
   if (options.includeCodings) {
-    sections.push(generateCodingsCSV(data.codings, data.codes, data.documents))
+    sections.push(generateCodingsCSV(data))
   }
 
   if (options.includeDocuments && options.includeMetadata) {
@@ -86,11 +117,12 @@ function generateCodesCSV(codes: Code[]): string {
   return `# CODES\n${header}\n${rows.join('\n')}`
 }
 
-function generateCodingsCSV(codings: Coding[], codes: Code[], documents: Document[]): string {
-  const header = 'Coding ID,Document,Code,Selected Text,Start,End,Memo,Confidence,Method,Created At'
-  const rows = codings.map((coding) => {
-    const code = codes.find((c) => c.id === coding.codeId)
-    const doc = documents.find((d) => d.id === coding.documentId)
+function generateCodingsCSV(data: ExportData): string {
+  const header = 'Coding ID,Document,Code,Selected Text,Start,End,Media Start,Media End,Speaker,Memo,Confidence,Method,Created At'
+  const rows = data.codings.map((coding) => {
+    const code = data.codes.find((c) => c.id === coding.codeId)
+    const doc = data.documents.find((d) => d.id === coding.documentId)
+    const time = codingTimeRange(coding, data)
     return [
       escapeCSV(coding.id),
       escapeCSV(doc?.name || ''),
@@ -98,6 +130,9 @@ function generateCodingsCSV(codings: Coding[], codes: Code[], documents: Documen
       escapeCSV(coding.selectedText),
       coding.startOffset,
       coding.endOffset,
+      time ? formatMediaTime(time.start) : '',
+      time ? formatMediaTime(time.end) : '',
+      escapeCSV(codingSpeakerList(coding, data).join(', ')),
       escapeCSV(coding.memo || ''),
       coding.confidence || '',
       escapeCSV(coding.codingMethod || 'manual'),
@@ -165,6 +200,10 @@ export function exportToJSON(data: ExportData, options: ExportOptions): string {
       selectedText: coding.selectedText,
       startOffset: coding.startOffset,
       endOffset: coding.endOffset,
+      // Seconds in the audio/video file of transcribed media
+      mediaStart: codingTimeRange(coding, data)?.start,
+      mediaEnd: codingTimeRange(coding, data)?.end,
+      speakers: codingSpeakerList(coding, data),
       memo: options.includeMemos ? coding.memo : undefined,
       confidence: coding.confidence,
       codingMethod: coding.codingMethod,
@@ -194,95 +233,11 @@ export function exportToJSON(data: ExportData, options: ExportOptions): string {
 }
 
 // ============================================
-// REFI-QDA XML EXPORT (MAXQDA/Atlas.ti compatible)
+// REFI-QDA PROJECT EXPORT (.qdpx for MAXQDA/Atlas.ti/NVivo)
 // ============================================
 
-export function exportToREFIQDA(data: ExportData, options: ExportOptions): string {
-  const xml: string[] = []
-
-  xml.push('<?xml version="1.0" encoding="UTF-8"?>')
-  xml.push('<Project xmlns="urn:QDA-XML:project:1.0" name="' + escapeXML(data.project.name) + '">')
-  xml.push('  <Users>')
-  xml.push('    <User guid="user-1" name="Evidenra Export"/>')
-  xml.push('  </Users>')
-
-  // Code System
-  if (options.includeCodes) {
-    xml.push('  <CodeBook>')
-    xml.push('    <Codes>')
-
-    // Build code hierarchy
-    const rootCodes = data.codes.filter((c) => !c.parentId)
-    rootCodes.forEach((code) => {
-      xml.push(generateCodeXML(code, data.codes, 3))
-    })
-
-    xml.push('    </Codes>')
-    xml.push('  </CodeBook>')
-  }
-
-  // Sources (Documents)
-  if (options.includeDocuments) {
-    xml.push('  <Sources>')
-    data.documents.forEach((doc) => {
-      xml.push(`    <TextSource guid="${doc.id}" name="${escapeXML(doc.name)}">`)
-      if (doc.content) {
-        xml.push(`      <PlainTextContent>${escapeXML(doc.content)}</PlainTextContent>`)
-      }
-      xml.push('    </TextSource>')
-    })
-    xml.push('  </Sources>')
-  }
-
-  // Codings
-  if (options.includeCodings) {
-    xml.push('  <Coding>')
-    data.codings.forEach((coding) => {
-      const code = data.codes.find((c) => c.id === coding.codeId)
-      xml.push(`    <CodeRef targetGUID="${coding.codeId}">`)
-      xml.push(`      <SourceRef targetGUID="${coding.documentId}">`)
-      xml.push(`        <PlainTextSelection start="${coding.startOffset}" end="${coding.endOffset}"/>`)
-      xml.push('      </SourceRef>')
-      if (options.includeMemos && coding.memo) {
-        xml.push(`      <Note>${escapeXML(coding.memo)}</Note>`)
-      }
-      xml.push('    </CodeRef>')
-    })
-    xml.push('  </Coding>')
-  }
-
-  xml.push('</Project>')
-
-  return xml.join('\n')
-}
-
-function generateCodeXML(code: Code, allCodes: Code[], indent: number): string {
-  const spaces = '  '.repeat(indent)
-  const children = allCodes.filter((c) => c.parentId === code.id)
-  const lines: string[] = []
-
-  lines.push(`${spaces}<Code guid="${code.id}" name="${escapeXML(code.name)}" color="${code.color}">`)
-
-  if (code.description) {
-    lines.push(`${spaces}  <Description>${escapeXML(code.description)}</Description>`)
-  }
-
-  children.forEach((child) => {
-    lines.push(generateCodeXML(child, allCodes, indent + 1))
-  })
-
-  lines.push(`${spaces}</Code>`)
-
-  return lines.join('\n')
-}
-
-function escapeXML(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;')
+export function exportToREFIQDA(data: ExportData, options: ExportOptions): Promise<Blob> {
+  return writeQDPX(data, options)
 }
 
 // ============================================
@@ -335,6 +290,9 @@ export async function exportToExcel(data: ExportData, options: ExportOptions): P
       'Selected Text',
       'Start',
       'End',
+      'Media Start',
+      'Media End',
+      'Speaker',
       'Memo',
       'Confidence',
       'Method',
@@ -343,6 +301,7 @@ export async function exportToExcel(data: ExportData, options: ExportOptions): P
     const codingsData = data.codings.map((coding) => {
       const code = data.codes.find((c) => c.id === coding.codeId)
       const doc = data.documents.find((d) => d.id === coding.documentId)
+      const time = codingTimeRange(coding, data)
       return [
         coding.id,
         doc?.name || '',
@@ -350,6 +309,9 @@ export async function exportToExcel(data: ExportData, options: ExportOptions): P
         coding.selectedText,
         coding.startOffset,
         coding.endOffset,
+        time ? formatMediaTime(time.start) : '',
+        time ? formatMediaTime(time.end) : '',
+        codingSpeakerList(coding, data).join(', '),
         options.includeMemos ? coding.memo || '' : '',
         coding.confidence || '',
         coding.codingMethod || 'manual',
@@ -390,6 +352,42 @@ export async function exportToExcel(data: ExportData, options: ExportOptions): P
     }
   }
 
+  // Reliability Sheets (only with 2+ coders)
+  if (options.includeCodings) {
+    const breakdown = calculateReliabilityBreakdown(extractCoders(data.codings), data.documents, data.codes)
+    if (breakdown) {
+      const metricName = breakdown.metric === 'cohens-kappa' ? "Cohen's Kappa" : "Krippendorff's Alpha"
+      const section = (rows: ReliabilityBreakdownRow[]) => [
+        ['Key', 'Name', metricName, 'Units'],
+        ...rows.map((row) => [row.key, row.label, row.value, row.unitCount]),
+      ]
+
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(section(breakdown.byCode)), 'IRR by Code')
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(section(breakdown.byDocument)), 'IRR by Document')
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(section(breakdown.byCoderPair)), 'IRR by Coder Pair')
+
+      // All confusion matrices below each other
+      const matrices: (string | number)[][] = []
+      const groups: [string, ReliabilityBreakdownRow[]][] = [
+        ['Code', breakdown.byCode],
+        ['Document', breakdown.byDocument],
+        ['Coder Pair', breakdown.byCoderPair],
+      ]
+      groups.forEach(([group, rows]) => {
+        rows.forEach((row) => {
+          matrices.push([`${group}: ${row.label}`, `${metricName} = ${row.value.toFixed(3)}`])
+          if (row.rowCoder && row.columnCoder) {
+            matrices.push([`Rows: ${row.rowCoder}`, `Columns: ${row.columnCoder}`])
+          }
+          matrices.push(['', ...row.categories])
+          row.confusionMatrix.forEach((cells, i) => matrices.push([row.categories[i], ...cells]))
+          matrices.push([])
+        })
+      })
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(matrices), 'Confusion Matrices')
+    }
+  }
+
   // Phase 3: Wasserzeichen hinzufügen
   if (currentWatermark) {
     watermarkXLSX(workbook, currentWatermark, XLSX)
@@ -470,10 +468,9 @@ export async function exportProject(
 
     case 'maxqda':
     case 'atlas': {
-      // Both use REFI-QDA XML format
-      const xml = exportToREFIQDA(data, options)
-      const extension = format === 'maxqda' ? 'qdpx' : 'atlproj'
-      downloadFile(xml, getFilename(extension), 'application/xml')
+      // Both use the REFI-QDA project exchange format
+      const blob = await exportToREFIQDA(data, options)
+      downloadFile(blob, getFilename('qdpx'))
       break
     }
   }
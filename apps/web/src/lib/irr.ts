@@ -1,9 +1,37 @@
 /**
  * Inter-Coder Reliability Calculations
- * Implements Cohen's Kappa, Fleiss' Kappa, Krippendorff's Alpha, and Percent Agreement
+ * Implements Cohen's Kappa, Fleiss' Kappa, Krippendorff's Alpha, Percent Agreement,
+ * Gwet's AC1/AC2, Scott's Pi and unitizing alpha (uα) for free spans
+ *
+ * Segments documents into fixed-size units; the coefficients themselves come
+ * from @evidenra/core so web and core share one implementation.
+ *
+ * Media documents coded on their timeline (no transcript) are a continuum in
+ * milliseconds: their time codings become offsets in ms and their units are
+ * fixed time windows, so temporal overlap decides agreement.
  */
 
+import {
+  CohensKappa,
+  GwetAC,
+  KrippendorffAlpha,
+  NO_CODE,
+  OTHER_CODES,
+  ScottsPi,
+  UnitizingAlpha,
+  bootstrapStatistic,
+  calculateIRRBreakdown,
+  type BreakdownMetric,
+  type BootstrapOptions,
+  type CategoryScale,
+  type CoderRatings,
+  type IRRBreakdownEntry,
+  type IRRConfidenceInterval,
+  type KappaWeighting,
+  type MeasurementLevel,
+} from '@evidenra/core/irr'
 import type { Coding, Code, Document } from '@/stores/projectStore'
+import { isTimeCodedDocument, isTimeCoding, timeRangeLabel } from '@/lib/mediaSync'
 
 export interface CoderData {
   id: string
@@ -19,6 +47,46 @@ export interface IRRResult {
   pairwise?: { coder1: string; coder2: string; value: number }[]
   agreementMatrix?: number[][]
   disagreements?: Disagreement[]
+  confidenceInterval?: IRRConfidenceInterval
+  standardError?: number // Analytic standard error (Gwet's AC1/AC2, Scott's Pi)
+  unitizing?: UnitizingDetails
+}
+
+export interface UnitizingDetails {
+  binaryAlpha: number // |uα|: coded vs. uncoded
+  cuAlpha: number // cuα: codes where units overlap
+  tolerance: number
+  overlapLength: number
+  perCode: { codeId: string; codeName: string; color: string; alpha: number; unitCount: number }[]
+}
+
+export interface ReliabilityBreakdownRow {
+  key: string
+  label: string
+  color?: string
+  value: number
+  unitCount: number
+  categories: string[] // Display names of the confusion matrix rows/columns
+  confusionMatrix: number[][]
+  rowCoder?: string // Coder pairs: coder of the matrix rows
+  columnCoder?: string // Coder pairs: coder of the matrix columns
+}
+
+export interface ReliabilityBreakdown {
+  metric: BreakdownMetric
+  byCode: ReliabilityBreakdownRow[]
+  byDocument: ReliabilityBreakdownRow[]
+  byCoderPair: ReliabilityBreakdownRow[]
+}
+
+export interface IRRCalculationOptions {
+  segmentSize?: number // Characters per segment
+  timeUnitSeconds?: number // Seconds per segment of media documents without transcript
+  bootstrap?: BootstrapOptions
+  level?: MeasurementLevel // Krippendorff's Alpha
+  weighting?: KappaWeighting // Weighted Cohen's Kappa, Scott's Pi and Gwet's AC2
+  tolerance?: number // Unitizing alpha: boundary tolerance in characters (ms on media timelines)
+  resolutions?: Record<string, string | null> // Adjudicated segments (segmentKey -> code)
 }
 
 export interface Disagreement {
@@ -26,11 +94,25 @@ export interface Disagreement {
   documentName: string
   segment: string
   coder1: string
+  coder1Id: string
   coder1Code: string | null
+  coder1CodeId: string | null
   coder2: string
+  coder2Id: string
   coder2Code: string | null
+  coder2CodeId: string | null
   startOffset: number
   endOffset: number
+  // Media documents: the unit's time range in seconds (offsets are ms then)
+  startTime?: number
+  endTime?: number
+}
+
+/**
+ * Key of a coding unit, used to store adjudication decisions per segment
+ */
+export function segmentKey(segment: { documentId: string; startOffset: number; endOffset: number }): string {
+  return `${segment.documentId}:${segment.startOffset}-${segment.endOffset}`
 }
 
 /**
@@ -45,6 +127,80 @@ function interpretKappa(kappa: number): { text: string; color: string } {
   return { text: 'Almost Perfect', color: 'text-primary-400' }
 }
 
+/**
+ * Benchmark scale for Gwet's AC1/AC2 (Altman, 1991, as recommended by Gwet, 2014)
+ */
+function interpretGwet(value: number): { text: string; color: string } {
+  if (value < 0.2) return { text: 'Poor', color: 'text-red-400' }
+  if (value < 0.4) return { text: 'Fair', color: 'text-yellow-400' }
+  if (value < 0.6) return { text: 'Moderate', color: 'text-blue-400' }
+  if (value < 0.8) return { text: 'Good', color: 'text-green-400' }
+  return { text: 'Very Good', color: 'text-primary-400' }
+}
+
+export const CONSENSUS_METHOD = 'consensus'
+
+interface Segment {
+  docId: string
+  start: number
+  end: number
+}
+
+// Time codings are compared on a millisecond continuum
+const MS_PER_SECOND = 1000
+
+function isMediaContinuum(doc: Document): boolean {
+  return isTimeCodedDocument(doc) && !!doc.mediaDuration
+}
+
+/**
+ * Length of a document's continuum: characters, or milliseconds for media
+ * documents without transcript; 0 if there is nothing to code
+ */
+function continuumLength(doc: Document): number {
+  if (isMediaContinuum(doc)) return Math.round(doc.mediaDuration! * MS_PER_SECOND)
+  return doc.content?.length || 0
+}
+
+/**
+ * Split documents into fixed-size character segments (the coding units),
+ * media documents without transcript into fixed time windows
+ */
+function buildSegments(documents: Document[], options: IRRCalculationOptions = {}): Segment[] {
+  const segments: Segment[] = []
+  documents.forEach(doc => {
+    const length = continuumLength(doc)
+    const size = isMediaContinuum(doc)
+      ? (options.timeUnitSeconds || 5) * MS_PER_SECOND
+      : options.segmentSize || 100
+    for (let i = 0; i < length; i += size) {
+      segments.push({
+        docId: doc.id,
+        start: i,
+        end: Math.min(i + size, length),
+      })
+    }
+  })
+  return segments
+}
+
+/**
+ * Codes are ordered as in the code system; numeric code names ("1".."5",
+ * "Stufe 3") provide values for interval/ratio scales.
+ */
+export function getCategoryScale(codes: Code[]): CategoryScale {
+  const values: Record<string, number> = {}
+  codes.forEach(code => {
+    const match = code.name.match(/-?\d+(?:[.,]\d+)?/)
+    if (match) values[code.id] = parseFloat(match[0].replace(',', '.'))
+  })
+
+  return {
+    order: codes.map(c => c.id),
+    values: Object.keys(values).length === codes.length ? values : undefined,
+  }
+}
+
 /**
  * Calculate Cohen's Kappa for two coders
  * Based on segment-level agreement
@@ -54,22 +210,10 @@ export function calculateCohensKappa(
   coder2: CoderData,
   documents: Document[],
   codes: Code[],
-  segmentSize: number = 100 // Characters per segment
+  options: IRRCalculationOptions = {}
 ): IRRResult {
   // Create coding matrix: each segment gets a code assignment from each coder
-  const allSegments: { docId: string; start: number; end: number }[] = []
-
-  documents.forEach(doc => {
-    if (!doc.content) return
-    const contentLength = doc.content.length
-    for (let i = 0; i < contentLength; i += segmentSize) {
-      allSegments.push({
-        docId: doc.id,
-        start: i,
-        end: Math.min(i + segmentSize, contentLength),
-      })
-    }
-  })
+  const allSegments = buildSegments(documents, options)
 
   if (allSegments.length === 0) {
     return {
@@ -80,6 +224,56 @@ export function calculateCohensKappa(
     }
   }
 
+  const scale = getCategoryScale(codes)
+  const { kappa, disagreements } = cohensKappaForSegments(
+    coder1, coder2, allSegments, documents, codes, options.weighting, scale, options.resolutions
+  )
+  const interpretation = interpretKappa(kappa)
+
+  return {
+    metric: 'cohens-kappa',
+    value: kappa,
+    interpretation: interpretation.text,
+    interpretationColor: interpretation.color,
+    disagreements: disagreements.slice(0, 20), // Limit to first 20
+    confidenceInterval: options.bootstrap
+      ? bootstrapStatistic(
+          allSegments,
+          sample => cohensKappaForSegments(
+            coder1, coder2, sample, documents, codes, options.weighting, scale, options.resolutions
+          ).kappa,
+          options.bootstrap
+        )
+      : undefined,
+  }
+}
+
+/**
+ * All segments on which two coders disagree (unlike IRRResult.disagreements, not truncated)
+ */
+export function findDisagreements(
+  coder1: CoderData,
+  coder2: CoderData,
+  documents: Document[],
+  codes: Code[],
+  options: IRRCalculationOptions = {}
+): Disagreement[] {
+  const allSegments = buildSegments(documents, options)
+  return cohensKappaForSegments(
+    coder1, coder2, allSegments, documents, codes, options.weighting, getCategoryScale(codes)
+  ).disagreements
+}
+
+function cohensKappaForSegments(
+  coder1: CoderData,
+  coder2: CoderData,
+  allSegments: Segment[],
+  documents: Document[],
+  codes: Code[],
+  weighting: KappaWeighting | undefined,
+  scale: CategoryScale,
+  resolutions: Record<string, string | null> = {}
+): { kappa: number; disagreements: Disagreement[] } {
   // Get codes for each segment for each coder
   const getCodesForSegment = (codings: Coding[], docId: string, start: number, end: number): string[] => {
     return codings
@@ -90,78 +284,59 @@ export function calculateCohensKappa(
       .map(c => c.codeId)
   }
 
-  let agreements = 0
-  let total = allSegments.length
-  const categoryAgreements: Record<string, { both: number; coder1Only: number; coder2Only: number }> = {}
-
-  codes.forEach(code => {
-    categoryAgreements[code.id] = { both: 0, coder1Only: 0, coder2Only: 0 }
-  })
-  categoryAgreements['none'] = { both: 0, coder1Only: 0, coder2Only: 0 }
-
+  const pairs: [string | null, string | null][] = []
   const disagreements: Disagreement[] = []
 
   allSegments.forEach(segment => {
     const codes1 = getCodesForSegment(coder1.codings, segment.docId, segment.start, segment.end)
     const codes2 = getCodesForSegment(coder2.codings, segment.docId, segment.start, segment.end)
 
-    // For simplicity, take primary code (first one) or 'none'
-    const code1 = codes1[0] || 'none'
-    const code2 = codes2[0] || 'none'
+    // For simplicity, take primary code (first one) or none
+    const code1 = codes1[0] || null
+    const code2 = codes2[0] || null
 
-    if (code1 === code2) {
-      agreements++
-      if (categoryAgreements[code1]) {
-        categoryAgreements[code1].both++
-      }
-    } else {
+    // Adjudicated segments count as agreement on the consensus code
+    const key = segmentKey({ documentId: segment.docId, startOffset: segment.start, endOffset: segment.end })
+    if (key in resolutions) {
+      pairs.push([resolutions[key], resolutions[key]])
+      return
+    }
+    pairs.push([code1, code2])
+
+    if (code1 !== code2) {
       // Record disagreement
       const doc = documents.find(d => d.id === segment.docId)
       const code1Name = codes.find(c => c.id === code1)?.name || 'Keine Kodierung'
       const code2Name = codes.find(c => c.id === code2)?.name || 'Keine Kodierung'
 
+      const media = doc && isMediaContinuum(doc)
+        ? { startTime: segment.start / MS_PER_SECOND, endTime: segment.end / MS_PER_SECOND }
+        : null
+
       disagreements.push({
         documentId: segment.docId,
         documentName: doc?.name || 'Unknown',
-        segment: doc?.content?.substring(segment.start, segment.end) || '',
+        segment: media
+          ? timeRangeLabel({ start: media.startTime, end: media.endTime })
+          : doc?.content?.substring(segment.start, segment.end) || '',
         coder1: coder1.name,
-        coder1Code: code1 === 'none' ? null : code1Name,
+        coder1Id: coder1.id,
+        coder1Code: code1 === null ? null : code1Name,
+        coder1CodeId: code1,
         coder2: coder2.name,
-        coder2Code: code2 === 'none' ? null : code2Name,
+        coder2Id: coder2.id,
+        coder2Code: code2 === null ? null : code2Name,
+        coder2CodeId: code2,
         startOffset: segment.start,
         endOffset: segment.end,
+        ...media,
       })
-
-      if (categoryAgreements[code1]) categoryAgreements[code1].coder1Only++
-      if (categoryAgreements[code2]) categoryAgreements[code2].coder2Only++
     }
   })
 
-  // Calculate observed agreement
-  const Po = agreements / total
-
-  // Calculate expected agreement
-  const codeCategories = [...codes.map(c => c.id), 'none']
-  let Pe = 0
-  codeCategories.forEach(codeId => {
-    const stats = categoryAgreements[codeId] || { both: 0, coder1Only: 0, coder2Only: 0 }
-    const p1 = (stats.both + stats.coder1Only) / total
-    const p2 = (stats.both + stats.coder2Only) / total
-    Pe += p1 * p2
-  })
-
-  // Cohen's Kappa formula
-  const kappa = Pe === 1 ? 1 : (Po - Pe) / (1 - Pe)
-
-  const interpretation = interpretKappa(kappa)
+  const { kappa } = new CohensKappa().calculateFromPairs(pairs, weighting || false, scale)
 
-  return {
-    metric: 'cohens-kappa',
-    value: Math.max(0, Math.min(1, kappa)),
-    interpretation: interpretation.text,
-    interpretationColor: interpretation.color,
-    disagreements: disagreements.slice(0, 20), // Limit to first 20
-  }
+  return { kappa: Math.max(0, Math.min(1, kappa)), disagreements }
 }
 
 /**
@@ -170,8 +345,8 @@ export function calculateCohensKappa(
 export function calculatePercentAgreement(
   coders: CoderData[],
   documents: Document[],
-  codes: Code[],
-  segmentSize: number = 100
+  _codes: Code[],
+  options: IRRCalculationOptions = {}
 ): IRRResult {
   if (coders.length < 2) {
     return {
@@ -183,17 +358,7 @@ export function calculatePercentAgreement(
   }
 
   // Create segments
-  const allSegments: { docId: string; start: number; end: number }[] = []
-  documents.forEach(doc => {
-    if (!doc.content) return
-    for (let i = 0; i < doc.content.length; i += segmentSize) {
-      allSegments.push({
-        docId: doc.id,
-        start: i,
-        end: Math.min(i + segmentSize, doc.content.length),
-      })
-    }
-  })
+  const allSegments = buildSegments(documents, options)
 
   if (allSegments.length === 0) {
     return {
@@ -204,6 +369,29 @@ export function calculatePercentAgreement(
     }
   }
 
+  const { percentAgreement, pairwiseResults } = percentAgreementForSegments(coders, allSegments)
+  const interpretation = interpretKappa(percentAgreement)
+
+  return {
+    metric: 'percent-agreement',
+    value: percentAgreement,
+    interpretation: interpretation.text,
+    interpretationColor: interpretation.color,
+    pairwise: pairwiseResults,
+    confidenceInterval: options.bootstrap
+      ? bootstrapStatistic(
+          allSegments,
+          sample => percentAgreementForSegments(coders, sample).percentAgreement,
+          options.bootstrap
+        )
+      : undefined,
+  }
+}
+
+function percentAgreementForSegments(
+  coders: CoderData[],
+  allSegments: Segment[]
+): { percentAgreement: number; pairwiseResults: { coder1: string; coder2: string; value: number }[] } {
   // Count agreements
   let totalComparisons = 0
   let agreements = 0
@@ -246,25 +434,17 @@ export function calculatePercentAgreement(
 
   const percentAgreement = totalComparisons > 0 ? agreements / totalComparisons : 0
 
-  const interpretation = interpretKappa(percentAgreement)
-
-  return {
-    metric: 'percent-agreement',
-    value: percentAgreement,
-    interpretation: interpretation.text,
-    interpretationColor: interpretation.color,
-    pairwise: pairwiseResults,
-  }
+  return { percentAgreement, pairwiseResults }
 }
 
 /**
- * Calculate Krippendorff's Alpha (simplified nominal version)
+ * Calculate Krippendorff's Alpha (nominal, ordinal, interval or ratio)
  */
 export function calculateKrippendorffsAlpha(
   coders: CoderData[],
   documents: Document[],
   codes: Code[],
-  segmentSize: number = 100
+  options: IRRCalculationOptions = {}
 ): IRRResult {
   if (coders.length < 2) {
     return {
@@ -276,17 +456,7 @@ export function calculateKrippendorffsAlpha(
   }
 
   // Create segments
-  const allSegments: { docId: string; start: number; end: number }[] = []
-  documents.forEach(doc => {
-    if (!doc.content) return
-    for (let i = 0; i < doc.content.length; i += segmentSize) {
-      allSegments.push({
-        docId: doc.id,
-        start: i,
-        end: Math.min(i + segmentSize, doc.content.length),
-      })
-    }
-  })
+  const allSegments = buildSegments(documents, options)
 
   if (allSegments.length === 0) {
     return {
@@ -297,6 +467,45 @@ export function calculateKrippendorffsAlpha(
     }
   }
 
+  const level = options.level || 'nominal'
+  const scale = getCategoryScale(codes)
+  const alpha = krippendorffsAlphaForSegments(coders, allSegments, level, scale)
+
+  if (alpha === null) {
+    return {
+      metric: 'krippendorff-alpha',
+      value: 1,
+      interpretation: 'Perfect',
+      interpretationColor: 'text-primary-400',
+    }
+  }
+
+  const interpretation = interpretKappa(alpha)
+
+  return {
+    metric: 'krippendorff-alpha',
+    value: alpha,
+    interpretation: interpretation.text,
+    interpretationColor: interpretation.color,
+    confidenceInterval: options.bootstrap
+      ? bootstrapStatistic(
+          allSegments,
+          sample => krippendorffsAlphaForSegments(coders, sample, level, scale) ?? NaN,
+          options.bootstrap
+        )
+      : undefined,
+  }
+}
+
+/**
+ * Alpha over the given segments, null if no pairable values exist
+ */
+function krippendorffsAlphaForSegments(
+  coders: CoderData[],
+  allSegments: Segment[],
+  level: MeasurementLevel,
+  scale: CategoryScale
+): number | null {
   const getCodeForSegment = (codings: Coding[], docId: string, start: number, end: number): string | null => {
     const matching = codings.find(c =>
       c.documentId === docId &&
@@ -311,72 +520,302 @@ export function calculateKrippendorffsAlpha(
     coders.map(coder => getCodeForSegment(coder.codings, segment.docId, segment.start, segment.end))
   )
 
-  // Calculate observed disagreement (Do)
-  let Do = 0
-  let totalPairs = 0
+  const result = new KrippendorffAlpha().calculateFromMatrix(reliabilityData, level, scale)
+  if (result.pairableValues < 2) {
+    return null
+  }
 
-  reliabilityData.forEach(row => {
-    const validValues = row.filter(v => v !== null) as string[]
-    for (let i = 0; i < validValues.length; i++) {
-      for (let j = i + 1; j < validValues.length; j++) {
-        if (validValues[i] !== validValues[j]) {
-          Do++
-        }
-        totalPairs++
-      }
+  return Math.max(0, Math.min(1, result.alpha))
+}
+
+/**
+ * Calculate Gwet's AC1 (unweighted) or AC2 (with weighting)
+ * Robust against skewed code distributions, where kappa drops despite high agreement
+ */
+export function calculateGwetAC(
+  coders: CoderData[],
+  documents: Document[],
+  codes: Code[],
+  options: IRRCalculationOptions = {}
+): IRRResult {
+  const metric = options.weighting ? 'gwet-ac2' : 'gwet-ac1'
+  return calculateChanceCorrected(metric, coders, documents, codes, options)
+}
+
+/**
+ * Calculate Scott's Pi (Fleiss' generalization for 3+ coders)
+ */
+export function calculateScottsPi(
+  coders: CoderData[],
+  documents: Document[],
+  codes: Code[],
+  options: IRRCalculationOptions = {}
+): IRRResult {
+  return calculateChanceCorrected('scotts-pi', coders, documents, codes, options)
+}
+
+function calculateChanceCorrected(
+  metric: 'gwet-ac1' | 'gwet-ac2' | 'scotts-pi',
+  coders: CoderData[],
+  documents: Document[],
+  codes: Code[],
+  options: IRRCalculationOptions
+): IRRResult {
+  if (coders.length < 2) {
+    return {
+      metric,
+      value: 0,
+      interpretation: 'Mindestens 2 Kodierer erforderlich',
+      interpretationColor: 'text-surface-400',
     }
-  })
+  }
+
+  const allSegments = buildSegments(documents, options)
 
-  if (totalPairs === 0) {
+  if (allSegments.length === 0) {
     return {
-      metric: 'krippendorff-alpha',
-      value: 1,
-      interpretation: 'Perfect',
-      interpretationColor: 'text-primary-400',
+      metric,
+      value: 0,
+      interpretation: 'Keine Daten',
+      interpretationColor: 'text-surface-400',
     }
   }
 
-  Do = Do / totalPairs
+  const scale = getCategoryScale(codes)
+  const compute = (segments: Segment[]) => {
+    const matrix = segmentMatrix(coders, segments)
+    return metric === 'scotts-pi'
+      ? new ScottsPi().calculateFromMatrix(matrix, options.weighting || null, scale)
+      : new GwetAC().calculateFromMatrix(matrix, options.weighting || null, scale)
+  }
+
+  const result = compute(allSegments)
+  const value = Math.max(0, Math.min(1, result.coefficient))
+  const interpretation = metric === 'scotts-pi' ? interpretKappa(value) : interpretGwet(value)
 
-  // Calculate expected disagreement (De)
-  const allValues = reliabilityData.flat().filter(v => v !== null) as string[]
-  const valueCounts: Record<string, number> = {}
-  allValues.forEach(v => {
-    valueCounts[v] = (valueCounts[v] || 0) + 1
-  })
+  return {
+    metric,
+    value,
+    interpretation: interpretation.text,
+    interpretationColor: interpretation.color,
+    standardError: result.standardError,
+    confidenceInterval: options.bootstrap
+      ? bootstrapStatistic(allSegments, sample => compute(sample).coefficient, options.bootstrap)
+      : undefined,
+  }
+}
 
-  const n = allValues.length
-  let De = 0
-  const categories = Object.keys(valueCounts)
+/**
+ * Segments x coders matrix with the first overlapping code, NO_CODE if uncoded
+ * (uncoded segments are a category, as in Cohen's Kappa)
+ */
+function segmentMatrix(coders: CoderData[], allSegments: Segment[]): string[][] {
+  return allSegments.map(segment =>
+    coders.map(coder => {
+      const matching = coder.codings.find(c =>
+        c.documentId === segment.docId &&
+        c.startOffset < segment.end &&
+        segment.start < c.endOffset
+      )
+      return matching?.codeId || NO_CODE
+    })
+  )
+}
 
-  for (let i = 0; i < categories.length; i++) {
-    for (let j = i + 1; j < categories.length; j++) {
-      const ni = valueCounts[categories[i]]
-      const nj = valueCounts[categories[j]]
-      De += (ni * nj) / (n * (n - 1))
+/**
+ * Calculate Krippendorff's unitizing alpha family (uα, |uα|, cuα and (c|u)α per code)
+ * Works on the coded spans themselves instead of fixed segments
+ */
+export function calculateUnitizingAlpha(
+  coders: CoderData[],
+  documents: Document[],
+  codes: Code[],
+  options: IRRCalculationOptions = {}
+): IRRResult {
+  if (coders.length < 2) {
+    return {
+      metric: 'unitizing-alpha',
+      value: 0,
+      interpretation: 'Mindestens 2 Kodierer erforderlich',
+      interpretationColor: 'text-surface-400',
     }
   }
 
-  // Krippendorff's Alpha
-  const alpha = De === 0 ? 1 : 1 - (Do / De)
+  const continuumLengths: Record<string, number> = {}
+  documents.forEach(doc => {
+    const length = continuumLength(doc)
+    if (length > 0) continuumLengths[doc.id] = length
+  })
 
-  const interpretation = interpretKappa(alpha)
+  const ratings = toCoderRatings(coders, codes).map(rater => ({
+    ...rater,
+    codings: rater.codings.filter(c => continuumLengths[c.documentId] !== undefined),
+  }))
+
+  if (ratings.every(rater => rater.codings.length === 0)) {
+    return {
+      metric: 'unitizing-alpha',
+      value: 0,
+      interpretation: 'Keine Daten',
+      interpretationColor: 'text-surface-400',
+    }
+  }
+
+  const codedDocuments = new Set(ratings.flatMap(rater => rater.codings.map(c => c.documentId)))
+  const tolerance = options.tolerance ?? 0
+  const unitizing = new UnitizingAlpha()
+  const result = unitizing.calculate(ratings, { continuumLengths, tolerance })
+  const clamp = (value: number) => Math.max(0, Math.min(1, value))
+  const interpretation = interpretKappa(result.uAlpha)
+
+  const perCode = codes
+    .filter(code => result.categoryAlphas.has(code.id))
+    .map(code => ({
+      codeId: code.id,
+      codeName: code.name,
+      color: code.color,
+      alpha: clamp(result.categoryAlphas.get(code.id)!),
+      unitCount: ratings.reduce(
+        (sum, rater) => sum + rater.codings.filter(c => c.codeId === code.id).length,
+        0
+      ),
+    }))
 
   return {
-    metric: 'krippendorff-alpha',
-    value: Math.max(0, Math.min(1, alpha)),
+    metric: 'unitizing-alpha',
+    value: clamp(result.uAlpha),
     interpretation: interpretation.text,
     interpretationColor: interpretation.color,
+    unitizing: {
+      binaryAlpha: clamp(result.binaryAlpha),
+      cuAlpha: clamp(result.cuAlpha),
+      tolerance,
+      overlapLength: result.overlapLength,
+      perCode,
+    },
+    // Documents are resampled as a whole, units only make sense within their
+    // continuum; with a single coded document every sample repeats it, so the
+    // interval is reported as unavailable
+    confidenceInterval: options.bootstrap
+      ? bootstrapStatistic(
+          codedDocuments.size > 1 ? Object.keys(continuumLengths) : [],
+          sample => {
+            const lengths: Record<string, number> = {}
+            sample.forEach((docId, draw) => (lengths[`${docId}#${draw}`] = continuumLengths[docId]))
+            const resampled = ratings.map(rater => ({
+              ...rater,
+              codings: sample.flatMap((docId, draw) =>
+                rater.codings
+                  .filter(c => c.documentId === docId)
+                  .map(c => ({ ...c, documentId: `${docId}#${draw}` }))
+              ),
+            }))
+            return clamp(unitizing.calculate(resampled, { continuumLengths: lengths, tolerance }).uAlpha)
+          },
+          options.bootstrap
+        )
+      : undefined,
   }
 }
 
+/**
+ * Reliability per code (one-vs-rest), per document and per coder pair
+ * Uses the same fixed-size segments as the global metrics
+ */
+export function calculateReliabilityBreakdown(
+  coders: CoderData[],
+  documents: Document[],
+  codes: Code[],
+  options: IRRCalculationOptions & { metric?: BreakdownMetric } = {}
+): ReliabilityBreakdown | null {
+  const units = buildSegments(documents, options).map(segment => ({
+    documentId: segment.docId,
+    startOffset: segment.start,
+    endOffset: segment.end,
+  }))
+  if (coders.length < 2 || units.length === 0) return null
+
+  const scale = getCategoryScale(codes)
+  const breakdown = calculateIRRBreakdown(toCoderRatings(coders, codes), {
+    metric: options.metric,
+    units,
+    level: options.level,
+    categoryOrder: scale.order,
+    categoryValues: scale.values,
+  })
+
+  const categoryName = (category: string) => {
+    if (category === NO_CODE) return 'Keine Kodierung'
+    if (category === OTHER_CODES) return 'Andere / keine'
+    return codes.find(c => c.id === category)?.name || category
+  }
+  const toRow = (entry: IRRBreakdownEntry, label: string, color?: string): ReliabilityBreakdownRow => ({
+    key: entry.key,
+    label,
+    color,
+    value: entry.value,
+    unitCount: entry.unitCount,
+    categories: entry.categories.map(categoryName),
+    confusionMatrix: entry.confusionMatrix,
+  })
+  const coderName = (id: string) => coders.find(c => c.id === id)?.name || id
+
+  return {
+    metric: breakdown.metric,
+    byCode: breakdown.byCode.map(entry => {
+      const code = codes.find(c => c.id === entry.key)
+      return toRow(entry, code?.name || entry.key, code?.color)
+    }),
+    byDocument: breakdown.byDocument.map(entry =>
+      toRow(entry, documents.find(d => d.id === entry.key)?.name || entry.key)
+    ),
+    byCoderPair: breakdown.byCoderPair.map(entry => {
+      const [first, second] = entry.coders!
+      return {
+        ...toRow(entry, `${coderName(first)} ↔ ${coderName(second)}`),
+        rowCoder: coderName(first),
+        columnCoder: coderName(second),
+      }
+    }),
+  }
+}
+
+/**
+ * Convert coder data into the rating format of @evidenra/core
+ */
+function toCoderRatings(coders: CoderData[], codes: Code[]): CoderRatings[] {
+  const codeNames = new Map(codes.map(code => [code.id, code.name]))
+
+  return coders.map(coder => ({
+    coderId: coder.id,
+    coderName: coder.name,
+    documentId: '',
+    codings: coder.codings.map(c => ({
+      id: c.id,
+      documentId: c.documentId,
+      codeId: c.codeId,
+      codeName: codeNames.get(c.codeId) || c.codeId,
+      startOffset: c.startOffset,
+      endOffset: c.endOffset,
+      selectedText: c.selectedText,
+      codedBy: c.codedBy,
+      createdAt: c.createdAt,
+    })),
+  }))
+}
+
 /**
  * Get coders from codings data
+ * Consensus codings from adjudication are not a coder of their own.
+ * With a roundId only the codings of that (closed) coding round are used.
+ * Time codings get their range in milliseconds as offsets.
  */
-export function extractCoders(codings: Coding[]): CoderData[] {
+export function extractCoders(codings: Coding[], options: { roundId?: string } = {}): CoderData[] {
   const coderMap = new Map<string, { name: string; codings: Coding[] }>()
 
   codings.forEach(coding => {
+    if (coding.codingMethod === CONSENSUS_METHOD) return
+    if (options.roundId && coding.roundId !== options.roundId) return
     const coderId = coding.codedBy
     if (!coderMap.has(coderId)) {
       // Try to get name from coder ID or use placeholder
@@ -385,7 +824,15 @@ export function extractCoders(codings: Coding[]): CoderData[] {
         : coderId
       coderMap.set(coderId, { name, codings: [] })
     }
-    coderMap.get(coderId)!.codings.push(coding)
+    coderMap.get(coderId)!.codings.push(
+      isTimeCoding(coding)
+        ? {
+            ...coding,
+            startOffset: Math.round(coding.startTime! * MS_PER_SECOND),
+            endOffset: Math.round(coding.endTime! * MS_PER_SECOND),
+          }
+        : coding
+    )
   })
 
   return Array.from(coderMap.entries()).map(([id, data]) => ({
@@ -0,0 +1,353 @@
+/**
+ * Media Sync - maps between transcript text offsets and media time
+ *
+ * Transcript segments store both their time span in the audio/video file and
+ * their character range in the document content. Offsets inside a segment
+ * use the word timestamps where the provider reported them and are
+ * interpolated linearly otherwise, so a coding of half a segment gets the
+ * matching part of its time span.
+ */
+
+import type { TranscriptSegmentRow } from './api'
+import { diffSequences } from './offsetRemap'
+import { formatTimestamp } from './transcription'
+import type { TranscriptWord } from './transcriptionProviders'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TranscriptSegment {
+  id: string
+  position: number
+  startTime: number
+  endTime: number
+  startOffset: number
+  endOffset: number
+  text: string
+  speaker: string | null
+  words: TranscriptWord[] | null
+}
+
+export interface TimeRange {
+  start: number
+  end: number
+}
+
+/** Rectangle in a video frame, normalized to 0..1 */
+export interface MediaRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export function toTranscriptSegments(rows: TranscriptSegmentRow[]): TranscriptSegment[] {
+  return rows
+    .map(row => ({
+      id: row.id,
+      position: row.position,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      startOffset: row.start_offset,
+      endOffset: row.end_offset,
+      text: row.text,
+      speaker: row.speaker ?? null,
+      words: row.words ?? null,
+    }))
+    .sort((a, b) => a.position - b.position)
+}
+
+// ============================================
+// TIME <-> OFFSET
+// ============================================
+
+/**
+ * Segment playing at the given time; between segments the last one started
+ */
+export function segmentAtTime(segments: TranscriptSegment[], time: number): TranscriptSegment | null {
+  let current: TranscriptSegment | null = null
+  for (const segment of segments) {
+    if (segment.startTime > time) break
+    current = segment
+  }
+  return current
+}
+
+/**
+ * Media time of a character offset; offsets between segments (timestamps,
+ * line breaks) snap to the start of the following segment
+ */
+export function offsetToTime(segments: TranscriptSegment[], offset: number): number | null {
+  if (segments.length === 0) return null
+
+  for (const segment of segments) {
+    if (offset < segment.startOffset) return segment.startTime
+    if (offset <= segment.endOffset) {
+      const wordTime = wordTimeAt(segment, offset - segment.startOffset)
+      if (wordTime !== null) return wordTime
+      const length = segment.endOffset - segment.startOffset
+      const ratio = length > 0 ? (offset - segment.startOffset) / length : 0
+      return segment.startTime + ratio * (segment.endTime - segment.startTime)
+    }
+  }
+  return segments[segments.length - 1].endTime
+}
+
+/**
+ * Character range of every word in the segment text; null if the words
+ * don't match the text
+ */
+function wordOffsets(text: string, words: TranscriptWord[]): { start: number; end: number }[] | null {
+  const offsets: { start: number; end: number }[] = []
+  let from = 0
+  for (const word of words) {
+    const start = text.indexOf(word.text, from)
+    if (start === -1) return null
+    from = start + word.text.length
+    offsets.push({ start, end: from })
+  }
+  return offsets
+}
+
+/**
+ * Time of an offset within the segment text by its word timestamps; gaps
+ * between words snap to the next word
+ */
+function wordTimeAt(segment: TranscriptSegment, offset: number): number | null {
+  if (!segment.words?.length) return null
+  const offsets = wordOffsets(segment.text, segment.words)
+  if (!offsets) return null
+
+  for (let i = 0; i < offsets.length; i++) {
+    const word = segment.words[i]
+    if (offset < offsets[i].start) return word.start
+    if (offset <= offsets[i].end) {
+      const length = offsets[i].end - offsets[i].start
+      const ratio = length > 0 ? (offset - offsets[i].start) / length : 0
+      return word.start + ratio * (word.end - word.start)
+    }
+  }
+  return segment.words[segment.words.length - 1].end
+}
+
+/**
+ * Time span of a text range, e.g. a coding; null without transcript segments
+ */
+export function timeRangeForOffsets(
+  segments: TranscriptSegment[],
+  startOffset: number,
+  endOffset: number
+): TimeRange | null {
+  const start = offsetToTime(segments, startOffset)
+  const end = offsetToTime(segments, endOffset)
+  if (start === null || end === null) return null
+  return { start, end: Math.max(start, end) }
+}
+
+// ============================================
+// RE-ALIGNMENT
+// ============================================
+
+function normalizeWord(word: string): string {
+  return word.toLocaleLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+}
+
+/**
+ * Spreads words over a time span by their length
+ */
+function spreadWords(texts: string[], span: TimeRange): TranscriptWord[] {
+  const total = texts.reduce((sum, text) => sum + text.length, 0)
+  const duration = Math.max(0, span.end - span.start)
+  let time = span.start
+  return texts.map(text => {
+    const length = total > 0 ? (duration * text.length) / total : 0
+    const word = { start: time, end: time + length, text }
+    time += length
+    return word
+  })
+}
+
+/**
+ * Word timestamps for a corrected segment text. Words the correction kept
+ * (ignoring case and punctuation) keep their timestamps; new or changed
+ * words share the time between their kept neighbours. Without usable word
+ * timestamps the words are spread over the segment.
+ */
+export function realignWords(
+  oldText: string,
+  newText: string,
+  words: TranscriptWord[] | null,
+  span: TimeRange
+): TranscriptWord[] {
+  const newTexts = newText.split(/\s+/).filter(Boolean)
+  const oldWords =
+    words?.length && wordOffsets(oldText, words) ? words : spreadWords(oldText.split(/\s+/).filter(Boolean), span)
+
+  const aligned: (TranscriptWord | undefined)[] = new Array(newTexts.length)
+  const matches = diffSequences(oldWords.map(w => normalizeWord(w.text)), newTexts.map(normalizeWord)) || []
+  for (const [i, j] of matches) {
+    aligned[j] = { start: oldWords[i].start, end: oldWords[i].end, text: newTexts[j] }
+  }
+
+  let j = 0
+  while (j < newTexts.length) {
+    if (aligned[j]) {
+      j++
+      continue
+    }
+    let first = j
+    let last = j
+    while (last < newTexts.length && !aligned[last]) last++
+    const timeAt = (from: number, to: number) => ({
+      start: from > 0 ? aligned[from - 1]!.end : span.start,
+      end: to < newTexts.length ? aligned[to]!.start : span.end,
+    })
+    // No time left between the kept neighbours: share the time of one of them
+    const gap = timeAt(first, last)
+    if (gap.end <= gap.start) {
+      if (first > 0) first--
+      else if (last < newTexts.length) last++
+    }
+    const range = timeAt(first, last)
+    spreadWords(newTexts.slice(first, last), { start: range.start, end: Math.max(range.start, range.end) }).forEach(
+      (word, k) => {
+        aligned[first + k] = word
+      }
+    )
+    j = last
+  }
+
+  return aligned as TranscriptWord[]
+}
+
+// ============================================
+// TIME CODINGS
+// ============================================
+
+/**
+ * Media document coded directly on its timeline - no transcript to code in
+ */
+export function isTimeCodedDocument(document: {
+  content: string | null
+  mediaType?: 'audio' | 'video' | null
+}): boolean {
+  return !!document.mediaType && !document.content?.trim()
+}
+
+/**
+ * Coding on a time range instead of a text range
+ */
+export function isTimeCoding(coding: { startTime?: number | null; endTime?: number | null }): boolean {
+  return coding.startTime != null && coding.endTime != null
+}
+
+export function codingTimeSpan(coding: { startTime?: number | null; endTime?: number | null }): TimeRange | null {
+  if (coding.startTime == null || coding.endTime == null) return null
+  return { start: coding.startTime, end: coding.endTime }
+}
+
+/**
+ * Whether two time ranges overlap; with a tolerance, ranges up to
+ * `tolerance` seconds apart count as well (co-occurrence "nearby")
+ */
+export function timeRangesOverlap(a: TimeRange, b: TimeRange, tolerance = 0): boolean {
+  return a.start < b.end + tolerance && b.start < a.end + tolerance
+}
+
+export function overlapSeconds(a: TimeRange, b: TimeRange): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start))
+}
+
+/**
+ * Label stored as selected_text of a time coding, e.g. "[01:05.2–01:12.0]"
+ */
+export function timeRangeLabel(range: TimeRange): string {
+  return `[${formatMediaTime(range.start)}–${formatMediaTime(range.end)}]`
+}
+
+/**
+ * Clamp a region to the frame; null if nothing of it is left
+ */
+export function normalizeRegion(region: MediaRegion): MediaRegion | null {
+  const x = Math.min(Math.max(region.x, 0), 1)
+  const y = Math.min(Math.max(region.y, 0), 1)
+  const width = Math.min(region.x + region.width, 1) - x
+  const height = Math.min(region.y + region.height, 1) - y
+  if (width <= 0.01 || height <= 0.01) return null
+  return { x, y, width, height }
+}
+
+/**
+ * Loudest sample per bucket, scaled so the loudest bucket is 1 - the
+ * waveform of the coding timeline
+ */
+export function waveformPeaks(samples: Float32Array, buckets: number): number[] {
+  const size = Math.max(1, Math.floor(samples.length / buckets))
+  const peaks: number[] = []
+  let max = 0
+  for (let b = 0; b < buckets; b++) {
+    let peak = 0
+    const end = Math.min(samples.length, (b + 1) * size)
+    for (let i = b * size; i < end; i++) {
+      const value = Math.abs(samples[i])
+      if (value > peak) peak = value
+    }
+    peaks.push(peak)
+    if (peak > max) max = peak
+  }
+  return max > 0 ? peaks.map(p => p / max) : peaks
+}
+
+// ============================================
+// SPEAKERS
+// ============================================
+
+/**
+ * Speakers of the segments a coding touches - by text range, or by time for
+ * time codings
+ */
+export function codingSpeakers(
+  segments: TranscriptSegment[],
+  coding: { startOffset: number; endOffset: number; startTime?: number | null; endTime?: number | null }
+): string[] {
+  const span = codingTimeSpan(coding)
+  const touched = segments.filter(segment =>
+    span
+      ? timeRangesOverlap(span, { start: segment.startTime, end: segment.endTime })
+      : segment.startOffset < coding.endOffset && coding.startOffset < segment.endOffset
+  )
+  return [...new Set(touched.map(segment => segment.speaker).filter((s): s is string => !!s))]
+}
+
+/**
+ * All speakers of a project, sorted by name
+ */
+export function projectSpeakers(segmentsByDocument: Record<string, TranscriptSegment[]>): string[] {
+  const speakers = Object.values(segmentsByDocument).flatMap(segments => segments.map(s => s.speaker))
+  return [...new Set(speakers.filter((s): s is string => !!s))].sort((a, b) => a.localeCompare(b))
+}
+
+// ============================================
+// EXPORT HELPERS
+// ============================================
+
+/**
+ * Segments grouped by document id, for exports over the whole project
+ */
+export function groupSegmentsByDocument(rows: TranscriptSegmentRow[]): Record<string, TranscriptSegment[]> {
+  const byDocument: Record<string, TranscriptSegmentRow[]> = {}
+  for (const row of rows) {
+    byDocument[row.document_id] = [...(byDocument[row.document_id] || []), row]
+  }
+  return Object.fromEntries(
+    Object.entries(byDocument).map(([documentId, docRows]) => [documentId, toTranscriptSegments(docRows)])
+  )
+}
+
+/**
+ * Timestamp with tenths of a second, precise enough to find a coding again
+ */
+export function formatMediaTime(seconds: number): string {
+  return `${formatTimestamp(seconds)}.${Math.floor((seconds % 1) * 10)}`
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { diffText, remapRange } from './offsetRemap'
+
+/**
+ * Codings follow an edit of their document: where their text moved, and
+ * nowhere when it is gone
+ */
+
+// Range of `part` in `text`, the first occurrence after `from`
+function rangeOf(text: string, part: string, from = 0) {
+  const start = text.indexOf(part, from)
+  if (start < 0) throw new Error(`"${part}" not in text`)
+  return { start, end: start + part.length }
+}
+
+function remap(oldText: string, newText: string, part: string, absorb = false) {
+  const { start, end } = rangeOf(oldText, part)
+  const range = remapRange(diffText(oldText, newText), start, end, absorb)
+  return range && newText.slice(range.start, range.end)
+}
+
+describe('diffText', () => {
+  it('finds no edits in an unchanged text', () => {
+    expect(diffText('Das Haus steht.', 'Das Haus steht.')).toEqual([])
+  })
+
+  it('narrows a corrected word down to the changed letters', () => {
+    expect(diffText('Das Hauss steht.', 'Das Haus steht.')).toEqual([
+      { oldStart: 8, oldEnd: 9, newStart: 8, newEnd: 8 },
+    ])
+  })
+})
+
+describe('remapRange', () => {
+  it('moves a coding behind inserted text', () => {
+    expect(remap('Sie sagt: Ich bin müde.', 'Gestern sagt sie: Ich bin müde.', 'Ich bin müde')).toBe('Ich bin müde')
+  })
+
+  it('keeps a coding on its word when a typo in it is corrected', () => {
+    expect(remap('Das Hauss steht leer.', 'Das Haus steht leer.', 'Hauss steht')).toBe('Haus steht')
+  })
+
+  it('leaves text typed at the edge of a coding outside, a segment takes it in', () => {
+    const oldText = 'Ich bin müde.'
+    const newText = 'Ich bin sehr müde.'
+    expect(remap(oldText, newText, 'müde')).toBe('müde')
+    expect(remap(oldText, newText, 'bin ', true)).toBe('bin sehr ')
+  })
+
+  it('drops a coding whose text was deleted', () => {
+    expect(remap('Ich bin sehr müde.', 'Ich bin müde.', 'sehr')).toBeNull()
+  })
+
+  it('moves a coding of exactly the replaced text onto the replacement', () => {
+    expect(remap('Der Hund bellt.', 'Der Vogel bellt.', 'Hund')).toBe('Vogel')
+  })
+
+  it('drops a coding inside replaced text instead of stretching it', () => {
+    const oldText = 'Sie meinte, das Essen war kalt und teuer, und ging.'
+    const newText = 'Sie meinte, der Abend war schön, und ging.'
+    expect(remap(oldText, newText, 'kalt')).toBeNull()
+    expect(remap(oldText, newText, 'und ging')).toBe('und ging')
+  })
+
+  it('still finds unchanged text when too many words changed for a word diff', () => {
+    // Every other line rewritten: more changed words than the word diff
+    // follows, few enough changed lines for the line diff
+    const lines = Array.from({ length: 1200 }, (_, i) => `Zeile ${i} alpha beta gamma delta.\n`)
+    const rewritten = lines.map((line, i) => (i % 2 ? `Zeile ${i} eins zwei drei vier fünf.\n` : line))
+    const oldText = lines.join('')
+    const newText = rewritten.join('')
+    const edits = diffText(oldText, newText)
+
+    const kept = rangeOf(oldText, 'Zeile 600 alpha beta')
+    const keptRange = remapRange(edits, kept.start, kept.end)!
+    expect(newText.slice(keptRange.start, keptRange.end)).toBe('Zeile 600 alpha beta')
+
+    const replaced = rangeOf(oldText, 'beta', rangeOf(oldText, 'Zeile 601 ').start)
+    expect(remapRange(edits, replaced.start, replaced.end)).toBeNull()
+  })
+
+  it('drops a coding inside a rewrite too long for any diff instead of stretching it', () => {
+    const words = (prefix: string) => Array.from({ length: 2500 }, (_, i) => `${prefix}${i}`).join(' ')
+    const oldText = `Anfang. ${words('alt')} Ende.`
+    const newText = `Anfang. ${words('neu')} Ende.`
+    const edits = diffText(oldText, newText)
+
+    const inside = rangeOf(oldText, 'alt1200 alt1201')
+    expect(remapRange(edits, inside.start, inside.end)).toBeNull()
+    const outside = rangeOf(oldText, 'Ende.')
+    const range = remapRange(edits, outside.start, outside.end)!
+    expect(newText.slice(range.start, range.end)).toBe('Ende.')
+  })
+})
@@ -0,0 +1,315 @@
+/**
+ * Offset Remapping
+ * Word-level diff of two versions of a text and the mapping of character
+ * offsets from the old version into the new one. Codings, transcript
+ * segments and anything else anchored on offsets follow an edit of the
+ * document instead of pointing at whatever text now sits at their old place.
+ *
+ * Texts that differ in too many words for a word diff are compared line by
+ * line first, and the changed lines word by word. A range inside text that
+ * was replaced as a whole has no new position; it is dropped rather than
+ * stretched over the replacement.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Changed region: old[oldStart, oldEnd) became new[newStart, newEnd) */
+export interface TextEdit {
+  oldStart: number
+  oldEnd: number
+  newStart: number
+  newEnd: number
+}
+
+export interface OffsetRange {
+  start: number
+  end: number
+}
+
+interface Token {
+  text: string
+  start: number
+}
+
+/** Beyond this many changed tokens the texts count as rewritten */
+const MAX_EDIT_DISTANCE = 4000
+
+/** Longer replacements are rewrites, a letter-level diff would only find noise */
+const MAX_REFINE_LENGTH = 200
+
+// ============================================
+// DIFF
+// ============================================
+
+/**
+ * Index pairs of the elements both sequences keep (longest common
+ * subsequence, Myers' algorithm); null when they differ in more than
+ * MAX_EDIT_DISTANCE elements
+ */
+export function diffSequences<T>(a: T[], b: T[]): [number, number][] | null {
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const matches: [number, number][] = []
+  for (let i = 0; i < prefix; i++) matches.push([i, i])
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix))
+  if (!middle) return null
+  for (const [i, j] of middle) matches.push([i + prefix, j + prefix])
+  for (let k = suffix; k > 0; k--) matches.push([a.length - k, b.length - k])
+  return matches
+}
+
+function myers<T>(a: T[], b: T[]): [number, number][] | null {
+  const n = a.length
+  const m = b.length
+  if (n === 0 || m === 0) return []
+
+  const max = n + m
+  const v = new Int32Array(2 * max + 2)
+  // Furthest x per diagonal before each step, only diagonals -d..d are read back
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(max - d, max + d + 1))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[max + k - 1] < v[max + k + 1]) ? v[max + k + 1] : v[max + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[max + k] = x
+      if (x >= n && y >= m) return backtrack(trace, n, m)
+    }
+  }
+  return null
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): [number, number][] {
+  const matches: [number, number][] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const row = trace[d]
+    const at = (k: number) => row[k + d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = d === 0 ? 0 : at(prevK)
+    const prevY = d === 0 ? 0 : prevX - prevK
+    while (x > prevX && y > prevY) {
+      x--
+      y--
+      matches.push([x, y])
+    }
+    x = prevX
+    y = prevY
+  }
+  return matches.reverse()
+}
+
+/**
+ * Words and punctuation with the whitespace after them; spaces alone would
+ * anchor the diff between unrelated words
+ */
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+\s*|[^\p{L}\p{N}\s]\s*|\s+/gu)].map((match) => ({
+    text: match[0],
+    start: match.index!,
+  }))
+}
+
+/**
+ * Lines with their line break
+ */
+function splitLines(text: string): Token[] {
+  return [...text.matchAll(/[^\n]*\n|[^\n]+/g)].map((match) => ({ text: match[0], start: match.index! }))
+}
+
+/**
+ * Edits between the unmatched stretches of two sequences; `oldAt`/`newAt`
+ * give the text offset of an element index
+ */
+function editsBetweenMatches(
+  matches: [number, number][],
+  oldLength: number,
+  newLength: number,
+  oldAt: (index: number) => number,
+  newAt: (index: number) => number
+): TextEdit[] {
+  const edits: TextEdit[] = []
+  let i = 0
+  let j = 0
+  for (const [matchA, matchB] of [...matches, [oldLength, newLength] as [number, number]]) {
+    if (matchA > i || matchB > j) {
+      edits.push({ oldStart: oldAt(i), oldEnd: oldAt(matchA), newStart: newAt(j), newEnd: newAt(matchB) })
+    }
+    i = matchA + 1
+    j = matchB + 1
+  }
+  return edits
+}
+
+/**
+ * Splits a replacement by characters, so a corrected typo ("Hauss" -> "Haus")
+ * keeps the letters it shares with the old word. Letters shared at both ends
+ * always stay outside the edit; in between, replacements sharing less than
+ * half their letters are rewritten text and stay whole, their letters in
+ * common are chance.
+ */
+function refineEdit(oldText: string, newText: string, edit: TextEdit): TextEdit[] {
+  const trimmed = replaceMiddle(
+    oldText.slice(edit.oldStart, edit.oldEnd),
+    newText.slice(edit.newStart, edit.newEnd),
+    edit.oldStart,
+    edit.newStart
+  )
+  const oldPart = oldText.slice(trimmed.oldStart, trimmed.oldEnd)
+  const newPart = newText.slice(trimmed.newStart, trimmed.newEnd)
+  if (!oldPart || !newPart || oldPart.length + newPart.length > MAX_REFINE_LENGTH) return [trimmed]
+
+  const matches = diffSequences(oldPart.split(''), newPart.split(''))
+  if (!matches || matches.length * 2 < Math.max(oldPart.length, newPart.length)) return [trimmed]
+  return editsBetweenMatches(
+    matches,
+    oldPart.length,
+    newPart.length,
+    (i) => trimmed.oldStart + i,
+    (j) => trimmed.newStart + j
+  )
+}
+
+/**
+ * Edits between two stretches of text split into the given units, with
+ * offsets relative to `oldBase`/`newBase`; null when they differ too much
+ */
+function diffUnits(
+  oldText: string,
+  newText: string,
+  split: (text: string) => Token[],
+  oldBase = 0,
+  newBase = 0
+): TextEdit[] | null {
+  const a = split(oldText)
+  const b = split(newText)
+  const matches = diffSequences(a.map((t) => t.text), b.map((t) => t.text))
+  if (!matches) return null
+  return editsBetweenMatches(
+    matches,
+    a.length,
+    b.length,
+    (i) => oldBase + (i < a.length ? a[i].start : oldText.length),
+    (j) => newBase + (j < b.length ? b[j].start : newText.length)
+  )
+}
+
+/**
+ * One edit over everything between the common start and end of both texts
+ */
+function replaceMiddle(oldText: string, newText: string, oldBase = 0, newBase = 0): TextEdit {
+  let prefix = 0
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+  return {
+    oldStart: oldBase + prefix,
+    oldEnd: oldBase + oldText.length - suffix,
+    newStart: newBase + prefix,
+    newEnd: newBase + newText.length - suffix,
+  }
+}
+
+/**
+ * Changed lines, compared word by word; a block of lines that is still too
+ * different stays one replacement
+ */
+function diffChangedLines(oldText: string, newText: string): TextEdit[] {
+  const blocks = diffUnits(oldText, newText, splitLines)
+  if (!blocks) return [replaceMiddle(oldText, newText)]
+
+  return blocks.flatMap((block) => {
+    const oldPart = oldText.slice(block.oldStart, block.oldEnd)
+    const newPart = newText.slice(block.newStart, block.newEnd)
+    return (
+      diffUnits(oldPart, newPart, tokenize, block.oldStart, block.newStart) ??
+      [replaceMiddle(oldPart, newPart, block.oldStart, block.newStart)]
+    )
+  })
+}
+
+/**
+ * Changed regions between two versions of a text; words are compared as a
+ * whole first, replaced words then letter by letter. When too many words
+ * changed, the changed lines are found first.
+ */
+export function diffText(oldText: string, newText: string): TextEdit[] {
+  if (oldText === newText) return []
+
+  const edits = diffUnits(oldText, newText, tokenize) ?? diffChangedLines(oldText, newText)
+  return edits.flatMap((edit) => refineEdit(oldText, newText, edit))
+}
+
+// ============================================
+// REMAPPING
+// ============================================
+
+/**
+ * New position of an offset. Offsets inside replaced text move to the edge
+ * of the replacement that keeps a range widest. Text inserted exactly at a
+ * range edge stays outside the range (codings don't grow into a neighbouring
+ * word) unless `absorb` is set (segments, which tile the text, take it in).
+ */
+export function remapOffset(
+  edits: TextEdit[],
+  offset: number,
+  side: 'start' | 'end',
+  absorb = false
+): number {
+  let delta = 0
+  for (const edit of edits) {
+    if (offset < edit.oldStart) return offset + delta
+    if (edit.oldStart === edit.oldEnd && offset === edit.oldStart) {
+      return (side === 'start') === absorb ? edit.newStart : edit.newEnd
+    }
+    if (offset === edit.oldStart) return edit.newStart
+    if (offset < edit.oldEnd) return side === 'start' ? edit.newStart : edit.newEnd
+    delta += edit.newEnd - edit.newStart - (edit.oldEnd - edit.oldStart)
+  }
+  return offset + delta
+}
+
+/**
+ * New position of a range; null when all of its text was deleted, or when it
+ * lies inside text that was replaced as a whole (unless `absorb` is set):
+ * nothing in the replacement corresponds to it
+ */
+export function remapRange(edits: TextEdit[], start: number, end: number, absorb = false): OffsetRange | null {
+  if (edits.length === 0) return { start, end }
+  const swallowed = edits.some(
+    (edit) =>
+      edit.oldStart <= start &&
+      end <= edit.oldEnd &&
+      (edit.oldStart < start || end < edit.oldEnd)
+  )
+  if (swallowed && !absorb) return null
+  const newStart = remapOffset(edits, start, 'start', absorb)
+  const newEnd = remapOffset(edits, end, 'end', absorb)
+  if (newEnd <= newStart && end > start) return null
+  return { start: newStart, end: Math.max(newStart, newEnd) }
+}
@@ -0,0 +1,213 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import JSZip from 'jszip'
+import { PROJECT_FILE, parseQDPX, writeQDPX } from './qdpx'
+import type { ExportData, ExportOptions } from './export'
+
+/**
+ * QDPX round trip: what we export has to come back unchanged on import
+ */
+
+const ALL: ExportOptions = {
+  includeDocuments: true,
+  includeCodes: true,
+  includeCodings: true,
+  includeMemos: true,
+  includeMetadata: true,
+}
+
+const IDS = {
+  user: '0b7d1a52-5c36-4f6e-9a51-2f0d6d3c1a01',
+  document: '0b7d1a52-5c36-4f6e-9a51-2f0d6d3c1a02',
+  parentCode: '0b7d1a52-5c36-4f6e-9a51-2f0d6d3c1a03',
+  childCode: '0b7d1a52-5c36-4f6e-9a51-2f0d6d3c1a04',
+  firstCoding: '0b7d1a52-5c36-4f6e-9a51-2f0d6d3c1a05',
+  secondCoding: '0b7d1a52-5c36-4f6e-9a51-2f0d6d3c1a06',
+  codeMemo: '0b7d1a52-5c36-4f6e-9a51-2f0d6d3c1a07',
+  codingMemo: '0b7d1a52-5c36-4f6e-9a51-2f0d6d3c1a08',
+  documentMemo: '0b7d1a52-5c36-4f6e-9a51-2f0d6d3c1a09',
+}
+
+// Emoji before the codings: REFI-QDA counts code points, JavaScript UTF-16 units
+const CONTENT = 'Interview 🎙️ mit B1: "Ich fühle mich im Team <gut> aufgehoben & unterstützt."'
+
+function quote(text: string) {
+  const startOffset = CONTENT.indexOf(text)
+  return { startOffset, endOffset: startOffset + text.length, selectedText: text }
+}
+
+function exportData(): ExportData {
+  const now = '2026-03-01T10:00:00.000Z'
+  const memo = {
+    projectId: 'project-1',
+    links: [],
+    tags: [],
+    createdBy: IDS.user,
+    createdByName: 'Anna Beispiel',
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  return {
+    project: {
+      id: 'project-1',
+      name: 'Teamklima',
+      description: 'Interviews zur Zusammenarbeit',
+      organizationId: 'org-1',
+      createdAt: now,
+      updatedAt: now,
+    },
+    documents: [
+      {
+        id: IDS.document,
+        projectId: 'project-1',
+        name: 'Interview B1',
+        content: CONTENT,
+        fileType: 'text',
+        filePath: null,
+        mediaType: null,
+        mediaDuration: null,
+        wordCount: 12,
+        attributes: {},
+        createdBy: IDS.user,
+        createdAt: now,
+        updatedAt: now,
+      },
+    ],
+    codes: [
+      {
+        id: IDS.parentCode,
+        projectId: 'project-1',
+        parentId: null,
+        name: 'Zugehörigkeit',
+        description: 'Gefühl, Teil des Teams zu sein',
+        color: '#22c55e',
+        createdBy: IDS.user,
+        createdAt: now,
+      },
+      {
+        id: IDS.childCode,
+        projectId: 'project-1',
+        parentId: IDS.parentCode,
+        name: 'Unterstützung',
+        description: null,
+        color: '#8b5cf6',
+        createdBy: IDS.user,
+        createdAt: now,
+      },
+    ],
+    codings: [
+      {
+        id: IDS.firstCoding,
+        documentId: IDS.document,
+        codeId: IDS.parentCode,
+        ...quote('im Team <gut> aufgehoben'),
+        memo: null,
+        confidence: null,
+        codingMethod: 'manual',
+        codedBy: IDS.user,
+        createdAt: now,
+      },
+      {
+        id: IDS.secondCoding,
+        documentId: IDS.document,
+        codeId: IDS.childCode,
+        ...quote('unterstützt'),
+        memo: null,
+        confidence: null,
+        codingMethod: 'manual',
+        codedBy: IDS.user,
+        createdAt: now,
+      },
+    ],
+    memos: [
+      { ...memo, id: IDS.codeMemo, type: 'code', targetId: IDS.parentCode, title: 'Abgrenzung', content: 'Nicht mit Loyalität verwechseln' },
+      { ...memo, id: IDS.codingMemo, type: 'coding', targetId: IDS.firstCoding, title: 'Ironie?', content: 'Tonfall prüfen' },
+      { ...memo, id: IDS.documentMemo, type: 'document', targetId: IDS.document, title: 'Kontext', content: 'Zweites Interview' },
+    ],
+    members: [{ id: IDS.user, name: 'Anna Beispiel' }],
+  }
+}
+
+describe('QDPX round trip', () => {
+  it('keeps codes with their hierarchy', async () => {
+    const imported = await parseQDPX(await writeQDPX(exportData(), ALL))
+
+    expect(imported.codes).toEqual([
+      {
+        id: IDS.parentCode,
+        name: 'Zugehörigkeit',
+        color: '#22c55e',
+        description: 'Gefühl, Teil des Teams zu sein',
+        parentId: undefined,
+      },
+      { id: IDS.childCode, name: 'Unterstützung', color: '#8b5cf6', description: undefined, parentId: IDS.parentCode },
+    ])
+  })
+
+  it('keeps documents and coding offsets', async () => {
+    const data = exportData()
+    const imported = await parseQDPX(await writeQDPX(data, ALL))
+
+    expect(imported.documents).toHaveLength(1)
+    expect(imported.documents[0]).toMatchObject({ id: IDS.document, name: 'Interview B1', content: CONTENT })
+
+    expect(imported.codings).toHaveLength(2)
+    for (const coding of data.codings) {
+      expect(imported.codings).toContainEqual(
+        expect.objectContaining({
+          id: coding.id,
+          codeId: coding.codeId,
+          documentId: IDS.document,
+          startOffset: coding.startOffset,
+          endOffset: coding.endOffset,
+          selectedText: coding.selectedText,
+          codedBy: IDS.user,
+        })
+      )
+    }
+  })
+
+  it('keeps memos attached to their targets', async () => {
+    const imported = await parseQDPX(await writeQDPX(exportData(), ALL))
+
+    const memos = [...(imported.memos || [])].sort((a, b) => a.title.localeCompare(b.title))
+    expect(memos).toEqual([
+      expect.objectContaining({ id: IDS.codeMemo, title: 'Abgrenzung', content: 'Nicht mit Loyalität verwechseln', type: 'code', targetId: IDS.parentCode }),
+      expect.objectContaining({ id: IDS.codingMemo, title: 'Ironie?', content: 'Tonfall prüfen', type: 'coding', targetId: IDS.firstCoding }),
+      expect.objectContaining({ id: IDS.documentMemo, title: 'Kontext', content: 'Zweites Interview', type: 'document', targetId: IDS.document }),
+    ])
+    expect(imported.coders).toEqual([{ id: IDS.user, name: 'Anna Beispiel', externalId: IDS.user }])
+  })
+
+  it('leaves out what the options exclude', async () => {
+    const imported = await parseQDPX(
+      await writeQDPX(exportData(), { ...ALL, includeCodings: false, includeMemos: false })
+    )
+
+    expect(imported.codes).toHaveLength(2)
+    expect(imported.codings).toEqual([])
+    expect(imported.memos).toEqual([])
+  })
+
+  it('brings the code system along with the codings', async () => {
+    const imported = await parseQDPX(await writeQDPX(exportData(), { ...ALL, includeCodes: false }))
+
+    expect(imported.codes.map((c) => c.id)).toEqual([IDS.parentCode, IDS.childCode])
+    expect(imported.codings.map((c) => c.codeId).sort()).toEqual([IDS.parentCode, IDS.childCode].sort())
+  })
+
+  it('references a memo from each of its links', async () => {
+    const data = exportData()
+    data.memos![1].links = [
+      { targetType: 'coding', targetId: IDS.firstCoding },
+      { targetType: 'code', targetId: IDS.childCode },
+      { targetType: 'document', targetId: IDS.document },
+    ]
+    const zip = await JSZip.loadAsync(await writeQDPX(data, ALL))
+    const xml = await zip.file(PROJECT_FILE)!.async('string')
+
+    expect(xml.match(new RegExp(`<NoteRef targetGUID="${IDS.codingMemo}"/>`, 'g'))).toHaveLength(3)
+    expect(xml.match(new RegExp(`<NoteRef targetGUID="${IDS.codeMemo}"/>`, 'g'))).toHaveLength(1)
+  })
+})
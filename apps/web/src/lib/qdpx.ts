@@ -0,0 +1,608 @@
+/**
+ * REFI-QDA Project Exchange (.qdpx)
+ * Reads and writes project.qde (urn:QDA-XML:project:1.0) plus the sources/ folder of a
+ * QDPX archive as used by MAXQDA, ATLAS.ti, NVivo and other REFI-QDA compliant tools.
+ *
+ * Spec: https://www.qdasoftware.org/refi-qda-project
+ */
+
+import JSZip from 'jszip'
+import type {
+  ImportedData,
+  ImportedDocument,
+  ImportedCode,
+  ImportedCoding,
+  ImportedMemo,
+  ImportedCoder,
+} from '@/components/ImportWizard'
+import type { ExportData, ExportOptions } from '@/lib/export'
+import type { Code, Coding, Document } from '@/stores/projectStore'
+import { codingTimeSpan, isTimeCodedDocument } from '@/lib/mediaSync'
+import type { Memo } from '@/stores/memoStore'
+
+export const QDA_NAMESPACE = 'urn:QDA-XML:project:1.0'
+export const PROJECT_FILE = 'project.qde'
+export const SOURCES_FOLDER = 'sources'
+
+const DEFAULT_CODE_COLOR = '#3b82f6'
+
+type MemoTarget = Pick<ImportedMemo, 'type' | 'targetId'>
+
+// ============================================
+// ARCHIVE
+// ============================================
+
+/**
+ * Parse a .qdpx archive (ZIP containing project.qde and sources/)
+ */
+export async function parseQDPX(archive: Blob | ArrayBuffer): Promise<ImportedData> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(archive)
+  } catch {
+    throw new Error('Ungültiges QDPX-Archiv (keine ZIP-Datei)')
+  }
+
+  // project.qde normally sits in the archive root, some tools nest it in a folder
+  const projectEntry =
+    zip.file(PROJECT_FILE) ||
+    zip.file(new RegExp(`(^|/)${PROJECT_FILE.replace('.', '\\.')}$`, 'i'))[0]
+  if (!projectEntry) {
+    throw new Error('QDPX-Archiv enthält keine project.qde')
+  }
+
+  const basePath = projectEntry.name.slice(0, projectEntry.name.length - PROJECT_FILE.length)
+  const xml = await projectEntry.async('string')
+
+  return parseQDE(xml, async (path) => {
+    const entry = zip.file(`${basePath}${SOURCES_FOLDER}/${path}`) || zip.file(`${basePath}${path}`)
+    return entry ? stripBOM(await entry.async('string')) : null
+  })
+}
+
+/**
+ * Parse a bare project.qde document.
+ * `readSource` resolves internal:// paths; without it only inline PlainTextContent is used.
+ */
+export async function parseQDE(
+  xml: string,
+  readSource?: (path: string) => Promise<string | null>
+): Promise<ImportedData> {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('project.qde ist kein gültiges XML')
+  }
+
+  const project = doc.documentElement
+  if (project.localName !== 'Project') {
+    throw new Error('project.qde enthält kein <Project>-Element')
+  }
+
+  const documents: ImportedDocument[] = []
+  const codes: ImportedCode[] = []
+  const codings: ImportedCoding[] = []
+  const memos: ImportedMemo[] = []
+
+  // Users -> coders
+  const coders: ImportedCoder[] = childElements(child(project, 'Users'), 'User').map((user) => ({
+    id: user.getAttribute('guid') || '',
+    name: user.getAttribute('name') || user.getAttribute('id') || 'Unbekannt',
+    externalId: user.getAttribute('id') || undefined,
+  }))
+
+  // Notes are collected first and attached to their targets via NoteRef below
+  const notes = new Map<string, Element>()
+  childElements(child(project, 'Notes'), 'Note').forEach((note) => {
+    const guid = note.getAttribute('guid')
+    if (guid) notes.set(guid, note)
+  })
+  const noteTargets = new Map<string, MemoTarget>()
+  const attachNotes = (owner: Element, target: MemoTarget) => {
+    childElements(owner, 'NoteRef').forEach((ref) => {
+      const guid = ref.getAttribute('targetGUID')
+      if (guid && !noteTargets.has(guid)) noteTargets.set(guid, target)
+    })
+  }
+
+  // Variables (case/document attributes) are referenced by GUID from VariableValue
+  const variables = new Map<string, string>()
+  childElements(child(project, 'Variables'), 'Variable').forEach((variable) => {
+    const guid = variable.getAttribute('guid')
+    if (guid) variables.set(guid, variable.getAttribute('name') || guid)
+  })
+
+  // CodeBook -> nested code hierarchy
+  const walkCodes = (parent: Element | null, parentId?: string) => {
+    childElements(parent, 'Code').forEach((codeEl) => {
+      const id = codeEl.getAttribute('guid') || `code-${codes.length}`
+      codes.push({
+        id,
+        name: codeEl.getAttribute('name') || 'Unbenannt',
+        color: normalizeColor(codeEl.getAttribute('color')) || generateColor(codes.length),
+        description: textOf(child(codeEl, 'Description')) || undefined,
+        parentId,
+      })
+      attachNotes(codeEl, { type: 'code', targetId: id })
+      walkCodes(codeEl, id)
+    })
+  }
+  walkCodes(child(child(project, 'CodeBook'), 'Codes'))
+
+  // Sources -> documents + selections -> codings
+  const sources = childElements(child(project, 'Sources'))
+  for (const source of sources) {
+    // PDF sources carry their text in a <Representation> text source
+    const textSource =
+      source.localName === 'TextSource'
+        ? source
+        : source.localName === 'PDFSource'
+          ? child(source, 'Representation')
+          : null
+    if (!textSource) continue
+
+    const sourceId = source.getAttribute('guid') || `source-${documents.length}`
+    const name = source.getAttribute('name') || 'Unbenannt'
+    const content = await readTextContent(textSource, readSource)
+    if (content === null) {
+      throw new Error(`Quelltext für "${name}" nicht im Archiv gefunden`)
+    }
+
+    const metadata: Record<string, any> = {
+      refiGuid: sourceId,
+      creatingUser: source.getAttribute('creatingUser') || undefined,
+      creationDateTime: source.getAttribute('creationDateTime') || undefined,
+    }
+    const description = textOf(child(source, 'Description'))
+    if (description) metadata.description = description
+    const attributes = readVariableValues(source, variables)
+    if (Object.keys(attributes).length > 0) metadata.attributes = attributes
+
+    documents.push({
+      id: sourceId,
+      name,
+      content,
+      type: source.localName === 'PDFSource' ? 'pdf' : 'text',
+      metadata,
+    })
+    attachNotes(source, { type: 'document', targetId: sourceId })
+
+    const toIndex = codePointIndexer(content)
+    childElements(textSource, 'PlainTextSelection').forEach((selection) => {
+      const startOffset = toIndex(Number(selection.getAttribute('startPosition') || 0))
+      const endOffset = toIndex(Number(selection.getAttribute('endPosition') || 0))
+      const selectionUser = selection.getAttribute('creatingUser') || undefined
+      const comment = textOf(child(selection, 'Description')) || undefined
+
+      const selectionCodings = childElements(selection, 'Coding')
+      selectionCodings.forEach((codingEl) => {
+        const codeId = child(codingEl, 'CodeRef')?.getAttribute('targetGUID')
+        if (!codeId) return
+        codings.push({
+          id: codingEl.getAttribute('guid') || undefined,
+          codeId,
+          documentId: sourceId,
+          documentName: name,
+          selectedText: content.slice(startOffset, endOffset),
+          startOffset,
+          endOffset,
+          comment,
+          codedBy: codingEl.getAttribute('creatingUser') || selectionUser,
+          createdAt: codingEl.getAttribute('creationDateTime') || undefined,
+        })
+      })
+
+      const firstCodingId = selectionCodings[0]?.getAttribute('guid')
+      if (firstCodingId) {
+        attachNotes(selection, { type: 'coding', targetId: firstCodingId })
+      }
+    })
+  }
+
+  attachNotes(project, { type: 'project' })
+
+  // Notes -> memos
+  for (const [guid, note] of notes) {
+    const content = (await readTextContent(note, readSource)) || textOf(child(note, 'Description'))
+    const target = noteTargets.get(guid) || { type: 'free' }
+    memos.push({
+      id: guid,
+      title: note.getAttribute('name') || 'Memo',
+      content,
+      type: target.type,
+      targetId: target.targetId,
+      createdBy: note.getAttribute('creatingUser') || undefined,
+    })
+  }
+
+  return {
+    format: 'refi-qda',
+    projectName: project.getAttribute('name') || undefined,
+    documents,
+    codes,
+    codings,
+    memos,
+    coders,
+  }
+}
+
+// ============================================
+// WRITER
+// ============================================
+
+/**
+ * Build a .qdpx archive (project.qde + sources/<guid>.txt) from project data
+ * Media documents coded on their timeline become <AudioSource>/<VideoSource>
+ * with <AudioSelection>/<VideoSelection> in milliseconds.
+ */
+export async function writeQDPX(data: ExportData, options: ExportOptions): Promise<Blob> {
+  const zip = new JSZip()
+  const includeSources = options.includeDocuments || options.includeCodings
+  // Codings point to their codes via <CodeRef>, so they bring the code system along
+  const includeCodeBook = options.includeCodes || options.includeCodings
+
+  // REFI-QDA requires real GUIDs; keep ours where they already are, map the rest
+  const guids = new Map<string, string>()
+  const guidFor = (id: string): string => {
+    if (!guids.has(id)) {
+      guids.set(id, GUID_PATTERN.test(id) ? id : crypto.randomUUID())
+    }
+    return guids.get(id)!
+  }
+
+  // Every user that shows up as creator becomes a <User>
+  const memberNames = new Map((data.members || []).map((m) => [m.id, m.name]))
+  ;(data.memos || []).forEach((m) => {
+    if (!memberNames.has(m.createdBy)) memberNames.set(m.createdBy, m.createdByName)
+  })
+  const users = new Map<string, string>()
+  const userFor = (userId: string | null | undefined): string | null => {
+    if (!userId) return null
+    if (!users.has(userId)) users.set(userId, guidFor(userId))
+    return users.get(userId)!
+  }
+
+  // Memos are written once as <Note>; their target and every linked coding,
+  // code and document point to them via <NoteRef>
+  const memos = options.includeMemos ? data.memos || [] : []
+  const noteRefs = (type: Memo['type'], targetId: string | null, indent: string): string[] =>
+    memos
+      .filter((m) =>
+        type === 'project'
+          ? m.type === 'project'
+          : (m.type === type && m.targetId === targetId) ||
+            m.links.some((link) => link.targetType === type && link.targetId === targetId)
+      )
+      .map((m) => `${indent}<NoteRef targetGUID="${guidFor(m.id)}"/>`)
+
+  const body: string[] = []
+
+  if (includeCodeBook) {
+    body.push('  <CodeBook>')
+    body.push('    <Codes>')
+    data.codes
+      .filter((c) => !c.parentId || !data.codes.some((p) => p.id === c.parentId))
+      .forEach((code) => body.push(...generateCodeXML(code, data.codes, 3, guidFor, noteRefs)))
+    body.push('    </Codes>')
+    body.push('  </CodeBook>')
+  }
+
+  if (includeSources && data.documents.length > 0) {
+    body.push('  <Sources>')
+    for (const doc of data.documents) {
+      const docCodings = options.includeCodings
+        ? data.codings.filter((c) => c.documentId === doc.id && data.codes.some((code) => code.id === c.codeId))
+        : []
+
+      if (isTimeCodedDocument(doc)) {
+        body.push(...(await generateMediaSourceXML(doc, docCodings, zip, data, guidFor, userFor, options, noteRefs)))
+        continue
+      }
+
+      const guid = guidFor(doc.id)
+      const content = doc.content || ''
+      const toPosition = codePointPositioner(content)
+      zip.file(`${SOURCES_FOLDER}/${guid}.txt`, content)
+
+      body.push(
+        `    <TextSource guid="${guid}" name="${escapeXML(doc.name)}" plainTextPath="internal://${guid}.txt"` +
+          attrs({
+            creatingUser: userFor(doc.createdBy),
+            creationDateTime: doc.createdAt,
+            modifiedDateTime: doc.updatedAt,
+          }) +
+          '>'
+      )
+
+      docCodings.forEach((coding) => {
+        body.push(...generateSelectionXML(coding, toPosition, guidFor, userFor, options, noteRefs))
+      })
+
+      body.push(...noteRefs('document', doc.id, '      '))
+      body.push('    </TextSource>')
+    }
+    body.push('  </Sources>')
+  }
+
+  if (memos.length > 0) {
+    body.push('  <Notes>')
+    memos.forEach((memo) => {
+      body.push(
+        `    <Note guid="${guidFor(memo.id)}" name="${escapeXML(memo.title)}"` +
+          attrs({
+            creatingUser: userFor(memo.createdBy),
+            creationDateTime: memo.createdAt,
+            modifiedDateTime: memo.updatedAt,
+          }) +
+          '>'
+      )
+      body.push(`      <PlainTextContent>${escapeXML(memo.content)}</PlainTextContent>`)
+      body.push('    </Note>')
+    })
+    body.push('  </Notes>')
+  }
+
+  if (data.project.description) {
+    body.push(`  <Description>${escapeXML(data.project.description)}</Description>`)
+  }
+  body.push(...noteRefs('project', null, '  '))
+
+  const xml: string[] = []
+  xml.push('<?xml version="1.0" encoding="UTF-8"?>')
+  xml.push(
+    `<Project xmlns="${QDA_NAMESPACE}" name="${escapeXML(data.project.name)}" origin="EVIDENRA"` +
+      attrs({
+        creationDateTime: data.project.createdAt,
+        modifiedDateTime: data.project.updatedAt,
+      }) +
+      '>'
+  )
+  if (users.size > 0) {
+    xml.push('  <Users>')
+    users.forEach((guid, userId) => {
+      const name = memberNames.get(userId) || userId
+      xml.push(`    <User guid="${guid}" name="${escapeXML(name)}" id="${escapeXML(userId)}"/>`)
+    })
+    xml.push('  </Users>')
+  }
+  xml.push(...body)
+  xml.push('</Project>')
+
+  zip.file(PROJECT_FILE, xml.join('\n'))
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip', compression: 'DEFLATE' })
+}
+
+function generateCodeXML(
+  code: Code,
+  allCodes: Code[],
+  indent: number,
+  guidFor: (id: string) => string,
+  noteRefs: (type: Memo['type'], targetId: string, indent: string) => string[]
+): string[] {
+  const spaces = '  '.repeat(indent)
+  const children = allCodes.filter((c) => c.parentId === code.id)
+  const lines: string[] = []
+
+  lines.push(
+    `${spaces}<Code guid="${guidFor(code.id)}" name="${escapeXML(code.name)}" isCodable="true"` +
+      attrs({ color: normalizeColor(code.color) }) +
+      '>'
+  )
+  if (code.description) {
+    lines.push(`${spaces}  <Description>${escapeXML(code.description)}</Description>`)
+  }
+  lines.push(...noteRefs('code', code.id, `${spaces}  `))
+  children.forEach((child) => {
+    lines.push(...generateCodeXML(child, allCodes, indent + 1, guidFor, noteRefs))
+  })
+  lines.push(`${spaces}</Code>`)
+
+  return lines
+}
+
+function generateSelectionXML(
+  coding: Coding,
+  toPosition: (index: number) => number,
+  guidFor: (id: string) => string,
+  userFor: (userId: string | null | undefined) => string | null,
+  options: ExportOptions,
+  noteRefs: (type: Memo['type'], targetId: string, indent: string) => string[]
+): string[] {
+  const creator = attrs({
+    creatingUser: userFor(coding.codedBy),
+    creationDateTime: coding.createdAt,
+  })
+  const lines: string[] = []
+
+  lines.push(
+    `      <PlainTextSelection guid="${crypto.randomUUID()}" name="${escapeXML(coding.selectedText.slice(0, 60))}"` +
+      ` startPosition="${toPosition(coding.startOffset)}" endPosition="${toPosition(coding.endOffset)}"${creator}>`
+  )
+  if (options.includeMemos && coding.memo) {
+    lines.push(`        <Description>${escapeXML(coding.memo)}</Description>`)
+  }
+  lines.push(`        <Coding guid="${guidFor(coding.id)}"${creator}>`)
+  lines.push(`          <CodeRef targetGUID="${guidFor(coding.codeId)}"/>`)
+  lines.push('        </Coding>')
+  lines.push(...noteRefs('coding', coding.id, '        '))
+  lines.push('      </PlainTextSelection>')
+
+  return lines
+}
+
+/**
+ * <AudioSource>/<VideoSource> of a media document without transcript; the
+ * file itself goes into sources/ when it can be loaded. REFI-QDA has no frame
+ * regions for video selections, so only the time range is exported.
+ */
+async function generateMediaSourceXML(
+  doc: Document,
+  codings: Coding[],
+  zip: JSZip,
+  data: ExportData,
+  guidFor: (id: string) => string,
+  userFor: (userId: string | null | undefined) => string | null,
+  options: ExportOptions,
+  noteRefs: (type: Memo['type'], targetId: string, indent: string) => string[]
+): Promise<string[]> {
+  const guid = guidFor(doc.id)
+  const element = doc.mediaType === 'video' ? 'VideoSource' : 'AudioSource'
+  const selection = doc.mediaType === 'video' ? 'VideoSelection' : 'AudioSelection'
+  const extension = doc.filePath?.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase() || (doc.mediaType === 'video' ? 'mp4' : 'mp3')
+
+  let path = `relative://${encodeURIComponent(doc.name)}.${extension}`
+  const file = options.includeDocuments && data.loadMediaFile ? await data.loadMediaFile(doc).catch(() => null) : null
+  if (file) {
+    zip.file(`${SOURCES_FOLDER}/${guid}.${extension}`, file)
+    path = `internal://${guid}.${extension}`
+  }
+
+  const lines: string[] = []
+  lines.push(
+    `    <${element} guid="${guid}" name="${escapeXML(doc.name)}" path="${path}"` +
+      attrs({
+        creatingUser: userFor(doc.createdBy),
+        creationDateTime: doc.createdAt,
+        modifiedDateTime: doc.updatedAt,
+      }) +
+      '>'
+  )
+
+  codings.forEach((coding) => {
+    const span = codingTimeSpan(coding)
+    if (!span) return
+    const creator = attrs({
+      creatingUser: userFor(coding.codedBy),
+      creationDateTime: coding.createdAt,
+    })
+    lines.push(
+      `      <${selection} guid="${crypto.randomUUID()}" name="${escapeXML(coding.selectedText.slice(0, 60))}"` +
+        ` begin="${Math.round(span.start * 1000)}" end="${Math.round(span.end * 1000)}"${creator}>`
+    )
+    if (options.includeMemos && coding.memo) {
+      lines.push(`        <Description>${escapeXML(coding.memo)}</Description>`)
+    }
+    lines.push(`        <Coding guid="${guidFor(coding.id)}"${creator}>`)
+    lines.push(`          <CodeRef targetGUID="${guidFor(coding.codeId)}"/>`)
+    lines.push('        </Coding>')
+    lines.push(...noteRefs('coding', coding.id, '        '))
+    lines.push(`      </${selection}>`)
+  })
+
+  lines.push(...noteRefs('document', doc.id, '      '))
+  lines.push(`    </${element}>`)
+  return lines
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function childElements(parent: Element | null, localName?: string): Element[] {
+  if (!parent) return []
+  return Array.from(parent.children).filter((el) => !localName || el.localName === localName)
+}
+
+function child(parent: Element | null, localName: string): Element | null {
+  return childElements(parent, localName)[0] || null
+}
+
+function textOf(el: Element | null): string {
+  return el?.textContent?.trim() || ''
+}
+
+async function readTextContent(
+  el: Element,
+  readSource?: (path: string) => Promise<string | null>
+): Promise<string | null> {
+  const path = el.getAttribute('plainTextPath')
+  if (path && readSource) {
+    const match = path.match(/^(internal|relative):\/\/(.+)$/)
+    const content = match ? await readSource(decodeURIComponent(match[2])) : null
+    if (content !== null) return content
+  }
+
+  const inline = child(el, 'PlainTextContent')
+  if (inline) return inline.textContent || ''
+
+  return path ? null : ''
+}
+
+function readVariableValues(source: Element, variables: Map<string, string>): Record<string, string> {
+  const values: Record<string, string> = {}
+  childElements(source, 'VariableValue').forEach((valueEl) => {
+    const ref = child(valueEl, 'VariableRef')?.getAttribute('targetGUID')
+    const value = childElements(valueEl).find((el) => el.localName !== 'VariableRef')
+    if (ref && value) {
+      values[variables.get(ref) || ref] = value.textContent?.trim() || ''
+    }
+  })
+  return values
+}
+
+/**
+ * REFI-QDA positions count Unicode code points, JavaScript strings are UTF-16.
+ * Returns a converter from code point position to string index.
+ */
+export function codePointIndexer(text: string): (position: number) => number {
+  if (!/[\uD800-\uDBFF]/.test(text)) {
+    return (position) => Math.max(0, Math.min(position, text.length))
+  }
+
+  const indices: number[] = []
+  let index = 0
+  for (const char of text) {
+    indices.push(index)
+    index += char.length
+  }
+  indices.push(index)
+
+  return (position) => indices[Math.max(0, Math.min(position, indices.length - 1))]
+}
+
+/**
+ * Inverse of codePointIndexer: converts a string index to a code point position.
+ */
+export function codePointPositioner(text: string): (index: number) => number {
+  if (!/[\uD800-\uDBFF]/.test(text)) {
+    return (index) => Math.max(0, Math.min(index, text.length))
+  }
+
+  return (index) => Array.from(text.slice(0, Math.max(0, index))).length
+}
+
+function attrs(values: Record<string, string | null | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value)
+    .map(([key, value]) => ` ${key}="${escapeXML(value!)}"`)
+    .join('')
+}
+
+function escapeXML(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function normalizeColor(color: string | null): string | null {
+  if (!color) return null
+  const hex = color.trim().replace(/^#/, '')
+  // Some tools write #AARRGGBB
+  if (/^[0-9a-f]{8}$/i.test(hex)) return `#${hex.slice(2)}`
+  if (/^[0-9a-f]{6}$/i.test(hex)) return `#${hex}`
+  return null
+}
+
+function generateColor(index: number): string {
+  const colors = [DEFAULT_CODE_COLOR, '#22c55e', '#8b5cf6', '#f59e0b', '#ef4444', '#06b6d4', '#ec4899', '#14b8a6']
+  return colors[index % colors.length]
+}
+
+function stripBOM(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateQuery, parseQuery, type QueryCoding, type QueryDocument, type QueryNode } from './query'
+
+/**
+ * Coding queries: how operators bind, what each relation matches and where
+ * errors point
+ */
+
+const INTERVIEW_F = [
+  'I: Wie geht es Ihnen?',
+  'B: Ich habe Angst um meine Familie.',
+  'B: Die Kinder sind noch klein.',
+  'B: Ich fühle mich hilflos.',
+  'B: Aber meine Schwester hilft mir.',
+].join('\n')
+
+const INTERVIEW_M = [
+  'I: Und Sie?',
+  'B: Ich bin nicht hilflos.',
+].join('\n')
+
+const DOCUMENTS: QueryDocument[] = [
+  { id: 'f', name: 'Interview F', content: INTERVIEW_F, attributes: { gender: 'f' } },
+  { id: 'm', name: 'Interview M', content: INTERVIEW_M, attributes: { gender: 'm' } },
+]
+
+const CODES = [
+  { id: 'angst', name: 'Angst' },
+  { id: 'familie', name: 'Familie' },
+  { id: 'bewaeltigung', name: 'Bewältigung' },
+]
+
+function coding(id: string, documentId: string, codeId: string, part: string): QueryCoding {
+  const content = DOCUMENTS.find(d => d.id === documentId)!.content!
+  const startOffset = content.indexOf(part)
+  if (startOffset < 0) throw new Error(`"${part}" not in ${documentId}`)
+  return { id, documentId, codeId, startOffset, endOffset: startOffset + part.length }
+}
+
+const CODINGS = [
+  coding('a1', 'f', 'angst', 'Ich habe Angst um meine Familie.'),
+  coding('f1', 'f', 'familie', 'meine Familie'),
+  coding('f2', 'f', 'familie', 'Die Kinder sind noch klein.'),
+  coding('a2', 'f', 'angst', 'Ich fühle mich hilflos.'),
+  coding('b1', 'f', 'bewaeltigung', 'Aber meine Schwester hilft mir.'),
+  coding('a3', 'm', 'angst', 'Ich bin nicht hilflos.'),
+]
+
+function parse(query: string): QueryNode {
+  const { query: node, error } = parseQuery(query)
+  if (!node) throw new Error(error?.message || 'empty query')
+  return node
+}
+
+// The parse tree as an s-expression
+function shape(node: QueryNode): string {
+  switch (node.type) {
+    case 'code': return node.name
+    case 'text': return `"${node.value}"`
+    case 'regex': return `/${node.pattern}/${node.flags}`
+    case 'attribute': return `@${node.key}${node.operator}${node.value}`
+    case 'not': return `(not ${shape(node.operand)})`
+    case 'and':
+    case 'or': return `(${node.type} ${shape(node.left)} ${shape(node.right)})`
+    case 'relation': {
+      const name = `${node.negated ? 'not-' : ''}${node.relation}`
+      return `(${name} ${shape(node.left)} ${shape(node.right)})`
+    }
+  }
+}
+
+// Hits as "document: text"
+function run(query: string): string[] {
+  const { hits, error } = evaluateQuery(parse(query), { documents: DOCUMENTS, codings: CODINGS, codes: CODES })
+  if (error) throw new Error(error.message)
+  return hits.map(hit => {
+    const content = DOCUMENTS.find(d => d.id === hit.documentId)!.content!
+    return `${hit.documentId}: ${content.slice(hit.startOffset, hit.endOffset)}`
+  })
+}
+
+describe('parseQuery precedence', () => {
+  it('binds NOT tighter than a relation', () => {
+    expect(shape(parse('NOT [Angst] OVERLAPS [Familie]'))).toBe('(overlaps (not Angst) Familie)')
+    expect(shape(parse('[Angst] OVERLAPS NOT [Familie]'))).toBe('(overlaps Angst (not Familie))')
+    expect(shape(parse('[Angst] NOT OVERLAPS [Familie]'))).toBe('(not-overlaps Angst Familie)')
+  })
+
+  it('binds relations tighter than AND', () => {
+    expect(shape(parse('[Angst] OVERLAPS [Familie] AND [Bewältigung]'))).toBe(
+      '(and (overlaps Angst Familie) Bewältigung)'
+    )
+    expect(shape(parse('[Angst] AND [Familie] INSIDE [Bewältigung]'))).toBe(
+      '(and Angst (inside Familie Bewältigung))'
+    )
+  })
+
+  it('binds AND tighter than OR, parentheses override both', () => {
+    expect(shape(parse('[Angst] OR [Familie] AND [Bewältigung]'))).toBe('(or Angst (and Familie Bewältigung))')
+    expect(shape(parse('([Angst] OR [Familie]) AND [Bewältigung]'))).toBe('(and (or Angst Familie) Bewältigung)')
+  })
+})
+
+describe('evaluateQuery relations', () => {
+  it('OVERLAPS keeps segments sharing text with the other code', () => {
+    expect(run('[Angst] OVERLAPS [Familie]')).toEqual(['f: Ich habe Angst um meine Familie.'])
+  })
+
+  it('INSIDE keeps segments within a segment of the other code', () => {
+    expect(run('[Familie] INSIDE [Angst]')).toEqual(['f: meine Familie'])
+    expect(run('[Angst] INSIDE [Familie]')).toEqual([])
+  })
+
+  it('WITHIN n PARAGRAPHS counts lines between the segments', () => {
+    expect(run('[Bewältigung] WITHIN 1 PARAGRAPHS OF [Familie]')).toEqual([])
+    expect(run('[Bewältigung] WITHIN 2 PARAGRAPHS OF [Familie]')).toEqual(['f: Aber meine Schwester hilft mir.'])
+  })
+
+  it('WITHIN n CHARS counts characters between the segments', () => {
+    // "\nB: " separates the Familie segment of line 3 from the Angst segment of line 4
+    expect(run('[Angst] WITHIN 3 CHARS OF [Familie]')).toEqual(['f: Ich habe Angst um meine Familie.'])
+    expect(run('[Angst] WITHIN 4 CHARS OF [Familie]')).toEqual([
+      'f: Ich habe Angst um meine Familie.',
+      'f: Ich fühle mich hilflos.',
+    ])
+  })
+
+  it('NOT FOLLOWED BY keeps segments without the other code in the next paragraph', () => {
+    expect(run('[Angst] FOLLOWED BY [Bewältigung]')).toEqual(['f: Ich fühle mich hilflos.'])
+    expect(run('[Angst] NOT FOLLOWED BY [Bewältigung]')).toEqual([
+      'f: Ich habe Angst um meine Familie.',
+      'm: Ich bin nicht hilflos.',
+    ])
+    expect(run('[Angst] NOT FOLLOWED BY [Bewältigung] WITHIN 3 PARAGRAPHS')).toEqual(['m: Ich bin nicht hilflos.'])
+  })
+
+  it('combines a regex, a relation and a document attribute', () => {
+    expect(run('/hilf(e|los)/i INSIDE [Angst]')).toEqual(['f: hilflos', 'm: hilflos'])
+    expect(run('/hilf(e|los)/i INSIDE [Angst] AND @gender=f')).toEqual(['f: hilflos'])
+  })
+})
+
+describe('query errors', () => {
+  it('points at an unclosed [', () => {
+    expect(parseQuery('[Angst] AND [Familie')).toEqual({
+      query: null,
+      error: { message: 'Fehlende schließende Klammer "]"', position: 12 },
+    })
+  })
+
+  it('points at an unclosed /', () => {
+    expect(parseQuery('[Angst] INSIDE /hilf(e|los)')).toEqual({
+      query: null,
+      error: { message: 'Regulärer Ausdruck nicht abgeschlossen', position: 15 },
+    })
+  })
+
+  it('points at an unknown code', () => {
+    const { error } = evaluateQuery(parse('[Angst] OVERLAPS [Wut]'), {
+      documents: DOCUMENTS,
+      codings: CODINGS,
+      codes: CODES,
+    })
+    expect(error).toEqual({ message: 'Unbekannter Code "Wut"', position: 17 })
+  })
+})
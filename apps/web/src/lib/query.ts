@@ -0,0 +1,660 @@
+/**
+ * Coding query language - complex retrieval over codings and documents
+ *
+ * Examples:
+ *   [Angst] AND [Familie]                      text coded with both codes
+ *   [Angst] OVERLAPS [Familie]                 Angst segments overlapping Familie
+ *   [Angst] WITHIN 2 PARAGRAPHS OF [Familie]   Angst segments near Familie
+ *   [Angst] NOT FOLLOWED BY [Bewältigung]      no Bewältigung in the next paragraph
+ *   /hilf(e|los)/i INSIDE [Angst] AND @gender=f
+ *
+ * Terms: [Code Name] or a bare code name, "phrase", /regex/flags and
+ * @attribute=value (also !=, <, >, <=, >=; @document matches the name).
+ * Operators: NOT > relations (OVERLAPS, INSIDE, WITHIN n PARAGRAPHS|CHARS OF,
+ * FOLLOWED BY [WITHIN n ...]; each can be negated with NOT) > AND > OR.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AttributeOperator = '=' | '!=' | '<' | '>' | '<=' | '>='
+
+export interface QueryDistance {
+  value: number
+  unit: 'paragraphs' | 'chars'
+}
+
+export type QueryNode =
+  | { type: 'code'; name: string; position: number }
+  | { type: 'text'; value: string; position: number }
+  | { type: 'regex'; pattern: string; flags: string; position: number }
+  | { type: 'attribute'; key: string; operator: AttributeOperator; value: string; position: number }
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  | {
+      type: 'relation'
+      relation: 'overlaps' | 'inside' | 'within' | 'followed-by'
+      negated: boolean
+      left: QueryNode
+      right: QueryNode
+      distance?: QueryDistance
+    }
+
+export interface QueryError {
+  message: string
+  /** Character offset in the query string */
+  position: number
+}
+
+export interface QueryDocument {
+  id: string
+  name: string
+  content: string | null
+  attributes?: Record<string, string>
+}
+
+export interface QueryCoding {
+  id: string
+  documentId: string
+  codeId: string
+  startOffset: number
+  endOffset: number
+}
+
+export interface QueryHit {
+  documentId: string
+  startOffset: number
+  endOffset: number
+  /** Codings the hit was derived from */
+  codingIds: string[]
+}
+
+// Default distance of FOLLOWED BY: the same or the next paragraph
+const DEFAULT_FOLLOW_DISTANCE: QueryDistance = { value: 1, unit: 'paragraphs' }
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+type Token =
+  | { kind: 'paren'; value: '(' | ')'; position: number }
+  | { kind: 'code'; value: string; position: number }
+  | { kind: 'text'; value: string; position: number }
+  | { kind: 'regex'; pattern: string; flags: string; position: number }
+  | { kind: 'attribute'; key: string; operator: AttributeOperator; value: string; position: number }
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'word'; value: string; position: number }
+
+export const QUERY_KEYWORDS = ['AND', 'OR', 'NOT', 'OVERLAPS', 'INSIDE', 'WITHIN', 'OF', 'FOLLOWED', 'BY', 'PARAGRAPHS', 'CHARS']
+
+const UNIT_WORDS: Record<string, QueryDistance['unit']> = {
+  PARAGRAPH: 'paragraphs',
+  PARAGRAPHS: 'paragraphs',
+  CHAR: 'chars',
+  CHARS: 'chars',
+  CHARACTERS: 'chars',
+}
+
+/**
+ * Reads up to the closing quote; \" (or \/ in a regex) escapes it. Regexes keep
+ * their other escapes (\d, \w, ...).
+ */
+function readQuoted(query: string, start: number, quote: string): { value: string; end: number } | null {
+  let value = ''
+  for (let i = start + 1; i < query.length; i++) {
+    if (query[i] === '\\' && i + 1 < query.length) {
+      const next = query[++i]
+      value += quote === '/' && next !== '/' ? `\\${next}` : next
+    } else if (query[i] === quote) {
+      return { value, end: i + 1 }
+    } else {
+      value += query[i]
+    }
+  }
+  return null
+}
+
+function tokenize(query: string): { tokens: Token[]; error: QueryError | null } {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < query.length) {
+    const char = query[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', value: char, position: i })
+      i++
+    } else if (char === '[') {
+      const end = query.indexOf(']', i)
+      if (end === -1) return { tokens, error: { message: 'Fehlende schließende Klammer "]"', position: i } }
+      tokens.push({ kind: 'code', value: query.slice(i + 1, end).trim(), position: i })
+      i = end + 1
+    } else if (char === '"') {
+      const quoted = readQuoted(query, i, '"')
+      if (!quoted) return { tokens, error: { message: 'Fehlendes schließendes Anführungszeichen', position: i } }
+      tokens.push({ kind: 'text', value: quoted.value, position: i })
+      i = quoted.end
+    } else if (char === '/') {
+      const quoted = readQuoted(query, i, '/')
+      if (!quoted) return { tokens, error: { message: 'Regulärer Ausdruck nicht abgeschlossen', position: i } }
+      const flags = /^[a-z]*/.exec(query.slice(quoted.end))![0]
+      try {
+        new RegExp(quoted.value, flags)
+      } catch {
+        return { tokens, error: { message: `Ungültiger regulärer Ausdruck /${quoted.value}/${flags}`, position: i } }
+      }
+      tokens.push({ kind: 'regex', pattern: quoted.value, flags, position: i })
+      i = quoted.end + flags.length
+    } else if (char === '@') {
+      const match = /^@([\p{L}\p{N}_-]+)\s*(!=|<=|>=|=|<|>)\s*/u.exec(query.slice(i))
+      if (!match) return { tokens, error: { message: 'Attribut erwartet, z. B. @gender=f', position: i } }
+      let end = i + match[0].length
+      let value: string
+      if (query[end] === '"') {
+        const quoted = readQuoted(query, end, '"')
+        if (!quoted) return { tokens, error: { message: 'Fehlendes schließendes Anführungszeichen', position: end } }
+        value = quoted.value
+        end = quoted.end
+      } else {
+        value = /^[^\s()]*/.exec(query.slice(end))![0]
+        end += value.length
+      }
+      tokens.push({ kind: 'attribute', key: match[1], operator: match[2] as AttributeOperator, value, position: i })
+      i = end
+    } else {
+      const word = /^[^\s()[\]"/@]+/.exec(query.slice(i))![0]
+      if (/^\d+$/.test(word)) {
+        tokens.push({ kind: 'number', value: Number(word), position: i })
+      } else {
+        tokens.push({ kind: 'word', value: word, position: i })
+      }
+      i += word.length
+    }
+  }
+
+  return { tokens, error: null }
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+class Parser {
+  private index = 0
+
+  constructor(private tokens: Token[], private length: number) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr()
+    const rest = this.peek()
+    if (rest) {
+      throw this.error(
+        rest.kind === 'paren' ? 'Unerwartete Klammer ")"' : 'Operator erwartet (AND, OR, OVERLAPS, ...)',
+        rest.position
+      )
+    }
+    return node
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset]
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset)
+    return token?.kind === 'word' && token.value.toUpperCase() === keyword
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.isKeyword(keyword)) {
+      throw this.error(`"${keyword}" erwartet`, this.peek()?.position ?? this.length)
+    }
+    this.index++
+  }
+
+  private error(message: string, position: number): QueryError {
+    return { message, position }
+  }
+
+  private parseOr(): QueryNode {
+    let left = this.parseAnd()
+    while (this.isKeyword('OR')) {
+      this.index++
+      left = { type: 'or', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): QueryNode {
+    let left = this.parseRelation()
+    while (this.isKeyword('AND')) {
+      this.index++
+      left = { type: 'and', left, right: this.parseRelation() }
+    }
+    return left
+  }
+
+  private isRelationAhead(): boolean {
+    const offset = this.isKeyword('NOT') ? 1 : 0
+    return ['OVERLAPS', 'INSIDE', 'WITHIN', 'FOLLOWED'].some(k => this.isKeyword(k, offset))
+  }
+
+  private parseRelation(): QueryNode {
+    let left = this.parseUnary()
+
+    while (this.isRelationAhead()) {
+      const negated = this.isKeyword('NOT')
+      if (negated) this.index++
+
+      if (this.isKeyword('OVERLAPS') || this.isKeyword('INSIDE')) {
+        const relation = this.isKeyword('OVERLAPS') ? 'overlaps' : 'inside'
+        this.index++
+        left = { type: 'relation', relation, negated, left, right: this.parseUnary() }
+      } else if (this.isKeyword('WITHIN')) {
+        this.index++
+        const distance = this.parseDistance()
+        this.expectKeyword('OF')
+        left = { type: 'relation', relation: 'within', negated, left, right: this.parseUnary(), distance }
+      } else {
+        this.expectKeyword('FOLLOWED')
+        this.expectKeyword('BY')
+        const right = this.parseUnary()
+        let distance = DEFAULT_FOLLOW_DISTANCE
+        if (this.isKeyword('WITHIN')) {
+          this.index++
+          distance = this.parseDistance()
+        }
+        left = { type: 'relation', relation: 'followed-by', negated, left, right, distance }
+      }
+    }
+
+    return left
+  }
+
+  // NOT binds tightest: NOT [A] OVERLAPS [B] is (NOT [A]) OVERLAPS [B]
+  private parseUnary(): QueryNode {
+    if (this.isKeyword('NOT')) {
+      this.index++
+      return { type: 'not', operand: this.parseUnary() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parseDistance(): QueryDistance {
+    const number = this.peek()
+    if (number?.kind !== 'number') {
+      throw this.error('Abstand erwartet, z. B. WITHIN 2 PARAGRAPHS', number?.position ?? this.length)
+    }
+    this.index++
+    const unitToken = this.peek()
+    const unit = unitToken?.kind === 'word' ? UNIT_WORDS[unitToken.value.toUpperCase()] : undefined
+    if (!unit) {
+      throw this.error('Einheit erwartet: PARAGRAPHS oder CHARS', unitToken?.position ?? this.length)
+    }
+    this.index++
+    return { value: number.value, unit }
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek()
+    if (!token) throw this.error('Ausdruck erwartet', this.length)
+    this.index++
+
+    switch (token.kind) {
+      case 'paren': {
+        if (token.value === ')') throw this.error('Ausdruck erwartet', token.position)
+        const node = this.parseOr()
+        const close = this.peek()
+        if (close?.kind !== 'paren' || close.value !== ')') {
+          throw this.error('Fehlende schließende Klammer ")"', close?.position ?? this.length)
+        }
+        this.index++
+        return node
+      }
+      case 'code':
+        return { type: 'code', name: token.value, position: token.position }
+      case 'text':
+        return { type: 'text', value: token.value, position: token.position }
+      case 'regex':
+        return { type: 'regex', pattern: token.pattern, flags: token.flags, position: token.position }
+      case 'attribute':
+        return { type: 'attribute', key: token.key, operator: token.operator, value: token.value, position: token.position }
+      case 'number':
+        return { type: 'code', name: String(token.value), position: token.position }
+      case 'word':
+        if (QUERY_KEYWORDS.includes(token.value.toUpperCase())) {
+          throw this.error(`Ausdruck erwartet, nicht "${token.value}"`, token.position)
+        }
+        return { type: 'code', name: token.value, position: token.position }
+    }
+  }
+}
+
+/**
+ * Parses a query; errors carry the offset for highlighting in the editor
+ */
+export function parseQuery(query: string): { query: QueryNode | null; error: QueryError | null } {
+  const { tokens, error } = tokenize(query)
+  if (error) return { query: null, error }
+  if (tokens.length === 0) return { query: null, error: null }
+
+  try {
+    return { query: new Parser(tokens, query.length).parse(), error: null }
+  } catch (err) {
+    return { query: null, error: err as QueryError }
+  }
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+interface EvaluationContext {
+  documents: Map<string, QueryDocument>
+  codings: QueryCoding[]
+  codeIdsByName: Map<string, string[]>
+  paragraphStarts: Map<string, number[]>
+}
+
+function hitKey(hit: QueryHit): string {
+  return `${hit.documentId}:${hit.startOffset}:${hit.endOffset}`
+}
+
+/**
+ * Identical ranges are merged (their codings combined), sorted by position
+ */
+function normalize(hits: QueryHit[]): QueryHit[] {
+  const byKey = new Map<string, QueryHit>()
+  for (const hit of hits) {
+    if (hit.endOffset <= hit.startOffset) continue
+    const key = hitKey(hit)
+    const existing = byKey.get(key)
+    byKey.set(key, existing
+      ? { ...existing, codingIds: [...new Set([...existing.codingIds, ...hit.codingIds])] }
+      : hit)
+  }
+  return Array.from(byKey.values()).sort((a, b) =>
+    a.documentId.localeCompare(b.documentId) || a.startOffset - b.startOffset || a.endOffset - b.endOffset
+  )
+}
+
+function groupByDocument(hits: QueryHit[]): Map<string, QueryHit[]> {
+  const groups = new Map<string, QueryHit[]>()
+  for (const hit of hits) {
+    groups.set(hit.documentId, [...(groups.get(hit.documentId) || []), hit])
+  }
+  return groups
+}
+
+function overlaps(a: QueryHit, b: QueryHit): boolean {
+  return a.startOffset < b.endOffset && b.startOffset < a.endOffset
+}
+
+function paragraphIndex(context: EvaluationContext, documentId: string, offset: number): number {
+  const starts = context.paragraphStarts.get(documentId) || [0]
+  let low = 0
+  let high = starts.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (starts[mid] <= offset) low = mid
+    else high = mid - 1
+  }
+  return low
+}
+
+function distance(context: EvaluationContext, a: QueryHit, b: QueryHit, unit: QueryDistance['unit']): number {
+  if (overlaps(a, b)) return 0
+  const [first, second] = a.startOffset <= b.startOffset ? [a, b] : [b, a]
+  if (unit === 'chars') return second.startOffset - first.endOffset
+  return paragraphIndex(context, a.documentId, second.startOffset)
+    - paragraphIndex(context, a.documentId, Math.max(first.startOffset, first.endOffset - 1))
+}
+
+function matchesAttribute(document: QueryDocument, key: string, operator: AttributeOperator, value: string): boolean {
+  const actual = key.toLowerCase() === 'document'
+    ? document.name
+    : Object.entries(document.attributes || {}).find(([k]) => k.toLowerCase() === key.toLowerCase())?.[1]
+  if (actual === undefined) return operator === '!='
+
+  const a = actual.trim().toLowerCase()
+  const b = value.trim().toLowerCase()
+  const numeric = a !== '' && b !== '' && !isNaN(Number(a)) && !isNaN(Number(b))
+  const compare = numeric ? Number(a) - Number(b) : a.localeCompare(b, 'de')
+
+  switch (operator) {
+    case '=': return compare === 0
+    case '!=': return compare !== 0
+    case '<': return compare < 0
+    case '>': return compare > 0
+    case '<=': return compare <= 0
+    case '>=': return compare >= 0
+  }
+}
+
+function evaluateNode(node: QueryNode, context: EvaluationContext): QueryHit[] {
+  switch (node.type) {
+    case 'code': {
+      const codeIds = new Set(context.codeIdsByName.get(node.name.toLowerCase()) || [])
+      return normalize(context.codings
+        .filter(c => codeIds.has(c.codeId) && context.documents.has(c.documentId))
+        .map(c => ({ documentId: c.documentId, startOffset: c.startOffset, endOffset: c.endOffset, codingIds: [c.id] })))
+    }
+
+    case 'text':
+    case 'regex': {
+      const pattern = node.type === 'text'
+        ? new RegExp(node.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi')
+        : new RegExp(node.pattern, node.flags.includes('g') ? node.flags : `${node.flags}g`)
+      const hits: QueryHit[] = []
+      for (const document of context.documents.values()) {
+        for (const match of (document.content || '').matchAll(pattern)) {
+          if (match[0].length === 0) continue
+          hits.push({ documentId: document.id, startOffset: match.index!, endOffset: match.index! + match[0].length, codingIds: [] })
+        }
+      }
+      return normalize(hits)
+    }
+
+    case 'attribute':
+      return normalize(Array.from(context.documents.values())
+        .filter(document => matchesAttribute(document, node.key, node.operator, node.value))
+        .map(document => ({ documentId: document.id, startOffset: 0, endOffset: (document.content || '').length, codingIds: [] })))
+
+    case 'or':
+      return normalize([...evaluateNode(node.left, context), ...evaluateNode(node.right, context)])
+
+    case 'and': {
+      // Text covered by both sides
+      const right = groupByDocument(evaluateNode(node.right, context))
+      return normalize(evaluateNode(node.left, context).flatMap(a =>
+        (right.get(a.documentId) || []).filter(b => overlaps(a, b)).map(b => ({
+          documentId: a.documentId,
+          startOffset: Math.max(a.startOffset, b.startOffset),
+          endOffset: Math.min(a.endOffset, b.endOffset),
+          codingIds: [...new Set([...a.codingIds, ...b.codingIds])],
+        }))
+      ))
+    }
+
+    case 'not': {
+      // Text of each document not covered by the operand
+      const covered = groupByDocument(evaluateNode(node.operand, context))
+      const hits: QueryHit[] = []
+      for (const document of context.documents.values()) {
+        let start = 0
+        for (const hit of covered.get(document.id) || []) {
+          if (hit.startOffset > start) hits.push({ documentId: document.id, startOffset: start, endOffset: hit.startOffset, codingIds: [] })
+          start = Math.max(start, hit.endOffset)
+        }
+        const length = (document.content || '').length
+        if (length > start) hits.push({ documentId: document.id, startOffset: start, endOffset: length, codingIds: [] })
+      }
+      return normalize(hits)
+    }
+
+    case 'relation': {
+      const right = groupByDocument(evaluateNode(node.right, context))
+      const test = (a: QueryHit, b: QueryHit): boolean => {
+        switch (node.relation) {
+          case 'overlaps':
+            return overlaps(a, b)
+          case 'inside':
+            return b.startOffset <= a.startOffset && a.endOffset <= b.endOffset
+          case 'within':
+            // A segment is not near itself
+            return hitKey(a) !== hitKey(b) && distance(context, a, b, node.distance!.unit) <= node.distance!.value
+          case 'followed-by':
+            return b.startOffset >= a.endOffset && distance(context, a, b, node.distance!.unit) <= node.distance!.value
+        }
+      }
+      return evaluateNode(node.left, context).filter(a =>
+        (right.get(a.documentId) || []).some(b => test(a, b)) !== node.negated
+      )
+    }
+  }
+}
+
+function collectCodeNames(node: QueryNode): { name: string; position: number }[] {
+  switch (node.type) {
+    case 'code': return [{ name: node.name, position: node.position }]
+    case 'and':
+    case 'or':
+    case 'relation': return [...collectCodeNames(node.left), ...collectCodeNames(node.right)]
+    case 'not': return collectCodeNames(node.operand)
+    default: return []
+  }
+}
+
+/**
+ * Runs a parsed query; unknown code names are reported instead of matching nothing
+ */
+export function evaluateQuery(
+  query: QueryNode,
+  data: {
+    documents: QueryDocument[]
+    codings: QueryCoding[]
+    codes: { id: string; name: string }[]
+  }
+): { hits: QueryHit[]; error: QueryError | null } {
+  const codeIdsByName = new Map<string, string[]>()
+  for (const code of data.codes) {
+    const key = code.name.trim().toLowerCase()
+    codeIdsByName.set(key, [...(codeIdsByName.get(key) || []), code.id])
+  }
+
+  const unknown = collectCodeNames(query).find(c => !codeIdsByName.has(c.name.toLowerCase()))
+  if (unknown) {
+    return { hits: [], error: { message: `Unbekannter Code "${unknown.name}"`, position: unknown.position } }
+  }
+
+  const paragraphStarts = new Map<string, number[]>()
+  for (const document of data.documents) {
+    // Every non-blank line is a paragraph (one speaker turn in a transcript)
+    const starts = [0]
+    for (const match of (document.content || '').matchAll(/\n(?=[^\S\n]*\S)/g)) {
+      starts.push(match.index! + 1)
+    }
+    paragraphStarts.set(document.id, starts)
+  }
+
+  const context: EvaluationContext = {
+    documents: new Map(data.documents.map(d => [d.id, d])),
+    codings: data.codings,
+    codeIdsByName,
+    paragraphStarts,
+  }
+
+  return { hits: evaluateNode(query, context), error: null }
+}
+
+// ============================================
+// AUTOCOMPLETE
+// ============================================
+
+export interface QueryCompletion {
+  label: string
+  /** Replaces the word at the cursor */
+  insert: string
+  kind: 'keyword' | 'code' | 'attribute' | 'document' | 'text'
+}
+
+/**
+ * Word at the cursor: bracketed code, attribute, quoted phrase or plain word
+ */
+function currentWord(query: string, cursor: number): { start: number; text: string } {
+  const before = query.slice(0, cursor)
+  const match = /(\[[^\]]*|@[^\s()]*|"[^"]*|[^\s()[\]"]*)$/.exec(before)!
+  return { start: cursor - match[0].length, text: match[0] }
+}
+
+/**
+ * Suggestions for the word at the cursor. `suggestions` come from
+ * getSearchSuggestions (code names, document names, frequent words).
+ */
+export function getQueryCompletions(
+  query: string,
+  cursor: number,
+  vocabulary: { codes: string[]; documents: string[]; attributes: string[]; suggestions: string[] },
+  limit = 8
+): QueryCompletion[] {
+  const { text } = currentWord(query, cursor)
+  const prefix = text.replace(/^[[@"]/, '').toLowerCase()
+  const starts = (value: string) => value.toLowerCase().startsWith(prefix)
+  const contains = (value: string) => value.toLowerCase().includes(prefix)
+
+  const codeCompletion = (name: string): QueryCompletion => ({ label: name, insert: `[${name}]`, kind: 'code' })
+
+  if (text.startsWith('[')) {
+    return vocabulary.codes.filter(contains).slice(0, limit).map(codeCompletion)
+  }
+  if (text.startsWith('@')) {
+    return [...vocabulary.attributes, 'document']
+      .filter(starts)
+      .slice(0, limit)
+      .map(key => ({ label: `@${key}`, insert: `@${key}=`, kind: 'attribute' as const }))
+  }
+  if (!prefix) return []
+
+  const codes = new Set(vocabulary.codes.map(c => c.toLowerCase()))
+  const documents = new Set(vocabulary.documents.map(d => d.toLowerCase()))
+  const completions: QueryCompletion[] = text.startsWith('"')
+    ? []
+    : QUERY_KEYWORDS.filter(k => starts(k) && k.toLowerCase() !== prefix)
+        .map(k => ({ label: k, insert: `${k} `, kind: 'keyword' as const }))
+
+  for (const suggestion of vocabulary.suggestions) {
+    if (!contains(suggestion)) continue
+    const key = suggestion.toLowerCase()
+    if (codes.has(key)) {
+      completions.push(codeCompletion(suggestion))
+    } else if (documents.has(key)) {
+      completions.push({ label: suggestion, insert: `@document="${suggestion}"`, kind: 'document' })
+    } else {
+      completions.push({ label: suggestion, insert: `"${suggestion}"`, kind: 'text' })
+    }
+  }
+
+  return completions.slice(0, limit)
+}
+
+/**
+ * Query and cursor after inserting a completion at the cursor
+ */
+export function applyCompletion(
+  query: string,
+  cursor: number,
+  completion: QueryCompletion
+): { query: string; cursor: number } {
+  const { start } = currentWord(query, cursor)
+  // Drop the rest of a bracketed or quoted word that the completion closes
+  let end = cursor
+  const rest = query.slice(cursor)
+  if (completion.insert.endsWith(']') && /^[^\]\s]*\]/.test(rest)) end += rest.indexOf(']') + 1
+  if (completion.insert.endsWith('"') && /^[^"\s]*"/.test(rest)) end += rest.indexOf('"') + 1
+
+  const next = query.slice(0, start) + completion.insert + query.slice(end)
+  return { query: next, cursor: start + completion.insert.length }
+}
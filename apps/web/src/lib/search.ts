@@ -3,6 +3,7 @@
  */
 
 import type { Document, Code, Coding } from '@/stores/projectStore'
+import { codingSpeakers, projectSpeakers, type TranscriptSegment } from '@/lib/mediaSync'
 
 export interface SearchResult {
   documentId: string
@@ -29,6 +30,8 @@ export interface SearchFilters {
   dateTo?: string
   codingMethods?: string[]
   onlyWithMemos?: boolean
+  /** Speakers of diarized transcripts */
+  speakers?: string[]
 }
 
 /**
@@ -148,13 +151,15 @@ export function searchDocuments(
 }
 
 /**
- * Search within codings/quotes
+ * Search within codings/quotes; the speaker filter needs the transcript
+ * segments of the media documents
  */
 export function searchCodings(
   codings: Coding[],
   codes: Code[],
   documents: Document[],
-  filters: SearchFilters
+  filters: SearchFilters,
+  transcriptSegments: Record<string, TranscriptSegment[]> = {}
 ): Coding[] {
   const query = filters.query.toLowerCase().trim()
 
@@ -194,6 +199,14 @@ export function searchCodings(
       }
     }
 
+    // Apply speaker filter
+    if (filters.speakers?.length) {
+      const speakers = codingSpeakers(transcriptSegments[coding.documentId] || [], coding)
+      if (!speakers.some((speaker) => filters.speakers!.includes(speaker))) {
+        return false
+      }
+    }
+
     // Apply text search
     if (query) {
       const matchesText = coding.selectedText.toLowerCase().includes(query)
@@ -265,10 +278,12 @@ export function getSearchSuggestions(
 export function getFilterOptions(
   documents: Document[],
   codes: Code[],
-  codings: Coding[]
+  codings: Coding[],
+  transcriptSegments: Record<string, TranscriptSegment[]> = {}
 ): {
   documentTypes: string[]
   codingMethods: string[]
+  speakers: string[]
   dateRange: { min: string; max: string }
 } {
   const documentTypes = [...new Set(documents.map((d) => d.fileType))]
@@ -282,6 +297,7 @@ export function getFilterOptions(
   return {
     documentTypes,
     codingMethods,
+    speakers: projectSpeakers(transcriptSegments),
     dateRange: {
       min: dates[0] || new Date().toISOString(),
       max: dates[dates.length - 1] || new Date().toISOString(),
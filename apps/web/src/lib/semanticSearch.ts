@@ -0,0 +1,338 @@
+/**
+ * Semantic Search - local sentence embeddings and a vector index per project
+ *
+ * Documents are split into passages of a few sentences, embedded in the
+ * browser with a multilingual sentence-embedding model (transformers.js,
+ * ONNX on the CPU via WebAssembly) and stored in IndexedDB. Nothing leaves
+ * the device; the model is downloaded once and kept in the browser cache.
+ * The index is rebuilt per document when its content changes.
+ */
+
+import type { FeatureExtractionPipeline, ProgressInfo } from '@huggingface/transformers'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TextSegment {
+  startOffset: number
+  endOffset: number
+  text: string
+}
+
+export interface IndexedSegment extends TextSegment {
+  /** `${documentId}:${startOffset}` */
+  id: string
+  projectId: string
+  documentId: string
+  vector: Float32Array
+}
+
+interface IndexedDocument {
+  documentId: string
+  projectId: string
+  /** Hash of model and content; a different hash means the document is re-embedded */
+  hash: string
+  segmentCount: number
+  indexedAt: string
+}
+
+export interface SemanticMatch {
+  segment: IndexedSegment
+  /** Cosine similarity, 0..1 for related passages */
+  score: number
+}
+
+export type IndexProgress =
+  | { phase: 'model'; progress: number }
+  | { phase: 'indexing'; done: number; total: number }
+
+// ============================================
+// MODEL
+// ============================================
+
+// Multilingual (German and English interviews), 384 dimensions, ~120 MB quantized
+export const EMBEDDING_MODEL = 'Xenova/paraphrase-multilingual-MiniLM-L12-v2'
+const EMBED_BATCH_SIZE = 16
+
+let embedderPromise: Promise<FeatureExtractionPipeline> | null = null
+
+/**
+ * Loads the model on first use; transformers.js is only downloaded then
+ */
+function loadEmbedder(onProgress?: (progress: number) => void): Promise<FeatureExtractionPipeline> {
+  if (!embedderPromise) {
+    embedderPromise = (async () => {
+      const { pipeline, env } = await import('@huggingface/transformers')
+      env.allowLocalModels = false
+      // Run inference in a worker so the UI stays responsive while indexing
+      if (env.backends.onnx.wasm) {
+        env.backends.onnx.wasm.proxy = true
+      }
+      const extractor = await pipeline('feature-extraction', EMBEDDING_MODEL, {
+        device: 'wasm',
+        dtype: 'q8',
+        progress_callback: (info: ProgressInfo) => {
+          if (info.status === 'progress') onProgress?.(info.progress)
+        },
+      })
+      return extractor as FeatureExtractionPipeline
+    })()
+    // Allow a retry after network errors
+    embedderPromise.catch(() => {
+      embedderPromise = null
+    })
+  }
+  return embedderPromise
+}
+
+/**
+ * Normalized sentence embeddings, one per text
+ */
+export async function embedTexts(
+  texts: string[],
+  onModelProgress?: (progress: number) => void
+): Promise<Float32Array[]> {
+  const extractor = await loadEmbedder(onModelProgress)
+  const vectors: Float32Array[] = []
+
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBED_BATCH_SIZE)
+    const output = await extractor(batch, { pooling: 'mean', normalize: true })
+    const data = output.data as Float32Array
+    const dimensions = output.dims[output.dims.length - 1]
+    for (let j = 0; j < batch.length; j++) {
+      vectors.push(data.slice(j * dimensions, (j + 1) * dimensions))
+    }
+  }
+
+  return vectors
+}
+
+/**
+ * Dot product; equals the cosine similarity for normalized vectors
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i]
+  return dot
+}
+
+// ============================================
+// SEGMENTATION
+// ============================================
+
+const MIN_SEGMENT_CHARS = 40
+const MAX_SEGMENT_CHARS = 400
+
+/**
+ * Passages of consecutive sentences within a paragraph, with exact offsets
+ * into the content (so a passage can be coded directly)
+ */
+export function segmentText(content: string): TextSegment[] {
+  const segments: TextSegment[] = []
+  const paragraphPattern = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g
+  let paragraph: RegExpExecArray | null
+
+  while ((paragraph = paragraphPattern.exec(content)) !== null) {
+    const sentencePattern = /[^.!?…]+(?:[.!?…]+["'“”»«)]*|$)/g
+    let current: TextSegment | null = null
+    let sentence: RegExpExecArray | null
+
+    while ((sentence = sentencePattern.exec(paragraph[0])) !== null) {
+      const trimmedStart = sentence[0].length - sentence[0].trimStart().length
+      const text = sentence[0].trim()
+      if (!text) continue
+
+      const startOffset = paragraph.index + sentence.index + trimmedStart
+      const endOffset = startOffset + text.length
+
+      if (current && endOffset - current.startOffset <= MAX_SEGMENT_CHARS) {
+        current.endOffset = endOffset
+        current.text = content.slice(current.startOffset, endOffset)
+      } else {
+        if (current) segments.push(current)
+        current = { startOffset, endOffset, text }
+      }
+    }
+
+    if (current) segments.push(current)
+  }
+
+  // Very short passages (headings, "Ja.") carry no meaning of their own
+  return segments.filter(s => s.text.length >= MIN_SEGMENT_CHARS)
+}
+
+function hashContent(content: string): string {
+  // FNV-1a, enough to notice edits
+  let hash = 0x811c9dc5
+  const input = `${EMBEDDING_MODEL}\n${content}`
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+// ============================================
+// INDEX (IndexedDB)
+// ============================================
+
+const DB_NAME = 'evidenra-semantic-index'
+const DB_VERSION = 1
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains('segments')) {
+        const segments = db.createObjectStore('segments', { keyPath: 'id' })
+        segments.createIndex('projectId', 'projectId')
+        segments.createIndex('documentId', 'documentId')
+      }
+      if (!db.objectStoreNames.contains('documents')) {
+        const documents = db.createObjectStore('documents', { keyPath: 'documentId' })
+        documents.createIndex('projectId', 'projectId')
+      }
+    }
+  })
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+async function replaceDocumentSegments(
+  db: IDBDatabase,
+  documentId: string,
+  entry: IndexedDocument | null,
+  segments: IndexedSegment[]
+): Promise<void> {
+  const tx = db.transaction(['segments', 'documents'], 'readwrite')
+  const segmentStore = tx.objectStore('segments')
+  const keys = await requestResult(segmentStore.index('documentId').getAllKeys(documentId))
+  keys.forEach(key => segmentStore.delete(key))
+  segments.forEach(segment => segmentStore.put(segment))
+  if (entry) {
+    tx.objectStore('documents').put(entry)
+  } else {
+    tx.objectStore('documents').delete(documentId)
+  }
+  await transactionDone(tx)
+}
+
+/**
+ * Brings the project's index up to date: embeds new and changed documents,
+ * drops documents that were deleted
+ */
+export async function syncProjectIndex(
+  projectId: string,
+  documents: { id: string; content: string | null }[],
+  onProgress?: (progress: IndexProgress) => void
+): Promise<void> {
+  const db = await openDatabase()
+  try {
+    const indexed = await requestResult<IndexedDocument[]>(
+      db.transaction('documents').objectStore('documents').index('projectId').getAll(projectId)
+    )
+    const indexedById = new Map(indexed.map(entry => [entry.documentId, entry]))
+    const currentIds = new Set(documents.map(d => d.id))
+
+    for (const entry of indexed) {
+      if (!currentIds.has(entry.documentId)) {
+        await replaceDocumentSegments(db, entry.documentId, null, [])
+      }
+    }
+
+    const stale = documents
+      .map(doc => ({ doc, hash: hashContent(doc.content || '') }))
+      .filter(({ doc, hash }) => indexedById.get(doc.id)?.hash !== hash)
+
+    for (let i = 0; i < stale.length; i++) {
+      const { doc, hash } = stale[i]
+      onProgress?.({ phase: 'indexing', done: i, total: stale.length })
+
+      const passages = segmentText(doc.content || '')
+      const vectors = await embedTexts(
+        passages.map(p => p.text),
+        progress => onProgress?.({ phase: 'model', progress })
+      )
+      const segments: IndexedSegment[] = passages.map((passage, j) => ({
+        ...passage,
+        id: `${doc.id}:${passage.startOffset}`,
+        projectId,
+        documentId: doc.id,
+        vector: vectors[j],
+      }))
+
+      await replaceDocumentSegments(db, doc.id, {
+        documentId: doc.id,
+        projectId,
+        hash,
+        segmentCount: segments.length,
+        indexedAt: new Date().toISOString(),
+      }, segments)
+    }
+
+    onProgress?.({ phase: 'indexing', done: stale.length, total: stale.length })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Passages of the project closest to the query text
+ */
+export async function searchProjectIndex(
+  projectId: string,
+  query: string,
+  options: {
+    limit?: number
+    minScore?: number
+    /** Return false to skip a passage, e.g. because it is already coded */
+    filter?: (segment: IndexedSegment) => boolean
+  } = {}
+): Promise<SemanticMatch[]> {
+  const { limit = 20, minScore = 0.3, filter } = options
+  const [queryVector] = await embedTexts([query])
+
+  const db = await openDatabase()
+  try {
+    const segments = await requestResult<IndexedSegment[]>(
+      db.transaction('segments').objectStore('segments').index('projectId').getAll(projectId)
+    )
+
+    return segments
+      .filter(segment => !filter || filter(segment))
+      .map(segment => ({ segment, score: cosineSimilarity(queryVector, segment.vector) }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Whether a passage overlaps any of the given ranges
+ */
+export function overlapsAny(
+  segment: { startOffset: number; endOffset: number },
+  ranges: { startOffset: number; endOffset: number }[]
+): boolean {
+  return ranges.some(r => r.startOffset < segment.endOffset && segment.startOffset < r.endOffset)
+}
@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { planChunks, stitchChunkSegments } from './transcription'
+import type { ProviderTranscript } from './transcriptionProviders'
+
+/**
+ * Long recordings are transcribed in overlapping chunks: every word once,
+ * at its time in the whole recording
+ */
+
+function transcript(segments: ProviderTranscript['segments']): ProviderTranscript {
+  return { text: segments.map((s) => s.text).join(' '), segments, language: 'german' }
+}
+
+describe('planChunks', () => {
+  it('overlaps neighbouring chunks and ends at the duration', () => {
+    expect(planChunks(65, 30, 5)).toEqual([
+      { start: 0, end: 30 },
+      { start: 25, end: 55 },
+      { start: 50, end: 65 },
+    ])
+  })
+
+  it('keeps a short recording in one chunk', () => {
+    expect(planChunks(20, 30, 5)).toEqual([{ start: 0, end: 20 }])
+  })
+})
+
+describe('stitchChunkSegments', () => {
+  // Seconds 25 to 30 are in both chunks
+  const chunks = planChunks(55, 30, 5)
+
+  const stitched = stitchChunkSegments(chunks, [
+    transcript([
+      { start: 0, end: 10, text: 'Guten Tag.' },
+      { start: 10, end: 26, text: 'Wie war Ihre Woche?' },
+      // Cut off by the end of the chunk
+      { start: 26, end: 30, text: 'Ich habe viel gear' },
+    ]),
+    transcript([
+      // Repeats the end of the previous chunk
+      { start: 0, end: 1, text: 'Woche?' },
+      {
+        start: 1,
+        end: 6,
+        text: 'Ich habe viel gearbeitet.',
+        words: [
+          { start: 1, end: 1.4, text: 'Ich' },
+          { start: 1.4, end: 2, text: 'habe' },
+        ],
+      },
+      { start: 6, end: 30, text: 'Und am Wochenende?' },
+    ]),
+  ])
+
+  it('takes a segment cut off at a chunk end from the next chunk', () => {
+    const texts = stitched.map((s) => s.text)
+    expect(texts).not.toContain('Ich habe viel gear')
+    expect(texts).toContain('Ich habe viel gearbeitet.')
+  })
+
+  it('drops segments repeated in the overlap', () => {
+    expect(stitched.map((s) => s.text)).toEqual([
+      'Guten Tag.',
+      'Wie war Ihre Woche?',
+      'Ich habe viel gearbeitet.',
+      'Und am Wochenende?',
+    ])
+    expect(stitched.map((s) => s.id)).toEqual([0, 1, 2, 3])
+  })
+
+  it('shifts segment and word times by the start of their chunk', () => {
+    expect(stitched.map((s) => [s.start, s.end])).toEqual([
+      [0, 10],
+      [10, 26],
+      [26, 31],
+      [31, 55],
+    ])
+    expect(stitched[2].words).toEqual([
+      { start: 26, end: 26.4, text: 'Ich' },
+      { start: 26.4, end: 27, text: 'habe' },
+    ])
+  })
+
+  it('drops segments of the earlier chunk past the middle of the overlap', () => {
+    const segments = stitchChunkSegments(chunks, [
+      transcript([
+        { start: 0, end: 27, text: 'Erster Teil.' },
+        { start: 28, end: 29, text: 'Ja.' },
+      ]),
+      transcript([
+        { start: 3, end: 4, text: 'Ja.' },
+        { start: 4, end: 10, text: 'Zweiter Teil.' },
+      ]),
+    ])
+
+    expect(segments.map((s) => [s.start, s.end, s.text])).toEqual([
+      [0, 27, 'Erster Teil.'],
+      [28, 29, 'Ja.'],
+      [29, 35, 'Zweiter Teil.'],
+    ])
+  })
+})
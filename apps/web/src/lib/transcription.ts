@@ -1,15 +1,41 @@
 /**
  * Audio/Video Transcription Service
- * Uses OpenAI's Whisper API for transcription
+ * Transcribes with the provider from the settings (see transcriptionProviders).
+ * Long recordings are decoded, split into overlapping chunks and the chunk
+ * transcripts stitched back together on their segment timestamps.
  */
 
-const OPENAI_API_URL = 'https://api.openai.com/v1/audio/transcriptions'
+import type { TranscriptSegmentInput } from './api'
+import { assignSpeakers, resolveDiarizationProvider } from './diarization'
+import {
+  WHISPER_SAMPLE_RATE,
+  resolveTranscriptionProvider,
+  type ProviderTranscript,
+  type TranscriptionProvider,
+  type TranscriptionProviderId,
+  type TranscriptWord,
+} from './transcriptionProviders'
+
+/** Seconds neighbouring chunks share, so no word is lost at a cut */
+const CHUNK_OVERLAP_SECONDS = 5
+
+/**
+ * Longest recording and largest file decoded in the browser. decodeAudioData
+ * needs the whole file in memory and returns all of its channels at once;
+ * 16 kHz samples alone take about 230 MB per channel and hour.
+ */
+const MAX_DECODE_SECONDS = 2 * 60 * 60
+const MAX_DECODE_BYTES = 500 * 1024 * 1024
 
 export interface TranscriptionSegment {
   id: number
   start: number // seconds
   end: number // seconds
   text: string
+  /** Diarization label ("SPEAKER_00") or the pseudonym it was renamed to */
+  speaker?: string | null
+  /** Word timestamps, if the provider reports them */
+  words?: TranscriptWord[]
 }
 
 export interface TranscriptionResult {
@@ -19,21 +45,61 @@ export interface TranscriptionResult {
   duration: number
 }
 
-// Get API key from localStorage
-function getOpenAIKey(): string | null {
-  return localStorage.getItem('openai-api-key')
+export interface TranscribeOptions {
+  /** Required with the ai-proxy */
+  projectId?: string
+  /** ISO 639-1 code or 'auto' */
+  language?: string
+  provider?: TranscriptionProviderId | 'auto'
+  /** Label segments with speakers, see diarization.ts */
+  diarize?: boolean
+  /** Known number of speakers for the diarization */
+  speakerCount?: number | null
 }
 
-export function hasOpenAIKey(): boolean {
-  return !!getOpenAIKey()
+export interface TranscriptionChunkProgress {
+  index: number
+  total: number
 }
 
-export function setOpenAIKey(key: string): void {
-  localStorage.setItem('openai-api-key', key)
+/** Part of a recording sent in one request, in seconds */
+export interface AudioChunk {
+  start: number
+  end: number
+}
+
+// `name` is what Whisper reports as detected language
+export const TRANSCRIPTION_LANGUAGES: { code: string; label: string; name?: string }[] = [
+  { code: 'auto', label: 'Automatisch erkennen' },
+  { code: 'de', label: 'Deutsch', name: 'german' },
+  { code: 'en', label: 'Englisch', name: 'english' },
+  { code: 'fr', label: 'Französisch', name: 'french' },
+  { code: 'es', label: 'Spanisch', name: 'spanish' },
+  { code: 'it', label: 'Italienisch', name: 'italian' },
+  { code: 'nl', label: 'Niederländisch', name: 'dutch' },
+  { code: 'pt', label: 'Portugiesisch', name: 'portuguese' },
+  { code: 'pl', label: 'Polnisch', name: 'polish' },
+  { code: 'tr', label: 'Türkisch', name: 'turkish' },
+  { code: 'ru', label: 'Russisch', name: 'russian' },
+  { code: 'uk', label: 'Ukrainisch', name: 'ukrainian' },
+  { code: 'ar', label: 'Arabisch', name: 'arabic' },
+  { code: 'fa', label: 'Persisch', name: 'persian' },
+]
+
+/**
+ * ISO code of a language as reported by a provider ("german" or "de");
+ * null for languages not in the list
+ */
+export function toLanguageCode(language: string | null): string | null {
+  if (!language) return null
+  const value = language.toLowerCase()
+  const entry = TRANSCRIPTION_LANGUAGES.find((l) => l.code === value || l.name === value)
+  return entry && entry.code !== 'auto' ? entry.code : null
 }
 
-export function clearOpenAIKey(): void {
-  localStorage.removeItem('openai-api-key')
+export function languageLabel(language: string): string {
+  const code = toLanguageCode(language)
+  return TRANSCRIPTION_LANGUAGES.find((l) => l.code === code)?.label || language
 }
 
 // Check if file is a supported audio/video format
@@ -108,117 +174,301 @@ export function formatTranscriptWithTimestamps(result: TranscriptionResult): str
     .join('\n')
 }
 
-// Transcribe audio/video file using OpenAI Whisper
-export async function transcribeFile(
-  file: File,
-  onProgress?: (progress: number, status: string) => void
-): Promise<TranscriptionResult> {
-  const apiKey = getOpenAIKey()
+// ============================================
+// CHUNKING
+// ============================================
 
-  // Demo mode if no API key
-  if (!apiKey) {
-    return transcribeFileDemo(file, onProgress)
+/**
+ * Splits a recording into chunks of `chunkSeconds` that overlap by `overlap`
+ */
+export function planChunks(duration: number, chunkSeconds: number, overlap = CHUNK_OVERLAP_SECONDS): AudioChunk[] {
+  const chunks: AudioChunk[] = []
+  let start = 0
+  for (;;) {
+    const end = Math.min(duration, start + chunkSeconds)
+    chunks.push({ start, end })
+    if (end >= duration) return chunks
+    start = end - overlap
   }
+}
+
+/**
+ * Joins chunk transcripts into one timeline. The overlap of two chunks is
+ * split in its middle; segments cut off at a chunk end are taken from the
+ * next chunk, which has them complete, and repeated segments are dropped.
+ */
+export function stitchChunkSegments(chunks: AudioChunk[], transcripts: ProviderTranscript[]): TranscriptionSegment[] {
+  const stitched: TranscriptionSegment[] = []
+  let lastEnd = 0
+
+  chunks.forEach((chunk, i) => {
+    const next = chunks[i + 1]
+    const cut = next ? (next.start + chunk.end) / 2 : Infinity
+
+    for (const segment of transcripts[i]?.segments || []) {
+      if (!segment.text) continue
+      const start = chunk.start + segment.start
+      const end = Math.min(chunk.start + segment.end, chunk.end)
+      if (start >= cut) continue
+      if (next && start >= next.start && end > chunk.end - 0.5) continue
+      if (start < lastEnd - 0.5) continue
+
+      stitched.push({
+        id: stitched.length,
+        start,
+        end: Math.max(start, end),
+        text: segment.text,
+        ...(segment.words && {
+          words: segment.words.map((word) => ({ ...word, start: chunk.start + word.start, end: chunk.start + word.end })),
+        }),
+      })
+      lastEnd = end
+    }
+  })
 
-  onProgress?.(10, 'Bereite Datei vor...')
+  return stitched
+}
 
-  // Check file size (max 25MB for Whisper)
-  const MAX_SIZE = 25 * 1024 * 1024
-  if (file.size > MAX_SIZE) {
-    throw new Error('Datei ist zu groß. Maximum: 25MB')
+/**
+ * Audio track as 16 kHz mono samples; decodeAudioData resamples to the
+ * rate of the context. Longer recordings are refused before decoding, they
+ * would exhaust the memory of the tab.
+ */
+async function decodeAudio(file: File, duration: number | null): Promise<Float32Array> {
+  if ((duration !== null && duration > MAX_DECODE_SECONDS) || file.size > MAX_DECODE_BYTES) {
+    throw new Error(
+      `Aufnahmen über ${MAX_DECODE_SECONDS / 3600} Stunden oder ${MAX_DECODE_BYTES / 1024 / 1024} MB ` +
+        'können im Browser nicht transkribiert werden. Bitte die Datei in kürzere Teile schneiden.'
+    )
   }
 
-  onProgress?.(20, 'Sende an Transkriptionsdienst...')
-
-  const formData = new FormData()
-  formData.append('file', file)
-  formData.append('model', 'whisper-1')
-  formData.append('response_format', 'verbose_json')
-  formData.append('language', 'de') // German by default
-
-  try {
-    const response = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: formData,
-    })
+  const context = new OfflineAudioContext(1, 1, WHISPER_SAMPLE_RATE)
+  const buffer = await context.decodeAudioData(await file.arrayBuffer()).catch(() => {
+    throw new Error('Audiospur konnte nicht dekodiert werden')
+  })
 
-    onProgress?.(60, 'Verarbeite Transkription...')
+  // Mixed down into the first channel, a copy would need another channel's memory
+  const mono = buffer.getChannelData(0)
+  for (let channel = 1; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < data.length; i++) mono[i] += data[i]
+  }
+  if (buffer.numberOfChannels > 1) {
+    for (let i = 0; i < mono.length; i++) mono[i] /= buffer.numberOfChannels
+  }
+  return mono
+}
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}))
-      throw new Error(error.error?.message || `API-Fehler: ${response.status}`)
-    }
+/**
+ * 16-bit PCM WAV, accepted by every Whisper API
+ */
+function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2)
+  const view = new DataView(buffer)
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i))
+  }
+
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + samples.length * 2, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, 1, true) // mono
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 2, true)
+  view.setUint16(32, 2, true)
+  view.setUint16(34, 16, true)
+  writeString(36, 'data')
+  view.setUint32(40, samples.length * 2, true)
+
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i]))
+    view.setInt16(44 + i * 2, value < 0 ? value * 0x8000 : value * 0x7fff, true)
+  }
+  return new Blob([buffer], { type: 'audio/wav' })
+}
+
+// ============================================
+// TRANSCRIPTION
+// ============================================
 
-    const data = await response.json()
-    onProgress?.(90, 'Finalisiere...')
-
-    const result: TranscriptionResult = {
-      text: data.text || '',
-      language: data.language || 'de',
-      duration: data.duration || 0,
-      segments: (data.segments || []).map((seg: any, idx: number) => ({
-        id: idx,
-        start: seg.start || 0,
-        end: seg.end || 0,
-        text: seg.text?.trim() || '',
-      })),
+/**
+ * Transcribe an audio/video file. Files within the provider's limits are
+ * sent as they are; everything else is transcribed chunk by chunk, with the
+ * end of the previous chunk as prompt and the language of the first chunk
+ * kept for the rest.
+ */
+export async function transcribeFile(
+  file: File,
+  onProgress?: (progress: number, status: string, chunk?: TranscriptionChunkProgress) => void,
+  options: TranscribeOptions = {}
+): Promise<TranscriptionResult> {
+  const provider = resolveTranscriptionProvider(options.provider)
+  if (!provider.isAvailable()) {
+    throw new Error(`${provider.label} ist nicht eingerichtet (Einstellungen → API)`)
+  }
+  const projectId = options.projectId || null
+  let language = options.language && options.language !== 'auto' ? options.language : null
+
+  onProgress?.(2, 'Bereite Datei vor...')
+  const duration = await getMediaDuration(file).catch(() => null)
+
+  let result: TranscriptionResult
+  let samples: Float32Array | null = null
+
+  if (
+    !provider.needsSamples &&
+    file.size <= provider.maxUploadBytes &&
+    duration !== null &&
+    duration <= provider.chunkSeconds + CHUNK_OVERLAP_SECONDS
+  ) {
+    onProgress?.(10, `Sende an ${provider.label}...`)
+    const transcript = await provider.transcribe({ audio: file, fileName: file.name, language, projectId })
+    result = {
+      text: transcript.text,
+      segments: stitchChunkSegments([{ start: 0, end: duration }], [transcript]),
+      language: toLanguageCode(transcript.language) || language || transcript.language || 'auto',
+      duration,
     }
+  } else {
+    onProgress?.(5, 'Dekodiere Audio...')
+    samples = await decodeAudio(file, duration)
+    result = await transcribeChunks(file, samples, provider, language, projectId, onProgress)
+  }
 
-    onProgress?.(100, 'Fertig!')
-    return result
-  } catch (error) {
-    console.error('Transcription error:', error)
-    throw error
+  if (options.diarize) {
+    const diarizer = resolveDiarizationProvider()
+    onProgress?.(92, `Erkenne Sprecher (${diarizer.label})...`)
+    if (diarizer.needsSamples && !samples) samples = await decodeAudio(file, duration)
+    const turns = await diarizer.diarize({
+      audio: file,
+      fileName: file.name,
+      samples: samples || undefined,
+      speakerCount: options.speakerCount || null,
+    })
+    result = { ...result, segments: assignSpeakers(result.segments, turns) }
   }
+
+  onProgress?.(100, 'Fertig!')
+  return result
 }
 
-// Demo transcription for testing without API key
-async function transcribeFileDemo(
+async function transcribeChunks(
   file: File,
-  onProgress?: (progress: number, status: string) => void
+  samples: Float32Array,
+  provider: TranscriptionProvider,
+  requestedLanguage: string | null,
+  projectId: string | null,
+  onProgress?: (progress: number, status: string, chunk?: TranscriptionChunkProgress) => void
 ): Promise<TranscriptionResult> {
-  onProgress?.(10, 'Demo-Modus: Bereite Datei vor...')
-
-  // Get actual duration if possible
-  let duration = 120 // default 2 minutes
-  try {
-    duration = await getMediaDuration(file)
-  } catch (e) {
-    console.warn('Could not get media duration:', e)
+  const total = samples.length / WHISPER_SAMPLE_RATE
+  const chunks = planChunks(total, provider.chunkSeconds)
+  const transcripts: ProviderTranscript[] = []
+  let language = requestedLanguage
+  let detected: string | null = null
+
+  for (let index = 0; index < chunks.length; index++) {
+    const chunk = chunks[index]
+    const chunkProgress = { index, total: chunks.length }
+    const report = (fraction: number, status: string) =>
+      onProgress?.(10 + (80 * (index + fraction)) / chunks.length, status, chunkProgress)
+    report(0, `Abschnitt ${index + 1} von ${chunks.length}...`)
+
+    const chunkSamples = samples.subarray(
+      Math.round(chunk.start * WHISPER_SAMPLE_RATE),
+      Math.round(chunk.end * WHISPER_SAMPLE_RATE)
+    )
+    const transcript = await provider.transcribe({
+      audio: encodeWav(chunkSamples, WHISPER_SAMPLE_RATE),
+      fileName: `${file.name.replace(/\.[^.]+$/, '')}-${index + 1}.wav`,
+      samples: chunkSamples,
+      language,
+      prompt: transcripts[index - 1]?.text.slice(-200),
+      projectId,
+      onProgress: report,
+    })
+    transcripts.push(transcript)
+
+    if (index === 0) {
+      detected = transcript.language
+      language = language || toLanguageCode(detected)
+    }
   }
 
-  onProgress?.(30, 'Demo-Modus: Generiere Beispiel-Transkript...')
+  const segments = stitchChunkSegments(chunks, transcripts)
+  return {
+    text: segments.map((s) => s.text).join(' '),
+    segments,
+    language: language || detected || 'auto',
+    duration: total,
+  }
+}
 
-  // Simulate processing time
-  await new Promise((resolve) => setTimeout(resolve, 1500))
-  onProgress?.(60, 'Demo-Modus: Verarbeite Segmente...')
+// ============================================
+// SPEAKERS
+// ============================================
 
-  await new Promise((resolve) => setTimeout(resolve, 1000))
-  onProgress?.(90, 'Demo-Modus: Finalisiere...')
+/**
+ * Speaker labels of a transcript in order of first appearance
+ */
+export function transcriptSpeakers(result: TranscriptionResult): string[] {
+  return [...new Set(result.segments.map((s) => s.speaker).filter((s): s is string => !!s))]
+}
 
-  // Generate demo transcript based on file name
-  const baseName = file.name.replace(/\.[^.]+$/, '')
-  const demoSegments: TranscriptionSegment[] = [
-    { id: 0, start: 0, end: 15, text: `Dies ist eine Demo-Transkription der Datei "${baseName}".` },
-    { id: 1, start: 15, end: 35, text: 'Die echte Transkription benötigt einen OpenAI API-Schlüssel.' },
-    { id: 2, start: 35, end: 55, text: 'Sie können den Schlüssel in den Einstellungen konfigurieren.' },
-    { id: 3, start: 55, end: 75, text: 'Das Whisper-Modell unterstützt über 50 Sprachen und erkennt die Sprache automatisch.' },
-    { id: 4, start: 75, end: 95, text: 'Die Transkription enthält Zeitstempel für jeden Abschnitt.' },
-    { id: 5, start: 95, end: duration, text: 'Dies ermöglicht präzises Kodieren von Audio- und Videomaterial.' },
-  ]
+/**
+ * Replace diarization labels with pseudonyms; labels without a name are
+ * kept, two labels renamed alike are merged into one speaker
+ */
+export function renameSpeakers(result: TranscriptionResult, names: Record<string, string>): TranscriptionResult {
+  return {
+    ...result,
+    segments: result.segments.map((seg) =>
+      seg.speaker && names[seg.speaker]?.trim() ? { ...seg, speaker: names[seg.speaker].trim() } : seg
+    ),
+  }
+}
 
-  await new Promise((resolve) => setTimeout(resolve, 500))
-  onProgress?.(100, 'Demo-Modus: Fertig!')
+// ============================================
+// DOCUMENT
+// ============================================
 
-  return {
-    text: demoSegments.map((s) => s.text).join(' '),
-    segments: demoSegments.filter((s) => s.end <= duration),
-    language: 'de',
-    duration,
+// Convert transcription to document content plus the character range of
+// every segment in it, so the segments can be stored with their timing
+export function transcriptionToDocument(
+  result: TranscriptionResult,
+  includeTimestamps: boolean = true
+): { content: string; segments: TranscriptSegmentInput[] } {
+  if (result.segments.length === 0) {
+    return { content: result.text, segments: [] }
   }
+
+  // Speaker names precede the segment text, like the timestamps outside its range
+  let content = ''
+  let previousSpeaker: string | null | undefined
+  const segments = result.segments.map((seg, idx) => {
+    const speaker = seg.speaker || null
+    const speakerChanged = speaker !== previousSpeaker
+    previousSpeaker = speaker
+    if (idx > 0) content += includeTimestamps ? '\n' : speakerChanged ? '\n\n' : ' '
+    if (includeTimestamps) content += `[${formatTimestamp(seg.start)}] `
+    if (speaker && (includeTimestamps || speakerChanged)) content += `${speaker}: `
+    const startOffset = content.length
+    content += seg.text
+    return {
+      position: idx,
+      startTime: seg.start,
+      endTime: seg.end,
+      startOffset,
+      endOffset: content.length,
+      text: seg.text,
+      speaker,
+      words: seg.words || null,
+    }
+  })
+
+  return { content, segments }
 }
 
 // Convert transcription to document content
@@ -226,8 +476,5 @@ export function transcriptionToDocumentContent(
   result: TranscriptionResult,
   includeTimestamps: boolean = true
 ): string {
-  if (includeTimestamps && result.segments.length > 0) {
-    return formatTranscriptWithTimestamps(result)
-  }
-  return result.text
+  return transcriptionToDocument(result, includeTimestamps).content
 }
@@ -0,0 +1,368 @@
+/**
+ * Transcription Providers
+ * Where audio is transcribed: OpenAI Whisper (through the ai-proxy Edge
+ * Function or with a local key), a self-hosted Whisper server (whisper.cpp,
+ * faster-whisper) or Whisper running in the browser (transformers.js/WASM).
+ *
+ * Sensitive recordings can stay on our own servers or in the browser; the
+ * provider is chosen in the settings and per upload.
+ */
+
+import type { AutomaticSpeechRecognitionPipeline, ProgressInfo } from '@huggingface/transformers'
+import { directCallsAllowed, isProxyAvailable, proxyHeaders, proxyUrl } from './aiProxy'
+
+const OPENAI_API_URL = 'https://api.openai.com/v1/audio/transcriptions'
+
+/** Whisper models work on 16 kHz mono audio */
+export const WHISPER_SAMPLE_RATE = 16000
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TranscriptionProviderId = 'openai' | 'whisper-server' | 'browser'
+
+export interface TranscriptionRequest {
+  /** Original file, or a WAV chunk of a long recording */
+  audio: Blob
+  fileName: string
+  /** 16 kHz mono samples of the same audio, for providers that need them */
+  samples?: Float32Array
+  /** ISO 639-1 code; null lets the model detect the language */
+  language: string | null
+  /** End of the previous chunk's transcript, keeps names and spelling consistent */
+  prompt?: string
+  projectId: string | null
+  /** Progress within this request, 0..1 (only reported by the browser provider) */
+  onProgress?: (fraction: number, status: string) => void
+}
+
+/** Word with its own timestamps, in seconds */
+export interface TranscriptWord {
+  start: number
+  end: number
+  text: string
+}
+
+/** Segment times are seconds from the start of the audio sent */
+export interface ProviderTranscript {
+  text: string
+  segments: { start: number; end: number; text: string; words?: TranscriptWord[] }[]
+  language: string | null
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId
+  label: string
+  description: string
+  /** Audio does not leave our servers or the browser */
+  local: boolean
+  /** Largest upload per request in bytes */
+  maxUploadBytes: number
+  /** Length of the chunks long recordings are split into, in seconds */
+  chunkSeconds: number
+  /** Works on decoded samples instead of the uploaded file */
+  needsSamples: boolean
+  isAvailable(): boolean
+  transcribe(request: TranscriptionRequest): Promise<ProviderTranscript>
+}
+
+// ============================================
+// SETTINGS
+// ============================================
+
+export type BrowserWhisperModel = 'onnx-community/whisper-tiny' | 'onnx-community/whisper-base' | 'onnx-community/whisper-small'
+
+export interface TranscriptionSettings {
+  /** 'auto': own Whisper server if configured, then OpenAI, then the browser */
+  provider: TranscriptionProviderId | 'auto'
+  /** e.g. http://whisper.intern:8080/inference (whisper.cpp) or .../v1/audio/transcriptions */
+  serverUrl: string
+  /** Model name sent to the server; whisper.cpp ignores it */
+  serverModel: string
+  browserModel: BrowserWhisperModel
+  /** pyannote service for speaker diarization, see diarization.ts */
+  diarizationUrl: string
+}
+
+export const BROWSER_WHISPER_MODELS: { id: BrowserWhisperModel; label: string }[] = [
+  { id: 'onnx-community/whisper-tiny', label: 'Tiny (~40 MB, schnell, ungenau)' },
+  { id: 'onnx-community/whisper-base', label: 'Base (~80 MB)' },
+  { id: 'onnx-community/whisper-small', label: 'Small (~250 MB, genauer, langsam)' },
+]
+
+const SETTINGS_KEY = 'transcription-settings'
+
+const DEFAULT_SETTINGS: TranscriptionSettings = {
+  provider: 'auto',
+  serverUrl: '',
+  serverModel: 'whisper-1',
+  browserModel: 'onnx-community/whisper-base',
+  diarizationUrl: '',
+}
+
+export function getTranscriptionSettings(): TranscriptionSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY)
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveTranscriptionSettings(settings: TranscriptionSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
+
+// OpenAI key for local development without backend; production builds
+// leave it out and transcribe through the proxy only
+function getOpenAIKey(): string | null {
+  return directCallsAllowed ? localStorage.getItem('openai-api-key') : null
+}
+
+export function hasOpenAIKey(): boolean {
+  return !!getOpenAIKey()
+}
+
+export function setOpenAIKey(key: string): void {
+  if (directCallsAllowed) localStorage.setItem('openai-api-key', key)
+}
+
+export function clearOpenAIKey(): void {
+  if (directCallsAllowed) localStorage.removeItem('openai-api-key')
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * Word of a verbose_json response: OpenAI and faster-whisper name the text
+ * `word`, some whisper.cpp builds `text`
+ */
+interface VerboseJsonWord {
+  start?: number
+  end?: number
+  word?: string
+  text?: string
+}
+
+interface VerboseJsonSegment {
+  start?: number
+  end?: number
+  text?: string
+  /** faster-whisper lists the words per segment */
+  words?: VerboseJsonWord[]
+}
+
+/**
+ * verbose_json response of the OpenAI API; whisper.cpp's server and
+ * faster-whisper servers answer in the same format
+ */
+interface VerboseJsonResponse {
+  text?: string
+  language?: string
+  segments?: VerboseJsonSegment[]
+  /** OpenAI lists the words at the top level (timestamp_granularities word) */
+  words?: VerboseJsonWord[]
+}
+
+async function parseVerboseJson(response: Response): Promise<ProviderTranscript> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error?.message || error.error || `API-Fehler: ${response.status}`)
+  }
+
+  const data: VerboseJsonResponse = await response.json()
+  // OpenAI lists words at the top level, faster-whisper inside the segments
+  const words: TranscriptWord[] = (data.words || (data.segments || []).flatMap((seg) => seg.words || []))
+    .map((word) => ({
+      start: word.start || 0,
+      end: word.end || 0,
+      text: (word.word ?? word.text ?? '').trim(),
+    }))
+    .filter((word) => word.text)
+
+  return {
+    text: (data.text || '').trim(),
+    language: data.language || null,
+    segments: (data.segments || []).map((seg) => {
+      const start = seg.start || 0
+      const end = seg.end || 0
+      const segmentWords = words.filter((word) => {
+        const middle = (word.start + word.end) / 2
+        return middle >= start && middle < end
+      })
+      return {
+        start,
+        end,
+        text: seg.text?.trim() || '',
+        ...(segmentWords.length > 0 && { words: segmentWords }),
+      }
+    }),
+  }
+}
+
+function transcriptionForm(request: TranscriptionRequest, model: string): FormData {
+  const formData = new FormData()
+  formData.append('file', request.audio, request.fileName)
+  formData.append('model', model)
+  formData.append('response_format', 'verbose_json')
+  // Word timestamps keep corrected transcripts aligned; servers without them ignore the field
+  formData.append('timestamp_granularities[]', 'segment')
+  formData.append('timestamp_granularities[]', 'word')
+  if (request.language) formData.append('language', request.language)
+  if (request.prompt) formData.append('prompt', request.prompt)
+  return formData
+}
+
+const openAIProvider: TranscriptionProvider = {
+  id: 'openai',
+  label: 'OpenAI Whisper',
+  description: 'Cloud-Transkription über die OpenAI API',
+  local: false,
+  maxUploadBytes: 25 * 1024 * 1024,
+  // 10 minutes of 16 kHz WAV stay below the 25 MB limit
+  chunkSeconds: 600,
+  needsSamples: false,
+
+  isAvailable: () => isProxyAvailable || hasOpenAIKey(),
+
+  async transcribe(request) {
+    const formData = transcriptionForm(request, 'whisper-1')
+    if (isProxyAvailable || !directCallsAllowed) {
+      const response = await fetch(proxyUrl('transcriptions'), {
+        method: 'POST',
+        headers: await proxyHeaders(request.projectId),
+        body: formData,
+      })
+      return parseVerboseJson(response)
+    }
+
+    const response = await fetch(OPENAI_API_URL, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${getOpenAIKey()}` },
+      body: formData,
+    })
+    return parseVerboseJson(response)
+  },
+}
+
+const whisperServerProvider: TranscriptionProvider = {
+  id: 'whisper-server',
+  label: 'Eigener Whisper-Server',
+  description: 'whisper.cpp oder faster-whisper im eigenen Netz',
+  local: true,
+  maxUploadBytes: 200 * 1024 * 1024,
+  chunkSeconds: 600,
+  needsSamples: false,
+
+  isAvailable: () => !!getTranscriptionSettings().serverUrl,
+
+  async transcribe(request) {
+    const settings = getTranscriptionSettings()
+    if (!settings.serverUrl) {
+      throw new Error('Kein Whisper-Server konfiguriert (Einstellungen → API)')
+    }
+    // whisper.cpp's /inference falls back to English without a language, it detects with "auto"
+    const isWhisperCpp = /\/inference\/?$/.test(settings.serverUrl)
+    const response = await fetch(settings.serverUrl, {
+      method: 'POST',
+      body: transcriptionForm(
+        { ...request, language: request.language || (isWhisperCpp ? 'auto' : null) },
+        settings.serverModel || 'whisper-1'
+      ),
+    }).catch(() => {
+      throw new Error(`Whisper-Server nicht erreichbar: ${settings.serverUrl}`)
+    })
+    return parseVerboseJson(response)
+  },
+}
+
+let transcriberPromise: { model: string; promise: Promise<AutomaticSpeechRecognitionPipeline> } | null = null
+
+/**
+ * Loads the Whisper model on first use; transformers.js is only downloaded then
+ */
+function loadTranscriber(
+  model: string,
+  onProgress?: (fraction: number, status: string) => void
+): Promise<AutomaticSpeechRecognitionPipeline> {
+  if (transcriberPromise?.model !== model) {
+    const promise = (async () => {
+      const { pipeline, env } = await import('@huggingface/transformers')
+      env.allowLocalModels = false
+      if (env.backends.onnx.wasm) {
+        env.backends.onnx.wasm.proxy = true
+      }
+      const transcriber = await pipeline('automatic-speech-recognition', model, {
+        device: 'wasm',
+        dtype: 'q8',
+        progress_callback: (info: ProgressInfo) => {
+          if (info.status === 'progress') onProgress?.(0, `Lade Whisper-Modell... ${Math.round(info.progress)}%`)
+        },
+      })
+      return transcriber as AutomaticSpeechRecognitionPipeline
+    })()
+    transcriberPromise = { model, promise }
+    // Allow a retry after network errors
+    promise.catch(() => {
+      if (transcriberPromise?.promise === promise) transcriberPromise = null
+    })
+  }
+  return transcriberPromise.promise
+}
+
+const browserProvider: TranscriptionProvider = {
+  id: 'browser',
+  label: 'Im Browser (WASM)',
+  description: 'Whisper läuft lokal in diesem Browser, langsamer',
+  local: true,
+  maxUploadBytes: Infinity,
+  // Short chunks so progress moves; the model itself works on 30 s windows
+  chunkSeconds: 120,
+  needsSamples: true,
+
+  isAvailable: () => typeof WebAssembly !== 'undefined',
+
+  async transcribe(request) {
+    if (!request.samples) throw new Error('Audio wurde nicht dekodiert')
+    const transcriber = await loadTranscriber(getTranscriptionSettings().browserModel, request.onProgress)
+    request.onProgress?.(0.1, 'Transkribiere im Browser...')
+
+    const output = await transcriber(request.samples, {
+      return_timestamps: true,
+      chunk_length_s: 30,
+      stride_length_s: 5,
+      language: request.language ?? undefined,
+      task: 'transcribe',
+    })
+    const result = Array.isArray(output) ? output[0] : output
+    const duration = request.samples.length / WHISPER_SAMPLE_RATE
+
+    return {
+      text: result.text.trim(),
+      // The model does not report the language it detected
+      language: request.language,
+      segments: (result.chunks || []).map((chunk) => ({
+        start: chunk.timestamp[0] ?? 0,
+        end: chunk.timestamp[1] ?? duration,
+        text: chunk.text.trim(),
+      })),
+    }
+  },
+}
+
+export const TRANSCRIPTION_PROVIDERS: TranscriptionProvider[] = [whisperServerProvider, openAIProvider, browserProvider]
+
+/**
+ * Provider for a setting; 'auto' prefers providers that keep the audio in house
+ */
+export function resolveTranscriptionProvider(
+  choice: TranscriptionProviderId | 'auto' = getTranscriptionSettings().provider
+): TranscriptionProvider {
+  if (choice !== 'auto') {
+    return TRANSCRIPTION_PROVIDERS.find((p) => p.id === choice)!
+  }
+  return TRANSCRIPTION_PROVIDERS.find((p) => p.isAvailable()) || browserProvider
+}
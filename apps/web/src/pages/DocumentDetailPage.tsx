@@ -1,13 +1,36 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useParams, Link } from 'react-router-dom'
 import Layout from '@/components/Layout'
 import DocumentViewerWithParaphrases from '@/components/DocumentViewerWithParaphrases'
 import CodeManager from '@/components/CodeManager'
 import AICodingPanel from '@/components/AICodingPanel'
+import SimilarSegmentsPanel from '@/components/SimilarSegmentsPanel'
+import DocumentAttributes from '@/components/DocumentAttributes'
+import MediaPlayer from '@/components/MediaPlayer'
+import MediaCodingTimeline from '@/components/MediaCodingTimeline'
+import TranscriptEditor from '@/components/TranscriptEditor'
 import PresenceIndicator, { ConnectionStatus } from '@/components/PresenceIndicator'
-import { runAICoding, claude, type CodingMethod } from '@/lib/claude'
+import { runAICoding, claude, type CodingMethod, type AICoding } from '@/lib/claude'
+import { aiUsageApi, codingExemplarsApi, codingsApi, transcriptSegmentsApi } from '@/lib/api'
+import type { SemanticMatch } from '@/lib/semanticSearch'
+import { toCodingExemplars, type CodingExemplarRow } from '@/lib/activeLearning'
+import {
+  isTimeCodedDocument,
+  isTimeCoding,
+  offsetToTime,
+  segmentAtTime,
+  timeRangeLabel,
+  toTranscriptSegments,
+  type MediaRegion,
+  type TimeRange,
+  type TranscriptSegment,
+} from '@/lib/mediaSync'
+import { formatTimestamp } from '@/lib/transcription'
+import { estimateRun, exceededBudget, formatUsd, usageCost } from '@/lib/aiUsage'
 import { useProjectStore } from '@/stores/projectStore'
 import { useParaphraseStore } from '@/stores/paraphraseStore'
+import { isRoundOpen, useRoundStore } from '@/stores/roundStore'
+import { useAuthStore } from '@/stores/authStore'
 import { useRealtime } from '@/hooks/useRealtime'
 import { usePresence } from '@/hooks/usePresence'
 import { useMethodologyContext } from '@/contexts/MethodologyContext'
@@ -53,6 +76,7 @@ export default function DocumentDetailPage() {
     createCoding,
     deleteCoding,
     createCodingsBatch,
+    updateDocument,
   } = useProjectStore()
 
   // Methodology context - ensures FloatingGuideButton shows on this page
@@ -61,11 +85,33 @@ export default function DocumentDetailPage() {
   // Paraphrase store
   const { fetchParaphrases, fetchCategories, paraphrases } = useParaphraseStore()
 
+  // Blind coding rounds - only own codings are visible while a round is open
+  const { user } = useAuthStore()
+  const { rounds, fetchRounds, getActiveRound } = useRoundStore()
+  const activeRound = documentId ? getActiveRound(documentId, user?.id) : null
+  // Other coders' codings may be hidden, they could not follow a text edit (see migration 038)
+  const inOpenRound = !!documentId && rounds.some((r) => isRoundOpen(r) && r.documentIds.includes(documentId))
+
   const [showAICoding, setShowAICoding] = useState(false)
   const [isAIProcessing, setIsAIProcessing] = useState(false)
   const [aiProgress, setAIProgress] = useState(0)
   const [aiStatus, setAIStatus] = useState('')
   const [aiError, setAIError] = useState<string | null>(null)
+  const [liveCodings, setLiveCodings] = useState<(AICoding & { source: string })[]>([])
+  const [exemplarRows, setExemplarRows] = useState<CodingExemplarRow[]>([])
+  const [similarTo, setSimilarTo] = useState<ViewerCoding | null>(null)
+
+  // Media documents: timed transcript segments for the player
+  const [segments, setSegments] = useState<TranscriptSegment[]>([])
+  const [playingSegment, setPlayingSegment] = useState<TranscriptSegment | null>(null)
+  const [seekRequest, setSeekRequest] = useState<{ time: number } | null>(null)
+  const [correcting, setCorrecting] = useState(false)
+
+  // Media documents without transcript: codings on time ranges (and video regions)
+  const [playTime, setPlayTime] = useState(0)
+  const [timeSelection, setTimeSelection] = useState<TimeRange | null>(null)
+  const [pendingRegion, setPendingRegion] = useState<MediaRegion | null>(null)
+  const [drawingRegion, setDrawingRegion] = useState(false)
 
   // Real-time subscriptions
   useRealtime({ projectId, documentId, enabled: true })
@@ -78,19 +124,43 @@ export default function DocumentDetailPage() {
     }
   }, [projectId, setMethodologyProjectId])
 
+  // AI requests (coding, paraphrases) are authorized and billed per project
+  useEffect(() => {
+    claude.setProjectId(projectId || null)
+    return () => claude.setProjectId(null)
+  }, [projectId])
+
+  // Reviewed AI codings of the project are passed to the next AI run as exemplars
+  useEffect(() => {
+    if (!showAICoding || !projectId) return
+    codingExemplarsApi.getByProject(projectId).then(({ data }) => setExemplarRows(data || []))
+  }, [showAICoding, projectId])
+  const exemplars = useMemo(() => toCodingExemplars(exemplarRows, codes), [exemplarRows, codes])
+
   // Fetch data on mount
   useEffect(() => {
     if (projectId) {
       fetchProject(projectId)
       fetchCodes(projectId)
       fetchCategories(projectId)  // Paraphrase categories
+      fetchRounds(projectId)
     }
     if (documentId) {
       fetchDocument(documentId)
       fetchCodings(documentId)
       fetchParaphrases(documentId)  // Paraphrases
     }
-  }, [projectId, documentId, fetchProject, fetchDocument, fetchCodes, fetchCodings, fetchParaphrases, fetchCategories])
+  }, [projectId, documentId, fetchProject, fetchDocument, fetchCodes, fetchCodings, fetchParaphrases, fetchCategories, fetchRounds])
+
+  const hasMedia = !!currentDocument?.filePath && !!currentDocument.mediaType
+  const timeCoded = !!currentDocument && hasMedia && isTimeCodedDocument(currentDocument)
+  useEffect(() => {
+    setSegments([])
+    setPlayingSegment(null)
+    setCorrecting(false)
+    if (!documentId || !hasMedia) return
+    transcriptSegmentsApi.getByDocument(documentId).then(({ data }) => setSegments(toTranscriptSegments(data || [])))
+  }, [documentId, hasMedia])
 
   // Convert store data to viewer format
   const viewerCodes: ViewerCode[] = codes.map((code) => ({
@@ -101,7 +171,10 @@ export default function DocumentDetailPage() {
     parentId: code.parentId,
   }))
 
-  const viewerCodings: ViewerCoding[] = codings.map((coding) => {
+  // RLS hides other coders' codings; filter here as well for demo mode
+  const visibleCodings = activeRound ? codings.filter((c) => c.codedBy === user?.id) : codings
+
+  const viewerCodings: ViewerCoding[] = visibleCodings.filter((coding) => !isTimeCoding(coding)).map((coding) => {
     const code = codes.find((c) => c.id === coding.codeId)
     return {
       id: coding.id,
@@ -126,13 +199,70 @@ export default function DocumentDetailPage() {
       selectedText: coding.selectedText,
       memo: coding.memo,
       codingMethod: 'manual',
+      roundId: activeRound?.id,
     })
   }
 
+  const timeCodings = visibleCodings.filter(isTimeCoding)
+
+  const handleAddTimeCoding = async (codeId: string, range: TimeRange) => {
+    if (!documentId) return
+
+    await createCoding({
+      documentId,
+      codeId,
+      startOffset: 0,
+      endOffset: 0,
+      selectedText: timeRangeLabel(range),
+      codingMethod: 'manual',
+      roundId: activeRound?.id,
+      startTime: range.start,
+      endTime: range.end,
+      region: pendingRegion,
+    })
+    setPendingRegion(null)
+  }
+
+  const handleCodingClick = (coding: ViewerCoding) => {
+    const time = offsetToTime(segments, coding.startOffset)
+    if (time !== null) setSeekRequest({ time })
+  }
+
   const handleRemoveCoding = async (codingId: string) => {
     await deleteCoding(codingId)
   }
 
+  // Segment offsets and words moved with the corrections, reload them
+  const handleSaveCorrections = async (content: string) => {
+    if (!documentId) return false
+    const saved = await updateDocument(documentId, { content })
+    if (saved) {
+      const { data } = await transcriptSegmentsApi.getByDocument(documentId)
+      setSegments(toTranscriptSegments(data || []))
+      setPlayingSegment(null)
+    }
+    return saved
+  }
+
+  // Similar passages may lie in other documents; only this document's codings live in the store
+  const handleApplySimilar = async (match: SemanticMatch) => {
+    if (!similarTo) return
+    const coding = {
+      documentId: match.segment.documentId,
+      codeId: similarTo.codeId,
+      startOffset: match.segment.startOffset,
+      endOffset: match.segment.endOffset,
+      selectedText: match.segment.text,
+      codingMethod: 'manual',
+      roundId: getActiveRound(match.segment.documentId, user?.id)?.id,
+    }
+    if (match.segment.documentId === documentId) {
+      await createCoding(coding)
+    } else {
+      await codingsApi.create(coding)
+    }
+  }
+
   const handleAddCode = async (code: Omit<ViewerCode, 'id'>) => {
     if (!projectId) return
 
@@ -158,16 +288,17 @@ export default function DocumentDetailPage() {
     await deleteCode(id)
   }
 
-  const handleStartAICoding = async (method: string) => {
+  const handleStartAICoding = async (method: string, model: string) => {
     if (!currentDocument || !projectId || !documentId) return
 
     setIsAIProcessing(true)
     setAIProgress(0)
     setAIStatus('Initialisiere...')
     setAIError(null)
+    setLiveCodings([])
 
-    // Check if API key is set
-    if (!claude.hasApiKey()) {
+    // Check if API key is set (or an offline transport is active)
+    if (!claude.isReady()) {
       setAIError('Kein Claude API-Schlüssel konfiguriert. Bitte fügen Sie Ihren API-Schlüssel in den Einstellungen hinzu.')
       setIsAIProcessing(false)
       return
@@ -176,12 +307,27 @@ export default function DocumentDetailPage() {
     try {
       // Convert existing codes to the format expected by the API
       const existingCodesForAPI = codes.map((code) => ({
+        id: code.id,
         name: code.name,
         description: code.description || undefined,
         color: code.color,
       }))
 
+      // Budgets may have been used up by others since the panel was opened
+      const estimate = estimateRun(currentDocument.content || '', method as CodingMethod, model, existingCodesForAPI, exemplars)
+      const { data: budgets } = await aiUsageApi.getBudgetStatus(projectId)
+      const budget = exceededBudget(budgets || [], estimate.cost)
+      if (budget) {
+        setAIError(
+          `Budget überschritten: ${formatUsd(budget.spentUsd)} von ${formatUsd(budget.limitUsd)} verbraucht, ` +
+          `diese Kodierung kostet etwa ${formatUsd(estimate.cost)}.`
+        )
+        setIsAIProcessing(false)
+        return
+      }
+
       // Run the actual AI coding
+      claude.setUsageLabel({ method, documentId })
       const result = await runAICoding(
         currentDocument.content || '',
         method as CodingMethod,
@@ -189,8 +335,24 @@ export default function DocumentDetailPage() {
         (progress, status) => {
           setAIProgress(progress)
           setAIStatus(status)
-        }
-      )
+        },
+        (coding, source) => setLiveCodings((prev) => [...prev, { ...coding, source }]),
+        model,
+        exemplars
+      ).finally(() => claude.setUsageLabel(null))
+
+      // Record actual spend in the usage ledger (the proxy records its requests itself)
+      if (!claude.usesProxy()) {
+        await aiUsageApi.record({
+          projectId,
+          documentId,
+          model: result.model,
+          method,
+          inputTokens: result.usage.inputTokens,
+          outputTokens: result.usage.outputTokens,
+          costUsd: usageCost(result.usage, result.model),
+        })
+      }
 
       // Process the results
       const codingsToCreate: {
@@ -201,6 +363,8 @@ export default function DocumentDetailPage() {
         selectedText: string
         memo?: string
         codingMethod: string
+        confidence: number
+        roundId?: string
       }[] = []
 
       // First, create any new codes
@@ -260,6 +424,8 @@ export default function DocumentDetailPage() {
             selectedText: aiCoding.selectedText,
             memo: aiCoding.reasoning,
             codingMethod: method,
+            confidence: aiCoding.confidence,
+            roundId: activeRound?.id,
           })
         }
       }
@@ -336,7 +502,9 @@ export default function DocumentDetailPage() {
             <h1 className="text-2xl font-bold text-surface-100">{currentDocument.name}</h1>
             <div className="flex items-center gap-4 mt-1">
               <p className="text-surface-400">
-                {currentDocument.wordCount} Wörter · {codings.length} Kodierungen · {paraphrases.filter(p => p.documentId === documentId).length} Paraphrasen
+                {timeCoded && currentDocument.mediaDuration
+                  ? formatTimestamp(currentDocument.mediaDuration)
+                  : `${currentDocument.wordCount} Wörter`} · {visibleCodings.length} Kodierungen · {paraphrases.filter(p => p.documentId === documentId).length} Paraphrasen
               </p>
               <ConnectionStatus isConnected={isConnected} />
             </div>
@@ -352,18 +520,42 @@ export default function DocumentDetailPage() {
               </svg>
               Export
             </button>
-            <button
-              onClick={() => setShowAICoding(true)}
-              className="px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium flex items-center gap-2"
-            >
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-              </svg>
-              AI Kodieren
-            </button>
+            {hasMedia && !timeCoded && segments.length > 0 && !correcting && (
+              <button
+                onClick={() => setCorrecting(true)}
+                disabled={inOpenRound}
+                title={inOpenRound ? 'Der Text bleibt unverändert, solange eine offene Kodierrunde das Dokument enthält' : undefined}
+                className="px-4 py-2 rounded-lg border border-surface-700 text-surface-300 hover:bg-surface-800 text-sm font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+                Transkript korrigieren
+              </button>
+            )}
+            {!timeCoded && (
+              <button
+                onClick={() => setShowAICoding(true)}
+                className="px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                AI Kodieren
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Blind Coding Round */}
+        {activeRound && (
+          <div className="mb-4 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-amber-300 text-sm">
+            Blinde Kodierrunde „{activeRound.name}“
+            {activeRound.endsAt && ` bis ${new Date(activeRound.endsAt).toLocaleDateString('de-DE')}`}
+            {' '}– Sie sehen nur Ihre eigenen Kodierungen.
+          </div>
+        )}
+
         {/* Main Content */}
         <div className="grid gap-6 lg:grid-cols-[1fr_280px]">
           {/* Document Viewer */}
@@ -374,16 +566,99 @@ export default function DocumentDetailPage() {
                 <p className="text-surface-400">Kodierungen werden geladen...</p>
               </div>
             </div>
+          ) : timeCoded ? (
+            <div className="space-y-4 min-w-0">
+              <MediaPlayer
+                filePath={currentDocument.filePath!}
+                mediaType={currentDocument.mediaType!}
+                segments={[]}
+                seekRequest={seekRequest}
+                onTimeUpdate={setPlayTime}
+                regions={timeCodings
+                  .filter((c) => c.region && playTime >= c.startTime! && playTime <= c.endTime!)
+                  .map((c) => ({
+                    id: c.id,
+                    color: codes.find((code) => code.id === c.codeId)?.color || '#888888',
+                    region: c.region!,
+                  }))}
+                pendingRegion={pendingRegion}
+                onRegionDrawn={drawingRegion ? (region) => {
+                  setPendingRegion(region)
+                  setDrawingRegion(false)
+                } : undefined}
+              />
+              <MediaCodingTimeline
+                filePath={currentDocument.filePath!}
+                mediaType={currentDocument.mediaType!}
+                duration={currentDocument.mediaDuration || 0}
+                codes={viewerCodes}
+                codings={timeCodings.map((c) => ({
+                  id: c.id,
+                  codeId: c.codeId,
+                  start: c.startTime!,
+                  end: c.endTime!,
+                  hasRegion: !!c.region,
+                  memo: c.memo || undefined,
+                }))}
+                currentTime={playTime}
+                selection={timeSelection}
+                onSelectionChange={setTimeSelection}
+                onSeek={(time) => setSeekRequest({ time })}
+                onAddCoding={handleAddTimeCoding}
+                onRemoveCoding={handleRemoveCoding}
+                toolbar={currentDocument.mediaType === 'video' && (
+                  pendingRegion ? (
+                    <button onClick={() => setPendingRegion(null)} className="text-amber-400 hover:text-amber-300">
+                      Bildbereich verwerfen
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setDrawingRegion(!drawingRegion)}
+                      title="Der Bildbereich gilt für die nächste Kodierung"
+                      className={drawingRegion ? 'text-amber-400' : 'text-primary-400 hover:text-primary-300'}
+                    >
+                      {drawingRegion ? 'Markieren abbrechen' : 'Bildbereich markieren'}
+                    </button>
+                  )
+                )}
+              />
+            </div>
           ) : (
-            <DocumentViewerWithParaphrases
-              content={currentDocument.content || ''}
-              documentId={documentId!}
-              projectId={projectId!}
-              codings={viewerCodings}
-              codes={viewerCodes}
-              onAddCoding={handleAddCoding}
-              onRemoveCoding={handleRemoveCoding}
-            />
+            <div className="space-y-4 min-w-0">
+              {hasMedia && (
+                <MediaPlayer
+                  filePath={currentDocument.filePath!}
+                  mediaType={currentDocument.mediaType!}
+                  segments={segments}
+                  seekRequest={seekRequest}
+                  onTimeUpdate={(time) => setPlayingSegment(segmentAtTime(segments, time))}
+                />
+              )}
+              {correcting ? (
+                <TranscriptEditor
+                  content={currentDocument.content || ''}
+                  segments={segments}
+                  codings={codings}
+                  playingSegmentId={playingSegment?.id || null}
+                  onSeek={(time) => setSeekRequest({ time })}
+                  onSave={handleSaveCorrections}
+                  onClose={() => setCorrecting(false)}
+                />
+              ) : (
+                <DocumentViewerWithParaphrases
+                  content={currentDocument.content || ''}
+                  documentId={documentId!}
+                  projectId={projectId!}
+                  codings={viewerCodings}
+                  codes={viewerCodes}
+                  onAddCoding={handleAddCoding}
+                  onRemoveCoding={handleRemoveCoding}
+                  onFindSimilar={setSimilarTo}
+                  onCodingClick={segments.length > 0 ? handleCodingClick : undefined}
+                  playbackRange={playingSegment && { start: playingSegment.startOffset, end: playingSegment.endOffset }}
+                />
+              )}
+            </div>
           )}
 
           {/* Sidebar */}
@@ -410,8 +685,8 @@ export default function DocumentDetailPage() {
                   <p className="text-sm text-surface-500">Noch keine Codes vorhanden</p>
                 ) : (
                   viewerCodes.map((code) => {
-                    const count = viewerCodings.filter((c) => c.codeId === code.id).length
-                    const percentage = viewerCodings.length > 0 ? (count / viewerCodings.length) * 100 : 0
+                    const count = visibleCodings.filter((c) => c.codeId === code.id).length
+                    const percentage = visibleCodings.length > 0 ? (count / visibleCodings.length) * 100 : 0
                     return (
                       <div key={code.id} className="flex items-center gap-2">
                         <span
@@ -432,20 +707,43 @@ export default function DocumentDetailPage() {
                 )}
               </div>
             </div>
+
+            {/* Document Attributes - filterable in queries with @key=value */}
+            <DocumentAttributes
+              attributes={currentDocument.attributes || {}}
+              onChange={async (attributes) => {
+                await updateDocument(currentDocument.id, { attributes })
+              }}
+            />
           </div>
         </div>
 
+        {/* Similar Passages */}
+        {similarTo && (
+          <SimilarSegmentsPanel
+            projectId={projectId!}
+            coding={similarTo}
+            onApply={handleApplySimilar}
+            onClose={() => setSimilarTo(null)}
+          />
+        )}
+
         {/* AI Coding Panel */}
         {showAICoding && (
           <AICodingPanel
             documentId={currentDocument.id}
             documentName={currentDocument.name}
+            projectId={projectId!}
+            documentContent={currentDocument.content || ''}
+            existingCodes={codes}
+            exemplars={exemplars}
             onStartCoding={handleStartAICoding}
             onClose={() => !isAIProcessing && setShowAICoding(false)}
             isProcessing={isAIProcessing}
             progress={aiProgress}
             statusMessage={aiStatus}
             error={aiError}
+            liveCodings={liveCodings}
           />
         )}
       </div>
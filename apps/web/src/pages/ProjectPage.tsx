@@ -5,10 +5,11 @@ import IRRPanel from '@/components/IRRPanel'
 import ActivityFeed from '@/components/ActivityFeed'
 import ExportModal from '@/components/ExportModal'
 import DocumentUpload from '@/components/DocumentUpload'
-import MediaUpload from '@/components/MediaUpload'
+import MediaUpload, { type MediaDocument } from '@/components/MediaUpload'
 import SearchPanel from '@/components/SearchPanel'
 import AnalysisDashboard from '@/components/AnalysisDashboard'
 import TeamManager from '@/components/TeamManager'
+import CodingRoundManager from '@/components/CodingRoundManager'
 import MemoPanel from '@/components/MemoPanel'
 import ReportGenerator from '@/components/ReportGenerator'
 import KeyboardShortcutsHelp from '@/components/KeyboardShortcutsHelp'
@@ -18,15 +19,23 @@ import DataQualityDashboard from '@/components/DataQualityDashboard'
 import ThesisGenerator from '@/components/ThesisGenerator'
 import MethodologyGuide from '@/components/MethodologyGuide'
 import ParaphraseOverview from '@/components/ParaphraseOverview'
+import HistoryPanel from '@/components/HistoryPanel'
+import ValidationQueue from '@/components/ValidationQueue'
 import { useProjectStore, type Document, type Code } from '@/stores/projectStore'
 import { useMemoStore } from '@/stores/memoStore'
+import { useTeamStore } from '@/stores/teamStore'
 import { useParaphraseStore } from '@/stores/paraphraseStore'
+import { useAuthStore } from '@/stores/authStore'
+import { transcriptSegmentsApi, type TranscriptSegmentRow } from '@/lib/api'
+import { storageService } from '@/lib/storage'
+import { supabaseUrl } from '@/lib/supabase'
+import { groupSegmentsByDocument } from '@/lib/mediaSync'
 import { useRealtime } from '@/hooks/useRealtime'
 import { usePresence } from '@/hooks/usePresence'
 import { useKeyboardShortcuts, type KeyboardShortcut } from '@/hooks/useKeyboardShortcuts'
 import { useMethodologyContext } from '@/contexts/MethodologyContext'
 
-type TabType = 'documents' | 'codes' | 'memos' | 'paraphrases' | 'team' | 'analysis' | 'quality'
+type TabType = 'documents' | 'codes' | 'memos' | 'paraphrases' | 'team' | 'analysis' | 'validation' | 'quality'
 
 export default function ProjectPage() {
   const { projectId } = useParams()
@@ -88,7 +97,8 @@ export default function ProjectPage() {
     { key: '4', ctrl: true, action: () => setActiveTab('paraphrases'), description: 'Paraphrasen Tab', category: 'Navigation' },
     { key: '5', ctrl: true, action: () => setActiveTab('team'), description: 'Team Tab', category: 'Navigation' },
     { key: '6', ctrl: true, action: () => setActiveTab('analysis'), description: 'Analyse Tab', category: 'Navigation' },
-    { key: '7', ctrl: true, action: () => setActiveTab('quality'), description: 'Qualität Tab', category: 'Navigation' },
+    { key: '7', ctrl: true, action: () => setActiveTab('validation'), description: 'Validierung Tab', category: 'Navigation' },
+    { key: '8', ctrl: true, action: () => setActiveTab('quality'), description: 'Qualität Tab', category: 'Navigation' },
     { key: 'Escape', action: () => { setShowSearch(false); setShowExportModal(false); setShowNewDocument(false); setShowReportGenerator(false); setShowShortcutsHelp(false); setShowNexusChat(false); setShowThesisGenerator(false); closeGuide() }, description: 'Dialoge schließen', category: 'Navigation' },
   ], [openGuide, closeGuide])
 
@@ -115,6 +125,7 @@ export default function ProjectPage() {
 
   // Fetch memos
   const { memos, fetchMemos } = useMemoStore()
+  const teamMembers = useTeamStore((state) => state.members)
   useEffect(() => {
     if (projectId) {
       fetchMemos(projectId)
@@ -129,6 +140,16 @@ export default function ProjectPage() {
     }
   }, [projectId, fetchCategories])
 
+  // Timestamps and speakers of codings in media transcripts, for exports, search and analysis
+  const [segmentRows, setSegmentRows] = useState<TranscriptSegmentRow[]>([])
+  const needsSegments = showExportModal || showSearch || activeTab === 'analysis'
+  useEffect(() => {
+    if (needsSegments && projectId) {
+      transcriptSegmentsApi.getByProject(projectId).then(({ data }) => setSegmentRows(data || []))
+    }
+  }, [needsSegments, projectId])
+  const transcriptSegments = useMemo(() => groupSegmentsByDocument(segmentRows), [segmentRows])
+
   // Count paraphrases for this project
   const projectParaphraseCount = paraphrases.filter(p => p.projectId === projectId).length
 
@@ -139,6 +160,7 @@ export default function ProjectPage() {
     { id: 'paraphrases', name: 'Paraphrasen', count: projectParaphraseCount },
     { id: 'team', name: 'Team', count: 4 },
     { id: 'analysis', name: 'Analyse' },
+    { id: 'validation', name: 'Validierung' },
     { id: 'quality', name: 'Qualität' },
   ]
 
@@ -309,37 +331,49 @@ export default function ProjectPage() {
               <ParaphraseOverview projectId={projectId} />
             )}
             {activeTab === 'team' && projectId && (
-              <TeamManager projectId={projectId} />
+              <div className="space-y-8">
+                <TeamManager projectId={projectId} />
+                <CodingRoundManager projectId={projectId} />
+              </div>
             )}
             {activeTab === 'analysis' && (
               <AnalysisDashboard
                 codes={codes}
                 codings={codings}
                 documents={documents}
+                projectId={projectId}
+                transcriptSegments={transcriptSegments}
+                onOpenValidation={() => setActiveTab('validation')}
               />
             )}
+            {activeTab === 'validation' && projectId && (
+              <ValidationQueue projectId={projectId} />
+            )}
             {activeTab === 'quality' && (
-              <DataQualityDashboard
-                documents={documents.map(d => ({
-                  id: d.id,
-                  name: d.name,
-                  content: d.content,
-                  file_type: d.fileType,
-                  word_count: d.wordCount
-                }))}
-                codes={codes.map(c => ({
-                  id: c.id,
-                  name: c.name,
-                  description: c.description
-                }))}
-                codings={codings.map(c => ({
-                  id: c.id,
-                  document_id: c.documentId,
-                  code_id: c.codeId,
-                  selected_text: c.selectedText
-                }))}
-                language="de"
-              />
+              <div className="space-y-8">
+                <DataQualityDashboard
+                  documents={documents.map(d => ({
+                    id: d.id,
+                    name: d.name,
+                    content: d.content,
+                    file_type: d.fileType,
+                    word_count: d.wordCount
+                  }))}
+                  codes={codes.map(c => ({
+                    id: c.id,
+                    name: c.name,
+                    description: c.description
+                  }))}
+                  codings={codings.map(c => ({
+                    id: c.id,
+                    document_id: c.documentId,
+                    code_id: c.codeId,
+                    selected_text: c.selectedText
+                  }))}
+                  language="de"
+                />
+                {projectId && <HistoryPanel projectId={projectId} />}
+              </div>
             )}
           </>
         )}
@@ -355,6 +389,10 @@ export default function ProjectPage() {
               documents,
               codes,
               codings,
+              memos,
+              members: teamMembers.map((m) => ({ id: m.userId, name: m.name })),
+              transcriptSegments,
+              loadMediaFile,
             }}
             onClose={() => setShowExportModal(false)}
           />
@@ -383,6 +421,7 @@ export default function ProjectPage() {
             documents={documents}
             codes={codes}
             codings={codings}
+            transcriptSegments={transcriptSegments}
             onClose={() => setShowSearch(false)}
           />
         )}
@@ -528,23 +567,54 @@ function DocumentUploadWrapper({ projectId, onClose }: { projectId: string; onCl
   return <DocumentUpload onUpload={handleUpload} onBatchUpload={handleBatchUpload} onClose={onClose} />
 }
 
+// Media files of time-coded documents travel inside QDPX archives
+async function loadMediaFile(document: Document): Promise<Blob | null> {
+  if (!document.filePath) return null
+  const url = document.filePath.startsWith('blob:')
+    ? document.filePath
+    : await storageService.getSignedUrl(document.filePath)
+  if (!url) return null
+  const response = await fetch(url)
+  return response.ok ? response.blob() : null
+}
+
 function MediaUploadWrapper({ projectId, onClose }: { projectId: string; onClose: () => void }) {
   const { createDocument } = useProjectStore()
+  const { user } = useAuthStore()
+
+  const handleUpload = async (document: MediaDocument) => {
+    // Original file for the player; demo mode has no storage, the file lives for this session
+    let filePath: string
+    if (supabaseUrl) {
+      const upload = await storageService.uploadDocument(document.file, projectId, user?.id || 'anonymous')
+      if (!upload.success || !upload.filePath) {
+        throw new Error(`Mediendatei konnte nicht gespeichert werden: ${upload.error || 'Unbekannter Fehler'}`)
+      }
+      filePath = upload.filePath
+    } else {
+      filePath = URL.createObjectURL(document.file)
+    }
 
-  const handleUpload = async (document: { name: string; content: string; type: string; duration?: number }) => {
     const doc = await createDocument({
       projectId,
       name: document.name,
       content: document.content,
       fileType: document.type,
+      filePath,
+      mediaType: document.mediaType,
+      mediaDuration: document.duration,
     })
-
-    if (doc) {
-      onClose()
+    if (!doc) {
+      if (!filePath.startsWith('blob:')) await storageService.deleteDocument(filePath)
+      throw new Error('Dokument konnte nicht erstellt werden')
     }
+
+    const { error } = await transcriptSegmentsApi.replaceForDocument(doc.id, document.segments)
+    if (error) throw new Error(`Zeitstempel konnten nicht gespeichert werden: ${error.message}`)
+    onClose()
   }
 
-  return <MediaUpload onUpload={handleUpload} onClose={onClose} />
+  return <MediaUpload projectId={projectId} onUpload={handleUpload} onClose={onClose} />
 }
 
 function DocumentsTab({
@@ -3,7 +3,17 @@ import { useNavigate } from 'react-router-dom'
 import Layout from '@/components/Layout'
 import { useAuthStore } from '@/stores/authStore'
 import { claude } from '@/lib/claude'
-import { hasOpenAIKey, setOpenAIKey, clearOpenAIKey } from '@/lib/transcription'
+import {
+  hasOpenAIKey,
+  setOpenAIKey,
+  clearOpenAIKey,
+  getTranscriptionSettings,
+  saveTranscriptionSettings,
+  BROWSER_WHISPER_MODELS,
+  TRANSCRIPTION_PROVIDERS,
+  type BrowserWhisperModel,
+  type TranscriptionSettings as TranscriptionSettingsValues,
+} from '@/lib/transcriptionProviders'
 import { supabase } from '@/lib/supabase'
 import {
   useSubscriptionStore,
@@ -13,8 +23,20 @@ import {
   usePlanName
 } from '@/stores/subscriptionStore'
 import { openCustomerPortal, getPlanById } from '@/lib/stripe'
-
-type SettingsTab = 'profile' | 'organization' | 'api' | 'notifications'
+import { useProjectStore } from '@/stores/projectStore'
+import { useTeamStore } from '@/stores/teamStore'
+import {
+  aiKeysApi,
+  aiUsageApi,
+  documentsApi,
+  type AiBudgetWithUser,
+  type AiKeyProvider,
+  type AiUsageWithAuthor,
+} from '@/lib/api'
+import { directCallsAllowed, isProxyAvailable } from '@/lib/aiProxy'
+import { CODING_MODELS, formatTokens, formatUsd } from '@/lib/aiUsage'
+
+type SettingsTab = 'profile' | 'organization' | 'api' | 'usage' | 'notifications'
 
 export default function SettingsPage() {
   const { user } = useAuthStore()
@@ -48,6 +70,15 @@ export default function SettingsPage() {
         </svg>
       ),
     },
+    {
+      id: 'usage',
+      name: 'KI-Kosten',
+      icon: (
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      ),
+    },
     {
       id: 'notifications',
       name: 'Benachrichtigungen',
@@ -94,6 +125,7 @@ export default function SettingsPage() {
             {activeTab === 'profile' && <ProfileSettings user={user} />}
             {activeTab === 'organization' && <OrganizationSettings />}
             {activeTab === 'api' && <ApiSettings />}
+            {activeTab === 'usage' && <UsageSettings />}
             {activeTab === 'notifications' && <NotificationSettings />}
           </div>
         </div>
@@ -717,98 +749,117 @@ function ApiSettings() {
 
   return (
     <div className="space-y-6">
-      {/* Claude API Key */}
-      <div className="bg-surface-900 rounded-xl border border-surface-800 p-6">
-        <h2 className="text-lg font-semibold text-surface-100 mb-2">Claude API-Schlüssel</h2>
-        <p className="text-sm text-surface-400 mb-6">
-          Geben Sie Ihren Anthropic API-Schlüssel ein, um die AI-Kodierung zu nutzen.{' '}
-          <a
-            href="https://console.anthropic.com/settings/keys"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-primary-400 hover:text-primary-300"
-          >
-            API-Schlüssel erstellen
-          </a>
-        </p>
+      {/* Organization keys, held by the AI proxy */}
+      {isProxyAvailable && <OrganizationKeySettings />}
+
+      {/* Local development without backend: keys in this browser (not in production builds) */}
+      {!isProxyAvailable && !directCallsAllowed && (
+        <div className="bg-surface-900 rounded-xl border border-surface-800 p-6">
+          <h2 className="text-lg font-semibold text-surface-100 mb-2">KI-Funktionen</h2>
+          <p className="text-sm text-surface-400">
+            KI-Kodierung und Transkription laufen über den KI-Proxy und benötigen ein Supabase-Backend.
+          </p>
+        </div>
+      )}
+      {!isProxyAvailable && directCallsAllowed && (
+        <>
+        {/* Claude API Key */}
+        <div className="bg-surface-900 rounded-xl border border-surface-800 p-6">
+          <h2 className="text-lg font-semibold text-surface-100 mb-2">Claude API-Schlüssel</h2>
+          <p className="text-sm text-surface-400 mb-6">
+            Geben Sie Ihren Anthropic API-Schlüssel ein, um die AI-Kodierung zu nutzen.{' '}
+            <a
+              href="https://console.anthropic.com/settings/keys"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary-400 hover:text-primary-300"
+            >
+              API-Schlüssel erstellen
+            </a>
+          </p>
 
-        {/* Status Badge */}
-        {hasKey && (
-          <div className="mb-4 flex items-center gap-2">
-            <span className="w-2 h-2 rounded-full bg-green-500" />
-            <span className="text-sm text-green-400">API-Schlüssel konfiguriert</span>
-          </div>
-        )}
+          {/* Status Badge */}
+          {hasKey && (
+            <div className="mb-4 flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-green-500" />
+              <span className="text-sm text-green-400">API-Schlüssel konfiguriert</span>
+            </div>
+          )}
 
-        {/* Messages */}
-        {message && (
-          <div
-            className={`mb-4 p-3 rounded-lg text-sm ${
-              message.type === 'success'
-                ? 'bg-green-500/10 border border-green-500/20 text-green-400'
-                : 'bg-red-500/10 border border-red-500/20 text-red-400'
-            }`}
-          >
-            {message.text}
-          </div>
-        )}
+          {/* Messages */}
+          {message && (
+            <div
+              className={`mb-4 p-3 rounded-lg text-sm ${
+                message.type === 'success'
+                  ? 'bg-green-500/10 border border-green-500/20 text-green-400'
+                  : 'bg-red-500/10 border border-red-500/20 text-red-400'
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
 
-        <div className="max-w-xl">
-          <label className="block text-sm font-medium text-surface-300 mb-1.5">API-Schlüssel</label>
-          <div className="flex items-center gap-2">
-            <div className="relative flex-1">
-              <input
-                type={showKey ? 'text' : 'password'}
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                onFocus={() => {
-                  if (apiKey === 'sk-ant-••••••••••••••••') {
-                    setApiKey('')
-                  }
-                }}
-                className="w-full px-4 py-2.5 pr-10 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
-                placeholder="sk-ant-api03-..."
-              />
+          <div className="max-w-xl">
+            <label className="block text-sm font-medium text-surface-300 mb-1.5">API-Schlüssel</label>
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <input
+                  type={showKey ? 'text' : 'password'}
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  onFocus={() => {
+                    if (apiKey === 'sk-ant-••••••••••••••••') {
+                      setApiKey('')
+                    }
+                  }}
+                  className="w-full px-4 py-2.5 pr-10 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                  placeholder="sk-ant-api03-..."
+                />
+                <button
+                  onClick={() => setShowKey(!showKey)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-500 hover:text-surface-300"
+                >
+                  {showKey ? (
+                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                    </svg>
+                  ) : (
+                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                    </svg>
+                  )}
+                </button>
+              </div>
               <button
-                onClick={() => setShowKey(!showKey)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-surface-500 hover:text-surface-300"
+                onClick={handleSaveApiKey}
+                disabled={isSaving}
+                className="px-4 py-2.5 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium disabled:opacity-50"
               >
-                {showKey ? (
-                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                  </svg>
-                ) : (
-                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                  </svg>
-                )}
+                {isSaving ? 'Speichern...' : 'Speichern'}
               </button>
+              {hasKey && (
+                <button
+                  onClick={handleClearApiKey}
+                  className="px-4 py-2.5 rounded-lg border border-red-500/30 text-red-400 hover:bg-red-500/10 text-sm font-medium"
+                >
+                  Entfernen
+                </button>
+              )}
             </div>
-            <button
-              onClick={handleSaveApiKey}
-              disabled={isSaving}
-              className="px-4 py-2.5 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium disabled:opacity-50"
-            >
-              {isSaving ? 'Speichern...' : 'Speichern'}
-            </button>
-            {hasKey && (
-              <button
-                onClick={handleClearApiKey}
-                className="px-4 py-2.5 rounded-lg border border-red-500/30 text-red-400 hover:bg-red-500/10 text-sm font-medium"
-              >
-                Entfernen
-              </button>
-            )}
+            <p className="text-xs text-surface-500 mt-2">
+              Der API-Schlüssel wird lokal in Ihrem Browser gespeichert und niemals an unsere Server übertragen.
+            </p>
           </div>
-          <p className="text-xs text-surface-500 mt-2">
-            Der API-Schlüssel wird lokal in Ihrem Browser gespeichert und niemals an unsere Server übertragen.
-          </p>
         </div>
-      </div>
 
-      {/* OpenAI API Key for Transcription */}
-      <OpenAIKeySettings />
+        {/* OpenAI API Key for Transcription */}
+        <OpenAIKeySettings />
+        </>
+      )}
+
+      {/* Transcription provider */}
+      <TranscriptionSettings />
 
       {/* Webhooks */}
       <div className="bg-surface-900 rounded-xl border border-surface-800 p-6">
@@ -836,6 +887,182 @@ function ApiSettings() {
   )
 }
 
+const KEY_PROVIDERS: { id: AiKeyProvider; name: string; usage: string; placeholder: string; prefix: string }[] = [
+  { id: 'anthropic', name: 'Anthropic (Claude)', usage: 'KI-Kodierung und Paraphrasen', placeholder: 'sk-ant-api03-...', prefix: 'sk-ant-' },
+  { id: 'openai', name: 'OpenAI (Whisper)', usage: 'Audio/Video-Transkription', placeholder: 'sk-proj-...', prefix: 'sk-' },
+]
+
+function OrganizationKeySettings() {
+  const organization = useSubscriptionStore(state => state.organization)
+  const memberRole = useSubscriptionStore(state => state.memberRole)
+  const canManage = memberRole === 'owner' || memberRole === 'admin'
+
+  const [keys, setKeys] = useState<Awaited<ReturnType<typeof aiKeysApi.getByOrganization>>['data']>([])
+  const [drafts, setDrafts] = useState<Record<AiKeyProvider, string>>({ anthropic: '', openai: '' })
+  const [rateLimit, setRateLimit] = useState('')
+  const [savingProvider, setSavingProvider] = useState<AiKeyProvider | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadKeys = async () => {
+    if (!organization) return
+    const [{ data }, { data: limit }] = await Promise.all([
+      aiKeysApi.getByOrganization(organization.id),
+      aiKeysApi.getRateLimit(organization.id),
+    ])
+    setKeys(data || [])
+    if (limit !== null) setRateLimit(String(limit))
+  }
+
+  useEffect(() => {
+    loadKeys()
+  }, [organization?.id])
+
+  const handleSave = async (provider: (typeof KEY_PROVIDERS)[number]) => {
+    if (!organization) return
+    const apiKey = drafts[provider.id].trim()
+    if (!apiKey.startsWith(provider.prefix)) {
+      setMessage({ type: 'error', text: `Der API-Schlüssel muss mit "${provider.prefix}" beginnen.` })
+      return
+    }
+
+    setSavingProvider(provider.id)
+    setMessage(null)
+    const { error } = await aiKeysApi.save(organization.id, provider.id, apiKey)
+    setSavingProvider(null)
+
+    if (error) {
+      setMessage({ type: 'error', text: 'Fehler beim Speichern des API-Schlüssels.' })
+      return
+    }
+    setDrafts({ ...drafts, [provider.id]: '' })
+    setMessage({ type: 'success', text: `${provider.name}-Schlüssel wurde verschlüsselt gespeichert.` })
+    loadKeys()
+  }
+
+  const handleDelete = async (keyId: string) => {
+    const { error } = await aiKeysApi.delete(keyId)
+    if (error) {
+      setMessage({ type: 'error', text: 'Fehler beim Entfernen des API-Schlüssels.' })
+      return
+    }
+    setMessage({ type: 'success', text: 'API-Schlüssel wurde entfernt.' })
+    loadKeys()
+  }
+
+  const handleSaveRateLimit = async () => {
+    if (!organization) return
+    const limit = parseInt(rateLimit, 10)
+    if (isNaN(limit) || limit < 0) {
+      setMessage({ type: 'error', text: 'Bitte eine gültige Anzahl Anfragen pro Minute eingeben.' })
+      return
+    }
+    const { error } = await aiKeysApi.setRateLimit(organization.id, limit)
+    setMessage(error
+      ? { type: 'error', text: 'Fehler beim Speichern des Rate-Limits.' }
+      : { type: 'success', text: 'Rate-Limit wurde gespeichert.' })
+  }
+
+  const formatDate = (dateStr: string | null) =>
+    dateStr ? new Date(dateStr).toLocaleDateString('de-DE', { day: 'numeric', month: 'short', year: 'numeric' }) : 'nie'
+
+  return (
+    <div className="bg-surface-900 rounded-xl border border-surface-800 p-6">
+      <h2 className="text-lg font-semibold text-surface-100 mb-2">API-Schlüssel der Organisation</h2>
+      <p className="text-sm text-surface-400 mb-6">
+        KI-Anfragen laufen über den EVIDENRA-Server. Die Schlüssel werden verschlüsselt gespeichert und
+        gelangen nie in den Browser; alle Projektmitglieder nutzen die Schlüssel ihrer Organisation.
+      </p>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-lg text-sm ${
+            message.type === 'success'
+              ? 'bg-green-500/10 border border-green-500/20 text-green-400'
+              : 'bg-red-500/10 border border-red-500/20 text-red-400'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {KEY_PROVIDERS.map((provider) => {
+          const key = (keys || []).find(k => k.provider === provider.id)
+          return (
+            <div key={provider.id} className="p-4 rounded-lg bg-surface-800/50">
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <div>
+                  <p className="text-sm font-medium text-surface-100">{provider.name}</p>
+                  <p className="text-xs text-surface-500">{provider.usage}</p>
+                </div>
+                {key ? (
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs text-surface-400 font-mono">••••{key.key_preview}</span>
+                    <span className="text-xs text-surface-500">Zuletzt genutzt: {formatDate(key.last_used_at)}</span>
+                    {canManage && (
+                      <button
+                        onClick={() => handleDelete(key.id)}
+                        className="text-sm text-red-400 hover:text-red-300"
+                      >
+                        Entfernen
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <span className="text-xs text-amber-400">Nicht hinterlegt</span>
+                )}
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-2 mt-3">
+                  <input
+                    type="password"
+                    value={drafts[provider.id]}
+                    onChange={(e) => setDrafts({ ...drafts, [provider.id]: e.target.value })}
+                    placeholder={key ? 'Neuen Schlüssel eingeben, um ihn zu ersetzen' : provider.placeholder}
+                    className="flex-1 px-4 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+                  />
+                  <button
+                    onClick={() => handleSave(provider)}
+                    disabled={!drafts[provider.id] || savingProvider === provider.id}
+                    className="px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium disabled:opacity-50"
+                  >
+                    {savingProvider === provider.id ? 'Speichern...' : 'Speichern'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="mt-6 flex items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-surface-300 mb-1.5">Rate-Limit (Anfragen pro Minute)</label>
+          <input
+            type="number"
+            min={0}
+            value={rateLimit}
+            onChange={(e) => setRateLimit(e.target.value)}
+            disabled={!canManage}
+            className="w-32 px-4 py-2 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm disabled:opacity-50"
+          />
+        </div>
+        {canManage && (
+          <button
+            onClick={handleSaveRateLimit}
+            className="px-4 py-2 rounded-lg border border-surface-700 text-surface-300 hover:bg-surface-800 text-sm font-medium"
+          >
+            Übernehmen
+          </button>
+        )}
+      </div>
+      {!canManage && (
+        <p className="text-xs text-surface-500 mt-4">Nur Owner und Admins können Schlüssel und Limits verwalten.</p>
+      )}
+    </div>
+  )
+}
+
 function OpenAIKeySettings() {
   const [apiKey, setApiKeyValue] = useState('')
   const [showKey, setShowKey] = useState(false)
@@ -976,6 +1203,426 @@ function OpenAIKeySettings() {
   )
 }
 
+function TranscriptionSettings() {
+  const [settings, setSettings] = useState<TranscriptionSettingsValues>(getTranscriptionSettings)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const update = (changes: Partial<TranscriptionSettingsValues>) => {
+    setSettings((current) => ({ ...current, ...changes }))
+    setMessage(null)
+  }
+
+  const handleSave = () => {
+    const serverUrl = settings.serverUrl.trim()
+    const diarizationUrl = settings.diarizationUrl.trim()
+    if ([serverUrl, diarizationUrl].some((url) => url && !/^https?:\/\//.test(url))) {
+      setMessage({ type: 'error', text: 'Server-URLs müssen mit http:// oder https:// beginnen.' })
+      return
+    }
+    if (settings.provider === 'whisper-server' && !serverUrl) {
+      setMessage({ type: 'error', text: 'Bitte eine Server-URL für den eigenen Whisper-Server angeben.' })
+      return
+    }
+    saveTranscriptionSettings({ ...settings, serverUrl, diarizationUrl })
+    setMessage({ type: 'success', text: 'Transkriptions-Einstellungen gespeichert.' })
+  }
+
+  return (
+    <div className="bg-surface-900 rounded-xl border border-surface-800 p-6">
+      <h2 className="text-lg font-semibold text-surface-100 mb-2">Transkription</h2>
+      <p className="text-sm text-surface-400 mb-6">
+        Wo Audio- und Videodateien transkribiert werden. Sensible Aufnahmen können auf einem eigenen
+        Whisper-Server (whisper.cpp, faster-whisper) oder direkt im Browser bleiben.
+      </p>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-lg text-sm ${
+            message.type === 'success'
+              ? 'bg-green-500/10 border border-green-500/20 text-green-400'
+              : 'bg-red-500/10 border border-red-500/20 text-red-400'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="max-w-xl space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-surface-300 mb-1.5">Anbieter</label>
+          <select
+            value={settings.provider}
+            onChange={(e) => update({ provider: e.target.value as TranscriptionSettingsValues['provider'] })}
+            className="w-full px-4 py-2.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+          >
+            <option value="auto">Automatisch (eigener Server, dann OpenAI, sonst Browser)</option>
+            {TRANSCRIPTION_PROVIDERS.map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.label}{provider.local ? ' – bleibt lokal' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-surface-300 mb-1.5">Whisper-Server URL</label>
+            <input
+              type="url"
+              value={settings.serverUrl}
+              onChange={(e) => update({ serverUrl: e.target.value })}
+              placeholder="http://whisper.intern:8080/inference"
+              className="w-full px-4 py-2.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-1.5">Modell</label>
+            <input
+              type="text"
+              value={settings.serverModel}
+              onChange={(e) => update({ serverModel: e.target.value })}
+              placeholder="whisper-1"
+              className="w-full px-4 py-2.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-surface-500 -mt-2">
+          whisper.cpp: <code>/inference</code> des whisper-server. faster-whisper: OpenAI-kompatibler
+          Endpunkt <code>/v1/audio/transcriptions</code>. Der Server muss CORS für diese Seite erlauben.
+        </p>
+
+        <div>
+          <label className="block text-sm font-medium text-surface-300 mb-1.5">Modell im Browser</label>
+          <select
+            value={settings.browserModel}
+            onChange={(e) => update({ browserModel: e.target.value as BrowserWhisperModel })}
+            className="w-full px-4 py-2.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+          >
+            {BROWSER_WHISPER_MODELS.map((model) => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-surface-500 mt-1">
+            Wird beim ersten Transkribieren einmalig geladen und danach vom Browser zwischengespeichert.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-surface-300 mb-1.5">Sprechererkennung (pyannote-Server)</label>
+          <input
+            type="url"
+            value={settings.diarizationUrl}
+            onChange={(e) => update({ diarizationUrl: e.target.value })}
+            placeholder="http://diarization.intern:8000/diarize"
+            className="w-full px-4 py-2.5 rounded-lg bg-surface-800 border border-surface-700 text-surface-100 placeholder-surface-500 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/50"
+          />
+          <p className="text-xs text-surface-500 mt-1">
+            Erhält die Datei als <code>file</code> (optional <code>num_speakers</code>) und antwortet mit{' '}
+            <code>[{'{'}start, end, speaker{'}'}]</code>. Ohne Server trennt eine grobe Näherung im Browser die Sprecher.
+          </p>
+        </div>
+
+        <button
+          onClick={handleSave}
+          className="px-4 py-2.5 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium"
+        >
+          Speichern
+        </button>
+      </div>
+    </div>
+  )
+}
+
+const METHOD_NAMES: Record<string, string> = {
+  'dynamic-personas': 'Dynamic Personas',
+  'three-expert': 'Drei-Experten-System',
+  'calibrated-pattern': 'Kalibrierte Mustererkennung',
+  'ultra-turbo': 'Ultra Turbo',
+}
+
+type UsagePeriod = 'month' | 'total'
+
+function UsageSettings() {
+  const { projects, fetchProjects } = useProjectStore()
+  const { members, fetchMembers } = useTeamStore()
+  const memberRole = useSubscriptionStore(state => state.memberRole)
+  const canManageBudgets = memberRole === 'owner' || memberRole === 'admin'
+
+  const [projectId, setProjectId] = useState('')
+  const [period, setPeriod] = useState<UsagePeriod>('month')
+  const [entries, setEntries] = useState<AiUsageWithAuthor[]>([])
+  const [budgets, setBudgets] = useState<AiBudgetWithUser[]>([])
+  const [documentNames, setDocumentNames] = useState<Map<string, string>>(new Map())
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // New budget form
+  const [budgetUserId, setBudgetUserId] = useState('')
+  const [budgetLimit, setBudgetLimit] = useState('')
+  const [budgetPeriod, setBudgetPeriod] = useState<UsagePeriod>('month')
+
+  useEffect(() => {
+    if (projects.length === 0) fetchProjects()
+  }, [projects.length, fetchProjects])
+
+  useEffect(() => {
+    if (!projectId && projects.length > 0) setProjectId(projects[0].id)
+  }, [projectId, projects])
+
+  useEffect(() => {
+    if (!projectId) return
+    fetchMembers(projectId)
+    documentsApi.getByProject(projectId).then(({ data }) => {
+      setDocumentNames(new Map((data || []).map(d => [d.id, d.name])))
+    })
+  }, [projectId, fetchMembers])
+
+  const loadUsage = async () => {
+    if (!projectId) return
+    setIsLoading(true)
+    setError(null)
+
+    const now = new Date()
+    const startDate = period === 'month'
+      ? new Date(now.getFullYear(), now.getMonth(), 1).toISOString()
+      : undefined
+    const [usage, budgetList] = await Promise.all([
+      aiUsageApi.getByProject(projectId, { startDate }),
+      aiUsageApi.getBudgets(projectId),
+    ])
+
+    if (usage.error || budgetList.error) {
+      setError('Nutzungsdaten konnten nicht geladen werden')
+    }
+    setEntries(usage.data || [])
+    setBudgets(budgetList.data || [])
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    loadUsage()
+  }, [projectId, period])
+
+  const handleSaveBudget = async () => {
+    const limit = parseFloat(budgetLimit.replace(',', '.'))
+    if (!projectId || isNaN(limit) || limit < 0) {
+      setError('Bitte einen gültigen Betrag in USD eingeben')
+      return
+    }
+
+    const { error: saveError } = await aiUsageApi.setBudget(projectId, budgetUserId || null, limit, budgetPeriod)
+    if (saveError) {
+      setError('Budget konnte nicht gespeichert werden')
+      return
+    }
+    setBudgetLimit('')
+    loadUsage()
+  }
+
+  const handleDeleteBudget = async (budgetId: string) => {
+    const { error: deleteError } = await aiUsageApi.deleteBudget(budgetId)
+    if (deleteError) {
+      setError('Budget konnte nicht gelöscht werden')
+      return
+    }
+    loadUsage()
+  }
+
+  const totalCost = entries.reduce((sum, e) => sum + e.cost_usd, 0)
+  const totalTokens = entries.reduce((sum, e) => sum + e.input_tokens + e.output_tokens, 0)
+
+  const breakdowns: { title: string; rows: { label: string; cost: number; tokens: number; runs: number }[] }[] = [
+    { title: 'Nach Person', rows: groupUsage(entries, e => e.user_name) },
+    {
+      title: 'Nach Modell',
+      rows: groupUsage(entries, e => CODING_MODELS.find(m => m.id === e.model)?.name || e.model),
+    },
+    { title: 'Nach Methode', rows: groupUsage(entries, e => METHOD_NAMES[e.method] || e.method) },
+    {
+      title: 'Nach Dokument',
+      rows: groupUsage(entries, e =>
+        e.document_id ? documentNames.get(e.document_id) || 'Unbekanntes Dokument' : 'Gelöschtes Dokument'
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-surface-900 rounded-xl border border-surface-800 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-lg font-semibold text-surface-100">KI-Kosten</h2>
+            <p className="text-sm text-surface-500">Token-Verbrauch und Kosten der KI-Kodierung pro Projekt</p>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-sm text-surface-100"
+            >
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as UsagePeriod)}
+              className="px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-sm text-surface-100"
+            >
+              <option value="month">Dieser Monat</option>
+              <option value="total">Gesamt</option>
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-surface-500">Lade Nutzungsdaten...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div className="p-4 rounded-lg bg-surface-800/50">
+                <p className="text-xs text-surface-500">Kosten</p>
+                <p className="text-xl font-semibold text-surface-100">{formatUsd(totalCost)}</p>
+              </div>
+              <div className="p-4 rounded-lg bg-surface-800/50">
+                <p className="text-xs text-surface-500">Tokens</p>
+                <p className="text-xl font-semibold text-surface-100">{formatTokens(totalTokens)}</p>
+              </div>
+              <div className="p-4 rounded-lg bg-surface-800/50">
+                <p className="text-xs text-surface-500">Kodierläufe</p>
+                <p className="text-xl font-semibold text-surface-100">{entries.length}</p>
+              </div>
+            </div>
+
+            {entries.length === 0 ? (
+              <p className="text-sm text-surface-500">Keine KI-Kodierungen im gewählten Zeitraum</p>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-6">
+                {breakdowns.map((breakdown) => (
+                  <div key={breakdown.title}>
+                    <h3 className="text-sm font-medium text-surface-300 mb-2">{breakdown.title}</h3>
+                    <div className="space-y-1">
+                      {breakdown.rows.map((row) => (
+                        <div key={row.label} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="text-surface-400 truncate">{row.label}</span>
+                          <span className="text-surface-500 text-xs flex-shrink-0">
+                            {row.runs}× · {formatTokens(row.tokens)} Tokens
+                          </span>
+                          <span className="text-surface-100 w-20 text-right flex-shrink-0">{formatUsd(row.cost)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="bg-surface-900 rounded-xl border border-surface-800 p-6">
+        <h2 className="text-lg font-semibold text-surface-100 mb-1">Budgets</h2>
+        <p className="text-sm text-surface-500 mb-6">
+          KI-Kodierungen werden blockiert, sobald die geschätzten Kosten ein Budget überschreiten würden.
+        </p>
+
+        {budgets.length === 0 ? (
+          <p className="text-sm text-surface-500 mb-4">Keine Budgets festgelegt</p>
+        ) : (
+          <div className="space-y-2 mb-6">
+            {budgets.map((budget) => (
+              <div key={budget.id} className="flex items-center justify-between p-3 rounded-lg bg-surface-800/50">
+                <div>
+                  <p className="text-sm font-medium text-surface-100">{budget.user_name || 'Gesamtes Projekt'}</p>
+                  <p className="text-xs text-surface-500">
+                    {formatUsd(budget.limit_usd)} {budget.period === 'month' ? 'pro Monat' : 'insgesamt'}
+                  </p>
+                </div>
+                {canManageBudgets && (
+                  <button
+                    onClick={() => handleDeleteBudget(budget.id)}
+                    className="text-sm text-red-400 hover:text-red-300"
+                  >
+                    Entfernen
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManageBudgets ? (
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs text-surface-400 mb-1">Gilt für</label>
+              <select
+                value={budgetUserId}
+                onChange={(e) => setBudgetUserId(e.target.value)}
+                className="px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-sm text-surface-100"
+              >
+                <option value="">Gesamtes Projekt</option>
+                {members.filter(m => m.userId).map((member) => (
+                  <option key={member.userId} value={member.userId}>{member.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-surface-400 mb-1">Limit (USD)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={budgetLimit}
+                onChange={(e) => setBudgetLimit(e.target.value)}
+                placeholder="50"
+                className="w-28 px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-sm text-surface-100"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-surface-400 mb-1">Zeitraum</label>
+              <select
+                value={budgetPeriod}
+                onChange={(e) => setBudgetPeriod(e.target.value as UsagePeriod)}
+                className="px-3 py-2 rounded-lg bg-surface-800 border border-surface-700 text-sm text-surface-100"
+              >
+                <option value="month">Pro Monat</option>
+                <option value="total">Insgesamt</option>
+              </select>
+            </div>
+            <button
+              onClick={handleSaveBudget}
+              disabled={!budgetLimit}
+              className="px-4 py-2 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium disabled:opacity-50"
+            >
+              Budget speichern
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-surface-500">Nur Owner und Admins können Budgets festlegen.</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function groupUsage(entries: AiUsageWithAuthor[], key: (entry: AiUsageWithAuthor) => string) {
+  const groups = new Map<string, { label: string; cost: number; tokens: number; runs: number }>()
+  for (const entry of entries) {
+    const label = key(entry)
+    const group = groups.get(label) || { label, cost: 0, tokens: 0, runs: 0 }
+    group.cost += entry.cost_usd
+    group.tokens += entry.input_tokens + entry.output_tokens
+    group.runs++
+    groups.set(label, group)
+  }
+  return [...groups.values()].sort((a, b) => b.cost - a.cost)
+}
+
 function NotificationSettings() {
   const [emailNotifications, setEmailNotifications] = useState({
     newMember: true,
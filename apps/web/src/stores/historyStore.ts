@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import { activitiesApi, type ActivityWithAuthor } from '@/lib/api'
 
 export type ChangeType = 'create' | 'update' | 'delete' | 'restore'
 export type EntityType = 'code' | 'coding' | 'document' | 'memo' | 'project'
@@ -16,16 +17,19 @@ export interface HistoryEntry {
   changedByName: string
   changedAt: string
   description: string
+  restoredFrom: string | null
 }
 
 export interface HistoryState {
   entries: HistoryEntry[]
   isLoading: boolean
   error: string | null
+  /** ID of the first tampered entry, null if intact, undefined if not checked */
+  brokenEntryId: string | null | undefined
 
   fetchHistory: (projectId: string, filters?: HistoryFilters) => Promise<void>
-  addEntry: (entry: Omit<HistoryEntry, 'id' | 'changedAt' | 'changedBy' | 'changedByName'>) => void
   restoreVersion: (entryId: string) => Promise<boolean>
+  verifyIntegrity: (projectId: string) => Promise<boolean>
   clearHistory: () => void
   getEntityHistory: (entityType: EntityType, entityId: string) => HistoryEntry[]
 }
@@ -39,203 +43,140 @@ export interface HistoryFilters {
   limit?: number
 }
 
-// Demo history data
-const demoHistory: HistoryEntry[] = [
-  {
-    id: 'hist-1',
-    projectId: 'demo-project',
-    entityType: 'code',
-    entityId: 'code-1',
-    entityName: 'Arbeitszufriedenheit',
-    changeType: 'update',
-    previousValue: { name: 'Zufriedenheit', color: '#3b82f6' },
-    newValue: { name: 'Arbeitszufriedenheit', color: '#22c55e' },
-    changedBy: 'user-1',
-    changedByName: 'Max Mustermann',
-    changedAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-    description: 'Code umbenannt und Farbe geändert',
-  },
-  {
-    id: 'hist-2',
-    projectId: 'demo-project',
-    entityType: 'coding',
-    entityId: 'coding-1',
-    entityName: 'Textstelle zu "Teamarbeit"',
-    changeType: 'create',
-    previousValue: null,
-    newValue: { codeId: 'code-2', selectedText: 'Die Zusammenarbeit im Team...' },
-    changedBy: 'user-2',
-    changedByName: 'Anna Schmidt',
-    changedAt: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString(),
-    description: 'Neue Kodierung erstellt',
-  },
-  {
-    id: 'hist-3',
-    projectId: 'demo-project',
-    entityType: 'code',
-    entityId: 'code-3',
-    entityName: 'Motivation',
-    changeType: 'create',
-    previousValue: null,
-    newValue: { name: 'Motivation', color: '#8b5cf6', description: 'Intrinsische und extrinsische Motivation' },
-    changedBy: 'user-1',
-    changedByName: 'Max Mustermann',
-    changedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-    description: 'Neuen Code erstellt',
-  },
-  {
-    id: 'hist-4',
-    projectId: 'demo-project',
-    entityType: 'document',
-    entityId: 'doc-1',
-    entityName: 'Interview_01.docx',
-    changeType: 'update',
-    previousValue: { name: 'Interview_1.docx' },
-    newValue: { name: 'Interview_01.docx' },
-    changedBy: 'user-2',
-    changedByName: 'Anna Schmidt',
-    changedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-    description: 'Dokument umbenannt',
-  },
-  {
-    id: 'hist-5',
-    projectId: 'demo-project',
-    entityType: 'coding',
-    entityId: 'coding-2',
-    entityName: 'Textstelle zu "Kommunikation"',
-    changeType: 'delete',
-    previousValue: { codeId: 'code-1', selectedText: 'Die Kommunikation war schwierig...' },
-    newValue: null,
-    changedBy: 'user-1',
-    changedByName: 'Max Mustermann',
-    changedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-    description: 'Kodierung gelöscht',
-  },
-  {
-    id: 'hist-6',
-    projectId: 'demo-project',
-    entityType: 'code',
-    entityId: 'code-4',
-    entityName: 'Work-Life-Balance',
-    changeType: 'update',
-    previousValue: { parentId: null },
-    newValue: { parentId: 'code-1' },
-    changedBy: 'user-2',
-    changedByName: 'Anna Schmidt',
-    changedAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(),
-    description: 'Code in Hierarchie verschoben',
-  },
-  {
-    id: 'hist-7',
-    projectId: 'demo-project',
-    entityType: 'memo',
-    entityId: 'memo-1',
-    entityName: 'Theoretische Notiz',
-    changeType: 'create',
-    previousValue: null,
-    newValue: { title: 'Theoretische Notiz', content: 'Die Daten zeigen...' },
-    changedBy: 'user-1',
-    changedByName: 'Max Mustermann',
-    changedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-    description: 'Neues Memo erstellt',
-  },
-]
+// Snapshot fields shown in change descriptions
+const fieldLabels: Record<string, string> = {
+  name: 'Name',
+  title: 'Titel',
+  color: 'Farbe',
+  description: 'Beschreibung',
+  parent_id: 'Hierarchie',
+  content: 'Inhalt',
+  tags: 'Tags',
+  type: 'Typ',
+  code_id: 'Code',
+  memo: 'Memo',
+  start_offset: 'Position',
+  end_offset: 'Position',
+  selected_text: 'Textstelle',
+}
+
+function changedFields(previous: any, next: any): string[] {
+  if (!previous || !next) return []
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)])
+  keys.delete('updated_at')
+  return Array.from(keys).filter(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]))
+}
+
+function describeChange(row: ActivityWithAuthor, entries: HistoryEntry[]): string {
+  const label = entityTypeLabels[row.entity_type]
+  switch (row.action) {
+    case 'create':
+      return `${label} erstellt`
+    case 'delete':
+      return `${label} gelöscht`
+    case 'restore': {
+      const source = entries.find(e => e.id === row.restored_from)
+      return source
+        ? `Version vom ${new Date(source.changedAt).toLocaleString('de-DE')} wiederhergestellt`
+        : 'Frühere Version wiederhergestellt'
+    }
+    case 'update': {
+      const fields = [...new Set(changedFields(row.previous_value, row.new_value).map(f => fieldLabels[f] || f))]
+      return fields.length > 0 ? `${label} geändert: ${fields.join(', ')}` : `${label} geändert`
+    }
+  }
+}
+
+function toHistoryEntry(row: ActivityWithAuthor, entries: HistoryEntry[] = []): HistoryEntry {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    entityType: row.entity_type,
+    entityId: row.entity_id || '',
+    entityName: row.entity_name || entityTypeLabels[row.entity_type],
+    changeType: row.action,
+    previousValue: row.previous_value,
+    newValue: row.new_value,
+    changedBy: row.user_id || '',
+    changedByName: row.user_name,
+    changedAt: row.created_at,
+    description: describeChange(row, entries),
+    restoredFrom: row.restored_from,
+  }
+}
 
 export const useHistoryStore = create<HistoryState>()((set, get) => ({
   entries: [],
   isLoading: false,
   error: null,
+  brokenEntryId: undefined,
 
   fetchHistory: async (projectId: string, filters?: HistoryFilters) => {
     set({ isLoading: true, error: null })
 
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 400))
-
-    let filtered = demoHistory.filter(e => e.projectId === projectId || projectId === 'demo-project')
+    try {
+      const { data, error } = await activitiesApi.getByProject(projectId, {
+        entityType: filters?.entityType,
+        entityId: filters?.entityId,
+        action: filters?.changeType,
+        startDate: filters?.startDate,
+        endDate: filters?.endDate,
+        limit: filters?.limit,
+      })
+      if (error) throw error
+
+      // Map oldest first so restore entries can refer to their source
+      const entries: HistoryEntry[] = []
+      for (const row of [...(data || [])].reverse()) {
+        entries.unshift(toHistoryEntry(row, entries))
+      }
 
-    if (filters?.entityType) {
-      filtered = filtered.filter(e => e.entityType === filters.entityType)
-    }
-    if (filters?.entityId) {
-      filtered = filtered.filter(e => e.entityId === filters.entityId)
-    }
-    if (filters?.changeType) {
-      filtered = filtered.filter(e => e.changeType === filters.changeType)
-    }
-    if (filters?.startDate) {
-      filtered = filtered.filter(e => new Date(e.changedAt) >= new Date(filters.startDate!))
-    }
-    if (filters?.endDate) {
-      filtered = filtered.filter(e => new Date(e.changedAt) <= new Date(filters.endDate!))
-    }
-    if (filters?.limit) {
-      filtered = filtered.slice(0, filters.limit)
+      set({ entries, isLoading: false })
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Laden des Verlaufs', isLoading: false })
     }
-
-    // Sort by date descending
-    filtered.sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime())
-
-    set({ entries: filtered, isLoading: false })
   },
 
-  addEntry: (entry) => {
-    const newEntry: HistoryEntry = {
-      ...entry,
-      id: `hist-${Date.now()}`,
-      changedBy: 'current-user',
-      changedByName: 'Aktueller Benutzer',
-      changedAt: new Date().toISOString(),
+  restoreVersion: async (entryId: string) => {
+    const entry = get().entries.find(e => e.id === entryId)
+    if (!entry || !entry.previousValue) {
+      set({ error: 'Keine vorherige Version verfügbar' })
+      return false
     }
 
-    set(state => ({
-      entries: [newEntry, ...state.entries],
-    }))
-  },
-
-  restoreVersion: async (entryId: string) => {
     set({ isLoading: true, error: null })
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 600))
-
-      const entry = get().entries.find(e => e.id === entryId)
-      if (!entry || !entry.previousValue) {
-        set({ error: 'Keine vorherige Version verfügbar', isLoading: false })
-        return false
-      }
-
-      // Add restore entry
-      const restoreEntry: HistoryEntry = {
-        id: `hist-${Date.now()}`,
-        projectId: entry.projectId,
-        entityType: entry.entityType,
-        entityId: entry.entityId,
-        entityName: entry.entityName,
-        changeType: 'restore',
-        previousValue: entry.newValue,
-        newValue: entry.previousValue,
-        changedBy: 'current-user',
-        changedByName: 'Aktueller Benutzer',
-        changedAt: new Date().toISOString(),
-        description: `Version wiederhergestellt von ${new Date(entry.changedAt).toLocaleDateString('de-DE')}`,
-      }
+      const { data, error } = await activitiesApi.restore(entryId)
+      if (error) throw error
+      if (!data) throw new Error('Wiederherstellung wurde nicht protokolliert')
 
       set(state => ({
-        entries: [restoreEntry, ...state.entries],
+        entries: [toHistoryEntry(data, state.entries), ...state.entries],
         isLoading: false,
       }))
 
       return true
     } catch (err) {
-      set({ error: 'Fehler beim Wiederherstellen', isLoading: false })
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Wiederherstellen', isLoading: false })
+      return false
+    }
+  },
+
+  verifyIntegrity: async (projectId: string) => {
+    try {
+      const { data, error } = await activitiesApi.verifyChain(projectId)
+      if (error) throw error
+      set({ brokenEntryId: data })
+      return data === null
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler bei der Integritätsprüfung' })
       return false
     }
   },
 
   clearHistory: () => {
-    set({ entries: [], error: null })
+    set({ entries: [], error: null, brokenEntryId: undefined })
   },
 
   getEntityHistory: (entityType: EntityType, entityId: string) => {
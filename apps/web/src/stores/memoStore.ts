@@ -1,12 +1,22 @@
 import { create } from 'zustand'
+import { memosApi, type MemoWithRelations, type MemoCommentWithAuthor, type MemoLinkRow } from '@/lib/api'
 
 export type MemoType = 'coding' | 'document' | 'code' | 'project' | 'free'
 
+/** Targets a memo can link to (in addition to its primary target) */
+export type MemoLinkType = 'coding' | 'code' | 'document' | 'memo'
+
+export interface MemoLink {
+  targetType: MemoLinkType
+  targetId: string
+}
+
 export interface Memo {
   id: string
   projectId: string
   type: MemoType
   targetId: string | null // ID of coding, document, code, or null for free memos
+  links: MemoLink[] // all linked codings, codes, documents and memos (includes the primary target)
   title: string
   content: string
   color?: string
@@ -26,6 +36,10 @@ export interface MemoComment {
   createdAt: string
 }
 
+export type MemoInput = Omit<Memo, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'createdByName' | 'links'> & {
+  links?: MemoLink[]
+}
+
 interface MemoState {
   memos: Memo[]
   comments: MemoComment[]
@@ -33,89 +47,83 @@ interface MemoState {
   error: string | null
 
   fetchMemos: (projectId: string) => Promise<void>
-  createMemo: (data: Omit<Memo, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'createdByName'>) => Promise<Memo | null>
+  createMemo: (data: MemoInput) => Promise<Memo | null>
   updateMemo: (id: string, updates: Partial<Memo>) => Promise<void>
   deleteMemo: (id: string) => Promise<void>
   addComment: (memoId: string, content: string) => Promise<void>
-  getMemosByTarget: (type: MemoType, targetId: string) => Memo[]
+  searchMemos: (projectId: string, query: string, tags: string[]) => Promise<Memo[]>
+  getMemosByTarget: (type: MemoType | MemoLinkType, targetId: string) => Memo[]
   clearError: () => void
 }
 
-// Demo data
-const demoMemos: Memo[] = [
-  {
-    id: 'memo-1',
-    projectId: 'demo-project',
-    type: 'coding',
-    targetId: 'coding-1',
-    title: 'Wichtige Beobachtung',
-    content: 'Diese Kodierung zeigt einen klaren Zusammenhang zwischen Arbeitszufriedenheit und Teamdynamik. Der Interviewpartner betont mehrfach die Bedeutung kollegialer Unterstützung.',
-    tags: ['wichtig', 'teamdynamik'],
-    createdBy: 'user-1',
-    createdByName: 'Max Mustermann',
-    createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-  },
-  {
-    id: 'memo-2',
-    projectId: 'demo-project',
-    type: 'document',
-    targetId: 'doc-1',
-    title: 'Methodische Notiz',
-    content: 'Interview wurde per Video durchgeführt. Tonqualität gut, einige technische Unterbrechungen in Minute 15-17. Transkription entsprechend angepasst.',
-    tags: ['methodik', 'transkription'],
-    createdBy: 'user-2',
-    createdByName: 'Anna Schmidt',
-    createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-  },
-  {
-    id: 'memo-3',
-    projectId: 'demo-project',
-    type: 'code',
-    targetId: 'code-1',
-    title: 'Code-Definition verfeinern',
-    content: 'Der Code "Arbeitszufriedenheit" sollte in Subkategorien aufgeteilt werden:\n- Intrinsische Zufriedenheit\n- Extrinsische Zufriedenheit\n- Soziale Zufriedenheit',
-    color: '#3b82f6',
-    tags: ['code-entwicklung'],
-    createdBy: 'user-1',
-    createdByName: 'Max Mustermann',
-    createdAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-  },
-  {
-    id: 'memo-4',
-    projectId: 'demo-project',
-    type: 'free',
-    targetId: null,
-    title: 'Theoretische Überlegung',
-    content: 'Die bisherigen Daten legen nahe, dass das theoretische Sampling erweitert werden sollte. Insbesondere fehlen Perspektiven von Führungskräften auf mittlerer Ebene.',
-    tags: ['theorie', 'sampling'],
-    createdBy: 'user-2',
-    createdByName: 'Anna Schmidt',
-    createdAt: new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString(),
-  },
-]
-
-const demoComments: MemoComment[] = [
-  {
-    id: 'comment-1',
-    memoId: 'memo-1',
-    content: 'Stimme zu - könnte auch mit dem Code "Teamkultur" verknüpft werden.',
-    createdBy: 'user-2',
-    createdByName: 'Anna Schmidt',
-    createdAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(),
-  },
-  {
-    id: 'comment-2',
-    memoId: 'memo-3',
-    content: 'Gute Idee! Ich schlage vor, wir diskutieren das im nächsten Team-Meeting.',
-    createdBy: 'user-3',
-    createdByName: 'Peter Meyer',
-    createdAt: new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString(),
-  },
-]
+const LINK_TYPES: MemoLinkType[] = ['coding', 'code', 'document', 'memo']
+
+export function isLinkType(type: string): type is MemoLinkType {
+  return (LINK_TYPES as string[]).includes(type)
+}
+
+/**
+ * Links including the primary target of coding, code and document memos
+ */
+function withPrimaryTarget(type: MemoType, targetId: string | null, links: MemoLink[] = []): MemoLink[] {
+  const result = [...links]
+  if (targetId && isLinkType(type) && !result.some(l => l.targetType === type && l.targetId === targetId)) {
+    result.unshift({ targetType: type, targetId })
+  }
+  return result
+}
+
+export function toMemoLink(row: MemoLinkRow): MemoLink {
+  return { targetType: row.target_type, targetId: row.target_id }
+}
+
+export function toMemo(row: Omit<MemoWithRelations, 'comments'>): Memo {
+  const links = row.links.map(toMemoLink)
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    type: row.type,
+    targetId: row.type === 'project'
+      ? row.project_id
+      : links.find(l => l.targetType === row.type)?.targetId ?? null,
+    links,
+    title: row.title,
+    content: row.content,
+    color: row.color || undefined,
+    tags: row.tags || [],
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+export function toMemoComment(row: MemoCommentWithAuthor): MemoComment {
+  return {
+    id: row.id,
+    memoId: row.memo_id,
+    content: row.content,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Name of an author already known from loaded memos or comments
+ * (realtime payloads only carry the user ID)
+ */
+export function knownAuthorName(userId: string): string {
+  const { memos, comments } = useMemoStore.getState()
+  return (
+    memos.find(m => m.createdBy === userId)?.createdByName ||
+    comments.find(c => c.createdBy === userId)?.createdByName ||
+    'Teammitglied'
+  )
+}
+
+const toLinkRows = (links: MemoLink[]) =>
+  links.map(l => ({ target_type: l.targetType, target_id: l.targetId }))
 
 export const useMemoStore = create<MemoState>()((set, get) => ({
   memos: [],
@@ -126,39 +134,46 @@ export const useMemoStore = create<MemoState>()((set, get) => ({
   fetchMemos: async (projectId: string) => {
     set({ isLoading: true, error: null })
 
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 400))
+    try {
+      const { data, error } = await memosApi.getByProject(projectId)
+      if (error) throw error
 
-    set({
-      memos: demoMemos.filter(m => m.projectId === projectId || projectId === 'demo-project'),
-      comments: demoComments,
-      isLoading: false,
-    })
+      set({
+        memos: (data || []).map(toMemo),
+        comments: (data || []).flatMap(m => m.comments.map(toMemoComment)),
+        isLoading: false,
+      })
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Laden der Memos', isLoading: false })
+    }
   },
 
   createMemo: async (data) => {
     set({ isLoading: true, error: null })
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 500))
-
-      const newMemo: Memo = {
-        ...data,
-        id: `memo-${Date.now()}`,
-        createdBy: 'current-user',
-        createdByName: 'Aktueller Benutzer',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      }
+      const { data: created, error } = await memosApi.create({
+        projectId: data.projectId,
+        type: data.type,
+        title: data.title,
+        content: data.content,
+        color: data.color,
+        tags: data.tags,
+        links: toLinkRows(withPrimaryTarget(data.type, data.targetId, data.links)),
+      })
+      if (error) throw error
+      if (!created) throw new Error('Memo konnte nicht erstellt werden')
 
+      const newMemo = toMemo(created)
       set(state => ({
-        memos: [newMemo, ...state.memos],
+        // Realtime may have delivered the insert already
+        memos: [newMemo, ...state.memos.filter(m => m.id !== newMemo.id)],
         isLoading: false,
       }))
 
       return newMemo
     } catch (err) {
-      set({ error: 'Fehler beim Erstellen des Memos', isLoading: false })
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Erstellen des Memos', isLoading: false })
       return null
     }
   },
@@ -167,16 +182,41 @@ export const useMemoStore = create<MemoState>()((set, get) => ({
     set({ isLoading: true, error: null })
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 300))
+      const memo = get().memos.find(m => m.id === id)
+      const fields = {
+        type: updates.type,
+        title: updates.title,
+        content: updates.content,
+        color: updates.color,
+        tags: updates.tags,
+      }
+      const { error } = await memosApi.update(
+        id,
+        Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined))
+      )
+      if (error) throw error
+
+      let links = updates.links
+      if (memo && (links || updates.targetId !== undefined)) {
+        links = withPrimaryTarget(
+          updates.type ?? memo.type,
+          updates.targetId !== undefined ? updates.targetId : memo.targetId,
+          links ?? memo.links
+        )
+        const { error: linksError } = await memosApi.setLinks(id, toLinkRows(links))
+        if (linksError) throw linksError
+      }
 
       set(state => ({
         memos: state.memos.map(m =>
-          m.id === id ? { ...m, ...updates, updatedAt: new Date().toISOString() } : m
+          m.id === id
+            ? { ...m, ...updates, links: links ?? m.links, updatedAt: new Date().toISOString() }
+            : m
         ),
         isLoading: false,
       }))
     } catch (err) {
-      set({ error: 'Fehler beim Aktualisieren', isLoading: false })
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Aktualisieren', isLoading: false })
     }
   },
 
@@ -184,41 +224,56 @@ export const useMemoStore = create<MemoState>()((set, get) => ({
     set({ isLoading: true, error: null })
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 300))
+      const { error } = await memosApi.delete(id)
+      if (error) throw error
 
       set(state => ({
-        memos: state.memos.filter(m => m.id !== id),
+        memos: state.memos
+          .filter(m => m.id !== id)
+          .map(m => ({ ...m, links: m.links.filter(l => !(l.targetType === 'memo' && l.targetId === id)) })),
         comments: state.comments.filter(c => c.memoId !== id),
         isLoading: false,
       }))
     } catch (err) {
-      set({ error: 'Fehler beim Löschen', isLoading: false })
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Löschen', isLoading: false })
     }
   },
 
   addComment: async (memoId: string, content: string) => {
     try {
-      await new Promise(resolve => setTimeout(resolve, 300))
-
-      const newComment: MemoComment = {
-        id: `comment-${Date.now()}`,
-        memoId,
-        content,
-        createdBy: 'current-user',
-        createdByName: 'Aktueller Benutzer',
-        createdAt: new Date().toISOString(),
-      }
+      const { data, error } = await memosApi.addComment(memoId, content)
+      if (error) throw error
+      if (!data) return
 
+      const newComment = toMemoComment(data)
       set(state => ({
-        comments: [...state.comments, newComment],
+        comments: [...state.comments.filter(c => c.id !== newComment.id), newComment],
       }))
     } catch (err) {
-      set({ error: 'Fehler beim Hinzufügen des Kommentars' })
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Hinzufügen des Kommentars' })
+    }
+  },
+
+  searchMemos: async (projectId: string, query: string, tags: string[]) => {
+    try {
+      const { data, error } = await memosApi.search(projectId, { query, tags })
+      if (error) throw error
+
+      const memos = get().memos
+      return (data || [])
+        .map(id => memos.find(m => m.id === id))
+        .filter((m): m is Memo => !!m)
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler bei der Memo-Suche' })
+      return []
     }
   },
 
-  getMemosByTarget: (type: MemoType, targetId: string) => {
-    return get().memos.filter(m => m.type === type && m.targetId === targetId)
+  getMemosByTarget: (type, targetId) => {
+    return get().memos.filter(m =>
+      (m.type === type && m.targetId === targetId) ||
+      m.links.some(l => l.targetType === type && l.targetId === targetId)
+    )
   },
 
   clearError: () => set({ error: null }),
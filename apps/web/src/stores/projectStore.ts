@@ -1,5 +1,7 @@
 import { create } from 'zustand'
 import { projectsApi, documentsApi, codesApi, codingsApi } from '@/lib/api'
+import { storageService } from '@/lib/storage'
+import type { MediaRegion } from '@/lib/mediaSync'
 
 export interface Project {
   id: string
@@ -19,7 +21,12 @@ export interface Document {
   name: string
   content: string | null
   fileType: string
+  /** Original file in storage (audio/video of a transcript) */
+  filePath: string | null
+  mediaType: 'audio' | 'video' | null
+  mediaDuration: number | null
   wordCount: number
+  attributes: Record<string, string>
   createdBy: string
   createdAt: string
   updatedAt: string
@@ -47,6 +54,11 @@ export interface Coding {
   confidence: number | null
   codingMethod: string | null
   codedBy: string
+  roundId?: string | null // Blind coding round (see roundStore)
+  // Time codings of media documents (seconds); offsets are 0 then
+  startTime?: number | null
+  endTime?: number | null
+  region?: MediaRegion | null
   createdAt: string
   code?: Code
 }
@@ -76,8 +88,9 @@ export interface ProjectState {
 
   fetchDocuments: (projectId: string) => Promise<void>
   fetchDocument: (id: string) => Promise<void>
-  createDocument: (data: { projectId: string; name: string; content: string; fileType?: string }) => Promise<Document | null>
-  updateDocument: (id: string, updates: { name?: string; content?: string }) => Promise<void>
+  createDocument: (data: { projectId: string; name: string; content: string; fileType?: string; filePath?: string | null; mediaType?: 'audio' | 'video' | null; mediaDuration?: number | null }) => Promise<Document | null>
+  /** Content edits move the document's codings along (see documentsApi.update) */
+  updateDocument: (id: string, updates: { name?: string; content?: string; attributes?: Record<string, string> }) => Promise<boolean>
   deleteDocument: (id: string) => Promise<void>
 
   fetchCodes: (projectId: string) => Promise<void>
@@ -86,8 +99,8 @@ export interface ProjectState {
   deleteCode: (id: string) => Promise<void>
 
   fetchCodings: (documentId: string) => Promise<void>
-  createCoding: (data: { documentId: string; codeId: string; startOffset: number; endOffset: number; selectedText: string; memo?: string; codingMethod?: string }) => Promise<Coding | null>
-  createCodingsBatch: (codings: { documentId: string; codeId: string; startOffset: number; endOffset: number; selectedText: string; memo?: string; codingMethod?: string }[]) => Promise<void>
+  createCoding: (data: { documentId: string; codeId: string; startOffset: number; endOffset: number; selectedText: string; memo?: string; codingMethod?: string; roundId?: string; startTime?: number; endTime?: number; region?: MediaRegion | null }) => Promise<Coding | null>
+  createCodingsBatch: (codings: { documentId: string; codeId: string; startOffset: number; endOffset: number; selectedText: string; memo?: string; codingMethod?: string; confidence?: number; roundId?: string; startTime?: number; endTime?: number }[]) => Promise<void>
   updateCoding: (id: string, updates: { memo?: string }) => Promise<void>
   deleteCoding: (id: string) => Promise<void>
 
@@ -105,7 +118,8 @@ function toCamelCase<T extends Record<string, any>>(obj: T): any {
   const result: Record<string, any> = {}
   for (const key in obj) {
     const camelKey = key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase())
-    result[camelKey] = toCamelCase(obj[key])
+    // Document attribute keys are user-defined and stay as entered
+    result[camelKey] = key === 'attributes' ? obj[key] : toCamelCase(obj[key])
   }
   return result
 }
@@ -243,15 +257,24 @@ export const useProjectStore = create<ProjectState>()((set, get) => ({
         documents: state.documents.map((d) => (d.id === id ? { ...d, ...converted } : d)),
         currentDocument: state.currentDocument?.id === id ? { ...state.currentDocument, ...converted } : state.currentDocument,
       }))
+      // Offsets changed on the server, the loaded codings are stale
+      if (updates.content !== undefined && get().currentDocument?.id === id) {
+        await get().fetchCodings(id)
+      }
+      return true
     } catch (err) {
       set({ error: err instanceof Error ? err.message : 'Failed to update document' })
+      return false
     }
   },
 
   deleteDocument: async (id) => {
     try {
+      const filePath = get().documents.find((d) => d.id === id)?.filePath
       const { error } = await documentsApi.delete(id)
       if (error) throw error
+      // Media file of a transcript; the row is gone, so a failure only leaves an orphan
+      if (filePath && !filePath.startsWith('blob:')) await storageService.deleteDocument(filePath)
       set((state) => ({
         documents: state.documents.filter((d) => d.id !== id),
         currentDocument: state.currentDocument?.id === id ? null : state.currentDocument,
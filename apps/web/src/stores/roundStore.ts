@@ -0,0 +1,166 @@
+/**
+ * Round Store - Blind independent coding rounds for inter-rater reliability
+ *
+ * While a round is open, assigned coders only see their own codings on the
+ * round's documents (enforced by RLS, see migration 026). Closed rounds feed
+ * the IRR calculation.
+ */
+
+import { create } from 'zustand'
+import { codingRoundsApi, codingsApi, type CodingRoundWithAssignments } from '@/lib/api'
+import type { Coding } from './projectStore'
+
+export interface CodingRound {
+  id: string
+  projectId: string
+  name: string
+  description: string | null
+  status: 'open' | 'closed'
+  startsAt: string
+  endsAt: string | null
+  closedAt: string | null
+  createdBy: string
+  createdAt: string
+  documentIds: string[]
+  coderIds: string[]
+}
+
+export interface RoundState {
+  rounds: CodingRound[]
+  isLoading: boolean
+  error: string | null
+
+  fetchRounds: (projectId: string) => Promise<void>
+  createRound: (data: {
+    projectId: string
+    name: string
+    description?: string
+    startsAt?: string
+    endsAt?: string
+    documentIds: string[]
+    coderIds: string[]
+  }) => Promise<CodingRound | null>
+  closeRound: (id: string) => Promise<void>
+  deleteRound: (id: string) => Promise<void>
+  fetchRoundCodings: (roundId: string) => Promise<Coding[]>
+  getActiveRound: (documentId: string, userId: string | undefined) => CodingRound | null
+  clearError: () => void
+}
+
+/**
+ * A round is open until it is closed or its end date has passed
+ */
+export function isRoundOpen(round: CodingRound, now: Date = new Date()): boolean {
+  if (round.status === 'closed') return false
+  return !round.endsAt || new Date(round.endsAt) > now
+}
+
+function toRound(row: CodingRoundWithAssignments): CodingRound {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    description: row.description,
+    status: row.status,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    closedAt: row.closed_at,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    documentIds: row.document_ids,
+    coderIds: row.coder_ids,
+  }
+}
+
+export const useRoundStore = create<RoundState>()((set, get) => ({
+  rounds: [],
+  isLoading: false,
+  error: null,
+
+  fetchRounds: async (projectId) => {
+    set({ isLoading: true, error: null })
+    try {
+      const { data, error } = await codingRoundsApi.getByProject(projectId)
+      if (error) throw error
+      set({ rounds: (data || []).map(toRound), isLoading: false })
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Laden der Kodierrunden', isLoading: false })
+    }
+  },
+
+  createRound: async (data) => {
+    set({ isLoading: true, error: null })
+    try {
+      const { data: created, error } = await codingRoundsApi.create(data)
+      if (error) throw error
+      const round = created ? toRound(created) : null
+      set((state) => ({
+        rounds: round ? [round, ...state.rounds] : state.rounds,
+        isLoading: false,
+      }))
+      return round
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Erstellen der Kodierrunde', isLoading: false })
+      return null
+    }
+  },
+
+  closeRound: async (id) => {
+    try {
+      const { data, error } = await codingRoundsApi.close(id)
+      if (error) throw error
+      set((state) => ({
+        rounds: state.rounds.map((r) =>
+          r.id === id ? { ...r, status: 'closed', closedAt: data?.closed_at ?? new Date().toISOString() } : r
+        ),
+      }))
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Schließen der Kodierrunde' })
+    }
+  },
+
+  deleteRound: async (id) => {
+    try {
+      const { error } = await codingRoundsApi.delete(id)
+      if (error) throw error
+      set((state) => ({ rounds: state.rounds.filter((r) => r.id !== id) }))
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Löschen der Kodierrunde' })
+    }
+  },
+
+  fetchRoundCodings: async (roundId) => {
+    try {
+      const { data, error } = await codingsApi.getByRound(roundId)
+      if (error) throw error
+      return (data || []).map((c) => ({
+        id: c.id,
+        documentId: c.document_id,
+        codeId: c.code_id,
+        startOffset: c.start_offset,
+        endOffset: c.end_offset,
+        selectedText: c.selected_text,
+        memo: c.memo,
+        confidence: c.confidence,
+        codingMethod: c.coding_method,
+        codedBy: c.coded_by,
+        roundId: c.round_id,
+        createdAt: c.created_at,
+      }))
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Laden der Rundenkodierungen' })
+      return []
+    }
+  },
+
+  getActiveRound: (documentId, userId) => {
+    if (!userId) return null
+    return (
+      get().rounds.find(
+        (r) => isRoundOpen(r) && r.documentIds.includes(documentId) && r.coderIds.includes(userId)
+      ) || null
+    )
+  },
+
+  clearError: () => set({ error: null }),
+}))
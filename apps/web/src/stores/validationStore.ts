@@ -0,0 +1,169 @@
+/**
+ * Validation Store - Human review of AI codings
+ *
+ * Every reviewer keeps one decision (accepted, modified, rejected) per AI
+ * coding; several reviewers per coding form the team consensus, see
+ * resolveConsensus() in lib/akihCalculations. Decisions are persisted in
+ * coding_validations (migration 031) and feed the AKIH Human Validation factor.
+ */
+
+import { create } from 'zustand'
+import { codingsApi, codingValidationsApi, type CodingValidationInput, type CodingValidationWithAuthor } from '@/lib/api'
+import { useAuthStore } from './authStore'
+import type { Coding } from './projectStore'
+import type { TeamValidation, ValidationStatus } from '@/types/akih'
+import type { Database } from '@/lib/database.types'
+
+type CodingRow = Database['public']['Tables']['codings']['Row']
+
+export interface ReviewDecision {
+  id: string
+  codingId: string
+  userId: string
+  userName: string
+  status: Exclude<ValidationStatus, 'pending'>
+  newCodeId: string | null
+  notes: string | null
+  updatedAt: string
+}
+
+export interface ValidationState {
+  // AI codings of the whole project, not only of the open document
+  aiCodings: Coding[]
+  decisions: ReviewDecision[]
+  isLoading: boolean
+  error: string | null
+
+  fetchValidations: (projectId: string) => Promise<void>
+  saveDecision: (projectId: string, input: CodingValidationInput) => Promise<boolean>
+  withdrawDecision: (codingId: string) => Promise<void>
+  clearError: () => void
+}
+
+/**
+ * True for codings created by an AI coding method
+ */
+export function isAICoding(coding: { codingMethod: string | null }): boolean {
+  return !!coding.codingMethod && coding.codingMethod !== 'manual'
+}
+
+/**
+ * Decisions on one coding in the shape used by the AKIH calculation
+ */
+export function teamValidations(decisions: ReviewDecision[], codingId: string): TeamValidation['validations'] {
+  return decisions
+    .filter((d) => d.codingId === codingId)
+    .map((d) => ({
+      userId: d.userId,
+      userName: d.userName,
+      status: d.status,
+      codeId: d.newCodeId || undefined,
+      timestamp: new Date(d.updatedAt),
+      notes: d.notes || undefined,
+    }))
+}
+
+function toCoding(row: CodingRow): Coding {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    codeId: row.code_id,
+    startOffset: row.start_offset,
+    endOffset: row.end_offset,
+    selectedText: row.selected_text,
+    memo: row.memo,
+    confidence: row.confidence,
+    codingMethod: row.coding_method,
+    codedBy: row.coded_by,
+    roundId: row.round_id,
+    createdAt: row.created_at,
+  }
+}
+
+function toDecision(row: CodingValidationWithAuthor): ReviewDecision {
+  return {
+    id: row.id,
+    codingId: row.coding_id,
+    userId: row.user_id,
+    userName: row.user_name,
+    status: row.status,
+    newCodeId: row.new_code_id,
+    notes: row.notes,
+    updatedAt: row.updated_at,
+  }
+}
+
+export const useValidationStore = create<ValidationState>()((set) => ({
+  aiCodings: [],
+  decisions: [],
+  isLoading: false,
+  error: null,
+
+  fetchValidations: async (projectId) => {
+    set({ isLoading: true, error: null })
+    try {
+      const [codings, validations] = await Promise.all([
+        codingsApi.getByProject(projectId),
+        codingValidationsApi.getByProject(projectId),
+      ])
+      if (codings.error) throw codings.error
+      if (validations.error) throw validations.error
+      set({
+        aiCodings: (codings.data || []).map(toCoding).filter(isAICoding),
+        decisions: (validations.data || []).map(toDecision),
+        isLoading: false,
+      })
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Laden der Validierungen', isLoading: false })
+    }
+  },
+
+  saveDecision: async (projectId, input) => {
+    const user = useAuthStore.getState().user
+    if (!user) {
+      set({ error: 'Nicht angemeldet' })
+      return false
+    }
+
+    try {
+      const { data, error } = await codingValidationsApi.save(projectId, input)
+      if (error) throw error
+
+      const decision: ReviewDecision = {
+        id: data?.id || `validation-${Date.now()}`,
+        codingId: input.codingId,
+        userId: user.id,
+        userName: user.user_metadata?.full_name || user.email || 'Ich',
+        status: input.status,
+        newCodeId: input.status === 'modified' ? input.newCodeId || null : null,
+        notes: input.notes || null,
+        updatedAt: data?.updated_at || new Date().toISOString(),
+      }
+      set((state) => ({
+        decisions: [
+          ...state.decisions.filter((d) => !(d.codingId === input.codingId && d.userId === user.id)),
+          decision,
+        ],
+      }))
+      return true
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Speichern der Validierung' })
+      return false
+    }
+  },
+
+  withdrawDecision: async (codingId) => {
+    const userId = useAuthStore.getState().user?.id
+    try {
+      const { error } = await codingValidationsApi.remove(codingId)
+      if (error) throw error
+      set((state) => ({
+        decisions: state.decisions.filter((d) => !(d.codingId === codingId && d.userId === userId)),
+      }))
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Fehler beim Zurückziehen der Validierung' })
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}))
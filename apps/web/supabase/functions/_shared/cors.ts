@@ -0,0 +1,23 @@
+/**
+ * CORS headers for functions called from the web app
+ */
+export const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-project-id, x-ai-method, x-document-id',
+  'Access-Control-Allow-Methods': 'POST, DELETE, OPTIONS',
+}
+
+/**
+ * JSON response in the error shape of the Anthropic/OpenAI APIs, so the
+ * client reads `error.message` the same way for both
+ */
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' },
+  })
+}
+
+export function errorResponse(message: string, status: number, headers: Record<string, string> = {}): Response {
+  return jsonResponse({ error: { message } }, status, headers)
+}
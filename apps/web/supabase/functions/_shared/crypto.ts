@@ -0,0 +1,66 @@
+/**
+ * Encryption of provider API keys at rest
+ *
+ * AES-256-GCM with a random 12-byte IV per key. The secret
+ * AI_KEY_ENCRYPTION_KEY is 32 random bytes, base64 encoded
+ * (e.g. `openssl rand -base64 32`), and never leaves the function.
+ */
+
+const IV_LENGTH = 12
+
+let cryptoKey: Promise<CryptoKey> | null = null
+
+function getKey(): Promise<CryptoKey> {
+  if (!cryptoKey) {
+    const secret = Deno.env.get('AI_KEY_ENCRYPTION_KEY')
+    if (!secret) throw new Error('AI_KEY_ENCRYPTION_KEY is not set')
+
+    const raw = decodeBase64(secret)
+    if (raw.length !== 32) throw new Error('AI_KEY_ENCRYPTION_KEY must be 32 bytes')
+    cryptoKey = crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt'])
+  }
+  return cryptoKey
+}
+
+/**
+ * base64(iv || ciphertext)
+ */
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getKey(),
+    new TextEncoder().encode(plaintext)
+  )
+
+  const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength)
+  payload.set(iv)
+  payload.set(new Uint8Array(ciphertext), IV_LENGTH)
+  return encodeBase64(payload)
+}
+
+export async function decryptSecret(encrypted: string): Promise<string> {
+  const payload = decodeBase64(encrypted)
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: payload.slice(0, IV_LENGTH) },
+    await getKey(),
+    payload.slice(IV_LENGTH)
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+/**
+ * Hex SHA-256, stored as key_hash to recognize a key without decrypting it
+ */
+export async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function decodeBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0))
+}
@@ -0,0 +1,32 @@
+/**
+ * List prices in USD for the usage ledger
+ *
+ * Token prices per million tokens by model id prefix, the same table as
+ * MODEL_PRICING in packages/core/src/llm/pricing.ts (the web app estimates
+ * runs with that one, the proxy bills with this one; keep both in step).
+ */
+const TOKEN_PRICING: Record<string, { inputPerMillion: number; outputPerMillion: number }> = {
+  'claude-opus-4': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+}
+
+// Whisper is billed per minute of audio
+const TRANSCRIPTION_PER_MINUTE = 0.006
+
+export function tokenCost(model: string, inputTokens: number, outputTokens: number): number {
+  let match: string | null = null
+  for (const prefix of Object.keys(TOKEN_PRICING)) {
+    if (model.startsWith(prefix) && (!match || prefix.length > match.length)) match = prefix
+  }
+  if (!match) return 0
+  const pricing = TOKEN_PRICING[match]
+  return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000
+}
+
+export function transcriptionCost(durationSeconds: number): number {
+  return (durationSeconds / 60) * TRANSCRIPTION_PER_MINUTE
+}
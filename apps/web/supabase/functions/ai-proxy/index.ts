@@ -0,0 +1,422 @@
+/**
+ * AI Proxy - forwards AI requests with the organization's API key
+ *
+ * The web client never holds a provider key. Every request carries the
+ * user's session and the project (header x-project-id); the proxy checks
+ * project membership, the AI budgets of the project and the user, applies
+ * the organization's rate limit, decrypts the organization key and streams
+ * the provider's answer back unchanged. The usage the provider reports is
+ * written to the ledger here, so spend cannot bypass the budgets; the
+ * optional headers x-ai-method and x-document-id label the ledger row.
+ *
+ *   POST   /ai-proxy/messages        Anthropic Messages API (stream or not)
+ *   POST   /ai-proxy/transcriptions  OpenAI audio transcription (multipart)
+ *   POST   /ai-proxy/keys            Store an organization key (owner/admin)
+ *   DELETE /ai-proxy/keys?id=...     Remove an organization key (owner/admin)
+ *
+ * Secrets: SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY
+ * (provided by Supabase) and AI_KEY_ENCRYPTION_KEY.
+ */
+
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/cors.ts'
+import { decryptSecret, encryptSecret, sha256 } from '../_shared/crypto.ts'
+import { tokenCost, transcriptionCost } from '../_shared/pricing.ts'
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages'
+const ANTHROPIC_VERSION = '2023-06-01'
+const OPENAI_TRANSCRIPTION_URL = 'https://api.openai.com/v1/audio/transcriptions'
+
+// Upper bound for a single answer, whatever the client asks for
+const MAX_OUTPUT_TOKENS = 8192
+// Whisper limit
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024
+
+type Provider = 'anthropic' | 'openai'
+
+interface RequestContext {
+  userId: string
+  userClient: SupabaseClient
+  admin: SupabaseClient
+}
+
+interface ProjectAccess {
+  projectId: string
+  organizationId: string
+}
+
+interface UsageEntry {
+  /** Used when the client does not label the request (header x-ai-method) */
+  method: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+// Keeps the function alive until the ledger row of a stream is written
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const context = await authenticate(req)
+    if (!context) return errorResponse('Nicht angemeldet', 401)
+
+    const url = new URL(req.url)
+    const route = url.pathname.split('/').filter(Boolean).pop()
+
+    if (route === 'messages' && req.method === 'POST') return await proxyMessages(req, context)
+    if (route === 'transcriptions' && req.method === 'POST') return await proxyTranscription(req, context)
+    if (route === 'keys' && req.method === 'POST') return await saveKey(req, context)
+    if (route === 'keys' && req.method === 'DELETE') return await deleteKey(url.searchParams.get('id'), context)
+
+    return errorResponse('Unbekannter Endpunkt', 404)
+  } catch (error) {
+    console.error('ai-proxy error:', error)
+    return errorResponse('Interner Fehler des KI-Proxys', 500)
+  }
+})
+
+// ============================================
+// AUTH
+// ============================================
+
+async function authenticate(req: Request): Promise<RequestContext | null> {
+  const authorization = req.headers.get('Authorization')
+  if (!authorization) return null
+
+  const url = Deno.env.get('SUPABASE_URL')!
+  // Queries with the user's session run under RLS, auth.uid() is the caller
+  const userClient = createClient(url, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  })
+  const { data: { user } } = await userClient.auth.getUser()
+  if (!user) return null
+
+  const admin = createClient(url, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  })
+  return { userId: user.id, userClient, admin }
+}
+
+/**
+ * Project and organization if the caller is a member within budget, otherwise an error response
+ */
+async function authorizeProject(req: Request, context: RequestContext): Promise<ProjectAccess | Response> {
+  const projectId = req.headers.get('x-project-id')
+  if (!projectId) return errorResponse('Projekt fehlt (Header x-project-id)', 400)
+
+  const { data: isMember } = await context.userClient.rpc('is_project_member', { p_project_id: projectId })
+  if (!isMember) return errorResponse('Kein Mitglied dieses Projekts', 403)
+
+  // Project budget and the caller's own, with the spend of the current period
+  const { data: budgets, error: budgetError } = await context.userClient.rpc('ai_budget_status', {
+    p_project_id: projectId,
+  })
+  if (budgetError) throw budgetError
+  const exhausted = (budgets || []).find(
+    (b: { limit_usd: number; spent_usd: number }) => Number(b.spent_usd) >= Number(b.limit_usd)
+  )
+  if (exhausted) {
+    return errorResponse(
+      `Budget überschritten: ${Number(exhausted.spent_usd).toFixed(2)} von ${Number(exhausted.limit_usd).toFixed(2)} USD verbraucht`,
+      402
+    )
+  }
+
+  const { data: project } = await context.admin
+    .from('projects')
+    .select('organization_id')
+    .eq('id', projectId)
+    .single()
+  if (!project) return errorResponse('Projekt nicht gefunden', 404)
+
+  const { data: allowed, error } = await context.admin.rpc('take_ai_rate_limit', {
+    p_organization_id: project.organization_id,
+  })
+  if (error) throw error
+  if (!allowed) {
+    const retryAfter = 60 - new Date().getSeconds()
+    return errorResponse(
+      `Rate-Limit der Organisation erreicht. Bitte in ${retryAfter} Sekunden erneut versuchen.`,
+      429,
+      { 'Retry-After': String(retryAfter) }
+    )
+  }
+
+  return { projectId, organizationId: project.organization_id }
+}
+
+async function loadKey(organizationId: string, provider: Provider, context: RequestContext): Promise<string | null> {
+  const { data } = await context.admin
+    .from('api_keys')
+    .select('id, encrypted_key')
+    .eq('organization_id', organizationId)
+    .eq('provider', provider)
+    .maybeSingle()
+  if (!data) return null
+
+  await context.admin.from('api_keys').update({ last_used_at: new Date().toISOString() }).eq('id', data.id)
+  return decryptSecret(data.encrypted_key)
+}
+
+// ============================================
+// PROXY
+// ============================================
+
+async function proxyMessages(req: Request, context: RequestContext): Promise<Response> {
+  const access = await authorizeProject(req, context)
+  if (access instanceof Response) return access
+
+  const body = await req.json().catch(() => null)
+  if (!body || !Array.isArray(body.messages) || typeof body.model !== 'string') {
+    return errorResponse('Ungültige Anfrage', 400)
+  }
+  body.max_tokens = Math.min(Number(body.max_tokens) || 4096, MAX_OUTPUT_TOKENS)
+
+  const apiKey = await loadKey(access.organizationId, 'anthropic', context)
+  if (!apiKey) return errorResponse('Für diese Organisation ist kein Anthropic API-Schlüssel hinterlegt', 412)
+
+  const upstream = await fetch(ANTHROPIC_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify(body),
+    signal: req.signal,
+  })
+  if (!upstream.ok || !upstream.body) return passThrough(upstream)
+
+  const toUsage = (model: string, inputTokens: number, outputTokens: number): UsageEntry => ({
+    method: 'api',
+    model,
+    inputTokens,
+    outputTokens,
+    costUsd: tokenCost(model, inputTokens, outputTokens),
+  })
+
+  if (!body.stream) {
+    const message = await upstream.clone().json().catch(() => null)
+    const usage = message?.usage
+    await recordUsage(req, access, context, toUsage(
+      message?.model || body.model,
+      usage?.input_tokens || 0,
+      usage?.output_tokens || 0
+    ))
+    return passThrough(upstream)
+  }
+
+  // One branch goes to the client, the other is read here for the usage events
+  const [forClient, forLedger] = upstream.body.tee()
+  EdgeRuntime.waitUntil(
+    readStreamUsage(forLedger).then(({ model, inputTokens, outputTokens }) =>
+      recordUsage(req, access, context, toUsage(model || body.model, inputTokens, outputTokens))
+    )
+  )
+  return passThrough(new Response(forClient, upstream))
+}
+
+async function proxyTranscription(req: Request, context: RequestContext): Promise<Response> {
+  const access = await authorizeProject(req, context)
+  if (access instanceof Response) return access
+
+  const form = await req.formData().catch(() => null)
+  const file = form?.get('file')
+  if (!form || !(file instanceof File)) return errorResponse('Datei fehlt', 400)
+  if (file.size > MAX_AUDIO_BYTES) return errorResponse('Datei ist zu groß. Maximum: 25MB', 413)
+
+  const apiKey = await loadKey(access.organizationId, 'openai', context)
+  if (!apiKey) return errorResponse('Für diese Organisation ist kein OpenAI API-Schlüssel hinterlegt', 412)
+
+  const upstream = await fetch(OPENAI_TRANSCRIPTION_URL, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body: form,
+    signal: req.signal,
+  })
+
+  // Whisper is billed by duration, which only verbose_json reports
+  if (upstream.ok) {
+    const transcript = await upstream.clone().json().catch(() => null)
+    const duration = Number(transcript?.duration) || 0
+    await recordUsage(req, access, context, {
+      method: 'transcription',
+      model: String(form.get('model') || 'whisper-1'),
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: transcriptionCost(duration),
+    })
+  }
+
+  return passThrough(upstream)
+}
+
+/**
+ * Model and token counts of a Messages API event stream: message_start
+ * carries the input tokens, message_delta the output tokens so far. A stream
+ * cut off by the client still yields what was reported until then.
+ */
+async function readStreamUsage(stream: ReadableStream<Uint8Array>) {
+  const usage = { model: '', inputTokens: 0, outputTokens: 0 }
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const readEvent = (chunk: string) => {
+    const data = chunk
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('')
+    if (!data) return
+    try {
+      const event = JSON.parse(data)
+      if (event.type === 'message_start') {
+        usage.model = event.message?.model || usage.model
+        usage.inputTokens = event.message?.usage?.input_tokens || 0
+        usage.outputTokens = event.message?.usage?.output_tokens || 0
+      } else if (event.type === 'message_delta' && event.usage) {
+        usage.outputTokens = event.usage.output_tokens ?? usage.outputTokens
+      }
+    } catch {
+      // Incomplete event at the end of a cut-off stream
+    }
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      let boundary: number
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        readEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+      }
+    }
+  } catch {
+    // Client disconnected, the upstream request was aborted
+  }
+  readEvent(buffer)
+  return usage
+}
+
+/**
+ * Appends the request to the usage ledger under the caller's id. Written with
+ * the service role; a failed write is logged and does not fail the answer.
+ */
+async function recordUsage(req: Request, access: ProjectAccess, context: RequestContext, usage: UsageEntry) {
+  // Only documents of the same project label a row
+  let documentId: string | null = null
+  const documentHeader = req.headers.get('x-document-id')
+  if (documentHeader) {
+    const { data: document } = await context.admin
+      .from('documents')
+      .select('id')
+      .eq('id', documentHeader)
+      .eq('project_id', access.projectId)
+      .maybeSingle()
+    documentId = document?.id || null
+  }
+
+  const { error } = await context.admin.from('ai_usage_ledger').insert({
+    project_id: access.projectId,
+    user_id: context.userId,
+    document_id: documentId,
+    model: usage.model,
+    method: req.headers.get('x-ai-method') || usage.method,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    cost_usd: usage.costUsd,
+  })
+  if (error) console.error('ai-proxy ledger error:', error)
+}
+
+/**
+ * Provider response with CORS headers; event streams are forwarded as they arrive
+ */
+function passThrough(upstream: Response): Response {
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': upstream.headers.get('Content-Type') || 'application/json',
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
+
+// ============================================
+// KEY MANAGEMENT
+// ============================================
+
+async function isOrganizationAdmin(organizationId: string, context: RequestContext): Promise<boolean> {
+  const { data } = await context.admin
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', context.userId)
+    .maybeSingle()
+  return data?.role === 'owner' || data?.role === 'admin'
+}
+
+async function saveKey(req: Request, context: RequestContext): Promise<Response> {
+  const body = await req.json().catch(() => null)
+  const organizationId: string | undefined = body?.organizationId
+  const provider: Provider | undefined = body?.provider
+  const apiKey: string = (body?.apiKey || '').trim()
+
+  if (!organizationId || (provider !== 'anthropic' && provider !== 'openai') || apiKey.length < 20) {
+    return errorResponse('Ungültiger API-Schlüssel', 400)
+  }
+  if (!(await isOrganizationAdmin(organizationId, context))) {
+    return errorResponse('Nur Owner und Admins können API-Schlüssel verwalten', 403)
+  }
+
+  const row = {
+    organization_id: organizationId,
+    provider,
+    name: body?.name || (provider === 'anthropic' ? 'Anthropic' : 'OpenAI'),
+    encrypted_key: await encryptSecret(apiKey),
+    key_hash: await sha256(apiKey),
+    key_preview: apiKey.slice(-4),
+    created_by: context.userId,
+    created_at: new Date().toISOString(),
+    last_used_at: null,
+  }
+
+  const { data, error } = await context.admin
+    .from('api_keys')
+    .upsert(row, { onConflict: 'organization_id,provider' })
+    .select('id, organization_id, provider, name, key_preview, created_by, created_at, last_used_at')
+    .single()
+  if (error) throw error
+
+  return jsonResponse(data)
+}
+
+async function deleteKey(keyId: string | null, context: RequestContext): Promise<Response> {
+  if (!keyId) return errorResponse('Schlüssel-ID fehlt', 400)
+
+  const { data: key } = await context.admin
+    .from('api_keys')
+    .select('organization_id')
+    .eq('id', keyId)
+    .maybeSingle()
+  if (!key) return errorResponse('Schlüssel nicht gefunden', 404)
+  if (!(await isOrganizationAdmin(key.organization_id, context))) {
+    return errorResponse('Nur Owner und Admins können API-Schlüssel verwalten', 403)
+  }
+
+  const { error } = await context.admin.from('api_keys').delete().eq('id', keyId)
+  if (error) throw error
+
+  return jsonResponse({ deleted: keyId })
+}
@@ -0,0 +1,208 @@
+-- ============================================
+-- Coding Rounds - blind independent coding for IRR
+-- ============================================
+-- While a round is open, assigned coders only see their own codings on the
+-- round's documents. Enforced here in RLS, not only in the UI.
+
+CREATE TABLE IF NOT EXISTS public.coding_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS public.coding_round_documents (
+  round_id UUID NOT NULL REFERENCES public.coding_rounds(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  PRIMARY KEY (round_id, document_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.coding_round_coders (
+  round_id UUID NOT NULL REFERENCES public.coding_rounds(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  PRIMARY KEY (round_id, user_id)
+);
+
+ALTER TABLE public.codings ADD COLUMN IF NOT EXISTS round_id UUID REFERENCES public.coding_rounds(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_coding_rounds_project ON public.coding_rounds(project_id);
+CREATE INDEX IF NOT EXISTS idx_coding_round_documents_document ON public.coding_round_documents(document_id);
+CREATE INDEX IF NOT EXISTS idx_coding_round_coders_user ON public.coding_round_coders(user_id);
+CREATE INDEX IF NOT EXISTS idx_codings_round ON public.codings(round_id);
+
+-- ============================================
+-- Helper functions (SECURITY DEFINER avoids recursive RLS lookups)
+-- ============================================
+
+-- A round is open until it is closed or its end date has passed
+CREATE OR REPLACE FUNCTION public.is_round_open(p_round_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.coding_rounds r
+    WHERE r.id = p_round_id
+      AND r.status = 'open'
+      AND (r.ends_at IS NULL OR r.ends_at > NOW())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Is the current user a member of the project's organization? (027 keeps the
+-- same definition for the memo policies)
+CREATE OR REPLACE FUNCTION public.is_project_member(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects p
+    JOIN public.organization_members om ON om.organization_id = p.organization_id
+    WHERE p.id = p_project_id AND om.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Project of a document, for the codings policies
+CREATE OR REPLACE FUNCTION public.document_project_id(p_document_id UUID)
+RETURNS UUID AS $$
+  SELECT project_id FROM public.documents WHERE id = p_document_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Is a coding hidden from the current user?
+-- Yes if someone else coded it and the current user is an assigned coder of an
+-- open round that contains the coding or its document.
+CREATE OR REPLACE FUNCTION public.is_coding_blinded(
+  p_round_id UUID,
+  p_document_id UUID,
+  p_coded_by UUID
+)
+RETURNS BOOLEAN AS $$
+  SELECT p_coded_by IS DISTINCT FROM auth.uid() AND EXISTS (
+    SELECT 1 FROM public.coding_rounds r
+    JOIN public.coding_round_coders rc ON rc.round_id = r.id AND rc.user_id = auth.uid()
+    WHERE r.status = 'open'
+      AND (r.ends_at IS NULL OR r.ends_at > NOW())
+      AND (
+        r.id = p_round_id
+        OR EXISTS (
+          SELECT 1 FROM public.coding_round_documents rd
+          WHERE rd.round_id = r.id AND rd.document_id = p_document_id
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RLS: coding rounds
+-- ============================================
+
+ALTER TABLE public.coding_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coding_round_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coding_round_coders ENABLE ROW LEVEL SECURITY;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.coding_rounds TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.coding_round_documents TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.coding_round_coders TO authenticated;
+
+DROP POLICY IF EXISTS "Users can access coding_rounds in their projects" ON public.coding_rounds;
+CREATE POLICY "Users can access coding_rounds in their projects"
+  ON public.coding_rounds FOR ALL
+  USING (
+    project_id IN (
+      SELECT p.id FROM public.projects p
+      JOIN public.organization_members om ON p.organization_id = om.organization_id
+      WHERE om.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can access round documents in their projects" ON public.coding_round_documents;
+CREATE POLICY "Users can access round documents in their projects"
+  ON public.coding_round_documents FOR ALL
+  USING (round_id IN (SELECT id FROM public.coding_rounds));
+
+DROP POLICY IF EXISTS "Users can access round coders in their projects" ON public.coding_round_coders;
+CREATE POLICY "Users can access round coders in their projects"
+  ON public.coding_round_coders FOR ALL
+  USING (round_id IN (SELECT id FROM public.coding_rounds));
+
+-- ============================================
+-- RLS: codings (replaces "codings_all" and the policies of 001; permissive
+-- policies are ORed, any one left over would undo the blinding)
+-- ============================================
+
+DROP POLICY IF EXISTS "Project members can view codings" ON public.codings;
+DROP POLICY IF EXISTS "Project members can create codings" ON public.codings;
+DROP POLICY IF EXISTS "Coding creators can update/delete" ON public.codings;
+DROP POLICY IF EXISTS "codings_all" ON public.codings;
+DROP POLICY IF EXISTS "codings_select" ON public.codings;
+DROP POLICY IF EXISTS "codings_insert" ON public.codings;
+DROP POLICY IF EXISTS "codings_update" ON public.codings;
+DROP POLICY IF EXISTS "codings_delete" ON public.codings;
+
+CREATE POLICY "codings_select" ON public.codings FOR SELECT
+  USING (
+    auth.uid() IS NOT NULL
+    AND public.is_project_member(public.document_project_id(document_id))
+    AND NOT public.is_coding_blinded(round_id, document_id, coded_by)
+  );
+
+-- Round codings only by assigned coders while the round is open
+CREATE POLICY "codings_insert" ON public.codings FOR INSERT
+  WITH CHECK (
+    auth.uid() IS NOT NULL
+    AND public.is_project_member(public.document_project_id(document_id))
+    AND (
+      round_id IS NULL
+      OR (
+        coded_by = auth.uid()
+        AND public.is_round_open(round_id)
+        AND EXISTS (
+          SELECT 1 FROM public.coding_round_coders rc
+          WHERE rc.round_id = codings.round_id AND rc.user_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE POLICY "codings_update" ON public.codings FOR UPDATE
+  USING (
+    auth.uid() IS NOT NULL
+    AND public.is_project_member(public.document_project_id(document_id))
+    AND NOT public.is_coding_blinded(round_id, document_id, coded_by)
+  )
+  WITH CHECK (
+    public.is_project_member(public.document_project_id(document_id))
+    AND NOT public.is_coding_blinded(round_id, document_id, coded_by)
+  );
+
+CREATE POLICY "codings_delete" ON public.codings FOR DELETE
+  USING (
+    auth.uid() IS NOT NULL
+    AND public.is_project_member(public.document_project_id(document_id))
+    AND NOT public.is_coding_blinded(round_id, document_id, coded_by)
+  );
+
+-- The policies only see the new row: round and coder of a coding are fixed
+-- once it exists, so an update cannot move it into or out of a round.
+-- Deleting a round clears round_id (ON DELETE SET NULL), which stays allowed.
+-- SECURITY DEFINER: rounds hidden from the caller must still count as existing.
+CREATE OR REPLACE FUNCTION public.keep_coding_round()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.round_id IS DISTINCT FROM OLD.round_id
+     AND NOT (NEW.round_id IS NULL AND NOT EXISTS (SELECT 1 FROM public.coding_rounds WHERE id = OLD.round_id)) THEN
+    RAISE EXCEPTION 'The round of a coding cannot be changed';
+  END IF;
+  IF NEW.coded_by IS DISTINCT FROM OLD.coded_by THEN
+    RAISE EXCEPTION 'The coder of a coding cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS keep_coding_round ON public.codings;
+CREATE TRIGGER keep_coding_round BEFORE UPDATE ON public.codings
+  FOR EACH ROW EXECUTE FUNCTION public.keep_coding_round();
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
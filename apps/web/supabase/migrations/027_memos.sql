@@ -0,0 +1,213 @@
+-- ============================================
+-- Memos - persistent memos, comments and multi-target links
+-- ============================================
+-- Depending on which earlier migration created public.memos (001 or 023) the
+-- table has different columns. Bring it to one shape, move the single targets
+-- into memo_links and replace the permissive policies with project membership.
+
+CREATE TABLE IF NOT EXISTS public.memos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.memos ADD COLUMN IF NOT EXISTS type TEXT DEFAULT 'free';
+ALTER TABLE public.memos ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE public.memos ADD COLUMN IF NOT EXISTS color TEXT;
+ALTER TABLE public.memos ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.memos ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Memo types of the app: coding, document, code, project, free
+UPDATE public.memos SET type = 'free' WHERE type IS NULL OR type NOT IN ('coding', 'document', 'code', 'project', 'free');
+UPDATE public.memos SET tags = '{}' WHERE tags IS NULL;
+UPDATE public.memos SET title = left(content, 60) WHERE title IS NULL;
+ALTER TABLE public.memos ALTER COLUMN title SET NOT NULL;
+ALTER TABLE public.memos ALTER COLUMN color DROP DEFAULT;
+
+-- Full-text search over title (weight A) and content (weight B)
+ALTER TABLE public.memos ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('german', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('german', coalesce(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_memos_project ON public.memos(project_id);
+CREATE INDEX IF NOT EXISTS idx_memos_search ON public.memos USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_memos_tags ON public.memos USING GIN (tags);
+
+-- ============================================
+-- Links: a memo can refer to several codings, codes, documents or memos
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.memo_links (
+  memo_id UUID NOT NULL REFERENCES public.memos(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('coding', 'code', 'document', 'memo')),
+  target_id UUID NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (memo_id, target_type, target_id),
+  CHECK (target_type <> 'memo' OR target_id <> memo_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memo_links_target ON public.memo_links(target_type, target_id);
+
+-- Realtime DELETE events need the full old row to find the link in the client
+ALTER TABLE public.memo_links REPLICA IDENTITY FULL;
+
+-- Carry over the single targets of the old schemas
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'memos' AND column_name = 'target_id'
+  ) THEN
+    INSERT INTO public.memo_links (memo_id, target_type, target_id)
+    SELECT id, target_type, target_id FROM public.memos
+    WHERE target_type IN ('coding', 'code', 'document') AND target_id IS NOT NULL
+    ON CONFLICT DO NOTHING;
+
+    UPDATE public.memos SET type = target_type
+    WHERE type = 'free' AND target_type IN ('coding', 'code', 'document', 'project');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'memos' AND column_name = 'document_id'
+  ) THEN
+    INSERT INTO public.memo_links (memo_id, target_type, target_id)
+    SELECT id, 'document', document_id FROM public.memos WHERE document_id IS NOT NULL
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO public.memo_links (memo_id, target_type, target_id)
+    SELECT id, 'code', code_id FROM public.memos WHERE code_id IS NOT NULL
+    ON CONFLICT DO NOTHING;
+
+    UPDATE public.memos SET type = CASE WHEN code_id IS NOT NULL THEN 'code' ELSE 'document' END
+    WHERE type = 'free' AND (document_id IS NOT NULL OR code_id IS NOT NULL);
+  END IF;
+END $$;
+
+ALTER TABLE public.memos DROP CONSTRAINT IF EXISTS memos_type_check;
+ALTER TABLE public.memos ADD CONSTRAINT memos_type_check
+  CHECK (type IN ('coding', 'document', 'code', 'project', 'free'));
+
+-- ============================================
+-- Comments
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.memo_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  memo_id UUID NOT NULL REFERENCES public.memos(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memo_comments_memo ON public.memo_comments(memo_id);
+
+-- ============================================
+-- Helper (SECURITY DEFINER avoids recursive RLS lookups)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.is_project_member(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects p
+    JOIN public.organization_members om ON om.organization_id = p.organization_id
+    WHERE p.id = p_project_id AND om.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RLS: members read and write memos, authors edit and delete their own
+-- ============================================
+
+ALTER TABLE public.memos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.memo_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.memo_comments ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.memos FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.memos TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.memo_links TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.memo_comments TO authenticated;
+
+DROP POLICY IF EXISTS "Project members can view memos" ON public.memos;
+DROP POLICY IF EXISTS "Project members can create memos" ON public.memos;
+DROP POLICY IF EXISTS "Memo creators can update/delete" ON public.memos;
+DROP POLICY IF EXISTS "Authenticated can manage memos" ON public.memos;
+DROP POLICY IF EXISTS "Public memos" ON public.memos;
+DROP POLICY IF EXISTS "memos_all" ON public.memos;
+DROP POLICY IF EXISTS "memos_select" ON public.memos;
+DROP POLICY IF EXISTS "memos_insert" ON public.memos;
+DROP POLICY IF EXISTS "memos_update" ON public.memos;
+DROP POLICY IF EXISTS "memos_delete" ON public.memos;
+
+CREATE POLICY "memos_select" ON public.memos FOR SELECT
+  USING (public.is_project_member(project_id));
+
+CREATE POLICY "memos_insert" ON public.memos FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND public.is_project_member(project_id));
+
+CREATE POLICY "memos_update" ON public.memos FOR UPDATE
+  USING (created_by = auth.uid() AND public.is_project_member(project_id));
+
+CREATE POLICY "memos_delete" ON public.memos FOR DELETE
+  USING (created_by = auth.uid() AND public.is_project_member(project_id));
+
+-- Links follow the memo: visible with it, changed by its author
+DROP POLICY IF EXISTS "memo_links_select" ON public.memo_links;
+DROP POLICY IF EXISTS "memo_links_write" ON public.memo_links;
+DROP POLICY IF EXISTS "memo_links_delete" ON public.memo_links;
+
+CREATE POLICY "memo_links_select" ON public.memo_links FOR SELECT
+  USING (memo_id IN (SELECT id FROM public.memos));
+
+CREATE POLICY "memo_links_write" ON public.memo_links FOR INSERT
+  WITH CHECK (memo_id IN (SELECT id FROM public.memos WHERE created_by = auth.uid()));
+
+CREATE POLICY "memo_links_delete" ON public.memo_links FOR DELETE
+  USING (memo_id IN (SELECT id FROM public.memos WHERE created_by = auth.uid()));
+
+-- Every member can comment on visible memos
+DROP POLICY IF EXISTS "memo_comments_select" ON public.memo_comments;
+DROP POLICY IF EXISTS "memo_comments_insert" ON public.memo_comments;
+DROP POLICY IF EXISTS "memo_comments_update" ON public.memo_comments;
+DROP POLICY IF EXISTS "memo_comments_delete" ON public.memo_comments;
+
+CREATE POLICY "memo_comments_select" ON public.memo_comments FOR SELECT
+  USING (memo_id IN (SELECT id FROM public.memos));
+
+CREATE POLICY "memo_comments_insert" ON public.memo_comments FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND memo_id IN (SELECT id FROM public.memos));
+
+CREATE POLICY "memo_comments_update" ON public.memo_comments FOR UPDATE
+  USING (created_by = auth.uid());
+
+CREATE POLICY "memo_comments_delete" ON public.memo_comments FOR DELETE
+  USING (created_by = auth.uid());
+
+-- ============================================
+-- updated_at and realtime
+-- ============================================
+
+DROP TRIGGER IF EXISTS update_memos_updated_at ON public.memos;
+CREATE TRIGGER update_memos_updated_at BEFORE UPDATE ON public.memos
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['memos', 'memo_links', 'memo_comments'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,319 @@
+-- ============================================
+-- Audit Trail - tamper-evident change log for codes, codings, documents, memos
+-- ============================================
+-- Every INSERT/UPDATE/DELETE is recorded by a trigger in public.activities with
+-- before and after JSON snapshots. Entries are chained per project with a
+-- SHA-256 hash over the previous hash and the entry itself, so any later
+-- modification of the log is detectable with verify_audit_chain().
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.activities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id),
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Older schemas required a profile; trigger entries from service jobs have no user
+ALTER TABLE public.activities ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.activities ADD COLUMN IF NOT EXISTS entity_name TEXT;
+ALTER TABLE public.activities ADD COLUMN IF NOT EXISTS previous_value JSONB;
+ALTER TABLE public.activities ADD COLUMN IF NOT EXISTS new_value JSONB;
+ALTER TABLE public.activities ADD COLUMN IF NOT EXISTS restored_from UUID REFERENCES public.activities(id);
+ALTER TABLE public.activities ADD COLUMN IF NOT EXISTS prev_hash TEXT;
+ALTER TABLE public.activities ADD COLUMN IF NOT EXISTS hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_activities_project ON public.activities(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activities_entity ON public.activities(entity_type, entity_id);
+
+-- ============================================
+-- Hash chain
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.audit_entry_hash(a public.activities)
+RETURNS TEXT AS $$
+  SELECT encode(digest(
+    concat_ws('|',
+      coalesce(a.prev_hash, ''),
+      a.id::text,
+      a.project_id::text,
+      coalesce(a.user_id::text, ''),
+      a.action,
+      a.entity_type,
+      coalesce(a.entity_id::text, ''),
+      coalesce(a.previous_value::text, ''),
+      coalesce(a.new_value::text, ''),
+      coalesce(a.restored_from::text, ''),
+      -- epoch instead of ::text, which depends on the session time zone
+      extract(epoch FROM a.created_at)::text
+    ),
+    'sha256'
+  ), 'hex');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, extensions;
+
+-- Link each new entry to the latest entry of its project
+CREATE OR REPLACE FUNCTION public.chain_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.project_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize writers per project so the chain has no forks
+  PERFORM pg_advisory_xact_lock(hashtext('activities:' || NEW.project_id::text));
+
+  NEW.created_at := clock_timestamp();
+  SELECT a.hash INTO NEW.prev_hash
+  FROM public.activities a
+  WHERE a.project_id = NEW.project_id AND a.hash IS NOT NULL
+  ORDER BY a.created_at DESC, a.id DESC
+  LIMIT 1;
+
+  NEW.hash := public.audit_entry_hash(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+DROP TRIGGER IF EXISTS chain_activity ON public.activities;
+CREATE TRIGGER chain_activity BEFORE INSERT ON public.activities
+  FOR EACH ROW EXECUTE FUNCTION public.chain_activity();
+
+-- The log is append-only; deletes only happen through project deletion
+CREATE OR REPLACE FUNCTION public.protect_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    RAISE EXCEPTION 'Audit log entries cannot be modified';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.projects WHERE id = OLD.project_id) THEN
+    RAISE EXCEPTION 'Audit log entries cannot be deleted';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_activity ON public.activities;
+CREATE TRIGGER protect_activity BEFORE UPDATE OR DELETE ON public.activities
+  FOR EACH ROW EXECUTE FUNCTION public.protect_activity();
+
+-- First entry whose hash or link does not match, NULL if the chain is intact
+CREATE OR REPLACE FUNCTION public.verify_audit_chain(p_project_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  entry public.activities;
+  expected_prev TEXT := NULL;
+BEGIN
+  -- Runs over the whole chain, including entries hidden from the caller by
+  -- blinding; only the id of the first broken entry is returned
+  IF NOT public.is_project_member(p_project_id) THEN
+    RAISE EXCEPTION 'No access to project %', p_project_id;
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM public.activities
+    WHERE project_id = p_project_id AND hash IS NOT NULL
+    ORDER BY created_at, id
+  LOOP
+    IF entry.prev_hash IS DISTINCT FROM expected_prev
+       OR entry.hash <> public.audit_entry_hash(entry) THEN
+      RETURN entry.id;
+    END IF;
+    expected_prev := entry.hash;
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Audit trigger
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.record_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row JSONB := coalesce(v_new, v_old);
+  v_entity_type TEXT;
+  v_project_id UUID;
+  v_action TEXT;
+  v_name TEXT;
+  v_restored_from UUID := nullif(current_setting('evidenra.restored_from', true), '')::UUID;
+BEGIN
+  -- Generated columns are derived data, not part of the snapshot
+  v_old := v_old - 'search_vector';
+  v_new := v_new - 'search_vector';
+
+  -- Ignore updates that only touch updated_at
+  IF TG_OP = 'UPDATE' AND (v_old - 'updated_at') = (v_new - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  CASE TG_TABLE_NAME
+    WHEN 'codes' THEN
+      v_entity_type := 'code';
+      v_project_id := (v_row->>'project_id')::UUID;
+      v_name := v_row->>'name';
+    WHEN 'documents' THEN
+      v_entity_type := 'document';
+      v_project_id := (v_row->>'project_id')::UUID;
+      v_name := v_row->>'name';
+    WHEN 'memos' THEN
+      v_entity_type := 'memo';
+      v_project_id := (v_row->>'project_id')::UUID;
+      v_name := v_row->>'title';
+    WHEN 'codings' THEN
+      v_entity_type := 'coding';
+      SELECT d.project_id INTO v_project_id FROM public.documents d WHERE d.id = (v_row->>'document_id')::UUID;
+      v_name := left(v_row->>'selected_text', 80);
+  END CASE;
+
+  -- Cascaded deletes of a project (or of a coding's document) are covered by
+  -- the parent's own entry
+  IF v_project_id IS NULL OR NOT EXISTS (SELECT 1 FROM public.projects WHERE id = v_project_id) THEN
+    RETURN NULL;
+  END IF;
+
+  v_action := CASE
+    WHEN v_restored_from IS NOT NULL THEN 'restore'
+    WHEN TG_OP = 'INSERT' THEN 'create'
+    WHEN TG_OP = 'UPDATE' THEN 'update'
+    ELSE 'delete'
+  END;
+
+  INSERT INTO public.activities (
+    project_id, user_id, action, entity_type, entity_id, entity_name,
+    previous_value, new_value, restored_from
+  ) VALUES (
+    v_project_id, auth.uid(), v_action, v_entity_type, (v_row->>'id')::UUID, v_name,
+    v_old, v_new, v_restored_from
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_codes ON public.codes;
+CREATE TRIGGER audit_codes AFTER INSERT OR UPDATE OR DELETE ON public.codes
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+DROP TRIGGER IF EXISTS audit_codings ON public.codings;
+CREATE TRIGGER audit_codings AFTER INSERT OR UPDATE OR DELETE ON public.codings
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+DROP TRIGGER IF EXISTS audit_documents ON public.documents;
+CREATE TRIGGER audit_documents AFTER INSERT OR UPDATE OR DELETE ON public.documents
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+DROP TRIGGER IF EXISTS audit_memos ON public.memos;
+CREATE TRIGGER audit_memos AFTER INSERT OR UPDATE OR DELETE ON public.memos
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+-- ============================================
+-- Restore
+-- ============================================
+-- Re-applies the snapshot from before the given change (updates the row if it
+-- still exists, re-inserts it otherwise). Runs with the caller's rights, so
+-- RLS of the target table applies. The audit trigger records the restore as
+-- its own entry pointing at the restored one.
+
+CREATE OR REPLACE FUNCTION public.restore_activity(p_activity_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  entry public.activities;
+  v_table TEXT;
+  v_columns TEXT;
+  v_exists BOOLEAN;
+  v_restore_id UUID;
+BEGIN
+  SELECT * INTO entry FROM public.activities WHERE id = p_activity_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Audit entry % not found', p_activity_id;
+  END IF;
+  IF entry.previous_value IS NULL THEN
+    RAISE EXCEPTION 'No previous version to restore';
+  END IF;
+
+  v_table := CASE entry.entity_type
+    WHEN 'code' THEN 'codes'
+    WHEN 'coding' THEN 'codings'
+    WHEN 'document' THEN 'documents'
+    WHEN 'memo' THEN 'memos'
+  END;
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Entity type % cannot be restored', entry.entity_type;
+  END IF;
+
+  -- Writable columns present in the snapshot
+  SELECT string_agg(quote_ident(c.column_name), ', ' ORDER BY c.ordinal_position)
+  INTO v_columns
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = v_table
+    AND c.column_name NOT IN ('id', 'created_at', 'updated_at')
+    AND c.is_generated = 'NEVER'
+    AND entry.previous_value ? c.column_name;
+
+  PERFORM set_config('evidenra.restored_from', p_activity_id::text, true);
+
+  EXECUTE format('SELECT EXISTS (SELECT 1 FROM public.%I WHERE id = $1)', v_table)
+  INTO v_exists USING entry.entity_id;
+
+  IF v_exists THEN
+    EXECUTE format(
+      'UPDATE public.%1$I t SET (%2$s) = (SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1)) WHERE t.id = $2',
+      v_table, v_columns
+    ) USING entry.previous_value, entry.entity_id;
+  ELSE
+    EXECUTE format(
+      'INSERT INTO public.%1$I (id, %2$s) SELECT id, %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1)',
+      v_table, v_columns
+    ) USING entry.previous_value;
+  END IF;
+
+  PERFORM set_config('evidenra.restored_from', '', true);
+
+  SELECT id INTO v_restore_id FROM public.activities
+  WHERE restored_from = p_activity_id AND entity_id = entry.entity_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  RETURN v_restore_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- ============================================
+-- RLS: members read the log of their projects; nobody writes it directly
+-- ============================================
+
+ALTER TABLE public.activities ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.activities FROM anon, authenticated;
+GRANT SELECT ON public.activities TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_activity(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_audit_chain(UUID) TO authenticated;
+
+-- Coding entries follow the blinding of their coding (migration 026): during
+-- an open round, assigned coders do not see other coders' snapshots here either
+DROP POLICY IF EXISTS "Project members can view activities" ON public.activities;
+DROP POLICY IF EXISTS "activities_select" ON public.activities;
+CREATE POLICY "activities_select" ON public.activities FOR SELECT
+  USING (
+    public.is_project_member(project_id)
+    AND (
+      entity_type <> 'coding'
+      OR NOT public.is_coding_blinded(
+        (coalesce(new_value, previous_value)->>'round_id')::UUID,
+        (coalesce(new_value, previous_value)->>'document_id')::UUID,
+        (coalesce(new_value, previous_value)->>'coded_by')::UUID
+      )
+    )
+  );
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
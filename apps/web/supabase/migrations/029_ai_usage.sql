@@ -0,0 +1,129 @@
+-- ============================================
+-- AI Usage - usage ledger and spending budgets for AI coding
+-- ============================================
+-- Every AI coding run records the tokens reported by the provider and their
+-- cost in USD. The ledger is append-only so spend reports for funders stay
+-- complete. Budgets limit the spend of a whole project or of one user within
+-- a project, per calendar month or in total.
+
+CREATE TABLE IF NOT EXISTS public.ai_usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  model TEXT NOT NULL,
+  method TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_project ON public.ai_usage_ledger(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user ON public.ai_usage_ledger(user_id, created_at);
+
+-- ============================================
+-- Budgets (user_id NULL = whole project)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.ai_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  limit_usd NUMERIC(12, 2) NOT NULL CHECK (limit_usd >= 0),
+  period TEXT NOT NULL DEFAULT 'month' CHECK (period IN ('month', 'total')),
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_budgets_project
+  ON public.ai_budgets(project_id) WHERE user_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_budgets_user
+  ON public.ai_budgets(project_id, user_id) WHERE user_id IS NOT NULL;
+
+-- ============================================
+-- Helper: owners and admins of the project's organization manage budgets
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.is_project_admin(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects p
+    JOIN public.organization_members om ON om.organization_id = p.organization_id
+    WHERE p.id = p_project_id AND om.user_id = auth.uid() AND om.role IN ('owner', 'admin')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RLS: members read, users record their own runs, admins set budgets
+-- ============================================
+
+ALTER TABLE public.ai_usage_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_budgets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.ai_usage_ledger FROM anon;
+REVOKE ALL ON public.ai_budgets FROM anon;
+-- No UPDATE/DELETE grant: the ledger is append-only
+GRANT SELECT, INSERT ON public.ai_usage_ledger TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.ai_budgets TO authenticated;
+
+DROP POLICY IF EXISTS "ai_usage_select" ON public.ai_usage_ledger;
+DROP POLICY IF EXISTS "ai_usage_insert" ON public.ai_usage_ledger;
+
+CREATE POLICY "ai_usage_select" ON public.ai_usage_ledger FOR SELECT
+  USING (public.is_project_member(project_id));
+
+CREATE POLICY "ai_usage_insert" ON public.ai_usage_ledger FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND public.is_project_member(project_id));
+
+DROP POLICY IF EXISTS "ai_budgets_select" ON public.ai_budgets;
+DROP POLICY IF EXISTS "ai_budgets_insert" ON public.ai_budgets;
+DROP POLICY IF EXISTS "ai_budgets_update" ON public.ai_budgets;
+DROP POLICY IF EXISTS "ai_budgets_delete" ON public.ai_budgets;
+
+CREATE POLICY "ai_budgets_select" ON public.ai_budgets FOR SELECT
+  USING (public.is_project_member(project_id));
+
+CREATE POLICY "ai_budgets_insert" ON public.ai_budgets FOR INSERT
+  WITH CHECK (public.is_project_admin(project_id));
+
+CREATE POLICY "ai_budgets_update" ON public.ai_budgets FOR UPDATE
+  USING (public.is_project_admin(project_id));
+
+CREATE POLICY "ai_budgets_delete" ON public.ai_budgets FOR DELETE
+  USING (public.is_project_admin(project_id));
+
+DROP TRIGGER IF EXISTS update_ai_budgets_updated_at ON public.ai_budgets;
+CREATE TRIGGER update_ai_budgets_updated_at BEFORE UPDATE ON public.ai_budgets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- Budget status of the current user: the project budget and their own
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.ai_budget_status(p_project_id UUID)
+RETURNS TABLE (
+  budget_id UUID,
+  user_id UUID,
+  limit_usd NUMERIC,
+  period TEXT,
+  spent_usd NUMERIC
+) AS $$
+  SELECT
+    b.id,
+    b.user_id,
+    b.limit_usd,
+    b.period,
+    COALESCE((
+      SELECT SUM(l.cost_usd) FROM public.ai_usage_ledger l
+      WHERE l.project_id = b.project_id
+        AND (b.user_id IS NULL OR l.user_id = b.user_id)
+        AND (b.period = 'total' OR l.created_at >= date_trunc('month', NOW()))
+    ), 0)
+  FROM public.ai_budgets b
+  WHERE b.project_id = p_project_id
+    AND (b.user_id IS NULL OR b.user_id = auth.uid())
+    AND public.is_project_member(p_project_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.ai_budget_status(UUID) TO authenticated;
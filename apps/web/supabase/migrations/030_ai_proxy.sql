@@ -0,0 +1,92 @@
+-- ============================================
+-- AI Proxy - organization API keys and rate limits
+-- ============================================
+-- AI requests go through the ai-proxy Edge Function. Organization keys are
+-- encrypted by the function (AES-GCM, secret AI_KEY_ENCRYPTION_KEY) before
+-- they are stored; the browser only ever sees the last four characters.
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_hash TEXT NOT NULL,
+  key_preview TEXT NOT NULL, -- Last 4 characters
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.api_keys ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'anthropic';
+-- base64(iv || ciphertext); key_hash (SHA-256) identifies a key without decrypting it
+ALTER TABLE public.api_keys ADD COLUMN IF NOT EXISTS encrypted_key TEXT;
+
+-- Keys saved before the proxy existed cannot be decrypted
+DELETE FROM public.api_keys WHERE encrypted_key IS NULL;
+ALTER TABLE public.api_keys ALTER COLUMN encrypted_key SET NOT NULL;
+
+ALTER TABLE public.api_keys DROP CONSTRAINT IF EXISTS api_keys_provider_check;
+ALTER TABLE public.api_keys ADD CONSTRAINT api_keys_provider_check
+  CHECK (provider IN ('anthropic', 'openai'));
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_org ON public.api_keys(organization_id);
+-- One active key per provider and organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_org_provider ON public.api_keys(organization_id, provider);
+
+-- Members see which keys exist, never the encrypted value. Keys are written
+-- only by the Edge Function with the service role.
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.api_keys FROM anon, authenticated;
+GRANT SELECT (id, organization_id, provider, name, key_preview, created_by, created_at, last_used_at)
+  ON public.api_keys TO authenticated;
+
+DROP POLICY IF EXISTS "api_keys_select" ON public.api_keys;
+CREATE POLICY "api_keys_select" ON public.api_keys FOR SELECT
+  USING (organization_id IN (
+    SELECT organization_id FROM public.organization_members WHERE user_id = auth.uid()
+  ));
+
+-- ============================================
+-- Rate limits per organization (fixed one-minute windows)
+-- ============================================
+
+ALTER TABLE public.organizations ADD COLUMN IF NOT EXISTS ai_requests_per_minute INTEGER NOT NULL DEFAULT 30
+  CHECK (ai_requests_per_minute >= 0);
+
+CREATE TABLE IF NOT EXISTS public.ai_rate_windows (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  window_start TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (organization_id, window_start)
+);
+
+-- Only the Edge Function touches the windows
+ALTER TABLE public.ai_rate_windows ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.ai_rate_windows FROM anon, authenticated;
+
+-- Counts the request and returns whether it is within the organization's limit
+CREATE OR REPLACE FUNCTION public.take_ai_rate_limit(p_organization_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_limit INTEGER;
+  v_count INTEGER;
+BEGIN
+  SELECT ai_requests_per_minute INTO v_limit FROM public.organizations WHERE id = p_organization_id;
+  IF v_limit IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.ai_rate_windows (organization_id, window_start, request_count)
+  VALUES (p_organization_id, date_trunc('minute', NOW()), 1)
+  ON CONFLICT (organization_id, window_start)
+  DO UPDATE SET request_count = public.ai_rate_windows.request_count + 1
+  RETURNING request_count INTO v_count;
+
+  DELETE FROM public.ai_rate_windows
+  WHERE organization_id = p_organization_id AND window_start < NOW() - INTERVAL '1 hour';
+
+  RETURN v_count <= v_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.take_ai_rate_limit(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.take_ai_rate_limit(UUID) TO service_role;
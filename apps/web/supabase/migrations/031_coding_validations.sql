@@ -0,0 +1,77 @@
+-- ============================================
+-- Coding Validations - human review of AI codings
+-- ============================================
+-- Reviewers accept, modify (suggest another code) or reject AI codings in the
+-- validation queue. Every reviewer keeps one decision per coding, so several
+-- reviewers can validate the same coding and the client derives the team
+-- consensus from them. The decisions feed the AKIH Human Validation factor.
+
+CREATE TABLE IF NOT EXISTS public.coding_validations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coding_id UUID NOT NULL REFERENCES public.codings(id) ON DELETE CASCADE,
+  -- Filled from the coding's document, see set_coding_validation_project()
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('accepted', 'modified', 'rejected')),
+  new_code_id UUID REFERENCES public.codes(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (coding_id, user_id),
+  -- Only a modification names a replacement code
+  CHECK (status = 'modified' OR new_code_id IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coding_validations_project ON public.coding_validations(project_id);
+CREATE INDEX IF NOT EXISTS idx_coding_validations_coding ON public.coding_validations(coding_id);
+
+CREATE OR REPLACE FUNCTION public.set_coding_validation_project()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT d.project_id INTO NEW.project_id
+  FROM public.codings c
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.id = NEW.coding_id;
+
+  IF NEW.project_id IS NULL THEN
+    RAISE EXCEPTION 'Kodierung % nicht gefunden', NEW.coding_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_coding_validation_project ON public.coding_validations;
+CREATE TRIGGER set_coding_validation_project BEFORE INSERT OR UPDATE OF coding_id ON public.coding_validations
+  FOR EACH ROW EXECUTE FUNCTION public.set_coding_validation_project();
+
+DROP TRIGGER IF EXISTS update_coding_validations_updated_at ON public.coding_validations;
+CREATE TRIGGER update_coding_validations_updated_at BEFORE UPDATE ON public.coding_validations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- RLS: members see all decisions, reviewers change only their own
+-- ============================================
+
+ALTER TABLE public.coding_validations ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.coding_validations FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.coding_validations TO authenticated;
+
+DROP POLICY IF EXISTS "coding_validations_select" ON public.coding_validations;
+DROP POLICY IF EXISTS "coding_validations_insert" ON public.coding_validations;
+DROP POLICY IF EXISTS "coding_validations_update" ON public.coding_validations;
+DROP POLICY IF EXISTS "coding_validations_delete" ON public.coding_validations;
+
+CREATE POLICY "coding_validations_select" ON public.coding_validations FOR SELECT
+  USING (public.is_project_member(project_id));
+
+CREATE POLICY "coding_validations_insert" ON public.coding_validations FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND public.is_project_member(project_id));
+
+CREATE POLICY "coding_validations_update" ON public.coding_validations FOR UPDATE
+  USING (user_id = auth.uid() AND public.is_project_member(project_id));
+
+CREATE POLICY "coding_validations_delete" ON public.coding_validations FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
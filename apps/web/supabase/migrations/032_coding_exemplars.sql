@@ -0,0 +1,187 @@
+-- ============================================
+-- Coding Exemplars - active learning from reviewed AI codings
+-- ============================================
+-- The team's review decisions (migration 031) turn AI codings into exemplars
+-- of their codes once the reviewers agree: accepted codings are positive,
+-- rejected ones negative; a modified coding is negative for the AI's code and
+-- positive for the corrected code. Codings still pending or in conflict give
+-- no exemplar.
+-- The text is copied, so exemplars outlive rejected codings that get deleted.
+-- AI coding runs use the exemplars as few-shot examples and for pattern matching.
+
+CREATE TABLE IF NOT EXISTS public.coding_exemplars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  code_id UUID NOT NULL REFERENCES public.codes(id) ON DELETE CASCADE,
+  source_coding_id UUID REFERENCES public.codings(id) ON DELETE SET NULL,
+  text TEXT NOT NULL,
+  polarity TEXT NOT NULL CHECK (polarity IN ('positive', 'negative')),
+  coding_method TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (source_coding_id, code_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coding_exemplars_project ON public.coding_exemplars(project_id, created_at DESC);
+
+-- ============================================
+-- Team consensus on a coding
+-- ============================================
+
+-- The rule of resolveConsensus (lib/akihCalculations.ts) with the default
+-- settings (DEFAULT_AKIH_CONFIG): at least two decisions, and two thirds of
+-- them agreeing. No row while the coding is pending or in conflict. For
+-- 'modified', new_code_id is the correction most reviewers chose.
+CREATE OR REPLACE FUNCTION public.coding_validation_consensus(p_coding_id UUID)
+RETURNS TABLE (status TEXT, new_code_id UUID) AS $$
+  WITH decided AS (
+    SELECT v.status, v.new_code_id, v.updated_at
+    FROM public.coding_validations v
+    WHERE v.coding_id = p_coding_id
+  ),
+  top_status AS (
+    SELECT d.status, COUNT(*) AS votes
+    FROM decided d
+    GROUP BY d.status
+    ORDER BY COUNT(*) DESC, MAX(d.updated_at) DESC
+    LIMIT 1
+  )
+  SELECT
+    l.status,
+    CASE WHEN l.status = 'modified' THEN (
+      SELECT d.new_code_id FROM decided d
+      WHERE d.status = 'modified' AND d.new_code_id IS NOT NULL
+      GROUP BY d.new_code_id
+      ORDER BY COUNT(*) DESC, MIN(d.updated_at)
+      LIMIT 1
+    ) END
+  FROM top_status l
+  WHERE (SELECT COUNT(*) FROM decided) >= 2
+    -- Whole percent as in resolveConsensus, so 2 of 3 votes are enough
+    AND ROUND(l.votes * 100.0 / (SELECT COUNT(*) FROM decided)) >= 67;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.coding_validation_consensus(UUID) TO authenticated;
+
+-- ============================================
+-- Exemplars follow the consensus on a coding
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.refresh_coding_exemplars(p_coding_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_coding RECORD;
+  v_decision RECORD;
+BEGIN
+  SELECT c.id, c.code_id, c.selected_text, c.coding_method, d.project_id INTO v_coding
+  FROM public.codings c
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.id = p_coding_id;
+
+  -- Coding deleted: keep its exemplars, the decision was made
+  IF v_coding.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.coding_exemplars WHERE source_coding_id = p_coding_id;
+
+  SELECT status, new_code_id INTO v_decision
+  FROM public.coding_validation_consensus(p_coding_id);
+
+  -- Pending or in conflict: no exemplar until the team agrees
+  IF v_decision.status IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.coding_exemplars (project_id, code_id, source_coding_id, text, polarity, coding_method)
+  VALUES (
+    v_coding.project_id,
+    v_coding.code_id,
+    p_coding_id,
+    v_coding.selected_text,
+    CASE WHEN v_decision.status = 'accepted' THEN 'positive' ELSE 'negative' END,
+    v_coding.coding_method
+  );
+
+  IF v_decision.status = 'modified' AND v_decision.new_code_id IS NOT NULL
+     AND v_decision.new_code_id <> v_coding.code_id THEN
+    INSERT INTO public.coding_exemplars (project_id, code_id, source_coding_id, text, polarity, coding_method)
+    VALUES (v_coding.project_id, v_decision.new_code_id, p_coding_id, v_coding.selected_text, 'positive', v_coding.coding_method);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_coding_exemplars(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.coding_validations_exemplars_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_coding_exemplars(COALESCE(NEW.coding_id, OLD.coding_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS coding_validations_exemplars ON public.coding_validations;
+CREATE TRIGGER coding_validations_exemplars
+  AFTER INSERT OR UPDATE OR DELETE ON public.coding_validations
+  FOR EACH ROW EXECUTE FUNCTION public.coding_validations_exemplars_trigger();
+
+-- Decisions made before this migration
+DO $$
+DECLARE
+  v_coding_id UUID;
+BEGIN
+  FOR v_coding_id IN SELECT DISTINCT coding_id FROM public.coding_validations LOOP
+    PERFORM public.refresh_coding_exemplars(v_coding_id);
+  END LOOP;
+END $$;
+
+-- ============================================
+-- RLS: members read, only the trigger writes
+-- ============================================
+
+ALTER TABLE public.coding_exemplars ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.coding_exemplars FROM anon, authenticated;
+GRANT SELECT ON public.coding_exemplars TO authenticated;
+
+DROP POLICY IF EXISTS "coding_exemplars_select" ON public.coding_exemplars;
+CREATE POLICY "coding_exemplars_select" ON public.coding_exemplars FOR SELECT
+  USING (public.is_project_member(project_id));
+
+-- ============================================
+-- Precision of AI coding: team consensus per reviewed coding (pending and
+-- conflicting codings left out), grouped by week of the coding, method and code
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.ai_precision_stats(p_project_id UUID)
+RETURNS TABLE (
+  week DATE,
+  coding_method TEXT,
+  code_id UUID,
+  accepted INTEGER,
+  modified INTEGER,
+  rejected INTEGER
+) AS $$
+  WITH consensus AS (
+    SELECT r.coding_id, cs.status
+    FROM (
+      SELECT DISTINCT v.coding_id FROM public.coding_validations v WHERE v.project_id = p_project_id
+    ) r
+    CROSS JOIN LATERAL public.coding_validation_consensus(r.coding_id) cs
+  )
+  SELECT
+    date_trunc('week', c.created_at)::DATE AS week,
+    c.coding_method,
+    c.code_id,
+    COUNT(*) FILTER (WHERE l.status = 'accepted')::INTEGER,
+    COUNT(*) FILTER (WHERE l.status = 'modified')::INTEGER,
+    COUNT(*) FILTER (WHERE l.status = 'rejected')::INTEGER
+  FROM consensus l
+  JOIN public.codings c ON c.id = l.coding_id
+  GROUP BY 1, 2, 3
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.ai_precision_stats(UUID) TO authenticated;
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,52 @@
+-- ============================================
+-- Saved Queries - coding queries per project, document attributes
+-- ============================================
+-- Queries of the query language (lib/query.ts) are saved per project and
+-- shared with the team. Document attributes (gender=f, age=34, ...) are free
+-- key/value pairs that queries can filter on with @key=value.
+
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS attributes JSONB NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS public.saved_queries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_queries_project ON public.saved_queries(project_id);
+
+DROP TRIGGER IF EXISTS update_saved_queries_updated_at ON public.saved_queries;
+CREATE TRIGGER update_saved_queries_updated_at BEFORE UPDATE ON public.saved_queries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- RLS: members read and save, authors (or admins) change and delete
+-- ============================================
+
+ALTER TABLE public.saved_queries ENABLE ROW LEVEL SECURITY;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.saved_queries TO authenticated;
+
+DROP POLICY IF EXISTS "saved_queries_select" ON public.saved_queries;
+DROP POLICY IF EXISTS "saved_queries_insert" ON public.saved_queries;
+DROP POLICY IF EXISTS "saved_queries_update" ON public.saved_queries;
+DROP POLICY IF EXISTS "saved_queries_delete" ON public.saved_queries;
+
+CREATE POLICY "saved_queries_select" ON public.saved_queries FOR SELECT
+  USING (public.is_project_member(project_id));
+
+CREATE POLICY "saved_queries_insert" ON public.saved_queries FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND public.is_project_member(project_id));
+
+CREATE POLICY "saved_queries_update" ON public.saved_queries FOR UPDATE
+  USING (created_by = auth.uid() OR public.is_project_admin(project_id));
+
+CREATE POLICY "saved_queries_delete" ON public.saved_queries FOR DELETE
+  USING (created_by = auth.uid() OR public.is_project_admin(project_id));
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
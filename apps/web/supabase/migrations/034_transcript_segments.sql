@@ -0,0 +1,78 @@
+-- ============================================
+-- Transcript Segments - media files and timed transcript segments
+-- ============================================
+-- Audio/video documents keep the original file in the documents bucket
+-- (documents.file_path) and their transcript segments as rows with both the
+-- media time and the character range in documents.content. The player in
+-- the document view and the coding exports map text offsets to media time.
+
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS media_type TEXT CHECK (media_type IN ('audio', 'video'));
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS media_duration DOUBLE PRECISION;
+
+CREATE TABLE IF NOT EXISTS public.transcript_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  -- Filled from the document, see set_transcript_segment_project()
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  start_time DOUBLE PRECISION NOT NULL,
+  end_time DOUBLE PRECISION NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (document_id, position),
+  CHECK (end_time >= start_time AND end_offset >= start_offset)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_document ON public.transcript_segments(document_id, position);
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_project ON public.transcript_segments(project_id);
+
+CREATE OR REPLACE FUNCTION public.set_transcript_segment_project()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT project_id INTO NEW.project_id FROM public.documents WHERE id = NEW.document_id;
+
+  IF NEW.project_id IS NULL THEN
+    RAISE EXCEPTION 'Dokument % nicht gefunden', NEW.document_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_transcript_segment_project ON public.transcript_segments;
+CREATE TRIGGER set_transcript_segment_project BEFORE INSERT OR UPDATE OF document_id ON public.transcript_segments
+  FOR EACH ROW EXECUTE FUNCTION public.set_transcript_segment_project();
+
+-- ============================================
+-- RLS: project members read and write
+-- ============================================
+
+ALTER TABLE public.transcript_segments ENABLE ROW LEVEL SECURITY;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.transcript_segments TO authenticated;
+
+DROP POLICY IF EXISTS "transcript_segments_select" ON public.transcript_segments;
+DROP POLICY IF EXISTS "transcript_segments_write" ON public.transcript_segments;
+
+CREATE POLICY "transcript_segments_select" ON public.transcript_segments FOR SELECT
+  USING (public.is_project_member(project_id));
+
+CREATE POLICY "transcript_segments_write" ON public.transcript_segments FOR ALL
+  USING (public.is_project_member(project_id))
+  WITH CHECK (public.is_project_member(project_id));
+
+-- ============================================
+-- Storage: all formats MediaUpload accepts
+-- ============================================
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY(
+  SELECT DISTINCT unnest(allowed_mime_types || ARRAY[
+    'audio/mp3', 'audio/mp4', 'audio/m4a', 'audio/x-m4a', 'audio/flac', 'audio/x-wav',
+    'video/mpeg', 'video/quicktime'
+  ])
+)
+WHERE id = 'documents';
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,24 @@
+-- ============================================
+-- Media Codings - codings on time ranges of audio/video documents
+-- ============================================
+-- Video data without a useful transcript is coded directly on the media
+-- timeline: start_time/end_time in seconds and, for video, an optional
+-- region of the frame. Time codings keep start_offset = end_offset = 0,
+-- selected_text holds the time range as a label.
+
+ALTER TABLE public.codings ADD COLUMN IF NOT EXISTS start_time DOUBLE PRECISION;
+ALTER TABLE public.codings ADD COLUMN IF NOT EXISTS end_time DOUBLE PRECISION;
+-- {x, y, width, height}, normalized to 0..1 of the video frame
+ALTER TABLE public.codings ADD COLUMN IF NOT EXISTS region JSONB;
+
+ALTER TABLE public.codings DROP CONSTRAINT IF EXISTS codings_time_range_check;
+ALTER TABLE public.codings ADD CONSTRAINT codings_time_range_check CHECK (
+  (start_time IS NULL AND end_time IS NULL AND region IS NULL)
+  OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time >= start_time AND start_time >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_codings_document_time ON public.codings(document_id, start_time)
+  WHERE start_time IS NOT NULL;
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
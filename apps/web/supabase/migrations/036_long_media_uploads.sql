@@ -0,0 +1,10 @@
+-- ============================================
+-- Long Media Uploads
+-- ============================================
+-- Recordings are transcribed in chunks now, so interviews of several hours
+-- are no longer limited by the 25 MB of the Whisper API - only by the
+-- bucket. Hosted projects also cap uploads in the storage settings.
+
+UPDATE storage.buckets
+SET file_size_limit = 1073741824 -- 1 GB
+WHERE id = 'documents';
@@ -0,0 +1,14 @@
+-- ============================================
+-- Transcript Speakers - diarization labels on transcript segments
+-- ============================================
+-- Focus groups and interviews are diarized during transcription; every
+-- segment keeps its speaker ("SPEAKER_00" or the pseudonym it was renamed
+-- to), so codings can be filtered and cross-tabulated by speaker.
+
+ALTER TABLE public.transcript_segments ADD COLUMN IF NOT EXISTS speaker TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_speaker ON public.transcript_segments(project_id, speaker)
+  WHERE speaker IS NOT NULL;
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,93 @@
+-- ============================================
+-- Document Edits - content changes that keep codings and segments in place
+-- ============================================
+-- Codings and transcript segments point into the document content by
+-- character offsets. When the content is edited (e.g. a corrected
+-- transcript), the client diffs old and new text and remaps the offsets of
+-- the codings and segments it can see; apply_document_edit writes the
+-- content together with the remapped rows in one transaction.
+--
+-- Codings of other coders in an open round are hidden from a coder of that
+-- round (see is_coding_blinded) and could not be remapped, so the content of
+-- a document stays fixed while an open round covers it.
+
+-- Word timestamps of a segment: [{ "start": 1.2, "end": 1.5, "text": "Hallo" }]
+ALTER TABLE public.transcript_segments ADD COLUMN IF NOT EXISTS words JSONB;
+
+-- Does an open round cover the document, by its document list or by a coding
+-- made in it? SECURITY DEFINER: the codings of the round may be hidden from
+-- the caller.
+CREATE OR REPLACE FUNCTION public.is_document_in_open_round(p_document_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.coding_round_documents rd
+    WHERE rd.document_id = p_document_id AND public.is_round_open(rd.round_id)
+  ) OR EXISTS (
+    SELECT 1 FROM public.codings c
+    WHERE c.document_id = p_document_id AND c.round_id IS NOT NULL AND public.is_round_open(c.round_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_document_in_open_round(UUID) TO authenticated;
+
+-- p_codings:  [{ "id", "start_offset", "end_offset", "selected_text" }]
+-- p_segments: [{ "id", "start_offset", "end_offset", "text", "words" }]
+-- Fails if the document changed since p_base_updated_at, the offsets were
+-- computed against that version, and while an open round covers the document.
+CREATE OR REPLACE FUNCTION public.apply_document_edit(
+  p_document_id UUID,
+  p_content TEXT,
+  p_base_updated_at TIMESTAMPTZ,
+  p_codings JSONB DEFAULT '[]'::jsonb,
+  p_deleted_codings UUID[] DEFAULT '{}',
+  p_segments JSONB DEFAULT '[]'::jsonb,
+  p_deleted_segments UUID[] DEFAULT '{}'
+)
+RETURNS public.documents AS $$
+DECLARE
+  v_document public.documents;
+BEGIN
+  SELECT * INTO v_document FROM public.documents WHERE id = p_document_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dokument % nicht gefunden', p_document_id;
+  END IF;
+  IF v_document.updated_at IS DISTINCT FROM p_base_updated_at THEN
+    RAISE EXCEPTION 'Dokument wurde zwischenzeitlich geändert, bitte neu laden';
+  END IF;
+  IF public.is_document_in_open_round(p_document_id) THEN
+    RAISE EXCEPTION 'Dokument gehört zu einer offenen Kodierrunde und kann erst nach deren Abschluss bearbeitet werden';
+  END IF;
+
+  DELETE FROM public.codings
+  WHERE document_id = p_document_id AND id = ANY(p_deleted_codings);
+
+  UPDATE public.codings c
+  SET start_offset = (x->>'start_offset')::INTEGER,
+      end_offset = (x->>'end_offset')::INTEGER,
+      selected_text = x->>'selected_text'
+  FROM jsonb_array_elements(p_codings) x
+  WHERE c.id = (x->>'id')::UUID AND c.document_id = p_document_id;
+
+  DELETE FROM public.transcript_segments
+  WHERE document_id = p_document_id AND id = ANY(p_deleted_segments);
+
+  UPDATE public.transcript_segments s
+  SET start_offset = (x->>'start_offset')::INTEGER,
+      end_offset = (x->>'end_offset')::INTEGER,
+      text = x->>'text',
+      words = NULLIF(x->'words', 'null'::jsonb)
+  FROM jsonb_array_elements(p_segments) x
+  WHERE s.id = (x->>'id')::UUID AND s.document_id = p_document_id;
+
+  UPDATE public.documents SET content = p_content
+  WHERE id = p_document_id
+  RETURNING * INTO v_document;
+
+  RETURN v_document;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.apply_document_edit(UUID, TEXT, TIMESTAMPTZ, JSONB, UUID[], JSONB, UUID[]) TO authenticated;
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
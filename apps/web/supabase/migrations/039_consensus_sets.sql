@@ -0,0 +1,125 @@
+-- ============================================
+-- Consensus Sets - adjudicated codings kept apart from the coders' codings
+-- ============================================
+-- An adjudication round turns the disagreements of two coders into a
+-- consensus coding set. Its codings reference the set, so the default coding
+-- queries (document view, analysis, search, export) leave them out and do not
+-- count them next to the coders' own codings. One set per coder pair and
+-- round: adjudicating the pair again replaces the previous set.
+
+CREATE TABLE IF NOT EXISTS public.consensus_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- Coders whose disagreements were decided, stored in ascending order
+  coder1_id UUID NOT NULL,
+  coder2_id UUID NOT NULL,
+  round_id UUID REFERENCES public.coding_rounds(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (coder1_id < coder2_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_consensus_sets_pair ON public.consensus_sets(
+  project_id, coder1_id, coder2_id, COALESCE(round_id, '00000000-0000-0000-0000-000000000000'::uuid)
+);
+
+ALTER TABLE public.codings ADD COLUMN IF NOT EXISTS consensus_set_id UUID
+  REFERENCES public.consensus_sets(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_codings_consensus_set ON public.codings(consensus_set_id);
+
+-- Consensus codings written before this migration (codingMethod 'consensus')
+-- stay where they are; they can be removed or re-adjudicated by hand.
+
+-- ============================================
+-- RLS: project members read, adjudicators write
+-- ============================================
+
+ALTER TABLE public.consensus_sets ENABLE ROW LEVEL SECURITY;
+GRANT SELECT, INSERT, DELETE ON public.consensus_sets TO authenticated;
+
+DROP POLICY IF EXISTS "consensus_sets_select" ON public.consensus_sets;
+DROP POLICY IF EXISTS "consensus_sets_insert" ON public.consensus_sets;
+DROP POLICY IF EXISTS "consensus_sets_delete" ON public.consensus_sets;
+
+CREATE POLICY "consensus_sets_select" ON public.consensus_sets FOR SELECT
+  USING (public.is_project_member(project_id));
+
+CREATE POLICY "consensus_sets_insert" ON public.consensus_sets FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND public.is_project_member(project_id));
+
+CREATE POLICY "consensus_sets_delete" ON public.consensus_sets FOR DELETE
+  USING (public.is_project_member(project_id));
+
+-- ============================================
+-- Saving a consensus set
+-- ============================================
+
+-- p_codings: [{ "document_id", "code_id", "start_offset", "end_offset",
+--               "selected_text", "start_time", "end_time" }]
+-- Replaces the pair's previous set (its codings go with it, links of memos to
+-- them are removed) and inserts the new codings in one transaction. Returns
+-- the ids of the new codings in the order of p_codings.
+CREATE OR REPLACE FUNCTION public.replace_consensus_set(
+  p_project_id UUID,
+  p_coder1_id UUID,
+  p_coder2_id UUID,
+  p_round_id UUID,
+  p_codings JSONB
+)
+RETURNS UUID[] AS $$
+DECLARE
+  v_set_id UUID;
+  v_coding_id UUID;
+  v_ids UUID[] := '{}';
+  x JSONB;
+BEGIN
+  DELETE FROM public.memo_links
+  WHERE target_type = 'coding' AND target_id IN (
+    SELECT c.id FROM public.codings c
+    JOIN public.consensus_sets s ON s.id = c.consensus_set_id
+    WHERE s.project_id = p_project_id
+      AND s.coder1_id = LEAST(p_coder1_id, p_coder2_id)
+      AND s.coder2_id = GREATEST(p_coder1_id, p_coder2_id)
+      AND s.round_id IS NOT DISTINCT FROM p_round_id
+  );
+
+  DELETE FROM public.consensus_sets
+  WHERE project_id = p_project_id
+    AND coder1_id = LEAST(p_coder1_id, p_coder2_id)
+    AND coder2_id = GREATEST(p_coder1_id, p_coder2_id)
+    AND round_id IS NOT DISTINCT FROM p_round_id;
+
+  INSERT INTO public.consensus_sets (project_id, coder1_id, coder2_id, round_id)
+  VALUES (p_project_id, LEAST(p_coder1_id, p_coder2_id), GREATEST(p_coder1_id, p_coder2_id), p_round_id)
+  RETURNING id INTO v_set_id;
+
+  FOR x IN SELECT value FROM jsonb_array_elements(p_codings) WITH ORDINALITY ORDER BY ordinality LOOP
+    INSERT INTO public.codings (
+      document_id, code_id, start_offset, end_offset, selected_text,
+      coding_method, coded_by, start_time, end_time, consensus_set_id
+    )
+    VALUES (
+      (x->>'document_id')::UUID,
+      (x->>'code_id')::UUID,
+      (x->>'start_offset')::INTEGER,
+      (x->>'end_offset')::INTEGER,
+      x->>'selected_text',
+      'consensus',
+      auth.uid(),
+      (x->>'start_time')::DOUBLE PRECISION,
+      (x->>'end_time')::DOUBLE PRECISION,
+      v_set_id
+    )
+    RETURNING id INTO v_coding_id;
+    v_ids := v_ids || v_coding_id;
+  END LOOP;
+
+  RETURN v_ids;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.replace_consensus_set(UUID, UUID, UUID, UUID, JSONB) TO authenticated;
+
+-- Notify PostgREST
+NOTIFY pgrst, 'reload schema';
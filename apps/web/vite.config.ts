@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -20,6 +21,10 @@ export default defineConfig(({ mode }) => {
         '@evidenra/supabase': path.resolve(__dirname, '../../packages/supabase/src'),
       },
     },
+    optimizeDeps: {
+      // onnxruntime-web lädt seine WASM-Dateien selbst, nicht vorbündeln
+      exclude: ['@huggingface/transformers'],
+    },
     server: {
       port: 3000,
       host: true,
@@ -70,6 +75,10 @@ export default defineConfig(({ mode }) => {
       },
       chunkSizeWarningLimit: 1000,
     },
+    test: {
+      // Unit tests next to the modules; tests/e2e belongs to Playwright
+      include: ['src/**/*.test.ts'],
+    },
     define: {
       __APP_VERSION__: JSON.stringify(process.env.npm_package_version),
     },
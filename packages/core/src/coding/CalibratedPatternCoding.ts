@@ -1,12 +1,14 @@
-import type { Document, CodingOptions, CodingResult, Code, Coding } from '../types'
+import type { Document, CodingOptions, CodingResult, Code, CodingExemplar } from '../types'
 import type { CodingServiceConfig } from './CodingService'
+import { createToolContext, formatExistingCodes, runCodingPass, usageMetadata, type PassResult, type ToolCodingContext } from './ToolCoding'
 
 /**
  * Calibrated Pattern Coding System
  *
  * Uses existing codes as calibration anchors:
- * 1. Learns patterns from existing codings (if provided)
- * 2. Uses TF-IDF similarity to match new text segments to existing patterns
+ * 1. Learns patterns from code descriptions and reviewed exemplars (if provided)
+ * 2. Uses TF-IDF similarity to match new text segments to existing patterns;
+ *    segments close to a rejected exemplar of a code are matched less strongly
  * 3. AI validates and adjusts matches
  * 4. Achieves high consistency with prior codings
  *
@@ -14,55 +16,65 @@ import type { CodingServiceConfig } from './CodingService'
  */
 export class CalibratedPatternCoding {
   private config: CodingServiceConfig
+  private readonly MAX_CANDIDATES = 40 // Pattern hints per request
+  private readonly NEGATIVE_WEIGHT = 0.5 // Share of the rejected-exemplar similarity subtracted
 
   constructor(config: CodingServiceConfig) {
     this.config = config
   }
 
   async code(document: Document, options: CodingOptions): Promise<CodingResult> {
-    // Phase 1: Build pattern vocabulary from existing codes
-    const patterns = await this.buildPatternVocabulary(options.existingCodes || [])
+    const context = createToolContext(this.config, document, options)
+    const existingCodes = options.existingCodes || []
+    options.onProgress?.(10, 'Lade bestehende Codes...')
+
+    // Phase 1: Build pattern vocabulary from existing codes and their exemplars
+    const patterns = await this.buildPatternVocabulary(existingCodes, context.exemplars)
 
     // Phase 2: Segment document into coding units
     const segments = this.segmentDocument(document)
 
     // Phase 3: Calculate TF-IDF similarity for each segment
+    options.onProgress?.(30, 'Analysiere Muster...')
     const similarities = this.calculateSimilarities(segments, patterns)
 
     // Phase 4: AI validation and refinement
-    const validatedCodings = await this.validateWithAI(
-      document,
-      segments,
-      similarities,
-      patterns,
-      options
-    )
+    const validated = await this.validateWithAI(context, similarities, options)
 
-    // Phase 5: Generate new codes for unmatched segments
-    const newCodes = await this.generateNewCodes(
-      document,
-      segments.filter(s => !validatedCodings.some(c => c.startOffset === s.startOffset)),
-      options
-    )
+    // Phase 5: New codes the model introduced for concepts without a pattern
+    const newCodes = this.collectNewCodes(validated.codes, existingCodes)
 
     return {
-      codings: validatedCodings,
-      codes: [...(options.existingCodes || []), ...newCodes],
+      codings: validated.codings,
+      codes: [...existingCodes, ...newCodes],
+      summary: context.language === 'de'
+        ? `Kalibrierte Mustererkennung: ${validated.codings.length} Kodierungen, ${existingCodes.length} bestehende Codes verwendet.`
+        : `Calibrated pattern coding: ${validated.codings.length} codings, ${existingCodes.length} existing codes used.`,
       metadata: {
         method: 'calibrated-pattern',
         duration: 0,
-        consensusRate: validatedCodings.length / Math.max(segments.length, 1),
+        ...usageMetadata([validated]),
+        consensusRate: validated.codings.length / Math.max(segments.length, 1),
       },
     }
   }
 
-  private async buildPatternVocabulary(existingCodes: Code[]): Promise<Pattern[]> {
-    return existingCodes.map(code => ({
-      codeId: code.id,
-      codeName: code.name,
-      keywords: this.extractKeywords(code.name + ' ' + (code.description || '')),
-      tfidf: new Map(),
-    }))
+  private async buildPatternVocabulary(existingCodes: Code[], exemplars: CodingExemplar[]): Promise<Pattern[]> {
+    return existingCodes.map(code => {
+      const ofCode = exemplars.filter(e => e.codeId === code.id)
+      return {
+        codeId: code.id,
+        codeName: code.name,
+        keywords: this.extractKeywords(code.name + ' ' + (code.description || '')),
+        positiveExamples: ofCode
+          .filter(e => e.polarity === 'positive')
+          .map(e => this.extractKeywords(e.text)),
+        negativeExamples: ofCode
+          .filter(e => e.polarity === 'negative')
+          .map(e => this.extractKeywords(e.text)),
+        tfidf: new Map(),
+      }
+    })
   }
 
   private extractKeywords(text: string): string[] {
@@ -118,22 +130,38 @@ export class CalibratedPatternCoding {
   ): SimilarityResult[] {
     const results: SimilarityResult[] = []
 
-    // Calculate document frequency for IDF
+    // Calculate document frequency for IDF; exemplars count as documents too
+    const exampleSets = patterns.flatMap(p => [...p.positiveExamples, ...p.negativeExamples])
+    const allSets = [...segments.map(s => s.keywords), ...exampleSets]
     const df = new Map<string, number>()
-    for (const segment of segments) {
-      const uniqueWords = new Set(segment.keywords)
+    for (const keywords of allSets) {
+      const uniqueWords = new Set(keywords)
       for (const word of uniqueWords) {
         df.set(word, (df.get(word) || 0) + 1)
       }
     }
+    const totalDocs = allSets.length
+
+    // Positive sets: the code's name/description and each confirmed exemplar
+    const vectors = patterns.map(pattern => ({
+      pattern,
+      positive: [pattern.keywords, ...pattern.positiveExamples]
+        .filter(keywords => keywords.length > 0)
+        .map(keywords => this.calculateTFIDF(keywords, df, totalDocs)),
+      negative: pattern.negativeExamples
+        .filter(keywords => keywords.length > 0)
+        .map(keywords => this.calculateTFIDF(keywords, df, totalDocs)),
+    }))
 
     for (const segment of segments) {
-      const segmentTfidf = this.calculateTFIDF(segment.keywords, df, segments.length)
+      const segmentTfidf = this.calculateTFIDF(segment.keywords, df, totalDocs)
       const patternSimilarities: PatternSimilarity[] = []
 
-      for (const pattern of patterns) {
-        const patternTfidf = this.calculateTFIDF(pattern.keywords, df, segments.length)
-        const similarity = this.cosineSimilarity(segmentTfidf, patternTfidf)
+      for (const { pattern, positive, negative } of vectors) {
+        // Nearest example on each side
+        const toPositive = Math.max(0, ...positive.map(v => this.cosineSimilarity(segmentTfidf, v)))
+        const toNegative = Math.max(0, ...negative.map(v => this.cosineSimilarity(segmentTfidf, v)))
+        const similarity = toPositive - this.NEGATIVE_WEIGHT * toNegative
 
         if (similarity > 0.1) {
           patternSimilarities.push({
@@ -197,49 +225,67 @@ export class CalibratedPatternCoding {
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
   }
 
+  /**
+   * The model codes the document with the existing codes; TF-IDF matches
+   * are passed along as candidates to confirm or reject
+   */
   private async validateWithAI(
-    document: Document,
-    segments: DocumentSegment[],
+    context: ToolCodingContext,
     similarities: SimilarityResult[],
-    patterns: Pattern[],
     options: CodingOptions
-  ): Promise<Coding[]> {
-    const codings: Coding[] = []
+  ): Promise<PassResult> {
+    const de = context.language === 'de'
     const minConfidence = options.minConfidence || 0.3
 
-    for (const result of similarities) {
-      if (result.matches.length === 0) continue
-
-      const topMatch = result.matches[0]
-      if (topMatch.similarity < minConfidence) continue
-
-      // In production, this would validate with Claude API
-      // For now, create coding based on similarity score
-      codings.push({
-        id: `coding-${result.segment.startOffset}`,
-        documentId: document.id,
-        codeId: topMatch.pattern.codeId,
-        codeName: topMatch.pattern.codeName,
-        startOffset: result.segment.startOffset,
-        endOffset: result.segment.endOffset,
-        selectedText: result.segment.text,
-        confidence: topMatch.similarity,
-        codedBy: 'calibrated-pattern',
-        createdAt: new Date().toISOString(),
+    const candidates = similarities
+      .filter(result => result.matches.length > 0 && result.matches[0].similarity >= minConfidence)
+      .slice(0, this.MAX_CANDIDATES)
+      .map(result => {
+        const text = result.segment.text.length > 80 ? `${result.segment.text.slice(0, 80)}…` : result.segment.text
+        const codes = result.matches.map(m => `${m.pattern.codeName} (${m.similarity.toFixed(2)})`).join(', ')
+        return `- "${text.replace(/\s+/g, ' ')}" → ${codes}`
       })
-    }
 
-    return codings
+    const calibrationPrompt = de
+      ? `Du verwendest kalibrierte Mustererkennung.
+
+WICHTIG:
+1. Verwende bestehende Codes wenn möglich
+2. Achte auf konsistente Anwendung der Codes
+3. Neue Codes nur für eindeutig neue Konzepte
+4. Erkläre bei jedem Code, warum er passt`
+      : `You use calibrated pattern recognition.
+
+IMPORTANT:
+1. Use existing codes whenever possible
+2. Apply codes consistently
+3. New codes only for clearly new concepts
+4. Explain for every code why it fits`
+
+    const candidateSection = candidates.length > 0
+      ? de
+        ? `\n\nKANDIDATEN DER MUSTERERKENNUNG (bestätigen oder verwerfen):\n${candidates.join('\n')}`
+        : `\n\nPATTERN CANDIDATES (confirm or reject):\n${candidates.join('\n')}`
+      : ''
+
+    return runCodingPass(
+      context,
+      {
+        source: de ? 'Kalibrierte Mustererkennung' : 'Calibrated Pattern',
+        prompt: calibrationPrompt + formatExistingCodes(context.existingCodes, context.language, true) + candidateSection,
+        instruction: de ? 'Analysiere und kodiere diesen Text' : 'Analyze and code this text',
+        temperature: 0.2,
+      },
+      (done, total) => options.onProgress?.(
+        30 + Math.round((done / total) * 50),
+        `Analysiere Muster (${done}/${total})...`
+      )
+    )
   }
 
-  private async generateNewCodes(
-    document: Document,
-    unmatchedSegments: DocumentSegment[],
-    options: CodingOptions
-  ): Promise<Code[]> {
-    // In production, this would use Claude to suggest new codes
-    // For now, return empty array
-    return []
+  private collectNewCodes(codes: Code[], existingCodes: Code[]): Code[] {
+    const known = new Set(existingCodes.map(c => c.name.toLowerCase().trim()))
+    return codes.filter(code => !known.has(code.name.toLowerCase().trim()))
   }
 }
 
@@ -247,6 +293,9 @@ interface Pattern {
   codeId: string
   codeName: string
   keywords: string[]
+  /** Keywords of each confirmed / rejected exemplar */
+  positiveExamples: string[][]
+  negativeExamples: string[][]
   tfidf: Map<string, number>
 }
 
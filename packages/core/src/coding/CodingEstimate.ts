@@ -0,0 +1,79 @@
+import type { Code, CodingExemplar, CodingMethod, CodingUsage } from '../types'
+import { estimateCost } from '../llm/pricing'
+import { splitDocument } from './DocumentChunker'
+import {
+  CODE_SEGMENT_TOOL,
+  CODING_CHUNK_OVERLAP,
+  CODING_CHUNK_SIZE,
+  CODING_SYSTEM_PROMPTS,
+  FINISH_CODING_TOOL,
+  formatExistingCodes,
+} from './ToolCoding'
+import { TURBO_CHUNK_SIZE } from './UltraTurboCoding'
+import { formatExemplars, selectExemplars } from './Exemplars'
+
+// Rough tokenizer ratio for German and English prose
+const CHARS_PER_TOKEN = 3.5
+// Method prompt and instruction of a pass (personas, experts, calibration hints)
+const PASS_PROMPT_CHARS = 1500
+// Sentence ID markers added to every sentence of a chunk
+const ANCHOR_OVERHEAD = 1.1
+// Expected tool call output per chunk token, plus the finish_coding call
+const OUTPUT_RATIO = 0.3
+const OUTPUT_BASE_TOKENS = 100
+const MAX_OUTPUT_TOKENS = 4096
+
+// Independent passes over the whole document per method
+const PASSES: Record<CodingMethod, number> = {
+  'dynamic-personas': 3,
+  'three-expert': 3,
+  'calibrated-pattern': 1,
+  'ultra-turbo': 1,
+}
+
+export interface CodingEstimate {
+  method: CodingMethod
+  model: string
+  chunks: number
+  usage: CodingUsage
+  /** USD; 0 for models without a price */
+  cost: number
+}
+
+/**
+ * Pre-run estimate of tokens and cost of an AI coding run. Chunking follows
+ * the engines; token counts are approximations of the provider's tokenizer.
+ */
+export function estimateCodingUsage(
+  content: string,
+  method: CodingMethod,
+  model: string,
+  options: { existingCodes?: Code[]; exemplars?: CodingExemplar[]; language?: 'de' | 'en' } = {}
+): CodingEstimate {
+  const language = options.language || 'de'
+  const existingCodes = options.existingCodes || []
+  const chunks = method === 'ultra-turbo'
+    ? splitDocument(content, { chunkSize: TURBO_CHUNK_SIZE })
+    : splitDocument(content, { chunkSize: CODING_CHUNK_SIZE, overlap: CODING_CHUNK_OVERLAP })
+
+  const fixedChars = CODING_SYSTEM_PROMPTS[language].length
+    + PASS_PROMPT_CHARS
+    + formatExistingCodes(existingCodes, language, method === 'calibrated-pattern').length
+    + formatExemplars(selectExemplars(options.exemplars || [], existingCodes), language).length
+    + JSON.stringify([CODE_SEGMENT_TOOL, FINISH_CODING_TOOL]).length
+
+  const usage: CodingUsage = { inputTokens: 0, outputTokens: 0, requests: 0 }
+  for (const chunk of chunks) {
+    const chunkTokens = Math.ceil((chunk.text.length * ANCHOR_OVERHEAD) / CHARS_PER_TOKEN)
+    usage.inputTokens += Math.ceil(fixedChars / CHARS_PER_TOKEN) + chunkTokens
+    usage.outputTokens += Math.min(MAX_OUTPUT_TOKENS, Math.ceil(chunkTokens * OUTPUT_RATIO) + OUTPUT_BASE_TOKENS)
+    usage.requests++
+  }
+
+  const passes = PASSES[method]
+  usage.inputTokens *= passes
+  usage.outputTokens *= passes
+  usage.requests *= passes
+
+  return { method, model, chunks: chunks.length, usage, cost: estimateCost(usage, model) }
+}
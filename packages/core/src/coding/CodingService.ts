@@ -1,4 +1,5 @@
-import type { Document, CodingOptions, CodingResult, Code, Coding, CodingMethod } from '../types'
+import type { Document, CodingOptions, CodingResult, CodingMethod } from '../types'
+import type { LLMProvider } from '../llm/LLMProvider'
 import { DynamicCodingPersonas } from './DynamicCodingPersonas'
 import { ThreeExpertCodingSystem } from './ThreeExpertCodingSystem'
 import { CalibratedPatternCoding } from './CalibratedPatternCoding'
@@ -11,7 +12,10 @@ export interface CodingService {
 }
 
 export interface CodingServiceConfig {
-  apiKey: string
+  /** Model behind all coding methods (Anthropic, OpenAI-compatible, fixture) */
+  provider?: LLMProvider
+  /** Without a provider: key for an AnthropicProvider */
+  apiKey?: string
   model?: string
   baseUrl?: string
 }
@@ -53,6 +57,7 @@ export function createCodingService(config: CodingServiceConfig): CodingService
       }
 
       result.metadata.duration = Date.now() - startTime
+      options.onProgress?.(100, 'Fertig!')
       return result
     },
 
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import { findQuoteSpan, mergeChunkCodings, splitDocument, type SpanCoding } from './DocumentChunker'
+
+const PARAGRAPHS = [
+  'Am Anfang war ich unsicher.',
+  'Die Kollegen haben mir z.B. den Ablauf gezeigt.',
+  'Heute fühle ich mich im Team gut aufgehoben!',
+  'Nur die Schichtplanung ist chaotisch.',
+  'Manchmal erfahre ich erst am Vortag, wann ich arbeite.',
+  'Darüber habe ich mit der Leitung gesprochen.',
+]
+
+const CONTENT = PARAGRAPHS.join('\n\n')
+
+function spanOf(content: string, part: string) {
+  const start = content.indexOf(part)
+  if (start < 0) throw new Error(`"${part}" not in content`)
+  return { startOffset: start, endOffset: start + part.length }
+}
+
+describe('splitDocument', () => {
+  it('keeps every chunk at its position in the document, overlap included', () => {
+    const chunks = splitDocument(CONTENT, { chunkSize: 120, overlap: 60 })
+
+    expect(chunks.length).toBeGreaterThan(2)
+    for (const chunk of chunks) {
+      expect(CONTENT.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text)
+    }
+    for (let i = 1; i < chunks.length; i++) {
+      // The next chunk starts inside the previous one, at a paragraph
+      expect(chunks[i].startOffset).toBeLessThan(chunks[i - 1].endOffset)
+      expect(chunks[i].startOffset).toBeGreaterThan(chunks[i - 1].startOffset)
+      expect(PARAGRAPHS.some(p => chunks[i].text.startsWith(p))).toBe(true)
+    }
+    expect(chunks[0].startOffset).toBe(0)
+    expect(chunks[chunks.length - 1].endOffset).toBe(CONTENT.length)
+  })
+
+  it('does not repeat text without an overlap', () => {
+    const chunks = splitDocument(CONTENT, { chunkSize: 120 })
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startOffset).toBeGreaterThanOrEqual(chunks[i - 1].endOffset)
+    }
+    expect(chunks.map(c => c.text).join('\n\n')).toBe(CONTENT)
+  })
+
+  it('splits a paragraph longer than a chunk at sentence ends', () => {
+    const paragraph = PARAGRAPHS.join(' ')
+    const chunks = splitDocument(paragraph, { chunkSize: 100 })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(paragraph.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text)
+      expect(chunk.text.length).toBeLessThanOrEqual(100)
+      expect(chunk.text).toMatch(/[.!?]$/)
+    }
+  })
+})
+
+describe('findQuoteSpan', () => {
+  it('finds a quote with other quotes, dashes, case and spacing', () => {
+    const content = 'Sie sagte: „Das ist – ehrlich gesagt – zu viel.“ Dann ging sie.'
+    const match = findQuoteSpan(content, '"das ist - ehrlich   gesagt - zu viel."')
+
+    expect(match).not.toBeNull()
+    expect(match!.score).toBe(1)
+    expect(content.slice(match!.startOffset, match!.endOffset)).toBe('„Das ist – ehrlich gesagt – zu viel.“')
+  })
+
+  it('anchors a quote the model altered to the matching text', () => {
+    const match = findQuoteSpan(CONTENT, 'Die Kollegen haben mir den Ablauf erklärt')
+
+    expect(match).not.toBeNull()
+    expect(match!.score).toBeLessThan(1)
+    expect(match!.score).toBeGreaterThanOrEqual(0.75)
+    expect(CONTENT.slice(match!.startOffset, match!.endOffset)).toBe('Die Kollegen haben mir z.B. den Ablauf')
+  })
+
+  it('returns null for a quote with no similar text instead of offset 0', () => {
+    expect(findQuoteSpan(CONTENT, 'Die Bezahlung ist viel zu niedrig')).toBeNull()
+    expect(findQuoteSpan(CONTENT, '   ')).toBeNull()
+  })
+
+  it('searches only within the given range', () => {
+    const chunk = spanOf(CONTENT, PARAGRAPHS[4])
+    const options = { from: chunk.startOffset, to: chunk.endOffset }
+
+    expect(findQuoteSpan(CONTENT, 'im Team gut aufgehoben', options)).toBeNull()
+    const match = findQuoteSpan(CONTENT, 'wann ich arbeite', options)
+    expect(match).toEqual({ ...spanOf(CONTENT, 'wann ich arbeite'), score: 1 })
+  })
+})
+
+describe('mergeChunkCodings', () => {
+  function coding(codeName: string, part: string, confidence: number): SpanCoding {
+    return { codeName, ...spanOf(CONTENT, part), confidence, selectedText: part }
+  }
+
+  it('merges the same coding found in two overlapping chunks', () => {
+    const merged = mergeChunkCodings([
+      coding('Zugehörigkeit', 'Heute fühle ich mich im Team gut aufgehoben!', 0.7),
+      coding('Zugehörigkeit', 'Heute fühle ich mich im Team gut aufgehoben!', 0.9),
+    ])
+
+    expect(merged).toHaveLength(1)
+    expect(merged[0].confidence).toBe(0.9)
+  })
+
+  it('covers both spans of overlapping codings of the same code', () => {
+    const merged = mergeChunkCodings(
+      [
+        coding('zugehörigkeit', 'Heute fühle ich mich im Team', 0.8),
+        coding('Zugehörigkeit ', 'ich mich im Team gut aufgehoben!', 0.6),
+      ],
+      CONTENT
+    )
+
+    expect(merged).toHaveLength(1)
+    expect(merged[0].codeName).toBe('zugehörigkeit')
+    expect(merged[0]).toMatchObject(spanOf(CONTENT, 'Heute fühle ich mich im Team gut aufgehoben!'))
+    expect(merged[0].selectedText).toBe('Heute fühle ich mich im Team gut aufgehoben!')
+  })
+
+  it('keeps codings of other codes and codings that barely touch', () => {
+    const merged = mergeChunkCodings([
+      coding('Zugehörigkeit', 'Heute fühle ich mich im Team gut aufgehoben!', 0.8),
+      coding('Teamklima', 'Heute fühle ich mich im Team gut aufgehoben!', 0.8),
+      coding('Zugehörigkeit', 'aufgehoben!\n\nNur die Schichtplanung ist chaotisch.', 0.8),
+    ])
+
+    expect(merged).toHaveLength(3)
+  })
+})
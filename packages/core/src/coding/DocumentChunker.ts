@@ -0,0 +1,325 @@
+/**
+ * Document chunking and quote anchoring for AI coding
+ *
+ * Long documents are coded chunk by chunk. Every chunk keeps its exact
+ * position in the document (`content.slice(startOffset, endOffset) === text`),
+ * so chunk-relative spans can always be translated back to document offsets.
+ */
+
+export interface DocumentChunk {
+  id: string
+  text: string
+  startOffset: number
+  endOffset: number
+}
+
+export interface ChunkOptions {
+  /** Target characters per chunk (default: 2000) */
+  chunkSize?: number
+  /** Characters of trailing paragraphs repeated at the start of the next chunk (default: 0) */
+  overlap?: number
+}
+
+export interface QuoteMatch {
+  startOffset: number
+  endOffset: number
+  /** 1 for an exact (normalized) match, token similarity otherwise */
+  score: number
+}
+
+export interface QuoteSearchOptions {
+  /** Search only in content[from, to) */
+  from?: number
+  to?: number
+  /** Minimum token similarity for fuzzy matches (default: 0.75) */
+  minScore?: number
+}
+
+interface Span {
+  start: number
+  end: number
+}
+
+// ============================================
+// Chunking
+// ============================================
+
+/**
+ * Split a document at paragraph boundaries into chunks of about `chunkSize`
+ * characters. Paragraphs longer than a chunk are split at sentence ends,
+ * or at whitespace if a sentence is still too long.
+ */
+export function splitDocument(content: string, options: ChunkOptions = {}): DocumentChunk[] {
+  const chunkSize = Math.max(1, options.chunkSize ?? 2000)
+  const overlap = Math.max(0, options.overlap ?? 0)
+
+  const pieces = findParagraphs(content).flatMap(p =>
+    p.end - p.start > chunkSize ? splitLongSpan(content, p, chunkSize) : [p]
+  )
+
+  const chunks: DocumentChunk[] = []
+  let current: Span[] = []
+
+  const emit = () => {
+    const start = current[0].start
+    const end = current[current.length - 1].end
+    chunks.push({ id: `chunk-${chunks.length}`, text: content.slice(start, end), startOffset: start, endOffset: end })
+  }
+
+  for (const piece of pieces) {
+    if (current.length > 0 && piece.end - current[0].start > chunkSize) {
+      emit()
+      // Repeat the trailing pieces that fit into the overlap, never the whole chunk
+      const end = current[current.length - 1].end
+      let keep = current.length
+      while (keep > 1 && end - current[keep - 1].start <= overlap) keep--
+      current = current.slice(keep)
+    }
+    current.push(piece)
+  }
+  if (current.length > 0) emit()
+
+  return chunks
+}
+
+/**
+ * Non-empty paragraphs, trimmed to their text; blank lines separate paragraphs
+ */
+function findParagraphs(content: string): Span[] {
+  const paragraphs: Span[] = []
+  const separator = /\n[ \t]*\n\s*/g
+  let start = 0
+  let match: RegExpExecArray | null
+
+  const push = (from: number, to: number) => {
+    while (from < to && /\s/.test(content[from])) from++
+    while (to > from && /\s/.test(content[to - 1])) to--
+    if (to > from) paragraphs.push({ start: from, end: to })
+  }
+
+  while ((match = separator.exec(content)) !== null) {
+    push(start, match.index)
+    start = match.index + match[0].length
+  }
+  push(start, content.length)
+
+  return paragraphs
+}
+
+function splitLongSpan(content: string, span: Span, chunkSize: number): Span[] {
+  const pieces: Span[] = []
+  let start = span.start
+
+  while (span.end - start > chunkSize) {
+    const window = content.slice(start, start + chunkSize)
+    let cut = lastBoundary(window, /[.!?…]["'»«“”)\]]*\s+/g)
+    if (cut <= 0) cut = lastBoundary(window, /\s+/g)
+    if (cut <= 0) cut = chunkSize
+
+    let end = start + cut
+    while (end > start && /\s/.test(content[end - 1])) end--
+    pieces.push({ start, end })
+
+    start += cut
+    while (start < span.end && /\s/.test(content[start])) start++
+  }
+  if (span.end > start) pieces.push({ start, end: span.end })
+
+  return pieces
+}
+
+/** Position after the last match of `pattern` in `text`, 0 if there is none */
+function lastBoundary(text: string, pattern: RegExp): number {
+  let last = 0
+  for (const match of text.matchAll(pattern)) {
+    last = match.index! + match[0].length
+  }
+  return last
+}
+
+// ============================================
+// Quote anchoring
+// ============================================
+
+/**
+ * Locate a quote in the content, tolerating small changes by the model
+ *
+ * 1. Exact match after normalizing case, whitespace, quotes and dashes
+ * 2. Best token window whose similarity (2·LCS / total tokens) reaches `minScore`
+ *
+ * Returns null instead of guessing when nothing is similar enough.
+ */
+export function findQuoteSpan(content: string, quote: string, options: QuoteSearchOptions = {}): QuoteMatch | null {
+  const from = Math.max(0, options.from ?? 0)
+  const to = Math.min(content.length, options.to ?? content.length)
+  const minScore = options.minScore ?? 0.75
+  if (!quote.trim() || to <= from) return null
+
+  const region = normalizeWithMap(content, from, to)
+  const needle = normalizeWithMap(quote, 0, quote.length).text.trim()
+  if (!needle) return null
+
+  const exact = region.text.indexOf(needle)
+  if (exact >= 0) {
+    return {
+      startOffset: region.map[exact],
+      endOffset: region.map[exact + needle.length - 1] + 1,
+      score: 1,
+    }
+  }
+
+  const quoteTokens = tokenize(quote, 0, quote.length).map(t => t.word)
+  const tokens = tokenize(content, from, to)
+  const m = quoteTokens.length
+  if (m === 0 || tokens.length === 0) return null
+
+  const minLength = Math.max(1, Math.floor(m * 0.8))
+  const maxLength = Math.ceil(m * 1.25)
+  let best: { start: number; length: number; score: number } | null = null
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!quoteTokens.some(q => sameWord(q, tokens[i].word))) continue
+    const window = tokens.slice(i, i + maxLength).map(t => t.word)
+    const lcs = prefixLcs(quoteTokens, window)
+
+    for (let length = minLength; length <= window.length; length++) {
+      const score = (2 * lcs[length]) / (m + length)
+      if (!best || score > best.score) best = { start: i, length, score }
+    }
+  }
+
+  if (!best || best.score < minScore) return null
+  return {
+    startOffset: tokens[best.start].start,
+    endOffset: tokens[best.start + best.length - 1].end,
+    score: best.score,
+  }
+}
+
+/**
+ * Lowercased text with unified quotes, dashes and single spaces;
+ * map[i] is the original index of normalized character i
+ */
+function normalizeWithMap(source: string, from: number, to: number): { text: string; map: number[] } {
+  let text = ''
+  const map: number[] = []
+  let lastWasSpace = false
+
+  for (let i = from; i < to; i++) {
+    let ch = source[i]
+    if (/\s/.test(ch)) {
+      if (lastWasSpace) continue
+      ch = ' '
+      lastWasSpace = true
+    } else {
+      lastWasSpace = false
+      if (/["'«»“”„‚‘’]/.test(ch)) ch = '"'
+      else if (/[‐‑‒–—―]/.test(ch)) ch = '-'
+      else if (ch === '…') ch = '.'
+      else if (ch.toLowerCase().length === 1) ch = ch.toLowerCase()
+    }
+    text += ch
+    map.push(i)
+  }
+
+  return { text, map }
+}
+
+function tokenize(source: string, from: number, to: number): { word: string; start: number; end: number }[] {
+  const tokens: { word: string; start: number; end: number }[] = []
+  const pattern = /[\p{L}\p{N}]+/gu
+  pattern.lastIndex = from
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(source)) !== null) {
+    const end = match.index + match[0].length
+    if (end > to) break
+    tokens.push({ word: match[0].toLowerCase(), start: match.index, end })
+  }
+
+  return tokens
+}
+
+/** Equal words, or long words that differ only in their ending ("Arbeit"/"Arbeiten") */
+function sameWord(a: string, b: string): boolean {
+  if (a === b) return true
+  if (a.length < 5 || b.length < 5) return false
+  let common = 0
+  while (common < a.length && common < b.length && a[common] === b[common]) common++
+  return common / Math.max(a.length, b.length) >= 0.75
+}
+
+/** lcs[k] = longest common subsequence of `quote` and the first k window tokens */
+function prefixLcs(quote: string[], window: string[]): number[] {
+  let previous = new Array<number>(window.length + 1).fill(0)
+  for (const word of quote) {
+    const row = new Array<number>(window.length + 1).fill(0)
+    for (let k = 1; k <= window.length; k++) {
+      row[k] = sameWord(word, window[k - 1])
+        ? previous[k - 1] + 1
+        : Math.max(previous[k], row[k - 1])
+    }
+    previous = row
+  }
+  return previous
+}
+
+// ============================================
+// Merging across chunk boundaries
+// ============================================
+
+export interface SpanCoding {
+  codeName: string
+  startOffset: number
+  endOffset: number
+  confidence?: number
+  selectedText?: string
+}
+
+/**
+ * Merge codings of the same code whose spans overlap by at least `minOverlap`
+ * of the shorter span, as produced by overlapping chunks. The merged coding
+ * keeps the fields of the most confident one and covers both spans; with
+ * `content` its selectedText is updated to the merged span.
+ */
+export function mergeChunkCodings<T extends SpanCoding>(codings: T[], content?: string, minOverlap = 0.5): T[] {
+  const byCode = new Map<string, T[]>()
+  for (const coding of codings) {
+    const key = coding.codeName.toLowerCase().trim()
+    byCode.set(key, [...(byCode.get(key) || []), coding])
+  }
+
+  const merged: T[] = []
+  for (const group of byCode.values()) {
+    const sorted = [...group].sort((a, b) => a.startOffset - b.startOffset || a.endOffset - b.endOffset)
+    let current = sorted[0]
+
+    for (const next of sorted.slice(1)) {
+      const overlap = Math.min(current.endOffset, next.endOffset) - next.startOffset
+      const shorter = Math.min(current.endOffset - current.startOffset, next.endOffset - next.startOffset)
+      if (overlap > 0 && overlap >= shorter * minOverlap) {
+        current = combine(current, next, content)
+      } else {
+        merged.push(current)
+        current = next
+      }
+    }
+    merged.push(current)
+  }
+
+  return merged.sort((a, b) => a.startOffset - b.startOffset)
+}
+
+function combine<T extends SpanCoding>(a: T, b: T, content?: string): T {
+  const base = (b.confidence ?? 0) > (a.confidence ?? 0) ? b : a
+  const startOffset = Math.min(a.startOffset, b.startOffset)
+  const endOffset = Math.max(a.endOffset, b.endOffset)
+  return {
+    ...base,
+    startOffset,
+    endOffset,
+    ...(content !== undefined && base.selectedText !== undefined
+      ? { selectedText: content.slice(startOffset, endOffset) }
+      : {}),
+  }
+}
@@ -1,5 +1,6 @@
-import type { Document, CodingOptions, CodingResult, Code, Coding } from '../types'
+import type { Document, CodingOptions, CodingResult, Code, Coding, CodingUsage } from '../types'
 import type { CodingServiceConfig } from './CodingService'
+import { createToolContext, formatExistingCodes, runCodingPass, usageMetadata, type ToolCodingContext } from './ToolCoding'
 
 /**
  * Dynamic Coding Personas System
@@ -20,40 +21,51 @@ export class DynamicCodingPersonas {
   }
 
   async code(document: Document, options: CodingOptions): Promise<CodingResult> {
+    const context = createToolContext(this.config, document, options)
+    options.onProgress?.(10, 'Analysiere Dokumenttyp...')
     const personas = this.generatePersonas(document, options)
 
-    // Phase 1: Independent Coding
-    const personaResults = await Promise.all(
-      personas.map(persona => this.codeWithPersona(document, persona, options))
-    )
+    // Phase 1: Independent Coding (one persona after the other, for progress and rate limits)
+    const personaResults: PersonaCodingResult[] = []
+    for (let i = 0; i < personas.length; i++) {
+      options.onProgress?.(20 + i * 25, `${personas[i].name} analysiert...`)
+      personaResults.push(await this.codeWithPersona(context, personas[i], options, i))
+    }
 
     // Phase 2: Consensus Building
-    const consensusResult = await this.buildConsensus(personaResults, document, options)
+    options.onProgress?.(90, 'Konsens berechnen...')
+    const consensusResult = this.buildConsensus(personaResults)
 
     // Phase 3: Integration
-    return this.integrateResults(consensusResult, options)
+    const result = this.integrateResults(consensusResult)
+    Object.assign(result.metadata, usageMetadata(personaResults))
+    result.summary = options.language === 'en'
+      ? `Dynamic personas: ${result.codings.length} codings with consensus of ${personas.length} perspectives.`
+      : `Dynamic Personas Analyse: ${result.codings.length} Kodierungen mit Konsens von ${personas.length} Perspektiven.`
+    return result
   }
 
   private generatePersonas(document: Document, options: CodingOptions): Persona[] {
     // Analyze document to determine appropriate personas
     const contentType = this.analyzeContentType(document.content)
+    const de = (options.language || 'de') === 'de'
 
     return [
       {
         id: 'domain-expert',
-        name: 'Domain Expert',
+        name: de ? 'Domain-Experte' : 'Domain Expert',
         systemPrompt: this.getDomainExpertPrompt(contentType, options.language),
         focus: 'thematic-depth',
       },
       {
         id: 'methodology-expert',
-        name: 'Methodology Expert',
+        name: de ? 'Methodenexperte' : 'Methodology Expert',
         systemPrompt: this.getMethodologyExpertPrompt(options.language),
         focus: 'pattern-recognition',
       },
       {
         id: 'critical-analyst',
-        name: 'Critical Analyst',
+        name: de ? 'Kritischer Analyst' : 'Critical Analyst',
         systemPrompt: this.getCriticalAnalystPrompt(options.language),
         focus: 'edge-cases',
       },
@@ -95,37 +107,49 @@ export class DynamicCodingPersonas {
   }
 
   private getMethodologyExpertPrompt(language?: string): string {
-    return language === 'de'
+    return (language || 'de') === 'de'
       ? 'Du bist ein Methodenexperte für qualitative Forschung. Achte auf konsistente Kodierung, klare Abgrenzungen zwischen Codes und methodische Stringenz.'
       : 'You are a methodology expert for qualitative research. Focus on consistent coding, clear code boundaries, and methodological rigor.'
   }
 
   private getCriticalAnalystPrompt(language?: string): string {
-    return language === 'de'
+    return (language || 'de') === 'de'
       ? 'Du bist ein kritischer Analyst. Hinterfrage offensichtliche Interpretationen, suche nach Widersprüchen, Ausnahmen und alternativen Lesarten.'
       : 'You are a critical analyst. Question obvious interpretations, look for contradictions, exceptions, and alternative readings.'
   }
 
   private async codeWithPersona(
-    document: Document,
+    context: ToolCodingContext,
     persona: Persona,
-    options: CodingOptions
+    options: CodingOptions,
+    index: number
   ): Promise<PersonaCodingResult> {
-    // In production, this would call the Claude API
-    // For now, return a placeholder structure
+    const result = await runCodingPass(
+      context,
+      {
+        source: persona.name,
+        prompt: persona.systemPrompt + formatExistingCodes(context.existingCodes, context.language),
+        instruction: context.language === 'de' ? 'Analysiere und kodiere' : 'Analyze and code',
+        temperature: 0.3,
+      },
+      (done, total) => options.onProgress?.(
+        20 + index * 25 + Math.round((done / total) * 20),
+        `${persona.name} analysiert (${done}/${total})...`
+      )
+    )
+
     return {
       personaId: persona.id,
-      codings: [],
-      suggestedCodes: [],
-      reasoning: '',
+      codings: result.codings,
+      suggestedCodes: result.codes,
+      reasoning: result.summary,
+      usage: result.usage,
+      model: result.model,
+      warnings: result.warnings,
     }
   }
 
-  private async buildConsensus(
-    results: PersonaCodingResult[],
-    document: Document,
-    options: CodingOptions
-  ): Promise<ConsensusResult> {
+  private buildConsensus(results: PersonaCodingResult[]): ConsensusResult {
     // Collect all codings
     const allCodings = results.flatMap(r => r.codings)
 
@@ -138,16 +162,18 @@ export class DynamicCodingPersonas {
 
       // Find matching codings from other personas
       const matches = allCodings.filter(
-        c => c.id !== coding.id &&
+        c => c.codedBy !== coding.codedBy &&
+          !usedIds.has(c.id) &&
           this.hasOverlap(coding, c) &&
           this.isSimilarCode(coding.codeName, c.codeName)
       )
 
       if (matches.length >= 1) {
         // At least 2 personas agree (original + 1 match)
+        const agreeing = new Set(matches.map(m => m.codedBy)).size + 1
         consensusCodings.push({
           ...coding,
-          confidence: (matches.length + 1) / results.length,
+          confidence: agreeing / results.length,
         })
         usedIds.add(coding.id)
         matches.forEach(m => usedIds.add(m.id))
@@ -201,7 +227,7 @@ export class DynamicCodingPersonas {
     return Array.from(merged.values())
   }
 
-  private integrateResults(consensus: ConsensusResult, options: CodingOptions): CodingResult {
+  private integrateResults(consensus: ConsensusResult): CodingResult {
     return {
       codings: consensus.codings,
       codes: consensus.codes,
@@ -226,6 +252,9 @@ interface PersonaCodingResult {
   codings: Coding[]
   suggestedCodes: Code[]
   reasoning: string
+  usage: CodingUsage
+  model?: string
+  warnings: string[]
 }
 
 interface ConsensusResult {
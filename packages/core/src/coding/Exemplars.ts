@@ -0,0 +1,83 @@
+import type { Code, CodingExemplar } from '../types'
+
+/**
+ * Few-shot exemplars from reviewed AI codings
+ *
+ * Accepted codings show the model what a code looks like, rejected ones what
+ * it does not cover. Exemplars are limited per code and shortened, so the
+ * prompt grows with the number of codes, not with the review history.
+ */
+
+export const MAX_POSITIVE_EXEMPLARS = 3
+export const MAX_NEGATIVE_EXEMPLARS = 2
+// Characters per exemplar text in the prompt
+export const MAX_EXEMPLAR_CHARS = 280
+
+/**
+ * Exemplars of the given codes, newest first as passed in, limited per code
+ * and polarity; exemplars of codes that no longer exist are dropped
+ */
+export function selectExemplars(exemplars: CodingExemplar[], codes: Code[]): CodingExemplar[] {
+  const codeIds = new Set(codes.map(c => c.id))
+  const counts = new Map<string, number>()
+  const seen = new Set<string>()
+  const selected: CodingExemplar[] = []
+
+  for (const exemplar of exemplars) {
+    if (!codeIds.has(exemplar.codeId)) continue
+
+    const text = normalizeText(exemplar.text)
+    const duplicate = `${exemplar.codeId}:${exemplar.polarity}:${text.toLowerCase()}`
+    if (!text || seen.has(duplicate)) continue
+
+    const key = `${exemplar.codeId}:${exemplar.polarity}`
+    const limit = exemplar.polarity === 'positive' ? MAX_POSITIVE_EXEMPLARS : MAX_NEGATIVE_EXEMPLARS
+    const count = counts.get(key) || 0
+    if (count >= limit) continue
+
+    counts.set(key, count + 1)
+    seen.add(duplicate)
+    selected.push({ ...exemplar, text })
+  }
+
+  return selected
+}
+
+/**
+ * "Beispiele aus früheren Validierungen" section for the system prompt
+ */
+export function formatExemplars(exemplars: CodingExemplar[], language: 'de' | 'en'): string {
+  if (exemplars.length === 0) return ''
+
+  const byCode = new Map<string, CodingExemplar[]>()
+  for (const exemplar of exemplars) {
+    const list = byCode.get(exemplar.codeName) || []
+    list.push(exemplar)
+    byCode.set(exemplar.codeName, list)
+  }
+
+  const de = language === 'de'
+  const heading = de
+    ? 'BEISPIELE AUS FRÜHEREN VALIDIERUNGEN (von Forschenden geprüft):'
+    : 'EXAMPLES FROM EARLIER REVIEWS (checked by researchers):'
+  const hint = de
+    ? 'Kodiere ähnlich wie bei den bestätigten Beispielen; Textstellen wie die abgelehnten gehören nicht zu diesem Code.'
+    : 'Code like the confirmed examples; passages like the rejected ones do not belong to this code.'
+
+  const sections = Array.from(byCode.entries()).map(([codeName, list]) => {
+    const lines = list.map(e => {
+      const label = e.polarity === 'positive'
+        ? de ? 'bestätigt' : 'confirmed'
+        : de ? 'abgelehnt' : 'rejected'
+      return `  ${e.polarity === 'positive' ? '+' : '−'} (${label}) "${e.text}"`
+    })
+    return `- ${codeName}:\n${lines.join('\n')}`
+  })
+
+  return `\n\n${heading}\n${hint}\n${sections.join('\n')}`
+}
+
+function normalizeText(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > MAX_EXEMPLAR_CHARS ? `${flat.slice(0, MAX_EXEMPLAR_CHARS - 1)}…` : flat
+}
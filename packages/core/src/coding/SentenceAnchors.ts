@@ -0,0 +1,101 @@
+/**
+ * Sentence anchors for AI coding
+ *
+ * Documents are split into sentences with stable IDs (S1, S2, ...) before
+ * they are sent to Claude. The model refers to sentence IDs instead of quoting
+ * text, so every suggested coding maps back to an exact character span.
+ */
+
+export interface SentenceAnchor {
+  id: string
+  startOffset: number
+  endOffset: number
+  text: string
+}
+
+// Abbreviations that end with a period but do not end a sentence
+const ABBREVIATIONS = new Set([
+  'z.b', 'd.h', 'u.a', 'o.ä', 'bzw', 'ca', 'etc', 'evtl', 'ggf', 'usw', 'vgl', 'sog',
+  'dr', 'prof', 'nr', 'bspw', 'inkl', 'max', 'min', 'e.g', 'i.e', 'vs', 'mr', 'mrs',
+])
+
+/**
+ * Split a document into sentences; line breaks always end a sentence
+ */
+export function splitSentences(content: string): SentenceAnchor[] {
+  const sentences: SentenceAnchor[] = []
+  let start = 0
+
+  const push = (end: number) => {
+    let s = start
+    let e = end
+    while (s < e && /\s/.test(content[s])) s++
+    while (e > s && /\s/.test(content[e - 1])) e--
+    if (e > s) {
+      sentences.push({
+        id: `S${sentences.length + 1}`,
+        startOffset: s,
+        endOffset: e,
+        text: content.substring(s, e),
+      })
+    }
+    start = end
+  }
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i]
+    if (ch === '\n') {
+      push(i + 1)
+      continue
+    }
+    if (!/[.!?…]/.test(ch)) continue
+
+    // Include trailing punctuation and closing quotes/brackets
+    let end = i + 1
+    while (end < content.length && /[.!?…"'»«“”)\]]/.test(content[end])) end++
+    if (end < content.length && !/\s/.test(content[end])) continue
+    if (ch === '.' && isAbbreviation(content, start, i)) continue
+
+    push(end)
+    i = end - 1
+  }
+  push(content.length)
+
+  return sentences
+}
+
+function isAbbreviation(content: string, sentenceStart: number, periodIndex: number): boolean {
+  const before = content.substring(sentenceStart, periodIndex)
+  const word = before.match(/(\S+)$/)?.[1]?.toLowerCase()
+  if (!word) return false
+  // Single letters ("A. Müller") and numbers ("1. Frage") are not sentence ends
+  if (/^\p{L}$/u.test(word) || /^\d+$/.test(word)) return true
+  return ABBREVIATIONS.has(word)
+}
+
+/**
+ * Document text with one "[S1] ..." line per sentence, for the prompt
+ */
+export function formatAnchoredDocument(sentences: SentenceAnchor[]): string {
+  return sentences.map(s => `[${s.id}] ${s.text.replace(/\s+/g, ' ')}`).join('\n')
+}
+
+/**
+ * Exact span from the first to the last referenced sentence, null for unknown IDs
+ */
+export function resolveAnchorSpan(
+  sentences: SentenceAnchor[],
+  startId: string,
+  endId: string = startId
+): { startOffset: number; endOffset: number } | null {
+  const normalize = (id: string) => id.trim().replace(/^\[|\]$/g, '').toUpperCase()
+  const first = sentences.findIndex(s => s.id === normalize(startId))
+  const last = sentences.findIndex(s => s.id === normalize(endId))
+  if (first < 0) return null
+
+  const to = last >= first ? last : first
+  return {
+    startOffset: sentences[first].startOffset,
+    endOffset: sentences[to].endOffset,
+  }
+}
@@ -1,5 +1,7 @@
-import type { Document, CodingOptions, CodingResult, Code, Coding } from '../types'
+import type { Document, CodingOptions, CodingResult, Code, Coding, CodingUsage } from '../types'
 import type { CodingServiceConfig } from './CodingService'
+import { mergeChunkCodings } from './DocumentChunker'
+import { createToolContext, formatExistingCodes, runCodingPass, usageMetadata, type ToolCodingContext } from './ToolCoding'
 
 /**
  * Three Expert Coding System
@@ -20,48 +22,64 @@ export class ThreeExpertCodingSystem {
   }
 
   async code(document: Document, options: CodingOptions): Promise<CodingResult> {
+    const context = createToolContext(this.config, document, options)
+    options.onProgress?.(10, 'Initialisiere Experten...')
+
     // Create three independent expert instances
+    const de = context.language === 'de'
     const experts: Expert[] = [
       {
         id: 'expert-1',
-        name: 'Qualitative Researcher',
+        name: de ? 'Experte 1' : 'Qualitative Researcher',
         prompt: this.getExpertPrompt(1, options.language),
         temperature: 0.3,
       },
       {
         id: 'expert-2',
-        name: 'Thematic Analyst',
+        name: de ? 'Experte 2' : 'Thematic Analyst',
         prompt: this.getExpertPrompt(2, options.language),
         temperature: 0.4,
       },
       {
         id: 'expert-3',
-        name: 'Content Specialist',
+        name: de ? 'Experte 3' : 'Content Specialist',
         prompt: this.getExpertPrompt(3, options.language),
         temperature: 0.5,
       },
     ]
 
-    // Phase 1: Independent coding by all experts
-    const expertResults = await Promise.all(
-      experts.map(expert => this.codeWithExpert(document, expert, options))
-    )
+    // Phase 1: Independent coding by all experts (sequential, for progress and rate limits)
+    const expertResults: ExpertCodingResult[] = []
+    for (let i = 0; i < experts.length; i++) {
+      options.onProgress?.(15 + i * 25, `${experts[i].name} kodiert unabhängig...`)
+      expertResults.push(await this.codeWithExpert(context, experts[i], options, i))
+    }
 
     // Phase 2: Calculate agreement matrix
+    options.onProgress?.(85, 'Berechne Übereinstimmung...')
     const agreementMatrix = this.calculateAgreementMatrix(expertResults)
 
-    // Phase 3: Extract consensus codings (2/3 or 3/3 agreement)
-    const consensusCodings = this.extractConsensusCodings(expertResults, agreementMatrix)
+    // Phase 3: Extract consensus codings (2/3 or 3/3 agreement); overlapping
+    // segments can yield the same coding twice
+    const consensusCodings = mergeChunkCodings(
+      this.extractConsensusCodings(expertResults, agreementMatrix),
+      document.content
+    )
 
     // Phase 4: Merge code hierarchies
+    options.onProgress?.(95, 'Finalisiere Ergebnisse...')
     const mergedCodes = this.mergeCodeHierarchies(expertResults.map(r => r.codes))
 
     return {
       codings: consensusCodings,
       codes: mergedCodes,
+      summary: de
+        ? `Drei-Experten-System: ${consensusCodings.length} Kodierungen mit mindestens 2/3 Übereinstimmung.`
+        : `Three-expert system: ${consensusCodings.length} codings with at least 2/3 agreement.`,
       metadata: {
         method: 'three-expert',
         duration: 0,
+        ...usageMetadata(expertResults),
         consensusRate: this.calculateConsensusRate(agreementMatrix),
       },
     }
@@ -101,16 +119,32 @@ Consider context, language, and emotions.`
   }
 
   private async codeWithExpert(
-    document: Document,
+    context: ToolCodingContext,
     expert: Expert,
-    options: CodingOptions
+    options: CodingOptions,
+    index: number
   ): Promise<ExpertCodingResult> {
-    // In production, this would call the Claude API with expert-specific prompts
-    // For now, return placeholder
+    const result = await runCodingPass(
+      context,
+      {
+        source: expert.name,
+        prompt: expert.prompt + formatExistingCodes(context.existingCodes, context.language),
+        instruction: context.language === 'de' ? 'Analysiere und kodiere' : 'Analyze and code',
+        temperature: expert.temperature,
+      },
+      (done, total) => options.onProgress?.(
+        15 + index * 25 + Math.round((done / total) * 20),
+        `${expert.name} kodiert (${done}/${total})...`
+      )
+    )
+
     return {
       expertId: expert.id,
-      codings: [],
-      codes: [],
+      codings: result.codings,
+      codes: result.codes,
+      usage: result.usage,
+      model: result.model,
+      warnings: result.warnings,
     }
   }
 
@@ -294,6 +328,9 @@ interface ExpertCodingResult {
   expertId: string
   codings: Coding[]
   codes: Code[]
+  usage: CodingUsage
+  model?: string
+  warnings: string[]
 }
 
 interface Segment {
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import type { Code, Document } from '../types'
+import { FixtureProvider, type FixtureProviderConfig } from '../llm/FixtureProvider'
+import { codeChunk, runCodingPass, CODING_CHUNK_SIZE, type CodingPass, type ToolCodingContext } from './ToolCoding'
+
+const CONTENT = [
+  'Am Anfang war ich unsicher.',
+  'Die Kollegen haben mir z.B. den Ablauf gezeigt.',
+  'Heute fühle ich mich im Team gut aufgehoben!',
+  'Nur die Schichtplanung ist chaotisch.',
+].join(' ')
+
+const PASS: CodingPass = { source: 'test', prompt: '', instruction: 'Kodiere das Interview' }
+
+function document(content = CONTENT): Document {
+  return { id: 'doc-1', name: 'Interview', content, fileType: 'text', wordCount: content.split(/\s+/).length }
+}
+
+function context(
+  responses: FixtureProviderConfig['responses'],
+  options: { content?: string; existingCodes?: Code[] } = {}
+): ToolCodingContext {
+  return {
+    provider: new FixtureProvider({ responses }),
+    document: document(options.content),
+    existingCodes: options.existingCodes || [],
+    exemplars: [],
+    language: 'de',
+  }
+}
+
+function segment(input: Record<string, unknown>) {
+  return { name: 'code_segment', input: { codeName: 'Zugehörigkeit', reasoning: 'Begründung', confidence: 0.8, ...input } }
+}
+
+async function code(calls: Record<string, unknown>[]) {
+  return runCodingPass(context([{ toolCalls: calls.map(segment) }]), PASS)
+}
+
+describe('ToolCoding sentence anchors', () => {
+  it('maps a sentence ID onto the exact sentence', async () => {
+    const { codings } = await code([{ startSentence: 'S3' }])
+    expect(codings).toHaveLength(1)
+    expect(codings[0].selectedText).toBe('Heute fühle ich mich im Team gut aufgehoben!')
+    expect(CONTENT.substring(codings[0].startOffset, codings[0].endOffset)).toBe(codings[0].selectedText)
+  })
+
+  it('does not end a sentence at an abbreviation', async () => {
+    const { codings } = await code([{ startSentence: 'S2' }])
+    expect(codings[0].selectedText).toBe('Die Kollegen haben mir z.B. den Ablauf gezeigt.')
+  })
+
+  it('spans from the first to the last sentence of a range', async () => {
+    const { codings } = await code([{ startSentence: 'S2', endSentence: 'S3' }])
+    expect(codings[0].selectedText).toBe(
+      'Die Kollegen haben mir z.B. den Ablauf gezeigt. Heute fühle ich mich im Team gut aufgehoben!'
+    )
+  })
+
+  it('accepts IDs in brackets and lower case', async () => {
+    const { codings } = await code([{ startSentence: '[s1]', endSentence: ' S1 ' }])
+    expect(codings[0].selectedText).toBe('Am Anfang war ich unsicher.')
+  })
+
+  it('narrows the span to a quote within the sentences', async () => {
+    const { codings } = await code([{ startSentence: 'S3', quote: 'im Team gut aufgehoben' }])
+    expect(codings[0].selectedText).toBe('im Team gut aufgehoben')
+  })
+
+  it('keeps the sentence span when the quote is not in it', async () => {
+    const { codings } = await code([{ startSentence: 'S3', quote: 'Schichtplanung ist chaotisch' }])
+    expect(codings[0].selectedText).toBe('Heute fühle ich mich im Team gut aufgehoben!')
+  })
+
+  it('searches the quote when the anchor is unknown', async () => {
+    const { codings } = await code([{ startSentence: 'S99', quote: 'die Schichtplanung ist chaotisch' }])
+    expect(codings[0].selectedText).toBe('die Schichtplanung ist chaotisch')
+  })
+
+  it('drops codings without a usable anchor or quote and reports them', async () => {
+    const { codings, warnings } = await code([
+      { startSentence: 'S99' },
+      { startSentence: '', quote: 'kommt nicht vor' },
+      { startSentence: 'S1', codeName: ' ' },
+    ])
+    expect(codings).toEqual([])
+    expect(warnings).toEqual([
+      'Coding not found in the document: S99',
+      'Coding not found in the document: (no anchor) "kommt nicht vor"',
+    ])
+  })
+
+  it('reuses existing codes by name and keeps identical codings once', async () => {
+    const existing: Code = { id: 'code-1', name: 'Zugehörigkeit', color: '#22c55e' }
+    const calls = [segment({ startSentence: 'S3', codeName: 'zugehörigkeit' }), segment({ startSentence: 'S3' })]
+    const result = await runCodingPass(context([{ toolCalls: calls }], { existingCodes: [existing] }), PASS)
+    expect(result.codes).toEqual([existing])
+    expect(result.codings).toHaveLength(1)
+    expect(result.codings[0]).toMatchObject({ codeId: 'code-1', codeName: 'Zugehörigkeit', confidence: 0.8 })
+  })
+
+  it('restarts sentence IDs per chunk and shifts them to document offsets', async () => {
+    const filler = 'Weiterer Text im Absatz. '.repeat(10).trim()
+    const paragraphs = Array.from({ length: 40 }, (_, i) => `Absatz ${i + 1} beginnt hier. ${filler}`)
+    const content = paragraphs.join('\n\n')
+    expect(content.length).toBeGreaterThan(CODING_CHUNK_SIZE)
+
+    // Every chunk codes its first sentence
+    const ctx = context(() => ({ toolCalls: [segment({ startSentence: 'S1' })] }), { content })
+    const result = await runCodingPass(ctx, PASS)
+    const requests = (ctx.provider as FixtureProvider).requests
+    expect(requests.length).toBeGreaterThan(1)
+
+    const firstSentences = requests.map(r => r.messages[0].content.match(/\[S1\] (.*)/)![1])
+    for (const sentence of firstSentences) {
+      const coding = result.codings.find(c => c.selectedText === sentence)
+      expect(coding).toBeDefined()
+      expect(content.substring(coding!.startOffset, coding!.endOffset)).toBe(sentence)
+    }
+    expect(firstSentences.slice(1).some(s => s !== 'Absatz 1 beginnt hier.')).toBe(true)
+  })
+
+  it('streams every coding as it is resolved', async () => {
+    const streamed: string[] = []
+    const ctx: ToolCodingContext = {
+      ...context([{ toolCalls: [segment({ startSentence: 'S1' }), segment({ startSentence: 'S4' })] }]),
+      onCoding: coding => streamed.push(coding.selectedText),
+    }
+    await codeChunk(ctx, PASS, { id: 'chunk-1', text: CONTENT, startOffset: 0, endOffset: CONTENT.length })
+    expect(streamed).toEqual(['Am Anfang war ich unsicher.', 'Nur die Schichtplanung ist chaotisch.'])
+  })
+})
@@ -0,0 +1,391 @@
+import type { Code, Coding, CodingExemplar, CodingOptions, CodingStreamHandler, CodingUsage, Document } from '../types'
+import type { LLMProvider, LLMTool } from '../llm/LLMProvider'
+import { AnthropicProvider } from '../llm/AnthropicProvider'
+import type { CodingServiceConfig } from './CodingService'
+import { splitDocument, findQuoteSpan, mergeChunkCodings, type DocumentChunk } from './DocumentChunker'
+import { splitSentences, formatAnchoredDocument, resolveAnchorSpan, type SentenceAnchor } from './SentenceAnchors'
+import { formatExemplars, selectExemplars } from './Exemplars'
+
+/**
+ * Tool-based coding passes shared by all coding methods
+ *
+ * The model calls `code_segment` once per coding and refers to pre-assigned
+ * sentence IDs, so offsets never depend on re-finding quoted text. Long
+ * documents are coded chunk by chunk; sentence offsets are shifted back to
+ * document offsets and duplicates from overlapping chunks are merged.
+ */
+
+// Characters per request; 40-page transcripts are split into several chunks
+export const CODING_CHUNK_SIZE = 6000
+// Trailing paragraphs repeated in the next chunk, so boundary passages keep their context
+export const CODING_CHUNK_OVERLAP = 600
+
+export const CODING_SYSTEM_PROMPTS = {
+  de: `Du bist ein Experte für qualitative Datenanalyse und Kodierung. Du analysierst Texte nach wissenschaftlichen Standards der qualitativen Forschung.
+
+WICHTIGE REGELN:
+1. Kodiere nur relevante Textstellen, nicht den gesamten Text
+2. Jede Kodierung muss eine klare Begründung haben
+3. Verwende prägnante, aussagekräftige Code-Namen
+4. Beachte den Kontext der Aussagen
+5. Identifiziere sowohl manifeste als auch latente Bedeutungen
+
+VORGEHEN:
+- Jeder Satz des Dokuments ist mit einer ID markiert, z.B. [S3]
+- Rufe für JEDE Kodierung das Werkzeug "code_segment" auf und gib die Satz-IDs an
+- Eine Kodierung umfasst einen Satz oder mehrere aufeinanderfolgende Sätze
+- Betrifft die Kodierung nur einen Teil eines Satzes, gib diesen Teil wörtlich als "quote" an
+- Rufe zum Schluss "finish_coding" mit einer kurzen Zusammenfassung auf`,
+  en: `You are an expert in qualitative data analysis and coding. You analyze texts according to the scientific standards of qualitative research.
+
+IMPORTANT RULES:
+1. Only code relevant passages, not the whole text
+2. Every coding needs a clear justification
+3. Use concise, meaningful code names
+4. Consider the context of statements
+5. Identify both manifest and latent meanings
+
+PROCEDURE:
+- Every sentence of the document is marked with an ID, e.g. [S3]
+- Call the tool "code_segment" for EVERY coding and give the sentence IDs
+- A coding covers one sentence or several consecutive sentences
+- If a coding only concerns part of a sentence, give that part verbatim as "quote"
+- Finally call "finish_coding" with a short summary`,
+}
+
+export const CODE_SEGMENT_TOOL: LLMTool = {
+  name: 'code_segment',
+  description: 'Kodiert eine Textstelle des Dokuments. Für jede Kodierung einmal aufrufen.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      codeName: { type: 'string', description: 'Prägnanter Name des Codes' },
+      codeDescription: { type: 'string', description: 'Kurze Beschreibung des Codes' },
+      startSentence: { type: 'string', description: 'ID des ersten Satzes, z.B. "S3"' },
+      endSentence: { type: 'string', description: 'ID des letzten Satzes (gleich startSentence bei einem Satz)' },
+      quote: { type: 'string', description: 'Optional: wörtliches Zitat, wenn nur ein Teil der Sätze kodiert wird' },
+      reasoning: { type: 'string', description: 'Begründung für diese Kodierung' },
+      confidence: { type: 'number', minimum: 0, maximum: 1, description: 'Sicherheit zwischen 0 und 1' },
+    },
+    required: ['codeName', 'startSentence', 'reasoning', 'confidence'],
+  },
+}
+
+export const FINISH_CODING_TOOL: LLMTool = {
+  name: 'finish_coding',
+  description: 'Schließt die Kodierung ab.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'Kurze Zusammenfassung der Analyse' },
+    },
+    required: ['summary'],
+  },
+}
+
+export interface ToolCodingContext {
+  provider: LLMProvider
+  model?: string
+  document: Document
+  existingCodes: Code[]
+  /** Few-shot exemplars of the existing codes, added to every pass */
+  exemplars: CodingExemplar[]
+  language: 'de' | 'en'
+  onCoding?: CodingStreamHandler
+  signal?: AbortSignal
+}
+
+/**
+ * One persona/expert pass over the document
+ */
+export interface CodingPass {
+  /** Reported with streamed codings and stored as codedBy */
+  source: string
+  /** Method-specific instructions, appended to the base system prompt */
+  prompt: string
+  instruction: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface PassResult {
+  codings: Coding[]
+  codes: Code[]
+  summary: string
+  usage: CodingUsage
+  model?: string
+  /** Tool calls that could not be used (invalid input, unknown anchors) */
+  warnings: string[]
+}
+
+/**
+ * Context for one coding run; without a provider the API key of the config
+ * is used with the Anthropic API
+ */
+export function createToolContext(
+  config: CodingServiceConfig,
+  document: Document,
+  options: CodingOptions
+): ToolCodingContext {
+  if (!config.provider && !config.apiKey) {
+    throw new Error('No LLM provider configured: pass a provider or an apiKey')
+  }
+
+  const existingCodes = options.existingCodes || []
+  return {
+    provider: config.provider || new AnthropicProvider({ apiKey: config.apiKey, model: config.model, baseUrl: config.baseUrl }),
+    model: config.model,
+    document,
+    existingCodes,
+    exemplars: selectExemplars(options.exemplars || [], existingCodes),
+    language: options.language || 'de',
+    onCoding: options.onCoding,
+    signal: options.signal,
+  }
+}
+
+// ============================================
+// Passes
+// ============================================
+
+/**
+ * Code the whole document with one pass, one request per chunk
+ */
+export async function runCodingPass(
+  context: ToolCodingContext,
+  pass: CodingPass,
+  onChunk?: (done: number, total: number) => void
+): Promise<PassResult> {
+  const chunks = splitDocument(context.document.content, {
+    chunkSize: CODING_CHUNK_SIZE,
+    overlap: CODING_CHUNK_OVERLAP,
+  })
+  const results: PassResult[] = []
+
+  for (let index = 0; index < chunks.length; index++) {
+    results.push(await codeChunk(context, pass, chunks[index], { index, total: chunks.length }))
+    onChunk?.(index + 1, chunks.length)
+  }
+
+  return combinePassResults(results, context.document.content)
+}
+
+/**
+ * Code one chunk with a single streamed request
+ */
+export async function codeChunk(
+  context: ToolCodingContext,
+  pass: CodingPass,
+  chunk: DocumentChunk,
+  position: { index: number; total: number } = { index: 0, total: 1 }
+): Promise<PassResult> {
+  const { document, language } = context
+  const codes = new Map<string, Code>()
+  const codings: Coding[] = []
+  const seen = new Set<string>()
+  const summaries: string[] = []
+  const warnings: string[] = []
+  const usage: CodingUsage = { inputTokens: 0, outputTokens: 0, requests: 1 }
+  let model: string | undefined
+
+  // Sentence IDs restart per chunk; offsets are shifted to document offsets
+  const sentences = splitSentences(chunk.text).map(s => ({
+    ...s,
+    startOffset: s.startOffset + chunk.startOffset,
+    endOffset: s.endOffset + chunk.startOffset,
+  }))
+  const part = position.total > 1
+    ? language === 'de'
+      ? ` (Abschnitt ${position.index + 1} von ${position.total})`
+      : ` (part ${position.index + 1} of ${position.total})`
+    : ''
+  const marked = language === 'de' ? 'Jeder Satz ist mit seiner ID markiert' : 'Each sentence is marked with its ID'
+
+  const stream = context.provider.stream({
+    messages: [{ role: 'user', content: `${pass.instruction}${part}. ${marked}:\n\n${formatAnchoredDocument(sentences)}` }],
+    system: `${CODING_SYSTEM_PROMPTS[language]}\n\n${pass.prompt}${formatExemplars(context.exemplars, language)}`,
+    model: context.model,
+    temperature: pass.temperature,
+    maxTokens: pass.maxTokens,
+    tools: [CODE_SEGMENT_TOOL, FINISH_CODING_TOOL],
+    toolChoice: 'any',
+    signal: context.signal,
+  })
+
+  for await (const event of stream) {
+    if (event.type === 'done') {
+      usage.inputTokens = event.response.usage.inputTokens
+      usage.outputTokens = event.response.usage.outputTokens
+      model = event.response.model || undefined
+      warnings.push(...(event.response.warnings || []))
+      continue
+    }
+    if (event.type !== 'tool_call') continue
+
+    const { name, input } = event.toolCall
+    if (name === FINISH_CODING_TOOL.name) {
+      if (input.summary) summaries.push(String(input.summary))
+      continue
+    }
+    if (name !== CODE_SEGMENT_TOOL.name) continue
+
+    const span = resolveSpan(input, sentences, document.content, chunk)
+    const codeName = typeof input.codeName === 'string' ? input.codeName.trim() : ''
+    if (!span) warnings.push(`Coding not found in the document: ${describeAnchor(input)}`)
+    if (!span || !codeName) continue
+
+    const key = codeKey(codeName)
+    const existing = context.existingCodes.find(c => codeKey(c.name) === key)
+    if (!codes.has(key)) {
+      codes.set(key, existing || {
+        id: `suggested:${key}`,
+        name: codeName,
+        description: typeof input.codeDescription === 'string' ? input.codeDescription : undefined,
+        color: generateColor(codeName),
+      })
+    }
+
+    // The overlap is coded twice; keep identical codings only once
+    const id = `${pass.source}:${span.startOffset}-${span.endOffset}:${key}`
+    if (seen.has(id)) continue
+    seen.add(id)
+
+    const confidence = Number(input.confidence)
+    const coding: Coding = {
+      id,
+      documentId: document.id,
+      codeId: codes.get(key)!.id,
+      codeName: existing?.name || codeName,
+      startOffset: span.startOffset,
+      endOffset: span.endOffset,
+      selectedText: document.content.substring(span.startOffset, span.endOffset),
+      memo: typeof input.reasoning === 'string' ? input.reasoning : undefined,
+      confidence: Number.isFinite(confidence) ? Math.max(0, Math.min(1, confidence)) : 0.7,
+      codedBy: pass.source,
+      createdAt: new Date().toISOString(),
+    }
+    codings.push(coding)
+    context.onCoding?.(coding, pass.source)
+  }
+
+  return { codings, codes: Array.from(codes.values()), summary: summaries.join(' '), usage, model, warnings }
+}
+
+/**
+ * Combine chunk results of one pass; overlapping codings of the same code are merged
+ */
+export function combinePassResults(results: PassResult[], content: string): PassResult {
+  return {
+    codings: mergeChunkCodings(results.flatMap(r => r.codings), content),
+    codes: mergeCodes(results.map(r => r.codes)),
+    summary: results.map(r => r.summary).filter(Boolean).join(' '),
+    usage: sumUsage(results),
+    model: results.find(r => r.model)?.model,
+    warnings: results.flatMap(r => r.warnings),
+  }
+}
+
+/**
+ * Total usage of several passes or chunks
+ */
+export function sumUsage(results: { usage: CodingUsage }[]): CodingUsage {
+  return results.reduce(
+    (sum, r) => ({
+      inputTokens: sum.inputTokens + r.usage.inputTokens,
+      outputTokens: sum.outputTokens + r.usage.outputTokens,
+      requests: sum.requests + r.usage.requests,
+    }),
+    { inputTokens: 0, outputTokens: 0, requests: 0 }
+  )
+}
+
+/**
+ * Usage and warning fields of CodingResult.metadata
+ */
+export function usageMetadata(results: { usage: CodingUsage; model?: string; warnings?: string[] }[]) {
+  const usage = sumUsage(results)
+  const warnings = results.flatMap(r => r.warnings || [])
+  return {
+    tokenCount: usage.inputTokens + usage.outputTokens,
+    usage,
+    model: results.find(r => r.model)?.model,
+    ...(warnings.length > 0 && { warnings }),
+  }
+}
+
+/**
+ * Map a code_segment call onto the exact span of its sentences, narrowed to
+ * the quote if one is given. Quotes are matched fuzzily, so slightly altered
+ * wording still anchors; without a known anchor the quote is searched in the chunk.
+ */
+function resolveSpan(
+  input: Record<string, unknown>,
+  sentences: SentenceAnchor[],
+  content: string,
+  chunk: DocumentChunk
+): { startOffset: number; endOffset: number } | null {
+  const startSentence = typeof input.startSentence === 'string' ? input.startSentence : ''
+  const endSentence = typeof input.endSentence === 'string' ? input.endSentence : startSentence
+  const quote = typeof input.quote === 'string' ? input.quote.trim() : ''
+
+  const span = startSentence ? resolveAnchorSpan(sentences, startSentence, endSentence) : null
+  if (span && quote) {
+    return findQuoteSpan(content, quote, { from: span.startOffset, to: span.endOffset }) || span
+  }
+  if (!span && quote) {
+    return findQuoteSpan(content, quote, { from: chunk.startOffset, to: chunk.endOffset })
+  }
+  return span
+}
+
+function describeAnchor(input: Record<string, unknown>): string {
+  const start = typeof input.startSentence === 'string' ? input.startSentence : ''
+  const end = typeof input.endSentence === 'string' && input.endSentence !== start ? `-${input.endSentence}` : ''
+  const quote = typeof input.quote === 'string' && input.quote.trim() ? ` "${input.quote.trim()}"` : ''
+  return `${start || '(no anchor)'}${end}${quote}`
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * "Bestehende Codes" section for the system prompt
+ */
+export function formatExistingCodes(codes: Code[], language: 'de' | 'en', withDescriptions = false): string {
+  if (codes.length === 0) return ''
+  const heading = language === 'de' ? 'Bestehende Codes (bevorzugt verwenden):' : 'Existing codes (use them preferably):'
+  const lines = codes.map(c => withDescriptions && c.description ? `- ${c.name}: ${c.description}` : `- ${c.name}`)
+  return `\n\n${heading}\n${lines.join('\n')}`
+}
+
+/**
+ * Codes by name, first occurrence wins
+ */
+export function mergeCodes(codeLists: Code[][]): Code[] {
+  const merged = new Map<string, Code>()
+  for (const code of codeLists.flat()) {
+    const key = codeKey(code.name)
+    if (!merged.has(key)) merged.set(key, code)
+  }
+  return Array.from(merged.values())
+}
+
+function codeKey(name: string): string {
+  return name.toLowerCase().trim()
+}
+
+/**
+ * Stable color for a new code name
+ */
+export function generateColor(name: string): string {
+  const colors = [
+    '#f59e0b', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899',
+    '#ef4444', '#06b6d4', '#84cc16', '#f97316', '#6366f1',
+  ]
+  let hash = 0
+  for (let i = 0; i < name.length; i++) {
+    hash = name.charCodeAt(i) + ((hash << 5) - hash)
+  }
+  return colors[Math.abs(hash) % colors.length]
+}
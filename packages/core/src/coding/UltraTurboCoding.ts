@@ -1,5 +1,7 @@
-import type { Document, CodingOptions, CodingResult, Code, Coding } from '../types'
+import type { Document, CodingOptions, CodingResult, Code, Coding, CodingUsage } from '../types'
 import type { CodingServiceConfig } from './CodingService'
+import { splitDocument, mergeChunkCodings, type DocumentChunk } from './DocumentChunker'
+import { codeChunk, createToolContext, formatExistingCodes, usageMetadata, type CodingPass, type ToolCodingContext } from './ToolCoding'
 
 /**
  * Ultra Turbo Scientific Coding System
@@ -17,9 +19,11 @@ import type { CodingServiceConfig } from './CodingService'
  * Note: Lower reliability than multi-expert methods,
  * but significantly faster for first-pass analysis.
  */
+// Characters per chunk; small chunks keep the parallel requests short
+export const TURBO_CHUNK_SIZE = 2000
+
 export class UltraTurboCoding {
   private config: CodingServiceConfig
-  private readonly CHUNK_SIZE = 2000 // Characters per chunk
   private readonly MAX_PARALLEL = 5 // Max parallel API calls
 
   constructor(config: CodingServiceConfig) {
@@ -27,14 +31,17 @@ export class UltraTurboCoding {
   }
 
   async code(document: Document, options: CodingOptions): Promise<CodingResult> {
+    const context = createToolContext(this.config, document, options)
+    options.onProgress?.(20, 'Schnellanalyse läuft...')
+
     // Phase 1: Split document into processable chunks
     const chunks = this.splitDocument(document)
 
     // Phase 2: Process chunks in parallel batches
-    const chunkResults = await this.processChunksParallel(chunks, document.id, options)
+    const chunkResults = await this.processChunksParallel(chunks, context, options)
 
     // Phase 3: Merge and deduplicate results
-    const mergedResult = this.mergeResults(chunkResults)
+    const mergedResult = this.mergeResults(chunkResults, document.content)
 
     // Phase 4: Build code hierarchy
     const codeHierarchy = this.buildCodeHierarchy(mergedResult.codes, options.existingCodes)
@@ -42,68 +49,40 @@ export class UltraTurboCoding {
     return {
       codings: mergedResult.codings,
       codes: codeHierarchy,
+      summary: context.language === 'de'
+        ? `Ultra-Turbo: ${mergedResult.codings.length} Kodierungen in Schnellanalyse.`
+        : `Ultra turbo: ${mergedResult.codings.length} codings in a quick analysis.`,
       metadata: {
         method: 'ultra-turbo',
         duration: 0,
-        tokenCount: chunks.reduce((sum, c) => sum + c.text.length, 0),
+        ...usageMetadata(chunkResults),
       },
     }
   }
 
   private splitDocument(document: Document): DocumentChunk[] {
-    const chunks: DocumentChunk[] = []
-    const content = document.content
-
-    // Split at paragraph boundaries when possible
-    const paragraphs = content.split(/\n\n+/)
-    let currentChunk = ''
-    let currentOffset = 0
-    let chunkStartOffset = 0
-
-    for (const para of paragraphs) {
-      if (currentChunk.length + para.length > this.CHUNK_SIZE && currentChunk.length > 0) {
-        // Save current chunk
-        chunks.push({
-          id: `chunk-${chunks.length}`,
-          text: currentChunk.trim(),
-          startOffset: chunkStartOffset,
-          endOffset: currentOffset,
-        })
-        currentChunk = para
-        chunkStartOffset = currentOffset
-      } else {
-        currentChunk += (currentChunk ? '\n\n' : '') + para
-      }
-      currentOffset += para.length + 2
-    }
-
-    // Don't forget the last chunk
-    if (currentChunk.trim()) {
-      chunks.push({
-        id: `chunk-${chunks.length}`,
-        text: currentChunk.trim(),
-        startOffset: chunkStartOffset,
-        endOffset: content.length,
-      })
-    }
-
-    return chunks
+    // Paragraph chunks with exact document offsets
+    return splitDocument(document.content, { chunkSize: TURBO_CHUNK_SIZE })
   }
 
   private async processChunksParallel(
     chunks: DocumentChunk[],
-    documentId: string,
+    context: ToolCodingContext,
     options: CodingOptions
   ): Promise<ChunkResult[]> {
     const results: ChunkResult[] = []
+    const pass = this.buildCodingPass(context)
 
     // Process in batches to respect rate limits
     for (let i = 0; i < chunks.length; i += this.MAX_PARALLEL) {
       const batch = chunks.slice(i, i + this.MAX_PARALLEL)
       const batchResults = await Promise.all(
-        batch.map(chunk => this.processChunk(chunk, documentId, options))
+        batch.map((chunk, j) => this.processChunk(chunk, context, pass, i + j, chunks.length))
       )
       results.push(...batchResults)
+
+      const done = Math.min(i + this.MAX_PARALLEL, chunks.length)
+      options.onProgress?.(20 + Math.round((done / chunks.length) * 60), `Schnellanalyse (${done}/${chunks.length})...`)
     }
 
     return results
@@ -111,107 +90,45 @@ export class UltraTurboCoding {
 
   private async processChunk(
     chunk: DocumentChunk,
-    documentId: string,
-    options: CodingOptions
+    context: ToolCodingContext,
+    pass: CodingPass,
+    index: number,
+    total: number
   ): Promise<ChunkResult> {
-    // Build the prompt
-    const prompt = this.buildCodingPrompt(chunk.text, options)
-
-    // In production, this would call Claude API
-    // For now, return placeholder
+    // Offsets of the result are already document offsets
+    const result = await codeChunk(context, pass, chunk, { index, total })
     return {
       chunkId: chunk.id,
-      codings: [],
-      suggestedCodes: [],
-      startOffset: chunk.startOffset,
+      codings: result.codings,
+      suggestedCodes: result.codes,
+      usage: result.usage,
+      model: result.model,
+      warnings: result.warnings,
     }
   }
 
-  private buildCodingPrompt(text: string, options: CodingOptions): string {
-    const lang = options.language || 'de'
-
-    const basePrompt = lang === 'de' ? `
-Analysiere den folgenden Text und identifiziere relevante Codes für qualitative Forschung.
+  private buildCodingPass(context: ToolCodingContext): CodingPass {
+    const de = context.language === 'de'
+    const prompt = de
+      ? `ULTRA-TURBO-MODUS: Schnelle explorative Kodierung.
+Identifiziere die wichtigsten Themen und Konzepte schnell aber gründlich.`
+      : `ULTRA TURBO MODE: Fast exploratory coding.
+Identify the most important themes and concepts quickly but thoroughly.`
 
-Für jeden Code, gib an:
-1. Name des Codes (kurz, prägnant)
-2. Beschreibung (1 Satz)
-3. Die exakte Textstelle, die kodiert werden soll
-4. Begründung für die Kodierung
-
-Existierende Codes zur Referenz:
-${options.existingCodes?.map(c => `- ${c.name}: ${c.description || ''}`).join('\n') || 'Keine'}
-
-TEXT:
-${text}
-
-Antworte im JSON-Format:
-{
-  "codings": [
-    {
-      "codeName": "...",
-      "description": "...",
-      "selectedText": "...",
-      "reasoning": "..."
-    }
-  ],
-  "newCodes": [
-    {
-      "name": "...",
-      "description": "..."
-    }
-  ]
-}
-` : `
-Analyze the following text and identify relevant codes for qualitative research.
-
-For each code, provide:
-1. Code name (short, concise)
-2. Description (1 sentence)
-3. The exact text segment to be coded
-4. Reasoning for the coding
-
-Existing codes for reference:
-${options.existingCodes?.map(c => `- ${c.name}: ${c.description || ''}`).join('\n') || 'None'}
-
-TEXT:
-${text}
-
-Respond in JSON format:
-{
-  "codings": [
-    {
-      "codeName": "...",
-      "description": "...",
-      "selectedText": "...",
-      "reasoning": "..."
-    }
-  ],
-  "newCodes": [
-    {
-      "name": "...",
-      "description": "..."
+    return {
+      source: 'Ultra Turbo',
+      prompt: prompt + formatExistingCodes(context.existingCodes, context.language),
+      instruction: de ? 'Schnellkodierung' : 'Quick coding',
+      temperature: 0.4,
     }
-  ]
-}
-`
-
-    return basePrompt
   }
 
-  private mergeResults(chunkResults: ChunkResult[]): MergedResult {
+  private mergeResults(chunkResults: ChunkResult[], content: string): MergedResult {
     const allCodings: Coding[] = []
     const allCodes = new Map<string, Code>()
 
     for (const result of chunkResults) {
-      // Add codings with adjusted offsets
-      for (const coding of result.codings) {
-        allCodings.push({
-          ...coding,
-          startOffset: coding.startOffset + result.startOffset,
-          endOffset: coding.endOffset + result.startOffset,
-        })
-      }
+      allCodings.push(...result.codings)
 
       // Deduplicate codes by name
       for (const code of result.suggestedCodes) {
@@ -222,8 +139,8 @@ Respond in JSON format:
       }
     }
 
-    // Remove duplicate codings (same text, same code)
-    const uniqueCodings = this.deduplicateCodings(allCodings)
+    // Merge duplicate codings (overlapping spans of the same code)
+    const uniqueCodings = mergeChunkCodings(allCodings, content)
 
     return {
       codings: uniqueCodings,
@@ -231,21 +148,6 @@ Respond in JSON format:
     }
   }
 
-  private deduplicateCodings(codings: Coding[]): Coding[] {
-    const seen = new Set<string>()
-    const unique: Coding[] = []
-
-    for (const coding of codings) {
-      const key = `${coding.startOffset}-${coding.endOffset}-${coding.codeName.toLowerCase()}`
-      if (!seen.has(key)) {
-        seen.add(key)
-        unique.push(coding)
-      }
-    }
-
-    return unique
-  }
-
   private buildCodeHierarchy(newCodes: Code[], existingCodes?: Code[]): Code[] {
     const allCodes = [...(existingCodes || []), ...newCodes]
 
@@ -305,18 +207,13 @@ Respond in JSON format:
   }
 }
 
-interface DocumentChunk {
-  id: string
-  text: string
-  startOffset: number
-  endOffset: number
-}
-
 interface ChunkResult {
   chunkId: string
   codings: Coding[]
   suggestedCodes: Code[]
-  startOffset: number
+  usage: CodingUsage
+  model?: string
+  warnings: string[]
 }
 
 interface MergedResult {
@@ -2,4 +2,28 @@ export { DynamicCodingPersonas } from './DynamicCodingPersonas'
 export { ThreeExpertCodingSystem } from './ThreeExpertCodingSystem'
 export { CalibratedPatternCoding } from './CalibratedPatternCoding'
 export { UltraTurboCoding } from './UltraTurboCoding'
-export { createCodingService, type CodingService } from './CodingService'
+export {
+  splitDocument,
+  findQuoteSpan,
+  mergeChunkCodings,
+  type DocumentChunk,
+  type ChunkOptions,
+  type QuoteMatch,
+  type QuoteSearchOptions,
+  type SpanCoding,
+} from './DocumentChunker'
+export { createCodingService, type CodingService, type CodingServiceConfig } from './CodingService'
+export { estimateCodingUsage, type CodingEstimate } from './CodingEstimate'
+export {
+  selectExemplars,
+  formatExemplars,
+  MAX_POSITIVE_EXEMPLARS,
+  MAX_NEGATIVE_EXEMPLARS,
+  MAX_EXEMPLAR_CHARS,
+} from './Exemplars'
+export {
+  splitSentences,
+  formatAnchoredDocument,
+  resolveAnchorSpan,
+  type SentenceAnchor,
+} from './SentenceAnchors'
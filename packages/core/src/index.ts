@@ -1,6 +1,9 @@
 // Coding Systems
 export * from './coding'
 
+// LLM Providers
+export * from './llm'
+
 // Inter-Rater Reliability
 export * from './irr'
 
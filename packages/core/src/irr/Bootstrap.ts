@@ -0,0 +1,112 @@
+import type { IRRConfidenceInterval } from '../types'
+
+export interface BootstrapOptions {
+  samples?: number
+  seed?: number
+  confidenceLevel?: number
+  threshold?: number
+}
+
+export const DEFAULT_BOOTSTRAP_SAMPLES = 1000
+export const DEFAULT_BOOTSTRAP_SEED = 20240101
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95
+// Krippendorff (2004): smallest alpha acceptable for tentative conclusions
+export const DEFAULT_RELIABILITY_THRESHOLD = 0.667
+
+/**
+ * Bootstrap confidence intervals for reliability coefficients
+ *
+ * Resamples coding units with replacement and recomputes the statistic on
+ * every sample. Reports:
+ * - Percentile confidence interval
+ * - Standard error (SD of the bootstrap distribution)
+ * - q: probability that the coefficient falls below a threshold
+ *   (as in Hayes & Krippendorff's KALPHA macro, 2007)
+ *
+ * A seeded PRNG makes every run reproducible.
+ */
+export function bootstrapStatistic<T>(
+  units: T[],
+  statistic: (sample: T[]) => number,
+  options: BootstrapOptions = {}
+): IRRConfidenceInterval {
+  const samples = Math.max(1, Math.floor(options.samples ?? DEFAULT_BOOTSTRAP_SAMPLES))
+  const seed = options.seed ?? DEFAULT_BOOTSTRAP_SEED
+  const confidenceLevel = options.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL
+  const threshold = options.threshold ?? DEFAULT_RELIABILITY_THRESHOLD
+
+  const random = createSeededRandom(seed)
+  const estimates: number[] = []
+
+  if (units.length > 0) {
+    for (let b = 0; b < samples; b++) {
+      const sample: T[] = new Array(units.length)
+      for (let i = 0; i < units.length; i++) {
+        sample[i] = units[Math.floor(random() * units.length)]
+      }
+
+      const value = statistic(sample)
+      if (Number.isFinite(value)) {
+        estimates.push(value)
+      }
+    }
+  }
+
+  if (estimates.length === 0) {
+    return {
+      lower: NaN,
+      upper: NaN,
+      confidenceLevel,
+      standardError: NaN,
+      samples: 0,
+      seed,
+      threshold,
+      probabilityBelowThreshold: NaN,
+    }
+  }
+
+  estimates.sort((a, b) => a - b)
+
+  const mean = estimates.reduce((a, b) => a + b, 0) / estimates.length
+  const variance =
+    estimates.length > 1
+      ? estimates.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (estimates.length - 1)
+      : 0
+  const tail = (1 - confidenceLevel) / 2
+
+  return {
+    lower: quantile(estimates, tail),
+    upper: quantile(estimates, 1 - tail),
+    confidenceLevel,
+    standardError: Math.sqrt(variance),
+    samples: estimates.length,
+    seed,
+    threshold,
+    probabilityBelowThreshold: estimates.filter(v => v < threshold).length / estimates.length,
+  }
+}
+
+/**
+ * Mulberry32 - small, fast, seedable PRNG returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Linear-interpolated quantile of a sorted array
+ */
+function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0]
+  const position = (sorted.length - 1) * Math.min(1, Math.max(0, p))
+  const low = Math.floor(position)
+  const high = Math.ceil(position)
+  return sorted[low] + (sorted[high] - sorted[low]) * (position - low)
+}
@@ -0,0 +1,63 @@
+/**
+ * Maps code categories onto a scale for ordinal, interval and ratio metrics
+ *
+ * Resolution order per category:
+ * 1. Explicit value from `values`
+ * 2. The category itself if it is numeric (e.g. codes "1".."5")
+ * 3. Its position in `order`
+ * 4. Alphabetical position after all ordered categories
+ */
+import type { KappaWeighting } from '../types'
+
+export interface CategoryScale {
+  order?: string[]
+  values?: Record<string, number>
+}
+
+export function resolveCategoryValues(categories: string[], scale: CategoryScale = {}): number[] {
+  const order = scale.order || []
+  const unordered = categories
+    .filter(cat => scale.values?.[cat] === undefined && !isNumeric(cat) && !order.includes(cat))
+    .sort()
+
+  return categories.map(cat => {
+    const explicit = scale.values?.[cat]
+    if (explicit !== undefined) return explicit
+    if (isNumeric(cat)) return Number(cat)
+    const position = order.indexOf(cat)
+    if (position >= 0) return position
+    return order.length + unordered.indexOf(cat)
+  })
+}
+
+/**
+ * Categories sorted along the scale with their values, and the width of the
+ * whole scale - levels the scale declares count even if no rater used them,
+ * so an unused middle level still separates its neighbours
+ */
+export function resolveScale(
+  categories: string[],
+  scale: CategoryScale = {}
+): { categories: string[]; values: number[]; range: number } {
+  const declared = [...(scale.order || []), ...Object.keys(scale.values || {})]
+  const all = Array.from(new Set([...categories, ...declared])).sort()
+  const allValues = resolveCategoryValues(all, scale)
+  const valueOf = new Map(all.map((cat, idx) => [cat, allValues[idx]]))
+
+  const sorted = [...categories].sort().sort((a, b) => valueOf.get(a)! - valueOf.get(b)!)
+  const range = allValues.length > 0 ? Math.max(...allValues) - Math.min(...allValues) : 0
+  return { categories: sorted, values: sorted.map(cat => valueOf.get(cat)!), range }
+}
+
+/**
+ * Partial agreement of two scale values: 1 - d (linear) or 1 - d² (quadratic)
+ * with d = |a - b| / range
+ */
+export function agreementWeight(a: number, b: number, range: number, weighting: KappaWeighting): number {
+  const distance = range > 0 ? Math.abs(a - b) / range : 0
+  return weighting === 'quadratic' ? 1 - distance * distance : 1 - distance
+}
+
+function isNumeric(value: string): boolean {
+  return value.trim() !== '' && Number.isFinite(Number(value))
+}
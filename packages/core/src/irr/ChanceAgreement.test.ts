@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { GwetAC } from './GwetAC'
+import { ScottsPi } from './ScottsPi'
+
+/**
+ * Expand category counts per unit into a units x raters matrix
+ */
+function fromCounts(categories: string[], counts: number[][]): string[][] {
+  return counts.map(row => row.flatMap((count, k) => Array<string>(count).fill(categories[k])))
+}
+
+/**
+ * Fleiss (1971) / Wikipedia "Fleiss' kappa": 14 raters, 10 subjects,
+ * 5 categories; P̄ = 0.378, P̄e = 0.213, κ = 0.210
+ */
+const FLEISS = fromCounts(
+  ['1', '2', '3', '4', '5'],
+  [
+    [0, 0, 0, 0, 14],
+    [0, 2, 6, 4, 2],
+    [0, 0, 3, 5, 6],
+    [0, 3, 9, 2, 0],
+    [2, 2, 8, 1, 1],
+    [7, 7, 0, 0, 0],
+    [3, 2, 6, 3, 0],
+    [2, 5, 3, 2, 2],
+    [6, 5, 2, 1, 0],
+    [0, 2, 2, 3, 7],
+  ]
+)
+
+/**
+ * Two raters, 50 units (Wikipedia "Cohen's kappa"): pa = 0.7, the pooled
+ * share of "yes" is π = 0.55
+ */
+const PROPOSALS = fromCounts(['yes', 'no'], [
+  ...Array(20).fill([2, 0]),
+  ...Array(15).fill([1, 1]),
+  ...Array(15).fill([0, 2]),
+])
+
+describe("Scott's pi", () => {
+  const pi = new ScottsPi()
+
+  it("equals Fleiss' kappa for many raters", () => {
+    const result = pi.calculateFromMatrix(FLEISS)
+    expect(result.observedAgreement).toBeCloseTo(0.378, 3)
+    expect(result.expectedAgreement).toBeCloseTo(0.213, 3)
+    expect(result.coefficient).toBeCloseTo(0.21, 3)
+  })
+
+  it('pools both raters for chance agreement', () => {
+    // pe = 0.55² + 0.45² = 0.505, π = (0.7 - 0.505) / 0.495
+    const result = pi.calculateFromMatrix(PROPOSALS)
+    expect(result.expectedAgreement).toBeCloseTo(0.505, 10)
+    expect(result.coefficient).toBeCloseTo(0.195 / 0.495, 10)
+  })
+})
+
+describe("Gwet's AC1/AC2", () => {
+  const ac = new GwetAC()
+
+  it('uses Gwet chance agreement', () => {
+    // pe = 1/(q-1) · Σ πk(1 - πk) = 2 · 0.55 · 0.45 = 0.495, AC1 = 0.205 / 0.505
+    const result = ac.calculateFromMatrix(PROPOSALS)
+    expect(result.observedAgreement).toBeCloseTo(0.7, 10)
+    expect(result.expectedAgreement).toBeCloseTo(0.495, 10)
+    expect(result.coefficient).toBeCloseTo(0.205 / 0.505, 10)
+  })
+
+  it('stays high when one category dominates (kappa paradox)', () => {
+    // 90 of 100 units agree on "a", 10 disagree: kappa would be about -0.05
+    const skewed = fromCounts(['a', 'b'], [...Array(90).fill([2, 0]), ...Array(10).fill([1, 1])])
+    expect(ac.calculateFromMatrix(skewed).coefficient).toBeGreaterThan(0.85)
+  })
+
+  it('reports a standard error', () => {
+    const result = ac.calculateFromMatrix(FLEISS)
+    expect(result.standardError).toBeGreaterThan(0)
+    expect(result.standardError).toBeCloseTo(Math.sqrt(result.variance), 12)
+  })
+
+  it('weights AC2 by the declared scale', () => {
+    const scale = { order: ['l1', 'l2', 'l3', 'l4', 'l5'] }
+    const matrix = [['l1', 'l2'], ['l1', 'l1'], ['l5', 'l5'], ['l2', 'l2']]
+    expect(ac.calculateFromMatrix(matrix, 'linear', scale).observedAgreement).toBeCloseTo(0.9375, 10)
+  })
+})
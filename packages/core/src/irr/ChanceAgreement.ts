@@ -0,0 +1,212 @@
+import type { CoderRatings, KappaWeighting } from '../types'
+import { agreementWeight, resolveScale, type CategoryScale } from './CategoryScale'
+import { NO_CODE } from './CohensKappa'
+
+export type ChanceModel = 'gwet' | 'scott'
+
+export interface ChanceCorrectedResult {
+  coefficient: number
+  observedAgreement: number
+  expectedAgreement: number
+  categoryCount: number
+  unitCount: number
+  /** Linearization variance (Gwet, 2014, ch. 5), without finite population correction */
+  variance: number
+  standardError: number
+}
+
+/**
+ * Chance-corrected agreement for any number of raters with missing values
+ * (Gwet, 2014: Handbook of Inter-Rater Reliability, 4th ed.)
+ *
+ * γ = (pa - pe) / (1 - pe)
+ *
+ * - pa: weighted agreement over all units rated by at least 2 raters
+ * - pe (Gwet's AC1/AC2): Tw / (q(q-1)) · Σ πk(1 - πk)
+ * - pe (Scott's pi / Fleiss' kappa): Σk Σl wkl πk πl
+ *
+ * πk is the mean share of ratings for category k per unit. Without weights
+ * (identity matrix) this is AC1; with ordinal weights AC2.
+ */
+export function calculateChanceCorrected(
+  matrix: (string | null)[][],
+  model: ChanceModel,
+  weighting: KappaWeighting | null = null,
+  scale: CategoryScale = {}
+): ChanceCorrectedResult {
+  const { categories, values, range } = getCategories(matrix, scale)
+  const q = categories.length
+  const categoryIndex = new Map<string, number>()
+  categories.forEach((cat, idx) => categoryIndex.set(cat, idx))
+  const weights = buildWeights(categories, values, range, weighting)
+
+  // r_ik: raters assigning unit i to category k; units without any rating are skipped
+  const counts: number[][] = []
+  for (const row of matrix) {
+    const r = Array(q).fill(0)
+    let total = 0
+    for (const value of row) {
+      if (value === null) continue
+      r[categoryIndex.get(value)!]++
+      total++
+    }
+    if (total > 0) counts.push(r)
+  }
+
+  const n = counts.length
+  const totals = counts.map(r => r.reduce((a, b) => a + b, 0))
+  const pairable = totals.filter(t => t >= 2).length
+
+  if (n === 0 || pairable === 0 || q < 2) {
+    return {
+      coefficient: 1,
+      observedAgreement: 1,
+      expectedAgreement: q < 2 ? 0 : 1,
+      categoryCount: q,
+      unitCount: n,
+      variance: 0,
+      standardError: 0,
+    }
+  }
+
+  // Observed agreement per unit (scaled so that its mean over all n units is pa)
+  const paByUnit = counts.map((r, i) => {
+    const ri = totals[i]
+    if (ri < 2) return 0
+    let sum = 0
+    for (let k = 0; k < q; k++) {
+      let weighted = 0
+      for (let l = 0; l < q; l++) weighted += weights[k][l] * r[l]
+      sum += r[k] * (weighted - 1)
+    }
+    return (n / pairable) * sum / (ri * (ri - 1))
+  })
+  const pa = mean(paByUnit)
+
+  // Classification probabilities
+  const pi = Array(q).fill(0)
+  counts.forEach((r, i) => {
+    for (let k = 0; k < q; k++) pi[k] += r[k] / totals[i] / n
+  })
+
+  const weightSum = weights.reduce((sum, row) => sum + row.reduce((a, b) => a + b, 0), 0)
+  const weightedPi = pi.map((_, k) => weights[k].reduce((sum, w, l) => sum + w * pi[l], 0))
+
+  let pe: number
+  if (model === 'gwet') {
+    pe = (weightSum / (q * (q - 1))) * pi.reduce((sum, p) => sum + p * (1 - p), 0)
+  } else {
+    pe = pi.reduce((sum, p, k) => sum + p * weightedPi[k], 0)
+  }
+
+  if (pe === 1) {
+    return {
+      coefficient: 1,
+      observedAgreement: pa,
+      expectedAgreement: pe,
+      categoryCount: q,
+      unitCount: n,
+      variance: 0,
+      standardError: 0,
+    }
+  }
+
+  const coefficient = (pa - pe) / (1 - pe)
+
+  // Variance from the per-unit contributions γ*_i
+  const peByUnit = counts.map((r, i) =>
+    model === 'gwet'
+      ? (weightSum / (q * (q - 1))) * r.reduce((sum, rk, k) => sum + (rk / totals[i]) * (1 - pi[k]), 0)
+      : r.reduce((sum, rk, k) => sum + (rk / totals[i]) * weightedPi[k], 0)
+  )
+  const contributions = paByUnit.map((pai, i) => {
+    const gamma = (pai - pe) / (1 - pe)
+    return gamma - (2 * (1 - coefficient) * (peByUnit[i] - pe)) / (1 - pe)
+  })
+  const variance = n > 1
+    ? contributions.reduce((sum, g) => sum + (g - coefficient) ** 2, 0) / (n * (n - 1))
+    : 0
+
+  return {
+    coefficient,
+    observedAgreement: pa,
+    expectedAgreement: pe,
+    categoryCount: q,
+    unitCount: n,
+    variance,
+    standardError: Math.sqrt(variance),
+  }
+}
+
+/**
+ * Units x raters matrix over all coded spans, as for Cohen's Kappa:
+ * a rater who did not code a unit contributes NO_CODE
+ */
+export function buildUnitMatrix(ratings: CoderRatings[]): string[][] {
+  const units = new Map<string, { documentId: string; startOffset: number; endOffset: number }>()
+  for (const rater of ratings) {
+    for (const coding of rater.codings) {
+      const key = `${coding.documentId}-${coding.startOffset}-${coding.endOffset}`
+      if (!units.has(key)) {
+        units.set(key, { documentId: coding.documentId, startOffset: coding.startOffset, endOffset: coding.endOffset })
+      }
+    }
+  }
+
+  return Array.from(units.values()).map(unit =>
+    ratings.map(rater => {
+      const coding = rater.codings.find(
+        c =>
+          c.documentId === unit.documentId &&
+          c.startOffset <= unit.startOffset &&
+          c.endOffset >= unit.endOffset
+      )
+      return coding ? (coding.codeId || coding.codeName) : NO_CODE
+    })
+  )
+}
+
+/**
+ * Categories ordered along the scale, so weights follow the code order (NO_CODE last)
+ */
+function getCategories(
+  matrix: (string | null)[][],
+  scale: CategoryScale
+): { categories: string[]; values: number[]; range: number } {
+  const categories = new Set<string>()
+  let hasNoCode = false
+  for (const row of matrix) {
+    for (const value of row) {
+      if (value !== null && value !== NO_CODE) categories.add(value)
+      if (value === NO_CODE) hasNoCode = true
+    }
+  }
+
+  const resolved = resolveScale(Array.from(categories), scale)
+  return hasNoCode ? { ...resolved, categories: [...resolved.categories, NO_CODE] } : resolved
+}
+
+/**
+ * Identity (unweighted), linear or quadratic agreement weights over the scale
+ * values; "no code" only agrees with itself
+ */
+function buildWeights(
+  categories: string[],
+  values: number[],
+  range: number,
+  weighting: KappaWeighting | null
+): number[][] {
+  const q = categories.length
+  return Array.from({ length: q }, (_, k) =>
+    Array.from({ length: q }, (_, l) => {
+      if (k === l) return 1
+      if (!weighting) return 0
+      if (categories[k] === NO_CODE || categories[l] === NO_CODE) return 0
+      return agreementWeight(values[k], values[l], range, weighting)
+    })
+  )
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { CohensKappa, NO_CODE } from './CohensKappa'
+
+type Pair = [string | null, string | null]
+
+function repeat(pair: Pair, count: number): Pair[] {
+  return Array.from({ length: count }, () => pair)
+}
+
+/**
+ * Textbook example (Wikipedia, "Cohen's kappa"): two readers rate 50 grant
+ * proposals; Po = 0.7, Pe = 0.5, κ = 0.4
+ */
+const PROPOSALS: Pair[] = [
+  ...repeat(['yes', 'yes'], 20),
+  ...repeat(['yes', 'no'], 5),
+  ...repeat(['no', 'yes'], 10),
+  ...repeat(['no', 'no'], 15),
+]
+
+describe('CohensKappa', () => {
+  const kappa = new CohensKappa()
+
+  it('matches the published example', () => {
+    const result = kappa.calculateFromPairs(PROPOSALS)
+    expect(result.observedAgreement).toBeCloseTo(0.7, 10)
+    expect(result.expectedAgreement).toBeCloseTo(0.5, 10)
+    expect(result.kappa).toBeCloseTo(0.4, 10)
+    expect(result.unitCount).toBe(50)
+  })
+
+  it('counts units coded by one rater only as disagreement', () => {
+    const result = kappa.calculateFromPairs([['a', 'a'], ['b', 'b'], ['a', null]])
+    expect(result.categories).toEqual(['a', 'b', NO_CODE])
+    expect(result.observedAgreement).toBeCloseTo(2 / 3, 10)
+  })
+
+  describe('weighted', () => {
+    // Five declared levels, the raters only used 1, 2 and 5
+    const scale = { order: ['l1', 'l2', 'l3', 'l4', 'l5'] }
+    const pairs: Pair[] = [['l1', 'l2'], ['l1', 'l1'], ['l5', 'l5'], ['l2', 'l2']]
+
+    it('takes distances from the declared scale, not from the used levels', () => {
+      // Neighbouring levels are 1/4 of the scale apart: w = 0.75, not 0.5
+      expect(kappa.calculateFromPairs(pairs, 'linear', scale).observedAgreement).toBeCloseTo(0.9375, 10)
+      expect(kappa.calculateFromPairs(pairs, 'quadratic', scale).observedAgreement).toBeCloseTo(
+        (1 - 1 / 16 + 3) / 4,
+        10
+      )
+    })
+
+    it('uses the values of numeric categories', () => {
+      const numeric: Pair[] = [['1', '2'], ['1', '1'], ['5', '5'], ['2', '2']]
+      expect(kappa.calculateFromPairs(numeric, 'linear').observedAgreement).toBeCloseTo(0.9375, 10)
+    })
+
+    it('equals unweighted kappa with two categories', () => {
+      expect(kappa.calculateFromPairs(PROPOSALS, 'linear').kappa).toBeCloseTo(0.4, 10)
+    })
+  })
+})
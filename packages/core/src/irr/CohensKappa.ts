@@ -1,4 +1,7 @@
-import type { CoderRatings, Coding } from '../types'
+import type { CoderRatings, Coding, KappaWeighting } from '../types'
+import { agreementWeight, resolveScale, type CategoryScale } from './CategoryScale'
+
+export const NO_CODE = '__NO_CODE__'
 
 export interface CohensKappaResult {
   kappa: number
@@ -6,6 +9,7 @@ export interface CohensKappaResult {
   expectedAgreement: number
   categoryCount: number
   unitCount: number
+  categories: string[]
   confusionMatrix: number[][]
 }
 
@@ -17,32 +21,47 @@ export interface CohensKappaResult {
  * Where:
  * - Po = observed agreement (proportion of units where raters agree)
  * - Pe = expected agreement by chance
+ *
+ * Weighted kappa (Cohen, 1968) credits partial agreement between ordered
+ * categories with linear (1 - |vi-vj|/range) or quadratic (1 - ((vi-vj)/range)²)
+ * weights, vi being the category's value on the declared scale.
  */
 export class CohensKappa {
   calculate(
     rater1: CoderRatings,
     rater2: CoderRatings,
-    weighted: boolean = false
+    weighted: boolean | KappaWeighting = false,
+    scale: CategoryScale = {}
   ): CohensKappaResult {
     // Get all unique coding units (text segments)
     const units = this.getUnits(rater1.codings, rater2.codings)
 
-    // Get all categories (codes)
-    const categories = this.getCategories(rater1.codings, rater2.codings)
+    const pairs = units.map(unit => [
+      this.findCodeForUnit(rater1.codings, unit),
+      this.findCodeForUnit(rater2.codings, unit),
+    ] as [string | null, string | null])
+
+    return this.calculateFromPairs(pairs, weighted, scale)
+  }
+
+  /**
+   * Kappa for a list of (rater1, rater2) category pairs, null = unit not coded
+   */
+  calculateFromPairs(
+    pairs: [string | null, string | null][],
+    weighted: boolean | KappaWeighting = false,
+    scale: CategoryScale = {}
+  ): CohensKappaResult {
+    // Get all categories (codes), ordered along the scale for weighted kappa
+    const { categories, values, range } = this.getCategories(pairs, scale)
     const categoryIndex = new Map<string, number>()
     categories.forEach((cat, idx) => categoryIndex.set(cat, idx))
 
     // Build confusion matrix
-    const matrix = this.buildConfusionMatrix(
-      rater1.codings,
-      rater2.codings,
-      units,
-      categoryIndex,
-      categories.length
-    )
+    const matrix = this.buildConfusionMatrix(pairs, categoryIndex, categories.length)
 
     // Calculate agreement
-    const n = units.length
+    const n = pairs.length
     if (n === 0) {
       return {
         kappa: 1,
@@ -50,12 +69,14 @@ export class CohensKappa {
         expectedAgreement: 1,
         categoryCount: categories.length,
         unitCount: 0,
+        categories,
         confusionMatrix: matrix,
       }
     }
 
-    const { observedAgreement, expectedAgreement } = weighted
-      ? this.calculateWeightedAgreement(matrix, n)
+    const weighting: KappaWeighting | null = weighted === true ? 'linear' : weighted || null
+    const { observedAgreement, expectedAgreement } = weighting
+      ? this.calculateWeightedAgreement(matrix, n, categories, values, range, weighting)
       : this.calculateUnweightedAgreement(matrix, n)
 
     // Calculate kappa
@@ -69,6 +90,7 @@ export class CohensKappa {
       expectedAgreement,
       categoryCount: categories.length,
       unitCount: n,
+      categories,
       confusionMatrix: matrix,
     }
   }
@@ -91,23 +113,25 @@ export class CohensKappa {
     return Array.from(unitMap.values())
   }
 
-  private getCategories(codings1: Coding[], codings2: Coding[]): string[] {
+  private getCategories(
+    pairs: [string | null, string | null][],
+    scale: CategoryScale
+  ): { categories: string[]; values: number[]; range: number } {
     const categories = new Set<string>()
 
-    for (const coding of [...codings1, ...codings2]) {
-      categories.add(coding.codeId || coding.codeName)
+    for (const [code1, code2] of pairs) {
+      if (code1 !== null && code1 !== NO_CODE) categories.add(code1)
+      if (code2 !== null && code2 !== NO_CODE) categories.add(code2)
     }
 
-    // Add "no code" category for units where only one rater coded
-    categories.add('__NO_CODE__')
+    const resolved = resolveScale(Array.from(categories), scale)
 
-    return Array.from(categories).sort()
+    // Add "no code" category for units where only one rater coded
+    return { ...resolved, categories: [...resolved.categories, NO_CODE] }
   }
 
   private buildConfusionMatrix(
-    codings1: Coding[],
-    codings2: Coding[],
-    units: CodingUnit[],
+    pairs: [string | null, string | null][],
     categoryIndex: Map<string, number>,
     numCategories: number
   ): number[][] {
@@ -115,12 +139,9 @@ export class CohensKappa {
       .fill(null)
       .map(() => Array(numCategories).fill(0))
 
-    for (const unit of units) {
-      const code1 = this.findCodeForUnit(codings1, unit) || '__NO_CODE__'
-      const code2 = this.findCodeForUnit(codings2, unit) || '__NO_CODE__'
-
-      const idx1 = categoryIndex.get(code1) ?? categoryIndex.get('__NO_CODE__')!
-      const idx2 = categoryIndex.get(code2) ?? categoryIndex.get('__NO_CODE__')!
+    for (const [code1, code2] of pairs) {
+      const idx1 = categoryIndex.get(code1 ?? NO_CODE)!
+      const idx2 = categoryIndex.get(code2 ?? NO_CODE)!
 
       matrix[idx1][idx2]++
     }
@@ -165,11 +186,21 @@ export class CohensKappa {
 
   private calculateWeightedAgreement(
     matrix: number[][],
-    n: number
+    n: number,
+    categories: string[],
+    values: number[],
+    range: number,
+    weighting: KappaWeighting
   ): { observedAgreement: number; expectedAgreement: number } {
-    // Linear weights for ordered categories
+    // Weights by scale value; "no code" only agrees with itself
     const k = matrix.length
 
+    const weight = (i: number, j: number): number => {
+      if (i === j) return 1
+      if (categories[i] === NO_CODE || categories[j] === NO_CODE) return 0
+      return agreementWeight(values[i], values[j], range, weighting)
+    }
+
     let observedWeighted = 0
     let expectedWeighted = 0
 
@@ -180,9 +211,9 @@ export class CohensKappa {
 
     for (let i = 0; i < k; i++) {
       for (let j = 0; j < k; j++) {
-        const weight = 1 - Math.abs(i - j) / (k - 1)
-        observedWeighted += weight * matrix[i][j]
-        expectedWeighted += weight * (rowMarginals[i] * colMarginals[j]) / n
+        const w = weight(i, j)
+        observedWeighted += w * matrix[i][j]
+        expectedWeighted += w * (rowMarginals[i] * colMarginals[j]) / n
       }
     }
 
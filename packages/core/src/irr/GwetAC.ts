@@ -0,0 +1,44 @@
+import type { CoderRatings, KappaWeighting } from '../types'
+import type { CategoryScale } from './CategoryScale'
+import { buildUnitMatrix, calculateChanceCorrected, type ChanceCorrectedResult } from './ChanceAgreement'
+
+export type GwetACResult = ChanceCorrectedResult
+
+/**
+ * Gwet's AC1 (nominal) and AC2 (weighted) agreement coefficients
+ *
+ * AC = (pa - pe) / (1 - pe),  pe = Tw / (q(q-1)) · Σ πk(1 - πk)
+ *
+ * Unlike Cohen's and Fleiss' kappa, chance agreement shrinks when one
+ * category dominates, so high raw agreement is not punished by a skewed
+ * code distribution (the "kappa paradox").
+ *
+ * Works with any number of raters and missing ratings.
+ *
+ * Reference: Gwet, K. L. (2008). Computing inter-rater reliability and its
+ * variance in the presence of high agreement. British Journal of
+ * Mathematical and Statistical Psychology, 61, 29-48.
+ */
+export class GwetAC {
+  /**
+   * AC1 without weighting, AC2 with linear or quadratic weights
+   */
+  calculate(
+    ratings: CoderRatings[],
+    weighting: KappaWeighting | null = null,
+    scale: CategoryScale = {}
+  ): GwetACResult {
+    return this.calculateFromMatrix(buildUnitMatrix(ratings), weighting, scale)
+  }
+
+  /**
+   * Coefficient for a units x raters matrix, null = unit not rated by that rater
+   */
+  calculateFromMatrix(
+    matrix: (string | null)[][],
+    weighting: KappaWeighting | null = null,
+    scale: CategoryScale = {}
+  ): GwetACResult {
+    return calculateChanceCorrected(matrix, 'gwet', weighting, scale)
+  }
+}
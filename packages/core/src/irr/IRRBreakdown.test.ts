@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import type { CoderRatings, Coding } from '../types'
+import { NO_CODE } from './CohensKappa'
+import { calculateIRRBreakdown, OTHER_CODES, type ReliabilityUnit } from './IRRBreakdown'
+
+/**
+ * Six units of ten characters, four in "d1" and two in "d2". Per unit:
+ *
+ *   unit   d1/0  d1/1  d1/2  d1/3  d2/0  d2/1
+ *   a      x     x     y     y     x     -
+ *   b      x     y     y     y     x     x
+ *   c      x     x     y     y     x     -     (same as a)
+ */
+const UNITS: ReliabilityUnit[] = [
+  ...[0, 1, 2, 3].map(i => ({ documentId: 'd1', startOffset: i * 10, endOffset: i * 10 + 10 })),
+  ...[0, 1].map(i => ({ documentId: 'd2', startOffset: i * 10, endOffset: i * 10 + 10 })),
+]
+
+function rater(coderId: string, codes: (string | null)[]): CoderRatings {
+  const codings: Coding[] = []
+  codes.forEach((codeId, u) => {
+    if (!codeId) return
+    codings.push({
+      id: `${coderId}-${u}`,
+      documentId: UNITS[u].documentId,
+      codeId,
+      codeName: codeId,
+      startOffset: UNITS[u].startOffset,
+      endOffset: UNITS[u].endOffset,
+      selectedText: '',
+      codedBy: coderId,
+      createdAt: '2026-01-01T00:00:00.000Z',
+    })
+  })
+  return { coderId, coderName: coderId, documentId: 'd1', codings }
+}
+
+const A = rater('a', ['x', 'x', 'y', 'y', 'x', null])
+const B = rater('b', ['x', 'y', 'y', 'y', 'x', 'x'])
+const C = rater('c', ['x', 'x', 'y', 'y', 'x', null])
+
+describe('calculateIRRBreakdown', () => {
+  const breakdown = calculateIRRBreakdown([A, B], { units: UNITS })
+  const entry = (entries: typeof breakdown.byCode, key: string) => entries.find(e => e.key === key)!
+
+  it('uses Cohen\'s Kappa for two coders over all units', () => {
+    expect(breakdown.metric).toBe('cohens-kappa')
+    // Po = 4/6, Pe = 3/6·3/6 + 2/6·3/6 = 15/36
+    expect(breakdown.overall.value).toBeCloseTo(3 / 7, 10)
+    expect(breakdown.overall.unitCount).toBe(6)
+  })
+
+  it('compares each code one-vs-rest', () => {
+    expect(breakdown.byCode.map(e => e.key).sort()).toEqual(['x', 'y'])
+
+    // x: 2 both, 1 only a, 1 only b, 2 neither; Po = 4/6, Pe = 1/2
+    const x = entry(breakdown.byCode, 'x')
+    expect(x.value).toBeCloseTo(1 / 3, 10)
+    expect(x.unitCount).toBe(6)
+    expect(x.categories).toEqual(['x', OTHER_CODES, NO_CODE])
+    expect(x.confusionMatrix).toEqual([
+      [2, 1, 0],
+      [1, 2, 0],
+      [0, 0, 0],
+    ])
+
+    // y: 2 both, 1 only b, 3 neither; Po = 5/6, Pe = 2/6·3/6 + 4/6·3/6 = 1/2
+    const y = entry(breakdown.byCode, 'y')
+    expect(y.value).toBeCloseTo(2 / 3, 10)
+    expect(y.categories).toEqual(['y', OTHER_CODES, NO_CODE])
+    expect(y.confusionMatrix).toEqual([
+      [2, 0, 0],
+      [1, 3, 0],
+      [0, 0, 0],
+    ])
+  })
+
+  it('restricts each document row to the document\'s units', () => {
+    expect(breakdown.byDocument.map(e => e.key)).toEqual(['d1', 'd2'])
+
+    // Po = 3/4, Pe = 2/4·1/4 + 2/4·3/4 = 1/2
+    const d1 = entry(breakdown.byDocument, 'd1')
+    expect(d1.value).toBeCloseTo(0.5, 10)
+    expect(d1.unitCount).toBe(4)
+    expect(d1.categories).toEqual(['x', 'y', NO_CODE])
+    expect(d1.confusionMatrix).toEqual([
+      [1, 1, 0],
+      [0, 2, 0],
+      [0, 0, 0],
+    ])
+
+    // An uncoded unit disagrees: Po = 1/2, Pe = 1/2
+    const d2 = entry(breakdown.byDocument, 'd2')
+    expect(d2.value).toBeCloseTo(0, 10)
+    expect(d2.unitCount).toBe(2)
+    expect(d2.categories).toEqual(['x', NO_CODE])
+    expect(d2.confusionMatrix).toEqual([
+      [1, 0],
+      [1, 0],
+    ])
+  })
+
+  it('gives each coder pair its own confusion matrix', () => {
+    const result = calculateIRRBreakdown([A, B, C], { units: UNITS, metric: 'cohens-kappa' })
+    expect(result.byCoderPair.map(e => e.key)).toEqual(['a|b', 'a|c', 'b|c'])
+
+    const ab = entry(result.byCoderPair, 'a|b')
+    expect(ab.coders).toEqual(['a', 'b'])
+    expect(ab.value).toBeCloseTo(3 / 7, 10)
+    expect(ab.categories).toEqual(['x', 'y', NO_CODE])
+    // Rows: a, columns: b
+    expect(ab.confusionMatrix).toEqual([
+      [2, 1, 0],
+      [0, 2, 0],
+      [1, 0, 0],
+    ])
+
+    const ac = entry(result.byCoderPair, 'a|c')
+    expect(ac.value).toBe(1)
+    expect(ac.confusionMatrix).toEqual([
+      [3, 0, 0],
+      [0, 2, 0],
+      [0, 0, 1],
+    ])
+
+    // Rows: b, columns: c
+    const bc = entry(result.byCoderPair, 'b|c')
+    expect(bc.value).toBeCloseTo(3 / 7, 10)
+    expect(bc.confusionMatrix).toEqual([
+      [2, 0, 1],
+      [1, 2, 0],
+      [0, 0, 0],
+    ])
+
+    // Light's Kappa: the mean over the pairs
+    expect(result.overall.value).toBeCloseTo((3 / 7 + 1 + 3 / 7) / 3, 10)
+  })
+
+  it('needs at least two coders', () => {
+    expect(() => calculateIRRBreakdown([A], { units: UNITS })).toThrow('At least 2 coders')
+  })
+})
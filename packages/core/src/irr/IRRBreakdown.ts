@@ -0,0 +1,169 @@
+import type { CoderRatings, Coding, MeasurementLevel } from '../types'
+import type { CategoryScale } from './CategoryScale'
+import { CohensKappa } from './CohensKappa'
+import { KrippendorffAlpha } from './KrippendorffAlpha'
+
+export type BreakdownMetric = 'cohens-kappa' | 'krippendorff-alpha'
+
+export interface ReliabilityUnit {
+  documentId: string
+  startOffset: number
+  endOffset: number
+}
+
+export interface IRRBreakdownOptions {
+  /** Default: Cohen's Kappa for 2 coders, Krippendorff's Alpha otherwise */
+  metric?: BreakdownMetric
+  /** Coding units, e.g. fixed-size segments. Default: all distinct coded spans */
+  units?: ReliabilityUnit[]
+  level?: MeasurementLevel
+  categoryOrder?: string[]
+  categoryValues?: Record<string, number>
+}
+
+export interface IRRBreakdownEntry {
+  /** Code id, document id or "coderA|coderB" */
+  key: string
+  value: number
+  unitCount: number
+  /** Row/column labels of the confusion matrix (NO_CODE last) */
+  categories: string[]
+  /** Pooled over all coder pairs: rows = first coder, columns = second coder */
+  confusionMatrix: number[][]
+  coders?: [string, string]
+}
+
+export interface IRRBreakdown {
+  metric: BreakdownMetric
+  overall: IRRBreakdownEntry
+  byCode: IRRBreakdownEntry[]
+  byDocument: IRRBreakdownEntry[]
+  byCoderPair: IRRBreakdownEntry[]
+}
+
+/** Category for "any other code or none" in one-vs-rest comparisons */
+export const OTHER_CODES = '__OTHER__'
+
+/**
+ * Reliability broken down by code, document and coder pair
+ *
+ * - Per code: one-vs-rest, every unit is either coded with the code or not
+ * - Per document: the metric restricted to the document's units
+ * - Per coder pair: the metric for each pair of coders
+ *
+ * Cohen's Kappa with more than 2 coders is averaged over all pairs (Light, 1971).
+ * A coder's value for a unit is the first code whose span overlaps the unit.
+ */
+export function calculateIRRBreakdown(
+  ratings: CoderRatings[],
+  options: IRRBreakdownOptions = {}
+): IRRBreakdown {
+  if (ratings.length < 2) {
+    throw new Error('At least 2 coders required for IRR calculation')
+  }
+
+  const metric = options.metric || (ratings.length === 2 ? 'cohens-kappa' : 'krippendorff-alpha')
+  const units = options.units || getCodedUnits(ratings)
+  const matrix = units.map(unit => ratings.map(rater => codeForUnit(rater.codings, unit)))
+  const scale: CategoryScale = { order: options.categoryOrder, values: options.categoryValues }
+  const compute = (key: string, rows: (string | null)[][]) =>
+    computeEntry(key, rows, metric, options.level, scale)
+
+  const overall = compute('overall', matrix)
+
+  const codeIds = new Set<string>()
+  ratings.forEach(rater => rater.codings.forEach(c => codeIds.add(categoryOf(c))))
+  const byCode = Array.from(codeIds).map(codeId => {
+    // Present/absent, regardless of other codes overlapping the unit
+    const binary = units.map(unit =>
+      ratings.map(rater =>
+        rater.codings.some(c => categoryOf(c) === codeId && overlaps(c, unit)) ? codeId : OTHER_CODES
+      )
+    )
+    return computeEntry(codeId, binary, metric, 'nominal', { order: [codeId, OTHER_CODES] })
+  })
+
+  const documentIds = Array.from(new Set(units.map(unit => unit.documentId)))
+  const byDocument = documentIds.map(documentId =>
+    compute(documentId, matrix.filter((_, u) => units[u].documentId === documentId))
+  )
+
+  const byCoderPair: IRRBreakdownEntry[] = []
+  for (let i = 0; i < ratings.length; i++) {
+    for (let j = i + 1; j < ratings.length; j++) {
+      const entry = compute(
+        `${ratings[i].coderId}|${ratings[j].coderId}`,
+        matrix.map(row => [row[i], row[j]])
+      )
+      byCoderPair.push({ ...entry, coders: [ratings[i].coderId, ratings[j].coderId] })
+    }
+  }
+
+  return { metric, overall, byCode, byDocument, byCoderPair }
+}
+
+function computeEntry(
+  key: string,
+  rows: (string | null)[][],
+  metric: BreakdownMetric,
+  level: MeasurementLevel | undefined,
+  scale: CategoryScale
+): IRRBreakdownEntry {
+  const cohens = new CohensKappa()
+  const coderCount = rows[0]?.length ?? 0
+
+  // Pooled pairs of all coder combinations
+  const pairsByCoders: [string | null, string | null][][] = []
+  for (let i = 0; i < coderCount; i++) {
+    for (let j = i + 1; j < coderCount; j++) {
+      pairsByCoders.push(rows.map(row => [row[i], row[j]] as [string | null, string | null]))
+    }
+  }
+  const pooled = cohens.calculateFromPairs(pairsByCoders.flat(), false, scale)
+
+  let value: number
+  if (metric === 'cohens-kappa') {
+    const kappas = pairsByCoders.map(pairs => cohens.calculateFromPairs(pairs, false, scale).kappa)
+    value = kappas.length > 0 ? kappas.reduce((a, b) => a + b, 0) / kappas.length : 1
+  } else {
+    value = new KrippendorffAlpha().calculateFromMatrix(rows, level, scale).alpha
+  }
+
+  return {
+    key,
+    value,
+    unitCount: rows.length,
+    categories: pooled.categories,
+    confusionMatrix: pooled.confusionMatrix,
+  }
+}
+
+function getCodedUnits(ratings: CoderRatings[]): ReliabilityUnit[] {
+  const units = new Map<string, ReliabilityUnit>()
+  for (const rater of ratings) {
+    for (const c of rater.codings) {
+      const key = `${c.documentId}-${c.startOffset}-${c.endOffset}`
+      if (!units.has(key)) {
+        units.set(key, { documentId: c.documentId, startOffset: c.startOffset, endOffset: c.endOffset })
+      }
+    }
+  }
+  return Array.from(units.values())
+}
+
+function codeForUnit(codings: Coding[], unit: ReliabilityUnit): string | null {
+  const coding = codings.find(c => overlaps(c, unit))
+  return coding ? categoryOf(coding) : null
+}
+
+function overlaps(coding: Coding, unit: ReliabilityUnit): boolean {
+  return (
+    coding.documentId === unit.documentId &&
+    coding.startOffset < unit.endOffset &&
+    unit.startOffset < coding.endOffset
+  )
+}
+
+function categoryOf(coding: Coding): string {
+  return coding.codeId || coding.codeName
+}
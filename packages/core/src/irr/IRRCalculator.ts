@@ -1,8 +1,12 @@
-import type { IRRResult, IRRMetric, IRROptions, CoderRatings } from '../types'
+import type { IRRResult, IRRMetric, IRROptions, CoderRatings, Coding } from '../types'
+import { bootstrapStatistic } from './Bootstrap'
 import { CohensKappa } from './CohensKappa'
 import { FleissKappa } from './FleissKappa'
+import { GwetAC } from './GwetAC'
 import { KrippendorffAlpha } from './KrippendorffAlpha'
 import { PercentAgreement } from './PercentAgreement'
+import { ScottsPi } from './ScottsPi'
+import { UnitizingAlpha } from './UnitizingAlpha'
 
 export interface IRRCalculator {
   calculate(ratings: CoderRatings[], options: IRROptions): IRRResult
@@ -18,6 +22,9 @@ export interface IRRCalculator {
  * - Fleiss' Kappa: For 3+ coders
  * - Krippendorff's Alpha: For any number of coders, handles missing data
  * - Percent Agreement: Simple but useful baseline
+ * - Unitizing Alpha (uα): For free spans, compares span boundaries on the text continuum
+ * - Gwet's AC1/AC2: Robust against skewed code distributions (kappa paradox)
+ * - Scott's Pi: Pooled chance agreement, for comparison with kappa and AC1
  */
 export function calculateIRR(
   ratings: CoderRatings[],
@@ -28,9 +35,49 @@ export function calculateIRR(
   }
 
   const metric = options.metric || getRecommendedMetric(ratings.length)
+  const { value, details } = computeMetric(ratings, metric, options)
 
+  const result: IRRResult = {
+    metric,
+    value,
+    interpretation: interpretResult(value, metric),
+    details,
+  }
+
+  if (options.bootstrapCI) {
+    // Unitizing needs whole continua, so documents are resampled instead of units
+    const byDocument = metric === 'unitizing-alpha'
+    const keyOf = byDocument ? (coding: Coding) => coding.documentId : unitKey
+
+    result.confidenceInterval = bootstrapStatistic(
+      getUnitKeys(ratings, keyOf),
+      sample => {
+        const resampled = resampleRatings(ratings, sample, keyOf)
+        const resampledOptions = byDocument
+          ? { ...options, continuumLengths: resampleLengths(options.continuumLengths, sample) }
+          : options
+        return computeMetric(resampled, metric, resampledOptions).value
+      },
+      {
+        samples: options.bootstrapSamples,
+        seed: options.bootstrapSeed,
+        confidenceLevel: options.confidenceLevel,
+        threshold: options.bootstrapThreshold,
+      }
+    )
+  }
+
+  return result
+}
+
+function computeMetric(
+  ratings: CoderRatings[],
+  metric: IRRMetric,
+  options: IRROptions
+): Pick<IRRResult, 'value' | 'details'> {
   let value: number
   let details: IRRResult['details']
+  const scale = { order: options.categoryOrder, values: options.categoryValues }
 
   switch (metric) {
     case 'cohens-kappa':
@@ -38,7 +85,7 @@ export function calculateIRR(
         throw new Error("Cohen's Kappa requires exactly 2 coders")
       }
       const cohens = new CohensKappa()
-      const cohensResult = cohens.calculate(ratings[0], ratings[1], options.weightedKappa)
+      const cohensResult = cohens.calculate(ratings[0], ratings[1], options.weightedKappa, scale)
       value = cohensResult.kappa
       details = {
         observedAgreement: cohensResult.observedAgreement,
@@ -46,6 +93,9 @@ export function calculateIRR(
         coderCount: 2,
         categoryCount: cohensResult.categoryCount,
         unitCount: cohensResult.unitCount,
+        weighting: options.weightedKappa === true ? 'linear' : options.weightedKappa || undefined,
+        categories: cohensResult.categories,
+        confusionMatrix: cohensResult.confusionMatrix,
       }
       break
 
@@ -64,12 +114,13 @@ export function calculateIRR(
 
     case 'krippendorff-alpha':
       const krippendorff = new KrippendorffAlpha()
-      const alphaResult = krippendorff.calculate(ratings)
+      const alphaResult = krippendorff.calculate(ratings, options.level, scale)
       value = alphaResult.alpha
       details = {
         coderCount: ratings.length,
         categoryCount: alphaResult.categoryCount,
         unitCount: alphaResult.unitCount,
+        level: options.level || 'nominal',
       }
       break
 
@@ -85,16 +136,115 @@ export function calculateIRR(
       }
       break
 
+    case 'unitizing-alpha':
+      const unitizing = new UnitizingAlpha()
+      const unitizingResult = unitizing.calculate(ratings, {
+        continuumLengths: options.continuumLengths,
+        tolerance: options.overlapTolerance,
+      })
+      value = unitizingResult.uAlpha
+      details = {
+        coderCount: ratings.length,
+        categoryCount: unitizingResult.categoryCount,
+        unitCount: unitizingResult.unitCount,
+      }
+      break
+
+    case 'gwet-ac1':
+    case 'gwet-ac2':
+      const weighting = metric === 'gwet-ac2'
+        ? (options.weightedKappa === true ? 'linear' : options.weightedKappa || 'quadratic')
+        : null
+      const gwetResult = new GwetAC().calculate(ratings, weighting, scale)
+      value = gwetResult.coefficient
+      details = {
+        observedAgreement: gwetResult.observedAgreement,
+        expectedAgreement: gwetResult.expectedAgreement,
+        coderCount: ratings.length,
+        categoryCount: gwetResult.categoryCount,
+        unitCount: gwetResult.unitCount,
+        weighting: weighting || undefined,
+        standardError: gwetResult.standardError,
+      }
+      break
+
+    case 'scotts-pi':
+      const piWeighting = options.weightedKappa === true ? 'linear' : options.weightedKappa || null
+      const piResult = new ScottsPi().calculate(ratings, piWeighting, scale)
+      value = piResult.coefficient
+      details = {
+        observedAgreement: piResult.observedAgreement,
+        expectedAgreement: piResult.expectedAgreement,
+        coderCount: ratings.length,
+        categoryCount: piResult.categoryCount,
+        unitCount: piResult.unitCount,
+        weighting: piWeighting || undefined,
+        standardError: piResult.standardError,
+      }
+      break
+
     default:
       throw new Error(`Unknown IRR metric: ${metric}`)
   }
 
-  return {
-    metric,
-    value,
-    interpretation: interpretResult(value, metric),
-    details,
+  return { value, details }
+}
+
+function unitKey(coding: Coding): string {
+  return `${coding.documentId}-${coding.startOffset}-${coding.endOffset}`
+}
+
+function getUnitKeys(ratings: CoderRatings[], keyOf: (coding: Coding) => string): string[] {
+  const keys = new Set<string>()
+  for (const rater of ratings) {
+    for (const coding of rater.codings) {
+      keys.add(keyOf(coding))
+    }
   }
+  return Array.from(keys)
+}
+
+/**
+ * Build a bootstrap replicate: every drawn unit becomes its own unit,
+ * so units drawn more than once are counted more than once.
+ */
+function resampleRatings(
+  ratings: CoderRatings[],
+  sample: string[],
+  keyOf: (coding: Coding) => string
+): CoderRatings[] {
+  return ratings.map(rater => {
+    const byUnit = new Map<string, Coding[]>()
+    for (const coding of rater.codings) {
+      const key = keyOf(coding)
+      if (!byUnit.has(key)) byUnit.set(key, [])
+      byUnit.get(key)!.push(coding)
+    }
+
+    const codings: Coding[] = []
+    sample.forEach((key, draw) => {
+      for (const coding of byUnit.get(key) || []) {
+        codings.push({ ...coding, documentId: `${coding.documentId}#${draw}` })
+      }
+    })
+
+    return { ...rater, codings }
+  })
+}
+
+/**
+ * Continuum lengths for a replicate drawn by document (see resampleRatings)
+ */
+function resampleLengths(
+  lengths: Record<string, number> | undefined,
+  sample: string[]
+): Record<string, number> | undefined {
+  if (!lengths) return undefined
+  const resampled: Record<string, number> = {}
+  sample.forEach((documentId, draw) => {
+    if (lengths[documentId] !== undefined) resampled[`${documentId}#${draw}`] = lengths[documentId]
+  })
+  return resampled
 }
 
 function getRecommendedMetric(coderCount: number): IRRMetric {
@@ -105,6 +255,10 @@ function getRecommendedMetric(coderCount: number): IRRMetric {
 }
 
 function interpretResult(value: number, metric: IRRMetric): string {
+  if (metric === 'gwet-ac1' || metric === 'gwet-ac2') {
+    return interpretGwet(value)
+  }
+
   // Landis & Koch (1977) interpretation scale
   if (value < 0) {
     return 'Keine Übereinstimmung (Poor)'
@@ -123,3 +277,22 @@ function interpretResult(value: number, metric: IRRMetric): string {
   }
   return 'Fast perfekte Übereinstimmung (Almost Perfect)'
 }
+
+/**
+ * Altman (1991) benchmark scale, as recommended by Gwet (2014) for AC1/AC2
+ */
+function interpretGwet(value: number): string {
+  if (value < 0.21) {
+    return 'Schwache Übereinstimmung (Poor)'
+  }
+  if (value < 0.41) {
+    return 'Ausreichende Übereinstimmung (Fair)'
+  }
+  if (value < 0.61) {
+    return 'Moderate Übereinstimmung (Moderate)'
+  }
+  if (value < 0.81) {
+    return 'Gute Übereinstimmung (Good)'
+  }
+  return 'Sehr gute Übereinstimmung (Very Good)'
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { KrippendorffAlpha } from './KrippendorffAlpha'
+
+/**
+ * Reference data: Krippendorff (2011), Computing Krippendorff's
+ * Alpha-Reliability, example C - 4 observers, 12 units, missing values
+ */
+const _ = null
+const RELIABILITY_DATA: (string | null)[][] = [
+  ['1', '1', _, '1'],
+  ['2', '2', '3', '2'],
+  ['3', '3', '3', '3'],
+  ['3', '3', '3', '3'],
+  ['2', '2', '2', '2'],
+  ['1', '2', '3', '4'],
+  ['4', '4', '4', '4'],
+  ['1', '1', '2', '1'],
+  ['2', '2', '2', '2'],
+  [_, '5', '5', '5'],
+  [_, _, '1', '1'],
+  [_, '3', _, _],
+]
+
+describe('KrippendorffAlpha', () => {
+  const alpha = new KrippendorffAlpha()
+
+  it.each([
+    ['nominal', 0.743],
+    ['ordinal', 0.815],
+    ['interval', 0.849],
+    ['ratio', 0.797],
+  ] as const)('matches the published %s alpha', (level, expected) => {
+    expect(alpha.calculateFromMatrix(RELIABILITY_DATA, level).alpha).toBeCloseTo(expected, 3)
+  })
+
+  it('skips units with a single value', () => {
+    const result = alpha.calculateFromMatrix(RELIABILITY_DATA, 'nominal')
+    expect(result.pairableValues).toBe(40)
+    expect(result.unitCount).toBe(12)
+  })
+
+  it('is 1 for perfect agreement', () => {
+    expect(alpha.calculateFromMatrix([['a', 'a'], ['b', 'b'], ['a', 'a']]).alpha).toBe(1)
+  })
+})
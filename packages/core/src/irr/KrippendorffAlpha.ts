@@ -1,9 +1,11 @@
-import type { CoderRatings, Coding } from '../types'
+import type { CoderRatings, MeasurementLevel } from '../types'
+import { resolveCategoryValues, type CategoryScale } from './CategoryScale'
 
 export interface KrippendorffAlphaResult {
   alpha: number
   categoryCount: number
   unitCount: number
+  pairableValues: number
   observedDisagreement: number
   expectedDisagreement: number
 }
@@ -14,41 +16,67 @@ export interface KrippendorffAlphaResult {
  * α = 1 - Do/De
  *
  * Where:
- * - Do = observed disagreement
- * - De = expected disagreement
+ * - Do = observed disagreement (from the coincidence matrix)
+ * - De = expected disagreement (from the pairable value frequencies)
  *
  * Advantages:
  * - Works with any number of raters
  * - Handles missing data
  * - Works with nominal, ordinal, interval, and ratio data
  * - More robust than other measures
+ *
+ * Reference: Krippendorff, K. (2011). Computing Krippendorff's Alpha-Reliability.
  */
 export class KrippendorffAlpha {
   calculate(
     ratings: CoderRatings[],
-    level: 'nominal' | 'ordinal' | 'interval' | 'ratio' = 'nominal'
+    level: MeasurementLevel = 'nominal',
+    scale: CategoryScale = {}
   ): KrippendorffAlphaResult {
     // Build reliability data matrix
-    const { units, categories, matrix } = this.buildDataMatrix(ratings)
+    const matrix = this.buildDataMatrix(ratings)
+    return this.calculateFromMatrix(matrix, level, scale)
+  }
+
+  /**
+   * Alpha for a reliability data matrix (units x raters, null = missing value).
+   * Optional weights count a row several times, e.g. run-lengths of characters.
+   */
+  calculateFromMatrix(
+    matrix: (string | null)[][],
+    level: MeasurementLevel = 'nominal',
+    scale: CategoryScale = {},
+    weights?: number[]
+  ): KrippendorffAlphaResult {
+    const { categories, coincidences } = this.buildCoincidenceMatrix(matrix, weights)
 
-    const N = units.length
     const k = categories.length
+    const marginals = coincidences.map(row => row.reduce((a, b) => a + b, 0))
+    const n = marginals.reduce((a, b) => a + b, 0)
 
-    if (N === 0) {
+    if (n < 2) {
       return {
         alpha: 1,
         categoryCount: k,
-        unitCount: 0,
+        unitCount: matrix.length,
+        pairableValues: n,
         observedDisagreement: 0,
         expectedDisagreement: 0,
       }
     }
 
-    // Calculate observed disagreement
-    const Do = this.calculateObservedDisagreement(matrix, categories, level)
+    const delta = this.buildDistanceMatrix(categories, marginals, level, scale)
 
-    // Calculate expected disagreement
-    const De = this.calculateExpectedDisagreement(matrix, categories, level)
+    let Do = 0
+    let De = 0
+    for (let c = 0; c < k; c++) {
+      for (let d = 0; d < k; d++) {
+        Do += coincidences[c][d] * delta[c][d]
+        De += marginals[c] * marginals[d] * delta[c][d]
+      }
+    }
+    Do /= n
+    De /= n * (n - 1)
 
     // Calculate alpha
     const alpha = De === 0 ? 1 : 1 - Do / De
@@ -56,157 +84,132 @@ export class KrippendorffAlpha {
     return {
       alpha,
       categoryCount: k,
-      unitCount: N,
+      unitCount: matrix.length,
+      pairableValues: n,
       observedDisagreement: Do,
       expectedDisagreement: De,
     }
   }
 
-  private buildDataMatrix(ratings: CoderRatings[]): {
-    units: string[]
-    categories: string[]
-    matrix: (string | null)[][]
-  } {
+  private buildDataMatrix(ratings: CoderRatings[]): (string | null)[][] {
     // Get all units
-    const unitSet = new Set<string>()
-    const categorySet = new Set<string>()
+    const unitIndex = new Map<string, number>()
 
     for (const rater of ratings) {
       for (const coding of rater.codings) {
         const unitKey = `${coding.documentId}-${coding.startOffset}-${coding.endOffset}`
-        unitSet.add(unitKey)
-        categorySet.add(coding.codeId || coding.codeName)
+        if (!unitIndex.has(unitKey)) unitIndex.set(unitKey, unitIndex.size)
       }
     }
 
-    const units = Array.from(unitSet)
-    const categories = Array.from(categorySet)
-
     // Build matrix: units x raters
-    const matrix: (string | null)[][] = units.map(() =>
+    const matrix: (string | null)[][] = Array.from({ length: unitIndex.size }, () =>
       Array(ratings.length).fill(null)
     )
 
     for (let r = 0; r < ratings.length; r++) {
       for (const coding of ratings[r].codings) {
         const unitKey = `${coding.documentId}-${coding.startOffset}-${coding.endOffset}`
-        const unitIdx = units.indexOf(unitKey)
-        if (unitIdx >= 0) {
-          matrix[unitIdx][r] = coding.codeId || coding.codeName
-        }
+        matrix[unitIndex.get(unitKey)!][r] = coding.codeId || coding.codeName
       }
     }
 
-    return { units, categories, matrix }
+    return matrix
   }
 
-  private calculateObservedDisagreement(
-    matrix: (string | null)[][],
-    categories: string[],
-    level: string
-  ): number {
-    const n = matrix.length // Number of units
-    let totalDisagreement = 0
-    let totalPairs = 0
+  /**
+   * o_ck = Σ_u (number of c-k pairs in unit u) / (m_u - 1)
+   * Units with fewer than 2 values are not pairable and are skipped.
+   */
+  private buildCoincidenceMatrix(matrix: (string | null)[][], weights?: number[]): {
+    categories: string[]
+    coincidences: number[][]
+  } {
+    const categoryIndex = new Map<string, number>()
+    const unitCounts: { counts: Map<number, number>; weight: number }[] = []
 
-    for (let u = 0; u < n; u++) {
+    for (let u = 0; u < matrix.length; u++) {
       const values = matrix[u].filter((v): v is string => v !== null)
-      const m_u = values.length // Number of raters for this unit
-
-      if (m_u < 2) continue
-
-      // Compare all pairs within unit
-      for (let i = 0; i < values.length; i++) {
-        for (let j = i + 1; j < values.length; j++) {
-          const disagreement = this.getDisagreement(
-            values[i],
-            values[j],
-            categories,
-            level
-          )
-          totalDisagreement += disagreement
-          totalPairs++
-        }
-      }
-    }
-
-    return totalPairs > 0 ? totalDisagreement / totalPairs : 0
-  }
+      if (values.length < 2) continue
 
-  private calculateExpectedDisagreement(
-    matrix: (string | null)[][],
-    categories: string[],
-    level: string
-  ): number {
-    // Count frequency of each category across all ratings
-    const frequency = new Map<string, number>()
-    let total = 0
-
-    for (const row of matrix) {
-      for (const value of row) {
-        if (value !== null) {
-          frequency.set(value, (frequency.get(value) || 0) + 1)
-          total++
-        }
+      const counts = new Map<number, number>()
+      for (const value of values) {
+        if (!categoryIndex.has(value)) categoryIndex.set(value, categoryIndex.size)
+        const idx = categoryIndex.get(value)!
+        counts.set(idx, (counts.get(idx) || 0) + 1)
       }
+      unitCounts.push({ counts, weight: weights?.[u] ?? 1 })
     }
 
-    if (total < 2) return 0
+    const k = categoryIndex.size
+    const coincidences: number[][] = Array.from({ length: k }, () => Array(k).fill(0))
 
-    // Expected disagreement based on marginal frequencies
-    let expectedDisagreement = 0
-    const cats = Array.from(frequency.keys())
+    for (const { counts, weight } of unitCounts) {
+      let m_u = 0
+      counts.forEach(count => (m_u += count))
 
-    for (let i = 0; i < cats.length; i++) {
-      for (let j = i + 1; j < cats.length; j++) {
-        const f_i = frequency.get(cats[i]) || 0
-        const f_j = frequency.get(cats[j]) || 0
-        const disagreement = this.getDisagreement(cats[i], cats[j], categories, level)
-
-        expectedDisagreement += (f_i * f_j * disagreement) / (total * (total - 1) / 2)
-      }
+      counts.forEach((n_c, c) => {
+        counts.forEach((n_d, d) => {
+          coincidences[c][d] += (weight * n_c * (c === d ? n_d - 1 : n_d)) / (m_u - 1)
+        })
+      })
     }
 
-    return expectedDisagreement
+    return { categories: Array.from(categoryIndex.keys()), coincidences }
   }
 
-  private getDisagreement(
-    c1: string,
-    c2: string,
+  /**
+   * Squared difference function δ²(c, k) for the given level of measurement
+   */
+  private buildDistanceMatrix(
     categories: string[],
-    level: string
-  ): number {
-    if (c1 === c2) return 0
-
-    switch (level) {
-      case 'nominal':
-        // Binary: different = 1, same = 0
-        return 1
-
-      case 'ordinal': {
-        // Distance based on rank
-        const idx1 = categories.indexOf(c1)
-        const idx2 = categories.indexOf(c2)
-        // Sum of ranks between the two values
-        const low = Math.min(idx1, idx2)
-        const high = Math.max(idx1, idx2)
-        let sum = 0
-        for (let i = low; i <= high; i++) {
-          sum += 1 // Each rank counts
+    marginals: number[],
+    level: MeasurementLevel,
+    scale: CategoryScale
+  ): number[][] {
+    const k = categories.length
+    const values = resolveCategoryValues(categories, scale)
+    const delta: number[][] = Array.from({ length: k }, () => Array(k).fill(0))
+
+    // Ordinal distances accumulate the frequencies of all ranks in between
+    const rankOrder = categories.map((_, i) => i).sort((a, b) => values[a] - values[b])
+    const rank = new Array<number>(k)
+    rankOrder.forEach((catIdx, r) => (rank[catIdx] = r))
+
+    for (let c = 0; c < k; c++) {
+      for (let d = 0; d < k; d++) {
+        if (c === d) continue
+
+        switch (level) {
+          case 'nominal':
+            delta[c][d] = 1
+            break
+
+          case 'ordinal': {
+            const low = Math.min(rank[c], rank[d])
+            const high = Math.max(rank[c], rank[d])
+            let sum = 0
+            for (let r = low; r <= high; r++) {
+              sum += marginals[rankOrder[r]]
+            }
+            sum -= (marginals[c] + marginals[d]) / 2
+            delta[c][d] = sum * sum
+            break
+          }
+
+          case 'interval':
+            delta[c][d] = (values[c] - values[d]) ** 2
+            break
+
+          case 'ratio': {
+            const total = values[c] + values[d]
+            delta[c][d] = total === 0 ? 0 : ((values[c] - values[d]) / total) ** 2
+            break
+          }
         }
-        return sum * sum - 1
       }
-
-      case 'interval':
-      case 'ratio': {
-        // Squared difference (assumes categories are numeric)
-        const v1 = parseFloat(c1) || categories.indexOf(c1)
-        const v2 = parseFloat(c2) || categories.indexOf(c2)
-        return (v1 - v2) * (v1 - v2)
-      }
-
-      default:
-        return 1
     }
+
+    return delta
   }
 }
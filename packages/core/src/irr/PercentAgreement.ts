@@ -1,4 +1,4 @@
-import type { CoderRatings, Coding } from '../types'
+import type { CoderRatings } from '../types'
 
 export interface PercentAgreementResult {
   agreement: number
@@ -0,0 +1,38 @@
+import type { CoderRatings, KappaWeighting } from '../types'
+import type { CategoryScale } from './CategoryScale'
+import { buildUnitMatrix, calculateChanceCorrected, type ChanceCorrectedResult } from './ChanceAgreement'
+
+export type ScottsPiResult = ChanceCorrectedResult
+
+/**
+ * Scott's Pi for inter-rater reliability
+ *
+ * π = (Po - Pe) / (1 - Pe),  Pe = Σ πk²
+ *
+ * Like Cohen's Kappa, but chance agreement uses the pooled category
+ * distribution of both raters. With more than 2 raters this is the
+ * generalization of Fleiss (1971), extended to missing ratings (Gwet, 2014).
+ *
+ * Reference: Scott, W. A. (1955). Reliability of content analysis: The case
+ * of nominal scale coding. Public Opinion Quarterly, 19(3), 321-325.
+ */
+export class ScottsPi {
+  calculate(
+    ratings: CoderRatings[],
+    weighting: KappaWeighting | null = null,
+    scale: CategoryScale = {}
+  ): ScottsPiResult {
+    return this.calculateFromMatrix(buildUnitMatrix(ratings), weighting, scale)
+  }
+
+  /**
+   * Pi for a units x raters matrix, null = unit not rated by that rater
+   */
+  calculateFromMatrix(
+    matrix: (string | null)[][],
+    weighting: KappaWeighting | null = null,
+    scale: CategoryScale = {}
+  ): ScottsPiResult {
+    return calculateChanceCorrected(matrix, 'scott', weighting, scale)
+  }
+}
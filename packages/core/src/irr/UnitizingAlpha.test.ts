@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import type { CoderRatings, Coding } from '../types'
+import { KrippendorffAlpha } from './KrippendorffAlpha'
+import { UnitizingAlpha } from './UnitizingAlpha'
+
+function coding(coder: string, codeId: string, startOffset: number, endOffset: number, documentId = 'doc'): Coding {
+  return {
+    id: `${coder}-${codeId}-${startOffset}`,
+    documentId,
+    codeId,
+    codeName: codeId,
+    startOffset,
+    endOffset,
+    selectedText: '',
+    codedBy: coder,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+function rater(coderId: string, codings: Coding[]): CoderRatings {
+  return { coderId, coderName: coderId, documentId: 'doc', codings }
+}
+
+/**
+ * cuα the slow way: one value per coder and character, innermost code wins
+ */
+function characterwiseCodingAlpha(ratings: CoderRatings[], length: number): number {
+  const valuesAt = ratings.map(r => {
+    const values: (string | null)[] = new Array(length).fill(null)
+    ;[...r.codings]
+      .sort((a, b) => (b.endOffset - b.startOffset) - (a.endOffset - a.startOffset))
+      .forEach(c => values.fill(c.codeId, c.startOffset, c.endOffset))
+    return values
+  })
+  const rows: (string | null)[][] = []
+  for (let position = 0; position < length; position++) {
+    const values = valuesAt.map(v => v[position])
+    if (values.filter(v => v !== null).length >= 2) rows.push(values)
+  }
+  return new KrippendorffAlpha().calculateFromMatrix(rows, 'nominal').alpha
+}
+
+describe('UnitizingAlpha', () => {
+  const unitizing = new UnitizingAlpha()
+
+  it('is 1 for identical units', () => {
+    const codings = [coding('a', 'x', 10, 20), coding('a', 'y', 40, 55)]
+    const result = unitizing.calculate(
+      [rater('a', codings), rater('b', codings.map(c => ({ ...c, codedBy: 'b' })))],
+      { continuumLengths: { doc: 100 } }
+    )
+    expect(result.uAlpha).toBe(1)
+    expect(result.binaryAlpha).toBe(1)
+    expect(result.cuAlpha).toBe(1)
+    expect(result.overlapLength).toBe(25)
+  })
+
+  it('matches a hand-computed uα for shifted boundaries', () => {
+    // L = 10, a: [2, 6), b: [3, 6)
+    // uDo = 2 · 1² / (2 · 1 · 10²) = 0.01
+    // uDe = 2/20 · (28 + 32 + 10 + 45) / (20 · 19 - 12 - 6) = 11.5 / 362
+    const result = unitizing.calculate(
+      [rater('a', [coding('a', 'x', 2, 6)]), rater('b', [coding('b', 'x', 3, 6)])],
+      { continuumLengths: { doc: 10 } }
+    )
+    expect(result.uAlpha).toBeCloseTo(1 - 3.62 / 11.5, 12)
+    expect(result.binaryAlpha).toBeCloseTo(1 - 3.62 / 11.5, 12)
+    expect(result.categoryAlphas.get('x')).toBeCloseTo(1 - 3.62 / 11.5, 12)
+  })
+
+  it('separates uα from |uα| when coders agree on units but not on codes', () => {
+    // L = 10, a codes [2, 6) as x, b the same span as y. Per code:
+    // uDo = 2 · 4² / (2 · 1 · 10²) = 0.16
+    // uDe = 2/20 · 4² · (1 + 7) / (20 · 19 - 12) = 12.8 / 368
+    const result = unitizing.calculate(
+      [rater('a', [coding('a', 'x', 2, 6)]), rater('b', [coding('b', 'y', 2, 6)])],
+      { continuumLengths: { doc: 10 } }
+    )
+    expect(result.categoryAlphas.get('x')).toBeCloseTo(1 - (0.16 * 368) / 12.8, 12)
+    expect(result.categoryAlphas.get('y')).toBeCloseTo(1 - (0.16 * 368) / 12.8, 12)
+    expect(result.uAlpha).toBeCloseTo(-3.6, 12)
+    expect(result.binaryAlpha).toBe(1)
+  })
+
+  it('computes cuα over overlapping characters like a per-character count', () => {
+    const ratings = [
+      rater('a', [coding('a', 'x', 0, 30), coding('a', 'y', 10, 15), coding('a', 'x', 50, 70)]),
+      rater('b', [coding('b', 'x', 5, 25), coding('b', 'z', 52, 80)]),
+      rater('c', [coding('c', 'y', 8, 40), coding('c', 'x', 60, 65)]),
+    ]
+    const result = unitizing.calculate(ratings, { continuumLengths: { doc: 100 } })
+
+    expect(result.cuAlpha).toBeCloseTo(characterwiseCodingAlpha(ratings, 100), 12)
+    // Two or more coders on 5-30 and 52-70
+    expect(result.overlapLength).toBe(25 + 18)
+  })
+
+  it('does not walk long continua character by character', () => {
+    const length = 50_000_000
+    const ratings = [
+      rater('a', [coding('a', 'x', 1_000, 2_000_000), coding('a', 'y', 30_000_000, 40_000_000)]),
+      rater('b', [coding('b', 'x', 1_500, 2_100_000), coding('b', 'x', 30_000_000, 40_000_000)]),
+    ]
+    const started = Date.now()
+    const result = unitizing.calculate(ratings, { continuumLengths: { doc: length } })
+
+    expect(Date.now() - started).toBeLessThan(1_000)
+    expect(result.overlapLength).toBe(1_998_500 + 10_000_000)
+  })
+})
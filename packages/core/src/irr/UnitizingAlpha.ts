@@ -0,0 +1,349 @@
+import type { CoderRatings, Coding } from '../types'
+import { KrippendorffAlpha } from './KrippendorffAlpha'
+
+export interface UnitizingAlphaOptions {
+  /**
+   * Length of each continuum (document) in characters.
+   * Documents without an entry end at the last coded offset.
+   */
+  continuumLengths?: Record<string, number>
+  /** Boundaries of the same code closer than this many characters count as identical */
+  tolerance?: number
+}
+
+export interface UnitizingAlphaResult {
+  /** uα: units and their codes, all codes together */
+  uAlpha: number
+  /** |uα|: coded vs. uncoded, ignoring which code */
+  binaryAlpha: number
+  /** cuα: agreement on codes where coders' units overlap */
+  cuAlpha: number
+  /** (c|u)α per code: units of that code vs. everything else */
+  categoryAlphas: Map<string, number>
+  coderCount: number
+  categoryCount: number
+  unitCount: number
+  continuumLength: number
+  /** Characters coded by at least two coders (pairable values of cuα) */
+  overlapLength: number
+}
+
+/**
+ * Krippendorff's unitizing alpha family for free-span codings
+ *
+ * Every document is a continuum of characters. Each coder partitions it into
+ * units (coded spans) and gaps; disagreement is measured on span boundaries:
+ *
+ *   δ²(unit, unit) = (b_i - b_j)² + (e_i - e_j)²   for overlapping units
+ *   δ²(unit, gap)  = l_unit²                        when the gap contains the unit
+ *
+ * - (c|u)α: one code vs. the rest of the continuum
+ * - uα:     all codes, Do and De summed over codes
+ * - |uα|:   the union of all codes as a single binary variable
+ * - cuα:    nominal alpha over characters coded by 2+ coders (innermost code wins)
+ *
+ * References:
+ * Krippendorff, K. (2004). Content Analysis, 2nd ed., ch. 11.
+ * Krippendorff, K., Mathet, Y., Bouvry, S. & Milliat, A. (2016). On the
+ * reliability of unitizing textual continua. Quality & Quantity 50, 2347-2364.
+ */
+export class UnitizingAlpha {
+  calculate(ratings: CoderRatings[], options: UnitizingAlphaOptions = {}): UnitizingAlphaResult {
+    const m = ratings.length
+    const codings = this.alignBoundaries(ratings, options.tolerance ?? 0)
+    const continua = this.getContinua(ratings, options.continuumLengths)
+    const continuumLength = Array.from(continua.values()).reduce((a, b) => a + b, 0)
+
+    const categories = Array.from(
+      new Set(codings.flatMap(coderCodings => coderCodings.map(categoryOf)))
+    ).sort()
+
+    const categoryAlphas = new Map<string, number>()
+    let observedSum = 0
+    let expectedSum = 0
+
+    for (const category of categories) {
+      const sections = this.buildSections(codings, continua, c => categoryOf(c) === category)
+      const { observed, expected } = this.disagreements(sections, m, continuumLength)
+      categoryAlphas.set(category, alphaOf(observed, expected))
+      observedSum += observed
+      expectedSum += expected
+    }
+
+    const binarySections = this.buildSections(codings, continua, () => true)
+    const binary = this.disagreements(binarySections, m, continuumLength)
+    const { alpha: cuAlpha, overlapLength } = this.calculateCodingAlpha(codings, continua)
+
+    return {
+      uAlpha: alphaOf(observedSum, expectedSum),
+      binaryAlpha: alphaOf(binary.observed, binary.expected),
+      cuAlpha,
+      categoryAlphas,
+      coderCount: m,
+      categoryCount: categories.length,
+      unitCount: codings.reduce((sum, coderCodings) => sum + coderCodings.length, 0),
+      continuumLength,
+      overlapLength,
+    }
+  }
+
+  /**
+   * Snap start and end offsets of the same code that lie within the tolerance
+   * of each other (chained) to the median of their cluster.
+   */
+  private alignBoundaries(ratings: CoderRatings[], tolerance: number): Coding[][] {
+    const codings = ratings.map(rater =>
+      rater.codings
+        .filter(c => c.endOffset > c.startOffset)
+        .map(c => ({ ...c }))
+    )
+    if (tolerance <= 0) return codings
+
+    const groups = new Map<string, Coding[]>()
+    for (const coderCodings of codings) {
+      for (const coding of coderCodings) {
+        const key = `${coding.documentId}\u0000${categoryOf(coding)}`
+        if (!groups.has(key)) groups.set(key, [])
+        groups.get(key)!.push(coding)
+      }
+    }
+
+    groups.forEach(group => {
+      snapCluster(group, 'startOffset', tolerance)
+      snapCluster(group, 'endOffset', tolerance)
+    })
+
+    return codings.map(coderCodings => coderCodings.filter(c => c.endOffset > c.startOffset))
+  }
+
+  private getContinua(
+    ratings: CoderRatings[],
+    lengths: Record<string, number> = {}
+  ): Map<string, number> {
+    const continua = new Map<string, number>()
+    for (const rater of ratings) {
+      for (const coding of rater.codings) {
+        const current = continua.get(coding.documentId) ?? lengths[coding.documentId] ?? 0
+        continua.set(coding.documentId, Math.max(current, coding.endOffset))
+      }
+    }
+    return continua
+  }
+
+  /**
+   * Partition every continuum into units and gaps per coder. Overlapping
+   * codings of one coder are merged into a single unit.
+   */
+  private buildSections(
+    codings: Coding[][],
+    continua: Map<string, number>,
+    include: (coding: Coding) => boolean
+  ): Section[][][] {
+    const sections: Section[][][] = []
+
+    continua.forEach((length, documentId) => {
+      sections.push(
+        codings.map(coderCodings => {
+          const spans = coderCodings
+            .filter(c => c.documentId === documentId && include(c))
+            .map(c => [Math.max(0, c.startOffset), Math.min(length, c.endOffset)])
+            .filter(([start, end]) => end > start)
+            .sort((a, b) => a[0] - b[0])
+
+          const coderSections: Section[] = []
+          let position = 0
+          for (const [start, end] of spans) {
+            const last = coderSections[coderSections.length - 1]
+            if (last?.isUnit && start <= last.start + last.length) {
+              last.length = Math.max(last.length, end - last.start)
+              position = last.start + last.length
+              continue
+            }
+            if (start > position) {
+              coderSections.push({ start: position, length: start - position, isUnit: false })
+            }
+            coderSections.push({ start, length: end - start, isUnit: true })
+            position = end
+          }
+          if (position < length) {
+            coderSections.push({ start: position, length: length - position, isUnit: false })
+          }
+          return coderSections
+        })
+      )
+    })
+
+    return sections
+  }
+
+  /**
+   * uDo = Σ_i Σ_j≠i Σ_g Σ_h δ²_igjh / (m(m-1)L²)
+   * uDe = 2/(mL) · Σ_units [ (N-1)/3 · (2l³ - 3l² + l) + l² Σ_gaps≥l (l_gap - l + 1) ]
+   *              / (mL(mL-1) - Σ_units l(l-1))
+   */
+  private disagreements(
+    sections: Section[][][],
+    m: number,
+    L: number
+  ): { observed: number; expected: number } {
+    let observedSum = 0
+    for (const document of sections) {
+      for (let i = 0; i < m; i++) {
+        for (let j = 0; j < m; j++) {
+          if (i === j) continue
+          for (const g of document[i]) {
+            for (const h of document[j]) {
+              observedSum += sectionDistance(g, h)
+            }
+          }
+        }
+      }
+    }
+
+    const all = sections.flatMap(document => document.flat())
+    const units = all.filter(s => s.isUnit)
+    const gaps = all.filter(s => !s.isUnit)
+    const N = units.length
+    const mL = m * L
+
+    let expectedSum = 0
+    let unitPairs = 0
+    for (const { length: l } of units) {
+      let fits = 0
+      for (const gap of gaps) {
+        if (gap.length >= l) fits += gap.length - l + 1
+      }
+      expectedSum += ((N - 1) / 3) * (2 * l ** 3 - 3 * l ** 2 + l) + l ** 2 * fits
+      unitPairs += l * (l - 1)
+    }
+
+    const denominator = mL * (mL - 1) - unitPairs
+    return {
+      observed: L > 0 && m > 1 ? observedSum / (m * (m - 1) * L * L) : 0,
+      expected: denominator > 0 ? ((2 / mL) * expectedSum) / denominator : 0,
+    }
+  }
+
+  /**
+   * cuα over characters where at least two coders placed a unit.
+   * The continuum is swept between the boundaries where a coder's value can
+   * change; intervals with identical coder values are weighted by their length.
+   */
+  private calculateCodingAlpha(
+    codings: Coding[][],
+    continua: Map<string, number>
+  ): { alpha: number; overlapLength: number } {
+    const runs = new Map<string, { values: (string | null)[]; length: number }>()
+
+    continua.forEach((length, documentId) => {
+      const documentCodings = codings.map(coderCodings =>
+        coderCodings
+          .filter(c => c.documentId === documentId)
+          .map(c => ({ category: categoryOf(c), start: Math.max(0, c.startOffset), end: Math.min(length, c.endOffset) }))
+          .filter(c => c.end > c.start)
+      )
+
+      const boundaries = Array.from(
+        new Set(documentCodings.flatMap(coderCodings => coderCodings.flatMap(c => [c.start, c.end])))
+      ).sort((a, b) => a - b)
+      const intervalOf = (offset: number) => binarySearch(boundaries, offset)
+
+      // Value of every coder per interval [boundaries[k], boundaries[k + 1])
+      const valuesAt = documentCodings.map(coderCodings => {
+        const values: (string | null)[] = new Array(Math.max(0, boundaries.length - 1)).fill(null)
+        // Longer spans first so nested (shorter) codings win
+        coderCodings
+          .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+          .forEach(c => values.fill(c.category, intervalOf(c.start), intervalOf(c.end)))
+        return values
+      })
+
+      for (let k = 0; k < boundaries.length - 1; k++) {
+        const values = valuesAt.map(coderValues => coderValues[k])
+        if (values.filter(v => v !== null).length < 2) continue
+        const key = JSON.stringify(values)
+        const intervalLength = boundaries[k + 1] - boundaries[k]
+        const run = runs.get(key)
+        if (run) run.length += intervalLength
+        else runs.set(key, { values, length: intervalLength })
+      }
+    })
+
+    const entries = Array.from(runs.values())
+    const result = new KrippendorffAlpha().calculateFromMatrix(
+      entries.map(run => run.values),
+      'nominal',
+      {},
+      entries.map(run => run.length)
+    )
+
+    return {
+      alpha: result.alpha,
+      overlapLength: entries.reduce((sum, run) => sum + run.length, 0),
+    }
+  }
+}
+
+interface Section {
+  start: number
+  length: number
+  isUnit: boolean
+}
+
+function categoryOf(coding: Coding): string {
+  return coding.codeId || coding.codeName
+}
+
+function alphaOf(observed: number, expected: number): number {
+  return expected === 0 ? 1 : 1 - observed / expected
+}
+
+function sectionDistance(g: Section, h: Section): number {
+  const offset = g.start - h.start
+
+  if (g.isUnit && h.isUnit) {
+    if (-g.length < offset && offset < h.length) {
+      return offset ** 2 + (g.start + g.length - h.start - h.length) ** 2
+    }
+    return 0
+  }
+  if (g.isUnit && !h.isUnit && offset >= 0 && h.length - g.length >= offset) {
+    return g.length ** 2
+  }
+  if (!g.isUnit && h.isUnit && -offset >= 0 && g.length - h.length >= -offset) {
+    return h.length ** 2
+  }
+  return 0
+}
+
+function snapCluster(group: Coding[], field: 'startOffset' | 'endOffset', tolerance: number): void {
+  const sorted = [...group].sort((a, b) => a[field] - b[field])
+  let cluster: Coding[] = []
+
+  const flush = () => {
+    if (cluster.length > 1) {
+      const median = cluster[Math.floor((cluster.length - 1) / 2)][field]
+      cluster.forEach(c => (c[field] = median))
+    }
+    cluster = []
+  }
+
+  for (const coding of sorted) {
+    const last = cluster[cluster.length - 1]
+    if (last && coding[field] - last[field] > tolerance) flush()
+    cluster.push(coding)
+  }
+  flush()
+}
+
+/** Index of a value in a sorted array that contains it */
+function binarySearch(sorted: number[], value: number): number {
+  let low = 0
+  let high = sorted.length - 1
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (sorted[middle] < value) low = middle + 1
+    else high = middle
+  }
+  return low
+}
@@ -1,5 +1,41 @@
 export { calculateIRR, type IRRCalculator } from './IRRCalculator'
-export { CohensKappa } from './CohensKappa'
+export type {
+  IRRResult,
+  IRRMetric,
+  IRROptions,
+  IRRConfidenceInterval,
+  CoderRatings,
+  MeasurementLevel,
+  KappaWeighting,
+} from '../types'
+export { CohensKappa, NO_CODE, type CohensKappaResult } from './CohensKappa'
+export {
+  calculateIRRBreakdown,
+  OTHER_CODES,
+  type BreakdownMetric,
+  type IRRBreakdown,
+  type IRRBreakdownEntry,
+  type IRRBreakdownOptions,
+  type ReliabilityUnit,
+} from './IRRBreakdown'
 export { FleissKappa } from './FleissKappa'
-export { KrippendorffAlpha } from './KrippendorffAlpha'
+export { GwetAC, type GwetACResult } from './GwetAC'
+export { ScottsPi, type ScottsPiResult } from './ScottsPi'
+export type { ChanceCorrectedResult } from './ChanceAgreement'
+export { KrippendorffAlpha, type KrippendorffAlphaResult } from './KrippendorffAlpha'
+export { agreementWeight, resolveCategoryValues, resolveScale, type CategoryScale } from './CategoryScale'
 export { PercentAgreement } from './PercentAgreement'
+export {
+  UnitizingAlpha,
+  type UnitizingAlphaOptions,
+  type UnitizingAlphaResult,
+} from './UnitizingAlpha'
+export {
+  bootstrapStatistic,
+  createSeededRandom,
+  type BootstrapOptions,
+  DEFAULT_BOOTSTRAP_SAMPLES,
+  DEFAULT_BOOTSTRAP_SEED,
+  DEFAULT_CONFIDENCE_LEVEL,
+  DEFAULT_RELIABILITY_THRESHOLD,
+} from './Bootstrap'
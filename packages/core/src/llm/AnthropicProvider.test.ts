@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { AnthropicProvider } from './AnthropicProvider'
+import { collectStream, type LLMRequest, type LLMStreamEvent } from './LLMProvider'
+import type { FetchFunction } from './http'
+
+/**
+ * Server-sent event stream cut into small pieces, so events and JSON
+ * arrive split across reads
+ */
+function sseResponse(events: unknown[]): Response {
+  const body = events.map(event => `event: x\ndata: ${JSON.stringify(event)}\n\n`).join('')
+  const bytes = new TextEncoder().encode(body)
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 7) controller.enqueue(bytes.slice(i, i + 7))
+        controller.close()
+      },
+    }),
+    { status: 200 }
+  )
+}
+
+function recordingFetch(response: () => Response) {
+  const calls: { url: string; headers: Record<string, string>; body: Record<string, unknown> }[] = []
+  const fetchFn = (async (url: string, init: RequestInit) => {
+    calls.push({ url, headers: init.headers as Record<string, string>, body: JSON.parse(String(init.body)) })
+    return response()
+  }) as unknown as FetchFunction
+  return { fetchFn, calls }
+}
+
+const REQUEST: LLMRequest = {
+  messages: [{ role: 'user', content: 'Kodiere' }],
+  system: 'System',
+  tools: [{ name: 'code_segment', description: 'Kodiert', inputSchema: { type: 'object' } }],
+  toolChoice: 'any',
+}
+
+const STREAM = [
+  { type: 'message_start', message: { id: 'msg_1', model: 'claude-test', usage: { input_tokens: 120, output_tokens: 1 } } },
+  { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Ich kodiere ' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'jetzt.' } },
+  { type: 'content_block_stop', index: 0 },
+  { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'code_segment', input: {} } },
+  { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"codeName": "Zugehö' } },
+  { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: 'rigkeit", "startSentence": "S3"}' } },
+  { type: 'content_block_stop', index: 1 },
+  { type: 'ping' },
+  { type: 'content_block_start', index: 2, content_block: { type: 'tool_use', id: 'toolu_2', name: 'code_segment', input: {} } },
+  { type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '{"codeName": "Abbruch' } },
+  { type: 'content_block_stop', index: 2 },
+  { type: 'content_block_start', index: 3, content_block: { type: 'tool_use', id: 'toolu_3', name: 'finish_coding', input: {} } },
+  { type: 'content_block_stop', index: 3 },
+  { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 85 } },
+  { type: 'message_stop' },
+]
+
+describe('AnthropicProvider', () => {
+  it('emits tool calls once their input JSON is complete', async () => {
+    const { fetchFn } = recordingFetch(() => sseResponse(STREAM))
+    const provider = new AnthropicProvider({ apiKey: 'sk-test', fetch: fetchFn })
+
+    const events: LLMStreamEvent[] = []
+    for await (const event of provider.stream(REQUEST)) events.push(event)
+
+    expect(events.map(e => e.type)).toEqual(['text', 'text', 'tool_call', 'tool_call', 'done'])
+    const toolCalls = events.flatMap(e => (e.type === 'tool_call' ? [e.toolCall] : []))
+    expect(toolCalls).toEqual([
+      { id: 'toolu_1', name: 'code_segment', input: { codeName: 'Zugehörigkeit', startSentence: 'S3' } },
+      { id: 'toolu_3', name: 'finish_coding', input: {} },
+    ])
+  })
+
+  it('reports text, usage, stop reason and skipped tool calls in the final response', async () => {
+    const { fetchFn } = recordingFetch(() => sseResponse(STREAM))
+    const response = await collectStream(new AnthropicProvider({ fetch: fetchFn }).stream(REQUEST))
+
+    expect(response.text).toBe('Ich kodiere jetzt.')
+    expect(response.model).toBe('claude-test')
+    expect(response.usage).toEqual({ inputTokens: 120, outputTokens: 85 })
+    expect(response.stopReason).toBe('tool_use')
+    expect(response.toolCalls).toHaveLength(2)
+    expect(response.warnings).toEqual(['Invalid input of tool code_segment: {"codeName": "Abbruch'])
+  })
+
+  it('fails on error events', async () => {
+    const { fetchFn } = recordingFetch(() =>
+      sseResponse([STREAM[0], { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }])
+    )
+    await expect(collectStream(new AnthropicProvider({ fetch: fetchFn }).stream(REQUEST))).rejects.toThrow(
+      'LLM request failed: Overloaded'
+    )
+  })
+
+  it('maps tool use blocks of a complete response', async () => {
+    const { fetchFn, calls } = recordingFetch(() =>
+      Response.json({
+        model: 'claude-test',
+        content: [
+          { type: 'text', text: 'Fertig' },
+          { type: 'tool_use', id: 'toolu_1', name: 'code_segment', input: { codeName: 'Unsicherheit', startSentence: 'S1' } },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 20 },
+      })
+    )
+    const response = await new AnthropicProvider({ apiKey: 'sk-test', fetch: fetchFn }).complete(REQUEST)
+
+    expect(response.toolCalls).toEqual([
+      { id: 'toolu_1', name: 'code_segment', input: { codeName: 'Unsicherheit', startSentence: 'S1' } },
+    ])
+    expect(response.text).toBe('Fertig')
+    expect(calls[0].url).toBe('https://api.anthropic.com/v1/messages')
+    expect(calls[0].headers['x-api-key']).toBe('sk-test')
+    expect(calls[0].headers['anthropic-dangerous-direct-browser-access']).toBeUndefined()
+    expect(calls[0].body).toMatchObject({
+      system: 'System',
+      tools: [{ name: 'code_segment', description: 'Kodiert', input_schema: { type: 'object' } }],
+      tool_choice: { type: 'any' },
+    })
+  })
+})
@@ -0,0 +1,207 @@
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamEvent, LLMToolCall } from './LLMProvider'
+import { postJson, readServerSentEvents, type FetchFunction } from './http'
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1'
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514'
+const API_VERSION = '2023-06-01'
+
+export interface AnthropicProviderConfig {
+  apiKey?: string
+  model?: string
+  /** API root, e.g. a proxy (default: https://api.anthropic.com/v1) */
+  baseUrl?: string
+  /** Extra request headers */
+  headers?: Record<string, string>
+  /** Allow direct calls from a browser with a user-provided key */
+  dangerouslyAllowBrowser?: boolean
+  fetch?: FetchFunction
+}
+
+/**
+ * Request body of the Messages API
+ */
+export interface AnthropicRequest {
+  model: string
+  max_tokens: number
+  temperature: number
+  system?: string
+  messages: { role: 'user' | 'assistant'; content: string }[]
+  tools?: { name: string; description: string; input_schema: Record<string, unknown> }[]
+  tool_choice?: { type: 'auto' | 'any' } | { type: 'tool'; name: string }
+}
+
+/**
+ * Server-sent events of the Messages API (stream: true)
+ */
+export type AnthropicStreamEvent =
+  | { type: 'message_start'; message: { id: string; model: string; usage: { input_tokens: number; output_tokens: number } } }
+  | {
+      type: 'content_block_start'
+      index: number
+      content_block:
+        | { type: 'text'; text: string }
+        | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+    }
+  | {
+      type: 'content_block_delta'
+      index: number
+      delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string }
+    }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta: { stop_reason: string | null }; usage?: { output_tokens: number } }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } }
+
+interface AnthropicMessage {
+  model: string
+  content: (
+    | { type: 'text'; text: string }
+    | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  )[]
+  stop_reason: string | null
+  usage: { input_tokens: number; output_tokens: number }
+}
+
+/**
+ * Claude via the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic'
+  private config: AnthropicProviderConfig
+
+  constructor(config: AnthropicProviderConfig = {}) {
+    this.config = config
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post(toAnthropicRequest(request, this.config.model), request.signal)
+    const message = (await response.json()) as AnthropicMessage
+
+    return {
+      text: message.content.map(block => (block.type === 'text' ? block.text : '')).join(''),
+      toolCalls: message.content.flatMap(block =>
+        block.type === 'tool_use' ? [{ id: block.id, name: block.name, input: block.input }] : []
+      ),
+      model: message.model,
+      usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+      stopReason: message.stop_reason,
+    }
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const response = await this.post({ ...toAnthropicRequest(request, this.config.model), stream: true }, request.signal)
+    yield* readAnthropicStream(parseEvents(readServerSentEvents(response)))
+  }
+
+  private post(body: AnthropicRequest & { stream?: boolean }, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = {
+      'anthropic-version': API_VERSION,
+      ...this.config.headers,
+    }
+    if (this.config.apiKey) headers['x-api-key'] = this.config.apiKey
+    if (this.config.dangerouslyAllowBrowser) headers['anthropic-dangerous-direct-browser-access'] = 'true'
+
+    const baseUrl = (this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '')
+    return postJson(this.config.fetch || fetch, `${baseUrl}/messages`, headers, body, signal)
+  }
+}
+
+/**
+ * Map a provider-neutral request onto the Messages API
+ */
+export function toAnthropicRequest(request: LLMRequest, defaultModel: string = DEFAULT_MODEL): AnthropicRequest {
+  const choice = request.toolChoice
+  return {
+    model: request.model || defaultModel,
+    max_tokens: request.maxTokens || 4096,
+    temperature: request.temperature ?? 0.3,
+    system: request.system,
+    messages: request.messages,
+    tools: request.tools?.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    })),
+    tool_choice: !choice || !request.tools?.length
+      ? undefined
+      : typeof choice === 'string' ? { type: choice } : { type: 'tool', name: choice.name },
+  }
+}
+
+/**
+ * Turn raw Messages API events into provider-neutral stream events;
+ * tool calls are emitted when their content block is complete
+ */
+export async function* readAnthropicStream(events: AsyncIterable<AnthropicStreamEvent>): AsyncIterable<LLMStreamEvent> {
+  const response: LLMResponse = {
+    text: '',
+    toolCalls: [],
+    model: '',
+    usage: { inputTokens: 0, outputTokens: 0 },
+    stopReason: null,
+  }
+  const blocks = new Map<number, { toolCall?: Omit<LLMToolCall, 'input'>; input: Record<string, unknown>; json: string }>()
+
+  for await (const event of events) {
+    switch (event.type) {
+      case 'message_start':
+        response.model = event.message.model
+        response.usage.inputTokens = event.message.usage.input_tokens
+        break
+
+      case 'content_block_start':
+        blocks.set(event.index, event.content_block.type === 'tool_use'
+          ? {
+              toolCall: { id: event.content_block.id, name: event.content_block.name },
+              input: event.content_block.input,
+              json: '',
+            }
+          : { input: {}, json: '' })
+        break
+
+      case 'content_block_delta': {
+        const block = blocks.get(event.index)
+        if (event.delta.type === 'text_delta') {
+          response.text += event.delta.text
+          yield { type: 'text', text: event.delta.text }
+        } else if (block) {
+          block.json += event.delta.partial_json
+        }
+        break
+      }
+
+      case 'content_block_stop': {
+        const block = blocks.get(event.index)
+        if (!block?.toolCall) break
+        let input: Record<string, unknown>
+        try {
+          input = block.json ? JSON.parse(block.json) : block.input
+        } catch {
+          response.warnings = [...(response.warnings || []), `Invalid input of tool ${block.toolCall.name}: ${block.json}`]
+          break
+        }
+        const toolCall = { ...block.toolCall, input }
+        response.toolCalls.push(toolCall)
+        yield { type: 'tool_call', toolCall }
+        break
+      }
+
+      case 'message_delta':
+        response.stopReason = event.delta.stop_reason
+        if (event.usage) response.usage.outputTokens = event.usage.output_tokens
+        break
+
+      case 'error':
+        throw new Error(`LLM request failed: ${event.error.message}`)
+    }
+  }
+
+  yield { type: 'done', response }
+}
+
+async function* parseEvents(data: AsyncIterable<string>): AsyncIterable<AnthropicStreamEvent> {
+  for await (const payload of data) {
+    yield JSON.parse(payload) as AnthropicStreamEvent
+  }
+}
@@ -0,0 +1,73 @@
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamEvent } from './LLMProvider'
+
+/**
+ * Scripted answer of the fixture provider
+ */
+export interface FixtureResponse {
+  text?: string
+  toolCalls?: { name: string; input: Record<string, unknown> }[]
+}
+
+export interface FixtureProviderConfig {
+  /**
+   * Answers in order (the last one repeats), or a function of the request
+   * and its zero-based index
+   */
+  responses: FixtureResponse[] | ((request: LLMRequest, index: number) => FixtureResponse)
+  model?: string
+}
+
+/**
+ * Deterministic provider for tests and offline runs: no network, no randomness.
+ * All received requests are kept in `requests` for assertions.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture'
+  readonly requests: LLMRequest[] = []
+  private config: FixtureProviderConfig
+
+  constructor(config: FixtureProviderConfig) {
+    this.config = config
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    return this.respond(request)
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const response = this.respond(request)
+    if (response.text) yield { type: 'text', text: response.text }
+    for (const toolCall of response.toolCalls) {
+      yield { type: 'tool_call', toolCall }
+    }
+    yield { type: 'done', response }
+  }
+
+  private respond(request: LLMRequest): LLMResponse {
+    const index = this.requests.length
+    this.requests.push(request)
+
+    const { responses } = this.config
+    const fixture = typeof responses === 'function'
+      ? responses(request, index)
+      : responses[Math.min(index, responses.length - 1)] || {}
+
+    const toolCalls = (fixture.toolCalls || []).map((call, i) => ({
+      id: `fixture-${index}-${i}`,
+      name: call.name,
+      input: call.input,
+    }))
+    const text = fixture.text || ''
+
+    return {
+      text,
+      toolCalls,
+      model: request.model || this.config.model || 'fixture',
+      usage: {
+        inputTokens: Math.ceil(((request.system || '') + request.messages.map(m => m.content).join('')).length / 4),
+        outputTokens: Math.ceil((text.length + JSON.stringify(toolCalls).length) / 4),
+      },
+      stopReason: toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Provider-neutral interface for the language models behind AI coding
+ *
+ * The coding engines only talk to an `LLMProvider`. Providers translate
+ * requests to their API and report completed tool calls while streaming,
+ * so codings can be shown before the whole answer has arrived.
+ */
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMTool {
+  name: string
+  description: string
+  /** JSON schema of the tool input */
+  inputSchema: Record<string, unknown>
+}
+
+/** auto = model decides, any = some tool must be called, { name } = this tool */
+export type LLMToolChoice = 'auto' | 'any' | { name: string }
+
+export interface LLMRequest {
+  messages: LLMMessage[]
+  system?: string
+  /** Overrides the provider's default model */
+  model?: string
+  maxTokens?: number
+  temperature?: number
+  tools?: LLMTool[]
+  toolChoice?: LLMToolChoice
+  signal?: AbortSignal
+}
+
+export interface LLMToolCall {
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMResponse {
+  text: string
+  toolCalls: LLMToolCall[]
+  model: string
+  usage: LLMUsage
+  stopReason: string | null
+  /** Parts of the answer the provider had to skip, e.g. tool calls with invalid JSON input */
+  warnings?: string[]
+}
+
+/**
+ * Stream events: text deltas, tool calls once their input is complete,
+ * and the full response at the end
+ */
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; toolCall: LLMToolCall }
+  | { type: 'done'; response: LLMResponse }
+
+export interface LLMProvider {
+  /** Provider id, e.g. "anthropic" */
+  readonly name: string
+  complete(request: LLMRequest): Promise<LLMResponse>
+  stream(request: LLMRequest): AsyncIterable<LLMStreamEvent>
+}
+
+/**
+ * Consume a stream and return its final response
+ */
+export async function collectStream(stream: AsyncIterable<LLMStreamEvent>): Promise<LLMResponse> {
+  const response: LLMResponse = {
+    text: '',
+    toolCalls: [],
+    model: '',
+    usage: { inputTokens: 0, outputTokens: 0 },
+    stopReason: null,
+  }
+
+  for await (const event of stream) {
+    if (event.type === 'done') return event.response
+    if (event.type === 'text') response.text += event.text
+    if (event.type === 'tool_call') response.toolCalls.push(event.toolCall)
+  }
+
+  return response
+}
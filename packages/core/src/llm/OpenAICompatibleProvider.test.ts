@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider'
+import { collectStream, type LLMRequest, type LLMStreamEvent } from './LLMProvider'
+import type { FetchFunction } from './http'
+
+/**
+ * Server-sent event stream cut into small pieces, ending with [DONE]
+ */
+function sseResponse(chunks: unknown[]): Response {
+  const body = [...chunks.map(chunk => JSON.stringify(chunk)), '[DONE]'].map(data => `data: ${data}\n\n`).join('')
+  const bytes = new TextEncoder().encode(body)
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 5) controller.enqueue(bytes.slice(i, i + 5))
+        controller.close()
+      },
+    }),
+    { status: 200 }
+  )
+}
+
+function recordingFetch(response: () => Response) {
+  const calls: { url: string; headers: Record<string, string>; body: Record<string, unknown> }[] = []
+  const fetchFn = (async (url: string, init: RequestInit) => {
+    calls.push({ url, headers: init.headers as Record<string, string>, body: JSON.parse(String(init.body)) })
+    return response()
+  }) as unknown as FetchFunction
+  return { fetchFn, calls }
+}
+
+const REQUEST: LLMRequest = {
+  messages: [{ role: 'user', content: 'Kodiere' }],
+  system: 'System',
+  tools: [{ name: 'code_segment', description: 'Kodiert', inputSchema: { type: 'object' } }],
+  toolChoice: 'any',
+}
+
+function delta(choiceDelta: Record<string, unknown>, finishReason: string | null = null) {
+  return { model: 'qwen-test', choices: [{ delta: choiceDelta, finish_reason: finishReason }] }
+}
+
+const STREAM = [
+  delta({ content: 'Los ' }),
+  delta({ content: 'geht’s' }),
+  delta({ tool_calls: [{ index: 0, id: 'call_a', function: { name: 'code_segment', arguments: '' } }] }),
+  delta({ tool_calls: [{ index: 0, function: { arguments: '{"codeName":"Zugehö' } }] }),
+  delta({ tool_calls: [{ index: 0, function: { arguments: 'rigkeit","startSentence":"S3"}' } }] }),
+  delta({ tool_calls: [{ index: 1, id: 'call_b', function: { name: 'code_segment', arguments: '{"codeName":' } }] }),
+  delta({ tool_calls: [{ index: 2, id: 'call_c', function: { name: 'finish_coding', arguments: '{"summary":"ok"}' } }] }),
+  delta({}, 'tool_calls'),
+  { choices: [], usage: { prompt_tokens: 200, completion_tokens: 40 } },
+]
+
+describe('OpenAICompatibleProvider', () => {
+  const config = { baseUrl: 'http://localhost:11434/v1/', model: 'qwen-test' }
+
+  it('assembles tool call arguments streamed in pieces', async () => {
+    const { fetchFn } = recordingFetch(() => sseResponse(STREAM))
+    const provider = new OpenAICompatibleProvider({ ...config, fetch: fetchFn })
+
+    const events: LLMStreamEvent[] = []
+    for await (const event of provider.stream(REQUEST)) events.push(event)
+
+    expect(events.map(e => e.type)).toEqual(['text', 'text', 'tool_call', 'tool_call', 'done'])
+    expect(events.flatMap(e => (e.type === 'tool_call' ? [e.toolCall] : []))).toEqual([
+      { id: 'call_a', name: 'code_segment', input: { codeName: 'Zugehörigkeit', startSentence: 'S3' } },
+      { id: 'call_c', name: 'finish_coding', input: { summary: 'ok' } },
+    ])
+  })
+
+  it('reports text, usage, finish reason and skipped tool calls in the final response', async () => {
+    const { fetchFn } = recordingFetch(() => sseResponse(STREAM))
+    const response = await collectStream(new OpenAICompatibleProvider({ ...config, fetch: fetchFn }).stream(REQUEST))
+
+    expect(response.text).toBe('Los geht’s')
+    expect(response.model).toBe('qwen-test')
+    expect(response.usage).toEqual({ inputTokens: 200, outputTokens: 40 })
+    expect(response.stopReason).toBe('tool_calls')
+    expect(response.warnings).toEqual(['Invalid input of tool code_segment: {"codeName":'])
+  })
+
+  it('maps tool calls of a complete response', async () => {
+    const { fetchFn, calls } = recordingFetch(() =>
+      Response.json({
+        model: 'qwen-test',
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                { id: 'call_a', function: { name: 'code_segment', arguments: '{"codeName":"Unsicherheit"}' } },
+                { function: { name: 'finish_coding', arguments: '' } },
+                { id: 'call_c', function: { name: 'code_segment', arguments: 'not json' } },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+      })
+    )
+    const response = await new OpenAICompatibleProvider({ ...config, apiKey: 'key', fetch: fetchFn }).complete(REQUEST)
+
+    expect(response.toolCalls).toEqual([
+      { id: 'call_a', name: 'code_segment', input: { codeName: 'Unsicherheit' } },
+      { id: 'call-1', name: 'finish_coding', input: {} },
+    ])
+    expect(response.warnings).toEqual(['Invalid input of tool code_segment: not json'])
+    expect(response.usage).toEqual({ inputTokens: 0, outputTokens: 0 })
+
+    expect(calls[0].url).toBe('http://localhost:11434/v1/chat/completions')
+    expect(calls[0].headers.Authorization).toBe('Bearer key')
+    expect(calls[0].body).toMatchObject({
+      messages: [{ role: 'system', content: 'System' }, { role: 'user', content: 'Kodiere' }],
+      tools: [{ type: 'function', function: { name: 'code_segment', description: 'Kodiert', parameters: { type: 'object' } } }],
+      tool_choice: 'required',
+    })
+  })
+})
@@ -0,0 +1,187 @@
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamEvent, LLMToolCall } from './LLMProvider'
+import { postJson, readServerSentEvents, type FetchFunction } from './http'
+
+export interface OpenAICompatibleProviderConfig {
+  /** API root including the version, e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8000/v1 (vLLM) */
+  baseUrl: string
+  model: string
+  /** Optional for local servers */
+  apiKey?: string
+  headers?: Record<string, string>
+  fetch?: FetchFunction
+  /** Provider id reported to callers (default: "openai-compatible") */
+  name?: string
+}
+
+interface ChatToolCall {
+  id?: string
+  function: { name: string; arguments: string }
+}
+
+interface ChatCompletion {
+  model: string
+  choices: {
+    message: { content: string | null; tool_calls?: ChatToolCall[] }
+    finish_reason: string | null
+  }[]
+  usage?: { prompt_tokens: number; completion_tokens: number }
+}
+
+interface ChatCompletionChunk {
+  model?: string
+  choices: {
+    delta: {
+      content?: string | null
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[]
+    }
+    finish_reason: string | null
+  }[]
+  usage?: { prompt_tokens: number; completion_tokens: number } | null
+}
+
+/**
+ * Any server with an OpenAI-style /chat/completions endpoint: OpenAI,
+ * Ollama, vLLM, LM Studio, llama.cpp server. Tools are sent as functions.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string
+  private config: OpenAICompatibleProviderConfig
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.config = config
+    this.name = config.name || 'openai-compatible'
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post(this.toChatRequest(request), request.signal)
+    const completion = (await response.json()) as ChatCompletion
+    const choice = completion.choices[0]
+
+    const warnings: string[] = []
+    const toolCalls = (choice?.message.tool_calls || []).flatMap((call, index) => {
+      const toolCall = parseToolCall(call.id || `call-${index}`, call.function.name, call.function.arguments)
+      if (!toolCall) warnings.push(invalidToolInput(call.function.name, call.function.arguments))
+      return toolCall ? [toolCall] : []
+    })
+
+    return {
+      text: choice?.message.content || '',
+      toolCalls,
+      model: completion.model,
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens || 0,
+        outputTokens: completion.usage?.completion_tokens || 0,
+      },
+      stopReason: choice?.finish_reason ?? null,
+      ...(warnings.length > 0 && { warnings }),
+    }
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const response = await this.post({ ...this.toChatRequest(request), stream: true }, request.signal)
+    const result: LLMResponse = {
+      text: '',
+      toolCalls: [],
+      model: request.model || this.config.model,
+      usage: { inputTokens: 0, outputTokens: 0 },
+      stopReason: null,
+    }
+
+    // Tool call arguments arrive in pieces, keyed by index; a call is complete
+    // once the next one starts or the stream ends
+    const pending = new Map<number, { id: string; name: string; arguments: string }>()
+    const flush = function* (upTo: number): Generator<LLMStreamEvent> {
+      for (const index of [...pending.keys()].sort((a, b) => a - b)) {
+        if (index >= upTo) continue
+        const call = pending.get(index)!
+        pending.delete(index)
+        const toolCall = parseToolCall(call.id, call.name, call.arguments)
+        if (toolCall) {
+          result.toolCalls.push(toolCall)
+          yield { type: 'tool_call', toolCall }
+        } else {
+          result.warnings = [...(result.warnings || []), invalidToolInput(call.name, call.arguments)]
+        }
+      }
+    }
+
+    for await (const payload of readServerSentEvents(response)) {
+      const chunk = JSON.parse(payload) as ChatCompletionChunk
+      if (chunk.model) result.model = chunk.model
+      if (chunk.usage) {
+        result.usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens }
+      }
+
+      const choice = chunk.choices?.[0]
+      if (!choice) continue
+
+      if (choice.delta.content) {
+        result.text += choice.delta.content
+        yield { type: 'text', text: choice.delta.content }
+      }
+
+      for (const delta of choice.delta.tool_calls || []) {
+        if (!pending.has(delta.index)) {
+          yield* flush(delta.index)
+          pending.set(delta.index, { id: delta.id || `call-${delta.index}`, name: '', arguments: '' })
+        }
+        const call = pending.get(delta.index)!
+        if (delta.id) call.id = delta.id
+        if (delta.function?.name) call.name += delta.function.name
+        if (delta.function?.arguments) call.arguments += delta.function.arguments
+      }
+
+      if (choice.finish_reason) result.stopReason = choice.finish_reason
+    }
+
+    yield* flush(Infinity)
+    yield { type: 'done', response: result }
+  }
+
+  private toChatRequest(request: LLMRequest) {
+    const choice = request.toolChoice
+    const hasTools = !!request.tools?.length
+
+    return {
+      model: request.model || this.config.model,
+      max_tokens: request.maxTokens || 4096,
+      temperature: request.temperature ?? 0.3,
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages,
+      ],
+      tools: hasTools
+        ? request.tools!.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+          }))
+        : undefined,
+      tool_choice: !hasTools || !choice
+        ? undefined
+        : choice === 'any' ? 'required'
+        : choice === 'auto' ? 'auto'
+        : { type: 'function', function: { name: choice.name } },
+    }
+  }
+
+  private post(body: unknown, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { ...this.config.headers }
+    if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`
+
+    const baseUrl = this.config.baseUrl.replace(/\/$/, '')
+    return postJson(this.config.fetch || fetch, `${baseUrl}/chat/completions`, headers, body, signal)
+  }
+}
+
+function parseToolCall(id: string, name: string, args: string): LLMToolCall | null {
+  try {
+    const input = args.trim() ? JSON.parse(args) : {}
+    return { id, name, input: typeof input === 'object' && input !== null ? input : {} }
+  } catch {
+    return null
+  }
+}
+
+function invalidToolInput(name: string, args: string): string {
+  return `Invalid input of tool ${name}: ${args}`
+}
@@ -0,0 +1,65 @@
+/**
+ * HTTP helpers shared by the API providers
+ */
+
+export type FetchFunction = typeof fetch
+
+export async function postJson(
+  fetchFn: FetchFunction,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetchFn(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    const message = error?.error?.message || error?.message || `HTTP ${response.status}`
+    throw new Error(`LLM request failed: ${message}`)
+  }
+
+  return response
+}
+
+/**
+ * Data payloads of a server-sent event stream; "[DONE]" markers are skipped
+ */
+export async function* readServerSentEvents(response: Response): AsyncIterable<string> {
+  if (!response.body) {
+    throw new Error('LLM request failed: streaming is not supported by this environment')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const takeEvent = (raw: string): string =>
+    raw
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('')
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    // Events are separated by a blank line
+    let match: RegExpExecArray | null
+    while ((match = /\r?\n\r?\n/.exec(buffer)) !== null) {
+      const data = takeEvent(buffer.slice(0, match.index))
+      buffer = buffer.slice(match.index + match[0].length)
+      if (data && data !== '[DONE]') yield data
+    }
+  }
+
+  const rest = takeEvent(buffer)
+  if (rest && rest !== '[DONE]') yield rest
+}
@@ -0,0 +1,23 @@
+export {
+  collectStream,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMMessage,
+  type LLMTool,
+  type LLMToolCall,
+  type LLMToolChoice,
+  type LLMUsage,
+  type LLMStreamEvent,
+} from './LLMProvider'
+export {
+  AnthropicProvider,
+  toAnthropicRequest,
+  readAnthropicStream,
+  type AnthropicProviderConfig,
+  type AnthropicRequest,
+  type AnthropicStreamEvent,
+} from './AnthropicProvider'
+export { OpenAICompatibleProvider, type OpenAICompatibleProviderConfig } from './OpenAICompatibleProvider'
+export { FixtureProvider, type FixtureProviderConfig, type FixtureResponse } from './FixtureProvider'
+export { MODEL_PRICING, getModelPricing, estimateCost, type ModelPricing } from './pricing'
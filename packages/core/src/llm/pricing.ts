@@ -0,0 +1,47 @@
+import type { LLMUsage } from './LLMProvider'
+
+/**
+ * List prices in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
+/**
+ * Prices by model id prefix; the longest matching prefix wins, so dated
+ * snapshots (claude-sonnet-4-20250514) use the price of their family.
+ * Local models (Ollama, vLLM) are not listed and cost nothing.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+}
+
+/**
+ * Price of a model, or null if it is unknown (e.g. a local model)
+ */
+export function getModelPricing(model: string): ModelPricing | null {
+  let match: string | null = null
+  for (const prefix of Object.keys(MODEL_PRICING)) {
+    if (model.startsWith(prefix) && (!match || prefix.length > match.length)) match = prefix
+  }
+  return match ? MODEL_PRICING[match] : null
+}
+
+/**
+ * Cost of a request in USD; 0 for models without a price
+ */
+export function estimateCost(usage: LLMUsage, model: string): number {
+  const pricing = getModelPricing(model)
+  if (!pricing) return 0
+  return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1_000_000
+}
@@ -25,6 +25,17 @@ export interface Coding {
   createdAt: string
 }
 
+/**
+ * Human-reviewed example of a code from earlier AI codings: accepted codings
+ * are positive, rejected ones negative exemplars
+ */
+export interface CodingExemplar {
+  codeId: string
+  codeName: string
+  text: string
+  polarity: 'positive' | 'negative'
+}
+
 export interface Document {
   id: string
   name: string
@@ -36,14 +47,28 @@ export interface Document {
 export interface CodingResult {
   codings: Coding[]
   codes: Code[]
+  /** Short summary of the analysis by the model */
+  summary?: string
   metadata: {
     method: CodingMethod
     duration: number
+    /** Input + output tokens reported by the provider */
     tokenCount?: number
+    usage?: CodingUsage
+    /** Model that answered, as reported by the provider */
+    model?: string
+    /** Tool calls of the model that were skipped, e.g. invalid input or unknown sentence anchors */
+    warnings?: string[]
     consensusRate?: number
   }
 }
 
+export interface CodingUsage {
+  inputTokens: number
+  outputTokens: number
+  requests: number
+}
+
 export type CodingMethod =
   | 'dynamic-personas'
   | 'three-expert'
@@ -56,8 +81,21 @@ export interface CodingOptions {
   language?: 'de' | 'en'
   maxCodes?: number
   minConfidence?: number
+  /** Reviewed examples per code, used as few-shot examples and by the pattern matching */
+  exemplars?: CodingExemplar[]
+  /** Progress in percent with a status text */
+  onProgress?: (progress: number, status: string) => void
+  /** Called for every coding as soon as the model has streamed it */
+  onCoding?: CodingStreamHandler
+  signal?: AbortSignal
 }
 
+/**
+ * Streamed coding; source names the persona/expert pass it came from.
+ * The model's reasoning is in `memo`.
+ */
+export type CodingStreamHandler = (coding: Coding, source: string) => void
+
 export interface CoderRatings {
   coderId: string
   coderName: string
@@ -75,7 +113,26 @@ export interface IRRResult {
     coderCount: number
     categoryCount: number
     unitCount: number
+    level?: MeasurementLevel
+    weighting?: KappaWeighting
+    /** Analytic standard error (Gwet's AC1/AC2, Scott's Pi) */
+    standardError?: number
+    /** Cohen's Kappa: rows = first coder, columns = second coder */
+    categories?: string[]
+    confusionMatrix?: number[][]
   }
+  confidenceInterval?: IRRConfidenceInterval
+}
+
+export interface IRRConfidenceInterval {
+  lower: number
+  upper: number
+  confidenceLevel: number
+  standardError: number
+  samples: number
+  seed: number
+  threshold: number
+  probabilityBelowThreshold: number
 }
 
 export type IRRMetric =
@@ -83,10 +140,33 @@ export type IRRMetric =
   | 'fleiss-kappa'
   | 'krippendorff-alpha'
   | 'percent-agreement'
+  | 'unitizing-alpha'
+  | 'gwet-ac1'
+  | 'gwet-ac2'
+  | 'scotts-pi'
+
+export type MeasurementLevel = 'nominal' | 'ordinal' | 'interval' | 'ratio'
+
+export type KappaWeighting = 'linear' | 'quadratic'
 
 export interface IRROptions {
   metric: IRRMetric
-  weightedKappa?: boolean
+  /** Weights for Cohen's Kappa, Scott's Pi and Gwet's AC2 (default quadratic); true = linear */
+  weightedKappa?: boolean | KappaWeighting
+  /** Level of measurement for Krippendorff's Alpha */
+  level?: MeasurementLevel
+  /** Category (code) order for ordinal scales */
+  categoryOrder?: string[]
+  /** Numeric category values for interval/ratio scales */
+  categoryValues?: Record<string, number>
+  /** Document lengths in characters for unitizing alpha (default: last coded offset) */
+  continuumLengths?: Record<string, number>
+  /** Boundary tolerance in characters for unitizing alpha */
+  overlapTolerance?: number
   bootstrapCI?: boolean
   bootstrapSamples?: number
+  bootstrapSeed?: number
+  confidenceLevel?: number
+  /** Minimum acceptable value; the bootstrap reports the probability of falling below it */
+  bootstrapThreshold?: number
 }